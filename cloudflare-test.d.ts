@@ -2,13 +2,25 @@
 // This module is provided by @cloudflare/vitest-pool-workers
 
 declare module 'cloudflare:test' {
-  import type { KVNamespace } from '@cloudflare/workers-types';
+  export interface D1Migration {
+    name: string;
+    queries: string[];
+  }
 
   export interface TestEnv {
     TODO_KV: KVNamespace;
+    TEST_DB: D1Database;
+    TEST_MIGRATIONS: D1Migration[];
+    TEST_DO: DurableObjectNamespace<import('./src/storage/durable').TodoListObject>;
     VALID_API_KEYS: string;
     ALLOWED_ORIGINS: string;
   }
 
   export const env: TestEnv;
+
+  export function applyD1Migrations(
+    db: D1Database,
+    migrations: D1Migration[],
+    migrationsTableName?: string
+  ): Promise<void>;
 }
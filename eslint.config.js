@@ -20,7 +20,18 @@ export default [
         Request: 'readonly',
         console: 'readonly',
         crypto: 'readonly',
+        TextEncoder: 'readonly',
+        TextDecoder: 'readonly',
+        atob: 'readonly',
+        btoa: 'readonly',
         KVNamespace: 'readonly',
+        KVNamespaceListKey: 'readonly',
+        D1Database: 'readonly',
+        D1PreparedStatement: 'readonly',
+        DurableObjectNamespace: 'readonly',
+        DurableObjectStub: 'readonly',
+        ScheduledController: 'readonly',
+        ExportedHandler: 'readonly',
         fetch: 'readonly',
         // Vitest globals
         describe: 'readonly',
@@ -36,7 +47,10 @@ export default [
     },
     rules: {
       ...tseslint.configs.recommended.rules,
-      '@typescript-eslint/no-unused-vars': ['error', { argsIgnorePattern: '^_' }],
+      '@typescript-eslint/no-unused-vars': [
+        'error',
+        { argsIgnorePattern: '^_', ignoreRestSiblings: true },
+      ],
       '@typescript-eslint/no-explicit-any': 'warn',
       '@typescript-eslint/explicit-function-return-type': 'off',
       '@typescript-eslint/explicit-module-boundary-types': 'off',
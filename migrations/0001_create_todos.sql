@@ -0,0 +1,17 @@
+-- Migration number: 0001
+-- Todo項目テーブルの作成
+--
+-- 参照:
+-- - 要件5: データ永続化 (requirements.md)
+-- - task-reordering要件1.1: positionは0から始まる連続した整数
+
+CREATE TABLE IF NOT EXISTS todos (
+  id TEXT PRIMARY KEY NOT NULL,
+  title TEXT NOT NULL,
+  completed INTEGER NOT NULL DEFAULT 0 CHECK (completed IN (0, 1)),
+  created_at TEXT NOT NULL,
+  position INTEGER NOT NULL
+);
+
+-- getAll() の ORDER BY position を索引で解決する
+CREATE INDEX IF NOT EXISTS idx_todos_position ON todos (position);
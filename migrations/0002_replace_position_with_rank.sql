@@ -0,0 +1,20 @@
+-- Migration number: 0002
+-- 並び順をpositionの連続した整数からランク文字列（LexoRank方式）に置き換える
+--
+-- 移動・削除時に他の行のpositionを書き換える必要がなくなり、書き込みは1行で済む。
+-- APIが返すpositionはランク順から読み込み時に算出する（src/utils/rank.ts）。
+--
+-- 参照:
+-- - task-reordering要件1.1-1.3 (task-reordering/requirements.md)
+
+ALTER TABLE todos ADD COLUMN rank TEXT NOT NULL DEFAULT '';
+
+-- 既存の並び順を保ったままランクを割り当てる
+-- 0埋めした数字はランクの辞書順と一致し、末尾の 'i' で後続の挿入余地を残す
+UPDATE todos SET rank = printf('%08di', position);
+
+DROP INDEX IF EXISTS idx_todos_position;
+ALTER TABLE todos DROP COLUMN position;
+
+-- getAll() の ORDER BY rank, id を索引で解決する
+CREATE INDEX IF NOT EXISTS idx_todos_rank ON todos (rank, id);
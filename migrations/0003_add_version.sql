@@ -0,0 +1,8 @@
+-- Migration number: 0003
+-- 楽観的並行性制御のためのバージョン列を追加する
+--
+-- versionは作成時に1となり、更新のたびに1ずつ増加する。
+-- APIはversionをETagとして返し、If-Matchが一致しない更新・削除・並び替えを
+-- 412 Precondition Failedで拒否する（src/utils/etag.ts）。
+
+ALTER TABLE todos ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
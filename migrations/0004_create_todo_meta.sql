@@ -0,0 +1,11 @@
+-- Migration number: 0004
+-- 一覧の最終更新日時を保持するメタデータテーブルを作成する
+--
+-- 削除や並び替えは行の値から最終更新日時を求められないため、
+-- 書き込みのたびに同じbatch（トランザクション）で `last_modified` を更新する。
+-- GET /todos の Last-Modified / If-Modified-Since に使用する。
+
+CREATE TABLE IF NOT EXISTS todo_meta (
+  key TEXT PRIMARY KEY NOT NULL,
+  value TEXT NOT NULL
+);
@@ -0,0 +1,9 @@
+-- Migration number: 0005
+-- Todoの期限（dueAt）と終日の期限を解釈するタイムゾーンの列を追加する
+--
+-- due_atはオフセット付きのISO 8601日時、または日付のみ（終日）の文字列。
+-- 期限のないTodoはどちらもNULLとなる。期限による絞り込みはアプリケーション側で
+-- 行うため（src/utils/query.ts）、インデックスは作成しない。
+
+ALTER TABLE todos ADD COLUMN due_at TEXT;
+ALTER TABLE todos ADD COLUMN due_timezone TEXT;
@@ -0,0 +1,8 @@
+-- Migration number: 0006
+-- Todoの優先度の列を追加する
+--
+-- priorityは none / low / medium / high / urgent のいずれか。APIは作成時に
+-- デフォルトで none を保存する。この列の追加前に作成された行はNULLのままとし、
+-- 読み込み時は他のストレージと同様にフィールドを持たない（none として扱う）。
+
+ALTER TABLE todos ADD COLUMN priority TEXT;
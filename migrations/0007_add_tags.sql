@@ -0,0 +1,9 @@
+-- Migration number: 0007
+-- Todoのタグの列を追加する
+--
+-- tagsは正規化済みのタグのJSON配列（例: ["work","urgent"]）。APIは作成時に
+-- デフォルトで [] を保存する。この列の追加前に作成された行はNULLのままとし、
+-- 読み込み時はタグなしとして扱う。タグによる絞り込みと集計はアプリケーション側で
+-- 行うため（src/utils/query.ts, src/utils/tags.ts）、インデックスは作成しない。
+
+ALTER TABLE todos ADD COLUMN tags TEXT;
@@ -0,0 +1,7 @@
+-- Migration number: 0008
+-- TodoのメモのMarkdownの列を追加する
+--
+-- notesは10000文字以内のMarkdown（改行を含む）。APIは作成時にデフォルトで空文字列を
+-- 保存する。この列の追加前に作成された行はNULLのままとし、読み込み時はメモなしとして扱う。
+
+ALTER TABLE todos ADD COLUMN notes TEXT;
@@ -0,0 +1,11 @@
+-- Migration number: 0009
+-- Todoのチェックリストの列を追加する
+--
+-- itemsはチェックリストの項目のJSON配列（例: [{"id":"...","text":"牛乳","done":false}]）で、
+-- 配列の順序が表示順。項目の追加・更新・削除・並び替えは親のTodoの更新として
+-- 配列全体を書き込む（src/handlers/items.ts）。auto_completeは0/1で、すべての項目が
+-- 完了したときにTodoを完了にするかどうか。どちらの列も、追加前に作成された行はNULLのままとし、
+-- 読み込み時は項目なし・自動完了なしとして扱う。
+
+ALTER TABLE todos ADD COLUMN items TEXT;
+ALTER TABLE todos ADD COLUMN auto_complete INTEGER;
@@ -0,0 +1,10 @@
+-- Migration number: 0010
+-- Todoの親（階層化）の列を追加する
+--
+-- parent_idは親のTodoのIDで、ルートのTodoはNULL。追加前に作成された行はNULLのままとし、
+-- ルートのTodoとして扱う。positionは同じparent_idを持つ行の中でのランク順の位置として
+-- 読み込み時に算出するため（src/storage/d1.ts）、兄弟の絞り込みに使用するインデックスを作成する。
+-- 外部キー制約は付けない（削除時の子の付け替え・削除はハンドラー層で行う）。
+
+ALTER TABLE todos ADD COLUMN parent_id TEXT;
+CREATE INDEX IF NOT EXISTS idx_todos_parent_id_rank ON todos (parent_id, rank, id);
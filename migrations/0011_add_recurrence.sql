@@ -0,0 +1,8 @@
+-- Migration number: 0011
+-- Todoの繰り返しの規則の列を追加する
+--
+-- recurrenceは正規化したRRULEのサブセット（例: FREQ=WEEKLY;BYDAY=MO）で、繰り返さないTodoはNULL。
+-- 追加前に作成された行はNULLのままとし、繰り返さないTodoとして扱う。
+-- 次の回の算出と作成はハンドラー層で行う（src/utils/recurrence.ts）。
+
+ALTER TABLE todos ADD COLUMN recurrence TEXT;
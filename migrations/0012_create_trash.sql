@@ -0,0 +1,15 @@
+-- Migration number: 0012
+-- ゴミ箱のテーブルを作成する
+--
+-- DELETE /todos/:id は行を削除せず、このテーブルに移す（deleted_atはゴミ箱に移した日時）。
+-- todoには移す前の内容をStoredTodoのJSON（ランクを含む）で保存する。todosに列が追加されても
+-- このテーブルを変更せずに済み、戻す際は元のランクで todos に挿入し直す。
+-- 保持期間（TRASH_RETENTION_DAYS）を過ぎた行はハンドラー層で削除する（src/utils/trash.ts）。
+
+CREATE TABLE IF NOT EXISTS trash (
+  id TEXT PRIMARY KEY NOT NULL,
+  todo TEXT NOT NULL,
+  deleted_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_trash_deleted_at ON trash (deleted_at);
@@ -0,0 +1,12 @@
+-- Migration number: 0013
+-- アーカイブのテーブルを作成する
+--
+-- POST /todos/:id/archive と POST /todos/archive-completed は行を todos からこのテーブルに移す
+-- （archived_atはアーカイブした日時）。todoには移す前の内容をStoredTodoのJSON（ランクを含む）で保存し、
+-- アーカイブの中での並び順に使用する。todos の行数が減るため、並び替えの負荷はアーカイブの件数に影響されない。
+
+CREATE TABLE IF NOT EXISTS archived_todos (
+  id TEXT PRIMARY KEY NOT NULL,
+  todo TEXT NOT NULL,
+  archived_at TEXT NOT NULL
+);
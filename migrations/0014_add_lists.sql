@@ -0,0 +1,18 @@
+-- Migration number: 0014
+-- 名前付きのTodoリストを追加する
+--
+-- lists はリストの一覧（デフォルトのリストは名前を変更するまで登録されず、created_atはNULL）。
+-- todos・trash・archived_todos の list_id は行が属するリストで、既存の行はデフォルトのリスト（'default'）に属する。
+-- 並び順（position）と件数の上限はリストごとに算出するため、(list_id, rank, id) のインデックスで一覧を取得する。
+
+CREATE TABLE IF NOT EXISTS lists (
+  id TEXT PRIMARY KEY NOT NULL,
+  name TEXT NOT NULL,
+  created_at TEXT
+);
+
+ALTER TABLE todos ADD COLUMN list_id TEXT NOT NULL DEFAULT 'default';
+ALTER TABLE trash ADD COLUMN list_id TEXT NOT NULL DEFAULT 'default';
+ALTER TABLE archived_todos ADD COLUMN list_id TEXT NOT NULL DEFAULT 'default';
+
+CREATE INDEX IF NOT EXISTS idx_todos_list_rank ON todos (list_id, rank, id);
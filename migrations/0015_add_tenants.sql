@@ -0,0 +1,23 @@
+-- Migration number: 0015
+-- テナント（API Keyを共有するチーム）ごとにデータを分離する
+--
+-- todos・trash・archived_todos の tenant_id は行が属するテナントで、既存の行はデフォルトのテナント（'default'）に属する。
+-- lists はテナントごとにデフォルトのリストの名前を登録できるよう、主キーを (tenant_id, id) にして作り直す。
+
+ALTER TABLE todos ADD COLUMN tenant_id TEXT NOT NULL DEFAULT 'default';
+ALTER TABLE trash ADD COLUMN tenant_id TEXT NOT NULL DEFAULT 'default';
+ALTER TABLE archived_todos ADD COLUMN tenant_id TEXT NOT NULL DEFAULT 'default';
+
+CREATE TABLE lists_by_tenant (
+  tenant_id TEXT NOT NULL DEFAULT 'default',
+  id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  created_at TEXT,
+  PRIMARY KEY (tenant_id, id)
+);
+INSERT INTO lists_by_tenant (id, name, created_at) SELECT id, name, created_at FROM lists;
+DROP TABLE lists;
+ALTER TABLE lists_by_tenant RENAME TO lists;
+
+DROP INDEX IF EXISTS idx_todos_list_rank;
+CREATE INDEX IF NOT EXISTS idx_todos_tenant_list_rank ON todos (tenant_id, list_id, rank, id);
@@ -111,6 +111,7 @@ export const FRONTEND_HTML = `<!DOCTYPE html>
 
         .todo-item {
             display: flex;
+            flex-wrap: wrap;
             align-items: center;
             gap: 12px;
             padding: 16px;
@@ -161,6 +162,124 @@ export const FRONTEND_HTML = `<!DOCTYPE html>
             background: #ee5a6f;
         }
 
+        .todo-item span.progress {
+            flex: none;
+            padding: 2px 8px;
+            border-radius: 10px;
+            background: #e9ecef;
+            color: #666;
+            font-size: 12px;
+        }
+
+        .todo-item select.priority {
+            padding: 2px 6px;
+            border: none;
+            border-radius: 10px;
+            font-size: 12px;
+            font-weight: 600;
+            cursor: pointer;
+            background: #e9ecef;
+            color: #666;
+        }
+
+        .todo-item select.priority-low {
+            background: #e3f2fd;
+            color: #1565c0;
+        }
+
+        .todo-item select.priority-medium {
+            background: #fff8e1;
+            color: #f57f17;
+        }
+
+        .todo-item select.priority-high {
+            background: #ffe0b2;
+            color: #e65100;
+        }
+
+        .todo-item select.priority-urgent {
+            background: #ff4757;
+            color: white;
+        }
+
+        .todo-detail {
+            flex-basis: 100%;
+            padding-top: 12px;
+            border-top: 1px solid #e9ecef;
+            cursor: auto;
+        }
+
+        .todo-detail .notes {
+            font-size: 14px;
+            line-height: 1.6;
+            color: #333;
+            overflow-wrap: anywhere;
+        }
+
+        .todo-detail .notes h1,
+        .todo-detail .notes h2,
+        .todo-detail .notes h3,
+        .todo-detail .notes h4,
+        .todo-detail .notes h5,
+        .todo-detail .notes h6 {
+            margin: 8px 0 4px;
+            font-size: 15px;
+        }
+
+        .todo-detail .notes p,
+        .todo-detail .notes pre {
+            margin: 4px 0;
+        }
+
+        .todo-detail .notes ul,
+        .todo-detail .notes ol {
+            margin: 4px 0;
+            padding-left: 20px;
+        }
+
+        .todo-detail .notes code {
+            padding: 1px 4px;
+            background: #e9ecef;
+            border-radius: 4px;
+            font-size: 13px;
+        }
+
+        .todo-detail .notes pre {
+            padding: 8px;
+            background: #e9ecef;
+            border-radius: 6px;
+            overflow-x: auto;
+        }
+
+        .todo-detail .notes pre code {
+            padding: 0;
+        }
+
+        .todo-detail .notes.empty-notes {
+            color: #999;
+        }
+
+        .todo-detail textarea {
+            width: 100%;
+            min-height: 120px;
+            padding: 8px;
+            border: 2px solid #e0e0e0;
+            border-radius: 6px;
+            font-family: inherit;
+            font-size: 14px;
+            resize: vertical;
+        }
+
+        .todo-detail .detail-actions {
+            display: flex;
+            gap: 8px;
+            margin-top: 8px;
+        }
+
+        .todo-item .todo-detail button {
+            background: #667eea;
+        }
+
         .todo-item.dragging {
             opacity: 0.5;
         }
@@ -179,6 +298,37 @@ export const FRONTEND_HTML = `<!DOCTYPE html>
             font-size: 14px;
         }
 
+        .undo {
+            display: flex;
+            justify-content: space-between;
+            align-items: center;
+            padding: 12px;
+            margin-bottom: 15px;
+            background: #f5f5f5;
+            border-radius: 6px;
+            font-size: 14px;
+        }
+
+        .list-bar {
+            display: flex;
+            gap: 10px;
+            margin-bottom: 20px;
+        }
+
+        .list-bar select,
+        .list-bar input {
+            flex: 1;
+            padding: 8px 12px;
+            border: 2px solid #e0e0e0;
+            border-radius: 8px;
+            font-size: 14px;
+        }
+
+        .archive-completed {
+            display: block;
+            margin: 15px 0 0 auto;
+        }
+
         .loading {
             text-align: center;
             padding: 20px;
@@ -206,6 +356,102 @@ export const FRONTEND_HTML = `<!DOCTYPE html>
         // API設定
         const API_BASE = window.location.origin;
 
+        // 優先度（低い順）と表示名
+        const PRIORITIES = [
+            ['none', '優先度なし'],
+            ['low', '低'],
+            ['medium', '中'],
+            ['high', '高'],
+            ['urgent', '緊急'],
+        ];
+
+        // 一覧で取得するフィールド（メモは詳細を開いたときに取得する）
+        const LIST_FIELDS = 'id,title,completed,createdAt,position,version,dueAt,dueTimezone,priority,tags,recurrence,progress';
+
+        // HTMLの特殊文字をエスケープする
+        const escapeHtml = (text) => text
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            .replace(/'/g, '&#39;');
+
+        // 行内の記法（コード、太字、斜体、リンク）を変換する
+        // エスケープ後の文字列を変換するため、メモに含まれるHTMLはそのまま表示される
+        const renderInline = (text) => escapeHtml(text)
+            .replace(/\`([^\`]+)\`/g, '<code>$1</code>')
+            .replace(/\\*\\*([^*]+)\\*\\*/g, '<strong>$1</strong>')
+            .replace(/\\*([^*]+)\\*/g, '<em>$1</em>')
+            .replace(/\\[([^\\]]+)\\]\\(([^)\\s]+)\\)/g, (match, label, url) =>
+                // javascript: などのURLはリンクにしない
+                /^(https?:|mailto:)/i.test(url)
+                    ? '<a href="' + url + '" target="_blank" rel="noopener noreferrer">' + label + '</a>'
+                    : match
+            );
+
+        // メモのMarkdownをHTMLに変換する（見出し、リスト、コードブロック、段落のみ対応）
+        const renderMarkdown = (markdown) => {
+            const html = [];
+            let paragraph = [];
+            let list = null;
+            let code = null;
+
+            const flushParagraph = () => {
+                if (paragraph.length > 0) {
+                    html.push('<p>' + paragraph.map(renderInline).join('<br>') + '</p>');
+                }
+                paragraph = [];
+            };
+            const closeList = () => {
+                if (list) html.push('</' + list + '>');
+                list = null;
+            };
+            const flushCode = () => {
+                html.push('<pre><code>' + escapeHtml(code.join('\\n')) + '</code></pre>');
+                code = null;
+            };
+
+            for (const line of markdown.split(/\\r?\\n/)) {
+                if (code) {
+                    if (/^\`\`\`/.test(line)) flushCode();
+                    else code.push(line);
+                    continue;
+                }
+
+                const heading = /^(#{1,6})\\s+(.*)$/.exec(line);
+                const item = /^\\s*(?:([-*])|\\d+\\.)\\s+(.*)$/.exec(line);
+                if (/^\`\`\`/.test(line)) {
+                    flushParagraph();
+                    closeList();
+                    code = [];
+                } else if (heading) {
+                    flushParagraph();
+                    closeList();
+                    const level = heading[1].length;
+                    html.push('<h' + level + '>' + renderInline(heading[2]) + '</h' + level + '>');
+                } else if (item) {
+                    flushParagraph();
+                    const type = item[1] ? 'ul' : 'ol';
+                    if (list !== type) {
+                        closeList();
+                        html.push('<' + type + '>');
+                        list = type;
+                    }
+                    html.push('<li>' + renderInline(item[2]) + '</li>');
+                } else if (line.trim() === '') {
+                    flushParagraph();
+                    closeList();
+                } else {
+                    closeList();
+                    paragraph.push(line);
+                }
+            }
+            if (code) flushCode();
+            flushParagraph();
+            closeList();
+            return html.join('');
+        };
+
         function TodoApp() {
             const [todos, setTodos] = useState([]);
             const [newTodo, setNewTodo] = useState('');
@@ -216,14 +462,22 @@ export const FRONTEND_HTML = `<!DOCTYPE html>
             const [dragOverIdx, setDragOverIdx] = useState(null);
             const [rollbackTodos, setRollbackTodos] = useState([]);
             const [focusedIdx, setFocusedIdx] = useState(null);
+            const [detail, setDetail] = useState(null);
+            const [lastDeleted, setLastDeleted] = useState(null);
+            const [lists, setLists] = useState([]);
+            const [listId, setListId] = useState(localStorage.getItem('listId') || 'default');
+            const [newList, setNewList] = useState('');
 
-            // API呼び出しヘルパー
+            // API呼び出しヘルパー（Todo・ゴミ箱のルートは選択中のリストのパスに付け替える）
             const apiCall = async (endpoint, options = {}) => {
                 if (!apiKey) {
                     throw new Error('API Keyを入力してください');
                 }
 
-                const response = await fetch(\`\${API_BASE}\${endpoint}\`, {
+                const scoped =
+                    listId !== 'default' && (endpoint.startsWith('/todos') || endpoint.startsWith('/trash'));
+                const path = scoped ? \`/lists/\${listId}\${endpoint}\` : endpoint;
+                const response = await fetch(\`\${API_BASE}\${path}\`, {
                     ...options,
                     headers: {
                         'Content-Type': 'application/json',
@@ -234,7 +488,9 @@ export const FRONTEND_HTML = `<!DOCTYPE html>
 
                 if (!response.ok) {
                     const errorData = await response.json().catch(() => ({}));
-                    throw new Error(errorData.error?.message || \`エラー: \${response.status}\`);
+                    const error = new Error(errorData.error?.message || \`エラー: \${response.status}\`);
+                    error.status = response.status;
+                    throw error;
                 }
 
                 if (response.status === 204) {
@@ -244,14 +500,14 @@ export const FRONTEND_HTML = `<!DOCTYPE html>
                 return response.json();
             };
 
-            // Todo一覧取得
+            // Todo一覧取得（並び替えはpositionで行うため、親を持たないTodoのみを表示する）
             const fetchTodos = async () => {
                 if (!apiKey) return;
 
                 try {
                     setLoading(true);
                     setError('');
-                    const data = await apiCall('/todos');
+                    const data = await apiCall(\`/todos?parent=root&fields=\${LIST_FIELDS}\`);
                     setTodos(data);
                 } catch (err) {
                     setError(err.message);
@@ -260,6 +516,38 @@ export const FRONTEND_HTML = `<!DOCTYPE html>
                 }
             };
 
+            // リスト一覧取得（選択中のリストが削除されていた場合はデフォルトのリストに戻す）
+            const fetchLists = async () => {
+                if (!apiKey) return;
+
+                try {
+                    const data = await apiCall('/lists');
+                    setLists(data);
+                    if (!data.some(l => l.id === listId)) setListId('default');
+                } catch (err) {
+                    setError(err.message);
+                }
+            };
+
+            // リスト作成（作成したリストを選択する）
+            const addList = async (e) => {
+                e.preventDefault();
+                if (!newList.trim()) return;
+
+                try {
+                    setError('');
+                    const list = await apiCall('/lists', {
+                        method: 'POST',
+                        body: JSON.stringify({ name: newList }),
+                    });
+                    setLists([...lists, list]);
+                    setNewList('');
+                    setListId(list.id);
+                } catch (err) {
+                    setError(err.message);
+                }
+            };
+
             // Todo追加
             const addTodo = async (e) => {
                 e.preventDefault();
@@ -278,29 +566,117 @@ export const FRONTEND_HTML = `<!DOCTYPE html>
                 }
             };
 
+            // 他のタブ・端末で更新されていた場合（412）は最新の一覧を読み込み直す
+            const handleConflict = (err) => {
+                if (err.status === 412) {
+                    setError('他の画面で更新されています。最新の内容を読み込みました。');
+                    fetchTodos();
+                    return true;
+                }
+                return false;
+            };
+
             // Todo更新（完了/未完了切り替え）
             const toggleTodo = async (todo) => {
                 try {
                     setError('');
                     const updated = await apiCall(\`/todos/\${todo.id}\`, {
                         method: 'PUT',
+                        headers: { 'If-Match': \`"\${todo.version}"\` },
                         body: JSON.stringify({
                             title: todo.title,
                             completed: !todo.completed,
                         }),
                     });
                     setTodos(todos.map(t => t.id === todo.id ? updated : t));
+                    // 繰り返しのTodoを完了にした場合は次の回が作成されるため、一覧を読み込み直す
+                    if (todo.recurrence && !todo.completed) fetchTodos();
+                } catch (err) {
+                    if (!handleConflict(err)) setError(err.message);
+                }
+            };
+
+            // 優先度の変更
+            const changePriority = async (todo, priority) => {
+                try {
+                    setError('');
+                    const updated = await apiCall(\`/todos/\${todo.id}\`, {
+                        method: 'PUT',
+                        headers: { 'If-Match': \`"\${todo.version}"\` },
+                        body: JSON.stringify({ priority }),
+                    });
+                    setTodos(todos.map(t => t.id === todo.id ? updated : t));
+                } catch (err) {
+                    if (!handleConflict(err)) setError(err.message);
+                }
+            };
+
+            // 詳細パネルの開閉（メモは一覧に含まれないため、開くときにTodoを取得する）
+            const toggleDetail = async (todo) => {
+                if (detail && detail.id === todo.id) {
+                    setDetail(null);
+                    return;
+                }
+                try {
+                    setError('');
+                    const full = await apiCall(\`/todos/\${todo.id}\`);
+                    setTodos(todos.map(t => t.id === todo.id ? full : t));
+                    setDetail({ id: todo.id, notes: full.notes || '', draft: null });
                 } catch (err) {
                     setError(err.message);
                 }
             };
 
+            // メモの保存
+            const saveNotes = async (todo) => {
+                try {
+                    setError('');
+                    const updated = await apiCall(\`/todos/\${todo.id}\`, {
+                        method: 'PUT',
+                        headers: { 'If-Match': \`"\${todo.version}"\` },
+                        body: JSON.stringify({ notes: detail.draft }),
+                    });
+                    setTodos(todos.map(t => t.id === todo.id ? updated : t));
+                    setDetail({ id: todo.id, notes: updated.notes || '', draft: null });
+                } catch (err) {
+                    if (!handleConflict(err)) setError(err.message);
+                }
+            };
+
             // Todo削除
-            const deleteTodo = async (id) => {
+            const deleteTodo = async (todo) => {
+                try {
+                    setError('');
+                    await apiCall(\`/todos/\${todo.id}\`, {
+                        method: 'DELETE',
+                        headers: { 'If-Match': \`"\${todo.version}"\` },
+                    });
+                    setTodos(todos.filter(t => t.id !== todo.id));
+                    setLastDeleted(todo);
+                } catch (err) {
+                    if (!handleConflict(err)) setError(err.message);
+                }
+            };
+
+            // 削除の取り消し（ゴミ箱から元の位置に戻す）
+            const undoDelete = async () => {
+                if (!lastDeleted) return;
+                try {
+                    setError('');
+                    await apiCall(\`/trash/\${lastDeleted.id}/restore\`, { method: 'POST' });
+                    setLastDeleted(null);
+                    await fetchTodos();
+                } catch (err) {
+                    setError(err.message);
+                }
+            };
+
+            // 完了済みのTodoをまとめてアーカイブ
+            const archiveCompleted = async () => {
                 try {
                     setError('');
-                    await apiCall(\`/todos/\${id}\`, { method: 'DELETE' });
-                    setTodos(todos.filter(t => t.id !== id));
+                    await apiCall('/todos/archive-completed', { method: 'POST' });
+                    await fetchTodos();
                 } catch (err) {
                     setError(err.message);
                 }
@@ -350,6 +726,8 @@ export const FRONTEND_HTML = `<!DOCTYPE html>
 
             // キーボード操作: Ctrl+↑/↓ で並び替え
             const handleKeyDown = (e, idx, todo) => {
+                // メモの編集中はテキストエリアのキー操作を優先する
+                if (e.target.tagName === 'TEXTAREA') return;
                 if (e.ctrlKey && (e.key === 'ArrowUp' || e.key === 'ArrowDown')) {
                     e.preventDefault();
                     const newIdx = e.key === 'ArrowUp' ? Math.max(0, idx - 1) : Math.min(todos.length - 1, idx + 1);
@@ -373,10 +751,18 @@ export const FRONTEND_HTML = `<!DOCTYPE html>
             useEffect(() => {
                 if (apiKey) {
                     localStorage.setItem('apiKey', apiKey);
-                    fetchTodos();
+                    fetchLists();
                 }
             }, [apiKey]);
 
+            // リストの切り替え
+            useEffect(() => {
+                localStorage.setItem('listId', listId);
+                setDetail(null);
+                setLastDeleted(null);
+                if (apiKey) fetchTodos();
+            }, [apiKey, listId]);
+
             return (
                 <div className="container">
                     <h1>📝 Todo App</h1>
@@ -392,8 +778,41 @@ export const FRONTEND_HTML = `<!DOCTYPE html>
                         />
                     </div>
 
+                    <form onSubmit={addList} className="list-bar">
+                        <select
+                            aria-label="リスト"
+                            value={listId}
+                            onChange={(e) => setListId(e.target.value)}
+                            disabled={!apiKey}
+                        >
+                            {lists.map(l => (
+                                <option key={l.id} value={l.id}>
+                                    {l.name} ({l.counts.total - l.counts.completed})
+                                </option>
+                            ))}
+                        </select>
+                        <input
+                            type="text"
+                            value={newList}
+                            onChange={(e) => setNewList(e.target.value)}
+                            placeholder="新しいリスト"
+                            maxLength={100}
+                            disabled={!apiKey}
+                        />
+                        <button type="submit" disabled={!apiKey || !newList.trim()}>
+                            作成
+                        </button>
+                    </form>
+
                     {error && <div className="error">{error}</div>}
 
+                    {lastDeleted && (
+                        <div className="undo">
+                            <span>「{lastDeleted.title}」をゴミ箱に移しました</span>
+                            <button onClick={undoDelete}>元に戻す</button>
+                        </div>
+                    )}
+
                     <form onSubmit={addTodo} className="add-form">
                         <input
                             type="text"
@@ -443,7 +862,29 @@ export const FRONTEND_HTML = `<!DOCTYPE html>
                                         onChange={() => toggleTodo(todo)}
                                     />
                                     <span>{todo.title}</span>
-                                    <button onClick={() => deleteTodo(todo.id)}>
+                                    {todo.progress && (
+                                        <span className="progress" aria-label="チェックリストの進捗">
+                                            {todo.progress.done}/{todo.progress.total}
+                                        </span>
+                                    )}
+                                    <select
+                                        aria-label="優先度"
+                                        className={'priority priority-' + (todo.priority || 'none')}
+                                        value={todo.priority || 'none'}
+                                        onChange={e => changePriority(todo, e.target.value)}
+                                    >
+                                        {PRIORITIES.map(([value, label]) => (
+                                            <option key={value} value={value}>{label}</option>
+                                        ))}
+                                    </select>
+                                    <button
+                                        aria-expanded={detail?.id === todo.id}
+                                        onClick={() => toggleDetail(todo)}
+                                        style={{ background: '#667eea' }}
+                                    >
+                                        詳細
+                                    </button>
+                                    <button onClick={() => deleteTodo(todo)}>
                                         削除
                                     </button>
                                     <button
@@ -464,10 +905,56 @@ export const FRONTEND_HTML = `<!DOCTYPE html>
                                     >
                                         ▼
                                     </button>
+                                    {detail?.id === todo.id && (
+                                        <div
+                                            className="todo-detail"
+                                            draggable
+                                            onDragStart={e => { e.preventDefault(); e.stopPropagation(); }}
+                                        >
+                                            {detail.draft === null ? (
+                                                <>
+                                                    {detail.notes ? (
+                                                        <div
+                                                            className="notes"
+                                                            dangerouslySetInnerHTML={{ __html: renderMarkdown(detail.notes) }}
+                                                        />
+                                                    ) : (
+                                                        <div className="notes empty-notes">メモはありません</div>
+                                                    )}
+                                                    <div className="detail-actions">
+                                                        <button onClick={() => setDetail({ ...detail, draft: detail.notes })}>
+                                                            メモを編集
+                                                        </button>
+                                                    </div>
+                                                </>
+                                            ) : (
+                                                <>
+                                                    <textarea
+                                                        aria-label="メモ（Markdown）"
+                                                        value={detail.draft}
+                                                        maxLength={10000}
+                                                        onChange={e => setDetail({ ...detail, draft: e.target.value })}
+                                                    />
+                                                    <div className="detail-actions">
+                                                        <button onClick={() => saveNotes(todo)}>保存</button>
+                                                        <button onClick={() => setDetail({ ...detail, draft: null })}>
+                                                            キャンセル
+                                                        </button>
+                                                    </div>
+                                                </>
+                                            )}
+                                        </div>
+                                    )}
                                 </li>
                             ))}
                         </ul>
                     )}
+
+                    {todos.some(t => t.completed) && (
+                        <button className="archive-completed" onClick={archiveCompleted}>
+                            完了済みをアーカイブ
+                        </button>
+                    )}
                 </div>
             );
         }
@@ -0,0 +1,251 @@
+/**
+ * API Key Handlers
+ *
+ * このファイルはAPI Key（models/apiKey.ts）の発行・一覧・削除を行う管理用のハンドラーを提供します。
+ * `/admin/keys` のルートはadminスコープのAPI Keyでのみ使用でき、操作の対象は
+ * リクエストのAPI Keyと同じテナントのAPI Keyに限られます。
+ *
+ * ローテーションポリシー（SECURITY_BEST_PRACTICES）:
+ * - 発行するAPI Keyの有効期限は最長API_KEY_ROTATION_DAYS（省略時もこの日数）
+ * - ローテーションでは新しいキーを発行し、古いキーはAPI_KEY_ROTATION_GRACE_HOURSの間だけ使用できる
+ *
+ * 参照:
+ * - 要件10: 認証・認可 (requirements.md)
+ * - 要件14: エラーレスポンスの標準化 (requirements.md)
+ */
+
+import type { Context } from 'hono';
+import { jsonResponse, errorResponse } from '../utils/response';
+import { validateApiKeyInput, validateId, VALIDATION_ERRORS } from '../utils/validation';
+import { generateApiKey, hashApiKey, defaultApiKeyExpiry } from '../utils/apiKeys';
+import { ERROR_CODES } from '../models/error';
+import { DEFAULT_TENANT_ID } from '../models/tenant';
+import { SECURITY_BEST_PRACTICES } from '../models/env';
+import type { ApiKeyRecord, CreateApiKeyRequest, CreateApiKeyResponse } from '../models/apiKey';
+import type { KVApiKeyStorage } from '../storage/apiKeys';
+import type { AppEnv } from '../models/env';
+
+/**
+ * Issue an API key
+ *
+ * API KeyのハッシュとメタデータをKVに保存し、平文のキーを含むレスポンスを返します。
+ *
+ * @param keys - API Keyストレージ
+ * @param key - 平文のAPI Key
+ * @param record - 保存するメタデータ
+ * @returns 発行したAPI Keyと平文のキー
+ */
+async function issueApiKey(
+  keys: KVApiKeyStorage,
+  key: string,
+  record: ApiKeyRecord
+): Promise<CreateApiKeyResponse> {
+  await keys.put(await hashApiKey(key), record);
+  return { ...record, key };
+}
+
+/**
+ * Create API Key Handler
+ *
+ * リクエストのAPI Keyのテナントに新しいAPI Keyを発行します。
+ * 平文のAPI Keyはこのレスポンスでのみ返し、KVにはSHA-256ハッシュのみを保存します。
+ * `key` を指定した場合は生成せずにそのキーを登録します（API_KEY_FORMATに一致する必要がある）。
+ *
+ * @param {Context<AppEnv>} c - Honoコンテキスト
+ * @param {KVApiKeyStorage} keys - API Keyストレージ
+ * @returns {Promise<Response>} 発行したAPI Keyと平文のキー（201 Created）またはエラーレスポンス
+ *
+ * @example
+ * ```typescript
+ * // リクエスト
+ * POST /admin/keys
+ * { "name": "Dashboard", "scopes": ["todos:read"] }
+ *
+ * // レスポンス (201 Created)
+ * {
+ *   "id": "550e8400-e29b-41d4-a716-446655440000",
+ *   "name": "Dashboard",
+ *   "tenantId": "default",
+ *   "scopes": ["todos:read"],
+ *   "createdAt": "2025-11-01T09:00:00.000Z",
+ *   "expiresAt": "2026-01-30T09:00:00.000Z",
+ *   "key": "9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08"
+ * }
+ * ```
+ *
+ * エラーレスポンス:
+ * - 400 Bad Request: バリデーションエラー、登録済みのキー
+ * - 500 Internal Server Error: ストレージエラー
+ */
+export async function createApiKeyHandler(
+  c: Context<AppEnv>,
+  keys: KVApiKeyStorage
+): Promise<Response> {
+  try {
+    const body = await c.req.json<CreateApiKeyRequest>().catch(() => null);
+
+    const validationResult = validateApiKeyInput(body);
+    if (!body || !validationResult.valid) {
+      return errorResponse(
+        ERROR_CODES.VALIDATION_ERROR,
+        validationResult.error || 'Invalid input',
+        400
+      );
+    }
+
+    const key = body.key ?? generateApiKey();
+    if (body.key !== undefined && (await keys.findByHash(await hashApiKey(key)))) {
+      return errorResponse(
+        ERROR_CODES.VALIDATION_ERROR,
+        VALIDATION_ERRORS.API_KEY_ALREADY_REGISTERED,
+        400
+      );
+    }
+
+    const now = new Date();
+    const response = await issueApiKey(keys, key, {
+      id: crypto.randomUUID(),
+      name: body.name.trim(),
+      tenantId: c.get('tenantId') ?? DEFAULT_TENANT_ID,
+      scopes: [...new Set(body.scopes)],
+      createdAt: now.toISOString(),
+      expiresAt:
+        body.expiresAt !== undefined
+          ? new Date(body.expiresAt).toISOString()
+          : defaultApiKeyExpiry(now),
+    });
+    return jsonResponse(response, 201);
+  } catch (error) {
+    console.error('Error creating API key:', error);
+    return errorResponse(
+      ERROR_CODES.INTERNAL_ERROR,
+      'An unexpected error occurred while creating the API key',
+      500
+    );
+  }
+}
+
+/**
+ * Get API Keys Handler
+ *
+ * リクエストのAPI Keyのテナントで発行したAPI Keyの一覧を取得します。
+ * 平文のAPI Keyとハッシュは含みません。VALID_API_KEYSで設定したAPI Keyは含みません。
+ *
+ * @param {Context<AppEnv>} c - Honoコンテキスト
+ * @param {KVApiKeyStorage} keys - API Keyストレージ
+ * @returns {Promise<Response>} API Keyのメタデータの配列（200 OK、発行順）またはエラーレスポンス
+ */
+export async function getApiKeysHandler(
+  c: Context<AppEnv>,
+  keys: KVApiKeyStorage
+): Promise<Response> {
+  try {
+    return jsonResponse(await keys.list(c.get('tenantId') ?? DEFAULT_TENANT_ID), 200);
+  } catch (error) {
+    console.error('Error fetching API keys:', error);
+    return errorResponse(
+      ERROR_CODES.INTERNAL_ERROR,
+      'An unexpected error occurred while fetching API keys',
+      500
+    );
+  }
+}
+
+/**
+ * Rotate API Key Handler
+ *
+ * 指定したAPI Keyと同じ名前・スコープの新しいAPI Keyを発行し、古いキーの有効期限を
+ * API_KEY_ROTATION_GRACE_HOURS後（既に短い場合はそのまま）に短縮します。
+ * 猶予期間中は古いキーと新しいキーの両方を使用できるため、クライアントを順に切り替えられます。
+ *
+ * @param {Context<AppEnv>} c - Honoコンテキスト
+ * @param {KVApiKeyStorage} keys - API Keyストレージ
+ * @returns {Promise<Response>} 新しいAPI Keyと平文のキー（201 Created）またはエラーレスポンス
+ *
+ * エラーレスポンス:
+ * - 400 Bad Request: IDがUUID v4形式でない
+ * - 404 Not Found: テナントに該当するAPI Keyが存在しない
+ * - 500 Internal Server Error: ストレージエラー
+ */
+export async function rotateApiKeyHandler(
+  c: Context<AppEnv>,
+  keys: KVApiKeyStorage
+): Promise<Response> {
+  try {
+    const id = c.req.param('id');
+    if (!validateId(id)) {
+      return errorResponse(ERROR_CODES.VALIDATION_ERROR, VALIDATION_ERRORS.ID_INVALID_FORMAT, 400);
+    }
+
+    const found = await keys.findById(c.get('tenantId') ?? DEFAULT_TENANT_ID, id);
+    if (!found) {
+      return errorResponse(ERROR_CODES.NOT_FOUND, `API key with ID ${id} not found`, 404);
+    }
+
+    const now = new Date();
+    const graceEnd = new Date(
+      now.getTime() + SECURITY_BEST_PRACTICES.API_KEY_ROTATION_GRACE_HOURS * 60 * 60 * 1000
+    ).toISOString();
+    const { record } = found;
+    const expiresAt =
+      record.expiresAt !== undefined && record.expiresAt < graceEnd ? record.expiresAt : graceEnd;
+    await keys.put(found.hash, { ...record, expiresAt });
+
+    const response = await issueApiKey(keys, generateApiKey(), {
+      id: crypto.randomUUID(),
+      name: record.name,
+      tenantId: record.tenantId,
+      scopes: record.scopes,
+      createdAt: now.toISOString(),
+      expiresAt: defaultApiKeyExpiry(now),
+    });
+    return jsonResponse(response, 201);
+  } catch (error) {
+    console.error('Error rotating API key:', error);
+    return errorResponse(
+      ERROR_CODES.INTERNAL_ERROR,
+      'An unexpected error occurred while rotating the API key',
+      500
+    );
+  }
+}
+
+/**
+ * Delete API Key Handler
+ *
+ * リクエストのAPI Keyのテナントで発行したAPI Keyを削除（失効）します。
+ * 削除したAPI Keyは以降の認証で401 Unauthorizedになります。
+ *
+ * @param {Context<AppEnv>} c - Honoコンテキスト
+ * @param {KVApiKeyStorage} keys - API Keyストレージ
+ * @returns {Promise<Response>} 204 No Contentまたはエラーレスポンス
+ *
+ * エラーレスポンス:
+ * - 400 Bad Request: IDがUUID v4形式でない
+ * - 404 Not Found: テナントに該当するAPI Keyが存在しない
+ * - 500 Internal Server Error: ストレージエラー
+ */
+export async function deleteApiKeyHandler(
+  c: Context<AppEnv>,
+  keys: KVApiKeyStorage
+): Promise<Response> {
+  try {
+    const id = c.req.param('id');
+    if (!validateId(id)) {
+      return errorResponse(ERROR_CODES.VALIDATION_ERROR, VALIDATION_ERRORS.ID_INVALID_FORMAT, 400);
+    }
+
+    if (!(await keys.delete(c.get('tenantId') ?? DEFAULT_TENANT_ID, id))) {
+      return errorResponse(ERROR_CODES.NOT_FOUND, `API key with ID ${id} not found`, 404);
+    }
+
+    return jsonResponse(null, 204);
+  } catch (error) {
+    console.error('Error deleting API key:', error);
+    return errorResponse(
+      ERROR_CODES.INTERNAL_ERROR,
+      'An unexpected error occurred while deleting the API key',
+      500
+    );
+  }
+}
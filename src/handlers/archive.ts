@@ -0,0 +1,133 @@
+/**
+ * Archive Handlers
+ *
+ * このファイルはTodoのアーカイブに関するハンドラーを提供します。
+ * アーカイブしたTodoは一覧の並び順から取り除かれて別に保存されるため、
+ * 一覧の件数（MAX_TODOS）に数えられず、並び替えの対象にもなりません。
+ * アーカイブの一覧は GET /todos?archived=true で取得します（handlers/todos.ts）。
+ *
+ * 参照:
+ * - 要件14: エラーレスポンスの標準化 (requirements.md)
+ */
+
+import type { Context } from 'hono';
+import { jsonResponse, errorResponse } from '../utils/response';
+import { validateId } from '../utils/validation';
+import { descendantIds, completedSubtreeIds } from '../utils/tree';
+import { withProgress } from '../utils/checklist';
+import { ERROR_CODES } from '../models/error';
+import type { IStorage } from '../storage/interface';
+import type { AppEnv } from '../models/env';
+
+/**
+ * Archive Todo Handler
+ *
+ * 指定されたTodoを子孫とともにアーカイブします。完了状態に関わらずアーカイブできます。
+ *
+ * ビジネスロジック:
+ * 1. パスパラメータからIDを取得し、UUID v4形式を検証
+ * 2. ストレージレイヤーから該当するTodoを探す（存在しない場合は404 Not Found）
+ * 3. Todoとすべての子孫を同じ日時でアーカイブ
+ * 4. 成功時は200 OKでアーカイブしたTodoを返す（archivedAtを含む）
+ *
+ * @param {Context<AppEnv>} c - Honoコンテキスト
+ * @param {IStorage} storage - ストレージレイヤーインスタンス
+ * @returns {Promise<Response>} アーカイブしたTodo（200 OK）またはエラーレスポンス
+ *
+ * エラーレスポンス:
+ * - 400 Bad Request: 無効なUUID形式
+ * - 404 Not Found: 該当するTodoが存在しない（アーカイブ済みの場合を含む）
+ * - 500 Internal Server Error: ストレージエラー
+ *
+ * @example
+ * ```typescript
+ * // レスポンス (200 OK)
+ * {
+ *   "id": "550e8400-e29b-41d4-a716-446655440000",
+ *   "title": "完了したタスク",
+ *   "completed": true,
+ *   "createdAt": "2025-10-27T10:30:00.000Z",
+ *   "position": 0,
+ *   "version": 2,
+ *   "archivedAt": "2025-11-01T09:00:00.000Z"
+ * }
+ * ```
+ */
+export async function archiveTodoHandler(c: Context<AppEnv>, storage: IStorage): Promise<Response> {
+  try {
+    const id = c.req.param('id');
+
+    // UUID形式を検証
+    if (!validateId(id)) {
+      return errorResponse(
+        ERROR_CODES.VALIDATION_ERROR,
+        'Invalid todo ID format. Must be a valid UUID v4.',
+        400
+      );
+    }
+
+    const todos = await storage.getAll();
+    if (!todos.some((todo) => todo.id === id)) {
+      return errorResponse(ERROR_CODES.NOT_FOUND, `Todo with ID ${id} not found`, 404);
+    }
+
+    // 子孫を一覧に残すと親のないTodoになるため、まとめてアーカイブする
+    const archived = await storage.archive(
+      [id, ...descendantIds(todos, id)],
+      new Date().toISOString()
+    );
+    const root = archived.find((todo) => todo.id === id);
+    if (!root) {
+      return errorResponse(ERROR_CODES.NOT_FOUND, `Todo with ID ${id} not found`, 404);
+    }
+
+    return jsonResponse(withProgress(root), 200);
+  } catch (error) {
+    console.error('Error archiving todo:', error);
+    return errorResponse(
+      ERROR_CODES.INTERNAL_ERROR,
+      'An unexpected error occurred while archiving the todo',
+      500
+    );
+  }
+}
+
+/**
+ * Archive Completed Todos Handler
+ *
+ * 完了済みのTodoをまとめてアーカイブします。未完了の子孫を持つTodoは、
+ * 子孫が一覧で親を失わないようアーカイブしません（utils/tree.ts の completedSubtreeIds()）。
+ *
+ * ビジネスロジック:
+ * 1. ストレージレイヤーからすべてのTodoを取得
+ * 2. 完了済みで、子孫もすべて完了済みのTodoを同じ日時でアーカイブ
+ * 3. 成功時は200 OKでアーカイブしたTodoの配列を返す（該当がない場合は[]）
+ *
+ * @param {Context<AppEnv>} c - Honoコンテキスト
+ * @param {IStorage} storage - ストレージレイヤーインスタンス
+ * @returns {Promise<Response>} アーカイブしたTodoの配列（200 OK）またはエラーレスポンス
+ *
+ * エラーレスポンス:
+ * - 500 Internal Server Error: ストレージエラー
+ */
+export async function archiveCompletedHandler(
+  _c: Context<AppEnv>,
+  storage: IStorage
+): Promise<Response> {
+  try {
+    const ids = completedSubtreeIds(await storage.getAll());
+    if (ids.length === 0) {
+      return jsonResponse([], 200);
+    }
+
+    const archived = await storage.archive(ids, new Date().toISOString());
+    return jsonResponse(archived.map(withProgress), 200);
+  } catch (error) {
+    console.error('Error archiving completed todos:', error);
+    return errorResponse(
+      ERROR_CODES.INTERNAL_ERROR,
+      'An unexpected error occurred while archiving completed todos',
+      500
+    );
+  }
+}
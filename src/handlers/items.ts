@@ -0,0 +1,396 @@
+/**
+ * Checklist Item Handlers
+ *
+ * このファイルはTodoのチェックリスト（items）の項目を操作するハンドラーを提供します。
+ * チェックリストは親のTodoの1フィールドとして保存されるため、各ハンドラーは親のTodoを読み込み、
+ * 変更した項目の配列をストレージ層の `update()` で書き込みます（親のversionも1増える）。
+ *
+ * すべてのハンドラーは、変更後の親のTodo（進捗の `progress` を含む）をETagとともに返します。
+ * 親のTodoの `autoComplete` がtrueの場合、すべての項目が完了した時点で親のTodoも完了にします。
+ * 繰り返しのTodoが完了になった場合は、PUT /todos/:id と同じく次の回を作成します（utils/occurrence.ts）。
+ *
+ * 参照:
+ * - 要件14: エラーレスポンスの標準化 (requirements.md)
+ * - RFC 9110 Section 13.1.1: If-Matchによる楽観的並行性制御
+ */
+
+import type { Context } from 'hono';
+import { jsonResponse, errorResponse } from '../utils/response';
+import {
+  validateId,
+  validateChecklistItemInput,
+  validateReorderInput,
+  resolveMaxTodoCount,
+  VALIDATION_ERRORS,
+} from '../utils/validation';
+import { formatETag, resolveExpectedVersion } from '../utils/etag';
+import { assertPositionInRange } from '../utils/ordering';
+import {
+  isChecklistDone,
+  moveItem,
+  removeItem,
+  updateItem,
+  withProgress,
+} from '../utils/checklist';
+import { planNextOccurrence, createNextOccurrence } from '../utils/occurrence';
+import type { NextOccurrence } from '../utils/occurrence';
+import { ERROR_CODES, PreconditionFailedError, TodoLimitReachedError } from '../models/error';
+import { TODO_CONSTRAINTS } from '../models/todo';
+import type {
+  ChecklistItem,
+  CreateChecklistItemRequest,
+  Todo,
+  UpdateChecklistItemRequest,
+} from '../models/todo';
+import type { IStorage } from '../storage/interface';
+import type { AppEnv } from '../models/env';
+
+/**
+ * If-Matchがない場合に、同時更新との競合で書き込みを試行する最大回数
+ */
+const MAX_WRITE_ATTEMPTS = 3;
+
+/**
+ * Checklist Change
+ *
+ * 現在の項目から変更後の項目の配列を作る関数。対象の項目がない場合はnullを返します。
+ */
+type ChecklistChange = (items: ChecklistItem[]) => ChecklistItem[] | null;
+
+/**
+ * Validate the path IDs
+ *
+ * @param c - Honoコンテキスト
+ * @returns IDが不正な場合は400エラーレスポンス、正しい場合はnull
+ */
+function validatePathIds(c: Context<AppEnv>): Response | null {
+  if (!validateId(c.req.param('id'))) {
+    return errorResponse(
+      ERROR_CODES.VALIDATION_ERROR,
+      'Invalid todo ID format. Must be a valid UUID v4.',
+      400
+    );
+  }
+  const itemId = c.req.param('itemId');
+  if (itemId !== undefined && !validateId(itemId)) {
+    return errorResponse(
+      ERROR_CODES.VALIDATION_ERROR,
+      'Invalid checklist item ID format. Must be a valid UUID v4.',
+      400
+    );
+  }
+  return null;
+}
+
+/**
+ * Write a checklist change
+ *
+ * 親のTodoを読み込んで変更を適用し、読み込んだversionを期待して書き込みます。
+ * If-Matchが指定されている場合はそのversionを期待し、一致しなければ412を返します。
+ * 指定されていない場合、読み込みから書き込みまでの間に他の更新があったときは
+ * 読み込みからやり直します（他の更新による項目の変更を失わないため）。
+ * `autoComplete` で繰り返しのTodoが完了になった場合は、次の回を作成してLinkヘッダーで返します。
+ *
+ * @param c - Honoコンテキスト
+ * @param storage - ストレージレイヤーインスタンス
+ * @param status - 成功時のステータスコード
+ * @param change - 項目の変更
+ * @returns 変更後の親のTodo（ETag付き）、または404エラーレスポンス
+ * @throws {PreconditionFailedError} If-Matchが一致しない、または再試行しても競合した場合
+ * @throws {RangeError} 変更が項目数や位置の制約に違反する場合
+ * @throws {TodoLimitReachedError} 次の回を作成するとTodo件数の上限を超える場合
+ */
+async function writeChecklist(
+  c: Context<AppEnv>,
+  storage: IStorage,
+  status: 200 | 201,
+  change: ChecklistChange
+): Promise<Response> {
+  const id = c.req.param('id');
+  const expectedVersion = await resolveExpectedVersion(c.req.header('If-Match'), storage, id);
+
+  for (let attempt = 1; ; attempt++) {
+    const todo = await storage.getById(id);
+    if (!todo) {
+      return errorResponse(ERROR_CODES.NOT_FOUND, `Todo item with ID ${id} not found`, 404);
+    }
+
+    const items = change(todo.items ?? []);
+    if (items === null) {
+      return errorResponse(
+        ERROR_CODES.NOT_FOUND,
+        `Checklist item with ID ${c.req.param('itemId')} not found`,
+        404
+      );
+    }
+
+    const updates: Partial<Todo> = { items };
+    let next: NextOccurrence | null = null;
+    if (todo.autoComplete && !todo.completed && isChecklistDone(items)) {
+      updates.completed = true;
+      next = await planNextOccurrence(
+        storage,
+        todo,
+        updates,
+        resolveMaxTodoCount(c.env?.MAX_TODOS)
+      );
+    }
+
+    try {
+      const updated = await storage.update(id, updates, expectedVersion ?? todo.version);
+      if (!updated) {
+        return errorResponse(ERROR_CODES.NOT_FOUND, `Todo item with ID ${id} not found`, 404);
+      }
+      const headers: Record<string, string> = { ETag: formatETag(updated) };
+      if (next) {
+        const created = await createNextOccurrence(storage, updated, next);
+        headers['Link'] = `</todos/${created.id}>; rel="next"`;
+      }
+      return jsonResponse(withProgress(updated), status, headers);
+    } catch (error) {
+      const retryable =
+        error instanceof PreconditionFailedError &&
+        expectedVersion === undefined &&
+        attempt < MAX_WRITE_ATTEMPTS;
+      if (!retryable) {
+        throw error;
+      }
+    }
+  }
+}
+
+/**
+ * Convert a checklist error to a response
+ *
+ * @param error - 発生したエラー
+ * @param action - ログとエラーメッセージに使用する操作の説明（例: 'adding the checklist item'）
+ * @returns 400（RangeError・TodoLimitReachedError）、412（PreconditionFailedError）、または500エラーレスポンス
+ */
+function checklistErrorResponse(error: unknown, action: string): Response {
+  if (error instanceof RangeError) {
+    return errorResponse(ERROR_CODES.VALIDATION_ERROR, error.message, 400);
+  }
+  if (error instanceof PreconditionFailedError) {
+    return errorResponse(ERROR_CODES.PRECONDITION_FAILED, error.message, 412);
+  }
+  if (error instanceof TodoLimitReachedError) {
+    return errorResponse(ERROR_CODES.TODO_LIMIT_REACHED, error.message, 400);
+  }
+  console.error(`Error ${action}:`, error);
+  return errorResponse(
+    ERROR_CODES.INTERNAL_ERROR,
+    `An unexpected error occurred while ${action}`,
+    500
+  );
+}
+
+/**
+ * Create Checklist Item Handler
+ *
+ * 親のTodoのチェックリストの末尾に項目を追加します。
+ *
+ * ビジネスロジック:
+ * 1. パスパラメータのIDを検証
+ * 2. リクエストボディを検証（textは必須、doneは任意でデフォルトfalse）
+ * 3. 項目のIDを生成し、項目数の上限（100件）を確認して末尾に追加
+ * 4. 201 Createdステータスで変更後の親のTodoを返す
+ *
+ * @param {Context<AppEnv>} c - Honoコンテキスト
+ * @param {IStorage} storage - ストレージレイヤーインスタンス
+ * @returns {Promise<Response>} 変更後の親のTodo（201 Created）またはエラーレスポンス
+ *
+ * エラーレスポンス:
+ * - 400 Bad Request: ID形式またはリクエストボディが不正、項目数の上限に到達
+ * - 404 Not Found: 親のTodoが存在しない
+ * - 412 Precondition Failed: If-Matchが親のTodoの現在のETagと一致しない
+ * - 500 Internal Server Error: ストレージエラー
+ *
+ * @example
+ * ```typescript
+ * // リクエスト
+ * POST /todos/550e8400-e29b-41d4-a716-446655440000/items
+ * { "text": "牛乳を買う" }
+ *
+ * // レスポンス (201 Created)
+ * {
+ *   "id": "550e8400-e29b-41d4-a716-446655440000",
+ *   "items": [{ "id": "9b1d...", "text": "牛乳を買う", "done": false }],
+ *   "progress": { "done": 0, "total": 1 },
+ *   ...
+ * }
+ * ```
+ */
+export async function createItemHandler(c: Context<AppEnv>, storage: IStorage): Promise<Response> {
+  try {
+    const invalidId = validatePathIds(c);
+    if (invalidId) {
+      return invalidId;
+    }
+
+    const body = await c.req.json<CreateChecklistItemRequest>().catch(() => null);
+    const validationResult = validateChecklistItemInput(body);
+    if (!body || !validationResult.valid) {
+      return errorResponse(
+        ERROR_CODES.VALIDATION_ERROR,
+        validationResult.error || 'Invalid input',
+        400
+      );
+    }
+
+    const item: ChecklistItem = {
+      id: crypto.randomUUID(),
+      text: body.text,
+      done: body.done ?? false,
+    };
+    return await writeChecklist(c, storage, 201, (items) => {
+      if (items.length >= TODO_CONSTRAINTS.MAX_ITEMS) {
+        throw new RangeError(VALIDATION_ERRORS.ITEMS_TOO_MANY);
+      }
+      return [...items, item];
+    });
+  } catch (error) {
+    return checklistErrorResponse(error, 'adding the checklist item');
+  }
+}
+
+/**
+ * Update Checklist Item Handler
+ *
+ * チェックリストの項目の内容・完了状態を更新します。
+ *
+ * @param {Context<AppEnv>} c - Honoコンテキスト
+ * @param {IStorage} storage - ストレージレイヤーインスタンス
+ * @returns {Promise<Response>} 変更後の親のTodo（200 OK）またはエラーレスポンス
+ *
+ * レスポンスヘッダー:
+ * - ETag: 変更後の親のTodoのETag
+ * - Link: `autoComplete` で繰り返しのTodoが完了になり、次の回を作成した場合のみ、`</todos/{id}>; rel="next"`
+ *
+ * エラーレスポンス:
+ * - 400 Bad Request: ID形式またはリクエストボディが不正（textとdoneのいずれもない場合を含む）
+ * - 400 Bad Request: 次の回を作成するとTodo件数の上限（MAX_TODOS）を超える
+ * - 404 Not Found: 親のTodoまたは項目が存在しない
+ * - 412 Precondition Failed: If-Matchが親のTodoの現在のETagと一致しない
+ * - 500 Internal Server Error: ストレージエラー
+ *
+ * @example
+ * ```typescript
+ * // リクエスト
+ * PUT /todos/550e8400-e29b-41d4-a716-446655440000/items/9b1d...
+ * { "done": true }
+ * ```
+ */
+export async function updateItemHandler(c: Context<AppEnv>, storage: IStorage): Promise<Response> {
+  try {
+    const invalidId = validatePathIds(c);
+    if (invalidId) {
+      return invalidId;
+    }
+
+    const body = await c.req.json<UpdateChecklistItemRequest>().catch(() => null);
+    const validationResult = validateChecklistItemInput(body, true);
+    if (!body || !validationResult.valid) {
+      return errorResponse(
+        ERROR_CODES.VALIDATION_ERROR,
+        validationResult.error || 'Invalid input',
+        400
+      );
+    }
+
+    const changes: UpdateChecklistItemRequest = {};
+    if (body.text !== undefined) {
+      changes.text = body.text;
+    }
+    if (body.done !== undefined) {
+      changes.done = body.done;
+    }
+    return await writeChecklist(c, storage, 200, (items) =>
+      updateItem(items, c.req.param('itemId'), changes)
+    );
+  } catch (error) {
+    return checklistErrorResponse(error, 'updating the checklist item');
+  }
+}
+
+/**
+ * Delete Checklist Item Handler
+ *
+ * チェックリストから項目を削除します。
+ * 変更後の親のTodoを返すため、204 No Contentではなく200 OKで応答します。
+ *
+ * @param {Context<AppEnv>} c - Honoコンテキスト
+ * @param {IStorage} storage - ストレージレイヤーインスタンス
+ * @returns {Promise<Response>} 変更後の親のTodo（200 OK）またはエラーレスポンス
+ *
+ * エラーレスポンス:
+ * - 400 Bad Request: ID形式が不正
+ * - 404 Not Found: 親のTodoまたは項目が存在しない
+ * - 412 Precondition Failed: If-Matchが親のTodoの現在のETagと一致しない
+ * - 500 Internal Server Error: ストレージエラー
+ */
+export async function deleteItemHandler(c: Context<AppEnv>, storage: IStorage): Promise<Response> {
+  try {
+    const invalidId = validatePathIds(c);
+    if (invalidId) {
+      return invalidId;
+    }
+
+    return await writeChecklist(c, storage, 200, (items) =>
+      removeItem(items, c.req.param('itemId'))
+    );
+  } catch (error) {
+    return checklistErrorResponse(error, 'deleting the checklist item');
+  }
+}
+
+/**
+ * Reorder Checklist Item Handler
+ *
+ * チェックリストの項目を新しい位置に移動します。
+ * 位置の計算はTodoの並び替えと同じ reorderPositions()（utils/ordering.ts）を使用します。
+ *
+ * @param {Context<AppEnv>} c - Honoコンテキスト
+ * @param {IStorage} storage - ストレージレイヤーインスタンス
+ * @returns {Promise<Response>} 変更後の親のTodo（200 OK）またはエラーレスポンス
+ *
+ * エラーレスポンス:
+ * - 400 Bad Request: ID形式またはnewPositionが不正、newPositionが範囲外
+ * - 404 Not Found: 親のTodoまたは項目が存在しない
+ * - 412 Precondition Failed: If-Matchが親のTodoの現在のETagと一致しない
+ * - 500 Internal Server Error: ストレージエラー
+ *
+ * @example
+ * ```typescript
+ * // リクエスト
+ * PUT /todos/550e8400-e29b-41d4-a716-446655440000/items/9b1d.../reorder
+ * { "newPosition": 0 }
+ * ```
+ */
+export async function reorderItemHandler(c: Context<AppEnv>, storage: IStorage): Promise<Response> {
+  try {
+    const invalidId = validatePathIds(c);
+    if (invalidId) {
+      return invalidId;
+    }
+
+    const body = await c.req.json<{ newPosition: number }>().catch(() => null);
+    const validationResult = validateReorderInput(body);
+    if (!body || !validationResult.valid) {
+      return errorResponse(
+        ERROR_CODES.VALIDATION_ERROR,
+        validationResult.error || 'Invalid input',
+        400
+      );
+    }
+
+    return await writeChecklist(c, storage, 200, (items) => {
+      const moved = moveItem(items, c.req.param('itemId'), body.newPosition);
+      if (moved !== null) {
+        assertPositionInRange(body.newPosition, items.length);
+      }
+      return moved;
+    });
+  } catch (error) {
+    return checklistErrorResponse(error, 'reordering the checklist item');
+  }
+}
@@ -0,0 +1,374 @@
+/**
+ * List Handlers
+ *
+ * このファイルはTodoリスト（models/list.ts）のCRUDと、リスト間でTodoを移動するハンドラーを提供します。
+ * 各リストのTodoは `/lists/:listId/todos` で操作し、既存の `/todos` はデフォルトのリストを操作します。
+ * リストのストレージ・一覧はストレージミドルウェアが `storage` / `lists` / `storageFor` として設定します。
+ *
+ * 参照:
+ * - 要件14: エラーレスポンスの標準化 (requirements.md)
+ */
+
+import type { Context } from 'hono';
+import { jsonResponse, errorResponse } from '../utils/response';
+import {
+  validateId,
+  validateListInput,
+  validateMoveToListInput,
+  validateTodoCount,
+  resolveMaxTodoCount,
+  VALIDATION_ERRORS,
+} from '../utils/validation';
+import { withDefaultList, countTodos } from '../utils/lists';
+import { descendantIds } from '../utils/tree';
+import { withProgress } from '../utils/checklist';
+import { formatETag } from '../utils/etag';
+import { ERROR_CODES } from '../models/error';
+import { DEFAULT_LIST_ID, LIST_CONSTRAINTS } from '../models/list';
+import type { TodoList, ListResponse, ListRequest, MoveToListRequest } from '../models/list';
+import type { IStorage, IListStorage } from '../storage/interface';
+import type { AppEnv } from '../models/env';
+
+/**
+ * Resolve a list by ID
+ *
+ * 登録されていないデフォルトのリストは、デフォルトの名前で補います。
+ *
+ * @param lists - リストストレージ
+ * @param id - リストのID
+ * @returns リスト、または存在しない場合はnull
+ */
+async function resolveList(lists: IListStorage, id: string): Promise<TodoList | null> {
+  const list = await lists.getList(id);
+  if (list || id !== DEFAULT_LIST_ID) {
+    return list;
+  }
+  return { id: DEFAULT_LIST_ID, name: LIST_CONSTRAINTS.DEFAULT_LIST_NAME };
+}
+
+/**
+ * Add counts to a list
+ *
+ * @param list - リスト
+ * @param storage - リストのストレージ
+ * @returns 件数を含むリスト
+ */
+async function toListResponse(list: TodoList, storage: IStorage): Promise<ListResponse> {
+  return { ...list, counts: countTodos(await storage.getAll()) };
+}
+
+/**
+ * Get Lists Handler
+ *
+ * デフォルトのリストを含むすべてのリストを件数とともに取得します。
+ *
+ * @param {Context<AppEnv>} c - Honoコンテキスト
+ * @param {IListStorage} lists - リストストレージ
+ * @returns {Promise<Response>} リストの配列（200 OK）またはエラーレスポンス
+ *
+ * @example
+ * ```typescript
+ * // レスポンス (200 OK)
+ * [
+ *   { "id": "default", "name": "Todos", "counts": { "total": 3, "completed": 1 } },
+ *   {
+ *     "id": "550e8400-e29b-41d4-a716-446655440000",
+ *     "name": "Sprint",
+ *     "createdAt": "2025-11-01T09:00:00.000Z",
+ *     "counts": { "total": 0, "completed": 0 }
+ *   }
+ * ]
+ * ```
+ */
+export async function getListsHandler(c: Context<AppEnv>, lists: IListStorage): Promise<Response> {
+  try {
+    const all = withDefaultList(await lists.getLists());
+    const storageFor = c.get('storageFor');
+    const responses = await Promise.all(
+      all.map((list) => toListResponse(list, storageFor(list.id)))
+    );
+    return jsonResponse(responses, 200);
+  } catch (error) {
+    console.error('Error fetching lists:', error);
+    return errorResponse(
+      ERROR_CODES.INTERNAL_ERROR,
+      'An unexpected error occurred while fetching lists',
+      500
+    );
+  }
+}
+
+/**
+ * Create List Handler
+ *
+ * 新しいリストを作成します。名前の前後の空白は取り除いて保存します。
+ *
+ * @param {Context<AppEnv>} c - Honoコンテキスト
+ * @param {IListStorage} lists - リストストレージ
+ * @returns {Promise<Response>} 作成したリスト（201 Created）またはエラーレスポンス
+ *
+ * エラーレスポンス:
+ * - 400 Bad Request: バリデーションエラー、リスト数の上限（MAX_LIST_COUNT）到達
+ * - 500 Internal Server Error: ストレージエラー
+ */
+export async function createListHandler(
+  c: Context<AppEnv>,
+  lists: IListStorage
+): Promise<Response> {
+  try {
+    const body = await c.req.json<ListRequest>().catch(() => null);
+    const validationResult = validateListInput(body);
+    if (!body || !validationResult.valid) {
+      return errorResponse(
+        ERROR_CODES.VALIDATION_ERROR,
+        validationResult.error || 'Invalid input',
+        400
+      );
+    }
+
+    // デフォルトのリストは上限に数えない
+    const existing = (await lists.getLists()).filter((list) => list.id !== DEFAULT_LIST_ID);
+    if (existing.length >= LIST_CONSTRAINTS.MAX_LIST_COUNT) {
+      return errorResponse(ERROR_CODES.VALIDATION_ERROR, VALIDATION_ERRORS.LIST_LIMIT_REACHED, 400);
+    }
+
+    const list = await lists.putList({
+      id: crypto.randomUUID(),
+      name: body.name.trim(),
+      createdAt: new Date().toISOString(),
+    });
+
+    return jsonResponse({ ...list, counts: { total: 0, completed: 0 } }, 201);
+  } catch (error) {
+    console.error('Error creating list:', error);
+    return errorResponse(
+      ERROR_CODES.INTERNAL_ERROR,
+      'An unexpected error occurred while creating the list',
+      500
+    );
+  }
+}
+
+/**
+ * Get List Handler
+ *
+ * パスのリストを件数とともに取得します。リストの存在はストレージミドルウェアが検証します。
+ *
+ * @param {Context<AppEnv>} c - Honoコンテキスト
+ * @param {IStorage} storage - パスのリストのストレージ
+ * @returns {Promise<Response>} リスト（200 OK）またはエラーレスポンス
+ *
+ * エラーレスポンス:
+ * - 404 Not Found: 該当するリストが存在しない
+ * - 500 Internal Server Error: ストレージエラー
+ */
+export async function getListHandler(c: Context<AppEnv>, storage: IStorage): Promise<Response> {
+  try {
+    const id = c.req.param('listId') ?? DEFAULT_LIST_ID;
+    const list = await resolveList(c.get('lists'), id);
+    if (!list) {
+      return errorResponse(ERROR_CODES.NOT_FOUND, `List with ID ${id} not found`, 404);
+    }
+
+    return jsonResponse(await toListResponse(list, storage), 200);
+  } catch (error) {
+    console.error('Error fetching list:', error);
+    return errorResponse(
+      ERROR_CODES.INTERNAL_ERROR,
+      'An unexpected error occurred while fetching the list',
+      500
+    );
+  }
+}
+
+/**
+ * Update List Handler
+ *
+ * パスのリストの名前を変更します。デフォルトのリストも名前を変更でき、その時点で登録されます。
+ *
+ * @param {Context<AppEnv>} c - Honoコンテキスト
+ * @param {IStorage} storage - パスのリストのストレージ
+ * @returns {Promise<Response>} 更新したリスト（200 OK）またはエラーレスポンス
+ *
+ * エラーレスポンス:
+ * - 400 Bad Request: バリデーションエラー
+ * - 404 Not Found: 該当するリストが存在しない
+ * - 500 Internal Server Error: ストレージエラー
+ */
+export async function updateListHandler(c: Context<AppEnv>, storage: IStorage): Promise<Response> {
+  try {
+    const id = c.req.param('listId') ?? DEFAULT_LIST_ID;
+    const body = await c.req.json<ListRequest>().catch(() => null);
+    const validationResult = validateListInput(body);
+    if (!body || !validationResult.valid) {
+      return errorResponse(
+        ERROR_CODES.VALIDATION_ERROR,
+        validationResult.error || 'Invalid input',
+        400
+      );
+    }
+
+    const lists = c.get('lists');
+    const list = await resolveList(lists, id);
+    if (!list) {
+      return errorResponse(ERROR_CODES.NOT_FOUND, `List with ID ${id} not found`, 404);
+    }
+
+    const updated = await lists.putList({ ...list, name: body.name.trim() });
+    return jsonResponse(await toListResponse(updated, storage), 200);
+  } catch (error) {
+    console.error('Error updating list:', error);
+    return errorResponse(
+      ERROR_CODES.INTERNAL_ERROR,
+      'An unexpected error occurred while updating the list',
+      500
+    );
+  }
+}
+
+/**
+ * Delete List Handler
+ *
+ * パスのリストを、そのTodo・ゴミ箱・アーカイブとともに削除します。削除したリストは戻せません。
+ * 既存の `/todos` ルートが操作するデフォルトのリストは削除できません。
+ *
+ * @param {Context<AppEnv>} c - Honoコンテキスト
+ * @param {IStorage} storage - パスのリストのストレージ
+ * @returns {Promise<Response>} 204 No Contentまたはエラーレスポンス
+ *
+ * エラーレスポンス:
+ * - 400 Bad Request: デフォルトのリストを指定した
+ * - 404 Not Found: 該当するリストが存在しない
+ * - 500 Internal Server Error: ストレージエラー
+ */
+export async function deleteListHandler(c: Context<AppEnv>, storage: IStorage): Promise<Response> {
+  try {
+    const id = c.req.param('listId') ?? DEFAULT_LIST_ID;
+    if (id === DEFAULT_LIST_ID) {
+      return errorResponse(
+        ERROR_CODES.VALIDATION_ERROR,
+        VALIDATION_ERRORS.DEFAULT_LIST_UNDELETABLE,
+        400
+      );
+    }
+
+    // Todoを先に削除し、途中で失敗した場合もリストから残りを削除し直せるようにする
+    await storage.clear();
+    if (!(await c.get('lists').deleteList(id))) {
+      return errorResponse(ERROR_CODES.NOT_FOUND, `List with ID ${id} not found`, 404);
+    }
+
+    return jsonResponse(null, 204);
+  } catch (error) {
+    console.error('Error deleting list:', error);
+    return errorResponse(
+      ERROR_CODES.INTERNAL_ERROR,
+      'An unexpected error occurred while deleting the list',
+      500
+    );
+  }
+}
+
+/**
+ * Move Todo to List Handler
+ *
+ * 指定されたTodoを子孫とともに別のリストに移動します。
+ * 移動先では親を持たないTodoとしてルートの末尾に配置し、子孫の親子関係と並び順は保持します。
+ *
+ * ビジネスロジック:
+ * 1. パスパラメータのIDとリクエストボディの移動先リストIDを検証
+ * 2. 移動先のリストとTodoの存在を確認（存在しない場合は404 Not Found）
+ * 3. 移動先が同じリストの場合は変更せずに200 OKを返す
+ * 4. 移動先のTodo件数の上限（MAX_TODOS）を子孫を含む件数で検証
+ * 5. ストレージのmoveToList()でTodoと子孫を移動先のリストに移す（IDとversion以外の内容は変わらない）
+ * 6. 成功時は200 OKで移動したTodoをETagヘッダー付きで返す
+ *
+ * @param {Context<AppEnv>} c - Honoコンテキスト
+ * @param {IStorage} storage - 移動元のリストのストレージ
+ * @returns {Promise<Response>} 移動したTodo（200 OK）またはエラーレスポンス
+ *
+ * エラーレスポンス:
+ * - 400 Bad Request: 無効なUUID形式、バリデーションエラー、移動先のTodo件数上限到達
+ * - 404 Not Found: 該当するTodoまたは移動先のリストが存在しない
+ * - 500 Internal Server Error: ストレージエラー、またはMAX_TODOSの設定不備
+ *
+ * **注意**: D1は1回のトランザクションで移動します。KV・Durable Objectsは途中でエラーになった場合に
+ * 一部のTodoが両方のリストに存在する状態になります（Todoが失われることはない。IStorage.moveToList()）。
+ *
+ * @example
+ * ```typescript
+ * // リクエスト: POST /todos/550e8400-e29b-41d4-a716-446655440000/move
+ * { "listId": "6ba7b810-9dad-41d1-80b4-00c04fd430c8" }
+ * ```
+ */
+export async function moveTodoToListHandler(
+  c: Context<AppEnv>,
+  storage: IStorage
+): Promise<Response> {
+  try {
+    const id = c.req.param('id');
+
+    // UUID形式を検証
+    if (!validateId(id)) {
+      return errorResponse(
+        ERROR_CODES.VALIDATION_ERROR,
+        'Invalid todo ID format. Must be a valid UUID v4.',
+        400
+      );
+    }
+
+    const body = await c.req.json<MoveToListRequest>().catch(() => null);
+    const validationResult = validateMoveToListInput(body);
+    if (!body || !validationResult.valid) {
+      return errorResponse(
+        ERROR_CODES.VALIDATION_ERROR,
+        validationResult.error || 'Invalid input',
+        400
+      );
+    }
+
+    const target = await resolveList(c.get('lists'), body.listId);
+    if (!target) {
+      return errorResponse(ERROR_CODES.NOT_FOUND, `List with ID ${body.listId} not found`, 404);
+    }
+
+    const todos = await storage.getAll();
+    const todo = todos.find((item) => item.id === id);
+    if (!todo) {
+      return errorResponse(ERROR_CODES.NOT_FOUND, `Todo with ID ${id} not found`, 404);
+    }
+
+    if (target.id === (c.req.param('listId') ?? DEFAULT_LIST_ID)) {
+      return jsonResponse(withProgress(todo), 200, { ETag: formatETag(todo) });
+    }
+
+    // Todo件数制限を検証（MAX_TODOS、デフォルト500件）
+    const descendants = descendantIds(todos, id);
+    const maxCount = resolveMaxTodoCount(c.env?.MAX_TODOS);
+    const countValidation = validateTodoCount(
+      (await c.get('storageFor')(target.id).getAll()).length + descendants.length,
+      maxCount
+    );
+    if (!countValidation.valid) {
+      return errorResponse(
+        ERROR_CODES.TODO_LIMIT_REACHED,
+        countValidation.error || `Maximum number of todos (${maxCount}) has been reached`,
+        400
+      );
+    }
+
+    const moved = await storage.moveToList(id, target.id);
+    if (!moved) {
+      return errorResponse(ERROR_CODES.NOT_FOUND, `Todo with ID ${id} not found`, 404);
+    }
+
+    return jsonResponse(withProgress(moved), 200, { ETag: formatETag(moved) });
+  } catch (error) {
+    console.error('Error moving todo to list:', error);
+    return errorResponse(
+      ERROR_CODES.INTERNAL_ERROR,
+      'An unexpected error occurred while moving the todo',
+      500
+    );
+  }
+}
@@ -1,35 +1,149 @@
-// src/handlers/reorder.ts
+/**
+ * Reorder Handlers
+ *
+ * このファイルはTodo項目の並び替えハンドラーを提供します。
+ * 並び替えはストレージ層の `move()` / `setOrder()` に委譲するため、
+ * ハンドラーはバックエンドの種類に依存しません。
+ *
+ * 参照:
+ * - task-reordering要件1.1-1.3 (task-reordering/requirements.md)
+ * - 要件14: エラーレスポンスの標準化 (requirements.md)
+ * - RFC 9110 Section 13.1.1: If-Matchによる楽観的並行性制御
+ */
+
 import type { Context } from 'hono';
-import { KVStorage } from '../storage/kv';
-import { isValidUUIDv4 } from '../utils/validation';
+import { jsonResponse, errorResponse } from '../utils/response';
+import { validateId, validateReorderInput, validateOrderInput } from '../utils/validation';
+import { resolveExpectedVersion } from '../utils/etag';
+import { withProgress } from '../utils/checklist';
+import { ERROR_CODES, PreconditionFailedError } from '../models/error';
+import type { IStorage } from '../storage/interface';
+import type { AppEnv } from '../models/env';
 
-export async function reorderHandler(c: Context) {
-  const storage = new KVStorage(c.env.TODO_KV);
-  const id = c.req.param('id');
-  const { newPosition } = await c.req.json();
+/**
+ * Reorder Todo Handler
+ *
+ * 指定されたTodoを新しい位置に移動します。
+ *
+ * ビジネスロジック:
+ * 1. パスパラメータからIDを取得し、UUID v4形式を検証
+ * 2. リクエストボディのnewPositionを検証（0以上の整数）
+ * 3. If-Matchヘッダーがある場合は移動するTodoの期待するバージョンを決定
+ * 4. ストレージ層の `move()` で移動（範囲外の場合はRangeError）
+ * 5. 200 OKステータスで並び替え後の全Todoを返す
+ *
+ * @param {Context<AppEnv>} c - Honoコンテキスト
+ * @param {IStorage} storage - ストレージレイヤーインスタンス
+ * @returns {Promise<Response>} 並び替え後のTodo配列（200 OK）またはエラーレスポンス
+ *
+ * エラーレスポンス:
+ * - 400 Bad Request: ID形式またはnewPositionが不正、newPositionが範囲外
+ * - 404 Not Found: 指定されたIDのTodoが存在しない
+ * - 412 Precondition Failed: If-Matchが移動するTodoの現在のETagと一致しない
+ * - 500 Internal Server Error: ストレージエラー
+ *
+ * @example
+ * ```typescript
+ * // リクエスト
+ * PUT /todos/550e8400-e29b-41d4-a716-446655440000/reorder
+ * { "newPosition": 0 }
+ *
+ * // レスポンス (200 OK)
+ * { "todos": [{ "id": "550e8400-...", "position": 0, ... }, ...] }
+ * ```
+ */
+export async function reorderHandler(c: Context<AppEnv>, storage: IStorage): Promise<Response> {
+  try {
+    const id = c.req.param('id');
 
-  // バリデーション
-  if (!isValidUUIDv4(id)) {
-    return c.json({ error: 'Invalid todoId format' }, 400);
-  }
-  if (typeof newPosition !== 'number' || newPosition < 0) {
-    return c.json({ error: 'Invalid newPosition' }, 400);
-  }
+    if (!validateId(id)) {
+      return errorResponse(
+        ERROR_CODES.VALIDATION_ERROR,
+        'Invalid todo ID format. Must be a valid UUID v4.',
+        400
+      );
+    }
 
-  // 全タスク取得
-  const todos = await storage.getAll();
-  const target = todos.find((t) => t.id === id);
-  if (!target) {
-    return c.json({ error: 'Todo not found' }, 404);
-  }
-  if (newPosition >= todos.length) {
-    return c.json({ error: 'newPosition out of range' }, 400);
+    const body = await c.req.json<{ newPosition: number }>().catch(() => null);
+    const validationResult = validateReorderInput(body);
+    if (!body || !validationResult.valid) {
+      return errorResponse(
+        ERROR_CODES.VALIDATION_ERROR,
+        validationResult.error || 'Invalid input',
+        400
+      );
+    }
+
+    const expectedVersion = await resolveExpectedVersion(c.req.header('If-Match'), storage, id);
+    const todos = await storage.move(id, body.newPosition, expectedVersion);
+    if (todos === null) {
+      return errorResponse(ERROR_CODES.NOT_FOUND, `Todo item with ID ${id} not found`, 404);
+    }
+
+    return jsonResponse({ todos: todos.map(withProgress) }, 200);
+  } catch (error) {
+    if (error instanceof RangeError) {
+      return errorResponse(ERROR_CODES.VALIDATION_ERROR, error.message, 400);
+    }
+    if (error instanceof PreconditionFailedError) {
+      return errorResponse(ERROR_CODES.PRECONDITION_FAILED, error.message, 412);
+    }
+    console.error('Error reordering todo:', error);
+    return errorResponse(
+      ERROR_CODES.INTERNAL_ERROR,
+      'An unexpected error occurred while reordering the todo',
+      500
+    );
   }
+}
 
-  // 並び替えロジック
-  const reordered = KVStorage.reorderPositions(todos, id, newPosition);
-  await (storage as KVStorage).updatePositions(reordered);
+/**
+ * Set Order Handler
+ *
+ * 指定されたIDの並び順で全Todoのpositionを一括設定します。
+ * ドラッグ&ドロップ後のリスト全体を1回のリクエストで保存する用途を想定しています。
+ *
+ * @param {Context<AppEnv>} c - Honoコンテキスト
+ * @param {IStorage} storage - ストレージレイヤーインスタンス
+ * @returns {Promise<Response>} 並び替え後のTodo配列（200 OK）またはエラーレスポンス
+ *
+ * エラーレスポンス:
+ * - 400 Bad Request: idsが不正、または現在の全Todo IDと一致しない
+ * - 500 Internal Server Error: ストレージエラー
+ *
+ * @example
+ * ```typescript
+ * // リクエスト
+ * PUT /todos/order
+ * { "ids": ["7c9e6679-...", "550e8400-..."] }
+ *
+ * // レスポンス (200 OK)
+ * { "todos": [{ "id": "7c9e6679-...", "position": 0, ... }, ...] }
+ * ```
+ */
+export async function setOrderHandler(c: Context<AppEnv>, storage: IStorage): Promise<Response> {
+  try {
+    const body = await c.req.json<{ ids: string[] }>().catch(() => null);
+    const validationResult = validateOrderInput(body);
+    if (!body || !validationResult.valid) {
+      return errorResponse(
+        ERROR_CODES.VALIDATION_ERROR,
+        validationResult.error || 'Invalid input',
+        400
+      );
+    }
 
-  // レスポンス
-  return c.json({ todos: reordered }, 200);
+    const todos = await storage.setOrder(body.ids);
+    return jsonResponse({ todos: todos.map(withProgress) }, 200);
+  } catch (error) {
+    if (error instanceof RangeError) {
+      return errorResponse(ERROR_CODES.VALIDATION_ERROR, error.message, 400);
+    }
+    console.error('Error setting todo order:', error);
+    return errorResponse(
+      ERROR_CODES.INTERNAL_ERROR,
+      'An unexpected error occurred while reordering todos',
+      500
+    );
+  }
 }
@@ -0,0 +1,86 @@
+/**
+ * Scheduled Handlers
+ *
+ * このファイルは定期実行（Cron Trigger、wrangler.toml の `[triggers] crons`）のハンドラーを提供します。
+ * すべてのテナント・リストのゴミ箱から、保持期間（環境変数 TRASH_RETENTION_DAYS）を過ぎたTodoを
+ * 完全に削除します。削除やゴミ箱の操作がないリストでも、保持期間を過ぎたTodoが残り続けないようにします。
+ * Workers KVのリストでは、同時書き込みでずれたインデックス（`meta:index`）も再構築します。
+ *
+ * 参照:
+ * - 要件5: データ永続化 (requirements.md)
+ */
+
+import { resolveTrashRetentionDays } from '../utils/validation';
+import { purgeExpiredTrash } from '../utils/trash';
+import { parseApiKeys } from '../utils/apiKeys';
+import { withDefaultList } from '../utils/lists';
+import { createStorage, createListStorage } from '../storage/factory';
+import { KVApiKeyStorage } from '../storage/apiKeys';
+import { KVStorage } from '../storage/kv';
+import { DEFAULT_TENANT_ID } from '../models/tenant';
+import type { Env } from '../models/env';
+
+/**
+ * Collect the tenants to purge
+ *
+ * デフォルトのテナント、VALID_API_KEYS のテナント、/admin/keys で発行したAPI Keyのテナントを対象にします。
+ *
+ * @param env - Cloudflare Workers環境
+ * @returns テナントのID（重複なし）
+ */
+async function tenantIds(env: Env): Promise<string[]> {
+  const configured = parseApiKeys(env.VALID_API_KEYS?.trim() ?? '').map((entry) => entry.tenantId);
+  const issued = env.TODO_KV ? await new KVApiKeyStorage(env.TODO_KV).tenantIds() : [];
+  return [...new Set([DEFAULT_TENANT_ID, ...configured, ...issued])];
+}
+
+/**
+ * Purge Expired Trash Handler
+ *
+ * Cron Triggerから呼び出され、すべてのテナント・リストのゴミ箱を保持期間で整理します。
+ * Workers KVのリストでは、続けてインデックスを再構築します（書き込みの少ない時間帯に実行されるため）。
+ *
+ * ビジネスロジック:
+ * 1. 対象のテナントを求める
+ * 2. テナントごとにリストの一覧（デフォルトのリストを含む）を取得
+ * 3. リストごとに保持期間を過ぎたTodoを完全に削除（基準の時刻は定期実行の予定時刻）
+ * 4. Workers KVのリストはインデックスを再構築（KVStorage.rebuildIndex()）
+ * 5. 失敗したテナント・リストはログに記録し、残りの処理を続ける
+ *
+ * @param {ScheduledController} controller - 定期実行のコントローラー
+ * @param {Env} env - Cloudflare Workers環境
+ * @returns {Promise<void>}
+ *
+ * @example
+ * ```typescript
+ * export default {
+ *   fetch: app.fetch,
+ *   scheduled: (controller, env, ctx) => ctx.waitUntil(purgeExpiredTrashHandler(controller, env)),
+ * };
+ * ```
+ */
+export async function purgeExpiredTrashHandler(
+  controller: ScheduledController,
+  env: Env
+): Promise<void> {
+  const retentionDays = resolveTrashRetentionDays(env.TRASH_RETENTION_DAYS);
+
+  for (const tenantId of await tenantIds(env)) {
+    try {
+      const lists = withDefaultList(await createListStorage(env, tenantId).getLists());
+      for (const list of lists) {
+        try {
+          const storage = createStorage(env, list.id, tenantId);
+          await purgeExpiredTrash(storage, retentionDays, controller.scheduledTime);
+          if (storage instanceof KVStorage) {
+            await storage.rebuildIndex();
+          }
+        } catch (error) {
+          console.error(`Error in scheduled maintenance of list ${list.id}:`, error);
+        }
+      }
+    } catch (error) {
+      console.error(`Error in scheduled maintenance of tenant ${tenantId}:`, error);
+    }
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Tag Handlers
+ *
+ * このファイルはTodoのタグに関するハンドラーを提供します。
+ * タグはTodoのフィールドとして保存されるため、一覧はすべてのTodoから集計します。
+ *
+ * 参照:
+ * - 要件14: エラーレスポンスの標準化 (requirements.md)
+ */
+
+import type { Context } from 'hono';
+import { jsonResponse, errorResponse } from '../utils/response';
+import { countTags } from '../utils/tags';
+import { ERROR_CODES } from '../models/error';
+import type { IStorage } from '../storage/interface';
+import type { AppEnv } from '../models/env';
+
+/**
+ * Get Tags Handler
+ *
+ * 使用中のタグと、各タグを持つTodoの数を返します。
+ *
+ * ビジネスロジック:
+ * 1. ストレージレイヤーからすべてのTodoを取得
+ * 2. タグごとにTodoの数を集計する（どのTodoにも付いていないタグは含まない）
+ * 3. 200 OKステータスで使用数の多い順（同数の場合はタグの辞書順）に返す
+ *
+ * @param {Context<AppEnv>} c - Honoコンテキスト
+ * @param {IStorage} storage - ストレージレイヤーインスタンス
+ * @returns {Promise<Response>} タグと使用数の配列（200 OK）またはエラーレスポンス
+ *
+ * エラーレスポンス:
+ * - 500 Internal Server Error: ストレージエラー
+ *
+ * @example
+ * ```typescript
+ * // レスポンス (200 OK)
+ * [
+ *   { "tag": "work", "count": 3 },
+ *   { "tag": "personal", "count": 1 }
+ * ]
+ * ```
+ */
+export async function getTagsHandler(_c: Context<AppEnv>, storage: IStorage): Promise<Response> {
+  try {
+    const todos = await storage.getAll();
+    return jsonResponse(countTags(todos), 200);
+  } catch (error) {
+    console.error('Error fetching tags:', error);
+    return errorResponse(
+      ERROR_CODES.INTERNAL_ERROR,
+      'An unexpected error occurred while fetching tags',
+      500
+    );
+  }
+}
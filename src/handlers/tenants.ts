@@ -0,0 +1,85 @@
+/**
+ * Tenant Handlers
+ *
+ * このファイルはテナント（models/tenant.ts）の管理用のハンドラーを提供します。
+ * テナント導入前のデータはデフォルトのテナントに属するため、既存のデータを名前付きのテナントで
+ * 使い続ける場合は、デフォルトのテナントのadminスコープのAPI Keyでデータを移行します。
+ *
+ * 参照:
+ * - 要件10: 認証・認可 (requirements.md)
+ * - 要件14: エラーレスポンスの標準化 (requirements.md)
+ */
+
+import type { Context } from 'hono';
+import { jsonResponse, errorResponse } from '../utils/response';
+import { isValidTenantId } from '../utils/tenant';
+import { migrateDefaultTenant } from '../storage/factory';
+import { ERROR_CODES } from '../models/error';
+import { DEFAULT_TENANT_ID } from '../models/tenant';
+import type { AppEnv } from '../models/env';
+
+/**
+ * Migrate Tenant Handler
+ *
+ * デフォルトのテナントのTodo・ゴミ箱・アーカイブ・リストを、パスで指定したテナントに移します
+ * （バックエンドごとの移行の方法は storage/factory.ts の migrateDefaultTenant()）。
+ * 移行後のデフォルトのテナントは空になります。API Keyのテナントは変わらないため、
+ * 移行後は `VALID_API_KEYS` を `tenantId:key` の形式に変更するか、移行先のテナントのAPI Keyを発行してください。
+ *
+ * ビジネスロジック:
+ * 1. リクエストのAPI Keyがデフォルトのテナントに属することを確認
+ * 2. パスのテナントIDを検証（デフォルトのテナントは指定できない）
+ * 3. 移行先のテナントにデータがないことを確認してから移行
+ * 4. 移行先のテナントIDと移行した件数を返す
+ *
+ * @param {Context<AppEnv>} c - Honoコンテキスト
+ * @returns {Promise<Response>} 移行の結果（200 OK）またはエラーレスポンス
+ *
+ * @example
+ * ```typescript
+ * // リクエスト
+ * POST /admin/tenants/team-a/migrate
+ *
+ * // レスポンス (200 OK)
+ * { "tenantId": "team-a", "migrated": 42 }
+ * ```
+ *
+ * エラーレスポンス:
+ * - 400 Bad Request: テナントIDが不正、デフォルトのテナントを指定した、移行先のテナントにすでにデータがある、
+ *   memoryバックエンド
+ * - 403 Forbidden: デフォルトのテナント以外のAPI Key
+ * - 500 Internal Server Error: ストレージエラー
+ */
+export async function migrateTenantHandler(c: Context<AppEnv>): Promise<Response> {
+  try {
+    if ((c.get('tenantId') ?? DEFAULT_TENANT_ID) !== DEFAULT_TENANT_ID) {
+      return errorResponse(
+        ERROR_CODES.FORBIDDEN,
+        'Only an API key of the default tenant can migrate its data',
+        403
+      );
+    }
+
+    const tenantId = c.req.param('tenantId');
+    if (!isValidTenantId(tenantId) || tenantId === DEFAULT_TENANT_ID) {
+      return errorResponse(
+        ERROR_CODES.VALIDATION_ERROR,
+        'Invalid tenant ID. Must be 1-64 letters, digits, hyphens or underscores other than "default".',
+        400
+      );
+    }
+
+    const migrated = await migrateDefaultTenant(c.env, tenantId);
+    return jsonResponse({ tenantId, migrated }, 200);
+  } catch (error) {
+    if (error instanceof RangeError) {
+      return errorResponse(ERROR_CODES.VALIDATION_ERROR, error.message, 400);
+    }
+    console.error('Error migrating tenant:', error);
+    return errorResponse(
+      ERROR_CODES.INTERNAL_ERROR,
+      'An unexpected error occurred while migrating the tenant',
+      500
+    );
+  }
+}
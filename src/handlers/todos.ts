@@ -11,15 +11,101 @@
  * - 要件4: Todo項目の削除 (requirements.md)
  * - 要件13: ID生成とデータ構造 (requirements.md)
  * - Todo Handler セクション (design.md)
+ * - 階層化: 親子関係の検証（循環・深さ）と削除時の子の付け替え・削除はこのファイルで行う
+ * - 繰り返し: 繰り返しのTodoの完了時に次の回を作成する（手順は utils/occurrence.ts、規則の算出は utils/recurrence.ts）
+ * - RFC 9110 Section 13.1.1: If-Matchによる楽観的並行性制御
+ * - RFC 9110 Section 13.1.2-13.1.3: If-None-Match / If-Modified-Sinceによる条件付きGET
  */
 
 import type { Context } from 'hono';
-import { jsonResponse, errorResponse } from '../utils/response';
-import { validateTodoInput, validateTodoCount, validateId } from '../utils/validation';
-import { ERROR_CODES } from '../models/error';
-import type { Todo, CreateTodoRequest, UpdateTodoRequest } from '../models/todo';
+import { jsonResponse, errorResponse, notModifiedResponse } from '../utils/response';
+import {
+  validateTodoInput,
+  validateTodoCount,
+  resolveMaxTodoCount,
+  validateId,
+  validateListQuery,
+  validateDueInput,
+  isValidPriority,
+  validateTagsInput,
+  validateNotesInput,
+  isValidParentId,
+  validateParent,
+  isValidRecurrence,
+  resolveTrashRetentionDays,
+  VALIDATION_ERRORS,
+} from '../utils/validation';
+import { applyListQuery, selectFields } from '../utils/query';
+import { isOverdue, normalizeDue } from '../utils/due';
+import { canonicalizeRecurrence, normalizeRecurrence } from '../utils/recurrence';
+import { planNextOccurrence, createNextOccurrence } from '../utils/occurrence';
+import type { NextOccurrence } from '../utils/occurrence';
+import { normalizeTags } from '../utils/tags';
+import { withProgress } from '../utils/checklist';
+import { siblingsOf } from '../utils/ordering';
+import { buildTree, descendantIds } from '../utils/tree';
+import { purgeExpiredTrash } from '../utils/trash';
+import {
+  formatETag,
+  resolveExpectedVersion,
+  collectionETag,
+  isNotModified,
+  toHttpDate,
+} from '../utils/etag';
+import { ERROR_CODES, PreconditionFailedError, TodoLimitReachedError } from '../models/error';
+import { TODO_CONSTRAINTS } from '../models/todo';
+import type {
+  Todo,
+  CreateTodoRequest,
+  UpdateTodoRequest,
+  DeleteChildrenMode,
+} from '../models/todo';
 import type { IStorage } from '../storage/interface';
-import type { Env } from '../models/env';
+import type { AppEnv } from '../models/env';
+
+/**
+ * PUT /todos/:id で更新できるフィールド
+ */
+const UPDATABLE_FIELDS = [
+  'title',
+  'completed',
+  'dueAt',
+  'dueTimezone',
+  'priority',
+  'tags',
+  'notes',
+  'autoComplete',
+  'parentId',
+  'recurrence',
+] as const satisfies readonly (keyof UpdateTodoRequest)[];
+
+/**
+ * Reparent or trash the children of a deleted todo
+ *
+ * 削除後のTodo一覧から子を求めるため、削除の前に追加された子も処理されます。
+ *
+ * @param storage - ストレージレイヤーインスタンス
+ * @param deleted - ゴミ箱に移したTodo
+ * @param mode - 子の扱い（reparent: 親に付け替える / cascade: 子孫をゴミ箱に移す）
+ * @param deletedAt - 子孫をゴミ箱に移す日時（削除したTodoと同じ。子孫のdeletedWithには削除したTodoのIDを記録する）
+ */
+async function removeChildren(
+  storage: IStorage,
+  deleted: Todo,
+  mode: DeleteChildrenMode,
+  deletedAt: string
+): Promise<void> {
+  const todos = await storage.getAll();
+  if (mode === 'cascade') {
+    for (const descendantId of descendantIds(todos, deleted.id)) {
+      await storage.trash(descendantId, deletedAt, undefined, deleted.id);
+    }
+    return;
+  }
+  for (const child of siblingsOf(todos, deleted.id)) {
+    await storage.update(child.id, { parentId: deleted.parentId ?? null });
+  }
+}
 
 /**
  * Create Todo Handler
@@ -27,22 +113,25 @@ import type { Env } from '../models/env';
  * 新しいTodo項目を作成します。
  *
  * ビジネスロジック:
- * 1. リクエストボディからタイトルを取得
+ * 1. リクエストボディからタイトルと期限・優先度・タグ・親・繰り返し（任意）を取得
  * 2. 入力バリデーションを実行（要件1.3）
- * 3. 現在のTodo件数を確認し、500件制限を検証
- * 4. UUID v4形式のIDを生成（要件13.1）
- * 5. デフォルト値を設定（completed: false、createdAt: 現在時刻）（要件1.4, 1.5）
- * 6. ストレージレイヤーにTodoを保存
- * 7. 201 Createdステータスで作成されたTodoを返す（要件1.2）
+ * 3. 現在のTodo件数を確認し、上限（MAX_TODOS、デフォルト500件）を検証
+ * 4. 親が指定された場合は、親が存在し階層の深さが上限以下になることを検証
+ * 5. UUID v4形式のIDを生成（要件13.1）
+ * 6. デフォルト値を設定（completed: false、createdAt: 現在時刻、version: 1、priority: none、tags: []）（要件1.4, 1.5）
+ *    タグは正規化（前後の空白除去・小文字化・重複除去）して保存する
+ * 7. ストレージレイヤーにTodoを保存（親の子の末尾に追加される）
+ * 8. 201 Createdステータスで作成されたTodoをETagヘッダー付きで返す（要件1.2）
  *
- * @param {Context<{ Bindings: Env }>} c - Honoコンテキスト
+ * @param {Context<AppEnv>} c - Honoコンテキスト
  * @param {IStorage} storage - ストレージレイヤーインスタンス
  * @returns {Promise<Response>} 作成されたTodo（201 Created）またはエラーレスポンス
  *
  * エラーレスポンス:
- * - 400 Bad Request: バリデーションエラー（要件1.3）
- * - 400 Bad Request: Todo件数上限到達（500件）
- * - 500 Internal Server Error: ストレージエラー
+ * - 400 Bad Request: バリデーションエラー（要件1.3）、期限のないTodoへの繰り返しの指定
+ * - 400 Bad Request: Todo件数上限到達（MAX_TODOS、デフォルト500件）
+ * - 400 Bad Request: 親が存在しない、または階層の深さが上限を超える
+ * - 500 Internal Server Error: ストレージエラー、またはMAX_TODOSの設定不備
  *
  * @example
  * ```typescript
@@ -56,14 +145,13 @@ import type { Env } from '../models/env';
  *   "id": "550e8400-e29b-41d4-a716-446655440000",
  *   "title": "買い物リストを作成する",
  *   "completed": false,
- *   "createdAt": "2025-10-27T15:00:00.000Z"
+ *   "createdAt": "2025-10-27T15:00:00.000Z",
+ *   "position": 0,
+ *   "version": 1
  * }
  * ```
  */
-export async function createTodoHandler(
-  c: Context<{ Bindings: Env }>,
-  storage: IStorage
-): Promise<Response> {
+export async function createTodoHandler(c: Context<AppEnv>, storage: IStorage): Promise<Response> {
   try {
     // リクエストボディを取得
     const body = await c.req.json<CreateTodoRequest>();
@@ -81,12 +169,24 @@ export async function createTodoHandler(
     // 現在のTodo件数を取得
     const existingTodos = await storage.getAll();
 
-    // Todo件数制限を検証（最大500件）
-    const countValidation = validateTodoCount(existingTodos.length);
+    // Todo件数制限を検証（MAX_TODOS、デフォルト500件）
+    // app.request()で環境を渡さないテストではc.envが未定義になる
+    const maxCount = resolveMaxTodoCount(c.env?.MAX_TODOS);
+    const countValidation = validateTodoCount(existingTodos.length, maxCount);
     if (!countValidation.valid) {
       return errorResponse(
         ERROR_CODES.TODO_LIMIT_REACHED,
-        countValidation.error || 'Maximum number of todos (500) has been reached',
+        countValidation.error || `Maximum number of todos (${maxCount}) has been reached`,
+        400
+      );
+    }
+
+    // 親を検証（存在・深さ）
+    const parentValidation = validateParent(existingTodos, body.parentId);
+    if (!parentValidation.valid) {
+      return errorResponse(
+        ERROR_CODES.VALIDATION_ERROR,
+        parentValidation.error || 'Invalid parent',
         400
       );
     }
@@ -95,20 +195,39 @@ export async function createTodoHandler(
     const id = crypto.randomUUID();
 
     // デフォルト値を設定（要件1.4, 1.5, 13.4）
-    // 新規タスクは最後の位置に配置（task-reordering要件1.2）
+    // 新規タスクは兄弟の最後の位置に配置（task-reordering要件1.2）
     const newTodo: Todo = {
       id,
       title: body.title,
       completed: false, // デフォルト: 未完了
       createdAt: new Date().toISOString(), // ISO 8601形式
-      position: existingTodos.length, // 現在のタスク総数（最後の位置）
+      position: siblingsOf(existingTodos, body.parentId).length, // 兄弟の総数（最後の位置）
+      version: TODO_CONSTRAINTS.INITIAL_VERSION,
+      priority: body.priority ?? TODO_CONSTRAINTS.DEFAULT_PRIORITY,
+      tags: normalizeTags(body.tags ?? []),
+      notes: body.notes ?? '',
     };
+    if (body.autoComplete !== undefined) {
+      newTodo.autoComplete = body.autoComplete;
+    }
+    if (typeof body.parentId === 'string') {
+      newTodo.parentId = body.parentId;
+    }
+    if (typeof body.dueAt === 'string') {
+      newTodo.dueAt = body.dueAt;
+      if (typeof body.dueTimezone === 'string') {
+        newTodo.dueTimezone = body.dueTimezone;
+      }
+    }
+    if (typeof body.recurrence === 'string') {
+      newTodo.recurrence = canonicalizeRecurrence(body.recurrence);
+    }
 
     // ストレージに保存
     const createdTodo = await storage.create(newTodo);
 
     // 201 Createdで作成されたTodoを返す（要件1.2）
-    return jsonResponse(createdTodo, 201);
+    return jsonResponse(withProgress(createdTodo), 201, { ETag: formatETag(createdTodo) });
   } catch (error) {
     console.error('Error creating todo:', error);
     return errorResponse(
@@ -123,14 +242,51 @@ export async function createTodoHandler(
  * Get All Todos Handler
  *
  * すべてのTodo項目を取得します。
+ * クエリパラメータによる絞り込み・並べ替え・ページネーションに対応します。
+ * 一覧のETagとLast-Modifiedを返し、ポーリングするクライアントの条件付きGETに
+ * 変更がなければ304 Not Modified（ボディなし）で応答します。
+ *
+ * クエリパラメータ（すべて任意）:
+ * - completed: `true` / `false` で完了状態を絞り込む
+ * - q: タイトルに含まれる文字列で絞り込む（大文字小文字を区別しない）
+ * - sort: `position`（デフォルト） / `createdAt` / `title` / `priority`
+ *   （positionは兄弟の中での位置のため、全Todoの並び順で並べる。
+ *   priorityの場合、同じ優先度のTodoはorderに関わらず並び順の昇順）
+ * - order: `asc`（デフォルト） / `desc`
+ * - dueBefore, dueAfter: 期限（終日の場合はその日の終わり）が dueAfter より後、dueBefore 以前の
+ *   Todoに絞り込む（期限のないTodoは含まない）
+ * - overdue: `true` で未完了かつ期限を過ぎたTodo、`false` でそれ以外に絞り込む
+ * - tag: タグで絞り込む（繰り返し指定可能、例: `?tag=work&tag=urgent`）
+ * - tagMatch: `any`（デフォルト、いずれかのタグを持つ） / `all`（すべてのタグを持つ）
+ * - parent: 親のTodoのIDで直接の子に絞り込む（`root` の場合は親を持たないTodo）
+ * - fields: レスポンスに含めるフィールドをカンマ区切りで指定する
+ *   （例: `?fields=id,title,completed` でメモなどの大きなフィールドを省く）
+ * - archived: `true` でアーカイブしたTodoを返す（他のクエリはアーカイブの中で適用される）
+ * - limit, cursor: いずれかを指定すると `{ items, nextCursor, total }` 形式で返す
+ *   （指定しない場合は互換性のためTodo配列をそのまま返す）
  *
  * ビジネスロジック:
- * 1. ストレージレイヤーからすべてのTodoを取得
- * 2. 200 OKステータスでTodo配列を返す（要件2.1）
+ * 1. クエリパラメータを検証する
+ * 2. ストレージレイヤーから一覧の最終更新日時を取得
+ *    （一覧より先に読むことで、Last-Modifiedが返す内容より新しくならないようにする）
+ * 3. ストレージレイヤーからすべてのTodo（archived=trueの場合はアーカイブ）を取得し、一覧のETagを算出
+ * 4. If-None-Match / If-Modified-Sinceが現在の一覧と一致する場合は304 Not Modifiedを返す
+ * 5. クエリを適用し、200 OKステータスでTodo配列またはページを返す（要件2.1）
  *
- * @param {Context<{ Bindings: Env }>} c - Honoコンテキスト
+ * レスポンスヘッダー:
+ * - ETag: 一覧全体のETag（並び順と各Todoのversionから算出）。クエリの結果は一覧全体と
+ *   クエリ（URL）から決まるため、同じURLに対する検証子として使用できる。
+ *   overdueを指定した場合は結果が現在時刻にも依存するため、期限切れのTodoのIDもETagに含める
+ * - Last-Modified: 一覧の最終更新日時（書き込みが一度もない場合、overdueを指定した場合は省略）
+ * - Cache-Control: private, no-cache（ブラウザは毎回再検証し、変更がなければキャッシュを使う）
+ *
+ * @param {Context<AppEnv>} c - Honoコンテキスト
  * @param {IStorage} storage - ストレージレイヤーインスタンス
- * @returns {Promise<Response>} Todo配列（200 OK）またはエラーレスポンス
+ * @returns {Promise<Response>} Todo配列またはページ（200 OK）、304 Not Modified、またはエラーレスポンス
+ *
+ * エラーレスポンス:
+ * - 400 Bad Request: クエリパラメータのバリデーションエラー
+ * - 500 Internal Server Error: ストレージエラー
  *
  * @example
  * ```typescript
@@ -151,13 +307,51 @@ export async function createTodoHandler(
  * ]
  * ```
  */
-export async function getTodosHandler(
-  _c: Context<{ Bindings: Env }>,
-  storage: IStorage
-): Promise<Response> {
+export async function getTodosHandler(c: Context<AppEnv>, storage: IStorage): Promise<Response> {
   try {
-    const todos = await storage.getAll();
-    return jsonResponse(todos, 200);
+    const validationResult = validateListQuery(c.req.query(), c.req.queries('tag'));
+    if (!validationResult.valid || !validationResult.query) {
+      return errorResponse(
+        ERROR_CODES.VALIDATION_ERROR,
+        validationResult.error || 'Invalid query',
+        400
+      );
+    }
+
+    const { query } = validationResult;
+    const now = Date.now();
+    // 期限切れは時刻の経過だけで変わり、最終更新日時では検出できない
+    const lastModified = query.overdue === undefined ? await storage.getLastModified() : null;
+    const todos = query.archived ? await storage.getArchived() : await storage.getAll();
+    const etag = await collectionETag(
+      todos,
+      query.overdue === undefined
+        ? []
+        : todos.filter((todo) => isOverdue(todo, now)).map((todo) => todo.id)
+    );
+
+    const headers: Record<string, string> = {
+      ETag: etag,
+      'Cache-Control': 'private, no-cache',
+    };
+    if (lastModified !== null) {
+      headers['Last-Modified'] = toHttpDate(lastModified);
+    }
+
+    const notModified = isNotModified(
+      {
+        ifNoneMatch: c.req.header('If-None-Match'),
+        ifModifiedSince: c.req.header('If-Modified-Since'),
+      },
+      etag,
+      lastModified
+    );
+    if (notModified) {
+      return notModifiedResponse(headers);
+    }
+
+    const result = applyListQuery(todos.map(withProgress), query, now);
+    return jsonResponse(query.fields ? selectFields(result, query.fields) : result, 200, headers);
   } catch (error) {
     console.error('Error fetching todos:', error);
     return errorResponse(
@@ -177,9 +371,9 @@ export async function getTodosHandler(
  * 1. パスパラメータからIDを取得
  * 2. UUID v4形式を検証
  * 3. ストレージレイヤーからTodoを取得
- * 4. 存在する場合は200 OK、存在しない場合は404 Not Found（要件2.3）
+ * 4. 存在する場合は200 OK（ETagヘッダー付き）、存在しない場合は404 Not Found（要件2.3）
  *
- * @param {Context<{ Bindings: Env }>} c - Honoコンテキスト
+ * @param {Context<AppEnv>} c - Honoコンテキスト
  * @param {IStorage} storage - ストレージレイヤーインスタンス
  * @returns {Promise<Response>} Todo（200 OK）または404エラー
  *
@@ -188,10 +382,7 @@ export async function getTodosHandler(
  * - 404 Not Found: Todo項目が存在しない（要件2.3）
  * - 500 Internal Server Error: ストレージエラー
  */
-export async function getTodoByIdHandler(
-  c: Context<{ Bindings: Env }>,
-  storage: IStorage
-): Promise<Response> {
+export async function getTodoByIdHandler(c: Context<AppEnv>, storage: IStorage): Promise<Response> {
   try {
     const id = c.req.param('id');
 
@@ -212,7 +403,7 @@ export async function getTodoByIdHandler(
       return errorResponse(ERROR_CODES.NOT_FOUND, `Todo item with ID ${id} not found`, 404);
     }
 
-    return jsonResponse(todo, 200);
+    return jsonResponse(withProgress(todo), 200, { ETag: formatETag(todo) });
   } catch (error) {
     console.error('Error fetching todo by ID:', error);
     return errorResponse(
@@ -223,6 +414,69 @@ export async function getTodoByIdHandler(
   }
 }
 
+/**
+ * Get Todo Tree Handler
+ *
+ * 指定されたIDのTodoと、その子孫を入れ子の構造（TodoTree）で取得します。
+ * 各Todoの子は `children` にposition順で並びます。
+ *
+ * ビジネスロジック:
+ * 1. パスパラメータからIDを取得し、UUID v4形式を検証
+ * 2. ストレージレイヤーからすべてのTodoを取得
+ * 3. 該当するTodoを根とするサブツリーを組み立てる
+ * 4. 存在する場合は200 OK、存在しない場合は404 Not Found
+ *
+ * @param {Context<AppEnv>} c - Honoコンテキスト
+ * @param {IStorage} storage - ストレージレイヤーインスタンス
+ * @returns {Promise<Response>} サブツリー（200 OK）または404エラー
+ *
+ * エラーレスポンス:
+ * - 400 Bad Request: 無効なUUID形式
+ * - 404 Not Found: Todo項目が存在しない
+ * - 500 Internal Server Error: ストレージエラー
+ *
+ * @example
+ * ```typescript
+ * // レスポンス (200 OK)
+ * {
+ *   "id": "550e8400-e29b-41d4-a716-446655440000",
+ *   "title": "引っ越し",
+ *   ...
+ *   "children": [
+ *     { "id": "...", "title": "荷造り", "parentId": "550e8400-...", ..., "children": [] }
+ *   ]
+ * }
+ * ```
+ */
+export async function getTodoTreeHandler(c: Context<AppEnv>, storage: IStorage): Promise<Response> {
+  try {
+    const id = c.req.param('id');
+
+    // UUID形式を検証
+    if (!validateId(id)) {
+      return errorResponse(
+        ERROR_CODES.VALIDATION_ERROR,
+        'Invalid todo ID format. Must be a valid UUID v4.',
+        400
+      );
+    }
+
+    const tree = buildTree(await storage.getAll(), id, withProgress);
+    if (!tree) {
+      return errorResponse(ERROR_CODES.NOT_FOUND, `Todo item with ID ${id} not found`, 404);
+    }
+
+    return jsonResponse(tree, 200);
+  } catch (error) {
+    console.error('Error fetching todo tree:', error);
+    return errorResponse(
+      ERROR_CODES.INTERNAL_ERROR,
+      'An unexpected error occurred while fetching the todo tree',
+      500
+    );
+  }
+}
+
 /**
  * Update Todo Handler
  *
@@ -231,25 +485,39 @@ export async function getTodoByIdHandler(
  * ビジネスロジック:
  * 1. パスパラメータからIDを取得し、UUID v4形式を検証
  * 2. リクエストボディから更新データを取得し、バリデーションを実行（要件3.6）
- * 3. ストレージレイヤーでTodoを更新
- * 4. 存在する場合は200 OK、存在しない場合は404 Not Found（要件3.3）
+ * 3. parentIdが指定された場合は、親の存在・循環・階層の深さを検証
+ * 4. 繰り返しを設定する場合、または完了にする場合は、更新後のTodoが期限を持つことを検証
+ *    繰り返しのTodoを完了にする場合は、次の回の期限を求め、Todo件数の上限を検証する
+ * 5. If-Matchヘッダーがある場合は期待するバージョンを決定
+ * 6. ストレージレイヤーでTodoを更新（バージョンの比較は書き込みとアトミックに行われる）
+ *    完了にした繰り返しのTodoからは繰り返しを取り除く（再度完了にしても次の回は作成されない）
+ * 7. 親が変わった場合は、新しい親の子の末尾に移動する
+ * 8. 繰り返しのTodoを完了にした場合は、次の期限を持つTodoを兄弟の末尾に作成する
+ *    （タイトル・優先度・タグ・メモ・チェックリスト（未完了に戻す）・親を引き継ぐ）
+ * 9. 存在する場合は200 OK（新しいETag付き）、存在しない場合は404 Not Found（要件3.3）
  *
- * @param {Context<{ Bindings: Env }>} c - Honoコンテキスト
+ * @param {Context<AppEnv>} c - Honoコンテキスト
  * @param {IStorage} storage - ストレージレイヤーインスタンス
  * @returns {Promise<Response>} 更新されたTodo（200 OK）または404エラー
  *
+ * レスポンスヘッダー:
+ * - ETag: 更新されたTodoのETag
+ * - Link: 次の回のTodoを作成した場合のみ、`</todos/{id}>; rel="next"`
+ *
  * エラーレスポンス:
  * - 400 Bad Request: バリデーションエラー、無効なUUID、空の更新データ（要件3.6）
+ * - 400 Bad Request: 親が存在しない、自分自身や子孫を親に指定した、階層の深さが上限を超える
+ * - 400 Bad Request: 期限のないTodoへの繰り返しの指定
+ * - 400 Bad Request: 次の回を作成するとTodo件数の上限（MAX_TODOS）を超える
  * - 404 Not Found: Todo項目が存在しない（要件3.3）
+ * - 412 Precondition Failed: If-Matchが現在のETagと一致しない
  * - 500 Internal Server Error: ストレージエラー
  *
  * 不変条件:
  * - id、createdAtは変更されない
+ * - versionは1増加する
  */
-export async function updateTodoHandler(
-  c: Context<{ Bindings: Env }>,
-  storage: IStorage
-): Promise<Response> {
+export async function updateTodoHandler(c: Context<AppEnv>, storage: IStorage): Promise<Response> {
   try {
     const id = c.req.param('id');
 
@@ -266,10 +534,21 @@ export async function updateTodoHandler(
     const body = await c.req.json<UpdateTodoRequest>();
 
     // 更新データが空の場合はエラー（要件3.6）
-    if (!body.title && body.completed === undefined) {
+    if (
+      !body.title &&
+      body.completed === undefined &&
+      body.dueAt === undefined &&
+      body.dueTimezone === undefined &&
+      body.priority === undefined &&
+      body.tags === undefined &&
+      body.notes === undefined &&
+      body.autoComplete === undefined &&
+      body.parentId === undefined &&
+      body.recurrence === undefined
+    ) {
       return errorResponse(
         ERROR_CODES.VALIDATION_ERROR,
-        'Update data cannot be empty. Provide at least title or completed field.',
+        'Update data cannot be empty. Provide at least title, completed, dueAt, dueTimezone, priority, tags, notes, autoComplete, parentId or recurrence field.',
         400
       );
     }
@@ -295,16 +574,154 @@ export async function updateTodoHandler(
       );
     }
 
-    // ストレージでTodoを更新
-    const updatedTodo = await storage.update(id, body);
+    // autoCompleteが提供されている場合は型チェック
+    if (body.autoComplete !== undefined && typeof body.autoComplete !== 'boolean') {
+      return errorResponse(
+        ERROR_CODES.VALIDATION_ERROR,
+        VALIDATION_ERRORS.AUTO_COMPLETE_INVALID_TYPE,
+        400
+      );
+    }
+
+    // priorityが提供されている場合は値をチェック
+    if (!isValidPriority(body.priority)) {
+      return errorResponse(ERROR_CODES.VALIDATION_ERROR, VALIDATION_ERRORS.PRIORITY_INVALID, 400);
+    }
+
+    // tagsが提供されている場合はバリデーション
+    const tagsValidation = validateTagsInput(body.tags);
+    if (!tagsValidation.valid) {
+      return errorResponse(
+        ERROR_CODES.VALIDATION_ERROR,
+        tagsValidation.error || 'Invalid tags',
+        400
+      );
+    }
+
+    // notesが提供されている場合はバリデーション
+    const notesValidation = validateNotesInput(body.notes);
+    if (!notesValidation.valid) {
+      return errorResponse(
+        ERROR_CODES.VALIDATION_ERROR,
+        notesValidation.error || 'Invalid notes',
+        400
+      );
+    }
+
+    // dueAt / dueTimezoneが提供されている場合はバリデーション
+    const dueValidation = validateDueInput({ dueAt: body.dueAt, dueTimezone: body.dueTimezone });
+    if (!dueValidation.valid) {
+      return errorResponse(
+        ERROR_CODES.VALIDATION_ERROR,
+        dueValidation.error || 'Invalid due date',
+        400
+      );
+    }
+
+    // parentIdが提供されている場合は形式を検証
+    if (!isValidParentId(body.parentId)) {
+      return errorResponse(ERROR_CODES.VALIDATION_ERROR, VALIDATION_ERRORS.PARENT_ID_INVALID, 400);
+    }
+
+    // recurrenceが提供されている場合は規則を検証
+    if (!isValidRecurrence(body.recurrence)) {
+      return errorResponse(ERROR_CODES.VALIDATION_ERROR, VALIDATION_ERRORS.RECURRENCE_INVALID, 400);
+    }
+
+    // 親が変わる場合は、現在のTodo一覧に対して存在・循環・深さを検証
+    let newSiblingCount: number | null = null;
+    if (body.parentId !== undefined) {
+      const todos = await storage.getAll();
+      const current = todos.find((todo) => todo.id === id);
+      if (!current) {
+        return errorResponse(ERROR_CODES.NOT_FOUND, `Todo item with ID ${id} not found`, 404);
+      }
+      const parentValidation = validateParent(todos, body.parentId, id);
+      if (!parentValidation.valid) {
+        return errorResponse(
+          ERROR_CODES.VALIDATION_ERROR,
+          parentValidation.error || 'Invalid parent',
+          400
+        );
+      }
+      if ((current.parentId ?? null) !== body.parentId) {
+        newSiblingCount = siblingsOf(todos, body.parentId).length;
+      }
+    }
+
+    // 更新できるフィールドのみを取り出す（チェックリストの項目は /todos/:id/items で変更する）
+    const updates = Object.fromEntries(
+      UPDATABLE_FIELDS.filter((field) => body[field] !== undefined).map((field) => [
+        field,
+        body[field],
+      ])
+    ) as UpdateTodoRequest;
+    // dueAtにnullが指定された場合は期限を解除し、タイムゾーンと繰り返しも取り除く
+    if (body.dueAt === null) {
+      updates.dueTimezone = null;
+      updates.recurrence ??= null;
+    }
+    if (body.tags !== undefined) {
+      updates.tags = normalizeTags(body.tags);
+    }
+    if (typeof body.recurrence === 'string') {
+      updates.recurrence = canonicalizeRecurrence(body.recurrence);
+    }
+
+    // 繰り返しを設定する場合、または完了にする場合は現在のTodoとマージして検証する
+    let next: NextOccurrence | null = null;
+    if (typeof updates.recurrence === 'string' || updates.completed === true) {
+      const current = await storage.getById(id);
+      const merged = current && normalizeRecurrence(normalizeDue({ ...current, ...updates }));
+      if (merged?.recurrence && !merged.dueAt) {
+        return errorResponse(
+          ERROR_CODES.VALIDATION_ERROR,
+          VALIDATION_ERRORS.RECURRENCE_REQUIRES_DUE,
+          400
+        );
+      }
+      // 繰り返しのTodoを完了にする場合は、繰り返しを次の回に引き継ぐ
+      if (current) {
+        next = await planNextOccurrence(
+          storage,
+          current,
+          updates,
+          resolveMaxTodoCount(c.env?.MAX_TODOS)
+        );
+      }
+    }
+
+    // ストレージでTodoを更新（If-Matchがある場合はバージョンを比較）
+    const expectedVersion = await resolveExpectedVersion(c.req.header('If-Match'), storage, id);
+    const updatedTodo = await storage.update(id, updates, expectedVersion);
 
     // 存在しない場合は404（要件3.3）
     if (!updatedTodo) {
       return errorResponse(ERROR_CODES.NOT_FOUND, `Todo item with ID ${id} not found`, 404);
     }
 
-    return jsonResponse(updatedTodo, 200);
+    // 親が変わった場合は新しい兄弟の末尾に移動する（並び替えではversionは変わらない）
+    let result = updatedTodo;
+    if (newSiblingCount !== null) {
+      const moved = await storage.move(id, newSiblingCount);
+      result = moved?.find((todo) => todo.id === id) ?? updatedTodo;
+    }
+
+    // 繰り返しのTodoを完了にした場合は次の回を作成する
+    const headers: Record<string, string> = { ETag: formatETag(result) };
+    if (next) {
+      const created = await createNextOccurrence(storage, result, next);
+      headers['Link'] = `</todos/${created.id}>; rel="next"`;
+    }
+
+    return jsonResponse(withProgress(result), 200, headers);
   } catch (error) {
+    if (error instanceof PreconditionFailedError) {
+      return errorResponse(ERROR_CODES.PRECONDITION_FAILED, error.message, 412);
+    }
+    if (error instanceof TodoLimitReachedError) {
+      return errorResponse(ERROR_CODES.TODO_LIMIT_REACHED, error.message, 400);
+    }
     console.error('Error updating todo:', error);
     return errorResponse(
       ERROR_CODES.INTERNAL_ERROR,
@@ -317,26 +734,35 @@ export async function updateTodoHandler(
 /**
  * Delete Todo Handler
  *
- * 指定されたIDのTodo項目を削除します。
+ * 指定されたIDのTodo項目をゴミ箱に移します（deletedAtを記録）。
+ * ゴミ箱のTodoは POST /trash/:id/restore で戻すか、DELETE /trash/:id で完全に削除できます。
+ * 子を持つTodoの場合、クエリパラメータ `children` で子の扱いを指定できます。
+ * - `reparent`（デフォルト）: 直接の子を削除するTodoの親（ルートの場合はルート）に付け替える
+ * - `cascade`: 子孫もすべてゴミ箱に移す
  *
  * ビジネスロジック:
- * 1. パスパラメータからIDを取得し、UUID v4形式を検証
- * 2. ストレージレイヤーでTodoを削除
- * 3. 成功時は204 No Content、存在しない場合は404 Not Found（要件4.3）
+ * 1. パスパラメータからIDを取得し、UUID v4形式とchildrenの値を検証
+ * 2. If-Matchヘッダーがある場合は期待するバージョンを決定
+ * 3. ストレージレイヤーからTodoを取得（存在しない場合は404 Not Found、要件4.3）
+ * 4. ストレージレイヤーでTodoをゴミ箱に移す（If-Matchの比較は移動とアトミックに行われる）
+ * 5. 削除後のTodo一覧から子を求め、付け替える、または子孫をゴミ箱に移す
+ * 6. 保持期間（TRASH_RETENTION_DAYS）を過ぎたゴミ箱のTodoを完全に削除
+ * 7. 成功時は204 No Content
  *
- * @param {Context<{ Bindings: Env }>} c - Honoコンテキスト
+ * @param {Context<AppEnv>} c - Honoコンテキスト
  * @param {IStorage} storage - ストレージレイヤーインスタンス
  * @returns {Promise<Response>} 204 No Contentまたは404エラー
  *
  * エラーレスポンス:
- * - 400 Bad Request: 無効なUUID形式
+ * - 400 Bad Request: 無効なUUID形式、childrenが `reparent` / `cascade` 以外
  * - 404 Not Found: Todo項目が存在しない（要件4.3）
- * - 500 Internal Server Error: ストレージエラー
+ * - 412 Precondition Failed: If-Matchが現在のETagと一致しない
+ * - 500 Internal Server Error: ストレージエラー、またはTRASH_RETENTION_DAYSの設定不備
+ *
+ * **注意**: 子の付け替え・ゴミ箱への移動は1件ずつ行うため、途中でエラーになった場合は
+ * 一部の子のみが処理された状態になります（削除したTodoの子は親を持たないTodoとして残る）。
  */
-export async function deleteTodoHandler(
-  c: Context<{ Bindings: Env }>,
-  storage: IStorage
-): Promise<Response> {
+export async function deleteTodoHandler(c: Context<AppEnv>, storage: IStorage): Promise<Response> {
   try {
     const id = c.req.param('id');
 
@@ -349,17 +775,38 @@ export async function deleteTodoHandler(
       );
     }
 
-    // ストレージからTodoを削除
-    const deleted = await storage.delete(id);
+    const children = c.req.query('children') ?? 'reparent';
+    if (children !== 'reparent' && children !== 'cascade') {
+      return errorResponse(
+        ERROR_CODES.VALIDATION_ERROR,
+        VALIDATION_ERRORS.CHILDREN_MODE_INVALID,
+        400
+      );
+    }
+
+    // 設定不備の場合はゴミ箱に移す前に500を返す
+    const retentionDays = resolveTrashRetentionDays(c.env?.TRASH_RETENTION_DAYS);
+
+    // Todoをゴミ箱に移す（If-Matchがある場合はバージョンを比較）
+    const expectedVersion = await resolveExpectedVersion(c.req.header('If-Match'), storage, id);
+    const deletedAt = new Date().toISOString();
+    const target = await storage.getById(id);
+    const trashed = target ? await storage.trash(id, deletedAt, expectedVersion) : null;
 
     // 存在しない場合は404（要件4.3）
-    if (!deleted) {
+    if (!target || !trashed) {
       return errorResponse(ERROR_CODES.NOT_FOUND, `Todo item with ID ${id} not found`, 404);
     }
 
+    await removeChildren(storage, target, children, deletedAt);
+    await purgeExpiredTrash(storage, retentionDays);
+
     // 204 No Contentを返す（要件4.2）
     return jsonResponse(null, 204);
   } catch (error) {
+    if (error instanceof PreconditionFailedError) {
+      return errorResponse(ERROR_CODES.PRECONDITION_FAILED, error.message, 412);
+    }
     console.error('Error deleting todo:', error);
     return errorResponse(
       ERROR_CODES.INTERNAL_ERROR,
@@ -0,0 +1,220 @@
+/**
+ * Trash Handlers
+ *
+ * このファイルはゴミ箱（DELETE /todos/:id で削除したTodo）に関するハンドラーを提供します。
+ * ゴミ箱のTodoは一覧に含まれず、元の位置または末尾に戻すか、完全に削除できます。
+ * 保持期間（環境変数 TRASH_RETENTION_DAYS、デフォルト30日）を過ぎたTodoは、
+ * 各ハンドラーの処理の前に完全に削除されます（utils/trash.ts の purgeExpiredTrash()）。
+ *
+ * 参照:
+ * - 要件14: エラーレスポンスの標準化 (requirements.md)
+ */
+
+import type { Context } from 'hono';
+import { jsonResponse, errorResponse } from '../utils/response';
+import {
+  validateId,
+  validateParent,
+  validateTodoCount,
+  resolveMaxTodoCount,
+  resolveTrashRetentionDays,
+  VALIDATION_ERRORS,
+} from '../utils/validation';
+import { purgeExpiredTrash, cascadedTrash } from '../utils/trash';
+import { withProgress } from '../utils/checklist';
+import { formatETag } from '../utils/etag';
+import { ERROR_CODES } from '../models/error';
+import type { IStorage } from '../storage/interface';
+import type { AppEnv } from '../models/env';
+
+/**
+ * Get Trash Handler
+ *
+ * ゴミ箱のTodoを、ゴミ箱に移した日時の新しい順に返します。
+ *
+ * ビジネスロジック:
+ * 1. 保持期間を過ぎたTodoを完全に削除
+ * 2. 残りのゴミ箱のTodoを200 OKで返す（deletedAtの降順）
+ *
+ * @param {Context<AppEnv>} c - Honoコンテキスト
+ * @param {IStorage} storage - ストレージレイヤーインスタンス
+ * @returns {Promise<Response>} ゴミ箱のTodoの配列（200 OK）またはエラーレスポンス
+ *
+ * エラーレスポンス:
+ * - 500 Internal Server Error: ストレージエラー、またはTRASH_RETENTION_DAYSの設定不備
+ *
+ * @example
+ * ```typescript
+ * // レスポンス (200 OK)
+ * [
+ *   {
+ *     "id": "550e8400-e29b-41d4-a716-446655440000",
+ *     "title": "削除したタスク",
+ *     "completed": false,
+ *     "createdAt": "2025-10-27T10:30:00.000Z",
+ *     "version": 2,
+ *     "deletedAt": "2025-11-01T09:00:00.000Z"
+ *   }
+ * ]
+ * ```
+ */
+export async function getTrashHandler(c: Context<AppEnv>, storage: IStorage): Promise<Response> {
+  try {
+    const retentionDays = resolveTrashRetentionDays(c.env?.TRASH_RETENTION_DAYS);
+    return jsonResponse(await purgeExpiredTrash(storage, retentionDays), 200);
+  } catch (error) {
+    console.error('Error fetching trash:', error);
+    return errorResponse(
+      ERROR_CODES.INTERNAL_ERROR,
+      'An unexpected error occurred while fetching the trash',
+      500
+    );
+  }
+}
+
+/**
+ * Restore Trashed Todo Handler
+ *
+ * ゴミ箱のTodoを一覧に戻します。クエリパラメータ `position` で戻す位置を指定できます。
+ * - `original`（デフォルト）: ゴミ箱に移す前の位置（前後のTodoの間）
+ * - `last`: 兄弟の末尾
+ *
+ * 親がゴミ箱に移された、または戻すと階層が深くなりすぎる場合は、ルートの末尾に戻します。
+ * `children=cascade` で一緒にゴミ箱に移した子孫（deletedWithで記録したグループの子孫）も、元の親の下の元の位置に戻します。
+ * versionはゴミ箱に移す前の値のままのため、移す前に取得したETagはそのまま使用できます。
+ *
+ * ビジネスロジック:
+ * 1. パスパラメータからIDを取得し、UUID v4形式とpositionの値を検証
+ * 2. 保持期間を過ぎたTodoを完全に削除
+ * 3. ゴミ箱から該当するTodoと、一緒にゴミ箱に移した子孫を探す（存在しない場合は404 Not Found）
+ * 4. 現在のTodo件数を確認し、子孫を含めて上限（MAX_TODOS）を検証
+ * 5. 子孫を含むサブツリーで親を検証し、戻せない場合はルートの末尾に戻す
+ * 6. 子孫を親から順に戻す
+ * 7. 成功時は200 OKで戻したTodoを返す
+ *
+ * @param {Context<AppEnv>} c - Honoコンテキスト
+ * @param {IStorage} storage - ストレージレイヤーインスタンス
+ * @returns {Promise<Response>} 戻したTodo（200 OK）またはエラーレスポンス
+ *
+ * エラーレスポンス:
+ * - 400 Bad Request: 無効なUUID形式、positionが `original` / `last` 以外、Todo件数上限到達
+ * - 404 Not Found: ゴミ箱に該当するTodoが存在しない（保持期間を過ぎた場合を含む）
+ * - 500 Internal Server Error: ストレージエラー、またはMAX_TODOS / TRASH_RETENTION_DAYSの設定不備
+ */
+export async function restoreTrashHandler(
+  c: Context<AppEnv>,
+  storage: IStorage
+): Promise<Response> {
+  try {
+    const id = c.req.param('id');
+
+    // UUID形式を検証
+    if (!validateId(id)) {
+      return errorResponse(
+        ERROR_CODES.VALIDATION_ERROR,
+        'Invalid todo ID format. Must be a valid UUID v4.',
+        400
+      );
+    }
+
+    const position = c.req.query('position') ?? 'original';
+    if (position !== 'original' && position !== 'last') {
+      return errorResponse(
+        ERROR_CODES.VALIDATION_ERROR,
+        VALIDATION_ERRORS.RESTORE_POSITION_INVALID,
+        400
+      );
+    }
+
+    const retentionDays = resolveTrashRetentionDays(c.env?.TRASH_RETENTION_DAYS);
+    const trash = await purgeExpiredTrash(storage, retentionDays);
+    const trashed = trash.find((todo) => todo.id === id);
+    if (!trashed) {
+      return errorResponse(ERROR_CODES.NOT_FOUND, `Trashed todo with ID ${id} not found`, 404);
+    }
+    const descendants = cascadedTrash(trash, trashed);
+
+    // Todo件数制限を検証（MAX_TODOS、デフォルト500件）
+    const existingTodos = await storage.getAll();
+    const maxCount = resolveMaxTodoCount(c.env?.MAX_TODOS);
+    const countValidation = validateTodoCount(existingTodos.length + descendants.length, maxCount);
+    if (!countValidation.valid) {
+      return errorResponse(
+        ERROR_CODES.TODO_LIMIT_REACHED,
+        countValidation.error || `Maximum number of todos (${maxCount}) has been reached`,
+        400
+      );
+    }
+
+    // 親が一覧にない、または子孫を含めて深さの上限を超える場合はルートの末尾に戻す
+    const keepsParent = validateParent(
+      [...existingTodos, trashed, ...descendants],
+      trashed.parentId,
+      id
+    ).valid;
+    const restored = await storage.restore(
+      id,
+      keepsParent ? (trashed.parentId ?? null) : null,
+      keepsParent ? position : 'last'
+    );
+    if (!restored) {
+      return errorResponse(ERROR_CODES.NOT_FOUND, `Trashed todo with ID ${id} not found`, 404);
+    }
+    for (const descendant of descendants) {
+      await storage.restore(descendant.id, descendant.parentId ?? null, 'original');
+    }
+
+    return jsonResponse(withProgress(restored), 200, { ETag: formatETag(restored) });
+  } catch (error) {
+    console.error('Error restoring todo:', error);
+    return errorResponse(
+      ERROR_CODES.INTERNAL_ERROR,
+      'An unexpected error occurred while restoring the todo',
+      500
+    );
+  }
+}
+
+/**
+ * Purge Trashed Todo Handler
+ *
+ * ゴミ箱のTodoを完全に削除します。完全に削除したTodoは戻せません。
+ *
+ * @param {Context<AppEnv>} c - Honoコンテキスト
+ * @param {IStorage} storage - ストレージレイヤーインスタンス
+ * @returns {Promise<Response>} 204 No Contentまたはエラーレスポンス
+ *
+ * エラーレスポンス:
+ * - 400 Bad Request: 無効なUUID形式
+ * - 404 Not Found: ゴミ箱に該当するTodoが存在しない
+ * - 500 Internal Server Error: ストレージエラー、またはTRASH_RETENTION_DAYSの設定不備
+ */
+export async function purgeTrashHandler(c: Context<AppEnv>, storage: IStorage): Promise<Response> {
+  try {
+    const id = c.req.param('id');
+
+    // UUID形式を検証
+    if (!validateId(id)) {
+      return errorResponse(
+        ERROR_CODES.VALIDATION_ERROR,
+        'Invalid todo ID format. Must be a valid UUID v4.',
+        400
+      );
+    }
+
+    const retentionDays = resolveTrashRetentionDays(c.env?.TRASH_RETENTION_DAYS);
+    await purgeExpiredTrash(storage, retentionDays);
+    if (!(await storage.purge(id))) {
+      return errorResponse(ERROR_CODES.NOT_FOUND, `Trashed todo with ID ${id} not found`, 404);
+    }
+
+    return jsonResponse(null, 204);
+  } catch (error) {
+    console.error('Error purging todo:', error);
+    return errorResponse(
+      ERROR_CODES.INTERNAL_ERROR,
+      'An unexpected error occurred while purging the todo',
+      500
+    );
+  }
+}
@@ -5,7 +5,7 @@
  *
  * アーキテクチャ:
  * - Cloudflare Workers上でHonoフレームワークを使用
- * - Workers KVによるデータ永続化
+ * - Workers KV（またはD1 / Durable Objects）によるデータ永続化
  * - レイヤードアーキテクチャ（エントリーポイント → ミドルウェア → ハンドラー → ストレージ）
  *
  * 参照:
@@ -17,18 +17,46 @@
  */
 
 import { Hono } from 'hono';
-import type { Env } from './models/env';
+import type { AppEnv, Env } from './models/env';
+import { API_KEY_SCOPES } from './models/apiKey';
 import { configureCors } from './middleware/cors';
-import { apiKeyAuth } from './middleware/auth';
-import { KVStorage } from './storage/kv';
+import { apiKeyAuth, requireScope } from './middleware/auth';
+import { storageMiddleware } from './middleware/storage';
 import {
   createTodoHandler,
   getTodosHandler,
   getTodoByIdHandler,
+  getTodoTreeHandler,
   updateTodoHandler,
   deleteTodoHandler,
 } from './handlers/todos';
-import { reorderHandler } from './handlers/reorder';
+import { reorderHandler, setOrderHandler } from './handlers/reorder';
+import { getTagsHandler } from './handlers/tags';
+import { archiveTodoHandler, archiveCompletedHandler } from './handlers/archive';
+import { getTrashHandler, restoreTrashHandler, purgeTrashHandler } from './handlers/trash';
+import { purgeExpiredTrashHandler } from './handlers/scheduled';
+import {
+  getListsHandler,
+  createListHandler,
+  getListHandler,
+  updateListHandler,
+  deleteListHandler,
+  moveTodoToListHandler,
+} from './handlers/lists';
+import {
+  createItemHandler,
+  updateItemHandler,
+  deleteItemHandler,
+  reorderItemHandler,
+} from './handlers/items';
+import {
+  createApiKeyHandler,
+  getApiKeysHandler,
+  rotateApiKeyHandler,
+  deleteApiKeyHandler,
+} from './handlers/apiKeys';
+import { migrateTenantHandler } from './handlers/tenants';
+import { KVApiKeyStorage } from './storage/apiKeys';
 import { errorResponse } from './utils/response';
 import { ERROR_CODES } from './models/error';
 import { FRONTEND_HTML } from './frontend';
@@ -37,9 +65,18 @@ import { FRONTEND_HTML } from './frontend';
  * Hono Application
  *
  * Cloudflare Workers向けのHonoアプリケーション。
- * 型パラメータでCloudflare Workers Bindingsを定義。
+ * 型パラメータでCloudflare Workers Bindingsとコンテキスト変数を定義。
+ */
+const app = new Hono<AppEnv>();
+
+/**
+ * Todo Routes
+ *
+ * Todo・タグ・ゴミ箱のルート。`/` と `/lists/:listId` の2か所にマウントし、
+ * `/todos` はデフォルトのリスト、`/lists/:listId/todos` はパスのリストを操作します
+ * （ストレージミドルウェアがパスのリストIDからストレージを選択する）。
  */
-const app = new Hono<{ Bindings: Env }>();
+const todoRoutes = new Hono<AppEnv>();
 
 /**
  * Global Error Handler (Task 9.1)
@@ -75,66 +112,232 @@ app.onError((err, _c) => {
  *
  * ミドルウェアチェーンの順序:
  * 1. CORS: クロスオリジンリクエストを許可（要件9.1-9.3）
- * 2. Authentication: API Key認証（要件10.1-10.5）
- * 3. Handler: ビジネスロジック実行
- * 4. Error Handler: グローバルエラーハンドリング（app.onError）
+ * 2. Authentication: API Key認証（要件10.1-10.5）。API Keyが属するテナントとスコープを c.set('tenantId') / c.set('scopes') で設定
+ * 3. Storage: STORAGE_BACKENDとパスのリストに応じたストレージを c.set('storage') で設定
+ * 4. Authorization: ルートごとに必要なスコープを requireScope() で検証（不足時は403 Forbidden）
+ * 5. Handler: ビジネスロジック実行
+ * 6. Error Handler: グローバルエラーハンドリング（app.onError）
  */
 
 // CORS: すべてのルートに適用（要件9.1-9.3）
 app.use('/*', configureCors);
 
 // Authentication: すべてのTodo APIルートに適用（要件10.1-10.5）
-app.use('/todos/*', apiKeyAuth);
-app.use('/todos', apiKeyAuth);
+todoRoutes.use('/todos/*', apiKeyAuth);
+todoRoutes.use('/todos', apiKeyAuth);
+todoRoutes.use('/tags', apiKeyAuth);
+todoRoutes.use('/trash/*', apiKeyAuth);
+todoRoutes.use('/trash', apiKeyAuth);
+app.use('/lists', apiKeyAuth);
+app.use('/lists/:listId', apiKeyAuth);
+app.use('/admin/*', apiKeyAuth);
+
+// Storage: 認証済みのTodo APIルートにストレージを設定
+todoRoutes.use('/todos/*', storageMiddleware);
+todoRoutes.use('/todos', storageMiddleware);
+todoRoutes.use('/tags', storageMiddleware);
+todoRoutes.use('/trash/*', storageMiddleware);
+todoRoutes.use('/trash', storageMiddleware);
+app.use('/lists', storageMiddleware);
+app.use('/lists/:listId', storageMiddleware);
 
 /**
  * RESTful API Routes (Task 10.2)
  *
  * すべてのルートはRESTful APIの原則に従います（要件6.1-6.6）
+ * `/todos`・`/tags`・`/trash` のルートは `/lists/:listId` 配下でも同じように使用できます
+ * （例: GET /lists/:listId/todos）。
  *
  * エンドポイント:
  * - POST   /todos       - Todo作成（要件1）
- * - GET    /todos       - 全Todo取得（要件2.1）
+ * - GET    /todos       - 全Todo取得（要件2.1、`?archived=true` でアーカイブを取得）
  * - GET    /todos/:id   - 特定Todo取得（要件2.2）
+ * - GET    /todos/:id/tree      - Todoとその子孫を入れ子で取得
  * - PUT    /todos/:id   - Todo更新（要件3）
- * - DELETE /todos/:id   - Todo削除（要件4）
+ * - DELETE /todos/:id   - Todo削除（ゴミ箱に移す、要件4）
+ * - PUT    /todos/order         - 全Todoの並び順を一括設定
+ * - PUT    /todos/:id/reorder   - Todoを指定位置に移動
+ * - POST   /todos/archive-completed  - 完了済みのTodoをまとめてアーカイブ
+ * - POST   /todos/:id/archive        - Todoを子孫とともにアーカイブ
+ * - POST   /todos/:id/move           - Todoを子孫とともに別のリストに移動
+ * - POST   /todos/:id/items                  - チェックリストの項目を追加
+ * - PUT    /todos/:id/items/:itemId          - チェックリストの項目を更新
+ * - DELETE /todos/:id/items/:itemId          - チェックリストの項目を削除
+ * - PUT    /todos/:id/items/:itemId/reorder  - チェックリストの項目を指定位置に移動
+ * - GET    /tags        - タグの一覧と使用数
+ * - GET    /trash                - ゴミ箱のTodoの一覧
+ * - POST   /trash/:id/restore    - ゴミ箱のTodoを戻す
+ * - DELETE /trash/:id            - ゴミ箱のTodoを完全に削除
+ * - GET    /lists                - リストの一覧と件数
+ * - POST   /lists                - リスト作成
+ * - GET    /lists/:listId        - 特定リスト取得
+ * - PUT    /lists/:listId        - リスト名の変更
+ * - DELETE /lists/:listId        - リストをそのTodoとともに削除
+ * - POST   /admin/keys           - API Keyの発行（adminスコープ）
+ * - GET    /admin/keys           - API Keyの一覧（adminスコープ）
+ * - POST   /admin/keys/:id/rotate - API Keyのローテーション（adminスコープ）
+ * - DELETE /admin/keys/:id       - API Keyの削除（adminスコープ）
+ * - POST   /admin/tenants/:tenantId/migrate - デフォルトのテナントのデータを移行（デフォルトのテナントのadminスコープ）
  */
 
 // POST /todos - Todo作成（要件1.1-1.5）
-app.post('/todos', async (c) => {
-  const storage = new KVStorage(c.env.TODO_KV);
-  return createTodoHandler(c, storage);
+todoRoutes.post('/todos', requireScope(API_KEY_SCOPES.TODOS_WRITE), async (c) => {
+  return createTodoHandler(c, c.get('storage'));
 });
 
 // GET /todos - 全Todo取得（要件2.1, 2.4-2.5）
-app.get('/todos', async (c) => {
-  const storage = new KVStorage(c.env.TODO_KV);
-  return getTodosHandler(c, storage);
+todoRoutes.get('/todos', requireScope(API_KEY_SCOPES.TODOS_READ), async (c) => {
+  return getTodosHandler(c, c.get('storage'));
 });
 
 // GET /todos/:id - 特定Todo取得（要件2.2-2.3）
-app.get('/todos/:id', async (c) => {
-  const storage = new KVStorage(c.env.TODO_KV);
-  return getTodoByIdHandler(c, storage);
+todoRoutes.get('/todos/:id', requireScope(API_KEY_SCOPES.TODOS_READ), async (c) => {
+  return getTodoByIdHandler(c, c.get('storage'));
+});
+
+// GET /todos/:id/tree - Todoとその子孫を入れ子で取得
+todoRoutes.get('/todos/:id/tree', requireScope(API_KEY_SCOPES.TODOS_READ), async (c) => {
+  return getTodoTreeHandler(c, c.get('storage'));
+});
+
+// PUT /todos/order - 全Todoの並び順を一括設定
+// /todos/:id より前に登録し、"order" がIDとして解釈されないようにする
+todoRoutes.put('/todos/order', requireScope(API_KEY_SCOPES.TODOS_WRITE), async (c) => {
+  return setOrderHandler(c, c.get('storage'));
 });
 
 // PUT /todos/:id - Todo更新（要件3.1-3.6）
-app.put('/todos/:id', async (c) => {
-  const storage = new KVStorage(c.env.TODO_KV);
-  return updateTodoHandler(c, storage);
+todoRoutes.put('/todos/:id', requireScope(API_KEY_SCOPES.TODOS_WRITE), async (c) => {
+  return updateTodoHandler(c, c.get('storage'));
+});
+
+// PUT /todos/:id/reorder - Todoを指定位置に移動
+todoRoutes.put('/todos/:id/reorder', requireScope(API_KEY_SCOPES.TODOS_WRITE), async (c) => {
+  return reorderHandler(c, c.get('storage'));
+});
+
+// POST /todos/archive-completed - 完了済みのTodoをまとめてアーカイブ
+todoRoutes.post('/todos/archive-completed', requireScope(API_KEY_SCOPES.TODOS_WRITE), async (c) => {
+  return archiveCompletedHandler(c, c.get('storage'));
 });
 
-// PUT /todos/:id/reorder - 並び替えAPIエンドポイント追加
-app.put('/todos/:id/reorder', async (c) => {
-  return reorderHandler(c);
+// POST /todos/:id/archive - Todoを子孫とともにアーカイブ
+todoRoutes.post('/todos/:id/archive', requireScope(API_KEY_SCOPES.TODOS_WRITE), async (c) => {
+  return archiveTodoHandler(c, c.get('storage'));
 });
 
+// POST /todos/:id/move - Todoを子孫とともに別のリストに移動
+todoRoutes.post('/todos/:id/move', requireScope(API_KEY_SCOPES.TODOS_WRITE), async (c) => {
+  return moveTodoToListHandler(c, c.get('storage'));
+});
+
+// POST /todos/:id/items - チェックリストの項目を追加
+todoRoutes.post('/todos/:id/items', requireScope(API_KEY_SCOPES.TODOS_WRITE), async (c) => {
+  return createItemHandler(c, c.get('storage'));
+});
+
+// PUT /todos/:id/items/:itemId - チェックリストの項目を更新
+todoRoutes.put('/todos/:id/items/:itemId', requireScope(API_KEY_SCOPES.TODOS_WRITE), async (c) => {
+  return updateItemHandler(c, c.get('storage'));
+});
+
+// PUT /todos/:id/items/:itemId/reorder - チェックリストの項目を指定位置に移動
+todoRoutes.put(
+  '/todos/:id/items/:itemId/reorder',
+  requireScope(API_KEY_SCOPES.TODOS_WRITE),
+  async (c) => {
+    return reorderItemHandler(c, c.get('storage'));
+  }
+);
+
+// DELETE /todos/:id/items/:itemId - チェックリストの項目を削除
+todoRoutes.delete(
+  '/todos/:id/items/:itemId',
+  requireScope(API_KEY_SCOPES.TODOS_WRITE),
+  async (c) => {
+    return deleteItemHandler(c, c.get('storage'));
+  }
+);
+
 // DELETE /todos/:id - Todo削除（要件4.1-4.4）
-app.delete('/todos/:id', async (c) => {
-  const storage = new KVStorage(c.env.TODO_KV);
-  return deleteTodoHandler(c, storage);
+todoRoutes.delete('/todos/:id', requireScope(API_KEY_SCOPES.TODOS_DELETE), async (c) => {
+  return deleteTodoHandler(c, c.get('storage'));
+});
+
+// GET /tags - タグの一覧と使用数
+todoRoutes.get('/tags', requireScope(API_KEY_SCOPES.TODOS_READ), async (c) => {
+  return getTagsHandler(c, c.get('storage'));
 });
 
+// GET /trash - ゴミ箱のTodoの一覧
+todoRoutes.get('/trash', requireScope(API_KEY_SCOPES.TODOS_READ), async (c) => {
+  return getTrashHandler(c, c.get('storage'));
+});
+
+// POST /trash/:id/restore - ゴミ箱のTodoを元の位置または末尾に戻す
+todoRoutes.post('/trash/:id/restore', requireScope(API_KEY_SCOPES.TODOS_WRITE), async (c) => {
+  return restoreTrashHandler(c, c.get('storage'));
+});
+
+// DELETE /trash/:id - ゴミ箱のTodoを完全に削除
+todoRoutes.delete('/trash/:id', requireScope(API_KEY_SCOPES.TODOS_DELETE), async (c) => {
+  return purgeTrashHandler(c, c.get('storage'));
+});
+
+// GET /lists - リストの一覧と件数
+app.get('/lists', requireScope(API_KEY_SCOPES.TODOS_READ), async (c) => {
+  return getListsHandler(c, c.get('lists'));
+});
+
+// POST /lists - リスト作成
+app.post('/lists', requireScope(API_KEY_SCOPES.TODOS_WRITE), async (c) => {
+  return createListHandler(c, c.get('lists'));
+});
+
+// GET /lists/:listId - 特定リスト取得
+app.get('/lists/:listId', requireScope(API_KEY_SCOPES.TODOS_READ), async (c) => {
+  return getListHandler(c, c.get('storage'));
+});
+
+// PUT /lists/:listId - リスト名の変更
+app.put('/lists/:listId', requireScope(API_KEY_SCOPES.TODOS_WRITE), async (c) => {
+  return updateListHandler(c, c.get('storage'));
+});
+
+// DELETE /lists/:listId - リストをそのTodoとともに削除
+app.delete('/lists/:listId', requireScope(API_KEY_SCOPES.TODOS_DELETE), async (c) => {
+  return deleteListHandler(c, c.get('storage'));
+});
+
+// POST /admin/keys - API Keyの発行（平文のキーはこのレスポンスでのみ返す）
+app.post('/admin/keys', requireScope(API_KEY_SCOPES.ADMIN), async (c) => {
+  return createApiKeyHandler(c, new KVApiKeyStorage(c.env.TODO_KV));
+});
+
+// GET /admin/keys - API Keyの一覧
+app.get('/admin/keys', requireScope(API_KEY_SCOPES.ADMIN), async (c) => {
+  return getApiKeysHandler(c, new KVApiKeyStorage(c.env.TODO_KV));
+});
+
+// POST /admin/keys/:id/rotate - 新しいキーを発行し、古いキーは猶予期間の後に失効させる
+app.post('/admin/keys/:id/rotate', requireScope(API_KEY_SCOPES.ADMIN), async (c) => {
+  return rotateApiKeyHandler(c, new KVApiKeyStorage(c.env.TODO_KV));
+});
+
+// DELETE /admin/keys/:id - API Keyの削除
+app.delete('/admin/keys/:id', requireScope(API_KEY_SCOPES.ADMIN), async (c) => {
+  return deleteApiKeyHandler(c, new KVApiKeyStorage(c.env.TODO_KV));
+});
+
+// POST /admin/tenants/:tenantId/migrate - テナント導入前（デフォルトのテナント）のデータを名前付きのテナントに移す
+app.post('/admin/tenants/:tenantId/migrate', requireScope(API_KEY_SCOPES.ADMIN), async (c) => {
+  return migrateTenantHandler(c);
+});
+
+// Todoルートをデフォルトのリスト（/todos）とパスのリスト（/lists/:listId/todos）にマウント
+app.route('/', todoRoutes);
+app.route('/lists/:listId', todoRoutes);
+
 /**
  * Frontend & Health Check Endpoint
  *
@@ -169,12 +372,30 @@ app.notFound((_c) => {
  * Export Hono Application (Task 10.3)
  *
  * Cloudflare Workersのデフォルトエクスポート。
- * Workers環境でfetch()イベントハンドラーとして使用されます。
+ * fetch()はHonoアプリケーションで処理し、scheduled()はCron Trigger（wrangler.toml の `[triggers] crons`）で
+ * 保持期間を過ぎたゴミ箱のTodoを完全に削除します（Workers KVではインデックスも再構築します）。
+ * テストなどでHonoアプリケーションを直接使用する場合は、名前付きエクスポートの `app` を使用します。
  *
  * @example
  * ```typescript
- * // Cloudflare Workersでの使用
- * export default app;
+ * import { app } from './index';
+ *
+ * const res = await app.request('/todos', { headers: { 'X-API-Key': 'your-api-key' } });
  * ```
  */
-export default app;
+export { app };
+
+export default {
+  fetch: app.fetch,
+  scheduled: (controller, env, ctx) => {
+    ctx.waitUntil(purgeExpiredTrashHandler(controller, env));
+  },
+} satisfies ExportedHandler<Env>;
+
+/**
+ * Durable Object Classes
+ *
+ * Durable Objectクラスはエントリーポイントからエクスポートする必要があります。
+ * wrangler.tomlの `class_name` と一致させてください。
+ */
+export { TodoListObject } from './storage/durable';
@@ -9,25 +9,78 @@
  * - Authentication Middleware セクション (design.md)
  */
 
-import type { Context, Next } from 'hono';
+import type { Context, MiddlewareHandler, Next } from 'hono';
 import { errorResponse } from '../utils/response';
+import {
+  parseApiKeys,
+  hasScope,
+  findApiKey,
+  hashApiKey,
+  shouldTouchApiKey,
+  isApiKeyExpired,
+  apiKeyExpiryWarning,
+} from '../utils/apiKeys';
 import { ERROR_CODES } from '../models/error';
-import type { Env } from '../models/env';
+import type { AppEnv } from '../models/env';
+import type { ApiKeyEntry, ApiKeyScope } from '../models/apiKey';
+import { API_KEY_EXPIRES_IN_HEADER } from '../models/apiKey';
+import { KVApiKeyStorage } from '../storage/apiKeys';
+
+/**
+ * Find an API key issued via /admin/keys
+ *
+ * 提供されたAPI KeyのSHA-256ハッシュでKVを検索し、見つかった有効期限内のキーはlastUsedAtを更新します
+ * （LAST_USED_UPDATE_INTERVAL_MSごと）。lastUsedAtの更新に失敗しても認証は成功させます。
+ *
+ * @param kv - TODO_KVバインディング
+ * @param apiKey - X-API-Keyヘッダーの値
+ * @param now - 現在日時
+ * @returns API Keyのエントリー（有効期限を含む）、または見つからない場合はundefined
+ */
+async function findIssuedApiKey(
+  kv: KVNamespace,
+  apiKey: string,
+  now: Date
+): Promise<ApiKeyEntry | undefined> {
+  const keys = new KVApiKeyStorage(kv);
+  const hash = await hashApiKey(apiKey);
+  const record = await keys.findByHash(hash);
+  if (!record) {
+    return undefined;
+  }
+
+  if (!isApiKeyExpired(record, now) && shouldTouchApiKey(record, now)) {
+    try {
+      await keys.put(hash, { ...record, lastUsedAt: now.toISOString() });
+    } catch (error) {
+      console.error('Error updating lastUsedAt of API key:', error);
+    }
+  }
+  return {
+    key: apiKey,
+    tenantId: record.tenantId,
+    scopes: record.scopes,
+    ...(record.expiresAt !== undefined ? { expiresAt: record.expiresAt } : {}),
+  };
+}
 
 /**
  * API Key Authentication Middleware
  *
  * X-API-Keyヘッダーを検証し、有効なAPI Keyを持つリクエストのみを許可します。
- * 環境変数VALID_API_KEYSに登録されたキーと照合します。
+ * 環境変数VALID_API_KEYSに登録されたキー、および `/admin/keys` で発行しKVに保存したキーと照合し、キーが属するテナントのIDとスコープを
+ * `c.set('tenantId', ...)` / `c.set('scopes', ...)` で後続のミドルウェア（ストレージの選択・requireScope）に渡します。
  *
  * 認証フロー:
  * 1. X-API-Keyヘッダーの存在確認
- * 2. 環境変数VALID_API_KEYSからカンマ区切りのキーリストを取得
- * 3. 提供されたAPI Keyが有効なキーリストに含まれるか検証
- * 4. 認証成功時はnext()を呼び出して次のミドルウェアに制御を渡す
- * 5. 認証失敗時は401 Unauthorizedエラーを返す
+ * 2. 環境変数VALID_API_KEYSからキーリストを取得（カンマ区切りの `key` / `tenantId:key`、またはJSON配列）
+ * 3. 提供されたAPI Keyが有効なキーリストに含まれるか定数時間で検証し、含まれない場合はSHA-256ハッシュでKVを検索
+ * 4. 有効期限（expiresAt）を過ぎたAPI Keyは401 Unauthorizedエラーを返す
+ * 5. 認証成功時はテナントIDとスコープを設定し、next()を呼び出して次のミドルウェアに制御を渡す
+ * 6. 有効期限までAPI_KEY_EXPIRY_WARNING_DAYS以下の場合は、X-API-Key-Expires-Inヘッダー（秒）をレスポンスに付ける
+ * 7. 認証失敗時は401 Unauthorizedエラーを返す
  *
- * @param {Context<{ Bindings: Env }>} c - Honoコンテキスト
+ * @param {Context<AppEnv>} c - Honoコンテキスト
  * @param {Next} next - 次のミドルウェアを呼び出す関数
  * @returns {Promise<Response | void>} 認証失敗時は401エラー、成功時はvoid
  *
@@ -50,17 +103,16 @@ import type { Env } from '../models/env';
  * - HTTPS必須（Cloudflare WorkersはデフォルトでHTTPS）
  * - API Keyのローテーション推奨（定期的に更新）
  * - 空のAPI Keyは無効として扱う (要件10.5)
- * - 環境変数が未設定の場合はすべてのリクエストを拒否
+ * - 環境変数とKVバインディングがともに未設定の場合はすべてのリクエストを拒否
+ * - キーの比較はハッシュ同士の定数時間比較で行い、タイミング攻撃を防ぐ
+ * - 発行したキーは平文を保存せず、SHA-256ハッシュで照合する
  *
  * エラーレスポンス (要件10.1, 10.3, 10.5):
- * - 401 Unauthorized: API Key欠落または無効
+ * - 401 Unauthorized: API Key欠落、無効、または有効期限切れ
  * - エラーコード: UNAUTHORIZED
  * - エラーメッセージ: 認証失敗の理由を説明
  */
-export async function apiKeyAuth(
-  c: Context<{ Bindings: Env }>,
-  next: Next
-): Promise<Response | void> {
+export async function apiKeyAuth(c: Context<AppEnv>, next: Next): Promise<Response | void> {
   // X-API-Keyヘッダーを取得 (要件10.5)
   const apiKey = c.req.header('X-API-Key');
 
@@ -83,10 +135,10 @@ export async function apiKeyAuth(
   }
 
   // 環境変数から有効なAPI Keyリストを取得 (要件10.2)
-  const validKeysString = c.env.VALID_API_KEYS;
+  const validKeysString = c.env.VALID_API_KEYS?.trim() ?? '';
 
-  // 環境変数が未設定の場合、すべてのリクエストを拒否
-  if (!validKeysString || validKeysString.trim() === '') {
+  // 環境変数とKVがともに未設定の場合、すべてのリクエストを拒否
+  if (validKeysString === '' && !c.env.TODO_KV) {
     console.error('VALID_API_KEYS environment variable is not set. All requests will be rejected.');
     return errorResponse(
       ERROR_CODES.UNAUTHORIZED,
@@ -95,14 +147,15 @@ export async function apiKeyAuth(
     );
   }
 
-  // カンマ区切りのキーリストをパースし、各キーをトリム
-  const validKeys = validKeysString
-    .split(',')
-    .map((key) => key.trim())
-    .filter((key) => key.length > 0);
+  // キーリストをパースし、各キーをトリム（`tenantId:key` はテナントとキーに分ける、JSON配列はスコープも読む）
+  // 環境変数にないキーは、/admin/keys で発行したキーとしてKVを検索する
+  const now = new Date();
+  const entry =
+    (await findApiKey(parseApiKeys(validKeysString), apiKey)) ??
+    (c.env.TODO_KV ? await findIssuedApiKey(c.env.TODO_KV, apiKey, now) : undefined);
 
   // 提供されたAPI Keyが有効なキーリストに含まれるか検証 (要件10.2, 10.3)
-  if (!validKeys.includes(apiKey)) {
+  if (!entry) {
     return errorResponse(
       ERROR_CODES.UNAUTHORIZED,
       'Invalid API key. Please provide a valid API key.',
@@ -110,6 +163,52 @@ export async function apiKeyAuth(
     );
   }
 
-  // 認証成功: 次のミドルウェアに制御を渡す (要件10.2)
+  // 有効期限を過ぎたAPI Keyを拒否（ローテーションの猶予期間を過ぎた古いキーを含む）
+  if (isApiKeyExpired(entry, now)) {
+    return errorResponse(
+      ERROR_CODES.UNAUTHORIZED,
+      'API key has expired. Please use a new API key.',
+      401
+    );
+  }
+
+  // 認証成功: テナントとスコープを設定し、次のミドルウェアに制御を渡す (要件10.2)
+  c.set('tenantId', entry.tenantId);
+  c.set('scopes', entry.scopes);
   await next();
+
+  // 有効期限が近い場合は、ローテーションを促すために残りの秒数を通知する
+  const expiresIn = apiKeyExpiryWarning(entry, now);
+  if (expiresIn !== undefined) {
+    c.header(API_KEY_EXPIRES_IN_HEADER, String(expiresIn));
+  }
+}
+
+/**
+ * Scope Authorization Middleware
+ *
+ * apiKeyAuthが設定したAPI Keyのスコープに、ルートに必要なスコープが含まれるか検証します。
+ * `admin` スコープはすべてのスコープを含みます。apiKeyAuthの後にルートごとに適用します。
+ *
+ * @param scope - ルートに必要なスコープ
+ * @returns スコープがない場合は403 Forbidden（FORBIDDEN）を返すミドルウェア
+ *
+ * @example
+ * ```typescript
+ * todoRoutes.get('/todos', requireScope(API_KEY_SCOPES.TODOS_READ), async (c) => {
+ *   return getTodosHandler(c, c.get('storage'));
+ * });
+ * ```
+ */
+export function requireScope(scope: ApiKeyScope): MiddlewareHandler<AppEnv> {
+  return async (c, next): Promise<Response | void> => {
+    if (!hasScope(c.get('scopes') ?? [], scope)) {
+      return errorResponse(
+        ERROR_CODES.FORBIDDEN,
+        `This API key does not have the required scope: ${scope}`,
+        403
+      );
+    }
+    await next();
+  };
 }
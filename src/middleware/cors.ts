@@ -82,6 +82,13 @@ function getAllowedOrigins(c: Context<{ Bindings: Env }>): string | string[] {
  * 許可されるヘッダー:
  * - Content-Type: JSONリクエストボディ
  * - X-API-Key: API Key認証
+ * - If-Match: 楽観的並行性制御（更新・削除・並び替え）
+ * - If-None-Match / If-Modified-Since: 一覧の条件付きGET
+ *
+ * 公開されるレスポンスヘッダー:
+ * - ETag: Todoのバージョン（If-Matchに指定する値）
+ * - Link: 繰り返しのTodoを完了にして作成された次の回のTodo（rel="next"）
+ * - X-API-Key-Expires-In: API Keyの有効期限までの秒数（有効期限が近い場合のみ）
  *
  * @param {Context<{ Bindings: Env }>} c - Honoコンテキスト
  * @param {Next} next - 次のミドルウェアを呼び出す関数
@@ -117,6 +124,7 @@ export async function configureCors(
   return cors({
     origin: allowedOrigins,
     allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-    allowHeaders: ['Content-Type', 'X-API-Key'],
+    allowHeaders: ['Content-Type', 'X-API-Key', 'If-Match', 'If-None-Match', 'If-Modified-Since'],
+    exposeHeaders: ['ETag', 'Link', 'X-API-Key-Expires-In'],
   })(c, next);
 }
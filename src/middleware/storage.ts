@@ -0,0 +1,84 @@
+/**
+ * Storage Middleware
+ *
+ * このファイルはストレージ実装をHonoコンテキストに設定するミドルウェアを提供します。
+ * ハンドラーは `c.get('storage')` で取得したIStorageのみに依存します。
+ * `/lists/:listId` 配下のルートでは、パスのリストのストレージを設定します（それ以外はデフォルトのリスト）。
+ * ストレージは認証ミドルウェアが設定したテナント（`c.get('tenantId')`）のデータのみを扱います。
+ *
+ * 参照:
+ * - 要件5: データ永続化 (requirements.md)
+ * - Storage Layer セクション (design.md)
+ */
+
+import type { Context, Next } from 'hono';
+import { errorResponse } from '../utils/response';
+import { validateListId } from '../utils/validation';
+import { ERROR_CODES } from '../models/error';
+import { DEFAULT_LIST_ID } from '../models/list';
+import { DEFAULT_TENANT_ID } from '../models/tenant';
+import { createStorage, createListStorage } from '../storage/factory';
+import type { AppEnv } from '../models/env';
+import type { IStorage, IListStorage } from '../storage/interface';
+
+/**
+ * Storage Middleware
+ *
+ * STORAGE_BACKEND環境変数に応じたストレージ実装を生成し、`c.set('storage', ...)` で
+ * 後続のハンドラーに渡します。あわせてリストの一覧（`lists`）と、
+ * 他のリストのストレージを生成する関数（`storageFor`）を設定します。
+ *
+ * @param {Context<AppEnv>} c - Honoコンテキスト
+ * @param {Next} next - 次のミドルウェアを呼び出す関数
+ * @returns {Promise<Response | void>} 設定不備の場合は500エラー、成功時はvoid
+ *
+ * @example
+ * ```typescript
+ * const app = new Hono<AppEnv>();
+ *
+ * app.use('/todos/*', storageMiddleware);
+ * app.get('/todos', (c) => getTodosHandler(c, c.get('storage')));
+ * ```
+ *
+ * エラーレスポンス:
+ * - 400 Bad Request: パスのリストIDが不正
+ * - 404 Not Found: パスのリストが存在しない（デフォルトのリストは常に存在する）
+ * - 500 Internal Server Error: STORAGE_BACKENDが不正、または必要なバインディングが未設定
+ * - 設定不備の詳細はログにのみ記録し、クライアントには公開しない（要件14.6）
+ */
+export async function storageMiddleware(c: Context<AppEnv>, next: Next): Promise<Response | void> {
+  const listId = c.req.param('listId') ?? DEFAULT_LIST_ID;
+  if (!validateListId(listId)) {
+    return errorResponse(
+      ERROR_CODES.VALIDATION_ERROR,
+      'Invalid list ID format. Must be "default" or a valid UUID v4.',
+      400
+    );
+  }
+
+  // 認証ミドルウェアを経由しない場合はデフォルトのテナント
+  const tenantId = c.get('tenantId') ?? DEFAULT_TENANT_ID;
+
+  let storage: IStorage;
+  let lists: IListStorage;
+  try {
+    storage = createStorage(c.env, listId, tenantId);
+    lists = createListStorage(c.env, tenantId);
+  } catch (error) {
+    console.error('Storage backend is not configured correctly:', error);
+    return errorResponse(
+      ERROR_CODES.INTERNAL_ERROR,
+      'Storage is not configured. Please contact the administrator.',
+      500
+    );
+  }
+
+  if (listId !== DEFAULT_LIST_ID && !(await lists.getList(listId))) {
+    return errorResponse(ERROR_CODES.NOT_FOUND, `List with ID ${listId} not found`, 404);
+  }
+
+  c.set('storage', storage);
+  c.set('lists', lists);
+  c.set('storageFor', (id) => createStorage(c.env, id, tenantId));
+  await next();
+}
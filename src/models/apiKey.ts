@@ -0,0 +1,187 @@
+/**
+ * API Key Domain Model
+ *
+ * このファイルはAPI Keyとその権限（スコープ）の定義を提供します。
+ * 各API Keyはテナント（models/tenant.ts）に属し、許可されたスコープの操作のみを実行できます。
+ * 例えばダッシュボードやボットには `todos:read` のみを持つ読み取り専用のAPI Keyを発行できます。
+ *
+ * API Keyは環境変数 VALID_API_KEYS で設定するか（解析は utils/apiKeys.ts）、
+ * adminスコープのAPI Keyで `/admin/keys` から発行します。発行したAPI KeyはSHA-256ハッシュのみを
+ * Workers KVに保存し（storage/apiKeys.ts）、平文は発行時のレスポンスで一度だけ返します。
+ *
+ * 参照:
+ * - 要件10: 認証・認可 (requirements.md)
+ */
+
+/**
+ * API Key Scope
+ *
+ * - todos:read: Todo・タグ・ゴミ箱・リストの参照
+ * - todos:write: Todo・チェックリスト・リストの作成と変更（並び替え・アーカイブ・移動・復元を含む）
+ * - todos:delete: Todoの削除、ゴミ箱のTodoの完全な削除、リストの削除
+ * - admin: すべての操作（他のすべてのスコープを含む）
+ */
+export type ApiKeyScope = 'todos:read' | 'todos:write' | 'todos:delete' | 'admin';
+
+/**
+ * API Key Scopes Constant
+ *
+ * @example
+ * ```typescript
+ * todoRoutes.get('/todos', requireScope(API_KEY_SCOPES.TODOS_READ), handler);
+ * ```
+ */
+export const API_KEY_SCOPES = {
+  TODOS_READ: 'todos:read' as const,
+  TODOS_WRITE: 'todos:write' as const,
+  TODOS_DELETE: 'todos:delete' as const,
+  ADMIN: 'admin' as const,
+} as const;
+
+/**
+ * カンマ区切り形式のAPI Keyのスコープ
+ *
+ * スコープ導入前と同じく、Todoの参照・変更・削除のすべてを許可します（adminは含みません）。
+ */
+export const DEFAULT_API_KEY_SCOPES: readonly ApiKeyScope[] = [
+  API_KEY_SCOPES.TODOS_READ,
+  API_KEY_SCOPES.TODOS_WRITE,
+  API_KEY_SCOPES.TODOS_DELETE,
+];
+
+/**
+ * API Key Entry
+ *
+ * VALID_API_KEYSの1つのエントリー。
+ */
+export interface ApiKeyEntry {
+  /**
+   * X-API-Keyヘッダーと照合するAPI Key
+   */
+  key: string;
+
+  /**
+   * API Keyが属するテナントのID
+   */
+  tenantId: string;
+
+  /**
+   * API Keyに許可されたスコープ（1つ以上、重複なし）
+   */
+  scopes: ApiKeyScope[];
+
+  /**
+   * 有効期限（ISO 8601形式。期限のないAPI Keyは持たない）
+   */
+  expiresAt?: string;
+}
+
+/**
+ * API Key Record
+ *
+ * `/admin/keys` で発行したAPI Keyのメタデータ。平文のAPI Keyとハッシュは含みません。
+ *
+ * ビジネスルール:
+ * - idはUUID v4形式
+ * - nameは1-100文字で、制御文字を含まない（前後の空白は取り除いて保存する）
+ * - tenantIdは発行したadminのAPI Keyのテナント（他のテナントのAPI Keyは参照・削除できない）
+ * - lastUsedAtは認証に使用された日時（LAST_USED_UPDATE_INTERVAL_MSごとに更新する）
+ * - expiresAtは発行日時からAPI_KEY_ROTATION_DAYS（models/env.ts）以内。有効期限を過ぎたAPI Keyは認証に使用できない
+ */
+export interface ApiKeyRecord {
+  /**
+   * API Keyの一意識別子（UUID v4形式）
+   */
+  id: string;
+
+  /**
+   * API Keyの名前（例: "Dashboard"、1-100文字）
+   */
+  name: string;
+
+  /**
+   * API Keyが属するテナントのID
+   */
+  tenantId: string;
+
+  /**
+   * API Keyに許可されたスコープ
+   */
+  scopes: ApiKeyScope[];
+
+  /**
+   * 発行日時（ISO 8601形式）
+   */
+  createdAt: string;
+
+  /**
+   * 最後に認証に使用された日時（ISO 8601形式。未使用の場合は持たない）
+   */
+  lastUsedAt?: string;
+
+  /**
+   * 有効期限（ISO 8601形式。有効期限の導入前に発行したAPI Keyは持たない）
+   */
+  expiresAt?: string;
+}
+
+/**
+ * Create API Key Request
+ *
+ * POST /admin/keys のリクエストボディ。
+ */
+export interface CreateApiKeyRequest {
+  name: string;
+  scopes: ApiKeyScope[];
+
+  /**
+   * 有効期限（省略時は発行日時からAPI_KEY_ROTATION_DAYS後）
+   */
+  expiresAt?: string;
+
+  /**
+   * 登録する平文のAPI Key（省略時は生成する。VALID_API_KEYSのキーをKVへ移行する場合に指定）
+   */
+  key?: string;
+}
+
+/**
+ * Create API Key Response
+ *
+ * POST /admin/keys のレスポンス。平文のAPI Keyはこのレスポンスでのみ返されます。
+ */
+export interface CreateApiKeyResponse extends ApiKeyRecord {
+  /**
+   * 平文のAPI Key（X-API-Keyヘッダーに指定する値）
+   */
+  key: string;
+}
+
+/**
+ * 有効期限が近いAPI Keyのレスポンスに付けるヘッダー（値は有効期限までの秒数）
+ */
+export const API_KEY_EXPIRES_IN_HEADER = 'X-API-Key-Expires-In';
+
+/**
+ * API Key Constraints
+ *
+ * API Keyに関する制約値。
+ */
+export const API_KEY_CONSTRAINTS = {
+  /**
+   * API Keyの名前の最大文字数
+   */
+  MAX_NAME_LENGTH: 100,
+
+  /**
+   * 発行するAPI Keyのランダムなバイト数（16進数で64文字）
+   */
+  GENERATED_KEY_BYTES: 32,
+
+  /**
+   * lastUsedAtを更新する間隔（ミリ秒）
+   *
+   * リクエストごとにKVへ書き込まないよう、前回の更新からこの間隔が経過した場合のみ更新します。
+   */
+  LAST_USED_UPDATE_INTERVAL_MS: 60 * 1000,
+} as const;
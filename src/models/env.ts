@@ -11,6 +11,10 @@
  * - Deployment & Configuration セクション (design.md)
  */
 
+import type { TodoListObject } from '../storage/durable';
+import type { IStorage, IListStorage } from '../storage/interface';
+import type { ApiKeyScope } from './apiKey';
+
 /**
  * Environment Interface
  *
@@ -21,6 +25,18 @@
  * [[kv_namespaces]]
  * binding = "TODO_KV"
  * id = "your-kv-namespace-id"
+ *
+ * # D1を使用する場合（任意）
+ * [[d1_databases]]
+ * binding = "TODO_DB"
+ * database_name = "todo-db"
+ * database_id = "your-d1-database-id"
+ * migrations_dir = "migrations"
+ *
+ * # Durable Objectsを使用する場合（任意）
+ * [[durable_objects.bindings]]
+ * name = "TODO_DO"
+ * class_name = "TodoListObject"
  * ```
  *
  * シークレット設定例:
@@ -30,8 +46,13 @@
  * ```
  *
  * @property {KVNamespace} TODO_KV - Todo項目を保存するKVストレージ
- * @property {string} VALID_API_KEYS - カンマ区切りの有効なAPI Keyリスト
+ * @property {D1Database} [TODO_DB] - Todo項目を保存するD1データベース (任意、STORAGE_BACKEND=d1で使用)
+ * @property {DurableObjectNamespace} [TODO_DO] - Todoリストを所有するDurable Object (任意、STORAGE_BACKEND=durableで使用)
+ * @property {string} [STORAGE_BACKEND] - 使用するストレージバックエンド (任意、デフォルト: 'kv')
+ * @property {string} VALID_API_KEYS - カンマ区切りの有効なAPI Keyリスト（`tenantId:key` でテナントを指定）
  * @property {string} [ALLOWED_ORIGINS] - カンマ区切りの許可オリジンリスト (任意、デフォルト: '*')
+ * @property {string} [MAX_TODOS] - 作成できるTodoの最大件数 (任意、デフォルト: 500)
+ * @property {string} [TRASH_RETENTION_DAYS] - ゴミ箱のTodoを保持する日数 (任意、デフォルト: 30)
  *
  * @example
  * ```typescript
@@ -57,6 +78,7 @@ export interface Env {
    * - `await kv.put('todos:${id}', JSON.stringify(todo))` - Todo保存
    * - `await kv.delete('todos:${id}')` - Todo削除
    * - `await kv.list({ prefix: 'todos:' })` - すべてのTodoキーを取得
+   * - `await kv.get('meta:index')` - 全Todoのインデックスを取得（一覧の取得に使用）
    *
    * 特性:
    * - Eventual Consistency (最終的整合性)
@@ -67,6 +89,62 @@ export interface Env {
    */
   TODO_KV: KVNamespace;
 
+  /**
+   * D1 Database Binding
+   *
+   * Todo項目を永続化するためのSQLiteデータベース（任意）。
+   * STORAGE_BACKEND=d1 の場合、Workers KVの代わりにD1Storageが使用されます。
+   *
+   * スキーマ:
+   * - `migrations/` 配下のSQLマイグレーションで管理
+   * - `wrangler d1 migrations apply <database_name>` で適用
+   *
+   * 特性:
+   * - 強い整合性（書き込み直後の読み込みに反映される）
+   * - batch()による複数ステートメントのトランザクション実行
+   * - List API件数制限なし
+   *
+   * 要件: 5.1-5.4 (データ永続化)
+   */
+  TODO_DB?: D1Database;
+
+  /**
+   * Durable Object Namespace Binding
+   *
+   * Todoリストの状態を所有するDurable Object（TodoListObject）の名前空間（任意）。
+   * STORAGE_BACKEND=durable の場合、Workers KVの代わりにDurableStorageが使用されます。
+   *
+   * 特性:
+   * - リストごとに1つのオブジェクトが作成・並び替え・削除を直列に処理
+   * - 強い整合性とトランザクショナルな書き込み
+   * - TodoListObjectはエントリーポイント（src/index.ts）からエクスポートされる
+   *
+   * 要件: 5.1-5.4 (データ永続化)
+   */
+  TODO_DO?: DurableObjectNamespace<TodoListObject>;
+
+  /**
+   * Storage Backend
+   *
+   * 使用するストレージバックエンド（任意、デフォルト: 'kv'）。
+   * ストレージミドルウェアがこの値に応じてIStorage実装を生成します。
+   *
+   * 設定値:
+   * - `kv`: Workers KV（TODO_KV）
+   * - `d1`: D1（TODO_DBバインディングが必要）
+   * - `durable`: Durable Objects（TODO_DOバインディングが必要）
+   * - `memory`: インメモリ（isolate再起動で消失、ローカルデモ・テスト用）
+   *
+   * wrangler.toml設定例:
+   * ```toml
+   * [vars]
+   * STORAGE_BACKEND = "d1"
+   * ```
+   *
+   * 要件: 5.1-5.4 (データ永続化)
+   */
+  STORAGE_BACKEND?: string;
+
   /**
    * Valid API Keys
    *
@@ -74,6 +152,10 @@ export interface Env {
    * 認証ミドルウェアで使用され、X-API-Keyヘッダーと照合されます。
    *
    * 形式: "key1,key2,key3"
+   * - 各エントリーは `key`（デフォルトのテナント）または `tenantId:key`（指定したテナント）
+   * - 例: "legacy-key,team-a:key2,team-b:key3"（解析は utils/apiKeys.ts）
+   * - スコープ（models/apiKey.ts）を指定する場合はJSON配列:
+   *   '[{"key":"dashboard-key","scopes":["todos:read"]},{"key":"bot-key","tenantId":"team-a","scopes":["todos:read","todos:write"]}]'
    *
    * セキュリティ考慮事項:
    * - 絶対にコードリポジトリにコミットしない
@@ -83,11 +165,11 @@ export interface Env {
    *
    * 使用例:
    * ```typescript
-   * const validKeys = c.env.VALID_API_KEYS.split(',').map(k => k.trim());
-   * const providedKey = c.req.header('X-API-Key');
-   * if (!validKeys.includes(providedKey)) {
+   * const entry = parseApiKeys(c.env.VALID_API_KEYS).find((item) => item.key === providedKey);
+   * if (!entry) {
    *   return c.json({ error: { code: 'UNAUTHORIZED', message: 'Invalid API key' } }, 401);
    * }
+   * c.set('tenantId', entry.tenantId);
    * ```
    *
    * 要件: 10.1-10.5 (認証・認可)
@@ -124,6 +206,90 @@ export interface Env {
    * 要件: 9.1-9.3 (CORSサポート)
    */
   ALLOWED_ORIGINS?: string;
+
+  /**
+   * Max Todos
+   *
+   * 作成できるTodoの最大件数（任意、デフォルト: TODO_CONSTRAINTS.MAX_TODO_COUNT = 500）。
+   * 件数に達すると POST /todos は 400 TODO_LIMIT_REACHED を返します。
+   *
+   * 形式: 1以上の整数の文字列（例: "5000"）
+   *
+   * 考慮事項:
+   * - KVStorageは一覧の取得で全件を読み込むため、件数に比例してKVの読み込み回数が増える
+   *   （Workersのサブリクエスト上限に注意）
+   * - 不正な値が設定されている場合、Todoの作成は500エラーになる（ログに詳細を記録）
+   *
+   * wrangler.toml設定例:
+   * ```toml
+   * [vars]
+   * MAX_TODOS = "5000"
+   * ```
+   */
+  MAX_TODOS?: string;
+
+  /**
+   * Trash Retention Days
+   *
+   * ゴミ箱のTodoを保持する日数（任意、デフォルト: TODO_CONSTRAINTS.TRASH_RETENTION_DAYS = 30）。
+   * 保持期間を過ぎたTodoは、削除（DELETE /todos/:id）とゴミ箱の操作（/trash）の際に完全に削除されます。
+   *
+   * 形式: 1以上の整数の文字列（例: "7"）
+   *
+   * 考慮事項:
+   * - 期限切れのTodoの削除はリクエストの処理中に行うため、削除やゴミ箱の操作がない間は残り続ける
+   * - 不正な値が設定されている場合、削除とゴミ箱の操作は500エラーになる（ログに詳細を記録）
+   *
+   * wrangler.toml設定例:
+   * ```toml
+   * [vars]
+   * TRASH_RETENTION_DAYS = "7"
+   * ```
+   */
+  TRASH_RETENTION_DAYS?: string;
+}
+
+/**
+ * Storage Backend
+ *
+ * STORAGE_BACKEND環境変数で選択可能なストレージバックエンドの型定義。
+ */
+export type StorageBackend = 'kv' | 'd1' | 'durable' | 'memory';
+
+/**
+ * Context Variables
+ *
+ * ミドルウェアがHonoコンテキストに設定する値（`c.set()` / `c.get()`）。
+ *
+ * @property {string} tenantId - 認証ミドルウェアが設定した、API Keyが属するテナントのID
+ * @property {ApiKeyScope[]} scopes - 認証ミドルウェアが設定した、API Keyに許可されたスコープ
+ * @property {IStorage} storage - ストレージミドルウェアが生成した、リクエストのリストのストレージ実装
+ * @property {IListStorage} lists - リストの一覧のストレージ実装
+ * @property {Function} storageFor - 指定したリストのストレージ実装を生成する関数（リスト間の移動で使用）
+ */
+export interface AppVariables {
+  tenantId: string;
+  scopes: readonly ApiKeyScope[];
+  storage: IStorage;
+  lists: IListStorage;
+  storageFor: (listId: string) => IStorage;
+}
+
+/**
+ * Application Environment
+ *
+ * Honoアプリケーションの型パラメータ。BindingsとVariablesをまとめて定義します。
+ *
+ * @example
+ * ```typescript
+ * const app = new Hono<AppEnv>();
+ *
+ * app.get('/todos', (c) => getTodosHandler(c, c.get('storage')));
+ * ```
+ */
+export interface AppEnv {
+  Bindings: Env;
+  Variables: AppVariables;
 }
 
 /**
@@ -138,6 +304,29 @@ export const ENV_CONFIG = {
    */
   KV_BINDING_NAME: 'TODO_KV',
 
+  /**
+   * D1バインディング名
+   * wrangler.tomlで設定（任意）
+   */
+  D1_BINDING_NAME: 'TODO_DB',
+
+  /**
+   * Durable Objectバインディング名
+   * wrangler.tomlで設定（任意）
+   */
+  DO_BINDING_NAME: 'TODO_DO',
+
+  /**
+   * ストレージバックエンド環境変数名
+   * wrangler.tomlの[vars]で設定
+   */
+  STORAGE_BACKEND_VAR_NAME: 'STORAGE_BACKEND',
+
+  /**
+   * デフォルトのストレージバックエンド
+   */
+  DEFAULT_STORAGE_BACKEND: 'kv',
+
   /**
    * API Key環境変数名
    * wrangler secret put で設定
@@ -154,6 +343,18 @@ export const ENV_CONFIG = {
    * デフォルトの許可オリジン（開発環境用）
    */
   DEFAULT_ALLOWED_ORIGINS: '*',
+
+  /**
+   * 最大Todo件数環境変数名
+   * wrangler.tomlの[vars]で設定（任意）
+   */
+  MAX_TODOS_VAR_NAME: 'MAX_TODOS',
+
+  /**
+   * ゴミ箱の保持日数環境変数名
+   * wrangler.tomlの[vars]で設定（任意）
+   */
+  TRASH_RETENTION_DAYS_VAR_NAME: 'TRASH_RETENTION_DAYS',
 } as const;
 
 /**
@@ -172,9 +373,22 @@ export const SECURITY_BEST_PRACTICES = {
 
   /**
    * API Keyローテーション推奨間隔（日数）
+   * - /admin/keys で発行するAPI Keyの有効期限の上限（expiresAtを省略した場合の有効期限）
    */
   API_KEY_ROTATION_DAYS: 90,
 
+  /**
+   * API Keyの有効期限が近いことを警告する期間（日数）
+   * - 有効期限までこの日数を切ると、レスポンスに X-API-Key-Expires-In ヘッダー（秒）を付ける
+   */
+  API_KEY_EXPIRY_WARNING_DAYS: 14,
+
+  /**
+   * API Keyのローテーションで古いキーを使用できる猶予期間（時間）
+   * - POST /admin/keys/:id/rotate の後、古いキーと新しいキーの両方を使用できる期間
+   */
+  API_KEY_ROTATION_GRACE_HOURS: 24,
+
   /**
    * 本番環境でのALLOWED_ORIGINS設定の推奨パターン
    * - HTTPSのみ
@@ -20,16 +20,20 @@
  * エラーコードとHTTPステータスコードのマッピング:
  * - VALIDATION_ERROR: 400 Bad Request (要件14.3)
  * - UNAUTHORIZED: 401 Unauthorized (要件14.4)
+ * - FORBIDDEN: 403 Forbidden
  * - NOT_FOUND: 404 Not Found (要件14.5)
  * - METHOD_NOT_ALLOWED: 405 Method Not Allowed
+ * - PRECONDITION_FAILED: 412 Precondition Failed
  * - TODO_LIMIT_REACHED: 400 Bad Request
  * - INTERNAL_ERROR: 500 Internal Server Error (要件14.6)
  */
 export type ErrorCode =
   | 'VALIDATION_ERROR' // バリデーションエラー (400)
   | 'UNAUTHORIZED' // 認証エラー (401)
+  | 'FORBIDDEN' // 権限（スコープ）不足 (403)
   | 'NOT_FOUND' // リソース不存在 (404)
   | 'METHOD_NOT_ALLOWED' // メソッド不許可 (405)
+  | 'PRECONDITION_FAILED' // If-Matchの不一致 (412)
   | 'TODO_LIMIT_REACHED' // Todo項目数上限到達 (400)
   | 'INTERNAL_ERROR'; // 内部エラー (500)
 
@@ -125,6 +129,13 @@ export const ERROR_CODES = {
    */
   UNAUTHORIZED: 'UNAUTHORIZED' as const,
 
+  /**
+   * 権限不足エラー
+   * HTTPステータス: 403 Forbidden
+   * 使用例: API Keyに操作に必要なスコープ（例: todos:write）がない場合
+   */
+  FORBIDDEN: 'FORBIDDEN' as const,
+
   /**
    * リソース不存在エラー
    * HTTPステータス: 404 Not Found
@@ -139,6 +150,13 @@ export const ERROR_CODES = {
    */
   METHOD_NOT_ALLOWED: 'METHOD_NOT_ALLOWED' as const,
 
+  /**
+   * 事前条件不一致エラー
+   * HTTPステータス: 412 Precondition Failed
+   * 使用例: If-Matchヘッダーのバージョンが現在のTodoのバージョンと一致しない場合
+   */
+  PRECONDITION_FAILED: 'PRECONDITION_FAILED' as const,
+
   /**
    * Todo項目数上限到達エラー
    * HTTPステータス: 400 Bad Request
@@ -163,8 +181,74 @@ export const ERROR_CODES = {
 export const ERROR_STATUS_MAP: Record<ErrorCode, number> = {
   VALIDATION_ERROR: 400,
   UNAUTHORIZED: 401,
+  FORBIDDEN: 403,
   NOT_FOUND: 404,
   METHOD_NOT_ALLOWED: 405,
+  PRECONDITION_FAILED: 412,
   TODO_LIMIT_REACHED: 400,
   INTERNAL_ERROR: 500,
 } as const;
+
+/**
+ * Precondition Failed Error
+ *
+ * ストレージ層で期待するバージョン（If-Match）と現在のバージョンが一致しない場合に
+ * 投げられるエラー。ハンドラー層で412 Precondition Failedに変換されます。
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await storage.update(id, { title: 'New title' }, 3);
+ * } catch (error) {
+ *   if (error instanceof PreconditionFailedError) {
+ *     return errorResponse(ERROR_CODES.PRECONDITION_FAILED, error.message, 412);
+ *   }
+ * }
+ * ```
+ */
+export class PreconditionFailedError extends Error {
+  /**
+   * 現在のTodoのバージョン
+   */
+  readonly currentVersion: number;
+
+  /**
+   * Constructor
+   *
+   * @param currentVersion - 現在のTodoのバージョン
+   */
+  constructor(currentVersion: number) {
+    super('Todo item has been modified. Fetch the latest version and retry.');
+    this.name = 'PreconditionFailedError';
+    this.currentVersion = currentVersion;
+  }
+}
+
+/**
+ * Todo Limit Reached Error
+ *
+ * 処理の途中でTodoを作成する際（繰り返しのTodoの次の回など）に、Todo件数の上限（MAX_TODOS）を
+ * 超える場合に投げられるエラー。ハンドラー層で400 TODO_LIMIT_REACHEDに変換されます。
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await planNextOccurrence(storage, current, updates, maxCount);
+ * } catch (error) {
+ *   if (error instanceof TodoLimitReachedError) {
+ *     return errorResponse(ERROR_CODES.TODO_LIMIT_REACHED, error.message, 400);
+ *   }
+ * }
+ * ```
+ */
+export class TodoLimitReachedError extends Error {
+  /**
+   * Constructor
+   *
+   * @param message - エラーメッセージ（validateTodoCount()のエラー）
+   */
+  constructor(message: string) {
+    super(message);
+    this.name = 'TodoLimitReachedError';
+  }
+}
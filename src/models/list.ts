@@ -0,0 +1,112 @@
+/**
+ * List Domain Model
+ *
+ * このファイルはTodoリスト（プロジェクト）のドメインモデルを定義します。
+ * 1つのデプロイで複数の名前付きリスト（例: "Sprint", "Ops", "Personal"）を持つことができ、
+ * 各リストのTodoは独立した並び順・件数の上限・ゴミ箱・アーカイブを持ちます。
+ *
+ * 既存の `/todos` ルートはデフォルトのリスト（DEFAULT_LIST_ID）を操作し、
+ * 他のリストは `/lists/:listId/todos` で操作します。
+ */
+
+/**
+ * デフォルトのリストのID
+ *
+ * リスト導入前のTodoはすべてこのリストに属します。ストレージのキー・行は導入前と同じです。
+ */
+export const DEFAULT_LIST_ID = 'default';
+
+/**
+ * Todo List Entity
+ *
+ * ビジネスルール:
+ * - idはUUID v4形式（デフォルトのリストのみ `default`）
+ * - nameは1-100文字で、制御文字を含まない（前後の空白は取り除いて保存する）
+ * - createdAtは作成時に設定され、以降変更されない
+ * - デフォルトのリストは作成されずに存在するため、名前を変更するまで登録されず、createdAtを持たない
+ */
+export interface TodoList {
+  /**
+   * リストの一意識別子（UUID v4形式、またはデフォルトのリストの `default`）
+   */
+  id: string;
+
+  /**
+   * リストの名前（1-100文字）
+   */
+  name: string;
+
+  /**
+   * 作成日時（ISO 8601形式。デフォルトのリストは持たない）
+   */
+  createdAt?: string;
+}
+
+/**
+ * List Counts
+ *
+ * リストに含まれるTodoの件数（アーカイブ・ゴミ箱のTodoは含まない）。
+ */
+export interface ListCounts {
+  /**
+   * Todoの総数（件数の上限 MAX_TODOS と比較される値）
+   */
+  total: number;
+
+  /**
+   * 完了済みのTodoの数
+   */
+  completed: number;
+}
+
+/**
+ * List Response
+ *
+ * APIが返すリストの形式。登録されたリストに件数を加えたものです。
+ */
+export interface ListResponse extends TodoList {
+  counts: ListCounts;
+}
+
+/**
+ * Create / Update List Request
+ *
+ * POST /lists と PUT /lists/:listId のリクエストボディ。
+ */
+export interface ListRequest {
+  name: string;
+}
+
+/**
+ * Move Todo to List Request
+ *
+ * POST /todos/:id/move のリクエストボディ。
+ */
+export interface MoveToListRequest {
+  /**
+   * 移動先のリストのID
+   */
+  listId: string;
+}
+
+/**
+ * List Constraints
+ *
+ * リストに関する制約値。
+ */
+export const LIST_CONSTRAINTS = {
+  /**
+   * リスト名の最大文字数
+   */
+  MAX_NAME_LENGTH: 100,
+
+  /**
+   * 作成できるリストの最大数（デフォルトのリストを除く）
+   */
+  MAX_LIST_COUNT: 50,
+
+  /**
+   * 名前を変更していないデフォルトのリストの名前
+   */
+  DEFAULT_LIST_NAME: 'Todos',
+} as const;
@@ -0,0 +1,31 @@
+/**
+ * Tenant Domain Model
+ *
+ * このファイルはテナント（API Keyを共有するチーム・ユーザーの単位）の定義を提供します。
+ * 1つのデプロイを複数のチームで共有する場合、Todo・リスト・ゴミ箱・アーカイブはテナントごとに分離され、
+ * 他のテナントのデータは参照・変更できません。
+ *
+ * API Keyとテナントの対応は環境変数 VALID_API_KEYS で設定します（utils/apiKeys.ts）。
+ */
+
+/**
+ * デフォルトのテナントのID
+ *
+ * テナントを指定しないAPI Keyはこのテナントに属します。
+ * テナント導入前のデータはすべてこのテナントに属し、ストレージのキー・行は導入前と同じです。
+ */
+export const DEFAULT_TENANT_ID = 'default';
+
+/**
+ * Tenant Constraints
+ *
+ * テナントに関する制約値。
+ */
+export const TENANT_CONSTRAINTS = {
+  /**
+   * テナントIDの形式（英数字・ハイフン・アンダースコアの1-64文字）
+   *
+   * ストレージのキー（`t:{tenantId}:`）やVALID_API_KEYSの区切り文字（`:` / `,`）を含まないようにします。
+   */
+  ID_PATTERN: /^[A-Za-z0-9_-]{1,64}$/,
+} as const;
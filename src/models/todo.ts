@@ -24,14 +24,40 @@
  * - completedは真偽値でなければならない (要件12.5)
  * - createdAtは作成時に設定され、以降変更されない
  * - idとcreatedAtは更新操作で変更してはならない
- * - positionは0から始まる連続した整数でなければならない (task-reordering要件1.1)
- * - 新規作成時、positionは現在のタスク総数（最後の位置）に設定される (task-reordering要件1.2)
+ * - positionは同じ親を持つTodo（兄弟）の中で0から始まる連続した整数でなければならない (task-reordering要件1.1)
+ * - 新規作成時、positionは兄弟の総数（最後の位置）に設定される (task-reordering要件1.2)
+ * - positionは保存されず、ストレージのランク（StoredTodo.rank）の順序から読み込み時に算出される
+ * - versionは作成時に1となり、更新のたびに1ずつ増加する（並び替えでは変化しない）
+ * - versionはETagとして返され、If-Matchによる楽観的並行性制御に使用される
+ * - dueAtはオフセット付きのISO 8601日時、または日付のみ（終日）でなければならない
+ * - dueTimezoneはIANAタイムゾーン名で、終日の期限がいつ終わるかを決める（デフォルト: UTC）
+ * - 期限のないTodoはdueAtとdueTimezoneを持たない（nullは更新時に期限を解除する指定）
+ * - priorityは none / low / medium / high / urgent のいずれか（作成時のデフォルト: none）
+ * - priorityを持たないTodo（追加前に作成されたTodo）は none として扱う
+ * - tagsは正規化（前後の空白除去・小文字化・重複除去）されたタグの配列（作成時のデフォルト: []）
+ * - 各タグは1-50文字で制御文字を含まず、1つのTodoに付けられるタグは20個まで
+ * - tagsを持たないTodo（追加前に作成されたTodo）はタグなしとして扱う
+ * - parentIdは既存のTodoのIDで、親をたどって自分自身に戻ってはならない（循環の禁止）
+ * - 階層の深さ（ルートのTodoを1とする）は TODO_CONSTRAINTS.MAX_DEPTH 以下でなければならない
+ * - 親を持たないTodo（ルート）はparentIdを持たない（nullは更新時にルートへ移す指定）
+ * - recurrenceはRRULEのサブセット（utils/recurrence.ts）で、期限（dueAt）を持つTodoにのみ設定できる
+ * - 繰り返しのTodoを完了にすると次の回のTodoが作成され、完了したTodoは繰り返しを持たなくなる
  *
  * @property {string} id - UUID v4形式の一意な識別子
  * @property {string} title - Todoのタイトル (1-500文字)
  * @property {boolean} completed - 完了状態 (デフォルト: false)
  * @property {string} createdAt - 作成日時 (ISO 8601形式)
- * @property {number} position - 表示順序 (0から始まる連続した整数)
+ * @property {number} position - 兄弟の中での表示順序 (0から始まる連続した整数)
+ * @property {number} version - 更新バージョン (1から始まる単調増加の整数)
+ * @property {string} [dueAt] - 期限 (例: "2025-11-01T17:00:00+09:00"、終日の場合は "2025-11-01")
+ * @property {string} [dueTimezone] - 終日の期限を解釈するタイムゾーン (例: "Asia/Tokyo")
+ * @property {TodoPriority} [priority] - 優先度 (デフォルト: none)
+ * @property {string[]} [tags] - タグ (デフォルト: [])
+ * @property {string} [notes] - Markdown形式のメモ (デフォルト: "")
+ * @property {ChecklistItem[]} [items] - チェックリスト (表示順、デフォルト: [])
+ * @property {boolean} [autoComplete] - チェックリストがすべて完了したらTodoを完了にする (デフォルト: false)
+ * @property {string} [parentId] - 親のTodoのID (ルートの場合は持たない)
+ * @property {string} [recurrence] - 繰り返しの規則 (例: "FREQ=WEEKLY;BYDAY=MO"、繰り返さない場合は持たない)
  *
  * @example
  * ```typescript
@@ -40,7 +66,8 @@
  *   title: '買い物リストを作成する',
  *   completed: false,
  *   createdAt: '2025-10-27T10:30:00.000Z',
- *   position: 0
+ *   position: 0,
+ *   version: 1
  * };
  * ```
  */
@@ -49,9 +76,168 @@ export interface Todo {
   title: string; // 1-500文字、制御文字不可
   completed: boolean; // 完了状態
   createdAt: string; // ISO 8601形式 (例: "2025-10-27T10:30:00.000Z")
-  position: number; // 0から始まる連続した整数、タスクの表示順序
+  position: number; // 兄弟の中で0から始まる連続した整数、タスクの表示順序
+  version: number; // 1から始まり、更新のたびに増加する整数
+  dueAt?: string | null; // ISO 8601形式の日時または日付、任意
+  dueTimezone?: string | null; // IANAタイムゾーン名、任意
+  priority?: TodoPriority; // 優先度、未設定の場合は none
+  tags?: string[]; // 正規化済みのタグ、未設定の場合はタグなし
+  notes?: string; // Markdown形式のメモ、10000文字以内、未設定の場合はメモなし
+  items?: ChecklistItem[]; // チェックリスト（表示順）、未設定の場合は項目なし
+  autoComplete?: boolean; // チェックリストの完了でTodoを自動的に完了にするか、未設定の場合はfalse
+  parentId?: string | null; // 親のTodoのID（UUID v4形式）、未設定の場合はルート
+  recurrence?: string | null; // 正規化済みのRRULE、未設定の場合は繰り返さない
 }
 
+/**
+ * Checklist Item
+ *
+ * Todoのチェックリストの1項目。Todoの `items` 配列の順序が表示順です。
+ * 項目の追加・更新・削除・並び替えは `/todos/:id/items` のエンドポイントで行います。
+ *
+ * @property {string} id - UUID v4形式の一意な識別子
+ * @property {string} text - 項目の内容 (1-500文字、制御文字不可)
+ * @property {boolean} done - 完了状態
+ */
+export interface ChecklistItem {
+  id: string;
+  text: string;
+  done: boolean;
+}
+
+/**
+ * Checklist Progress
+ *
+ * チェックリストの進捗（例: 5項目中3項目が完了）。`items` から算出され、保存はされません。
+ *
+ * @property {number} done - 完了した項目の数
+ * @property {number} total - 項目の総数
+ */
+export interface ChecklistProgress {
+  done: number;
+  total: number;
+}
+
+/**
+ * Todo Priority
+ *
+ * Todoの優先度。TODO_CONSTRAINTS.PRIORITIES の順（低い順）に並びます。
+ */
+export type TodoPriority = 'none' | 'low' | 'medium' | 'high' | 'urgent';
+
+/**
+ * Recurrence Frequency
+ *
+ * 繰り返しの単位（RRULEのFREQ）。
+ */
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+/**
+ * Weekday
+ *
+ * 曜日（RRULEのBYDAY）。TODO_CONSTRAINTS.WEEKDAYS の順（月曜日から）に並びます。
+ */
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+/**
+ * Recurrence Rule
+ *
+ * 繰り返しの規則（recurrence）を解析した結果（utils/recurrence.ts の parseRecurrence()）。
+ * Todoには正規化したRRULE形式の文字列として保存されます。
+ *
+ * @property {RecurrenceFrequency} freq - 繰り返しの単位
+ * @property {number} interval - 何日・何週・何か月ごとか (1以上)
+ * @property {Weekday[]} [byDay] - 曜日 (DAILY / WEEKLYのみ、月曜日から順)
+ * @property {string} [until] - 最後の回の期限 (YYYY-MM-DD または YYYY-MM-DDTHH:MM:SSZ)
+ * @property {number} [count] - 完了するTodoを含む残りの回数
+ *
+ * @example
+ * ```typescript
+ * // FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;COUNT=10
+ * const rule: RecurrenceRule = { freq: 'WEEKLY', interval: 2, byDay: ['MO', 'TH'], count: 10 };
+ * ```
+ */
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay?: Weekday[];
+  until?: string;
+  count?: number;
+}
+
+/**
+ * Stored Todo
+ *
+ * ストレージに保存されるTodoの形式。
+ * 並び順はpositionの代わりに辞書順で比較するランク文字列（LexoRank方式）で保持し、
+ * 移動・削除時に他のTodoを書き換えずに済むようにします（utils/rank.ts）。
+ *
+ * @property {string} rank - 並び順を表すランク文字列（0-9a-z）
+ */
+export type StoredTodo = Omit<Todo, 'position'> & {
+  rank: string;
+};
+
+/**
+ * Trashed Todo
+ *
+ * ゴミ箱に移したTodo（GET /trash のレスポンスの要素）。
+ * ゴミ箱のTodoは並び順に含まれないため、positionを持ちません。
+ * 保持期間（環境変数 TRASH_RETENTION_DAYS）を過ぎると完全に削除されます。
+ *
+ * @property {string} deletedAt - ゴミ箱に移した日時 (ISO 8601形式)
+ * @property {string} [deletedWith] - cascadeで子孫としてゴミ箱に移した場合、削除したTodo（グループの根）のID
+ *
+ * @example
+ * ```typescript
+ * const trashed: TrashedTodo = {
+ *   id: '550e8400-e29b-41d4-a716-446655440000',
+ *   title: '削除したタスク',
+ *   completed: false,
+ *   createdAt: '2025-10-27T10:30:00.000Z',
+ *   version: 2,
+ *   deletedAt: '2025-11-01T09:00:00.000Z',
+ * };
+ * ```
+ */
+export type TrashedTodo = Omit<Todo, 'position'> & {
+  deletedAt: string;
+  deletedWith?: string;
+};
+
+/**
+ * Stored Trashed Todo
+ *
+ * ストレージに保存されるゴミ箱のTodoの形式。
+ * 元の位置に戻せるよう、ゴミ箱に移す前のランクを保持します。
+ */
+export type StoredTrashedTodo = StoredTodo & {
+  deletedAt: string;
+  deletedWith?: string;
+};
+
+/**
+ * Archived Todo
+ *
+ * アーカイブしたTodo（GET /todos?archived=true のレスポンスの要素）。
+ * アーカイブしたTodoは一覧の並び順とTodo件数の上限（MAX_TODOS）の対象外になります。
+ * positionはアーカイブの中での兄弟の位置（アーカイブする前のランク順）です。
+ *
+ * @property {string} archivedAt - アーカイブした日時 (ISO 8601形式)
+ */
+export type ArchivedTodo = Todo & {
+  archivedAt: string;
+};
+
+/**
+ * Stored Archived Todo
+ *
+ * ストレージに保存されるアーカイブしたTodoの形式。アーカイブする前のランクを保持します。
+ */
+export type StoredArchivedTodo = StoredTodo & {
+  archivedAt: string;
+};
+
 /**
  * Create Todo Request
  *
@@ -60,8 +246,24 @@ export interface Todo {
  *
  * バリデーションルール:
  * - title: 必須、1-500文字、制御文字不可 (要件1.3, 12.1, 12.2)
+ * - dueAt: 任意、オフセット付きのISO 8601日時または日付のみ（YYYY-MM-DD）
+ * - dueTimezone: 任意、IANAタイムゾーン名
+ * - priority: 任意、none / low / medium / high / urgent（デフォルト: none）
+ * - tags: 任意、文字列の配列（各1-50文字、制御文字不可、20個まで）
+ * - notes: 任意、10000文字以内（改行を含められる）
+ * - autoComplete: 任意、boolean型のみ（デフォルト: false）
+ * - parentId: 任意、既存のTodoのID（階層の深さが TODO_CONSTRAINTS.MAX_DEPTH 以下になること）
+ * - recurrence: 任意、RRULEのサブセット（dueAtの指定が必要）
  *
  * @property {string} title - Todoのタイトル
+ * @property {string} [dueAt] - 期限 (任意)
+ * @property {string} [dueTimezone] - 終日の期限を解釈するタイムゾーン (任意)
+ * @property {TodoPriority} [priority] - 優先度 (任意)
+ * @property {string[]} [tags] - タグ (任意)
+ * @property {string} [notes] - Markdown形式のメモ (任意)
+ * @property {boolean} [autoComplete] - チェックリストの完了で自動的に完了にするか (任意)
+ * @property {string} [parentId] - 親のTodoのID (任意、未指定の場合はルート)
+ * @property {string} [recurrence] - 繰り返しの規則 (任意)
  *
  * @example
  * ```typescript
@@ -72,6 +274,14 @@ export interface Todo {
  */
 export interface CreateTodoRequest {
   title: string; // 必須、1-500文字、制御文字不可
+  dueAt?: string; // 任意、ISO 8601形式の日時または日付
+  dueTimezone?: string; // 任意、IANAタイムゾーン名
+  priority?: TodoPriority; // 任意、デフォルト: none
+  tags?: string[]; // 任意、デフォルト: []
+  notes?: string; // 任意、デフォルト: ""
+  autoComplete?: boolean; // 任意、デフォルト: false
+  parentId?: string; // 任意、既存のTodoのID
+  recurrence?: string; // 任意、RRULE（例: "FREQ=WEEKLY;BYDAY=MO"）
 }
 
 /**
@@ -83,12 +293,28 @@ export interface CreateTodoRequest {
  * バリデーションルール:
  * - title: 任意、1-500文字、制御文字不可 (要件3.4, 12.1, 12.2)
  * - completed: 任意、boolean型のみ (要件3.5, 12.5)
+ * - dueAt: 任意、オフセット付きのISO 8601日時、日付のみ、またはnull（期限を解除）
+ * - dueTimezone: 任意、IANAタイムゾーン名またはnull
+ * - priority: 任意、none / low / medium / high / urgent
+ * - tags: 任意、文字列の配列（指定した配列でタグ全体を置き換える）
+ * - parentId: 任意、既存のTodoのID、またはnull（ルートへ移す）。自分自身や子孫は指定できない
+ * - recurrence: 任意、RRULEのサブセット、またはnull（繰り返しを解除）。期限のないTodoには指定できない
+ *
+ * 繰り返し:
+ * - dueAtにnullを指定すると繰り返しも解除される
+ * - 繰り返しのTodoをcompleted: trueにすると、次の期限を持つ新しいTodoが作成される
  *
  * 不変条件:
  * - idとcreatedAtは更新できない
  *
  * @property {string} [title] - 更新するタイトル (任意)
  * @property {boolean} [completed] - 更新する完了状態 (任意)
+ * @property {string | null} [dueAt] - 更新する期限 (任意、nullで期限とタイムゾーンを解除)
+ * @property {string | null} [dueTimezone] - 更新するタイムゾーン (任意)
+ * @property {TodoPriority} [priority] - 更新する優先度 (任意)
+ * @property {string[]} [tags] - 更新するタグ (任意、[]ですべてのタグを外す)
+ * @property {string | null} [parentId] - 新しい親のTodoのID (任意、nullでルートへ移す)
+ * @property {string | null} [recurrence] - 更新する繰り返しの規則 (任意、nullで解除)
  *
  * @example
  * ```typescript
@@ -112,18 +338,55 @@ export interface CreateTodoRequest {
 export interface UpdateTodoRequest {
   title?: string; // 任意、1-500文字、制御文字不可
   completed?: boolean; // 任意、boolean型のみ
+  dueAt?: string | null; // 任意、nullで期限を解除
+  dueTimezone?: string | null; // 任意、IANAタイムゾーン名
+  priority?: TodoPriority; // 任意
+  tags?: string[]; // 任意、タグ全体を置き換える
+  notes?: string; // 任意、空文字列でメモを消去
+  autoComplete?: boolean; // 任意
+  parentId?: string | null; // 任意、nullでルートへ移す
+  recurrence?: string | null; // 任意、nullで繰り返しを解除
+}
+
+/**
+ * Create Checklist Item Request
+ *
+ * チェックリストの項目の追加（POST /todos/:id/items）のリクエストボディ。
+ *
+ * @property {string} text - 項目の内容 (必須、1-500文字、制御文字不可)
+ * @property {boolean} [done] - 完了状態 (任意、デフォルト: false)
+ */
+export interface CreateChecklistItemRequest {
+  text: string;
+  done?: boolean;
+}
+
+/**
+ * Update Checklist Item Request
+ *
+ * チェックリストの項目の更新（PUT /todos/:id/items/:itemId）のリクエストボディ。
+ * 少なくとも1つのフィールドを指定する必要があります。
+ *
+ * @property {string} [text] - 項目の内容 (任意)
+ * @property {boolean} [done] - 完了状態 (任意)
+ */
+export interface UpdateChecklistItemRequest {
+  text?: string;
+  done?: boolean;
 }
 
 /**
  * Todo Response
  *
  * APIレスポンスで返されるTodoデータ。
- * Todo型と同一の構造を持ちます。
+ * Todo型に、チェックリストがある場合はその進捗（progress）を加えた構造を持ちます。
  *
  * @property {string} id - UUID v4形式の一意な識別子
  * @property {string} title - Todoのタイトル
  * @property {boolean} completed - 完了状態
  * @property {string} createdAt - 作成日時 (ISO 8601形式)
+ * @property {ChecklistProgress} [progress] - チェックリストの進捗 (項目がある場合のみ)
+ * @property {string} [archivedAt] - アーカイブした日時 (アーカイブしたTodoのみ)
  *
  * @example
  * ```typescript
@@ -135,7 +398,188 @@ export interface UpdateTodoRequest {
  * };
  * ```
  */
-export type TodoResponse = Todo;
+export type TodoResponse = Todo & {
+  progress?: ChecklistProgress;
+  archivedAt?: string;
+};
+
+/**
+ * Todo Tree
+ *
+ * サブツリーの取得（GET /todos/:id/tree）のレスポンス。
+ * 各Todoが子のTodo（position順）を `children` として持つ入れ子の構造です。
+ *
+ * @property {TodoTree[]} children - 子のTodo (position順、子がない場合は[])
+ */
+export type TodoTree = TodoResponse & {
+  children: TodoTree[];
+};
+
+/**
+ * Delete Children Mode
+ *
+ * 子を持つTodoを削除する場合の子の扱い（DELETE /todos/:id?children=...）。
+ * - reparent: 子を削除するTodoの親に付け替える（デフォルト）
+ * - cascade: 子孫もすべて削除する
+ *
+ * いずれの場合も、削除するTodoはゴミ箱に移されます（cascadeの子孫も同じ日時でゴミ箱に移される）。
+ */
+export type DeleteChildrenMode = 'reparent' | 'cascade';
+
+/**
+ * Restore Position
+ *
+ * ゴミ箱から戻す場合の位置（POST /trash/:id/restore?position=...）。
+ * - original: ゴミ箱に移す前の位置（デフォルト）
+ * - last: 兄弟の末尾
+ */
+export type RestorePosition = 'original' | 'last';
+
+/**
+ * Todo Sort Field
+ *
+ * 一覧（GET /todos）の並べ替えに使用できるフィールド。
+ * positionは兄弟の中での位置のため、positionで並べ替える場合は全Todoの並び順
+ * （ストレージの getAll() の順）に従います。親で絞り込んだ場合はpositionの順と一致します。
+ * priorityで並べ替える場合、同じ優先度のTodoは同じ並び順で並びます。
+ */
+export type TodoSortField = 'position' | 'createdAt' | 'title' | 'priority';
+
+/**
+ * Todo Field
+ *
+ * 一覧（GET /todos）の `fields` パラメータで選択できるフィールド。
+ */
+export type TodoField = keyof TodoResponse;
+
+/**
+ * Sort Order
+ */
+export type SortOrder = 'asc' | 'desc';
+
+/**
+ * Tag Match
+ *
+ * 複数のタグで絞り込む場合の一致条件。
+ * - any: いずれかのタグを持つTodo
+ * - all: すべてのタグを持つTodo
+ */
+export type TagMatch = 'any' | 'all';
+
+/**
+ * Todo Cursor
+ *
+ * ページの続きを取得するためのカーソル（キーセット方式）。
+ * 直前のページの最後のTodoの並べ替えキーとIDを保持し、それより後ろのTodoから次のページを返します。
+ * クライアントには不透明な文字列（utils/query.ts の encodeCursor()）として渡されます。
+ *
+ * @property {TodoSortField} sort - カーソル発行時の並べ替えフィールド
+ * @property {SortOrder} order - カーソル発行時の並べ替え順
+ * @property {string | number} value - 最後のTodoの並べ替えキーの値
+ * @property {string} id - 最後のTodoのID（並べ替えキーが同じ場合の順序に使用）
+ */
+export interface TodoCursor {
+  sort: TodoSortField;
+  order: SortOrder;
+  value: string | number;
+  id: string;
+}
+
+/**
+ * Todo List Query
+ *
+ * 一覧（GET /todos）のクエリパラメータを検証・変換した結果。
+ * pageが指定された場合のみ、レスポンスをページ形式（TodoPage）で返します。
+ *
+ * @property {boolean} [completed] - 完了状態で絞り込む（任意）
+ * @property {string} [q] - タイトルに含まれる文字列で絞り込む（大文字小文字を区別しない、任意）
+ * @property {number} [dueBefore] - 期限がこの時刻（UNIX時刻、ミリ秒）以前のTodoに絞り込む（任意）
+ * @property {number} [dueAfter] - 期限がこの時刻（UNIX時刻、ミリ秒）より後のTodoに絞り込む（任意）
+ * @property {boolean} [overdue] - 期限切れかどうかで絞り込む（任意）
+ * @property {string[]} [tags] - 正規化済みのタグで絞り込む（任意）
+ * @property {TagMatch} [tagMatch] - tagsの一致条件（tagsを指定した場合のみ、デフォルト: any）
+ * @property {string | null} [parentId] - 親のTodoで絞り込む（nullの場合はルートのTodo、任意）
+ * @property {boolean} [archived] - trueの場合はアーカイブしたTodoを対象にする（任意、デフォルト: false）
+ * @property {TodoSortField} sort - 並べ替えフィールド（デフォルト: position）
+ * @property {SortOrder} order - 並べ替え順（デフォルト: asc）
+ * @property {TodoField[]} [fields] - レスポンスに含めるフィールド（任意、未指定の場合はすべて）
+ * @property {object} [page] - ページネーション（limitまたはcursorが指定された場合）
+ *
+ * @example
+ * ```typescript
+ * // GET /todos?completed=false&sort=createdAt&order=desc&limit=20
+ * const query: TodoListQuery = {
+ *   completed: false,
+ *   sort: 'createdAt',
+ *   order: 'desc',
+ *   page: { limit: 20 }
+ * };
+ * ```
+ */
+export interface TodoListQuery {
+  completed?: boolean;
+  q?: string;
+  dueBefore?: number;
+  dueAfter?: number;
+  overdue?: boolean;
+  tags?: string[];
+  tagMatch?: TagMatch;
+  parentId?: string | null;
+  archived?: boolean;
+  sort: TodoSortField;
+  order: SortOrder;
+  fields?: TodoField[];
+  page?: {
+    limit: number;
+    after?: TodoCursor;
+  };
+}
+
+/**
+ * Todo Page
+ *
+ * ページネーションが要求された場合の一覧レスポンス。
+ * `fields` が指定された場合、itemsは選択したフィールドのみを持ちます。
+ *
+ * @property {Todo[]} items - このページのTodo配列
+ * @property {string | null} nextCursor - 次のページのカーソル（最後のページの場合はnull）
+ * @property {number} total - 絞り込み条件に一致するTodoの総数
+ *
+ * @example
+ * ```typescript
+ * const page: TodoPage = {
+ *   items: [todo1, todo2],
+ *   nextCursor: 'eyJzb3J0IjoicG9zaXRpb24i...',
+ *   total: 5
+ * };
+ * ```
+ */
+export interface TodoPage<T extends Partial<TodoResponse> = Todo> {
+  items: T[];
+  nextCursor: string | null;
+  total: number;
+}
+
+/**
+ * Tag Count
+ *
+ * タグ一覧（GET /tags）の要素。
+ *
+ * @property {string} tag - 正規化済みのタグ
+ * @property {number} count - そのタグを持つTodoの数
+ *
+ * @example
+ * ```typescript
+ * const tags: TagCount[] = [
+ *   { tag: 'work', count: 3 },
+ *   { tag: 'personal', count: 1 }
+ * ];
+ * ```
+ */
+export interface TagCount {
+  tag: string;
+  count: number;
+}
 
 /**
  * ビジネスルール定数
@@ -154,10 +598,120 @@ export const TODO_CONSTRAINTS = {
   MAX_TITLE_LENGTH: 500,
 
   /**
-   * 最大Todo項目数 (KV List API制限1000件に対して余裕を確保)
+   * 最大Todo項目数のデフォルト値
+   * デプロイごとに環境変数 MAX_TODOS で変更できる（Env.MAX_TODOS）
    */
   MAX_TODO_COUNT: 500,
 
+  /**
+   * 新規作成時のバージョン
+   */
+  INITIAL_VERSION: 1,
+
+  /**
+   * 一覧の並べ替えに使用できるフィールド
+   */
+  SORT_FIELDS: ['position', 'createdAt', 'title', 'priority'],
+
+  /**
+   * 優先度（低い順）
+   */
+  PRIORITIES: ['none', 'low', 'medium', 'high', 'urgent'],
+
+  /**
+   * 作成時の優先度のデフォルト値
+   */
+  DEFAULT_PRIORITY: 'none',
+
+  /**
+   * タグの最大文字数（前後の空白を除く）
+   */
+  MAX_TAG_LENGTH: 50,
+
+  /**
+   * 1つのTodoに付けられるタグの最大数
+   */
+  MAX_TAGS: 20,
+
+  /**
+   * メモの最大文字数
+   */
+  MAX_NOTES_LENGTH: 10000,
+
+  /**
+   * 一覧の `fields` パラメータで選択できるフィールド
+   */
+  FIELDS: [
+    'id',
+    'title',
+    'completed',
+    'createdAt',
+    'position',
+    'version',
+    'dueAt',
+    'dueTimezone',
+    'priority',
+    'tags',
+    'notes',
+    'items',
+    'autoComplete',
+    'parentId',
+    'recurrence',
+    'progress',
+    'archivedAt',
+  ],
+
+  /**
+   * チェックリストの項目の最大文字数（タイトルと同じ）
+   */
+  MAX_ITEM_TEXT_LENGTH: 500,
+
+  /**
+   * 1つのTodoに追加できるチェックリストの項目の最大数
+   */
+  MAX_ITEMS: 100,
+
+  /**
+   * 階層の最大の深さ（ルートのTodoを1とする）
+   */
+  MAX_DEPTH: 5,
+
+  /**
+   * 繰り返しの単位（RRULEのFREQ）
+   */
+  RECURRENCE_FREQUENCIES: ['DAILY', 'WEEKLY', 'MONTHLY'],
+
+  /**
+   * 曜日（RRULEのBYDAY、月曜日から）
+   */
+  WEEKDAYS: ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'],
+
+  /**
+   * 繰り返しの間隔（RRULEのINTERVAL）の最大値
+   */
+  MAX_RECURRENCE_INTERVAL: 365,
+
+  /**
+   * 繰り返しの回数（RRULEのCOUNT）の最大値
+   */
+  MAX_RECURRENCE_COUNT: 1000,
+
+  /**
+   * ゴミ箱の保持日数のデフォルト値
+   * デプロイごとに環境変数 TRASH_RETENTION_DAYS で変更できる（Env.TRASH_RETENTION_DAYS）
+   */
+  TRASH_RETENTION_DAYS: 30,
+
+  /**
+   * cursorのみが指定された場合の1ページあたりの件数
+   */
+  DEFAULT_PAGE_LIMIT: 50,
+
+  /**
+   * 1ページあたりの最大件数
+   */
+  MAX_PAGE_LIMIT: 100,
+
   /**
    * 制御文字の正規表現パターン (要件12.2)
    * \x00-\x1F: C0制御文字 (NULL, タブ、改行等)
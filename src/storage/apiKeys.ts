@@ -0,0 +1,180 @@
+/**
+ * API Key Storage
+ *
+ * このファイルは `/admin/keys` で発行したAPI Key（models/apiKey.ts）をWorkers KVに保存する実装を提供します。
+ * STORAGE_BACKENDに関わらず、API Keyは常にTODO_KVに保存します。
+ *
+ * データ構造:
+ * - `apikeys:{SHA-256ハッシュ}`: API KeyのメタデータのJSON（平文のAPI Keyは保存しない）
+ * - KVのメタデータ `{ id, tenantId }`: 一覧・削除でテナントのAPI Keyを値を読まずに絞り込むために使用
+ *
+ * 認証時は提供されたAPI Keyのハッシュをキーとして検索するため、テナントの名前空間（`t:{tenantId}:`）は付けません。
+ *
+ * 参照:
+ * - 要件10: 認証・認可 (requirements.md)
+ */
+
+import type { ApiKeyRecord } from '../models/apiKey';
+
+/**
+ * KVのキーに付けるメタデータ
+ */
+interface KVApiKeyMetadata {
+  id: string;
+  tenantId: string;
+}
+
+/**
+ * KV API Key Storage
+ *
+ * @example
+ * ```typescript
+ * const keys = new KVApiKeyStorage(env.TODO_KV);
+ * const record = await keys.findByHash(await hashApiKey(apiKey));
+ * ```
+ */
+export class KVApiKeyStorage {
+  /**
+   * Workers KV Namespace instance
+   * @private
+   */
+  private kv: KVNamespace;
+
+  /**
+   * Key prefix for API keys
+   * @private
+   */
+  private readonly KEY_PREFIX = 'apikeys:';
+
+  /**
+   * Constructor
+   *
+   * @param kv - Workers KV Namespace binding
+   */
+  constructor(kv: KVNamespace) {
+    this.kv = kv;
+  }
+
+  /**
+   * Find an API key by its hash
+   *
+   * @param hash - API KeyのSHA-256ハッシュ（utils/apiKeys.tsのhashApiKey()）
+   * @returns API Keyのメタデータ、または存在しない場合はnull
+   */
+  async findByHash(hash: string): Promise<ApiKeyRecord | null> {
+    return this.kv.get<ApiKeyRecord>(`${this.KEY_PREFIX}${hash}`, 'json');
+  }
+
+  /**
+   * Save an API key
+   *
+   * 発行時と、lastUsedAtの更新時に使用します。
+   *
+   * @param hash - API KeyのSHA-256ハッシュ
+   * @param record - API Keyのメタデータ
+   * @returns 保存したメタデータ
+   */
+  async put(hash: string, record: ApiKeyRecord): Promise<ApiKeyRecord> {
+    const metadata: KVApiKeyMetadata = { id: record.id, tenantId: record.tenantId };
+    await this.kv.put(`${this.KEY_PREFIX}${hash}`, JSON.stringify(record), { metadata });
+    return record;
+  }
+
+  /**
+   * Get the API keys of a tenant
+   *
+   * @param tenantId - テナントのID
+   * @returns テナントのAPI Keyのメタデータ（createdAtの昇順）
+   */
+  async list(tenantId: string): Promise<ApiKeyRecord[]> {
+    const keys = await this.listKeys(tenantId);
+    const records = await Promise.all(
+      keys.map(({ name }) => this.kv.get<ApiKeyRecord>(name, 'json'))
+    );
+    return records
+      .filter((record): record is ApiKeyRecord => record !== null)
+      .sort((a, b) => (a.createdAt < b.createdAt ? -1 : a.createdAt > b.createdAt ? 1 : 0));
+  }
+
+  /**
+   * Find an API key of a tenant by its ID
+   *
+   * @param tenantId - テナントのID
+   * @param id - API KeyのID
+   * @returns API Keyのハッシュとメタデータ、またはテナントに該当するAPI Keyが存在しない場合はnull
+   */
+  async findById(
+    tenantId: string,
+    id: string
+  ): Promise<{ hash: string; record: ApiKeyRecord } | null> {
+    const key = (await this.listKeys(tenantId)).find(({ metadata }) => metadata?.id === id);
+    const record = key ? await this.kv.get<ApiKeyRecord>(key.name, 'json') : null;
+    if (!key || !record) {
+      return null;
+    }
+    return { hash: key.name.slice(this.KEY_PREFIX.length), record };
+  }
+
+  /**
+   * Delete an API key of a tenant
+   *
+   * 削除したAPI Keyは以降の認証に使用できません。
+   *
+   * @param tenantId - テナントのID
+   * @param id - API KeyのID
+   * @returns 削除した場合はtrue、テナントに該当するAPI Keyが存在しない場合はfalse
+   */
+  async delete(tenantId: string, id: string): Promise<boolean> {
+    const key = (await this.listKeys(tenantId)).find(({ metadata }) => metadata?.id === id);
+    if (!key) {
+      return false;
+    }
+    await this.kv.delete(key.name);
+    return true;
+  }
+
+  /**
+   * Get the tenants that have issued API keys
+   *
+   * 定期実行のジョブ（handlers/scheduled.ts）が、KVで発行したAPI Keyだけを持つテナントを求めるために使用します。
+   *
+   * @returns API Keyを持つテナントのID（重複なし）
+   */
+  async tenantIds(): Promise<string[]> {
+    const keys = await this.listAllKeys();
+    return [...new Set(keys.flatMap(({ metadata }) => (metadata ? [metadata.tenantId] : [])))];
+  }
+
+  /**
+   * List the KV keys of a tenant's API keys
+   *
+   * @param tenantId - テナントのID
+   * @returns テナントのAPI Keyのキーとメタデータ
+   * @private
+   */
+  private async listKeys(tenantId: string): Promise<KVNamespaceListKey<KVApiKeyMetadata>[]> {
+    return (await this.listAllKeys()).filter(({ metadata }) => metadata?.tenantId === tenantId);
+  }
+
+  /**
+   * List the KV keys of all API keys
+   *
+   * KV List APIは1回の呼び出しで最大1000件のキーを返すため、
+   * list_completeになるまでcursorを使って続きを取得します。
+   *
+   * @returns すべてのAPI Keyのキーとメタデータ
+   * @private
+   */
+  private async listAllKeys(): Promise<KVNamespaceListKey<KVApiKeyMetadata>[]> {
+    const keys: KVNamespaceListKey<KVApiKeyMetadata>[] = [];
+    let cursor: string | undefined;
+    for (;;) {
+      const page = await this.kv.list<KVApiKeyMetadata>({ prefix: this.KEY_PREFIX, cursor });
+      keys.push(...page.keys);
+      if (page.list_complete) {
+        return keys;
+      }
+      cursor = page.cursor;
+    }
+  }
+}
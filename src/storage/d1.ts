@@ -0,0 +1,1018 @@
+/**
+ * D1 Storage Implementation
+ *
+ * このファイルはCloudflare D1（SQLite）を使用したストレージ実装を提供します。
+ * IStorageインターフェースを実装し、`todos` テーブルでTodo項目を永続化します。
+ * スキーマは `migrations/` 配下のバージョン付きSQLマイグレーションで管理します。
+ *
+ * 参照:
+ * - 要件5: データ永続化 (requirements.md)
+ * - Storage Layer セクション (design.md)
+ * - task-reordering要件1.1-1.3 (task-reordering/requirements.md)
+ */
+
+import type { IStorage, IListStorage } from './interface';
+import { DEFAULT_LIST_ID } from '../models/list';
+import { DEFAULT_TENANT_ID } from '../models/tenant';
+import type { TodoList } from '../models/list';
+import type {
+  ChecklistItem,
+  Todo,
+  TodoPriority,
+  StoredTodo,
+  StoredTrashedTodo,
+  TrashedTodo,
+  RestorePosition,
+  ArchivedTodo,
+} from '../models/todo';
+import {
+  reorderWithinParent,
+  applyOrder,
+  assertPositionInRange,
+  siblingsOf,
+} from '../utils/ordering';
+import { rankAfter, rankForMove, rerank, sortByRank, toTodos } from '../utils/rank';
+import type { Ranked } from '../utils/rank';
+import { assertVersionMatches } from '../utils/etag';
+import { PreconditionFailedError } from '../models/error';
+import { normalizeParent } from '../utils/tree';
+import { restoredRank, toStoredTrashedTodo, toTrashedTodo } from '../utils/trash';
+import { movedSubtree, sortLists } from '../utils/lists';
+
+/**
+ * Todo Row
+ *
+ * `todos` テーブルの1行を表す型。
+ * カラム名はSQLの慣例に従いsnake_case、真偽値はINTEGER（0/1）で保存されます。
+ */
+interface TodoRow {
+  id: string;
+  title: string;
+  completed: number;
+  created_at: string;
+  rank: string;
+  version: number;
+  due_at: string | null;
+  due_timezone: string | null;
+  priority: TodoPriority | null;
+  tags: string | null;
+  notes: string | null;
+  items: string | null;
+  auto_complete: number | null;
+  parent_id: string | null;
+  recurrence: string | null;
+}
+
+/**
+ * Trash Row
+ *
+ * `trash` テーブルの1行を表す型。todoはゴミ箱に移す前の内容（StoredTrashedTodoのJSON。deletedAtはdeleted_atの列を使用）です。
+ */
+interface TrashRow {
+  id: string;
+  todo: string;
+  deleted_at: string;
+}
+
+/**
+ * Archived Todo Row
+ *
+ * `archived_todos` テーブルの1行を表す型。todoはアーカイブする前の内容（StoredTodoのJSON）です。
+ */
+interface ArchivedTodoRow {
+  id: string;
+  todo: string;
+  archived_at: string;
+}
+
+/**
+ * Todo Row with computed position
+ *
+ * 兄弟（同じ親を持つ行）の中でのランク順での位置（position）を読み込み時に算出した行。
+ */
+interface PositionedTodoRow extends TodoRow {
+  position: number;
+}
+
+/**
+ * 更新可能なTodoフィールドとカラム名の対応表
+ *
+ * update()で動的にSET句を組み立てる際に使用します。
+ * id と createdAt は不変条件により、position は並び順をランクで管理するため含めません。
+ */
+const UPDATABLE_COLUMNS = {
+  title: 'title',
+  completed: 'completed',
+  dueAt: 'due_at',
+  dueTimezone: 'due_timezone',
+  priority: 'priority',
+  tags: 'tags',
+  notes: 'notes',
+  items: 'items',
+  autoComplete: 'auto_complete',
+  parentId: 'parent_id',
+  recurrence: 'recurrence',
+} as const satisfies Partial<Record<keyof Todo, string>>;
+
+/**
+ * 行の兄弟の中でのランク順での位置を算出するSQL式（`todos` テーブルの行を参照する相関サブクエリ）
+ */
+const POSITION_EXPRESSION = `(SELECT COUNT(*) FROM todos AS other
+  WHERE other.tenant_id = todos.tenant_id AND other.list_id = todos.list_id
+    AND other.parent_id IS todos.parent_id
+    AND (other.rank < todos.rank OR (other.rank = todos.rank AND other.id < todos.id))) AS position`;
+
+/**
+ * リストの全件をランク順に取得するSQL（positionは親ごとのウィンドウ関数で算出。tenant_idとlist_idをバインドする）
+ */
+const SELECT_ALL_SQL = `SELECT *, ROW_NUMBER() OVER (PARTITION BY parent_id ORDER BY rank, id) - 1 AS position
+  FROM todos WHERE tenant_id = ? AND list_id = ? ORDER BY rank, id`;
+
+/**
+ * 一覧の最終更新日時を記録するSQL（`todo_meta` テーブルへのUPSERT）
+ */
+const TOUCH_SQL = `INSERT INTO todo_meta (key, value) VALUES (?, ?)
+  ON CONFLICT (key) DO UPDATE SET value = excluded.value`;
+
+/**
+ * Convert a database row to a Todo
+ *
+ * @param row - `todos` テーブルの行（算出済みのpositionを含む）
+ * @returns Todo項目
+ */
+function rowToTodo(row: PositionedTodoRow): Todo {
+  const todo: Todo = {
+    id: row.id,
+    title: row.title,
+    completed: row.completed === 1,
+    createdAt: row.created_at,
+    position: row.position,
+    version: row.version,
+  };
+  // 未設定のフィールドは持たない（他のストレージと同じ形式）
+  if (row.priority !== null) {
+    todo.priority = row.priority;
+  }
+  if (row.tags !== null) {
+    todo.tags = JSON.parse(row.tags) as string[];
+  }
+  if (row.notes !== null) {
+    todo.notes = row.notes;
+  }
+  if (row.items !== null) {
+    todo.items = JSON.parse(row.items) as ChecklistItem[];
+  }
+  if (row.auto_complete !== null) {
+    todo.autoComplete = row.auto_complete === 1;
+  }
+  if (row.parent_id !== null) {
+    todo.parentId = row.parent_id;
+  }
+  if (row.recurrence !== null) {
+    todo.recurrence = row.recurrence;
+  }
+  if (row.due_at !== null) {
+    todo.dueAt = row.due_at;
+    if (row.due_timezone !== null) {
+      todo.dueTimezone = row.due_timezone;
+    }
+  }
+  return todo;
+}
+
+/**
+ * Convert a database row to a stored Todo
+ *
+ * @param row - `todos` テーブルの行
+ * @returns ランクを持つ保存済みTodo（ゴミ箱に保存する形式）
+ */
+function rowToStoredTodo(row: TodoRow): StoredTodo {
+  const { position, ...todo } = rowToTodo({ ...row, position: 0 });
+  return { ...todo, rank: row.rank };
+}
+
+/**
+ * Convert a Todo field value to a bindable SQL value
+ *
+ * @param value - Todoフィールドの値
+ * @returns D1にバインド可能な値（booleanは0/1、配列はJSON文字列に変換、nullはそのまま）
+ */
+function toSqlValue(value: NonNullable<Todo[keyof Todo]> | null): string | number | null {
+  if (Array.isArray(value)) {
+    return JSON.stringify(value);
+  }
+  return typeof value === 'boolean' ? (value ? 1 : 0) : value;
+}
+
+/**
+ * Build a WHERE clause matching a row by ID, tenant, list and optional version
+ *
+ * @param id - Todo項目のID
+ * @param scope - テナントのIDとリストのID
+ * @param expectedVersion - 期待するバージョン（undefinedの場合は比較しない）
+ * @returns WHERE句とバインドする値
+ */
+function whereIdAndVersion(
+  id: string,
+  scope: readonly [string, string],
+  expectedVersion?: number
+): { clause: string; params: (string | number)[] } {
+  return expectedVersion === undefined
+    ? { clause: 'id = ? AND tenant_id = ? AND list_id = ?', params: [id, ...scope] }
+    : {
+        clause: 'id = ? AND tenant_id = ? AND list_id = ? AND version = ?',
+        params: [id, ...scope, expectedVersion],
+      };
+}
+
+/**
+ * D1 Storage
+ *
+ * Cloudflare D1を使用したストレージ実装。
+ * Workers KVと異なり強い整合性を持ち、複数行の更新を `batch()` により
+ * 単一トランザクションで実行できます。
+ *
+ * **テーブル設計** (`migrations/`):
+ * - `todos(id, title, completed, created_at, rank, version)`
+ * - `rank` は並び順を表すランク文字列（utils/rank.ts）。positionは保存せず、
+ *   ランク順での位置を読み込み時に算出する
+ * - `(rank, id)` にインデックスを張り、並び順での取得を高速化
+ * - `version` の比較は UPDATE / DELETE の WHERE 句で行い、書き込みとアトミックに判定する
+ * - `todo_meta(key, value)` の `last_modified` に一覧の最終更新日時を保持し、
+ *   各書き込みと同じbatch（トランザクション）で更新する
+ * - `trash(id, todo, deleted_at)` にゴミ箱のTodoを保持する（todoはランク・deletedWithを含むStoredTrashedTodoのJSON）。
+ *   ゴミ箱への移動・戻しは `todos` との間で行を移すbatch（トランザクション）で行う
+ * - `archived_todos(id, todo, archived_at)` にアーカイブしたTodoを同じ形式で保持する
+ * - `todos`・`trash`・`archived_todos` の `tenant_id`・`list_id` で行が属するテナント・リストを区別する
+ *   （テナント・リストの導入前の行はいずれも `default`）。最終更新日時の `todo_meta` のキーは、
+ *   デフォルトのテナントのデフォルトのリストが `last_modified`、デフォルトのテナントの他のリストが
+ *   `last_modified:{listId}`、他のテナントが `last_modified:t:{tenantId}:{listId}`
+ *
+ * **KVStorageとの違い**:
+ * - 並び順の一括設定は1回のbatch（トランザクション）で完結する
+ * - 書き込み直後の読み込みで最新の値が返される（強い整合性）
+ * - 件数によるList API制限がない
+ *
+ * @example
+ * ```typescript
+ * const storage = new D1Storage(env.TODO_DB);
+ *
+ * const todo = await storage.create({
+ *   id: crypto.randomUUID(),
+ *   title: 'Buy groceries',
+ *   completed: false,
+ *   createdAt: new Date().toISOString(),
+ *   position: 0,
+ *   version: 1,
+ * });
+ *
+ * const todos = await storage.getAll();
+ * ```
+ */
+export class D1Storage implements IStorage {
+  /**
+   * D1 Database instance
+   * @private
+   */
+  private db: D1Database;
+
+  /**
+   * Tenant ID and list ID this instance reads and writes (bound to `tenant_id = ? AND list_id = ?`)
+   * @private
+   */
+  private readonly scope: readonly [string, string];
+
+  /**
+   * `todo_meta` key for the last modified time of the list
+   * @private
+   */
+  private readonly lastModifiedKey: string;
+
+  /**
+   * Constructor
+   *
+   * @param db - D1 Database binding
+   * @param listId - TodoリストのID（デフォルト: デフォルトのリスト）
+   * @param tenantId - テナントのID（デフォルト: デフォルトのテナント）
+   *
+   * @example
+   * ```typescript
+   * // In Hono handler
+   * const storage = new D1Storage(c.env.TODO_DB);
+   * ```
+   */
+  constructor(
+    db: D1Database,
+    listId: string = DEFAULT_LIST_ID,
+    tenantId: string = DEFAULT_TENANT_ID
+  ) {
+    this.db = db;
+    this.scope = [tenantId, listId];
+    this.lastModifiedKey =
+      tenantId !== DEFAULT_TENANT_ID
+        ? `last_modified:t:${tenantId}:${listId}`
+        : listId === DEFAULT_LIST_ID
+          ? 'last_modified'
+          : `last_modified:${listId}`;
+  }
+
+  /**
+   * Create a new Todo item
+   *
+   * 末尾のランクより後ろのランクを割り当てて `todos` テーブルに挿入します。
+   * 同時に作成された場合は同じランクになる可能性がありますが、idで順序が決まり、
+   * 次の並び替え時に再配置されます。
+   *
+   * @param todo - 作成するTodo項目
+   * @returns 作成されたTodo項目（兄弟の中で末尾のposition）
+   */
+  async create(todo: Todo): Promise<Todo> {
+    const last = await this.db
+      .prepare(
+        `SELECT MAX(rank) AS rank, COUNT(CASE WHEN parent_id IS ? THEN 1 END) AS total
+          FROM todos WHERE tenant_id = ? AND list_id = ?`
+      )
+      .bind(todo.parentId ?? null, ...this.scope)
+      .first<{ rank: string | null; total: number }>();
+
+    const { position, ...fields } = todo;
+    await this.db.batch([
+      this.insert({ ...fields, rank: rankAfter(last?.rank ?? null) }),
+      this.touch(),
+    ]);
+    return normalizeParent({ ...todo, position: last?.total ?? 0 });
+  }
+
+  /**
+   * Get all Todo items
+   *
+   * すべてのTodo項目をランク順（同順位はID順）で取得します。
+   *
+   * @returns すべてのTodo項目の配列（position順にソート済み）
+   */
+  async getAll(): Promise<Todo[]> {
+    const { results } = await this.db
+      .prepare(SELECT_ALL_SQL)
+      .bind(...this.scope)
+      .all<PositionedTodoRow>();
+    return results.map(rowToTodo);
+  }
+
+  /**
+   * Get a Todo item by ID
+   *
+   * @param id - Todo項目のID（UUID v4形式）
+   * @returns 該当するTodo項目、または存在しない場合はnull
+   */
+  async getById(id: string): Promise<Todo | null> {
+    const row = await this.db
+      .prepare(
+        `SELECT *, ${POSITION_EXPRESSION} FROM todos WHERE id = ? AND tenant_id = ? AND list_id = ?`
+      )
+      .bind(id, ...this.scope)
+      .first<PositionedTodoRow>();
+    return row ? rowToTodo(row) : null;
+  }
+
+  /**
+   * Update a Todo item
+   *
+   * 指定されたフィールドのみをUPDATEし、`RETURNING` で更新後の行を取得します。
+   * expectedVersionが指定された場合はWHERE句でバージョンを比較します。
+   *
+   * **不変条件**:
+   * - `id` と `createdAt` は変更されません（SET句に含めない）
+   * - 並び順は move() / setOrder() でのみ変更されます（positionは無視）
+   * - `version` は1増加します
+   * - 指定されていないフィールドは元の値を保持します
+   *
+   * @param id - Todo項目のID（UUID v4形式）
+   * @param updates - 更新するフィールド（部分的なTodoオブジェクト）
+   * @param expectedVersion - 期待する現在のバージョン（任意）
+   * @returns 更新されたTodo項目、または存在しない場合はnull
+   * @throws {PreconditionFailedError} expectedVersionが現在のバージョンと一致しない場合
+   */
+  async update(id: string, updates: Partial<Todo>, expectedVersion?: number): Promise<Todo | null> {
+    const assignments: string[] = [];
+    const values: (string | number | null)[] = [];
+
+    for (const [field, column] of Object.entries(UPDATABLE_COLUMNS)) {
+      const value = updates[field as keyof typeof UPDATABLE_COLUMNS];
+      if (value !== undefined) {
+        assignments.push(`${column} = ?`);
+        values.push(toSqlValue(value));
+      }
+    }
+
+    // 更新対象のフィールドがない場合は現在の値を返す
+    if (assignments.length === 0) {
+      const current = await this.getById(id);
+      if (current) {
+        assertVersionMatches(current.version, expectedVersion);
+      }
+      return current;
+    }
+
+    const where = whereIdAndVersion(id, this.scope, expectedVersion);
+    const [result] = await this.db.batch<PositionedTodoRow>([
+      this.db
+        .prepare(
+          `UPDATE todos SET ${assignments.join(', ')}, version = version + 1
+            WHERE ${where.clause} RETURNING *, ${POSITION_EXPRESSION}`
+        )
+        .bind(...values, ...where.params),
+      this.touch(),
+    ]);
+    const row = result?.results[0];
+
+    if (!row) {
+      await this.assertExistingVersion(id, expectedVersion);
+      return null;
+    }
+    return rowToTodo(row);
+  }
+
+  /**
+   * Delete a Todo item
+   *
+   * 他の行のランクは変わらないため、削除対象の1行のみを削除します。
+   * 後ろのタスクのpositionは読み込み時に詰められます（task-reordering要件1.3）。
+   *
+   * @param id - Todo項目のID（UUID v4形式）
+   * @param expectedVersion - 期待する現在のバージョン（任意）
+   * @returns 削除に成功した場合はtrue、該当IDが存在しない場合はfalse
+   * @throws {PreconditionFailedError} expectedVersionが現在のバージョンと一致しない場合
+   */
+  async delete(id: string, expectedVersion?: number): Promise<boolean> {
+    const where = whereIdAndVersion(id, this.scope, expectedVersion);
+    const [result] = await this.db.batch([
+      this.db.prepare(`DELETE FROM todos WHERE ${where.clause}`).bind(...where.params),
+      this.touch(),
+    ]);
+
+    if (!result || result.meta.changes === 0) {
+      await this.assertExistingVersion(id, expectedVersion);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Move a Todo item to the trash
+   *
+   * `trash` テーブルへの挿入と `todos` テーブルからの削除を1回のbatch（トランザクション）で行います。
+   * 読み込んだ時点のバージョンを両方の文で比較するため、読み込み後に更新された場合は移しません。
+   *
+   * @param id - Todo項目のID（UUID v4形式）
+   * @param deletedAt - ゴミ箱に移した日時（ISO 8601形式）
+   * @param expectedVersion - 期待する現在のバージョン（任意）
+   * @returns ゴミ箱に移したTodo、または該当IDが存在しない場合はnull
+   * @throws {PreconditionFailedError} expectedVersionが現在のバージョンと一致しない場合
+   */
+  async trash(
+    id: string,
+    deletedAt: string,
+    expectedVersion?: number,
+    deletedWith?: string
+  ): Promise<TrashedTodo | null> {
+    const row = await this.db
+      .prepare('SELECT * FROM todos WHERE id = ? AND tenant_id = ? AND list_id = ?')
+      .bind(id, ...this.scope)
+      .first<TodoRow>();
+    if (!row) {
+      return null;
+    }
+    assertVersionMatches(row.version, expectedVersion);
+
+    const trashed = toStoredTrashedTodo(rowToStoredTodo(row), deletedAt, deletedWith);
+    const [, deleted] = await this.db.batch([
+      this.db
+        .prepare(
+          `INSERT INTO trash (id, tenant_id, list_id, todo, deleted_at)
+            SELECT ?, ?, ?, ?, ? WHERE EXISTS (SELECT 1 FROM todos WHERE id = ? AND version = ?)`
+        )
+        .bind(id, ...this.scope, JSON.stringify(trashed), deletedAt, id, row.version),
+      this.db.prepare('DELETE FROM todos WHERE id = ? AND version = ?').bind(id, row.version),
+      this.touch(),
+    ]);
+
+    if (!deleted || deleted.meta.changes === 0) {
+      await this.assertExistingVersion(id, expectedVersion);
+      return null;
+    }
+    return toTrashedTodo(trashed);
+  }
+
+  /**
+   * Get all trashed Todo items
+   *
+   * @returns ゴミ箱のすべてのTodo（deletedAtの降順）
+   */
+  async getTrash(): Promise<TrashedTodo[]> {
+    const { results } = await this.db
+      .prepare(
+        'SELECT * FROM trash WHERE tenant_id = ? AND list_id = ? ORDER BY deleted_at DESC, id'
+      )
+      .bind(...this.scope)
+      .all<TrashRow>();
+    return results.map((row) =>
+      toTrashedTodo({ ...(JSON.parse(row.todo) as StoredTrashedTodo), deletedAt: row.deleted_at })
+    );
+  }
+
+  /**
+   * Restore a Todo item from the trash
+   *
+   * `todos` テーブルへの挿入と `trash` テーブルからの削除を1回のbatch（トランザクション）で行います。
+   *
+   * @param id - ゴミ箱のTodoのID（UUID v4形式）
+   * @param parentId - 戻した後の親のID（nullの場合はルート）
+   * @param position - 戻す位置（original: 移す前のランク / last: 末尾）
+   * @returns 戻したTodo、またはゴミ箱に該当IDが存在しない場合はnull
+   */
+  async restore(
+    id: string,
+    parentId: string | null,
+    position: RestorePosition
+  ): Promise<Todo | null> {
+    const row = await this.db
+      .prepare('SELECT * FROM trash WHERE id = ? AND tenant_id = ? AND list_id = ?')
+      .bind(id, ...this.scope)
+      .first<TrashRow>();
+    if (!row) {
+      return null;
+    }
+    const last = await this.db
+      .prepare('SELECT MAX(rank) AS rank FROM todos WHERE tenant_id = ? AND list_id = ?')
+      .bind(...this.scope)
+      .first<{ rank: string | null }>();
+
+    const trashed = JSON.parse(row.todo) as StoredTrashedTodo;
+    await this.db.batch([
+      this.insert({
+        ...trashed,
+        parentId: parentId ?? undefined,
+        rank: restoredRank(trashed, position, last?.rank ?? null),
+      }),
+      this.db.prepare('DELETE FROM trash WHERE id = ?').bind(id),
+      this.touch(),
+    ]);
+    return this.getById(id);
+  }
+
+  /**
+   * Permanently delete a trashed Todo item
+   *
+   * @param id - ゴミ箱のTodoのID（UUID v4形式）
+   * @returns 削除に成功した場合はtrue、ゴミ箱に該当IDが存在しない場合はfalse
+   */
+  async purge(id: string): Promise<boolean> {
+    const result = await this.db
+      .prepare('DELETE FROM trash WHERE id = ? AND tenant_id = ? AND list_id = ?')
+      .bind(id, ...this.scope)
+      .run();
+    return result.meta.changes > 0;
+  }
+
+  /**
+   * Delete every item of the list
+   *
+   * リストの行と最終更新日時を1回のbatch（トランザクション）で削除します。
+   */
+  async clear(): Promise<void> {
+    await this.db.batch([
+      ...['todos', 'trash', 'archived_todos'].map((table) =>
+        this.db
+          .prepare(`DELETE FROM ${table} WHERE tenant_id = ? AND list_id = ?`)
+          .bind(...this.scope)
+      ),
+      this.db.prepare('DELETE FROM todo_meta WHERE key = ?').bind(this.lastModifiedKey),
+    ]);
+  }
+
+  /**
+   * Archive Todo items
+   *
+   * `archived_todos` テーブルへの挿入と `todos` テーブルからの削除を1回のbatch（トランザクション）で行います。
+   * 読み込んだ時点のバージョンを両方の文で比較するため、読み込み後に更新されたTodoは移しません。
+   * D1のバインド変数の上限を避けるため、IN句を使わずに1件ずつ文を発行します。
+   *
+   * @param ids - アーカイブするTodo項目のID配列
+   * @param archivedAt - アーカイブした日時（ISO 8601形式）
+   * @returns アーカイブしたTodo（アーカイブの中でのposition順）
+   */
+  async archive(ids: readonly string[], archivedAt: string): Promise<ArchivedTodo[]> {
+    const { results } = await this.db
+      .prepare('SELECT * FROM todos WHERE tenant_id = ? AND list_id = ?')
+      .bind(...this.scope)
+      .all<TodoRow>();
+    const targets = results.filter((row) => ids.includes(row.id));
+    if (targets.length > 0) {
+      await this.db.batch([
+        ...targets.flatMap((row) => [
+          this.db
+            .prepare(
+              `INSERT INTO archived_todos (id, tenant_id, list_id, todo, archived_at)
+                SELECT ?, ?, ?, ?, ? WHERE EXISTS (SELECT 1 FROM todos WHERE id = ? AND version = ?)`
+            )
+            .bind(
+              row.id,
+              ...this.scope,
+              JSON.stringify(rowToStoredTodo(row)),
+              archivedAt,
+              row.id,
+              row.version
+            ),
+          this.db
+            .prepare('DELETE FROM todos WHERE id = ? AND version = ?')
+            .bind(row.id, row.version),
+        ]),
+        this.touch(),
+      ]);
+    }
+    return (await this.getArchived()).filter((todo) => ids.includes(todo.id));
+  }
+
+  /**
+   * Get all archived Todo items
+   *
+   * @returns アーカイブしたすべてのTodo（ランク順）
+   */
+  async getArchived(): Promise<ArchivedTodo[]> {
+    const { results } = await this.db
+      .prepare('SELECT * FROM archived_todos WHERE tenant_id = ? AND list_id = ?')
+      .bind(...this.scope)
+      .all<ArchivedTodoRow>();
+    return toTodos(
+      sortByRank(
+        results.map((row) => ({
+          ...(JSON.parse(row.todo) as StoredTodo),
+          archivedAt: row.archived_at,
+        }))
+      )
+    );
+  }
+
+  /**
+   * Move a Todo item to a new position
+   *
+   * 移動先の前後のランクの間に新しいランクを生成し、移動対象の1行のみを更新します。
+   * 前後のランクが同じ場合やランクが長くなりすぎた場合は全件を再配置します。
+   *
+   * @param id - 移動するTodo項目のID（UUID v4形式）
+   * @param newPosition - 兄弟の中での移動先の位置
+   * @param expectedVersion - 移動するTodoの期待する現在のバージョン（任意）
+   * @returns position順にソートされた全Todo、または該当IDが存在しない場合はnull
+   * @throws {RangeError} newPositionが範囲外の場合
+   * @throws {PreconditionFailedError} expectedVersionが現在のバージョンと一致しない場合
+   */
+  async move(id: string, newPosition: number, expectedVersion?: number): Promise<Todo[] | null> {
+    const { results: sorted } = await this.db
+      .prepare(
+        'SELECT id, rank, version, parent_id AS parentId FROM todos WHERE tenant_id = ? AND list_id = ? ORDER BY rank, id'
+      )
+      .bind(...this.scope)
+      .all<Ranked & { version: number; parentId: string | null }>();
+    const existing = sorted.find((row) => row.id === id);
+    if (!existing) {
+      return null;
+    }
+    assertVersionMatches(existing.version, expectedVersion);
+    const siblings = siblingsOf(sorted, existing.parentId);
+    assertPositionInRange(newPosition, siblings.length);
+
+    const rank = rankForMove(siblings, id, newPosition);
+    if (rank === null) {
+      return this.rebalance(reorderWithinParent(sorted, id, newPosition));
+    }
+    if (rank !== existing.rank) {
+      await this.db.batch([
+        this.db.prepare('UPDATE todos SET rank = ? WHERE id = ?').bind(rank, id),
+        this.touch(),
+      ]);
+    }
+    return this.getAll();
+  }
+
+  /**
+   * Set the order of all Todo items
+   *
+   * 全タスクのランク更新と取得を1回のbatch（トランザクション）で実行します。
+   *
+   * @param ids - 新しい並び順のTodo ID配列
+   * @returns position順にソートされた全Todo
+   * @throws {RangeError} idsが現在のTodo IDの並べ替えになっていない場合
+   */
+  async setOrder(ids: string[]): Promise<Todo[]> {
+    return this.rebalance(applyOrder(await this.getAll(), ids));
+  }
+
+  /**
+   * Move a Todo item to another list
+   *
+   * Todoと子孫の `list_id`・`rank`・`parent_id` の更新と、両方のリストの最終更新日時の記録を
+   * 1回のbatch（トランザクション）で行います。IDは変わらないため、`todos.id` の主キーと衝突しません。
+   *
+   * @param id - 移動するTodo項目のID（UUID v4形式）
+   * @param listId - 移動先のリストのID
+   * @returns 移動先での移動したTodo、または該当IDが存在しない場合はnull
+   */
+  async moveToList(id: string, listId: string): Promise<Todo | null> {
+    const [tenantId] = this.scope;
+    const [{ results }, last] = await Promise.all([
+      this.db
+        .prepare('SELECT * FROM todos WHERE tenant_id = ? AND list_id = ? ORDER BY rank, id')
+        .bind(...this.scope)
+        .all<TodoRow>(),
+      this.db
+        .prepare('SELECT MAX(rank) AS rank FROM todos WHERE tenant_id = ? AND list_id = ?')
+        .bind(tenantId, listId)
+        .first<{ rank: string | null }>(),
+    ]);
+    const moved = movedSubtree(results.map(rowToStoredTodo), id, last?.rank ?? null);
+    if (!moved) {
+      return null;
+    }
+
+    const target = new D1Storage(this.db, listId, tenantId);
+    await this.db.batch([
+      ...moved.map((todo) =>
+        this.db
+          .prepare(
+            `UPDATE todos SET list_id = ?, rank = ?, parent_id = ?, version = version + ?
+              WHERE id = ? AND tenant_id = ? AND list_id = ?`
+          )
+          .bind(
+            listId,
+            todo.rank,
+            todo.parentId ?? null,
+            todo.id === id ? 1 : 0,
+            todo.id,
+            ...this.scope
+          )
+      ),
+      this.touch(),
+      target.touch(),
+    ]);
+    return target.getById(id);
+  }
+
+  /**
+   * Get the last modified time of the list
+   *
+   * @returns 最終更新日時（ISO 8601形式）、または一度も書き込みがない場合はnull
+   */
+  async getLastModified(): Promise<string | null> {
+    const row = await this.db
+      .prepare('SELECT value FROM todo_meta WHERE key = ?')
+      .bind(this.lastModifiedKey)
+      .first<{ value: string }>();
+    return row?.value ?? null;
+  }
+
+  /**
+   * Build a statement inserting a stored Todo
+   *
+   * @param todo - 挿入するTodo（ランクを含む）
+   * @returns `todos` テーブルに挿入するステートメント
+   * @private
+   */
+  private insert(todo: StoredTodo): D1PreparedStatement {
+    return this.db
+      .prepare(
+        `INSERT INTO todos
+          (id, tenant_id, list_id, title, completed, created_at, rank, version, due_at, due_timezone,
+            priority, tags, notes, items, auto_complete, parent_id, recurrence)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        todo.id,
+        ...this.scope,
+        todo.title,
+        todo.completed ? 1 : 0,
+        todo.createdAt,
+        todo.rank,
+        todo.version,
+        todo.dueAt ?? null,
+        todo.dueTimezone ?? null,
+        todo.priority ?? null,
+        todo.tags ? toSqlValue(todo.tags) : null,
+        todo.notes ?? null,
+        todo.items ? toSqlValue(todo.items) : null,
+        todo.autoComplete === undefined ? null : toSqlValue(todo.autoComplete),
+        todo.parentId ?? null,
+        todo.recurrence ?? null
+      );
+  }
+
+  /**
+   * Build a statement recording the current time as the last modified time
+   *
+   * 書き込みと同じbatchに含めて実行します。書き込みが0行だった場合も更新されますが、
+   * クライアントが不要な再取得を行うだけで、変更の見落としにはつながりません。
+   *
+   * @returns `todo_meta` を更新するステートメント
+   * @private
+   */
+  private touch(): D1PreparedStatement {
+    return this.db.prepare(TOUCH_SQL).bind(this.lastModifiedKey, new Date().toISOString());
+  }
+
+  /**
+   * Throw if a row exists but its version does not match
+   *
+   * UPDATE / DELETE で1行も変更されなかった場合に、該当IDが存在しないのか
+   * バージョンが一致しなかったのかを判別します。
+   *
+   * @param id - Todo項目のID
+   * @param expectedVersion - 期待するバージョン（undefinedの場合は何もしない）
+   * @throws {PreconditionFailedError} 該当IDが存在し、バージョンが一致しない場合
+   * @private
+   */
+  private async assertExistingVersion(id: string, expectedVersion?: number): Promise<void> {
+    if (expectedVersion === undefined) {
+      return;
+    }
+    const row = await this.db
+      .prepare('SELECT version FROM todos WHERE id = ? AND tenant_id = ? AND list_id = ?')
+      .bind(id, ...this.scope)
+      .first<{ version: number }>();
+    if (row && row.version !== expectedVersion) {
+      throw new PreconditionFailedError(row.version);
+    }
+  }
+
+  /**
+   * Reassign evenly spaced ranks in the given order
+   *
+   * @param ordered - 新しい並び順のTodo配列（idのみ使用）
+   * @returns position順にソートされた全Todo
+   * @private
+   */
+  private async rebalance(ordered: { id: string }[]): Promise<Todo[]> {
+    if (ordered.length === 0) {
+      return [];
+    }
+
+    const results = await this.db.batch<PositionedTodoRow>([
+      ...rerank(ordered).map(({ id, rank }) =>
+        this.db.prepare('UPDATE todos SET rank = ? WHERE id = ?').bind(rank, id)
+      ),
+      this.touch(),
+      this.db.prepare(SELECT_ALL_SQL).bind(...this.scope),
+    ]);
+
+    return (results.at(-1)?.results ?? []).map(rowToTodo);
+  }
+}
+
+/**
+ * List Row
+ *
+ * `lists` テーブルの1行を表す型。
+ */
+interface ListRow {
+  id: string;
+  name: string;
+  created_at: string | null;
+}
+
+/**
+ * Convert a database row to a list
+ *
+ * @param row - `lists` テーブルの行
+ * @returns リスト（created_atがNULLの場合はcreatedAtを持たない）
+ */
+function rowToList(row: ListRow): TodoList {
+  return row.created_at === null
+    ? { id: row.id, name: row.name }
+    : { id: row.id, name: row.name, createdAt: row.created_at };
+}
+
+/**
+ * D1 List Storage
+ *
+ * D1の `lists(tenant_id, id, name, created_at)` テーブルを使用したIListStorage実装。
+ * 主キーは `(tenant_id, id)` で、テナントごとにデフォルトのリストの名前を登録できます。
+ *
+ * @example
+ * ```typescript
+ * const lists = new D1ListStorage(env.TODO_DB);
+ * const all = await lists.getLists();
+ * ```
+ */
+export class D1ListStorage implements IListStorage {
+  /**
+   * D1 Database instance
+   * @private
+   */
+  private db: D1Database;
+
+  /**
+   * ID of the tenant whose lists this instance reads and writes
+   * @private
+   */
+  private readonly tenantId: string;
+
+  /**
+   * Constructor
+   *
+   * @param db - D1 Database binding
+   * @param tenantId - テナントのID（デフォルト: デフォルトのテナント）
+   */
+  constructor(db: D1Database, tenantId: string = DEFAULT_TENANT_ID) {
+    this.db = db;
+    this.tenantId = tenantId;
+  }
+
+  async getLists(): Promise<TodoList[]> {
+    const { results } = await this.db
+      .prepare('SELECT id, name, created_at FROM lists WHERE tenant_id = ?')
+      .bind(this.tenantId)
+      .all<ListRow>();
+    return sortLists(results.map(rowToList));
+  }
+
+  async getList(id: string): Promise<TodoList | null> {
+    const row = await this.db
+      .prepare('SELECT id, name, created_at FROM lists WHERE tenant_id = ? AND id = ?')
+      .bind(this.tenantId, id)
+      .first<ListRow>();
+    return row ? rowToList(row) : null;
+  }
+
+  async putList(list: TodoList): Promise<TodoList> {
+    await this.db
+      .prepare(
+        `INSERT INTO lists (tenant_id, id, name, created_at) VALUES (?, ?, ?, ?)
+          ON CONFLICT (tenant_id, id) DO UPDATE SET name = excluded.name, created_at = excluded.created_at`
+      )
+      .bind(this.tenantId, list.id, list.name, list.createdAt ?? null)
+      .run();
+    return list;
+  }
+
+  async deleteList(id: string): Promise<boolean> {
+    const result = await this.db
+      .prepare('DELETE FROM lists WHERE tenant_id = ? AND id = ?')
+      .bind(this.tenantId, id)
+      .run();
+    return result.meta.changes > 0;
+  }
+}
+
+/**
+ * Tables that partition their rows by tenant
+ */
+const TENANT_TABLES = ['todos', 'trash', 'archived_todos', 'lists'] as const;
+
+/**
+ * Migrate the default tenant's data to a named tenant
+ *
+ * デフォルトのテナントの行の `tenant_id` を移行先のテナントに書き換え、最終更新日時の `todo_meta` のキー
+ * （`last_modified`・`last_modified:{listId}`）を `last_modified:t:{tenantId}:{listId}` に書き換えます。
+ * すべての書き換えを1回のbatch（トランザクション）で行うため、途中で失敗した場合は何も変わりません。
+ *
+ * @param db - D1 Database binding
+ * @param tenantId - 移行先のテナントのID（デフォルト以外）
+ * @returns 移行した行の件数（`todo_meta` を除く）
+ * @throws {RangeError} 移行先のテナントにすでにデータがある場合
+ *
+ * @example
+ * ```typescript
+ * await migrateD1Tenant(env.TODO_DB, 'team-a');
+ * ```
+ */
+export async function migrateD1Tenant(db: D1Database, tenantId: string): Promise<number> {
+  const existing = await db
+    .prepare(
+      `SELECT ${TENANT_TABLES.map((table) => `(SELECT COUNT(*) FROM ${table} WHERE tenant_id = ?1)`).join(' + ')} AS count`
+    )
+    .bind(tenantId)
+    .first<{ count: number }>();
+  if ((existing?.count ?? 0) > 0) {
+    throw new RangeError(`Tenant ${tenantId} already has data`);
+  }
+
+  const results = await db.batch([
+    ...TENANT_TABLES.map((table) =>
+      db
+        .prepare(`UPDATE ${table} SET tenant_id = ?1 WHERE tenant_id = ?2`)
+        .bind(tenantId, DEFAULT_TENANT_ID)
+    ),
+    db
+      .prepare(
+        `UPDATE todo_meta SET key = 'last_modified:t:' || ?1 || ':' || ?2 WHERE key = 'last_modified'`
+      )
+      .bind(tenantId, DEFAULT_LIST_ID),
+    db
+      .prepare(
+        `UPDATE todo_meta SET key = 'last_modified:t:' || ?1 || ':' || substr(key, 15)
+         WHERE key LIKE 'last_modified:%' AND key NOT LIKE 'last_modified:t:%'`
+      )
+      .bind(tenantId),
+  ]);
+  return results
+    .slice(0, TENANT_TABLES.length)
+    .reduce((count, result) => count + result.meta.changes, 0);
+}
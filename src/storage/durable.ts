@@ -0,0 +1,908 @@
+/**
+ * Durable Objects Storage Implementation
+ *
+ * このファイルはCloudflare Durable Objectsを使用したストレージ実装を提供します。
+ * 1つのTodoリストを1つのDurable Object（TodoListObject）が所有し、
+ * すべての作成・更新・削除・並び替えをそのオブジェクト内で直列に実行します。
+ *
+ * 参照:
+ * - 要件5: データ永続化 (requirements.md)
+ * - Storage Layer セクション (design.md)
+ * - task-reordering要件1.1-1.3 (task-reordering/requirements.md)
+ */
+
+import { DurableObject } from 'cloudflare:workers';
+import type { IStorage, IListStorage } from './interface';
+import { DEFAULT_LIST_ID } from '../models/list';
+import { DEFAULT_TENANT_ID } from '../models/tenant';
+import type { TodoList } from '../models/list';
+import { TODO_CONSTRAINTS } from '../models/todo';
+import type {
+  Todo,
+  StoredTodo,
+  StoredTrashedTodo,
+  TrashedTodo,
+  RestorePosition,
+  StoredArchivedTodo,
+  ArchivedTodo,
+} from '../models/todo';
+import type { Env } from '../models/env';
+import {
+  reorderWithinParent,
+  applyOrder,
+  assertPositionInRange,
+  siblingsOf,
+} from '../utils/ordering';
+import {
+  migrateToRanks,
+  rankAfter,
+  rankForMove,
+  rerank,
+  sortByRank,
+  toTodo,
+  toTodos,
+} from '../utils/rank';
+import type { LegacyStoredTodo } from '../utils/rank';
+import { assertVersionMatches } from '../utils/etag';
+import { normalizeDue } from '../utils/due';
+import { descendantIds, normalizeParent } from '../utils/tree';
+import { normalizeRecurrence } from '../utils/recurrence';
+import { restoredRank, sortTrash, toStoredTrashedTodo, toTrashedTodo } from '../utils/trash';
+import { movedSubtree, sortLists } from '../utils/lists';
+import { tenantKeyPrefix } from '../utils/tenant';
+import { PreconditionFailedError } from '../models/error';
+
+/**
+ * リストの一覧を保持するDurable Objectの名前
+ *
+ * リストのIDはUUID v4または `default` のため、リストのオブジェクトと名前が重なることはありません。
+ * デフォルト以外のテナントでは、リスト・リストの一覧のオブジェクトの名前の前に `t:{tenantId}:` が付きます。
+ */
+const LIST_REGISTRY_NAME = 'lists';
+
+/**
+ * Object Result
+ *
+ * TodoListObjectの書き込みメソッドの戻り値。
+ * RPC境界を越えて例外を投げるとオブジェクトが異常終了扱いになるため、
+ * 範囲外エラーとバージョン不一致は値として返し、DurableStorage側で例外に戻します。
+ */
+type ObjectResult<T> = { value: T } | { rangeError: string } | { currentVersion: number };
+
+/**
+ * Run an operation and capture expected errors as a value
+ *
+ * @param operation - 書き込み処理
+ * @returns 処理結果、またはRangeErrorのメッセージ / 現在のバージョン
+ */
+async function captureErrors<T>(operation: () => Promise<T>): Promise<ObjectResult<T>> {
+  try {
+    return { value: await operation() };
+  } catch (error) {
+    if (error instanceof RangeError) {
+      return { rangeError: error.message };
+    }
+    if (error instanceof PreconditionFailedError) {
+      return { currentVersion: error.currentVersion };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Convert an object result back to a value or a thrown error
+ *
+ * @param result - TodoListObjectから返された結果
+ * @returns 処理結果
+ * @throws {RangeError} 範囲外エラーが返された場合
+ * @throws {PreconditionFailedError} バージョン不一致が返された場合
+ */
+function unwrapResult<T>(result: ObjectResult<T>): T {
+  if ('rangeError' in result) {
+    throw new RangeError(result.rangeError);
+  }
+  if ('currentVersion' in result) {
+    throw new PreconditionFailedError(result.currentVersion);
+  }
+  return result.value;
+}
+
+/**
+ * Todo List Durable Object
+ *
+ * 1つのTodoリストの状態を所有するDurable Object。
+ * Durable Objectは単一スレッドで動作し、ストレージ操作中は入力ゲートにより
+ * 他のリクエストが割り込まないため、メソッド単位で直列化されます。
+ *
+ * **整合性の保証**:
+ * - create(): ランクはオブジェクト内で現在の末尾から決定される
+ *   （並行した作成で同じランクが割り当てられることはない）
+ * - delete(): 削除対象の1件のみを削除する（positionは読み込み時に算出）
+ * - move(): 移動対象の1件のランクのみを書き換える（ランクが長くなりすぎた場合は全件を再配置）
+ * - setOrder(): 全タスクのランクを1回の書き込みで保存する
+ * - trash() / restore(): 一覧からの取り除き（戻し）とゴミ箱への保存（削除）を1回の書き込みで行う
+ * - archive(): 一覧からの取り除きとアーカイブへの保存を1回の書き込みで行う
+ * - appendSubtree() / removeAll(): リスト間の移動での追加と取り除きを、それぞれ1回の書き込みで行う
+ * - update() / delete() / trash() / move(): expectedVersionの比較と書き込みの間に他の更新が割り込まない
+ *
+ * **キー設計**:
+ * - `todo:{uuid}` - 個別のTodo項目（StoredTodo、オブジェクト内のトランザクショナルストレージ）
+ * - `meta:lastModified` - 一覧の最終更新日時（ISO 8601）。各書き込みと同じ書き込みで更新
+ * - `trash:{uuid}` - ゴミ箱のTodo（StoredTrashedTodo。移す前のランクを保持）
+ * - `archive:{uuid}` - アーカイブしたTodo（StoredArchivedTodo。移す前のランクを保持）
+ * - `list:{listId}` - リストの一覧（`lists` という名前のオブジェクトのみが使用する。DurableListStorage）
+ *
+ * wrangler.toml設定例:
+ * ```toml
+ * [[durable_objects.bindings]]
+ * name = "TODO_DO"
+ * class_name = "TodoListObject"
+ *
+ * [[migrations]]
+ * tag = "v1"
+ * new_sqlite_classes = ["TodoListObject"]
+ * ```
+ */
+export class TodoListObject extends DurableObject<Env> {
+  /**
+   * Key prefix for all Todo items
+   * @private
+   */
+  private readonly KEY_PREFIX = 'todo:';
+
+  /**
+   * Key prefix for trashed Todo items
+   * @private
+   */
+  private readonly TRASH_PREFIX = 'trash:';
+
+  /**
+   * Key prefix for archived Todo items
+   * @private
+   */
+  private readonly ARCHIVE_PREFIX = 'archive:';
+
+  /**
+   * Key prefix for registered lists
+   * @private
+   */
+  private readonly LIST_PREFIX = 'list:';
+
+  /**
+   * Key for the last modified time of the list
+   * @private
+   */
+  private readonly LAST_MODIFIED_KEY = 'meta:lastModified';
+
+  /**
+   * Maximum number of keys of a single put
+   * @private
+   */
+  private readonly PUT_LIMIT = 128;
+
+  /**
+   * Generate storage key for a Todo item
+   *
+   * @param id - Todo item ID
+   * @returns Storage key in format `todo:{id}`
+   * @private
+   */
+  private getKey(id: string): string {
+    return `${this.KEY_PREFIX}${id}`;
+  }
+
+  /**
+   * Generate storage key for a trashed Todo item
+   *
+   * @param id - Todo item ID
+   * @returns Storage key in format `trash:{id}`
+   * @private
+   */
+  private getTrashKey(id: string): string {
+    return `${this.TRASH_PREFIX}${id}`;
+  }
+
+  /**
+   * Generate storage key for an archived Todo item
+   *
+   * @param id - Todo item ID
+   * @returns Storage key in format `archive:{id}`
+   * @private
+   */
+  private getArchiveKey(id: string): string {
+    return `${this.ARCHIVE_PREFIX}${id}`;
+  }
+
+  /**
+   * Load all stored Todo items sorted by rank
+   *
+   * ランク導入前に保存されたTodoがある場合は、position順にランクを割り当てて保存し直します。
+   *
+   * @returns ランク順にソートされた保存済みTodo配列
+   * @private
+   */
+  private async loadAll(): Promise<StoredTodo[]> {
+    const entries = await this.ctx.storage.list<LegacyStoredTodo>({ prefix: this.KEY_PREFIX });
+    const { stored, migrated } = migrateToRanks([...entries.values()]);
+    if (migrated.length > 0) {
+      await this.putAll(migrated, false);
+    }
+    return sortByRank(stored);
+  }
+
+  /**
+   * Save stored Todo items and the last modified time in a single write
+   *
+   * @param todos - 保存するTodo配列
+   * @param touch - 最終更新日時も更新するか（ランクの移行では内容が変わらないためfalse）
+   * @private
+   */
+  private async putAll(todos: StoredTodo[], touch = true): Promise<void> {
+    if (todos.length > 0) {
+      await this.ctx.storage.put({
+        ...Object.fromEntries(todos.map((todo) => [this.getKey(todo.id), todo])),
+        ...(touch ? { [this.LAST_MODIFIED_KEY]: new Date().toISOString() } : {}),
+      });
+    }
+  }
+
+  /**
+   * Create a new Todo item
+   *
+   * positionは呼び出し側の値ではなく、オブジェクト内の現在の末尾の次に設定します。
+   *
+   * @param todo - 作成するTodo項目
+   * @returns 作成されたTodo項目（確定したpositionを含む）
+   */
+  async create(todo: Todo): Promise<Todo> {
+    const existing = await this.loadAll();
+    const { position, ...fields } = todo;
+    const stored: StoredTodo = normalizeParent({
+      ...fields,
+      rank: rankAfter(existing.at(-1)?.rank ?? null),
+    });
+    await this.putAll([stored]);
+    return toTodo(stored, siblingsOf(existing, stored.parentId).length);
+  }
+
+  /**
+   * Get all Todo items
+   *
+   * @returns すべてのTodo項目の配列（position順にソート済み）
+   */
+  async getAll(): Promise<Todo[]> {
+    return toTodos(await this.loadAll());
+  }
+
+  /**
+   * Get a Todo item by ID
+   *
+   * @param id - Todo項目のID
+   * @returns 該当するTodo項目、または存在しない場合はnull
+   */
+  async getById(id: string): Promise<Todo | null> {
+    return (await this.getAll()).find((todo) => todo.id === id) ?? null;
+  }
+
+  /**
+   * Update a Todo item
+   *
+   * バージョンの比較と書き込みはオブジェクト内で直列に実行されるため、
+   * 同時に更新された場合も一方のみが成功します。
+   *
+   * @param id - Todo項目のID
+   * @param updates - 更新するフィールド（positionとversionは無視される）
+   * @param expectedVersion - 期待する現在のバージョン（任意）
+   * @returns 更新されたTodo項目（該当IDが存在しない場合はnull）、またはバージョン不一致
+   */
+  async update(
+    id: string,
+    updates: Partial<Todo>,
+    expectedVersion?: number
+  ): Promise<ObjectResult<Todo | null>> {
+    return captureErrors(async () => {
+      const existing = (await this.loadAll()).find((todo) => todo.id === id);
+      if (existing === undefined) {
+        return null;
+      }
+      assertVersionMatches(existing.version, expectedVersion);
+
+      // 不変条件: id と createdAt は変更されない。並び順は move()/setOrder() でのみ変更する
+      const { position, ...fields } = updates;
+      await this.putAll([
+        normalizeRecurrence(
+          normalizeParent(
+            normalizeDue({
+              ...existing,
+              ...fields,
+              id: existing.id,
+              createdAt: existing.createdAt,
+              rank: existing.rank,
+              version: existing.version + 1,
+            })
+          )
+        ),
+      ]);
+      return this.getById(id);
+    });
+  }
+
+  /**
+   * Delete a Todo item
+   *
+   * 他のTodoのランクは変わらないため、削除対象の1件のみを削除します。
+   * 後ろのタスクのpositionは読み込み時に詰められます（task-reordering要件1.3）。
+   *
+   * @param id - Todo項目のID
+   * @param expectedVersion - 期待する現在のバージョン（任意）
+   * @returns 削除に成功した場合はtrue（該当IDが存在しない場合はfalse）、またはバージョン不一致
+   */
+  async delete(id: string, expectedVersion?: number): Promise<ObjectResult<boolean>> {
+    return captureErrors(async () => {
+      if (expectedVersion !== undefined) {
+        const existing = await this.ctx.storage.get<LegacyStoredTodo>(this.getKey(id));
+        if (existing === undefined) {
+          return false;
+        }
+        assertVersionMatches(existing.version ?? TODO_CONSTRAINTS.INITIAL_VERSION, expectedVersion);
+      }
+      const deleted = await this.ctx.storage.delete(this.getKey(id));
+      if (deleted) {
+        await this.ctx.storage.put(this.LAST_MODIFIED_KEY, new Date().toISOString());
+      }
+      return deleted;
+    });
+  }
+
+  /**
+   * Move a Todo item to the trash
+   *
+   * ゴミ箱への保存とTodoの削除は待機を挟まずに発行するため、1回の書き込みとしてまとめられます。
+   *
+   * @param id - Todo項目のID
+   * @param deletedAt - ゴミ箱に移した日時
+   * @param expectedVersion - 期待する現在のバージョン（任意）
+   * @returns ゴミ箱に移したTodo（該当IDが存在しない場合はnull）、またはバージョン不一致
+   */
+  async trash(
+    id: string,
+    deletedAt: string,
+    expectedVersion?: number,
+    deletedWith?: string
+  ): Promise<ObjectResult<TrashedTodo | null>> {
+    return captureErrors(async () => {
+      const existing = (await this.loadAll()).find((todo) => todo.id === id);
+      if (existing === undefined) {
+        return null;
+      }
+      assertVersionMatches(existing.version, expectedVersion);
+
+      const trashed = toStoredTrashedTodo(existing, deletedAt, deletedWith);
+      await Promise.all([
+        this.ctx.storage.put({
+          [this.getTrashKey(id)]: trashed,
+          [this.LAST_MODIFIED_KEY]: new Date().toISOString(),
+        }),
+        this.ctx.storage.delete(this.getKey(id)),
+      ]);
+      return toTrashedTodo(trashed);
+    });
+  }
+
+  /**
+   * Get all trashed Todo items
+   *
+   * @returns ゴミ箱のすべてのTodo（deletedAtの降順）
+   */
+  async getTrash(): Promise<TrashedTodo[]> {
+    const entries = await this.ctx.storage.list<StoredTrashedTodo>({ prefix: this.TRASH_PREFIX });
+    return sortTrash([...entries.values()].map(toTrashedTodo));
+  }
+
+  /**
+   * Restore a Todo item from the trash
+   *
+   * @param id - ゴミ箱のTodoのID
+   * @param parentId - 戻した後の親のID（nullの場合はルート）
+   * @param position - 戻す位置
+   * @returns 戻したTodo、またはゴミ箱に該当IDが存在しない場合はnull
+   */
+  async restore(
+    id: string,
+    parentId: string | null,
+    position: RestorePosition
+  ): Promise<Todo | null> {
+    const trashKey = this.getTrashKey(id);
+    const trashed = await this.ctx.storage.get<StoredTrashedTodo>(trashKey);
+    if (trashed === undefined) {
+      return null;
+    }
+
+    const { deletedAt, deletedWith, ...fields } = trashed;
+    const lastRank = (await this.loadAll()).at(-1)?.rank ?? null;
+    await Promise.all([
+      this.putAll([
+        normalizeParent({ ...fields, parentId, rank: restoredRank(trashed, position, lastRank) }),
+      ]),
+      this.ctx.storage.delete(trashKey),
+    ]);
+    return this.getById(id);
+  }
+
+  /**
+   * Permanently delete a trashed Todo item
+   *
+   * @param id - ゴミ箱のTodoのID
+   * @returns 削除に成功した場合はtrue、ゴミ箱に該当IDが存在しない場合はfalse
+   */
+  async purge(id: string): Promise<boolean> {
+    return this.ctx.storage.delete(this.getTrashKey(id));
+  }
+
+  /**
+   * Delete every item of the list
+   *
+   * 1つのオブジェクトは1つのリストのみを保持するため、オブジェクトのストレージをすべて削除します。
+   */
+  async clear(): Promise<void> {
+    await this.ctx.storage.deleteAll();
+  }
+
+  /**
+   * Get all registered lists
+   *
+   * @returns 登録されたすべてのリスト（createdAtの昇順）
+   */
+  async getLists(): Promise<TodoList[]> {
+    const entries = await this.ctx.storage.list<TodoList>({ prefix: this.LIST_PREFIX });
+    return sortLists([...entries.values()]);
+  }
+
+  async getList(id: string): Promise<TodoList | null> {
+    return (await this.ctx.storage.get<TodoList>(`${this.LIST_PREFIX}${id}`)) ?? null;
+  }
+
+  async putList(list: TodoList): Promise<TodoList> {
+    await this.ctx.storage.put(`${this.LIST_PREFIX}${list.id}`, list);
+    return list;
+  }
+
+  async deleteList(id: string): Promise<boolean> {
+    return this.ctx.storage.delete(`${this.LIST_PREFIX}${id}`);
+  }
+
+  /**
+   * Archive Todo items
+   *
+   * アーカイブへの保存とTodoの削除は待機を挟まずに発行するため、1回の書き込みとしてまとめられます。
+   *
+   * @param ids - アーカイブするTodo項目のID配列
+   * @param archivedAt - アーカイブした日時
+   * @returns アーカイブしたTodo（アーカイブの中でのposition順）
+   */
+  async archive(ids: readonly string[], archivedAt: string): Promise<ArchivedTodo[]> {
+    const targets = (await this.loadAll()).filter((todo) => ids.includes(todo.id));
+    if (targets.length > 0) {
+      await Promise.all([
+        this.ctx.storage.put({
+          ...Object.fromEntries(
+            targets.map((todo) => [this.getArchiveKey(todo.id), { ...todo, archivedAt }])
+          ),
+          [this.LAST_MODIFIED_KEY]: new Date().toISOString(),
+        }),
+        this.ctx.storage.delete(targets.map((todo) => this.getKey(todo.id))),
+      ]);
+    }
+    return (await this.getArchived()).filter((todo) => ids.includes(todo.id));
+  }
+
+  /**
+   * Get all archived Todo items
+   *
+   * @returns アーカイブしたすべてのTodo（ランク順）
+   */
+  async getArchived(): Promise<ArchivedTodo[]> {
+    const entries = await this.ctx.storage.list<StoredArchivedTodo>({
+      prefix: this.ARCHIVE_PREFIX,
+    });
+    return toTodos(sortByRank([...entries.values()]));
+  }
+
+  /**
+   * Move a Todo item to a new position
+   *
+   * @param id - 移動するTodo項目のID
+   * @param newPosition - 兄弟の中での移動先の位置
+   * @param expectedVersion - 移動するTodoの期待する現在のバージョン（任意）
+   * @returns position順にソートされた全Todo（該当IDが存在しない場合はnull）、
+   *          または範囲外エラー / バージョン不一致
+   */
+  async move(
+    id: string,
+    newPosition: number,
+    expectedVersion?: number
+  ): Promise<ObjectResult<Todo[] | null>> {
+    return captureErrors(async () => {
+      const sorted = await this.loadAll();
+      const existing = sorted.find((todo) => todo.id === id);
+      if (!existing) {
+        return null;
+      }
+      assertVersionMatches(existing.version, expectedVersion);
+      const siblings = siblingsOf(sorted, existing.parentId);
+      assertPositionInRange(newPosition, siblings.length);
+
+      const rank = rankForMove(siblings, id, newPosition);
+      if (rank === null) {
+        await this.rebalance(sorted, reorderWithinParent(toTodos(sorted), id, newPosition));
+      } else if (rank !== existing.rank) {
+        await this.putAll([{ ...existing, rank }]);
+      }
+      return this.getAll();
+    });
+  }
+
+  /**
+   * Set the order of all Todo items
+   *
+   * @param ids - 新しい並び順のTodo ID配列
+   * @returns position順にソートされた全Todo、または範囲外エラー
+   */
+  async setOrder(ids: string[]): Promise<ObjectResult<Todo[]>> {
+    return captureErrors(async () => {
+      const sorted = await this.loadAll();
+      await this.rebalance(sorted, applyOrder(toTodos(sorted), ids));
+      return this.getAll();
+    });
+  }
+
+  /**
+   * Get a Todo item and its descendants
+   *
+   * @param id - Todo項目のID
+   * @returns Todoと子孫（ランク順）、または該当IDが存在しない場合はnull
+   */
+  async getSubtree(id: string): Promise<StoredTodo[] | null> {
+    const sorted = await this.loadAll();
+    if (!sorted.some((todo) => todo.id === id)) {
+      return null;
+    }
+    const subtree = new Set([id, ...descendantIds(sorted, id)]);
+    return sorted.filter((todo) => subtree.has(todo.id));
+  }
+
+  /**
+   * Add a subtree moved from another list
+   *
+   * Todoと子孫を末尾のランクの後ろに1回の書き込みで保存します。
+   *
+   * @param id - 移動するTodo項目のID
+   * @param subtree - 移動元のTodoと子孫（getSubtree()の結果）
+   * @returns 移動したTodo、またはsubtreeに該当IDが存在しない場合はnull
+   */
+  async appendSubtree(id: string, subtree: StoredTodo[]): Promise<Todo | null> {
+    const moved = movedSubtree(subtree, id, (await this.loadAll()).at(-1)?.rank ?? null);
+    if (!moved) {
+      return null;
+    }
+    await this.putAll(moved);
+    return this.getById(id);
+  }
+
+  /**
+   * Remove Todo items moved to another list
+   *
+   * 削除と最終更新日時の記録は待機を挟まずに発行するため、1回の書き込みとしてまとめられます。
+   *
+   * @param ids - 取り除くTodo項目のID配列
+   */
+  async removeAll(ids: string[]): Promise<void> {
+    await Promise.all([
+      this.ctx.storage.delete(ids.map((id) => this.getKey(id))),
+      this.ctx.storage.put(this.LAST_MODIFIED_KEY, new Date().toISOString()),
+    ]);
+  }
+
+  /**
+   * Get the last modified time of the list
+   *
+   * @returns 最終更新日時（ISO 8601形式）、または一度も書き込みがない場合はnull
+   */
+  async getLastModified(): Promise<string | null> {
+    return (await this.ctx.storage.get<string>(this.LAST_MODIFIED_KEY)) ?? null;
+  }
+
+  /**
+   * Export every entry of the object
+   *
+   * テナントの移行（migrateDurableTenant()）で、オブジェクトの内容を別の名前のオブジェクトにコピーするために使用します。
+   *
+   * @returns オブジェクトのストレージのすべてのキーと値
+   */
+  async exportEntries(): Promise<Record<string, unknown>> {
+    return Object.fromEntries(await this.ctx.storage.list());
+  }
+
+  /**
+   * Import entries exported from another object
+   *
+   * 1回のput()で書き込めるキーは最大128件のため、分割して書き込みます。
+   *
+   * @param entries - exportEntries()の結果
+   */
+  async importEntries(entries: Record<string, unknown>): Promise<void> {
+    const pairs = Object.entries(entries);
+    for (let i = 0; i < pairs.length; i += this.PUT_LIMIT) {
+      await this.ctx.storage.put(Object.fromEntries(pairs.slice(i, i + this.PUT_LIMIT)));
+    }
+  }
+
+  /**
+   * Reassign evenly spaced ranks in the given order
+   *
+   * @param stored - 保存済みTodo配列
+   * @param ordered - 新しい並び順のTodo配列
+   * @private
+   */
+  private async rebalance(stored: StoredTodo[], ordered: Todo[]): Promise<void> {
+    const byId = new Map(stored.map((todo) => [todo.id, todo]));
+    await this.putAll(
+      rerank(ordered).flatMap(({ id, rank }) => {
+        const existing = byId.get(id);
+        return existing ? [{ ...existing, rank }] : [];
+      })
+    );
+  }
+}
+
+/**
+ * Durable Objects Storage
+ *
+ * TodoListObjectへのRPC呼び出しでIStorageを実装するストレージ。
+ * リスト名ごとに1つのDurable Objectインスタンスが割り当てられ、
+ * そのリストへの操作はすべて同じオブジェクトで直列に処理されます。
+ *
+ * **KVStorageとの違い**:
+ * - 強い整合性（書き込み直後の読み込みに反映される）
+ * - 作成・削除・並び替えの競合状態が発生しない
+ * - 1リストへのスループットは1オブジェクトの処理能力に制限される
+ *
+ * @example
+ * ```typescript
+ * const storage = new DurableStorage(env.TODO_DO);
+ *
+ * const todo = await storage.create({
+ *   id: crypto.randomUUID(),
+ *   title: 'Buy groceries',
+ *   completed: false,
+ *   createdAt: new Date().toISOString(),
+ *   position: 0,
+ *   version: 1,
+ * });
+ * ```
+ */
+export class DurableStorage implements IStorage {
+  /**
+   * Stub of the Durable Object that owns the list
+   * @private
+   */
+  private stub: DurableObjectStub<TodoListObject>;
+
+  /**
+   * Durable Object Namespace binding (used to reach the other lists of the tenant)
+   * @private
+   */
+  private namespace: DurableObjectNamespace<TodoListObject>;
+
+  /**
+   * Tenant ID of the list
+   * @private
+   */
+  private readonly tenantId: string;
+
+  /**
+   * Constructor
+   *
+   * @param namespace - Durable Object Namespace binding
+   * @param listName - TodoリストのID（同じテナントの同じIDは同じDurable Objectに割り当てられる）
+   * @param tenantId - テナントのID（デフォルト: デフォルトのテナント）
+   *
+   * @example
+   * ```typescript
+   * // In Hono handler
+   * const storage = new DurableStorage(c.env.TODO_DO);
+   * ```
+   */
+  constructor(
+    namespace: DurableObjectNamespace<TodoListObject>,
+    listName = DEFAULT_LIST_ID,
+    tenantId = DEFAULT_TENANT_ID
+  ) {
+    this.stub = namespace.get(namespace.idFromName(tenantKeyPrefix(tenantId) + listName));
+    this.namespace = namespace;
+    this.tenantId = tenantId;
+  }
+
+  async create(todo: Todo): Promise<Todo> {
+    return this.stub.create(todo);
+  }
+
+  async getAll(): Promise<Todo[]> {
+    return this.stub.getAll();
+  }
+
+  async getById(id: string): Promise<Todo | null> {
+    return this.stub.getById(id);
+  }
+
+  async update(id: string, updates: Partial<Todo>, expectedVersion?: number): Promise<Todo | null> {
+    return unwrapResult(await this.stub.update(id, updates, expectedVersion));
+  }
+
+  async delete(id: string, expectedVersion?: number): Promise<boolean> {
+    return unwrapResult(await this.stub.delete(id, expectedVersion));
+  }
+
+  async trash(
+    id: string,
+    deletedAt: string,
+    expectedVersion?: number,
+    deletedWith?: string
+  ): Promise<TrashedTodo | null> {
+    return unwrapResult(await this.stub.trash(id, deletedAt, expectedVersion, deletedWith));
+  }
+
+  async getTrash(): Promise<TrashedTodo[]> {
+    return this.stub.getTrash();
+  }
+
+  async restore(
+    id: string,
+    parentId: string | null,
+    position: RestorePosition
+  ): Promise<Todo | null> {
+    return this.stub.restore(id, parentId, position);
+  }
+
+  async purge(id: string): Promise<boolean> {
+    return this.stub.purge(id);
+  }
+
+  async clear(): Promise<void> {
+    return this.stub.clear();
+  }
+
+  async archive(ids: readonly string[], archivedAt: string): Promise<ArchivedTodo[]> {
+    return this.stub.archive(ids, archivedAt);
+  }
+
+  async getArchived(): Promise<ArchivedTodo[]> {
+    return this.stub.getArchived();
+  }
+
+  async move(id: string, newPosition: number, expectedVersion?: number): Promise<Todo[] | null> {
+    return unwrapResult(await this.stub.move(id, newPosition, expectedVersion));
+  }
+
+  async setOrder(ids: string[]): Promise<Todo[]> {
+    return unwrapResult(await this.stub.setOrder(ids));
+  }
+
+  /**
+   * Move a Todo item to another list
+   *
+   * 移動先のオブジェクトへの追加と移動元のオブジェクトからの削除は、それぞれ1回の書き込みで行います。
+   *
+   * **注意**: リストごとに別のオブジェクトのため、2つの書き込みは1つのトランザクションになりません。
+   * 移動先への追加を先に完了させるため、途中で失敗した場合も両方のリストに残るだけでTodoは失われません。
+   *
+   * @param id - 移動するTodo項目のID（UUID v4形式）
+   * @param listId - 移動先のリストのID
+   * @returns 移動先での移動したTodo、または該当IDが存在しない場合はnull
+   */
+  async moveToList(id: string, listId: string): Promise<Todo | null> {
+    const subtree = await this.stub.getSubtree(id);
+    if (subtree === null) {
+      return null;
+    }
+    const target = new DurableStorage(this.namespace, listId, this.tenantId);
+    const moved = await target.stub.appendSubtree(id, subtree);
+    await this.stub.removeAll(subtree.map((todo) => todo.id));
+    return moved;
+  }
+
+  async getLastModified(): Promise<string | null> {
+    return this.stub.getLastModified();
+  }
+}
+
+/**
+ * Durable Objects List Storage
+ *
+ * `lists` という名前のTodoListObjectへのRPC呼び出しでIListStorageを実装するストレージ。
+ * リストの一覧はこのオブジェクトが直列に処理するため、同時に変更しても失われません。
+ *
+ * @example
+ * ```typescript
+ * const lists = new DurableListStorage(env.TODO_DO);
+ * const all = await lists.getLists();
+ * ```
+ */
+export class DurableListStorage implements IListStorage {
+  /**
+   * Stub of the Durable Object that owns the list registry
+   * @private
+   */
+  private stub: DurableObjectStub<TodoListObject>;
+
+  /**
+   * Constructor
+   *
+   * @param namespace - Durable Object Namespace binding
+   * @param tenantId - テナントのID（デフォルト: デフォルトのテナント）
+   */
+  constructor(namespace: DurableObjectNamespace<TodoListObject>, tenantId = DEFAULT_TENANT_ID) {
+    this.stub = namespace.get(namespace.idFromName(tenantKeyPrefix(tenantId) + LIST_REGISTRY_NAME));
+  }
+
+  async getLists(): Promise<TodoList[]> {
+    return this.stub.getLists();
+  }
+
+  async getList(id: string): Promise<TodoList | null> {
+    return this.stub.getList(id);
+  }
+
+  async putList(list: TodoList): Promise<TodoList> {
+    return this.stub.putList(list);
+  }
+
+  async deleteList(id: string): Promise<boolean> {
+    return this.stub.deleteList(id);
+  }
+}
+
+/**
+ * Migrate the default tenant's data to a named tenant
+ *
+ * デフォルトのテナントのリストの一覧のオブジェクト（`lists`）と各リストのオブジェクト（リストのID）の内容を、
+ * `t:{tenantId}:` を付けた名前のオブジェクトにコピーしてから、元のオブジェクトの内容を削除します。
+ * オブジェクトごとに移行し、内容のないオブジェクトは移行しません。途中で失敗した場合は、
+ * 移行済みのオブジェクト（元の内容が削除されている）を除いて再実行できます。
+ *
+ * @param namespace - Durable Object Namespace binding
+ * @param tenantId - 移行先のテナントのID（デフォルト以外）
+ * @returns 移行したオブジェクトの件数
+ * @throws {RangeError} 移行先のテナントにすでにデータがある場合
+ *
+ * @example
+ * ```typescript
+ * await migrateDurableTenant(env.TODO_DO, 'team-a');
+ * // "default" → "t:team-a:default", "{listId}" → "t:team-a:{listId}", "lists" → "t:team-a:lists"
+ * ```
+ */
+export async function migrateDurableTenant(
+  namespace: DurableObjectNamespace<TodoListObject>,
+  tenantId: string
+): Promise<number> {
+  const stub = (name: string) => namespace.get(namespace.idFromName(name));
+  const lists = await stub(LIST_REGISTRY_NAME).getLists();
+  // 再実行で残りのリストを見つけられるよう、リストの一覧は最後に移行する
+  const names = [DEFAULT_LIST_ID, ...lists.map((list) => list.id), LIST_REGISTRY_NAME];
+  const prefix = tenantKeyPrefix(tenantId);
+  const sources = await Promise.all(
+    names.map(async (name) => ({ name, entries: await stub(name).exportEntries() }))
+  );
+  const pending = sources.filter(({ entries }) => Object.keys(entries).length > 0);
+
+  for (const { name } of pending) {
+    if (Object.keys(await stub(`${prefix}${name}`).exportEntries()).length > 0) {
+      throw new RangeError(`Tenant ${tenantId} already has data`);
+    }
+  }
+  for (const { name, entries } of pending) {
+    await stub(`${prefix}${name}`).importEntries(entries);
+    await stub(name).clear();
+  }
+  return pending.length;
+}
@@ -0,0 +1,214 @@
+/**
+ * Storage Factory Implementation
+ *
+ * このファイルは環境設定からストレージ実装を生成するファクトリーを提供します。
+ * STORAGE_BACKEND環境変数でバックエンドを選択し、ハンドラー層はIStorageのみに依存します。
+ *
+ * 参照:
+ * - 要件5: データ永続化 (requirements.md)
+ * - Storage Layer セクション (design.md)
+ */
+
+import type { IStorage, IListStorage, StorageFactory, ListStorageFactory } from './interface';
+import { KVStorage, KVListStorage, migrateKVTenant } from './kv';
+import { D1Storage, D1ListStorage, migrateD1Tenant } from './d1';
+import { DurableStorage, DurableListStorage, migrateDurableTenant } from './durable';
+import { InMemoryStorage, InMemoryListStorage } from './memory';
+import { ENV_CONFIG, type Env, type StorageBackend } from '../models/env';
+import { DEFAULT_LIST_ID } from '../models/list';
+import { DEFAULT_TENANT_ID } from '../models/tenant';
+import { isValidTenantId } from '../utils/tenant';
+
+/**
+ * 選択可能なストレージバックエンド一覧
+ */
+export const STORAGE_BACKENDS: readonly StorageBackend[] = ['kv', 'd1', 'durable', 'memory'];
+
+/**
+ * Isolate-scoped in-memory storage
+ *
+ * `memory` バックエンドはリクエストをまたいでデータを保持するため、
+ * isolateごとにテナント・リストごとのインスタンスとテナントごとのリストの一覧を共有します。
+ * キーは `{tenantId}/{listId}`（リストの一覧は `{tenantId}`）です。
+ */
+const sharedMemoryStorages = new Map<string, InMemoryStorage>();
+const sharedMemoryListStorages = new Map<string, InMemoryListStorage>();
+
+/**
+ * Get the shared in-memory storage of a tenant's list
+ *
+ * 同じテナントの他のリストを参照できるよう（moveToList()）、インスタンスに自身を渡します。
+ *
+ * @param listId - TodoリストのID
+ * @param tenantId - テナントのID
+ * @returns isolateで共有するインスタンス
+ */
+function sharedMemoryStorage(listId: string, tenantId: string): InMemoryStorage {
+  const key = `${tenantId}/${listId}`;
+  let storage = sharedMemoryStorages.get(key);
+  if (!storage) {
+    storage = new InMemoryStorage([], (id) => sharedMemoryStorage(id, tenantId));
+    sharedMemoryStorages.set(key, storage);
+  }
+  return storage;
+}
+
+/**
+ * Check if a value is a supported storage backend
+ *
+ * @param value - 検証する値
+ * @returns サポートされているバックエンドの場合はtrue
+ */
+export function isStorageBackend(value: string): value is StorageBackend {
+  return (STORAGE_BACKENDS as readonly string[]).includes(value);
+}
+
+/**
+ * Resolve the configured storage backend
+ *
+ * @param env - Cloudflare Workers環境
+ * @returns STORAGE_BACKEND環境変数の値（未設定時は 'kv'）
+ * @throws STORAGE_BACKENDが不正な場合
+ */
+function resolveBackend(env: Env): StorageBackend {
+  const backend = env.STORAGE_BACKEND?.trim() || ENV_CONFIG.DEFAULT_STORAGE_BACKEND;
+
+  if (!isStorageBackend(backend)) {
+    throw new Error(
+      `Unknown STORAGE_BACKEND "${backend}". Expected one of: ${STORAGE_BACKENDS.join(', ')}`
+    );
+  }
+  return backend;
+}
+
+/**
+ * Create Storage
+ *
+ * STORAGE_BACKEND環境変数（未設定時は 'kv'）に応じてIStorage実装を生成します。
+ *
+ * @param env - Cloudflare Workers環境
+ * @param listId - TodoリストのID（デフォルト: デフォルトのリスト）
+ * @param tenantId - テナントのID（デフォルト: デフォルトのテナント）
+ * @returns 指定されたテナントのリストのストレージ実装
+ * @throws STORAGE_BACKENDが不正な場合、または必要なバインディングが未設定の場合
+ *
+ * @example
+ * ```typescript
+ * // wrangler.toml: STORAGE_BACKEND = "d1"
+ * const storage = createStorage(c.env); // D1Storage
+ * ```
+ */
+export const createStorage: StorageFactory = (
+  env,
+  listId = DEFAULT_LIST_ID,
+  tenantId = DEFAULT_TENANT_ID
+): IStorage => {
+  const backend = resolveBackend(env);
+
+  switch (backend) {
+    case 'kv':
+      return new KVStorage(env.TODO_KV, listId, tenantId);
+    case 'd1':
+      if (!env.TODO_DB) {
+        throw new Error('STORAGE_BACKEND is "d1" but the TODO_DB binding is not configured');
+      }
+      return new D1Storage(env.TODO_DB, listId, tenantId);
+    case 'durable':
+      if (!env.TODO_DO) {
+        throw new Error('STORAGE_BACKEND is "durable" but the TODO_DO binding is not configured');
+      }
+      return new DurableStorage(env.TODO_DO, listId, tenantId);
+    case 'memory':
+      return sharedMemoryStorage(listId, tenantId);
+  }
+};
+
+/**
+ * Create List Storage
+ *
+ * STORAGE_BACKEND環境変数に応じて、リストの一覧を保持するIListStorage実装を生成します。
+ * リストの一覧は各リストのTodoと同じバックエンドに保存されます。
+ *
+ * @param env - Cloudflare Workers環境
+ * @param tenantId - テナントのID（デフォルト: デフォルトのテナント）
+ * @returns 指定されたテナントのリストストレージ実装
+ * @throws STORAGE_BACKENDが不正な場合、または必要なバインディングが未設定の場合
+ */
+export const createListStorage: ListStorageFactory = (
+  env,
+  tenantId = DEFAULT_TENANT_ID
+): IListStorage => {
+  const backend = resolveBackend(env);
+
+  switch (backend) {
+    case 'kv':
+      return new KVListStorage(env.TODO_KV, tenantId);
+    case 'd1':
+      if (!env.TODO_DB) {
+        throw new Error('STORAGE_BACKEND is "d1" but the TODO_DB binding is not configured');
+      }
+      return new D1ListStorage(env.TODO_DB, tenantId);
+    case 'durable':
+      if (!env.TODO_DO) {
+        throw new Error('STORAGE_BACKEND is "durable" but the TODO_DO binding is not configured');
+      }
+      return new DurableListStorage(env.TODO_DO, tenantId);
+    case 'memory': {
+      let lists = sharedMemoryListStorages.get(tenantId);
+      if (!lists) {
+        lists = new InMemoryListStorage();
+        sharedMemoryListStorages.set(tenantId, lists);
+      }
+      return lists;
+    }
+  }
+};
+
+/**
+ * Migrate the default tenant's data to a named tenant
+ *
+ * テナント導入前のデータ（デフォルトのテナントのTodo・ゴミ箱・アーカイブ・リスト）を、
+ * STORAGE_BACKEND環境変数のバックエンドで指定されたテナントに移します。
+ * - kv: キーの前に `t:{tenantId}:` を付けたキーに移す（API Keyのキーは移さない）
+ * - d1: 各テーブルの `tenant_id` と、最終更新日時の `todo_meta` のキーを書き換える
+ * - durable: リスト・リストの一覧のオブジェクトの内容を、名前の前に `t:{tenantId}:` を付けたオブジェクトに移す
+ *
+ * API Key（VALID_API_KEYS と /admin/keys で発行したキー）のテナントは変わらないため、
+ * 移行後は移行先のテナントのAPI Keyを設定してください。
+ *
+ * @param env - Cloudflare Workers環境
+ * @param tenantId - 移行先のテナントのID
+ * @returns 移行したキー（kv）・行（d1）・オブジェクト（durable）の件数
+ * @throws {RangeError} テナントのIDが不正またはデフォルトのテナントの場合、移行先のテナントにすでにデータがある場合、
+ *                      memoryバックエンドの場合
+ * @throws STORAGE_BACKENDが不正な場合、または必要なバインディングが未設定の場合
+ *
+ * @example
+ * ```typescript
+ * await migrateDefaultTenant(env, 'team-a');
+ * ```
+ */
+export async function migrateDefaultTenant(env: Env, tenantId: string): Promise<number> {
+  if (!isValidTenantId(tenantId) || tenantId === DEFAULT_TENANT_ID) {
+    throw new RangeError(`Invalid tenant ID: ${tenantId}`);
+  }
+  const backend = resolveBackend(env);
+
+  switch (backend) {
+    case 'kv':
+      return migrateKVTenant(env.TODO_KV, tenantId);
+    case 'd1':
+      if (!env.TODO_DB) {
+        throw new Error('STORAGE_BACKEND is "d1" but the TODO_DB binding is not configured');
+      }
+      return migrateD1Tenant(env.TODO_DB, tenantId);
+    case 'durable':
+      if (!env.TODO_DO) {
+        throw new Error('STORAGE_BACKEND is "durable" but the TODO_DO binding is not configured');
+      }
+      return migrateDurableTenant(env.TODO_DO, tenantId);
+    case 'memory':
+      // isolateのメモリのみに保持するため、移すデータがない
+      throw new RangeError('Tenant migration is not supported by the memory backend');
+  }
+}
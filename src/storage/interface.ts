@@ -10,7 +10,9 @@
  * - Storage Layer セクション (design.md)
  */
 
-import type { Todo } from '../models/todo';
+import type { Todo, TrashedTodo, RestorePosition, ArchivedTodo } from '../models/todo';
+import type { Env } from '../models/env';
+import type { TodoList } from '../models/list';
 
 /**
  * Storage Interface
@@ -19,10 +21,17 @@ import type { Todo } from '../models/todo';
  * このインターフェースを実装することで、ストレージバックエンドの
  * 実装を変更してもハンドラー層に影響を与えません。
  *
+ * 並び順は全Todoで1つの順序を持ち、positionは同じ親（parentId）を持つTodo（兄弟）の中での
+ * 位置として算出されます。親子関係の検証（循環・深さ）はハンドラー層で行います。
+ *
+ * 1つのインスタンスは1つのテナント（models/tenant.ts）の1つのリスト（models/list.ts）のTodoのみを扱います。
+ * 他のリスト・テナントのTodo・ゴミ箱・アーカイブは参照されず、IDを指定しても見つかりません。
+ *
  * 実装例:
  * - KVStorage: Workers KVを使用した実装
  * - D1Storage: D1（SQLite）を使用した実装
  * - DurableStorage: Durable Objectsを使用した実装
+ * - InMemoryStorage: Mapを使用した実装（テスト・ローカルデモ用）
  *
  * アーキテクチャ上の利点:
  * 1. **テスタビリティ**: モックストレージを簡単に作成できる
@@ -40,6 +49,8 @@ import type { Todo } from '../models/todo';
  *   title: 'New task',
  *   completed: false,
  *   createdAt: new Date().toISOString(),
+ *   position: 0,
+ *   version: 1,
  * });
  * ```
  */
@@ -55,7 +66,7 @@ export interface IStorage {
    *
    * **事後条件**:
    * - Todoがストレージに保存される
-   * - 作成されたTodoが返される
+   * - Todoは末尾に追加され、確定したposition（作成前の兄弟の件数）を持つTodoが返される
    *
    * **不変条件**:
    * - idは変更されない
@@ -146,15 +157,21 @@ export interface IStorage {
    *
    * **事後条件**:
    * - Todoが更新される、または存在しない場合はnull
-   * - 更新されたTodoが返される
+   * - versionが1増加した、更新されたTodoが返される
    *
    * **不変条件**:
    * - id、createdAtは変更されない
+   * - 並び順は変更されない（positionの指定は無視される）
+   * - parentIdにnullが指定された場合はルートへ移す（フィールドを取り除く）。
+   *   親が変わった場合、positionは新しい兄弟の中でのランク順の位置になる
+   * - versionはストレージが決定する（versionの指定は無視される）
    * - 指定されていないフィールドは元の値を保持する
    *
    * @param id - 更新するTodo項目のID（UUID v4形式）
    * @param updates - 更新するフィールド（部分的なTodoオブジェクト）
+   * @param expectedVersion - 期待する現在のバージョン（任意）。指定時は比較と書き込みをアトミックに行う
    * @returns 更新されたTodo項目、または存在しない場合はnull
+   * @throws {PreconditionFailedError} expectedVersionが現在のバージョンと一致しない場合
    * @throws ストレージエラーが発生した場合
    *
    * @example
@@ -170,24 +187,29 @@ export interface IStorage {
    * });
    * ```
    */
-  update(id: string, updates: Partial<Todo>): Promise<Todo | null>;
+  update(id: string, updates: Partial<Todo>, expectedVersion?: number): Promise<Todo | null>;
 
   /**
    * Delete a Todo item
    *
-   * 指定されたIDのTodo項目を削除します。
+   * 指定されたIDのTodo項目を完全に削除します（ゴミ箱には移しません）。
+   * DELETE /todos/:id はゴミ箱に移す trash() を使用します。
    *
    * **事前条件**:
    * - idがUUID v4形式である
    *
    * **事後条件**:
    * - Todoが削除される（成功時true、存在しない場合false）
+   * - 後ろのTodoのpositionが詰められる（task-reordering要件1.3）
+   * - 子のTodoは変更されない（付け替え・削除はハンドラー層で行う）
    *
    * **不変条件**:
    * - 削除後、該当idのTodoは取得不可（getByIdはnullを返す）
    *
    * @param id - 削除するTodo項目のID（UUID v4形式）
+   * @param expectedVersion - 期待する現在のバージョン（任意）
    * @returns 削除に成功した場合はtrue、該当IDが存在しない場合はfalse
+   * @throws {PreconditionFailedError} expectedVersionが現在のバージョンと一致しない場合
    * @throws ストレージエラーが発生した場合
    *
    * @example
@@ -200,27 +222,329 @@ export interface IStorage {
    * }
    * ```
    */
-  delete(id: string): Promise<boolean>;
+  delete(id: string, expectedVersion?: number): Promise<boolean>;
+
+  /**
+   * Move a Todo item to the trash
+   *
+   * 指定されたIDのTodo項目を一覧から取り除き、ゴミ箱に移します。
+   * ゴミ箱では移す前のランクを保持し、restore() で元の位置に戻せます。
+   *
+   * **事後条件**:
+   * - Todoが一覧から取り除かれる（getByIdはnullを返す）。後ろのTodoのpositionは詰められる
+   * - deletedAtを持つTodoがゴミ箱に保存される。versionは変化しない
+   * - deletedWithを指定した場合はゴミ箱のTodoに保存され、restore() の後は残らない
+   * - 子のTodoは変更されない（付け替え・ゴミ箱への移動はハンドラー層で行う）
+   *
+   * @param id - ゴミ箱に移すTodo項目のID（UUID v4形式）
+   * @param deletedAt - ゴミ箱に移した日時（ISO 8601形式）
+   * @param expectedVersion - 期待する現在のバージョン（任意）
+   * @param deletedWith - cascadeで一緒にゴミ箱に移す場合、削除したTodo（グループの根）のID（任意）
+   * @returns ゴミ箱に移したTodo、または該当IDが存在しない場合はnull
+   * @throws {PreconditionFailedError} expectedVersionが現在のバージョンと一致しない場合
+   * @throws ストレージエラーが発生した場合
+   *
+   * @example
+   * ```typescript
+   * const trashed = await storage.trash(id, new Date().toISOString());
+   * ```
+   */
+  trash(
+    id: string,
+    deletedAt: string,
+    expectedVersion?: number,
+    deletedWith?: string
+  ): Promise<TrashedTodo | null>;
+
+  /**
+   * Get all trashed Todo items
+   *
+   * @returns ゴミ箱のすべてのTodo（deletedAtの降順）
+   * @throws ストレージエラーが発生した場合
+   */
+  getTrash(): Promise<TrashedTodo[]>;
+
+  /**
+   * Restore a Todo item from the trash
+   *
+   * ゴミ箱のTodoを一覧に戻します。親の存在・深さの検証はハンドラー層で行います。
+   *
+   * **事後条件**:
+   * - Todoがゴミ箱から取り除かれ、deletedAt・deletedWithを除いた内容で一覧に戻る
+   * - position: 'original' の場合は移す前のランク、'last' の場合は全Todoの末尾のランクを持つ
+   * - versionは変化しない
+   *
+   * @param id - 戻すTodo項目のID（UUID v4形式）
+   * @param parentId - 戻した後の親のID（nullの場合はルート）
+   * @param position - 戻す位置（original: 移す前の位置 / last: 兄弟の末尾）
+   * @returns 戻したTodo、またはゴミ箱に該当IDが存在しない場合はnull
+   * @throws ストレージエラーが発生した場合
+   *
+   * @example
+   * ```typescript
+   * const restored = await storage.restore(id, null, 'last');
+   * ```
+   */
+  restore(id: string, parentId: string | null, position: RestorePosition): Promise<Todo | null>;
+
+  /**
+   * Permanently delete a trashed Todo item
+   *
+   * @param id - 完全に削除するゴミ箱のTodoのID（UUID v4形式）
+   * @returns 削除に成功した場合はtrue、ゴミ箱に該当IDが存在しない場合はfalse
+   * @throws ストレージエラーが発生した場合
+   */
+  purge(id: string): Promise<boolean>;
+
+  /**
+   * Delete every item of the list
+   *
+   * リストのTodo・ゴミ箱・アーカイブ・最終更新日時をすべて完全に削除します。
+   * リストの削除（DELETE /lists/:listId）で使用します。
+   *
+   * **事後条件**:
+   * - getAll() / getTrash() / getArchived() が [] を返す
+   * - getLastModified() がnullを返す
+   * - 他のリストのデータは変化しない
+   *
+   * @throws ストレージエラーが発生した場合
+   */
+  clear(): Promise<void>;
+
+  /**
+   * Archive Todo items
+   *
+   * 指定されたTodoを一覧の並び順から取り除き、アーカイブに移します。
+   * アーカイブでは移す前のランクを保持し、アーカイブの中での並び順に使用します。
+   * 一覧に残るTodoのランクは変わらないため、並び替えの負荷はアーカイブの件数に影響されません。
+   *
+   * **事後条件**:
+   * - 該当するTodoが一覧から取り除かれる（getByIdはnullを返す）。後ろのTodoのpositionは詰められる
+   * - archivedAtを持つTodoがアーカイブに保存される。versionは変化しない
+   * - 存在しないIDは無視される
+   *
+   * @param ids - アーカイブするTodo項目のID配列（子孫を含める場合は呼び出し側で指定する）
+   * @param archivedAt - アーカイブした日時（ISO 8601形式）
+   * @returns アーカイブしたTodo（アーカイブの中でのposition順）
+   * @throws ストレージエラーが発生した場合
+   *
+   * @example
+   * ```typescript
+   * const archived = await storage.archive([id], new Date().toISOString());
+   * ```
+   */
+  archive(ids: readonly string[], archivedAt: string): Promise<ArchivedTodo[]>;
+
+  /**
+   * Get all archived Todo items
+   *
+   * @returns アーカイブしたすべてのTodo（ランク順。positionはアーカイブの中での兄弟の位置）
+   * @throws ストレージエラーが発生した場合
+   */
+  getArchived(): Promise<ArchivedTodo[]>;
+
+  /**
+   * Move a Todo item to a new position
+   *
+   * 指定されたTodoを兄弟（同じ親を持つTodo）の中で新しい位置に移動し、
+   * 他の兄弟のpositionを詰め直します。並び順はランク（utils/rank.ts）で保持するため、通常は移動対象の1件のみが書き込まれます。
+   *
+   * **事前条件**:
+   * - idがUUID v4形式である
+   * - newPositionは0以上の整数である
+   *
+   * **事後条件**:
+   * - 移動したTodoのpositionがnewPositionになる
+   * - 各親の子のpositionが0から始まる連続した整数を維持する（task-reordering要件1.1）
+   * - position順にソートされた全Todoが返される、または該当IDが存在しない場合はnull
+   * - versionは変化しない（並び順はTodoの内容ではないため）
+   *
+   * @param id - 移動するTodo項目のID（UUID v4形式）
+   * @param newPosition - 移動先の位置（0 ≤ newPosition < 兄弟の総数）
+   * @param expectedVersion - 移動するTodoの期待する現在のバージョン（任意）
+   * @returns position順にソートされた全Todo、または該当IDが存在しない場合はnull
+   * @throws {RangeError} newPositionが兄弟の総数以上の場合
+   * @throws {PreconditionFailedError} expectedVersionが現在のバージョンと一致しない場合
+   * @throws ストレージエラーが発生した場合
+   *
+   * @example
+   * ```typescript
+   * // 先頭に移動
+   * const todos = await storage.move('550e8400-...', 0);
+   * if (todos === null) {
+   *   console.log('Todo not found');
+   * }
+   * ```
+   */
+  move(id: string, newPosition: number, expectedVersion?: number): Promise<Todo[] | null>;
+
+  /**
+   * Set the order of all Todo items
+   *
+   * 指定されたIDの並び順で全Todoの並び順を一括設定します。
+   * positionは各親の子の中で、idsに現れる順に0から振り直されます。
+   *
+   * **事前条件**:
+   * - idsは現在のすべてのTodo IDをちょうど1回ずつ含む
+   *
+   * **事後条件**:
+   * - 兄弟同士はidsの順に並ぶ（親がすべてルートの場合、ids[i]のTodoのpositionがiになる）
+   * - position順にソートされた全Todoが返される
+   *
+   * @param ids - 新しい並び順のTodo ID配列
+   * @returns position順にソートされた全Todo
+   * @throws {RangeError} idsが現在のTodo IDの並べ替えになっていない場合
+   * @throws ストレージエラーが発生した場合
+   *
+   * @example
+   * ```typescript
+   * const todos = await storage.setOrder([thirdId, firstId, secondId]);
+   * ```
+   */
+  setOrder(ids: string[]): Promise<Todo[]>;
+
+  /**
+   * Move a Todo item to another list
+   *
+   * 指定されたTodoを子孫とともに、同じテナントの別のリストに移動します。
+   * 移動先ではTodoを親を持たないルートの末尾に置き、子孫の親子関係と並び順は保持します。
+   *
+   * **事前条件**:
+   * - idがUUID v4形式である
+   * - listIdは移動元と異なるリストのIDである（リストの存在と件数の上限はハンドラー層で検証する）
+   *
+   * **事後条件**:
+   * - Todoと子孫が移動元の一覧から取り除かれ、移動先の一覧の末尾に追加される
+   * - 移動したTodoのversionは1つ進む（子孫のversionは変化しない）
+   * - ゴミ箱・アーカイブのTodoは移動しない
+   *
+   * **注意**: D1は1回のbatch（トランザクション）で移動します。リストごとに別のオブジェクト・キーに
+   * 保存するKV・Durable Objectsは、移動先への書き込みを完了させてから移動元から取り除くため、
+   * 途中で失敗した場合は両方のリストに残る可能性があります（Todoが失われることはない）。
+   *
+   * @param id - 移動するTodo項目のID（UUID v4形式）
+   * @param listId - 移動先のリストのID
+   * @returns 移動先での移動したTodo、または該当IDが存在しない場合はnull
+   * @throws ストレージエラーが発生した場合
+   *
+   * @example
+   * ```typescript
+   * const moved = await storage.moveToList(id, '6ba7b810-9dad-41d1-80b4-00c04fd430c8');
+   * ```
+   */
+  moveToList(id: string, listId: string): Promise<Todo | null>;
+
+  /**
+   * Get the last modified time of the todo list
+   *
+   * 作成・更新・削除・並び替えのいずれかが最後に行われた日時を取得します。
+   * 一覧の条件付きGET（Last-Modified / If-Modified-Since）に使用します。
+   *
+   * **事後条件**:
+   * - 書き込みが成功した後は、その書き込み以降の日時が返される
+   * - 一度も書き込みが行われていない場合はnull
+   *
+   * @returns 最終更新日時（ISO 8601形式）、または不明な場合はnull
+   * @throws ストレージエラーが発生した場合
+   *
+   * @example
+   * ```typescript
+   * // 一覧より先に読み込むことで、Last-Modifiedが内容より新しくならないようにする
+   * const lastModified = await storage.getLastModified();
+   * const todos = await storage.getAll();
+   * ```
+   */
+  getLastModified(): Promise<string | null>;
 }
 
 /**
  * Storage Factory
  *
  * ストレージ実装を生成するファクトリー関数の型定義。
- * 環境に応じて適切なストレージ実装を返します。
+ * 環境（バインディングと環境変数）に応じて適切なストレージ実装を返します。
+ * 実装は `createStorage`（storage/factory.ts）を参照してください。
  *
  * @example
  * ```typescript
- * type StorageFactory = (env: Env) => IStorage;
- *
  * const createStorage: StorageFactory = (env) => {
- *   // In production, use Workers KV
- *   if (env.TODO_KV) {
- *     return new KVStorage(env.TODO_KV);
+ *   switch (env.STORAGE_BACKEND) {
+ *     case 'd1':
+ *       return new D1Storage(env.TODO_DB);
+ *     case 'memory':
+ *       return new InMemoryStorage();
+ *     default:
+ *       return new KVStorage(env.TODO_KV);
  *   }
- *   // In tests, use mock storage
- *   return new MockStorage();
  * };
  * ```
  */
-export type StorageFactory = (kv: KVNamespace) => IStorage;
+export type StorageFactory = (env: Env, listId?: string, tenantId?: string) => IStorage;
+
+/**
+ * List Storage Interface
+ *
+ * Todoリストの一覧（名前付きリストの登録）の永続化を抽象化するインターフェース。
+ * 1つのインスタンスは1つのテナントのリストのみを扱います。
+ * 各リストのTodoはリストのIDを指定して生成したIStorageで扱います。
+ *
+ * 実装例:
+ * - KVListStorage / D1ListStorage / DurableListStorage / InMemoryListStorage
+ *   （それぞれ同じバックエンドのIStorage実装と同じファイルに定義）
+ *
+ * @example
+ * ```typescript
+ * const lists = createListStorage(env);
+ * const list = await lists.putList({
+ *   id: crypto.randomUUID(),
+ *   name: 'Sprint',
+ *   createdAt: new Date().toISOString(),
+ * });
+ * const storage = createStorage(env, list.id);
+ * ```
+ */
+export interface IListStorage {
+  /**
+   * Get all registered lists
+   *
+   * @returns 登録されたすべてのリスト（createdAtの昇順。createdAtのないリストが先）
+   * @throws ストレージエラーが発生した場合
+   */
+  getLists(): Promise<TodoList[]>;
+
+  /**
+   * Get a registered list by ID
+   *
+   * @param id - リストのID
+   * @returns 該当するリスト、または登録されていない場合はnull
+   * @throws ストレージエラーが発生した場合
+   */
+  getList(id: string): Promise<TodoList | null>;
+
+  /**
+   * Create or replace a list
+   *
+   * @param list - 保存するリスト（同じIDのリストがある場合は置き換える）
+   * @returns 保存したリスト
+   * @throws ストレージエラーが発生した場合
+   */
+  putList(list: TodoList): Promise<TodoList>;
+
+  /**
+   * Delete a list
+   *
+   * リストの登録のみを削除します。リストのTodoは呼び出し側でIStorage.clear()により削除します。
+   *
+   * @param id - リストのID
+   * @returns 削除に成功した場合はtrue、登録されていない場合はfalse
+   * @throws ストレージエラーが発生した場合
+   */
+  deleteList(id: string): Promise<boolean>;
+}
+
+/**
+ * List Storage Factory
+ *
+ * リストの一覧を保存するストレージ実装を生成するファクトリー関数の型定義。
+ * 実装は `createListStorage`（storage/factory.ts）を参照してください。
+ */
+export type ListStorageFactory = (env: Env, tenantId?: string) => IListStorage;
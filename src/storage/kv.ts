@@ -10,8 +10,95 @@
  * - Workers KV実装詳細 (design.md)
  */
 
-import type { IStorage } from './interface';
-import type { Todo } from '../models/todo';
+import type { IStorage, IListStorage } from './interface';
+import { DEFAULT_LIST_ID } from '../models/list';
+import { DEFAULT_TENANT_ID } from '../models/tenant';
+import type { TodoList } from '../models/list';
+import { TODO_CONSTRAINTS } from '../models/todo';
+import type {
+  Todo,
+  StoredTodo,
+  StoredTrashedTodo,
+  TrashedTodo,
+  RestorePosition,
+  StoredArchivedTodo,
+  ArchivedTodo,
+} from '../models/todo';
+import {
+  reorderPositions,
+  reorderWithinParent,
+  applyOrder,
+  assertPositionInRange,
+  siblingsOf,
+} from '../utils/ordering';
+import {
+  migrateToRanks,
+  rankAfter,
+  rankForMove,
+  rerank,
+  sortByRank,
+  toTodo,
+  toTodos,
+} from '../utils/rank';
+import type { LegacyStoredTodo } from '../utils/rank';
+import { assertVersionMatches } from '../utils/etag';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { normalizeDue } from '../utils/due';
+import { normalizeParent } from '../utils/tree';
+import { normalizeRecurrence } from '../utils/recurrence';
+import { restoredRank, sortTrash, toStoredTrashedTodo, toTrashedTodo } from '../utils/trash';
+import { movedSubtree, sortLists } from '../utils/lists';
+import { tenantKeyPrefix } from '../utils/tenant';
+
+/**
+ * KV Index Entry
+ *
+ * インデックスに保持するTodoの要約。並び順と階層の計算、バージョンの照合に必要なフィールドのみを持ち、
+ * タイトルやメモなどの本文は `todos:{uuid}` キーから読み込みます。
+ * 1件あたり約150バイトのため、Todoの件数に関わらずインデックスはKVの値の上限（25MiB）に収まります。
+ */
+interface KVIndexEntry {
+  id: string;
+  rank: string;
+  version: number;
+  parentId?: string | null;
+}
+
+/**
+ * KV Index Document
+ *
+ * `meta:index` キーに保存する一覧のインデックス。全Todoの要約をランク順に保持します。
+ * 要約導入前のインデックスは全Todo（StoredTodo）を保持していますが、同じ形式として読み込めます。
+ */
+interface KVIndex {
+  todos: KVIndexEntry[];
+}
+
+/**
+ * Convert a todo to its index entry
+ *
+ * @param todo - 保存済みTodo、またはインデックスのエントリー
+ * @returns インデックスに保存する要約
+ */
+function toIndexEntry({ id, rank, version, parentId }: KVIndexEntry): KVIndexEntry {
+  return parentId ? { id, rank, version, parentId } : { id, rank, version };
+}
+
+/**
+ * Compute the position of an indexed todo among its siblings
+ *
+ * @param index - ランク順のインデックスのエントリー
+ * @param at - インデックスの中での添字（末尾に追加する場合はindex.length）
+ * @param parentId - 親のID
+ * @returns 兄弟の中でのposition
+ */
+function positionAt(
+  index: readonly KVIndexEntry[],
+  at: number,
+  parentId: string | null | undefined
+): number {
+  return siblingsOf(index.slice(0, at), parentId).length;
+}
 
 /**
  * Workers KV Storage
@@ -21,8 +108,33 @@ import type { Todo } from '../models/todo';
  * 高速な読み込みを実現します。
  *
  * **キー設計**:
- * - `todos:{uuid}` - 個別のTodo項目
- * - KV List APIで `todos:` プレフィックスを持つすべてのキーを取得
+ * - `todos:{uuid}` - 個別のTodo項目（StoredTodo）。Todoの本文の正本
+ * - `meta:index` - 全Todoの要約（KVIndexEntry）をランク順に保持するインデックス。
+ *   一覧に含まれるTodoと並び順・階層の正本で、書き込みのたびに更新
+ * - `meta:lastModified` - 一覧の最終更新日時（ISO 8601）。書き込みのたびに更新
+ * - `trash:{uuid}` - ゴミ箱のTodo（StoredTrashedTodo。移す前のランクを保持）。インデックスには含まれない
+ * - `archive:{uuid}` - アーカイブしたTodo（StoredArchivedTodo。移す前のランクを保持）。インデックスには含まれない
+ *
+ * デフォルト以外のリストでは、上記のすべてのキーの前に `lists:{listId}:` が付きます
+ * （例: `lists:{listId}:todos:{uuid}`）。デフォルトのリストのキーはリスト導入前と同じです。
+ * デフォルト以外のテナントでは、さらにその前に `t:{tenantId}:` が付きます
+ * （例: `t:{tenantId}:todos:{uuid}`）。デフォルトのテナントのキーはテナント導入前と同じです。
+ *
+ * **インデックスと整合性**:
+ * - 作成・削除・ゴミ箱への移動・復元はインデックスのみを読み込み、各Todoは読み込まない
+ * - 一覧の取得はインデックスと `todos:` プレフィックスのキーの一覧を読み込み、各Todoをバルク読み込み
+ *   （100件ごとに1回）で取得する
+ * - KV List APIの結果は最終的整合性のため書き込み直後に古い場合があり、インデックスにないTodoを
+ *   見つけるためにのみ使用する（一覧にないことを理由にTodoを除外しない）
+ * - KVはトランザクションを持たないため、同時書き込みでインデックスが各Todoとずれる可能性がある
+ *   （同時に作成されたTodoがインデックスから失われるなど）。
+ *   インデックスのversionとTodoのversionが一致しない、Todoが存在しない、またはインデックスにないTodoが
+ *   見つかった場合は警告をログに出力する。インデックスにないTodoは保存されたランクで結果に含め、
+ *   IDを指定した取得・更新・削除では `todos:{id}` キーから読み込む
+ * - 読み込みのみの操作ではインデックスを書き換えない（書き込みを伴う操作で読み込んだTodoを含めて保存し直すほか、
+ *   rebuildIndex() で明示的に修復する）
+ * - インデックスが存在しない場合（インデックス導入前のデータ）は `todos:` プレフィックスのキーから読み込み、
+ *   最初の書き込み時にインデックスを作成する
  *
  * **Eventual Consistency考慮事項**:
  * - Workers KVは最終的整合性（eventual consistency）を提供
@@ -36,8 +148,9 @@ import type { Todo } from '../models/todo';
  * - 削除: 非同期、即座に返却
  *
  * **制限事項**:
- * - KV List APIは最大1000件まで取得可能
- * - 本アプリケーションは最大500件に制限するため、この制限内に収まる
+ * - KVのバルク読み込みは1回の呼び出しで最大100件のため、同時実行数を制限して分割して読み込む
+ * - KV List APIは1回の呼び出しで最大1000件を返すため、list_completeになるまでcursorで続きを取得する
+ *   （インデックスの再構築とゴミ箱・アーカイブの読み込みのみ）
  *
  * @example
  * ```typescript
@@ -49,6 +162,8 @@ import type { Todo } from '../models/todo';
  *   title: 'Buy groceries',
  *   completed: false,
  *   createdAt: new Date().toISOString(),
+ *   position: 0,
+ *   version: 1,
  * });
  *
  * // Get all todos
@@ -68,25 +183,88 @@ export class KVStorage implements IStorage {
    */
   private kv: KVNamespace;
 
+  /**
+   * Tenant ID this instance reads and writes (used to reach the other lists of the tenant)
+   * @private
+   */
+  private readonly tenantId: string;
+
   /**
    * Key prefix for all Todo items
    * @private
    */
-  private readonly KEY_PREFIX = 'todos:';
+  private readonly KEY_PREFIX: string;
+
+  /**
+   * Key prefix for trashed Todo items
+   * `todos:` プレフィックスを持たないため、一覧の取得には含まれない
+   * @private
+   */
+  private readonly TRASH_PREFIX: string;
+
+  /**
+   * Key prefix for archived Todo items
+   * `todos:` プレフィックスを持たないため、一覧の取得には含まれない
+   * @private
+   */
+  private readonly ARCHIVE_PREFIX: string;
+
+  /**
+   * Key for the last modified time of the list
+   * `todos:` プレフィックスを持たないため、一覧の取得には含まれない
+   * @private
+   */
+  private readonly LAST_MODIFIED_KEY: string;
+
+  /**
+   * Key for the index document
+   * `todos:` プレフィックスを持たないため、一覧の取得には含まれない
+   * @private
+   */
+  private readonly INDEX_KEY: string;
+
+  /**
+   * Maximum number of concurrent KV reads/writes when processing every todo
+   * @private
+   */
+  private readonly CONCURRENCY = 20;
+
+  /**
+   * Maximum number of keys of a single bulk read
+   * @private
+   */
+  private readonly BULK_GET_LIMIT = 100;
 
   /**
    * Constructor
    *
    * @param kv - Workers KV Namespace binding
+   * @param listId - TodoリストのID（デフォルト: デフォルトのリスト）
+   * @param tenantId - テナントのID（デフォルト: デフォルトのテナント）
    *
    * @example
    * ```typescript
    * // In Hono handler
    * const storage = new KVStorage(c.env.TODO_KV);
+   *
+   * // Another list of another tenant
+   * const sprint = new KVStorage(c.env.TODO_KV, listId, 'team-a');
    * ```
    */
-  constructor(kv: KVNamespace) {
+  constructor(
+    kv: KVNamespace,
+    listId: string = DEFAULT_LIST_ID,
+    tenantId: string = DEFAULT_TENANT_ID
+  ) {
     this.kv = kv;
+    this.tenantId = tenantId;
+    const scope =
+      tenantKeyPrefix(tenantId) + (listId === DEFAULT_LIST_ID ? '' : `lists:${listId}:`);
+    this.KEY_PREFIX = `${scope}todos:`;
+    this.TRASH_PREFIX = `${scope}trash:`;
+    this.ARCHIVE_PREFIX = `${scope}archive:`;
+    this.LAST_MODIFIED_KEY = `${scope}meta:lastModified`;
+    this.INDEX_KEY = `${scope}meta:index`;
   }
 
   /**
@@ -100,14 +278,352 @@ export class KVStorage implements IStorage {
     return `${this.KEY_PREFIX}${id}`;
   }
 
+  /**
+   * Generate KV key for a trashed Todo item
+   *
+   * @param id - Todo item ID
+   * @returns KV key in format `trash:{id}`
+   * @private
+   */
+  private getTrashKey(id: string): string {
+    return `${this.TRASH_PREFIX}${id}`;
+  }
+
+  /**
+   * Generate KV key for an archived Todo item
+   *
+   * @param id - Todo item ID
+   * @returns KV key in format `archive:{id}`
+   * @private
+   */
+  private getArchiveKey(id: string): string {
+    return `${this.ARCHIVE_PREFIX}${id}`;
+  }
+
+  /**
+   * Read a trashed Todo item
+   *
+   * @param key - `trash:` プレフィックスを持つキー
+   * @returns ゴミ箱のTodo、または存在しない場合はnull
+   * @private
+   */
+  private async getTrashed(key: string): Promise<StoredTrashedTodo | null> {
+    const json = await this.kv.get(key);
+    return json === null ? null : (JSON.parse(json) as StoredTrashedTodo);
+  }
+
+  /**
+   * Read many keys with bulk reads
+   *
+   * BULK_GET_LIMIT件ごとに分割し、同時実行数を制限して読み込みます。
+   *
+   * @param keys - 読み込むキー
+   * @returns keysと同じ順の値（存在しないキーはnull）
+   * @private
+   */
+  private async getMany(keys: readonly string[]): Promise<(string | null)[]> {
+    const chunks: string[][] = [];
+    for (let i = 0; i < keys.length; i += this.BULK_GET_LIMIT) {
+      chunks.push(keys.slice(i, i + this.BULK_GET_LIMIT));
+    }
+    const results = await mapWithConcurrency(chunks, this.CONCURRENCY, (chunk) =>
+      this.kv.get(chunk, 'text')
+    );
+    const values = new Map(results.flatMap((result) => [...result]));
+    return keys.map((key) => values.get(key) ?? null);
+  }
+
+  /**
+   * Save a stored Todo item
+   *
+   * @param todo - 保存するTodo項目
+   * @private
+   */
+  private async put(todo: StoredTodo): Promise<void> {
+    await this.kv.put(this.getKey(todo.id), JSON.stringify(todo));
+  }
+
+  /**
+   * Save the index document
+   *
+   * @param todos - 全Todoまたはそのエントリー（保存時に要約にしてランク順にソートする）
+   * @private
+   */
+  private async putIndex(todos: readonly KVIndexEntry[]): Promise<void> {
+    const index: KVIndex = { todos: sortByRank(todos.map(toIndexEntry)) };
+    await this.kv.put(this.INDEX_KEY, JSON.stringify(index));
+  }
+
+  /**
+   * Read the index document
+   *
+   * @returns ランク順のインデックスのエントリー。インデックスが存在しない、または形式が不正な場合はnull
+   * @private
+   */
+  private async getIndex(): Promise<KVIndexEntry[] | null> {
+    const json = await this.kv.get(this.INDEX_KEY);
+    if (json === null) {
+      return null;
+    }
+    try {
+      const index = JSON.parse(json) as Partial<KVIndex>;
+      return Array.isArray(index.todos) ? index.todos.map(toIndexEntry) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Record the current time as the last modified time of the list
+   *
+   * @private
+   */
+  private async touch(): Promise<void> {
+    await this.kv.put(this.LAST_MODIFIED_KEY, new Date().toISOString());
+  }
+
+  /**
+   * List all Todo keys
+   *
+   * KV List APIは1回の呼び出しで最大1000件のキーを返すため、
+   * list_completeになるまでcursorを使って続きを取得します。
+   *
+   * @param prefix - キーのプレフィックス（デフォルト: `todos:`）
+   * @returns プレフィックスを持つすべてのキー
+   * @private
+   */
+  private async listKeys(prefix = this.KEY_PREFIX): Promise<KVNamespaceListKey<unknown>[]> {
+    const keys: KVNamespaceListKey<unknown>[] = [];
+    let cursor: string | undefined;
+    for (;;) {
+      const page = await this.kv.list({ prefix, cursor });
+      keys.push(...page.keys);
+      if (page.list_complete) {
+        return keys;
+      }
+      cursor = page.cursor;
+    }
+  }
+
+  /**
+   * Parse a stored Todo item with the rank of its index entry
+   *
+   * versionを持たないTodo（バージョン導入前のデータ）は初期バージョンとして扱います。
+   *
+   * @param json - `todos:{id}` キーの値
+   * @param entry - インデックスのエントリー
+   * @returns インデックスのランクを持つ保存済みTodo
+   * @private
+   */
+  private parseTodo(json: string, entry: KVIndexEntry): StoredTodo {
+    const { position, ...fields } = JSON.parse(json) as LegacyStoredTodo;
+    return {
+      ...fields,
+      version: fields.version ?? TODO_CONSTRAINTS.INITIAL_VERSION,
+      rank: entry.rank,
+    };
+  }
+
+  /**
+   * Parse a stored Todo item missing from the index
+   *
+   * 同時書き込みでインデックスから失われたTodoは、保存されたランク（ない場合は末尾）で読み込みます。
+   *
+   * @param json - `todos:{id}` キーの値
+   * @param index - ランク順のインデックスのエントリー
+   * @returns 保存済みTodo
+   * @private
+   */
+  private parseOrphan(json: string, index: readonly KVIndexEntry[]): StoredTodo {
+    const { position, ...fields } = JSON.parse(json) as LegacyStoredTodo;
+    return {
+      ...fields,
+      version: fields.version ?? TODO_CONSTRAINTS.INITIAL_VERSION,
+      rank: fields.rank ?? rankAfter(index.at(-1)?.rank ?? null),
+    };
+  }
+
+  /**
+   * Warn that the index is out of sync with the todos
+   *
+   * @param count - ずれているTodoの件数
+   * @private
+   */
+  private warnDrift(count: number): void {
+    console.warn(
+      `KV index ${this.INDEX_KEY} is out of sync with ${count} todo(s). Run rebuildIndex() to repair it.`
+    );
+  }
+
+  /**
+   * Load the index
+   *
+   * インデックスが存在しない場合は `todos:` プレフィックスのキーから読み込みます。
+   * 読み込みのみの操作では保存せず、書き込みを伴う操作（migrate）では再構築したインデックスを保存します。
+   *
+   * @param migrate - インデックスが存在しない場合に再構築して保存する場合はtrue
+   * @returns ランク順のインデックスのエントリー
+   * @private
+   */
+  private async loadIndex(migrate = false): Promise<KVIndexEntry[]> {
+    const index = await this.getIndex();
+    if (index !== null) {
+      return index;
+    }
+    return migrate ? this.rebuild() : (await this.scan()).stored;
+  }
+
+  /**
+   * Load all stored Todo items sorted by rank
+   *
+   * インデックスの順に各Todoをバルク読み込みします。`todos:` プレフィックスのキーの一覧と照合し、
+   * インデックスにないTodo（同時書き込みで失われたエントリー）も読み込んで、保存されたランクの位置に含めます。
+   * インデックスとTodoのversionが一致しない、Todoが存在しない、またはインデックスにないTodoがある場合は
+   * 警告をログに出力します（存在しないTodoは結果に含めません）。
+   *
+   * @param migrate - インデックスが存在しない場合に再構築して保存する場合はtrue
+   * @returns ランク順にソートされた保存済みTodo配列
+   * @private
+   */
+  private async loadAll(migrate = false): Promise<StoredTodo[]> {
+    const [index, keys] = await Promise.all([this.getIndex(), this.listKeys()]);
+    if (index === null) {
+      return migrate ? this.rebuild(keys) : (await this.scan(keys)).stored;
+    }
+
+    const indexed = index.map(({ id }) => this.getKey(id));
+    const known = new Set(indexed);
+    const unindexed = keys.map(({ name }) => name).filter((name) => !known.has(name));
+    const values = await this.getMany([...indexed, ...unindexed]);
+    const todos: StoredTodo[] = [];
+    let drifted = 0;
+    index.forEach((entry, i) => {
+      const json = values[i];
+      if (json === null || json === undefined) {
+        drifted++;
+        return;
+      }
+      const todo = this.parseTodo(json, entry);
+      if (todo.version !== entry.version) {
+        drifted++;
+      }
+      todos.push(todo);
+    });
+    // 一覧が古い場合、直前に削除されたTodoのキーが含まれることがある
+    const orphans = values
+      .slice(index.length)
+      .filter((json): json is string => json !== null)
+      .map((json) => this.parseOrphan(json, index));
+    if (drifted + orphans.length > 0) {
+      this.warnDrift(drifted + orphans.length);
+    }
+    return orphans.length > 0 ? sortByRank([...todos, ...orphans]) : todos;
+  }
+
+  /**
+   * Load a stored Todo item with the index
+   *
+   * インデックスと `todos:{id}` キーを並行して読み込みます。
+   * Todoがインデックスにない場合（同時書き込みで失われたエントリー）は警告をログに出力し、
+   * 保存されたランクの位置に補ったインデックスを返します（書き込みを伴う操作ではそのまま保存されます）。
+   *
+   * @param id - Todo項目のID
+   * @param migrate - インデックスが存在しない場合に再構築して保存する場合はtrue
+   * @returns インデックス、インデックスの中での添字、保存済みTodo。
+   *          `todos:{id}` キーに存在しない場合はnull
+   * @private
+   */
+  private async loadTodo(
+    id: string,
+    migrate = false
+  ): Promise<{ index: KVIndexEntry[]; at: number; todo: StoredTodo } | null> {
+    const [index, json] = await Promise.all([
+      this.loadIndex(migrate),
+      this.kv.get(this.getKey(id)),
+    ]);
+    if (json === null) {
+      return null;
+    }
+    const at = index.findIndex((entry) => entry.id === id);
+    const entry = index[at];
+    if (entry !== undefined) {
+      return { index, at, todo: this.parseTodo(json, entry) };
+    }
+
+    this.warnDrift(1);
+    const todo = this.parseOrphan(json, index);
+    const entries = sortByRank([...index, toIndexEntry(todo)]);
+    return { index: entries, at: entries.findIndex((e) => e.id === id), todo };
+  }
+
+  /**
+   * Read every Todo item of the `todos:` prefix
+   *
+   * 同時実行数を制限しながらすべてのTodo項目を読み込みます。
+   * rankフィールドがないTodo（ランク導入前のデータ）には、保存済みのposition順
+   * （positionもない場合は末尾）にランクを割り当てます。
+   *
+   * @param keys - 一覧済みのキー（省略時はKV List APIで一覧する）
+   * @returns ランク順にソートされた保存済みTodo配列と、ランクを割り当てたTodo
+   * @private
+   */
+  private async scan(
+    keys?: KVNamespaceListKey<unknown>[]
+  ): Promise<{ stored: StoredTodo[]; migrated: StoredTodo[] }> {
+    const listed = keys ?? (await this.listKeys());
+    const values = await this.getMany(listed.map(({ name }) => name));
+    const records = values
+      .filter((json): json is string => json !== null)
+      .map((json) => JSON.parse(json) as LegacyStoredTodo);
+    const { stored, migrated } = migrateToRanks(records);
+    return { stored: sortByRank(stored), migrated };
+  }
+
+  /**
+   * Rebuild the index from the `todos:` prefix
+   *
+   * ランクを割り当てたTodoをWorkers KVに保存し、インデックスを保存し直します。
+   *
+   * @param keys - 一覧済みのキー（省略時はKV List APIで一覧する）
+   * @returns ランク順にソートされた保存済みTodo配列
+   * @private
+   */
+  private async rebuild(keys?: KVNamespaceListKey<unknown>[]): Promise<StoredTodo[]> {
+    const { stored, migrated } = await this.scan(keys);
+    if (migrated.length > 0) {
+      await mapWithConcurrency(migrated, this.CONCURRENCY, (todo) => this.put(todo));
+    }
+    await this.putIndex(stored);
+    return stored;
+  }
+
+  /**
+   * Rebuild the index document
+   *
+   * `todos:` プレフィックスのすべてのキーからインデックスを再構築します。
+   * 読み込み時にインデックスのずれが警告された場合に、運用時に明示的に整合性を修復するために使用します。
+   * KV List APIの結果は書き込み直後に古い場合があるため、書き込みの少ない時間帯に実行してください。
+   *
+   * @returns position順にソートされた全Todo
+   *
+   * @example
+   * ```typescript
+   * const todos = await new KVStorage(env.TODO_KV).rebuildIndex();
+   * console.log(`Rebuilt index with ${todos.length} todos`);
+   * ```
+   */
+  async rebuildIndex(): Promise<Todo[]> {
+    return toTodos(await this.rebuild());
+  }
+
   /**
    * Create a new Todo item
    *
    * Todo項目を作成し、Workers KVに保存します。
-   * キー形式は `todos:{uuid}` で、値はJSONシリアライズされたTodoオブジェクトです。
+   * キー形式は `todos:{uuid}` で、値は末尾のランクを割り当てたTodo（StoredTodo）のJSONです。
    *
    * @param todo - 作成するTodo項目
-   * @returns 作成されたTodo項目
+   * @returns 作成されたTodo項目（末尾のposition）
    *
    * @example
    * ```typescript
@@ -116,32 +632,32 @@ export class KVStorage implements IStorage {
    *   title: '買い物リストを作成する',
    *   completed: false,
    *   createdAt: '2025-10-27T10:30:00.000Z',
+   *   position: 0,
+   *   version: 1,
    * });
    * ```
    */
   async create(todo: Todo): Promise<Todo> {
-    const key = this.getKey(todo.id);
-    await this.kv.put(key, JSON.stringify(todo));
-    return todo;
+    const index = await this.loadIndex(true);
+    const { position, ...fields } = todo;
+    const stored: StoredTodo = normalizeParent({
+      ...fields,
+      rank: rankAfter(index.at(-1)?.rank ?? null),
+    });
+    // インデックスが存在しないTodoを指さないよう、Todoを先に保存する
+    await this.put(stored);
+    await Promise.all([this.putIndex([...index, stored]), this.touch()]);
+    return toTodo(stored, positionAt(index, index.length, stored.parentId));
   }
 
   /**
    * Get all Todo items
    *
-   * Workers KV List APIを使用してすべてのTodoキーを取得し、
-   * Promise.allで並行してすべてのTodo項目を読み込みます。
-   *
    * **パフォーマンス最適化**:
-   * - KV List APIでキー一覧を取得（50-100ms）
-   * - Promise.allで全Todoを並行取得（エッジキャッシュで高速化）
-   *
-   * **自動position割り当て（マイグレーション対応）**:
-   * - positionフィールドがないTodoを検出
-   * - 連続した整数（0, 1, 2, ...）を自動割り当て
-   * - 更新されたTodoをWorkers KVに保存
-   * - task-reordering要件1.2に準拠
+   * - インデックスとキーの一覧の取得（並行）と、各Todoのバルク読み込み（100件ごとに1回、同時実行数を制限して並行）
+   * - キーの一覧はインデックスにないTodoを見つけるためにのみ使用する
    *
-   * @returns すべてのTodo項目の配列（position順にソート済み）
+   * @returns すべてのTodo項目の配列（ランク順から算出したposition順にソート済み）
    *
    * @example
    * ```typescript
@@ -151,43 +667,14 @@ export class KVStorage implements IStorage {
    * ```
    */
   async getAll(): Promise<Todo[]> {
-    // KV List APIで todos: プレフィックスを持つすべてのキーを取得
-    const list = await this.kv.list({ prefix: this.KEY_PREFIX });
-    const keys = list.keys.map((key) => key.name);
-
-    // 並行してすべてのTodoを取得（パフォーマンス最適化）
-    const todosJson = await Promise.all(keys.map((key) => this.kv.get(key)));
-
-    // nullをフィルタリングし、JSONをパース（anyキャストで型チェックを回避、後でTodoに変換）
-    let todos = todosJson
-      .filter((json): json is string => json !== null)
-      .map((json) => JSON.parse(json) as any);
-
-    // positionフィールドがないTodoを検出し、自動割り当て
-    let needsUpdate = false;
-    todos = todos.map((todo: any, index: number) => {
-      if (todo.position === undefined) {
-        needsUpdate = true;
-        return { ...todo, position: index } as Todo;
-      }
-      return todo as Todo;
-    });
-
-    // 自動割り当てが発生した場合、Workers KVに保存
-    if (needsUpdate) {
-      await Promise.all(
-        todos.map((todo: Todo) => this.kv.put(this.getKey(todo.id), JSON.stringify(todo)))
-      );
-    }
-
-    // position順にソート（task-reordering要件1.4）
-    return todos.sort((a: Todo, b: Todo) => a.position - b.position);
+    return toTodos(await this.loadAll());
   }
 
   /**
    * Get a Todo item by ID
    *
-   * 指定されたIDのTodo項目をWorkers KVから取得します。
+   * インデックスと `todos:{id}` キーのみを読み込み、positionはインデックスのランク順から算出します。
+   * 同時書き込みでインデックスから失われたTodoも `todos:{id}` キーから読み込みます。
    *
    * @param id - Todo項目のID（UUID v4形式）
    * @returns 該当するTodo項目、または存在しない場合はnull
@@ -203,14 +690,12 @@ export class KVStorage implements IStorage {
    * ```
    */
   async getById(id: string): Promise<Todo | null> {
-    const key = this.getKey(id);
-    const json = await this.kv.get(key);
-
-    if (json === null) {
+    const loaded = await this.loadTodo(id);
+    if (!loaded) {
       return null;
     }
-
-    return JSON.parse(json) as Todo;
+    const { index, at, todo } = loaded;
+    return toTodo(todo, positionAt(index, at, todo.parentId));
   }
 
   /**
@@ -221,11 +706,19 @@ export class KVStorage implements IStorage {
    *
    * **不変条件**:
    * - `id` と `createdAt` は変更されません
+   * - 並び順は move() / setOrder() でのみ変更されます（positionは無視）
+   * - `version` は1増加します
    * - 指定されていないフィールドは元の値を保持します
    *
+   * **注意**: KVはcompare-and-swapを持たないため、expectedVersionの比較は
+   * 読み込みと書き込みの間に他の更新が割り込む可能性を排除しません
+   * （古いタブからの上書きの大部分は検出できます）。
+   *
    * @param id - Todo項目のID（UUID v4形式）
    * @param updates - 更新するフィールド（部分的なTodoオブジェクト）
+   * @param expectedVersion - 期待する現在のバージョン（任意）
    * @returns 更新されたTodo項目、または存在しない場合はnull
+   * @throws {PreconditionFailedError} expectedVersionが現在のバージョンと一致しない場合
    *
    * @example
    * ```typescript
@@ -240,26 +733,39 @@ export class KVStorage implements IStorage {
    * });
    * ```
    */
-  async update(id: string, updates: Partial<Todo>): Promise<Todo | null> {
+  async update(id: string, updates: Partial<Todo>, expectedVersion?: number): Promise<Todo | null> {
     // 既存のTodoを取得
-    const existing = await this.getById(id);
-    if (existing === null) {
+    const loaded = await this.loadTodo(id, true);
+    if (!loaded) {
       return null;
     }
+    const { index, at, todo: existing } = loaded;
+    assertVersionMatches(existing.version, expectedVersion);
 
     // 不変条件: id と createdAt は変更されない
-    const updated: Todo = {
-      ...existing,
-      ...updates,
-      id: existing.id, // id は変更されない
-      createdAt: existing.createdAt, // createdAt は変更されない
-    };
+    const { position, ...fields } = updates;
+    const updated: StoredTodo = normalizeRecurrence(
+      normalizeParent(
+        normalizeDue({
+          ...existing,
+          ...fields,
+          id: existing.id, // id は変更されない
+          createdAt: existing.createdAt, // createdAt は変更されない
+          rank: existing.rank, // 並び順は変更されない
+          version: existing.version + 1,
+        })
+      )
+    );
 
-    // 更新されたTodoを保存
-    const key = this.getKey(id);
-    await this.kv.put(key, JSON.stringify(updated));
+    // 更新されたTodoとインデックスを保存
+    await this.put(updated);
+    await Promise.all([
+      this.putIndex(index.map((entry) => (entry.id === id ? updated : entry))),
+      this.touch(),
+    ]);
 
-    return updated;
+    // 親が変わった場合も、positionは新しい兄弟の中でのランク順の位置になる
+    return toTodo(updated, positionAt(index, at, updated.parentId));
   }
 
   /**
@@ -268,13 +774,15 @@ export class KVStorage implements IStorage {
    * 指定されたIDのTodo項目を削除します。
    * 存在確認を行ってから削除するため、存在しないIDの場合はfalseを返します。
    *
-   * **位置調整（task-reordering）**:
-   * - 削除されたタスクより後ろの位置にあるタスクのpositionを-1
-   * - 連続した整数を維持（0, 1, 2, ...）
-   * - task-reordering要件1.3に準拠
+   * **位置調整（task-reordering要件1.3）**:
+   * - 他のTodoのランクは変わらないため、書き込みは削除対象の1件とインデックスのみ
+   * - インデックスが存在しないTodoを指さないよう、インデックスから先に取り除く
+   * - 後ろのタスクのpositionは読み込み時に詰められる
    *
    * @param id - Todo項目のID（UUID v4形式）
+   * @param expectedVersion - 期待する現在のバージョン（任意）
    * @returns 削除に成功した場合はtrue、該当IDが存在しない場合はfalse
+   * @throws {PreconditionFailedError} expectedVersionが現在のバージョンと一致しない場合
    *
    * @example
    * ```typescript
@@ -286,42 +794,199 @@ export class KVStorage implements IStorage {
    * }
    * ```
    */
-  async delete(id: string): Promise<boolean> {
-    // 存在確認と削除対象の位置を取得
-    const existing = await this.getById(id);
-    if (existing === null) {
+  async delete(id: string, expectedVersion?: number): Promise<boolean> {
+    // 存在確認
+    const loaded = await this.loadTodo(id, true);
+    if (!loaded) {
       return false;
     }
+    assertVersionMatches(loaded.todo.version, expectedVersion);
 
-    const deletedPosition = existing.position;
+    await this.putIndex(loaded.index.filter((entry) => entry.id !== id));
+    await Promise.all([this.kv.delete(this.getKey(id)), this.touch()]);
+    return true;
+  }
 
-    // Todoを削除
-    const key = this.getKey(id);
-    await this.kv.delete(key);
+  /**
+   * Move a Todo item to the trash
+   *
+   * `trash:{id}` キーにランクを保持したまま保存し、`todos:{id}` キーとインデックスから取り除きます。
+   *
+   * **注意**: KVはトランザクションを持たないため、書き込みの途中で失敗した場合は
+   * 一覧とゴミ箱の両方に残る可能性があります（ゴミ箱の書き込みを先に完了させ、Todoを失わないようにする）。
+   *
+   * @param id - Todo項目のID（UUID v4形式）
+   * @param deletedAt - ゴミ箱に移した日時（ISO 8601形式）
+   * @param expectedVersion - 期待する現在のバージョン（任意）
+   * @returns ゴミ箱に移したTodo、または該当IDが存在しない場合はnull
+   * @throws {PreconditionFailedError} expectedVersionが現在のバージョンと一致しない場合
+   */
+  async trash(
+    id: string,
+    deletedAt: string,
+    expectedVersion?: number,
+    deletedWith?: string
+  ): Promise<TrashedTodo | null> {
+    const loaded = await this.loadTodo(id, true);
+    if (!loaded) {
+      return null;
+    }
+    assertVersionMatches(loaded.todo.version, expectedVersion);
 
-    // 削除後、後ろのタスクの位置を調整（task-reordering要件1.3）
-    const allTodos = await this.getAll();
+    const trashed = toStoredTrashedTodo(loaded.todo, deletedAt, deletedWith);
+    await this.kv.put(this.getTrashKey(id), JSON.stringify(trashed));
+    await this.putIndex(loaded.index.filter((entry) => entry.id !== id));
+    await Promise.all([this.kv.delete(this.getKey(id)), this.touch()]);
+    return toTrashedTodo(trashed);
+  }
 
-    // 削除されたタスクより後ろの位置にあるタスクを特定し、positionを-1
-    const todosToUpdate = allTodos.filter((todo) => todo.position > deletedPosition);
+  /**
+   * Get all trashed Todo items
+   *
+   * `trash:` プレフィックスのキーを一覧し、同時実行数を制限して読み込みます。
+   *
+   * @returns ゴミ箱のすべてのTodo（deletedAtの降順）
+   */
+  async getTrash(): Promise<TrashedTodo[]> {
+    const keys = await this.listKeys(this.TRASH_PREFIX);
+    const trashed = await mapWithConcurrency(keys, this.CONCURRENCY, ({ name }) =>
+      this.getTrashed(name)
+    );
+    return sortTrash(
+      trashed.filter((todo): todo is StoredTrashedTodo => todo !== null).map(toTrashedTodo)
+    );
+  }
 
-    if (todosToUpdate.length > 0) {
-      // position を-1して保存
-      await Promise.all(
-        todosToUpdate.map((todo) =>
-          this.kv.put(
-            this.getKey(todo.id),
-            JSON.stringify({ ...todo, position: todo.position - 1 })
-          )
-        )
-      );
+  /**
+   * Restore a Todo item from the trash
+   *
+   * Todo、インデックスの順に書き込んでから `trash:{id}` キーを削除します。
+   *
+   * @param id - ゴミ箱のTodoのID（UUID v4形式）
+   * @param parentId - 戻した後の親のID（nullの場合はルート）
+   * @param position - 戻す位置（original: 移す前のランク / last: 末尾）
+   * @returns 戻したTodo、またはゴミ箱に該当IDが存在しない場合はnull
+   */
+  async restore(
+    id: string,
+    parentId: string | null,
+    position: RestorePosition
+  ): Promise<Todo | null> {
+    const trashKey = this.getTrashKey(id);
+    const [trashed, index] = await Promise.all([this.getTrashed(trashKey), this.loadIndex(true)]);
+    if (!trashed) {
+      return null;
     }
 
+    const { deletedAt, deletedWith, ...fields } = trashed;
+    const restored: StoredTodo = normalizeParent({
+      ...fields,
+      parentId,
+      rank: restoredRank(trashed, position, index.at(-1)?.rank ?? null),
+    });
+    const entries = sortByRank([...index, toIndexEntry(restored)]);
+    await this.put(restored);
+    await Promise.all([this.putIndex(entries), this.touch()]);
+    await this.kv.delete(trashKey);
+    const at = entries.findIndex((entry) => entry.id === id);
+    return toTodo(restored, positionAt(entries, at, restored.parentId));
+  }
+
+  /**
+   * Permanently delete a trashed Todo item
+   *
+   * @param id - ゴミ箱のTodoのID（UUID v4形式）
+   * @returns 削除に成功した場合はtrue、ゴミ箱に該当IDが存在しない場合はfalse
+   */
+  async purge(id: string): Promise<boolean> {
+    const trashKey = this.getTrashKey(id);
+    if ((await this.kv.get(trashKey)) === null) {
+      return false;
+    }
+    await this.kv.delete(trashKey);
     return true;
   }
 
+  /**
+   * Delete every item of the list
+   *
+   * リストのTodo・ゴミ箱・アーカイブのキーを一覧し、同時実行数を制限して削除します。
+   */
+  async clear(): Promise<void> {
+    const keys = await Promise.all(
+      [this.KEY_PREFIX, this.TRASH_PREFIX, this.ARCHIVE_PREFIX].map((prefix) =>
+        this.listKeys(prefix)
+      )
+    );
+    await mapWithConcurrency(keys.flat(), this.CONCURRENCY, ({ name }) => this.kv.delete(name));
+    await Promise.all([this.kv.delete(this.INDEX_KEY), this.kv.delete(this.LAST_MODIFIED_KEY)]);
+  }
+
+  /**
+   * Archive Todo items
+   *
+   * 各Todoを `archive:{id}` キーにランクを保持したまま保存し、`todos:{id}` キーとインデックスから取り除きます。
+   * 一覧に残るTodoは書き込まないため、書き込みの回数はアーカイブする件数に比例します。
+   *
+   * **注意**: KVはトランザクションを持たないため、書き込みの途中で失敗した場合は
+   * 一覧とアーカイブの両方に残る可能性があります（アーカイブの書き込みを先に完了させ、Todoを失わないようにする）。
+   *
+   * @param ids - アーカイブするTodo項目のID配列
+   * @param archivedAt - アーカイブした日時（ISO 8601形式）
+   * @returns アーカイブしたTodo（アーカイブの中でのposition順）
+   */
+  async archive(ids: readonly string[], archivedAt: string): Promise<ArchivedTodo[]> {
+    const [sorted, archived] = await Promise.all([this.loadAll(true), this.loadArchived()]);
+    const targets: StoredArchivedTodo[] = sorted
+      .filter((todo) => ids.includes(todo.id))
+      .map((todo) => ({ ...todo, archivedAt }));
+    if (targets.length > 0) {
+      await mapWithConcurrency(targets, this.CONCURRENCY, (todo) =>
+        this.kv.put(this.getArchiveKey(todo.id), JSON.stringify(todo))
+      );
+      await Promise.all([
+        this.putIndex(sorted.filter((todo) => !ids.includes(todo.id))),
+        this.touch(),
+      ]);
+      await mapWithConcurrency(targets, this.CONCURRENCY, (todo) =>
+        this.kv.delete(this.getKey(todo.id))
+      );
+    }
+    // 書き込み直後のKV Listには反映されない場合があるため、読み込んだアーカイブに追加して返す
+    const merged = sortByRank([...archived.filter((todo) => !ids.includes(todo.id)), ...targets]);
+    return toTodos(merged).filter((todo) => ids.includes(todo.id));
+  }
+
+  /**
+   * Get all archived Todo items
+   *
+   * @returns アーカイブしたすべてのTodo（ランク順）
+   */
+  async getArchived(): Promise<ArchivedTodo[]> {
+    return toTodos(sortByRank(await this.loadArchived()));
+  }
+
+  /**
+   * Load all archived Todo items
+   *
+   * `archive:` プレフィックスのキーを一覧し、同時実行数を制限して読み込みます。
+   *
+   * @returns アーカイブした保存済みTodo配列（順不同）
+   * @private
+   */
+  private async loadArchived(): Promise<StoredArchivedTodo[]> {
+    const keys = await this.listKeys(this.ARCHIVE_PREFIX);
+    const archived = await mapWithConcurrency(keys, this.CONCURRENCY, async ({ name }) => {
+      const json = await this.kv.get(name);
+      return json === null ? null : (JSON.parse(json) as StoredArchivedTodo);
+    });
+    return archived.filter((todo): todo is StoredArchivedTodo => todo !== null);
+  }
+
   /**
    * Reorder positions of todos
+   *
+   * @deprecated ストレージ非依存の `reorderPositions`（utils/ordering）を使用してください
    * @param todos - array of todos with id and position
    * @param id - id of the todo to move
    * @param newPosition - new position to move to
@@ -332,29 +997,262 @@ export class KVStorage implements IStorage {
     id: string,
     newPosition: number
   ): T[] {
-    const oldIndex = todos.findIndex((t) => t.id === id);
-    if (oldIndex === -1) return todos;
-    const target = todos[oldIndex];
-    if (!target) return todos;
-    if (target.position === newPosition) return todos;
-    // Sort by position
-    const sorted = [...todos].sort((a, b) => a.position - b.position);
-    const [moved] = sorted.splice(oldIndex, 1);
-    if (!moved) return todos;
-    sorted.splice(newPosition, 0, moved);
-    // Reassign positions
-    return sorted.map((t, i) => ({ ...t, position: i }));
-  }
-
-  /**
-   * Batch update positions of todos
-   * @param todos - array of todos with updated positions
-   * @returns sorted todos after update
-   */
-  async updatePositions(todos: Todo[]): Promise<Todo[]> {
-    // Save all todos in parallel
-    await Promise.all(todos.map((todo) => this.kv.put(this.getKey(todo.id), JSON.stringify(todo))));
-    // Return sorted todos by position
-    return [...todos].sort((a, b) => a.position - b.position);
+    return reorderPositions(todos, id, newPosition);
+  }
+
+  /**
+   * Move a Todo item to a new position
+   *
+   * 移動先の前後のランクの間に新しいランクを生成し、移動対象の1件とインデックスのみを書き込みます。
+   * 前後のランクが同じ場合やランクが長くなりすぎた場合は全件を再配置します。
+   *
+   * **注意**: KVはトランザクションを持たないため、同時に移動された場合は
+   * 同じランクになる可能性があります（IDで順序が決まり、次の再配置で解消されます）。
+   *
+   * @param id - 移動するTodo項目のID
+   * @param newPosition - 兄弟の中での移動先の位置
+   * @param expectedVersion - 移動するTodoの期待する現在のバージョン（任意）
+   * @returns position順にソートされた全Todo、または該当IDが存在しない場合はnull
+   * @throws {RangeError} newPositionが範囲外の場合
+   * @throws {PreconditionFailedError} expectedVersionが現在のバージョンと一致しない場合
+   */
+  async move(id: string, newPosition: number, expectedVersion?: number): Promise<Todo[] | null> {
+    const sorted = await this.loadAll(true);
+    const existing = sorted.find((todo) => todo.id === id);
+    if (!existing) {
+      return null;
+    }
+    assertVersionMatches(existing.version, expectedVersion);
+    const siblings = siblingsOf(sorted, existing.parentId);
+    assertPositionInRange(newPosition, siblings.length);
+
+    const rank = rankForMove(siblings, id, newPosition);
+    if (rank === null) {
+      return this.rebalance(sorted, reorderWithinParent(toTodos(sorted), id, newPosition));
+    }
+    const moved = sorted.map((todo) => (todo.id === id ? { ...todo, rank } : todo));
+    if (rank !== existing.rank) {
+      await Promise.all([this.put({ ...existing, rank }), this.putIndex(moved), this.touch()]);
+    }
+    return toTodos(moved);
   }
+
+  /**
+   * Set the order of all Todo items
+   *
+   * @param ids - 新しい並び順のTodo ID配列
+   * @returns position順にソートされた全Todo
+   * @throws {RangeError} idsが現在のTodo IDの並べ替えになっていない場合
+   */
+  async setOrder(ids: string[]): Promise<Todo[]> {
+    const sorted = await this.loadAll(true);
+    return this.rebalance(sorted, applyOrder(toTodos(sorted), ids));
+  }
+
+  /**
+   * Reassign evenly spaced ranks in the given order
+   *
+   * ランクが変わったTodoのみを同時実行数を制限して保存します（変更がない場合は書き込みを行いません）。
+   *
+   * @param stored - 保存済みTodo配列
+   * @param ordered - 新しい並び順のTodo配列
+   * @returns position順にソートされた全Todo
+   * @private
+   */
+  private async rebalance(stored: StoredTodo[], ordered: Todo[]): Promise<Todo[]> {
+    const byId = new Map(stored.map((todo) => [todo.id, todo]));
+    const reranked = rerank(ordered).flatMap(({ id, rank }) => {
+      const existing = byId.get(id);
+      return existing ? [{ ...existing, rank }] : [];
+    });
+
+    const changed = reranked.filter((todo) => byId.get(todo.id)?.rank !== todo.rank);
+    if (changed.length > 0) {
+      await mapWithConcurrency(changed, this.CONCURRENCY, (todo) => this.put(todo));
+      await Promise.all([this.putIndex(reranked), this.touch()]);
+    }
+    return toTodos(reranked);
+  }
+
+  /**
+   * Move a Todo item to another list
+   *
+   * 移動先のリストのキーにTodoと子孫、インデックスの順に書き込んでから、
+   * 移動元のインデックスとキーから取り除きます。
+   *
+   * **注意**: KVはトランザクションを持たないため、書き込みの途中で失敗した場合は
+   * 両方のリストに残る可能性があります（移動先の書き込みを先に完了させ、Todoを失わないようにする）。
+   *
+   * @param id - 移動するTodo項目のID（UUID v4形式）
+   * @param listId - 移動先のリストのID
+   * @returns 移動先での移動したTodo、または該当IDが存在しない場合はnull
+   */
+  async moveToList(id: string, listId: string): Promise<Todo | null> {
+    const target = new KVStorage(this.kv, listId, this.tenantId);
+    const [sorted, targetIndex] = await Promise.all([this.loadAll(true), target.loadIndex(true)]);
+    const moved = movedSubtree(sorted, id, targetIndex.at(-1)?.rank ?? null);
+    if (!moved) {
+      return null;
+    }
+
+    const ids = new Set(moved.map((todo) => todo.id));
+    await mapWithConcurrency(moved, this.CONCURRENCY, (todo) => target.put(todo));
+    const entries = sortByRank([...targetIndex, ...moved.map(toIndexEntry)]);
+    await Promise.all([target.putIndex(entries), target.touch()]);
+    await Promise.all([this.putIndex(sorted.filter((todo) => !ids.has(todo.id))), this.touch()]);
+    await mapWithConcurrency(moved, this.CONCURRENCY, (todo) =>
+      this.kv.delete(this.getKey(todo.id))
+    );
+    const at = entries.findIndex((entry) => entry.id === id);
+    return toTodo(moved[0], positionAt(entries, at, null));
+  }
+
+  /**
+   * Get the last modified time of the list
+   *
+   * @returns 最終更新日時（ISO 8601形式）、または一度も書き込みがない場合はnull
+   */
+  async getLastModified(): Promise<string | null> {
+    return this.kv.get(this.LAST_MODIFIED_KEY);
+  }
+}
+
+/**
+ * Workers KV List Storage
+ *
+ * Workers KVを使用したIListStorage実装。リストの一覧は少数のため、
+ * `meta:lists` キー（デフォルト以外のテナントは `t:{tenantId}:meta:lists`）に
+ * 全リストを1つのJSON配列として保存します。
+ *
+ * **注意**: KVはトランザクションを持たないため、同時にリストを作成・変更した場合は
+ * 一方の変更が失われる可能性があります（リストの変更はTodoの変更に比べてまれなため許容する）。
+ *
+ * @example
+ * ```typescript
+ * const lists = new KVListStorage(env.TODO_KV);
+ * const all = await lists.getLists();
+ * ```
+ */
+export class KVListStorage implements IListStorage {
+  /**
+   * Workers KV Namespace instance
+   * @private
+   */
+  private kv: KVNamespace;
+
+  /**
+   * Key for the list document
+   * `todos:` プレフィックスを持たないため、Todoの一覧の取得には含まれない
+   * @private
+   */
+  private readonly LISTS_KEY: string;
+
+  /**
+   * Constructor
+   *
+   * @param kv - Workers KV Namespace binding
+   * @param tenantId - テナントのID（デフォルト: デフォルトのテナント）
+   */
+  constructor(kv: KVNamespace, tenantId: string = DEFAULT_TENANT_ID) {
+    this.kv = kv;
+    this.LISTS_KEY = `${tenantKeyPrefix(tenantId)}meta:lists`;
+  }
+
+  async getLists(): Promise<TodoList[]> {
+    const json = await this.kv.get(this.LISTS_KEY);
+    return json === null ? [] : sortLists(JSON.parse(json) as TodoList[]);
+  }
+
+  async getList(id: string): Promise<TodoList | null> {
+    return (await this.getLists()).find((list) => list.id === id) ?? null;
+  }
+
+  async putList(list: TodoList): Promise<TodoList> {
+    const lists = (await this.getLists()).filter((existing) => existing.id !== list.id);
+    await this.kv.put(this.LISTS_KEY, JSON.stringify(sortLists([...lists, list])));
+    return list;
+  }
+
+  async deleteList(id: string): Promise<boolean> {
+    const lists = await this.getLists();
+    const remaining = lists.filter((list) => list.id !== id);
+    if (remaining.length === lists.length) {
+      return false;
+    }
+    await this.kv.put(this.LISTS_KEY, JSON.stringify(remaining));
+    return true;
+  }
+}
+
+/**
+ * Key prefixes of the default tenant's data
+ *
+ * テナント導入前のキー（Todo・ゴミ箱・アーカイブ・インデックス・最終更新日時・リストの一覧と、
+ * デフォルト以外のリストの `lists:{listId}:` のキー）。API Key（`apikeys:`）はテナントを問わず共有するため含めません。
+ */
+const DEFAULT_TENANT_PREFIXES = ['todos:', 'trash:', 'archive:', 'meta:', 'lists:'] as const;
+
+/**
+ * Maximum number of concurrent KV reads/writes when migrating a tenant
+ */
+const MIGRATION_CONCURRENCY = 20;
+
+/**
+ * List every key of a prefix
+ *
+ * @param kv - Workers KV Namespace binding
+ * @param prefix - キーのプレフィックス
+ * @returns プレフィックスを持つすべてのキーの名前
+ */
+async function listKeyNames(kv: KVNamespace, prefix: string): Promise<string[]> {
+  const names: string[] = [];
+  let cursor: string | undefined;
+  for (;;) {
+    const page = await kv.list({ prefix, cursor });
+    names.push(...page.keys.map(({ name }) => name));
+    if (page.list_complete) {
+      return names;
+    }
+    cursor = page.cursor;
+  }
+}
+
+/**
+ * Migrate the default tenant's data to a named tenant
+ *
+ * テナント導入前（デフォルトのテナント）のキーを `t:{tenantId}:` を付けたキーにコピーしてから、
+ * 元のキーを削除します。値はそのままコピーするため、ランク・インデックス・ゴミ箱の情報も保たれます。
+ * コピーの途中で失敗した場合は元のキーが残るため、再実行できます（コピー済みのキーは上書きされる）。
+ *
+ * **注意**: KV List APIの結果は書き込み直後に古い場合があるため、書き込みを止めてから実行してください。
+ *
+ * @param kv - Workers KV Namespace binding
+ * @param tenantId - 移行先のテナントのID（デフォルト以外）
+ * @returns 移行したキーの件数
+ * @throws {RangeError} 移行先のテナントにすでにデータがある場合
+ *
+ * @example
+ * ```typescript
+ * await migrateKVTenant(env.TODO_KV, 'team-a');
+ * // todos:{id} → t:team-a:todos:{id}, lists:{listId}:todos:{id} → t:team-a:lists:{listId}:todos:{id}
+ * ```
+ */
+export async function migrateKVTenant(kv: KVNamespace, tenantId: string): Promise<number> {
+  const prefix = tenantKeyPrefix(tenantId);
+  const existing = await kv.list({ prefix, limit: 1 });
+  if (existing.keys.length > 0) {
+    throw new RangeError(`Tenant ${tenantId} already has data`);
+  }
+
+  const names = (
+    await Promise.all(DEFAULT_TENANT_PREFIXES.map((scope) => listKeyNames(kv, scope)))
+  ).flat();
+  await mapWithConcurrency(names, MIGRATION_CONCURRENCY, async (name) => {
+    const value = await kv.get(name);
+    if (value !== null) {
+      await kv.put(`${prefix}${name}`, value);
+    }
+  });
+  await mapWithConcurrency(names, MIGRATION_CONCURRENCY, (name) => kv.delete(name));
+  return names.length;
 }
@@ -0,0 +1,441 @@
+/**
+ * In-Memory Storage Implementation
+ *
+ * このファイルはプロセス内のMapを使用したストレージ実装を提供します。
+ * 外部バインディングを必要としないため、ハンドラーのテストやローカルデモで使用します。
+ *
+ * 参照:
+ * - 要件5: データ永続化 (requirements.md)
+ * - Storage Layer セクション (design.md)
+ * - task-reordering要件1.1-1.3 (task-reordering/requirements.md)
+ */
+
+import type { IStorage, IListStorage } from './interface';
+import type { TodoList } from '../models/list';
+import type {
+  Todo,
+  StoredTodo,
+  StoredTrashedTodo,
+  TrashedTodo,
+  RestorePosition,
+  StoredArchivedTodo,
+  ArchivedTodo,
+} from '../models/todo';
+import {
+  reorderWithinParent,
+  applyOrder,
+  assertPositionInRange,
+  siblingsOf,
+} from '../utils/ordering';
+import { rerank, rankAfter, rankForMove, sortByRank, toTodo, toTodos } from '../utils/rank';
+import { assertVersionMatches } from '../utils/etag';
+import { normalizeDue } from '../utils/due';
+import { normalizeParent } from '../utils/tree';
+import { normalizeRecurrence } from '../utils/recurrence';
+import { restoredRank, sortTrash, toStoredTrashedTodo, toTrashedTodo } from '../utils/trash';
+import { movedSubtree, sortLists } from '../utils/lists';
+
+/**
+ * In-Memory Storage
+ *
+ * Mapを使用したIStorage実装。データはインスタンスの生存期間中のみ保持されます。
+ * 他のバックエンドと同じ契約（position順の取得、削除時の位置調整、並び替え）に従います。
+ *
+ * **注意事項**:
+ * - Workersのisolateが再起動するとデータは失われる（本番環境での永続化には使用しない）
+ * - 保存・返却時にTodoを複製するため、呼び出し側の変更が内部状態に影響しない
+ * - 並び順はランク（StoredTodo.rank）で保持し、positionは読み込み時に算出する
+ *
+ * @example
+ * ```typescript
+ * const storage = new InMemoryStorage();
+ *
+ * const todo = await storage.create({
+ *   id: crypto.randomUUID(),
+ *   title: 'Buy groceries',
+ *   completed: false,
+ *   createdAt: new Date().toISOString(),
+ *   position: 0,
+ *   version: 1,
+ * });
+ *
+ * const todos = await storage.getAll();
+ * ```
+ */
+export class InMemoryStorage implements IStorage {
+  /**
+   * Stored todo items keyed by ID
+   * @private
+   */
+  private todos = new Map<string, StoredTodo>();
+
+  /**
+   * Trashed todo items keyed by ID
+   * @private
+   */
+  private trashed = new Map<string, StoredTrashedTodo>();
+
+  /**
+   * Archived todo items keyed by ID
+   * @private
+   */
+  private archived = new Map<string, StoredArchivedTodo>();
+
+  /**
+   * Last modified time of the list (ISO 8601)
+   * @private
+   */
+  private lastModified: string | null = null;
+
+  /**
+   * Resolves the storage of another list of the same tenant (used by moveToList())
+   * @private
+   */
+  private storageFor?: (listId: string) => InMemoryStorage;
+
+  /**
+   * Constructor
+   *
+   * @param initialTodos - 初期データ（任意）。positionの順にランクを割り当てる
+   * @param storageFor - 同じテナントの他のリストのストレージを返す関数（任意。moveToList()で使用）
+   *
+   * @example
+   * ```typescript
+   * // テスト用の初期データを投入
+   * const storage = new InMemoryStorage([todo1, todo2]);
+   * ```
+   */
+  constructor(initialTodos: Todo[] = [], storageFor?: (listId: string) => InMemoryStorage) {
+    this.storageFor = storageFor;
+    for (const { position, ...todo } of initialTodos) {
+      this.todos.set(todo.id, { ...todo, rank: '' });
+    }
+    this.rebalance([...initialTodos].sort((a, b) => a.position - b.position));
+  }
+
+  /**
+   * Create a new Todo item
+   *
+   * 末尾のランクより後ろのランクを割り当てて保存します。
+   *
+   * @param todo - 作成するTodo項目
+   * @returns 作成されたTodo項目（兄弟の中で末尾のposition）
+   */
+  async create(todo: Todo): Promise<Todo> {
+    const sorted = this.sorted();
+    const { position, ...fields } = todo;
+    const stored: StoredTodo = normalizeParent({
+      ...fields,
+      rank: rankAfter(sorted.at(-1)?.rank ?? null),
+    });
+    this.todos.set(todo.id, stored);
+    this.touch();
+    return toTodo(stored, siblingsOf(sorted, stored.parentId).length);
+  }
+
+  /**
+   * Get all Todo items
+   *
+   * @returns すべてのTodo項目の配列（position順にソート済み）
+   */
+  async getAll(): Promise<Todo[]> {
+    return toTodos(this.sorted());
+  }
+
+  async getById(id: string): Promise<Todo | null> {
+    return (await this.getAll()).find((todo) => todo.id === id) ?? null;
+  }
+
+  async update(id: string, updates: Partial<Todo>, expectedVersion?: number): Promise<Todo | null> {
+    const existing = this.todos.get(id);
+    if (!existing) {
+      return null;
+    }
+    assertVersionMatches(existing.version, expectedVersion);
+
+    // 不変条件: id と createdAt は変更されない。並び順は move()/setOrder() でのみ変更する
+    const { position, ...fields } = updates;
+    this.todos.set(
+      id,
+      normalizeRecurrence(
+        normalizeParent(
+          normalizeDue({
+            ...existing,
+            ...fields,
+            id: existing.id,
+            createdAt: existing.createdAt,
+            rank: existing.rank,
+            version: existing.version + 1,
+          })
+        )
+      )
+    );
+    this.touch();
+    return this.getById(id);
+  }
+
+  /**
+   * Delete a Todo item
+   *
+   * 他のTodoのランクは変わらないため、削除対象の1件のみを削除します。
+   * 後ろのタスクのpositionは読み込み時に詰められます（task-reordering要件1.3）。
+   *
+   * @param id - Todo項目のID
+   * @param expectedVersion - 期待する現在のバージョン（任意）
+   * @returns 削除に成功した場合はtrue、該当IDが存在しない場合はfalse
+   * @throws {PreconditionFailedError} expectedVersionが現在のバージョンと一致しない場合
+   */
+  async delete(id: string, expectedVersion?: number): Promise<boolean> {
+    const existing = this.todos.get(id);
+    if (!existing) {
+      return false;
+    }
+    assertVersionMatches(existing.version, expectedVersion);
+    this.todos.delete(id);
+    this.touch();
+    return true;
+  }
+
+  /**
+   * Move a Todo item to the trash
+   *
+   * @param id - Todo項目のID
+   * @param deletedAt - ゴミ箱に移した日時
+   * @param expectedVersion - 期待する現在のバージョン（任意）
+   * @returns ゴミ箱に移したTodo、または該当IDが存在しない場合はnull
+   * @throws {PreconditionFailedError} expectedVersionが現在のバージョンと一致しない場合
+   */
+  async trash(
+    id: string,
+    deletedAt: string,
+    expectedVersion?: number,
+    deletedWith?: string
+  ): Promise<TrashedTodo | null> {
+    const existing = this.todos.get(id);
+    if (!existing) {
+      return null;
+    }
+    assertVersionMatches(existing.version, expectedVersion);
+    const trashed = toStoredTrashedTodo(existing, deletedAt, deletedWith);
+    this.todos.delete(id);
+    this.trashed.set(id, trashed);
+    this.touch();
+    return toTrashedTodo(trashed);
+  }
+
+  async getTrash(): Promise<TrashedTodo[]> {
+    return sortTrash([...this.trashed.values()].map(toTrashedTodo));
+  }
+
+  /**
+   * Restore a Todo item from the trash
+   *
+   * @param id - ゴミ箱のTodoのID
+   * @param parentId - 戻した後の親のID（nullの場合はルート）
+   * @param position - 戻す位置
+   * @returns 戻したTodo、またはゴミ箱に該当IDが存在しない場合はnull
+   */
+  async restore(
+    id: string,
+    parentId: string | null,
+    position: RestorePosition
+  ): Promise<Todo | null> {
+    const trashed = this.trashed.get(id);
+    if (!trashed) {
+      return null;
+    }
+    const { deletedAt, deletedWith, ...stored } = trashed;
+    this.todos.set(
+      id,
+      normalizeParent({
+        ...stored,
+        parentId,
+        rank: restoredRank(trashed, position, this.sorted().at(-1)?.rank ?? null),
+      })
+    );
+    this.trashed.delete(id);
+    this.touch();
+    return this.getById(id);
+  }
+
+  async purge(id: string): Promise<boolean> {
+    return this.trashed.delete(id);
+  }
+
+  async clear(): Promise<void> {
+    this.todos.clear();
+    this.trashed.clear();
+    this.archived.clear();
+    this.lastModified = null;
+  }
+
+  /**
+   * Archive Todo items
+   *
+   * @param ids - アーカイブするTodo項目のID配列
+   * @param archivedAt - アーカイブした日時
+   * @returns アーカイブしたTodo（アーカイブの中でのposition順）
+   */
+  async archive(ids: readonly string[], archivedAt: string): Promise<ArchivedTodo[]> {
+    for (const id of ids) {
+      const existing = this.todos.get(id);
+      if (existing) {
+        this.todos.delete(id);
+        this.archived.set(id, { ...existing, archivedAt });
+        this.touch();
+      }
+    }
+    return (await this.getArchived()).filter((todo) => ids.includes(todo.id));
+  }
+
+  async getArchived(): Promise<ArchivedTodo[]> {
+    return toTodos(sortByRank([...this.archived.values()]));
+  }
+
+  /**
+   * Move a Todo item to a new position
+   *
+   * 移動対象のランクのみを書き換えます。ランクが長くなりすぎた場合は全件を再配置します。
+   *
+   * @param id - 移動するTodo項目のID
+   * @param newPosition - 兄弟の中での移動先の位置
+   * @param expectedVersion - 移動するTodoの期待する現在のバージョン（任意）
+   * @returns position順にソートされた全Todo、または該当IDが存在しない場合はnull
+   * @throws {RangeError} newPositionが範囲外の場合
+   * @throws {PreconditionFailedError} expectedVersionが現在のバージョンと一致しない場合
+   */
+  async move(id: string, newPosition: number, expectedVersion?: number): Promise<Todo[] | null> {
+    const existing = this.todos.get(id);
+    if (!existing) {
+      return null;
+    }
+    assertVersionMatches(existing.version, expectedVersion);
+
+    const sorted = this.sorted();
+    const siblings = siblingsOf(sorted, existing.parentId);
+    assertPositionInRange(newPosition, siblings.length);
+
+    const rank = rankForMove(siblings, id, newPosition);
+    if (rank === null) {
+      this.rebalance(reorderWithinParent(toTodos(sorted), id, newPosition));
+    } else {
+      this.todos.set(id, { ...existing, rank });
+    }
+    this.touch();
+    return this.getAll();
+  }
+
+  /**
+   * Set the order of all Todo items
+   *
+   * @param ids - 新しい並び順のTodo ID配列
+   * @returns position順にソートされた全Todo
+   * @throws {RangeError} idsが現在のTodo IDの並べ替えになっていない場合
+   */
+  async setOrder(ids: string[]): Promise<Todo[]> {
+    this.rebalance(applyOrder(toTodos(this.sorted()), ids));
+    this.touch();
+    return this.getAll();
+  }
+
+  /**
+   * Move a Todo item to another list
+   *
+   * @param id - 移動するTodo項目のID
+   * @param listId - 移動先のリストのID
+   * @returns 移動先での移動したTodo、または該当IDが存在しない場合はnull
+   * @throws {Error} 他のリストのストレージを返す関数が指定されていない場合
+   */
+  async moveToList(id: string, listId: string): Promise<Todo | null> {
+    if (!this.storageFor) {
+      throw new Error('InMemoryStorage cannot resolve the storage of another list');
+    }
+    const target = this.storageFor(listId);
+    const moved = movedSubtree(this.sorted(), id, target.sorted().at(-1)?.rank ?? null);
+    if (!moved) {
+      return null;
+    }
+    for (const todo of moved) {
+      target.todos.set(todo.id, todo);
+      this.todos.delete(todo.id);
+    }
+    this.touch();
+    target.touch();
+    return target.getById(id);
+  }
+
+  async getLastModified(): Promise<string | null> {
+    return this.lastModified;
+  }
+
+  /**
+   * Stored todos sorted by rank
+   *
+   * @returns ランク順にソートされた保存済みTodo配列
+   * @private
+   */
+  private sorted(): StoredTodo[] {
+    return sortByRank([...this.todos.values()]);
+  }
+
+  /**
+   * Record the current time as the last modified time
+   *
+   * @private
+   */
+  private touch(): void {
+    this.lastModified = new Date().toISOString();
+  }
+
+  /**
+   * Reassign evenly spaced ranks in the given order
+   *
+   * @param ordered - 新しい並び順のTodo配列
+   * @private
+   */
+  private rebalance(ordered: Todo[]): void {
+    for (const { id, rank } of rerank(ordered)) {
+      const existing = this.todos.get(id);
+      if (existing) {
+        this.todos.set(id, { ...existing, rank });
+      }
+    }
+  }
+}
+
+/**
+ * In-Memory List Storage
+ *
+ * Mapを使用したIListStorage実装。InMemoryStorageと同様、データはインスタンスの生存期間中のみ保持されます。
+ *
+ * @example
+ * ```typescript
+ * const lists = new InMemoryListStorage();
+ * await lists.putList({ id: crypto.randomUUID(), name: 'Sprint', createdAt: new Date().toISOString() });
+ * ```
+ */
+export class InMemoryListStorage implements IListStorage {
+  /**
+   * Registered lists keyed by ID
+   * @private
+   */
+  private lists = new Map<string, TodoList>();
+
+  async getLists(): Promise<TodoList[]> {
+    return sortLists([...this.lists.values()]).map((list) => ({ ...list }));
+  }
+
+  async getList(id: string): Promise<TodoList | null> {
+    const list = this.lists.get(id);
+    return list ? { ...list } : null;
+  }
+
+  async putList(list: TodoList): Promise<TodoList> {
+    this.lists.set(list.id, { ...list });
+    return { ...list };
+  }
+
+  async deleteList(id: string): Promise<boolean> {
+    return this.lists.delete(id);
+  }
+}
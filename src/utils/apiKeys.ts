@@ -0,0 +1,320 @@
+/**
+ * API Key Utilities
+ *
+ * このファイルは環境変数 VALID_API_KEYS の解析と、API Keyのスコープ（models/apiKey.ts）の判定を行う純粋関数、
+ * およびAPI Keyの発行・ハッシュ化・定数時間での照合を行う関数を提供します。
+ *
+ * 形式1: カンマ区切りのエントリー。各エントリーは `key` または `tenantId:key`
+ * - `key`: デフォルトのテナント（models/tenant.ts）に属するAPI Key（テナント導入前と同じ形式）
+ * - `tenantId:key`: 指定したテナントに属するAPI Key（最初の `:` までをテナントIDとみなす）
+ * - スコープはDEFAULT_API_KEY_SCOPES（Todoの参照・変更・削除）
+ *
+ * 形式2: `[` で始まるJSON配列。各要素は `{ "key": string, "tenantId"?: string, "scopes": ApiKeyScope[], "expiresAt"?: string }`
+ * - tenantIdを省略した場合はデフォルトのテナント
+ * - expiresAtを指定した場合、その日時を過ぎたAPI Keyは認証に使用できない（新旧のキーを並べてローテーションする場合に使用）
+ *
+ * 参照:
+ * - 要件10: 認証・認可 (requirements.md)
+ */
+
+import type { ApiKeyEntry, ApiKeyRecord, ApiKeyScope } from '../models/apiKey';
+import { API_KEY_CONSTRAINTS, API_KEY_SCOPES, DEFAULT_API_KEY_SCOPES } from '../models/apiKey';
+import { DEFAULT_TENANT_ID } from '../models/tenant';
+import { SECURITY_BEST_PRACTICES } from '../models/env';
+import { isValidTenantId } from './tenant';
+import { isAllDay, isValidDueAt } from './due';
+
+/**
+ * 1日のミリ秒数
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Validate an API key scope
+ *
+ * @param value - 検証する値
+ * @returns ApiKeyScopeのいずれかの場合はtrue
+ */
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+  return (Object.values(API_KEY_SCOPES) as unknown[]).includes(value);
+}
+
+/**
+ * Check whether scopes grant a required scope
+ *
+ * `admin` はすべてのスコープを含みます。
+ *
+ * @param scopes - API Keyに許可されたスコープ
+ * @param required - 操作に必要なスコープ
+ * @returns 許可されている場合はtrue
+ */
+export function hasScope(scopes: readonly ApiKeyScope[], required: ApiKeyScope): boolean {
+  return scopes.includes(required) || scopes.includes(API_KEY_SCOPES.ADMIN);
+}
+
+/**
+ * Parse VALID_API_KEYS
+ *
+ * カンマ区切り形式では、各エントリーの前後の空白を取り除き、空のエントリーと、
+ * テナントIDが不正なエントリー・キーが空のエントリーを除いて返します。
+ * JSON形式では、不正なJSONの場合は空の配列を返し、不正な要素を除いて返します（いずれもログに記録する）。
+ *
+ * @param value - VALID_API_KEYSの値
+ * @returns API Keyのエントリー配列（VALID_API_KEYSの順）
+ *
+ * @example
+ * ```typescript
+ * parseApiKeys('key1, team-a:key2');
+ * // [{ key: 'key1', tenantId: 'default', scopes: [...DEFAULT_API_KEY_SCOPES] }, { key: 'key2', tenantId: 'team-a', ... }]
+ *
+ * parseApiKeys('[{ "key": "dashboard-key", "scopes": ["todos:read"] }]');
+ * // [{ key: 'dashboard-key', tenantId: 'default', scopes: ['todos:read'] }]
+ * ```
+ */
+export function parseApiKeys(value: string): ApiKeyEntry[] {
+  if (value.trim().startsWith('[')) {
+    return parseApiKeyConfig(value);
+  }
+
+  const entries: ApiKeyEntry[] = [];
+  for (const entry of value.split(',').map((item) => item.trim())) {
+    const separator = entry.indexOf(':');
+    if (separator === -1) {
+      if (entry.length > 0) {
+        entries.push({
+          key: entry,
+          tenantId: DEFAULT_TENANT_ID,
+          scopes: [...DEFAULT_API_KEY_SCOPES],
+        });
+      }
+      continue;
+    }
+
+    const tenantId = entry.slice(0, separator).trim();
+    const key = entry.slice(separator + 1).trim();
+    if (isValidTenantId(tenantId) && key.length > 0) {
+      entries.push({ key, tenantId, scopes: [...DEFAULT_API_KEY_SCOPES] });
+    }
+  }
+  return entries;
+}
+
+/**
+ * Parse the JSON format of VALID_API_KEYS
+ *
+ * keyが空の要素、tenantIdが不正な要素、scopesが空または不明なスコープを含む要素、
+ * expiresAtがオフセット付きのISO 8601日時でない要素は除きます。
+ * 設定の誤りに気付けるよう、不正なJSON・配列でない値・除いた要素はログに記録します
+ * （API Keyが含まれるため、値や要素の内容は記録しない）。
+ */
+function parseApiKeyConfig(value: string): ApiKeyEntry[] {
+  let config: unknown;
+  try {
+    config = JSON.parse(value);
+  } catch {
+    console.error('VALID_API_KEYS is not valid JSON. No API keys are loaded from it.');
+    return [];
+  }
+  if (!Array.isArray(config)) {
+    console.error('VALID_API_KEYS must be a JSON array. No API keys are loaded from it.');
+    return [];
+  }
+
+  const entries: ApiKeyEntry[] = [];
+  const invalid: number[] = [];
+  for (const [index, item] of (config as unknown[]).entries()) {
+    if (typeof item !== 'object' || item === null) {
+      invalid.push(index);
+      continue;
+    }
+    const {
+      key,
+      tenantId = DEFAULT_TENANT_ID,
+      scopes,
+      expiresAt,
+    } = item as Record<string, unknown>;
+    if (
+      typeof key !== 'string' ||
+      key.trim() === '' ||
+      !isValidTenantId(tenantId) ||
+      !Array.isArray(scopes) ||
+      scopes.length === 0 ||
+      !scopes.every(isApiKeyScope) ||
+      (expiresAt !== undefined && !isValidExpiresAt(expiresAt))
+    ) {
+      invalid.push(index);
+      continue;
+    }
+    entries.push({
+      key: key.trim(),
+      tenantId,
+      scopes: [...new Set(scopes)],
+      ...(expiresAt !== undefined ? { expiresAt: new Date(expiresAt).toISOString() } : {}),
+    });
+  }
+
+  if (invalid.length > 0) {
+    console.error(
+      `VALID_API_KEYS has ${invalid.length} invalid entr${invalid.length === 1 ? 'y' : 'ies'} ` +
+        `(index ${invalid.join(', ')}). They are ignored.`
+    );
+  }
+  return entries;
+}
+
+/**
+ * Validate an API key expiry
+ *
+ * @param value - 検証する値
+ * @returns オフセット付きのISO 8601日時の場合はtrue（終日の日付は不可）
+ */
+export function isValidExpiresAt(value: unknown): value is string {
+  return isValidDueAt(value) && !isAllDay(value);
+}
+
+/**
+ * Convert bytes to a lowercase hex string
+ */
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Compute the SHA-256 digest of an API key
+ */
+async function digest(key: string): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key)));
+}
+
+/**
+ * Hash an API key
+ *
+ * 発行したAPI KeyはこのハッシュのみをKVに保存し、認証時は提供されたAPI Keyのハッシュで検索します。
+ *
+ * @param key - 平文のAPI Key
+ * @returns SHA-256ハッシュの16進数文字列（64文字）
+ */
+export async function hashApiKey(key: string): Promise<string> {
+  return toHex(await digest(key));
+}
+
+/**
+ * Generate a new API key
+ *
+ * @returns 暗号論的に安全な乱数による16進数文字列（GENERATED_KEY_BYTESバイト、64文字）
+ */
+export function generateApiKey(): string {
+  return toHex(crypto.getRandomValues(new Uint8Array(API_KEY_CONSTRAINTS.GENERATED_KEY_BYTES)));
+}
+
+/**
+ * Compare two byte arrays in constant time
+ *
+ * 最初の不一致で打ち切らず、常に全体を比較します（長さが異なる場合はfalse）。
+ *
+ * @param a - 比較するバイト列
+ * @param b - 比較するバイト列
+ * @returns 一致する場合はtrue
+ */
+export function timingSafeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= (a[i] ?? 0) ^ (b[i] ?? 0);
+  }
+  return diff === 0;
+}
+
+/**
+ * Find the entry of an API key in constant time
+ *
+ * 提供されたAPI Keyと各エントリーのキーをSHA-256ハッシュにしてから定数時間で比較するため、
+ * 比較にかかる時間からキーの長さや一致した接頭辞を推測できません。
+ * 一致するエントリーが見つかった後も、すべてのエントリーと比較します。
+ *
+ * @param entries - parseApiKeys()の結果
+ * @param key - X-API-Keyヘッダーの値
+ * @returns 一致したエントリー、または見つからない場合はundefined
+ */
+export async function findApiKey(
+  entries: readonly ApiKeyEntry[],
+  key: string
+): Promise<ApiKeyEntry | undefined> {
+  const provided = await digest(key);
+  let found: ApiKeyEntry | undefined;
+  for (const entry of entries) {
+    if (timingSafeEqual(await digest(entry.key), provided) && !found) {
+      found = entry;
+    }
+  }
+  return found;
+}
+
+/**
+ * Check whether lastUsedAt should be updated
+ *
+ * @param record - 認証に使用されたAPI Keyのメタデータ
+ * @param now - 現在日時
+ * @returns 未使用、または前回の更新からLAST_USED_UPDATE_INTERVAL_MS以上経過した場合はtrue
+ */
+export function shouldTouchApiKey(record: ApiKeyRecord, now: Date): boolean {
+  return (
+    record.lastUsedAt === undefined ||
+    now.getTime() - Date.parse(record.lastUsedAt) >=
+      API_KEY_CONSTRAINTS.LAST_USED_UPDATE_INTERVAL_MS
+  );
+}
+
+/**
+ * Compute the default expiry of an issued API key
+ *
+ * @param now - 発行日時
+ * @returns 発行日時からAPI_KEY_ROTATION_DAYS後（ISO 8601形式）
+ */
+export function defaultApiKeyExpiry(now: Date): string {
+  return new Date(
+    now.getTime() + SECURITY_BEST_PRACTICES.API_KEY_ROTATION_DAYS * DAY_MS
+  ).toISOString();
+}
+
+/**
+ * Check whether an API key has expired
+ *
+ * @param entry - API Keyのエントリー
+ * @param now - 現在日時
+ * @returns expiresAtを持ち、その日時を過ぎている場合はtrue
+ */
+export function isApiKeyExpired(entry: Pick<ApiKeyEntry, 'expiresAt'>, now: Date): boolean {
+  return entry.expiresAt !== undefined && Date.parse(entry.expiresAt) <= now.getTime();
+}
+
+/**
+ * Compute the expiry warning of an API key
+ *
+ * 有効期限までの残りがAPI_KEY_EXPIRY_WARNING_DAYS以下の場合に、X-API-Key-Expires-Inヘッダーの値を返します。
+ *
+ * @param entry - 有効期限を過ぎていないAPI Keyのエントリー
+ * @param now - 現在日時
+ * @returns 有効期限までの秒数（切り捨て）、または警告が不要な場合はundefined
+ *
+ * @example
+ * ```typescript
+ * apiKeyExpiryWarning({ expiresAt: '2025-11-02T00:00:00.000Z' }, new Date('2025-11-01T00:00:00.000Z')); // 86400
+ * apiKeyExpiryWarning({}, new Date()); // undefined
+ * ```
+ */
+export function apiKeyExpiryWarning(
+  entry: Pick<ApiKeyEntry, 'expiresAt'>,
+  now: Date
+): number | undefined {
+  if (entry.expiresAt === undefined) {
+    return undefined;
+  }
+  const remaining = Date.parse(entry.expiresAt) - now.getTime();
+  if (remaining > SECURITY_BEST_PRACTICES.API_KEY_EXPIRY_WARNING_DAYS * DAY_MS) {
+    return undefined;
+  }
+  return Math.max(0, Math.floor(remaining / 1000));
+}
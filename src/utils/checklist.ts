@@ -0,0 +1,124 @@
+/**
+ * Checklist Utilities
+ *
+ * このファイルはTodoのチェックリスト（items）を操作する純粋関数を提供します。
+ * チェックリストはTodoの1フィールドとして保存されるため、ハンドラーはこれらの関数で
+ * 新しい配列を作り、ストレージ層の `update()` で親のTodoごと書き込みます。
+ *
+ * 並び順は配列の順序です。並び替えはTodoの並び替えと同じ reorderPositions()
+ * （utils/ordering.ts）で計算します。
+ */
+
+import type { ChecklistItem, ChecklistProgress, Todo, TodoResponse } from '../models/todo';
+import { reorderPositions } from './ordering';
+
+/**
+ * Calculate checklist progress
+ *
+ * @param items - チェックリストの項目
+ * @returns 完了した項目の数と項目の総数
+ *
+ * @example
+ * ```typescript
+ * checklistProgress(todo.items ?? []); // { done: 3, total: 5 }
+ * ```
+ */
+export function checklistProgress(items: readonly ChecklistItem[]): ChecklistProgress {
+  return { done: items.filter((item) => item.done).length, total: items.length };
+}
+
+/**
+ * Check whether every checklist item is done
+ *
+ * @param items - チェックリストの項目
+ * @returns 項目が1つ以上あり、すべて完了している場合はtrue
+ */
+export function isChecklistDone(items: readonly ChecklistItem[]): boolean {
+  return items.length > 0 && items.every((item) => item.done);
+}
+
+/**
+ * Add the checklist progress to a todo
+ *
+ * レスポンスとして返すTodoに進捗（progress）を加えます。
+ * チェックリストの項目がないTodoはそのまま返します。
+ *
+ * @param todo - Todo項目
+ * @returns 項目がある場合はprogressを加えたTodo
+ *
+ * @example
+ * ```typescript
+ * return jsonResponse(withProgress(todo), 200);
+ * ```
+ */
+export function withProgress(todo: Todo): TodoResponse {
+  if (!todo.items || todo.items.length === 0) {
+    return todo;
+  }
+  return { ...todo, progress: checklistProgress(todo.items) };
+}
+
+/**
+ * Update a checklist item
+ *
+ * @param items - チェックリストの項目
+ * @param itemId - 更新する項目のID
+ * @param changes - 更新するフィールド
+ * @returns 更新後の新しい配列。該当IDがない場合はnull
+ */
+export function updateItem(
+  items: readonly ChecklistItem[],
+  itemId: string,
+  changes: Partial<Omit<ChecklistItem, 'id'>>
+): ChecklistItem[] | null {
+  if (!items.some((item) => item.id === itemId)) {
+    return null;
+  }
+  return items.map((item) => (item.id === itemId ? { ...item, ...changes, id: item.id } : item));
+}
+
+/**
+ * Remove a checklist item
+ *
+ * @param items - チェックリストの項目
+ * @param itemId - 削除する項目のID
+ * @returns 削除後の新しい配列。該当IDがない場合はnull
+ */
+export function removeItem(
+  items: readonly ChecklistItem[],
+  itemId: string
+): ChecklistItem[] | null {
+  const remaining = items.filter((item) => item.id !== itemId);
+  return remaining.length === items.length ? null : remaining;
+}
+
+/**
+ * Move a checklist item
+ *
+ * 範囲（0 ≤ newPosition < 項目数）の検証は呼び出し側で assertPositionInRange() により行います。
+ *
+ * @param items - チェックリストの項目
+ * @param itemId - 移動する項目のID
+ * @param newPosition - 移動先の位置
+ * @returns 並び替え後の新しい配列。該当IDがない場合はnull
+ *
+ * @example
+ * ```typescript
+ * moveItem(todo.items ?? [], itemId, 0);
+ * ```
+ */
+export function moveItem(
+  items: readonly ChecklistItem[],
+  itemId: string,
+  newPosition: number
+): ChecklistItem[] | null {
+  if (!items.some((item) => item.id === itemId)) {
+    return null;
+  }
+  const positioned = items.map((item, position) => ({ ...item, position }));
+  return reorderPositions(positioned, itemId, newPosition).map(({ id, text, done }) => ({
+    id,
+    text,
+    done,
+  }));
+}
@@ -0,0 +1,43 @@
+/**
+ * Concurrency Utilities
+ *
+ * このファイルは非同期処理の同時実行数を制限するユーティリティを提供します。
+ * Workersは1リクエストあたりの同時接続数とサブリクエスト数に制限があるため、
+ * 件数に比例する読み書き（KVの全件読み込みなど）はこの関数で分割して実行します。
+ */
+
+/**
+ * Map items with a bounded number of concurrent calls
+ *
+ * 同時に実行する `fn` の呼び出しを `limit` 件までに制限します。
+ * 結果は入力と同じ順序で返します。いずれかの呼び出しが失敗した場合は、
+ * 実行中の呼び出しの完了を待たずに最初のエラーでrejectします。
+ *
+ * @param items - 処理する要素の配列
+ * @param limit - 同時実行数の上限（1以上）
+ * @param fn - 各要素に適用する非同期関数
+ * @returns 各要素の結果の配列（入力順）
+ *
+ * @example
+ * ```typescript
+ * const values = await mapWithConcurrency(keys, 20, (key) => kv.get(key));
+ * ```
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index] as T, index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, worker));
+  return results;
+}
@@ -0,0 +1,195 @@
+/**
+ * Due Date Utilities
+ *
+ * このファイルはTodoの期限（dueAt）を扱う純粋関数を提供します。
+ *
+ * 期限の形式:
+ * - 日時: オフセット付きのISO 8601（例: `2025-11-01T17:00:00+09:00`）。その時刻が期限
+ * - 終日: 日付のみ（例: `2025-11-01`）。dueTimezone（IANAタイムゾーン名、デフォルト: UTC）での
+ *   その日の終わり（翌日0時）が期限
+ *
+ * 参照:
+ * - RFC 3339 (Date and Time on the Internet: Timestamps)
+ */
+
+import type { Todo } from '../models/todo';
+
+/**
+ * 日付のみの形式（終日）
+ */
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * オフセット付きの日時の形式
+ */
+const DATE_TIME_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(:\d{2}(\.\d{1,3})?)?(Z|[+-]\d{2}:\d{2})$/;
+
+/**
+ * Parse a date-only string
+ *
+ * @param value - 検証する文字列
+ * @returns 年・月（1-12）・日。日付のみの形式でない、または存在しない日付の場合はnull
+ */
+function parseDate(value: string): { year: number; month: number; day: number } | null {
+  const match = DATE_PATTERN.exec(value);
+  if (!match) {
+    return null;
+  }
+  const [year, month, day] = match.slice(1).map(Number) as [number, number, number];
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return { year, month, day };
+}
+
+/**
+ * Check whether a due date is all-day
+ *
+ * @param dueAt - 期限
+ * @returns 日付のみ（終日）の場合はtrue
+ */
+export function isAllDay(dueAt: string): boolean {
+  return DATE_PATTERN.test(dueAt);
+}
+
+/**
+ * Check whether a value is a valid due date
+ *
+ * @param value - 検証する値
+ * @returns 日付のみ、またはオフセット付きの日時の場合はtrue
+ *
+ * @example
+ * ```typescript
+ * isValidDueAt('2025-11-01'); // true
+ * isValidDueAt('2025-11-01T17:00:00+09:00'); // true
+ * isValidDueAt('2025-11-01T17:00:00'); // false（オフセットなし）
+ * isValidDueAt('2025-02-30'); // false
+ * ```
+ */
+export function isValidDueAt(value: unknown): value is string {
+  if (typeof value !== 'string') {
+    return false;
+  }
+  if (isAllDay(value)) {
+    return parseDate(value) !== null;
+  }
+  return (
+    DATE_TIME_PATTERN.test(value) &&
+    parseDate(value.slice(0, 10)) !== null &&
+    !Number.isNaN(Date.parse(value))
+  );
+}
+
+/**
+ * Check whether a value is a valid IANA time zone name
+ *
+ * @param value - 検証する値
+ * @returns ランタイムが認識するタイムゾーン名の場合はtrue
+ */
+export function isValidTimeZone(value: unknown): value is string {
+  if (typeof value !== 'string' || value === '') {
+    return false;
+  }
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Offset of a time zone at the given instant
+ *
+ * @param timeZone - IANAタイムゾーン名
+ * @param instant - UNIX時刻（ミリ秒）
+ * @returns UTCからのオフセット（ミリ秒、東が正）
+ */
+function timeZoneOffset(timeZone: string, instant: number): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(new Date(instant));
+  const get = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+  const local = Date.UTC(
+    get('year'),
+    get('month') - 1,
+    get('day'),
+    get('hour'),
+    get('minute'),
+    get('second')
+  );
+  return local - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * Compute the deadline of a due date
+ *
+ * 終日の場合はdueTimezoneでのその日の終わり（翌日0時）を期限とします。
+ *
+ * @param todo - dueAtとdueTimezoneを持つTodo
+ * @returns 期限のUNIX時刻（ミリ秒）。期限がない場合はnull
+ *
+ * @example
+ * ```typescript
+ * dueDeadline({ dueAt: '2025-11-01T17:00:00+09:00' }); // Date.parse('2025-11-01T08:00:00Z')
+ * dueDeadline({ dueAt: '2025-11-01', dueTimezone: 'Asia/Tokyo' }); // Date.parse('2025-11-01T15:00:00Z')
+ * ```
+ */
+export function dueDeadline(todo: Pick<Todo, 'dueAt' | 'dueTimezone'>): number | null {
+  if (!todo.dueAt) {
+    return null;
+  }
+  const date = parseDate(todo.dueAt);
+  if (!date) {
+    return Date.parse(todo.dueAt);
+  }
+
+  const endOfDay = Date.UTC(date.year, date.month - 1, date.day + 1);
+  const timeZone = todo.dueTimezone ?? 'UTC';
+  // オフセットは時刻によって変わる（夏時間）ため、求めた時刻で再計算する
+  const guess = endOfDay - timeZoneOffset(timeZone, endOfDay);
+  return endOfDay - timeZoneOffset(timeZone, guess);
+}
+
+/**
+ * Check whether a todo is overdue
+ *
+ * 未完了で、期限を過ぎている場合に期限切れとします。
+ *
+ * @param todo - Todo項目
+ * @param now - 現在時刻（UNIX時刻、ミリ秒）
+ * @returns 期限切れの場合はtrue
+ */
+export function isOverdue(
+  todo: Pick<Todo, 'completed' | 'dueAt' | 'dueTimezone'>,
+  now: number
+): boolean {
+  const deadline = dueDeadline(todo);
+  return !todo.completed && deadline !== null && deadline <= now;
+}
+
+/**
+ * Remove cleared due fields
+ *
+ * 更新で `dueAt: null` が指定された場合、期限とタイムゾーンをどちらも取り除きます。
+ * すべてのストレージで期限のないTodoがフィールドを持たない形に揃えるために使用します。
+ *
+ * @param todo - 更新をマージしたTodo
+ * @returns 期限のフィールドを正規化したTodo
+ */
+export function normalizeDue<T extends Pick<Todo, 'dueAt' | 'dueTimezone'>>(todo: T): T {
+  const { dueAt, dueTimezone, ...rest } = todo;
+  if (!dueAt) {
+    return rest as T;
+  }
+  return (dueTimezone ? { ...rest, dueAt, dueTimezone } : { ...rest, dueAt }) as T;
+}
@@ -0,0 +1,203 @@
+/**
+ * ETag Utilities
+ *
+ * このファイルはTodoのバージョンに基づくETagと条件付きリクエストの処理を提供します。
+ * - If-Match: 複数のタブや端末から同じTodoを編集した際に、古い内容で上書きされる
+ *   （lost update）ことを防ぐための楽観的並行性制御
+ * - If-None-Match / If-Modified-Since: 一覧をポーリングするクライアントへの
+ *   304 Not Modified による転送量の削減
+ *
+ * ETagの形式:
+ * - 個別のTodo: 強いETag `"<version>"`（例: `"3"`）。positionは他のTodoの並び替えでも
+ *   変化するため含めない
+ * - 一覧: 並び順どおりの `id:version` を連結したSHA-256ハッシュ（例: `"9f86d081..."`）
+ *
+ * 参照:
+ * - RFC 9110 Section 13.1.1 (If-Match)
+ * - RFC 9110 Section 13.1.2 (If-None-Match)
+ * - RFC 9110 Section 13.1.3 (If-Modified-Since)
+ */
+
+import type { Todo } from '../models/todo';
+import { PreconditionFailedError } from '../models/error';
+import type { IStorage } from '../storage/interface';
+
+/**
+ * Format a Todo version as an ETag
+ *
+ * @param todo - バージョンを持つTodo
+ * @returns 強いETag（例: `"3"`）
+ *
+ * @example
+ * ```typescript
+ * formatETag({ version: 3 }); // '"3"'
+ * ```
+ */
+export function formatETag(todo: Pick<Todo, 'version'>): string {
+  return `"${todo.version}"`;
+}
+
+/**
+ * Parse an If-Match header
+ *
+ * If-Matchは強い比較で評価するため、弱いETag（`W/"3"`）や
+ * 本APIが発行しない形式のETagはどのバージョンとも一致しません。
+ *
+ * @param header - If-Matchヘッダーの値
+ * @returns 一致を許可するバージョンの配列。ヘッダーがない場合や `*` の場合はnull（事前条件なし）
+ *
+ * @example
+ * ```typescript
+ * parseIfMatch(undefined); // null
+ * parseIfMatch('*'); // null
+ * parseIfMatch('"3"'); // [3]
+ * parseIfMatch('"2", "3"'); // [2, 3]
+ * parseIfMatch('W/"3"'); // []
+ * ```
+ */
+export function parseIfMatch(header: string | undefined): number[] | null {
+  if (header === undefined || header.trim() === '') {
+    return null;
+  }
+
+  const tags = header.split(',').map((tag) => tag.trim());
+  if (tags.includes('*')) {
+    return null;
+  }
+
+  return tags.flatMap((tag) => {
+    const match = /^"(\d+)"$/.exec(tag);
+    return match?.[1] !== undefined ? [Number(match[1])] : [];
+  });
+}
+
+/**
+ * Assert that the current version matches the expected version
+ *
+ * ストレージ層の書き込み直前に呼び出し、比較と書き込みの間に他の更新が
+ * 割り込まないようにします。
+ *
+ * @param currentVersion - 現在のTodoのバージョン
+ * @param expectedVersion - 期待するバージョン（undefinedの場合は比較しない）
+ * @throws {PreconditionFailedError} バージョンが一致しない場合
+ */
+export function assertVersionMatches(currentVersion: number, expectedVersion?: number): void {
+  if (expectedVersion !== undefined && expectedVersion !== currentVersion) {
+    throw new PreconditionFailedError(currentVersion);
+  }
+}
+
+/**
+ * Resolve the expected version from an If-Match header
+ *
+ * ストレージ層の書き込みメソッドに渡す期待バージョンを決定します。
+ * ETagが1つの場合はそのバージョンをそのまま使用し、比較はストレージ層で
+ * 書き込みとアトミックに行われます。複数または一致し得ないETagが指定された場合は
+ * 現在のTodoを取得し、一致するバージョンを選びます。
+ *
+ * @param header - If-Matchヘッダーの値
+ * @param storage - ストレージレイヤーインスタンス
+ * @param id - 対象のTodo ID
+ * @returns 期待バージョン。事前条件がない場合やTodoが存在しない場合はundefined
+ * @throws {PreconditionFailedError} どのETagも現在のバージョンと一致しない場合
+ */
+export async function resolveExpectedVersion(
+  header: string | undefined,
+  storage: IStorage,
+  id: string
+): Promise<number | undefined> {
+  const versions = parseIfMatch(header);
+  if (versions === null) {
+    return undefined;
+  }
+  if (versions.length === 1) {
+    return versions[0];
+  }
+
+  const current = await storage.getById(id);
+  if (current === null) {
+    return undefined;
+  }
+  if (!versions.includes(current.version)) {
+    throw new PreconditionFailedError(current.version);
+  }
+  return current.version;
+}
+
+/**
+ * Compute the ETag of a todo list
+ *
+ * 一覧の表現はTodoの並び順と各Todoの内容（version）で決まるため、
+ * 並び順どおりの `id:version` のハッシュをETagとします。
+ * 作成・更新・削除・並び替えのいずれでも値が変化します。
+ *
+ * @param todos - position順にソートされたTodo配列
+ * @param extra - 一覧以外に表現を左右する値（例: 現在時刻で決まる期限切れのTodoのID）
+ * @returns 強いETag（SHA-256の先頭128ビットの16進表記）
+ *
+ * @example
+ * ```typescript
+ * const etag = await collectionETag(await storage.getAll()); // '"9f86d081884c7d65..."'
+ * ```
+ */
+export async function collectionETag(
+  todos: Pick<Todo, 'id' | 'version'>[],
+  extra: string[] = []
+): Promise<string> {
+  const source = [...todos.map((todo) => `${todo.id}:${todo.version}`), ...extra].join('\n');
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(source));
+  const hex = [...new Uint8Array(digest)]
+    .slice(0, 16)
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+  return `"${hex}"`;
+}
+
+/**
+ * Format an ISO 8601 timestamp as an HTTP date
+ *
+ * @param iso - ISO 8601形式の日時
+ * @returns IMF-fixdate形式の日時（例: `Mon, 27 Oct 2025 10:30:00 GMT`）
+ */
+export function toHttpDate(iso: string): string {
+  return new Date(iso).toUTCString();
+}
+
+/**
+ * Evaluate If-None-Match / If-Modified-Since for a GET request
+ *
+ * RFC 9110に従い、If-None-Matchがある場合はIf-Modified-Sinceを無視します。
+ * If-None-Matchは弱い比較（`W/` を無視）で評価します。
+ * HTTP日付は秒単位のため、Last-Modifiedと同じ秒に行われた変更は
+ * If-Modified-Sinceでは検出できません（ETagの使用を推奨）。
+ *
+ * @param headers - リクエストの条件ヘッダー
+ * @param etag - 現在の表現のETag
+ * @param lastModified - 最終更新日時（ISO 8601形式）、不明な場合はnull
+ * @returns 304 Not Modifiedを返すべき場合はtrue
+ *
+ * @example
+ * ```typescript
+ * isNotModified({ ifNoneMatch: '"abc"' }, '"abc"', null); // true
+ * isNotModified({ ifModifiedSince: 'Mon, 27 Oct 2025 10:30:00 GMT' }, '"abc"', '2025-10-27T10:30:00.500Z'); // true
+ * ```
+ */
+export function isNotModified(
+  headers: { ifNoneMatch?: string; ifModifiedSince?: string },
+  etag: string,
+  lastModified: string | null
+): boolean {
+  if (headers.ifNoneMatch !== undefined) {
+    const tags = headers.ifNoneMatch.split(',').map((tag) => tag.trim().replace(/^W\//, ''));
+    return tags.includes('*') || tags.includes(etag);
+  }
+
+  if (headers.ifModifiedSince === undefined || lastModified === null) {
+    return false;
+  }
+  const since = Date.parse(headers.ifModifiedSince);
+  if (Number.isNaN(since)) {
+    return false;
+  }
+  return Math.floor(Date.parse(lastModified) / 1000) <= Math.floor(since / 1000);
+}
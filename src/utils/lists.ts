@@ -0,0 +1,101 @@
+/**
+ * List Utilities
+ *
+ * このファイルはTodoリスト（models/list.ts）の一覧と件数、リスト間の移動を扱う純粋関数を提供します。
+ * デフォルトのリストは名前を変更するまで登録されないため、一覧を返す際に補います。
+ */
+
+import type { Todo, StoredTodo } from '../models/todo';
+import type { TodoList, ListCounts } from '../models/list';
+import { DEFAULT_LIST_ID, LIST_CONSTRAINTS } from '../models/list';
+import { rankAfter } from './rank';
+import { descendantIds, normalizeParent } from './tree';
+
+/**
+ * Sort lists by creation time
+ *
+ * createdAtのないリスト（デフォルトのリスト）を先頭に、createdAtの昇順、同じ日時の場合はIDの順に並べます。
+ *
+ * @param lists - リスト配列
+ * @returns 並べ替えた新しい配列
+ */
+export function sortLists(lists: readonly TodoList[]): TodoList[] {
+  return [...lists].sort((a, b) => {
+    const left = a.createdAt ?? '';
+    const right = b.createdAt ?? '';
+    if (left !== right) {
+      return left < right ? -1 : 1;
+    }
+    return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+  });
+}
+
+/**
+ * Add the default list when it is not registered
+ *
+ * @param lists - 登録されたリスト配列
+ * @returns デフォルトのリストを含むリスト配列（sortLists()の順）
+ *
+ * @example
+ * ```typescript
+ * withDefaultList([]); // [{ id: 'default', name: 'Todos' }]
+ * ```
+ */
+export function withDefaultList(lists: readonly TodoList[]): TodoList[] {
+  return sortLists(
+    lists.some((list) => list.id === DEFAULT_LIST_ID)
+      ? lists
+      : [{ id: DEFAULT_LIST_ID, name: LIST_CONSTRAINTS.DEFAULT_LIST_NAME }, ...lists]
+  );
+}
+
+/**
+ * Count the todos of a list
+ *
+ * @param todos - リストのすべてのTodo（getAll()の結果）
+ * @returns 総数と完了済みの数
+ */
+export function countTodos(todos: readonly Pick<Todo, 'completed'>[]): ListCounts {
+  return { total: todos.length, completed: todos.filter((todo) => todo.completed).length };
+}
+
+/**
+ * Build the todos written to the target list of a move
+ *
+ * 移動先ではTodoを親を持たないルートの末尾に置き、子孫は親子関係と並び順を保ちます。
+ * ランクは移動先の末尾から、Todo、子孫（移動元のランク順）の順に振り直します。
+ *
+ * @param todos - 移動元の保存済みTodo（ランク順）
+ * @param id - 移動するTodoのID
+ * @param lastRank - 移動先の末尾のランク（nullは移動先が空）
+ * @returns 移動先に書き込むTodoと子孫（先頭が移動するTodoでversionが1つ進む）、
+ *          または該当IDが存在しない場合はnull
+ *
+ * @example
+ * ```typescript
+ * movedSubtree([parent, child], parent.id, null);
+ * // [{ ...parent, parentIdなし, version: parent.version + 1, rank: 'i' }, { ...child, rank: 'i001' }]
+ * ```
+ */
+export function movedSubtree(
+  todos: readonly StoredTodo[],
+  id: string,
+  lastRank: string | null
+): [StoredTodo, ...StoredTodo[]] | null {
+  const root = todos.find((todo) => todo.id === id);
+  if (!root) {
+    return null;
+  }
+  const descendants = new Set(descendantIds(todos, id));
+  let rank = rankAfter(lastRank);
+  const moved = normalizeParent({ ...root, parentId: undefined, version: root.version + 1, rank });
+  return [
+    moved,
+    ...todos
+      .filter((todo) => descendants.has(todo.id))
+      .map((todo) => {
+        rank = rankAfter(rank);
+        return { ...todo, rank };
+      }),
+  ];
+}
@@ -0,0 +1,140 @@
+/**
+ * Occurrence Utilities
+ *
+ * このファイルは繰り返しのTodoを完了にしたときに、次の回のTodoを作成する処理を提供します。
+ * PUT /todos/:id で完了にした場合と、チェックリストの `autoComplete` で完了になった場合の
+ * どちらも同じ手順で次の回を作成します（規則の算出は utils/recurrence.ts）。
+ *
+ * 手順:
+ * 1. 更新の前に planNextOccurrence() で次の回の期限・規則と位置を求め、件数の上限を確認する
+ *    （完了した回は繰り返しを持たないよう、更新のrecurrenceをnullにする）
+ * 2. 更新の後に createNextOccurrence() で次の回を作成する
+ */
+
+import type { Todo } from '../models/todo';
+import { TODO_CONSTRAINTS } from '../models/todo';
+import { TodoLimitReachedError } from '../models/error';
+import type { IStorage } from '../storage/interface';
+import { normalizeDue } from './due';
+import { nextOccurrence, normalizeRecurrence } from './recurrence';
+import { siblingsOf } from './ordering';
+import { validateTodoCount } from './validation';
+
+/**
+ * Next Occurrence
+ *
+ * 次の回のTodoの期限・規則と、兄弟の中での位置（兄弟の末尾）。
+ */
+export interface NextOccurrence {
+  dueAt: string;
+  recurrence: string;
+  position: number;
+}
+
+/**
+ * Build the next occurrence of a recurring todo
+ *
+ * タイトル・優先度・タグ・メモ・親などを引き継ぎ、チェックリストは未完了の状態に戻します。
+ *
+ * @param completed - 完了にしたTodo
+ * @param next - 次の回の期限・規則と位置（planNextOccurrence()の結果）
+ * @returns 次の回のTodo
+ */
+export function buildNextOccurrence(completed: Todo, next: NextOccurrence): Todo {
+  const todo: Todo = {
+    id: crypto.randomUUID(),
+    title: completed.title,
+    completed: false,
+    createdAt: new Date().toISOString(),
+    position: next.position,
+    version: TODO_CONSTRAINTS.INITIAL_VERSION,
+    priority: completed.priority ?? TODO_CONSTRAINTS.DEFAULT_PRIORITY,
+    tags: completed.tags ?? [],
+    notes: completed.notes ?? '',
+    dueAt: next.dueAt,
+    recurrence: next.recurrence,
+  };
+  if (completed.dueTimezone) {
+    todo.dueTimezone = completed.dueTimezone;
+  }
+  if (completed.items) {
+    todo.items = completed.items.map((item) => ({
+      ...item,
+      id: crypto.randomUUID(),
+      done: false,
+    }));
+  }
+  if (completed.autoComplete !== undefined) {
+    todo.autoComplete = completed.autoComplete;
+  }
+  if (completed.parentId) {
+    todo.parentId = completed.parentId;
+  }
+  return todo;
+}
+
+/**
+ * Plan the next occurrence of a recurring todo being completed
+ *
+ * 更新をマージした結果、繰り返しのTodoが未完了から完了になる場合は、繰り返しを次の回に引き継ぐため
+ * updatesのrecurrenceをnullにし、次の回の期限・規則と位置を求めます。
+ * UNTIL・COUNTにより最後の回の場合は、繰り返しを取り除くのみで次の回は作成しません。
+ *
+ * @param storage - ストレージレイヤーインスタンス
+ * @param current - 現在のTodo
+ * @param updates - 適用する更新（繰り返しのTodoを完了にする場合はrecurrenceをnullにする）
+ * @param maxCount - 最大Todo件数（resolveMaxTodoCount()の結果）
+ * @returns 次の回の期限・規則と位置。次の回を作成しない場合はnull
+ * @throws {TodoLimitReachedError} 次の回を作成するとTodo件数の上限を超える場合
+ *
+ * @example
+ * ```typescript
+ * const updates: Partial<Todo> = { completed: true };
+ * const next = await planNextOccurrence(storage, current, updates, maxCount);
+ * const updated = await storage.update(id, updates);
+ * if (updated && next) {
+ *   await createNextOccurrence(storage, updated, next);
+ * }
+ * ```
+ */
+export async function planNextOccurrence(
+  storage: IStorage,
+  current: Todo,
+  updates: Partial<Todo>,
+  maxCount: number
+): Promise<NextOccurrence | null> {
+  const merged = normalizeRecurrence(normalizeDue({ ...current, ...updates }));
+  if (!merged.recurrence || updates.completed !== true || current.completed) {
+    return null;
+  }
+  updates.recurrence = null;
+  const occurrence = nextOccurrence(merged);
+  if (!occurrence) {
+    return null;
+  }
+
+  const todos = await storage.getAll();
+  const countValidation = validateTodoCount(todos.length, maxCount);
+  if (!countValidation.valid) {
+    throw new TodoLimitReachedError(
+      countValidation.error || `Maximum number of todos (${maxCount}) has been reached`
+    );
+  }
+  return { ...occurrence, position: siblingsOf(todos, merged.parentId ?? null).length };
+}
+
+/**
+ * Create the next occurrence of a completed recurring todo
+ *
+ * @param storage - ストレージレイヤーインスタンス
+ * @param completed - 完了にしたTodo（更新の結果）
+ * @param next - 次の回の期限・規則と位置（planNextOccurrence()の結果）
+ * @returns 作成した次の回のTodo
+ */
+export async function createNextOccurrence(
+  storage: IStorage,
+  completed: Todo,
+  next: NextOccurrence
+): Promise<Todo> {
+  return storage.create(buildNextOccurrence(completed, next));
+}
@@ -0,0 +1,147 @@
+/**
+ * Ordering Utilities
+ *
+ * このファイルはTodo項目の並び順（position）を計算する純粋関数を提供します。
+ * ストレージ実装に依存しないため、ハンドラー層とすべてのバックエンドから共有されます。
+ *
+ * 参照:
+ * - task-reordering要件1.1: positionは0から始まる連続した整数（階層化したTodoでは親ごと）
+ * - task-reordering要件2: 並び替えAPI (task-reordering/requirements.md)
+ */
+
+/**
+ * Reorder positions
+ *
+ * 指定された要素を新しい位置に移動し、全要素のpositionを0から振り直します。
+ *
+ * @param items - idとpositionを持つ要素の配列
+ * @param id - 移動する要素のID
+ * @param newPosition - 移動先の位置
+ * @returns positionが振り直された新しい配列（position順）。該当IDがない場合は元の配列
+ *
+ * @example
+ * ```typescript
+ * const reordered = reorderPositions(todos, todo.id, 0);
+ * await storage.setOrder(reordered.map((todo) => todo.id));
+ * ```
+ */
+export function reorderPositions<T extends { id: string; position: number }>(
+  items: T[],
+  id: string,
+  newPosition: number
+): T[] {
+  // Sort by position（入力順に依存しないよう、移動元の位置はソート後の配列で求める）
+  const sorted = [...items].sort((a, b) => a.position - b.position);
+  const oldIndex = sorted.findIndex((t) => t.id === id);
+  if (oldIndex === -1) return items;
+  const target = sorted[oldIndex];
+  if (!target) return items;
+  if (target.position === newPosition) return items;
+  const [moved] = sorted.splice(oldIndex, 1);
+  if (!moved) return items;
+  sorted.splice(newPosition, 0, moved);
+  // Reassign positions
+  return sorted.map((t, i) => ({ ...t, position: i }));
+}
+
+/**
+ * Get the siblings under a parent
+ *
+ * @param items - 並び順の要素配列
+ * @param parentId - 親のID（null / undefined はルート）
+ * @returns 指定した親を持つ要素の配列（元の順序を保つ）
+ *
+ * @example
+ * ```typescript
+ * siblingsOf(todos, null); // ルートのTodo
+ * ```
+ */
+export function siblingsOf<T extends { parentId?: string | null }>(
+  items: readonly T[],
+  parentId: string | null | undefined
+): T[] {
+  return items.filter((item) => (item.parentId ?? null) === (parentId ?? null));
+}
+
+/**
+ * Reorder positions within the parent
+ *
+ * 指定された要素を兄弟（同じ親を持つ要素）の中で新しい位置に移動します。
+ * 兄弟以外の要素は全体の並び順の中で元の場所に残り、兄弟はそれぞれが占めていた場所に
+ * 新しい順序で入ります。
+ *
+ * @param items - 全体の並び順の要素配列
+ * @param id - 移動する要素のID
+ * @param newPosition - 兄弟の中での移動先の位置
+ * @returns 全体の並び順の新しい配列。該当IDがない場合は元の配列
+ *
+ * @example
+ * ```typescript
+ * await this.rebalance(reorderWithinParent(toTodos(sorted), id, newPosition));
+ * ```
+ */
+export function reorderWithinParent<T extends { id: string; parentId?: string | null }>(
+  items: T[],
+  id: string,
+  newPosition: number
+): T[] {
+  const target = items.find((item) => item.id === id);
+  if (!target) return items;
+  const siblings = siblingsOf(items, target.parentId).map((item, position) => ({
+    ...item,
+    position,
+  }));
+  const reordered = reorderPositions(siblings, id, newPosition);
+  let next = 0;
+  return items.map((item) =>
+    (item.parentId ?? null) === (target.parentId ?? null) ? (reordered[next++] ?? item) : item
+  );
+}
+
+/**
+ * Assert that a position is within range
+ *
+ * 移動先の位置が 0 ≤ position < count の範囲内であることを検証します。
+ *
+ * @param position - 移動先の位置
+ * @param count - 要素の総数
+ * @throws {RangeError} 範囲外の場合
+ */
+export function assertPositionInRange(position: number, count: number): void {
+  if (!Number.isInteger(position) || position < 0 || position >= count) {
+    throw new RangeError(`newPosition must be between 0 and ${Math.max(count - 1, 0)}`);
+  }
+}
+
+/**
+ * Apply an explicit order
+ *
+ * 指定されたIDの並び順でpositionを0から振り直します。
+ *
+ * @param items - idとpositionを持つ要素の配列
+ * @param ids - 新しい並び順のID配列（itemsのIDをちょうど1回ずつ含む）
+ * @returns idsの順に並び、positionが振り直された新しい配列
+ * @throws {RangeError} idsがitemsのIDの並べ替えになっていない場合
+ *
+ * @example
+ * ```typescript
+ * const ordered = applyOrder(todos, ['c', 'a', 'b']);
+ * ```
+ */
+export function applyOrder<T extends { id: string; position: number }>(
+  items: T[],
+  ids: string[]
+): T[] {
+  const byId = new Map(items.map((item) => [item.id, item]));
+  if (ids.length !== items.length || new Set(ids).size !== ids.length) {
+    throw new RangeError('ids must contain every todo ID exactly once');
+  }
+
+  return ids.map((id, position) => {
+    const item = byId.get(id);
+    if (!item) {
+      throw new RangeError(`Unknown todo ID in ids: ${id}`);
+    }
+    return { ...item, position };
+  });
+}
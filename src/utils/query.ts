@@ -0,0 +1,281 @@
+/**
+ * List Query Utilities
+ *
+ * このファイルは一覧（GET /todos）の絞り込み・並べ替え・ページネーションを行う純粋関数を提供します。
+ * ストレージ実装に依存せず、getAll()の結果に対してハンドラー層で適用します。
+ *
+ * タグの絞り込みは正規化済みのタグの完全一致で、tagMatchが `any` の場合はいずれか、
+ * `all` の場合はすべてのタグを持つTodoを返します。
+ *
+ * 親の絞り込み（parentId）は直接の子のみを返します（nullの場合はルートのTodo）。
+ * positionは兄弟の中での位置のため、position順・priority順の並べ替えでは代わりに
+ * 全Todoの並び順（getAll()の順）を使います。親で絞り込んだ場合はpositionの順と一致します。
+ *
+ * 期限の絞り込みは期限の時刻（終日の場合はその日の終わり、utils/due.ts）で比較し、
+ * dueAfter より後かつ dueBefore 以前のTodoを返します。日付で指定した場合、
+ * `dueAfter=2025-11-01&dueBefore=2025-11-08` は11月1日から7日までが期限のTodoに一致します。
+ *
+ * ページネーションはキーセット方式です。カーソルは直前のページの最後のTodoの
+ * 並べ替えキーとIDを保持するため、ページの取得中にTodoが追加・削除されても
+ * 同じTodoが重複したり欠けたりしません（position順・priority順の場合、並び替えや削除で
+ * positionが変わるため、この限りではありません）。
+ *
+ * `fields` が指定された場合、ページ分割の後で各Todoを指定したフィールドのみに絞ります
+ * （selectFields()）。絞り込みや並べ替え、カーソルには影響しません。
+ *
+ * 参照:
+ * - 要件2: Todo項目の取得 (requirements.md)
+ */
+
+import { TODO_CONSTRAINTS } from '../models/todo';
+import type {
+  Todo,
+  TodoCursor,
+  TodoListQuery,
+  TodoPage,
+  TodoResponse,
+  TodoField,
+  TodoSortField,
+  SortOrder,
+} from '../models/todo';
+import { dueDeadline, isOverdue } from './due';
+
+/**
+ * 優先度の並べ替えキーで、優先度1段階あたりに割り当てる並び順の範囲
+ */
+const PRIORITY_KEY_SPAN = 1_000_000_000;
+
+/**
+ * Get the sort key of a todo
+ *
+ * positionの場合は全Todoの並び順（index）を返します。
+ * priorityの場合は「優先度の段階 × PRIORITY_KEY_SPAN + 並び順」を1つの数値にまとめ、
+ * 同じ優先度のTodoがorderに関わらず並び順の昇順に並ぶようにします
+ * （降順の場合は並び順を反転させる）。カーソルも1つの値のまま扱えます。
+ *
+ * @param todo - Todo項目
+ * @param index - 全Todoの並び順での添字
+ * @param sort - 並べ替えフィールド
+ * @param order - 並べ替え順
+ * @returns 並べ替えキーの値
+ */
+function sortKey(
+  todo: Todo,
+  index: number,
+  sort: TodoSortField,
+  order: SortOrder
+): string | number {
+  if (sort === 'position') {
+    return index;
+  }
+  if (sort !== 'priority') {
+    return todo[sort];
+  }
+  const level = TODO_CONSTRAINTS.PRIORITIES.indexOf(
+    todo.priority ?? TODO_CONSTRAINTS.DEFAULT_PRIORITY
+  );
+  const tiebreak = order === 'asc' ? index : PRIORITY_KEY_SPAN - 1 - index;
+  return level * PRIORITY_KEY_SPAN + tiebreak;
+}
+
+/**
+ * Compare two sort keys with the id as a tiebreaker
+ *
+ * 文字列はコードポイント順で比較します（ロケールに依存しない）。
+ *
+ * @returns a < b なら負、a > b なら正、等しければ0（昇順）
+ */
+function compareKeys(
+  a: { value: string | number; id: string },
+  b: { value: string | number; id: string }
+): number {
+  if (a.value !== b.value) {
+    return a.value < b.value ? -1 : 1;
+  }
+  if (a.id !== b.id) {
+    return a.id < b.id ? -1 : 1;
+  }
+  return 0;
+}
+
+/**
+ * Encode a cursor as an opaque string
+ *
+ * タイトルに非ASCII文字が含まれる場合があるため、UTF-8のバイト列をbase64url形式にします。
+ *
+ * @param cursor - カーソル
+ * @returns base64url形式の文字列
+ */
+export function encodeCursor(cursor: TodoCursor): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(cursor));
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * Decode an opaque cursor string
+ *
+ * @param encoded - encodeCursor()で生成された文字列
+ * @returns カーソル。形式が不正な場合はnull
+ */
+export function decodeCursor(encoded: string): TodoCursor | null {
+  try {
+    const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+    const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+    const cursor = JSON.parse(new TextDecoder().decode(bytes)) as Record<string, unknown>;
+
+    const valueType = ['position', 'priority'].includes(cursor['sort'] as string)
+      ? 'number'
+      : 'string';
+    if (
+      !(TODO_CONSTRAINTS.SORT_FIELDS as readonly unknown[]).includes(cursor['sort']) ||
+      !['asc', 'desc'].includes(cursor['order'] as string) ||
+      typeof cursor['value'] !== valueType ||
+      typeof cursor['id'] !== 'string'
+    ) {
+      return null;
+    }
+    return cursor as unknown as TodoCursor;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check whether a todo matches the tag filter
+ *
+ * @param todo - Todo項目
+ * @param query - 検証済みのクエリ
+ * @returns tagsが指定されていない場合、またはtagMatchの条件を満たす場合はtrue
+ */
+function matchesTags(todo: Todo, query: TodoListQuery): boolean {
+  if (!query.tags || query.tags.length === 0) {
+    return true;
+  }
+  const tags = todo.tags ?? [];
+  const has = (tag: string) => tags.includes(tag);
+  return query.tagMatch === 'all' ? query.tags.every(has) : query.tags.some(has);
+}
+
+/**
+ * Check whether a todo matches the due filters
+ *
+ * @param todo - Todo項目
+ * @param query - 検証済みのクエリ
+ * @param now - 期限切れの判定に使用する現在時刻（UNIX時刻、ミリ秒）
+ * @returns dueBefore / dueAfter / overdue の条件をすべて満たす場合はtrue
+ */
+function matchesDue(todo: Todo, query: TodoListQuery, now: number): boolean {
+  if (query.overdue !== undefined && isOverdue(todo, now) !== query.overdue) {
+    return false;
+  }
+  if (query.dueBefore === undefined && query.dueAfter === undefined) {
+    return true;
+  }
+
+  const deadline = dueDeadline(todo);
+  return (
+    deadline !== null &&
+    (query.dueBefore === undefined || deadline <= query.dueBefore) &&
+    (query.dueAfter === undefined || deadline > query.dueAfter)
+  );
+}
+
+/**
+ * Apply a list query to todos
+ *
+ * 絞り込み → 並べ替え → ページ分割の順に適用します。
+ * 並べ替えキーが同じ場合はIDの順で並べ、ページの境界を一意に決めます。
+ *
+ * @param todos - すべてのTodo項目（getAll()の並び順）
+ * @param query - 検証済みのクエリ
+ * @param now - 期限切れの判定に使用する現在時刻（UNIX時刻、ミリ秒、デフォルト: Date.now()）
+ * @returns pageが指定されていない場合はTodo配列、指定されている場合はTodoPage
+ *
+ * @example
+ * ```typescript
+ * applyListQuery(todos, { completed: false, sort: 'position', order: 'asc' }); // Todo[]
+ * applyListQuery(todos, { sort: 'title', order: 'asc', page: { limit: 20 } }); // TodoPage
+ * ```
+ */
+export function applyListQuery<T extends Todo>(
+  todos: T[],
+  query: TodoListQuery,
+  now: number = Date.now()
+): T[] | TodoPage<T> {
+  const { sort, order } = query;
+  const direction = order === 'asc' ? 1 : -1;
+  const needle = query.q?.toLowerCase();
+
+  const matched = todos
+    .map((todo, index) => ({ todo, index }))
+    .filter(
+      ({ todo }) => query.parentId === undefined || (todo.parentId ?? null) === query.parentId
+    )
+    .filter(({ todo }) => query.completed === undefined || todo.completed === query.completed)
+    .filter(({ todo }) => needle === undefined || todo.title.toLowerCase().includes(needle))
+    .filter(({ todo }) => matchesTags(todo, query))
+    .filter(({ todo }) => matchesDue(todo, query, now))
+    .map(({ todo, index }) => ({ todo, value: sortKey(todo, index, sort, order), id: todo.id }))
+    .sort((a, b) => direction * compareKeys(a, b));
+
+  if (!query.page) {
+    return matched.map(({ todo }) => todo);
+  }
+
+  const { limit, after } = query.page;
+  const start =
+    after === undefined
+      ? 0
+      : matched.findIndex((entry) => direction * compareKeys(entry, after) > 0);
+  const items = start === -1 ? [] : matched.slice(start, start + limit);
+  const last = items.at(-1);
+  const hasMore = start !== -1 && start + limit < matched.length;
+
+  return {
+    items: items.map(({ todo }) => todo),
+    nextCursor:
+      hasMore && last ? encodeCursor({ sort, order, value: last.value, id: last.id }) : null,
+    total: matched.length,
+  };
+}
+
+/**
+ * Pick the selected fields of a todo
+ *
+ * @param todo - Todo項目
+ * @param fields - 含めるフィールド
+ * @returns 指定したフィールドのうち、Todoが持つフィールドのみを含むオブジェクト
+ */
+function pickFields(todo: TodoResponse, fields: readonly TodoField[]): Partial<TodoResponse> {
+  return Object.fromEntries(
+    fields.filter((field) => todo[field] !== undefined).map((field) => [field, todo[field]])
+  ) as Partial<TodoResponse>;
+}
+
+/**
+ * Select fields of a list result
+ *
+ * applyListQuery()の結果の各Todoを、指定したフィールドのみに絞ります。
+ * 未設定のフィールド（例: 期限のないTodoのdueAt）は指定しても含まれません。
+ *
+ * @param result - applyListQuery()の結果
+ * @param fields - 含めるフィールド
+ * @returns 結果と同じ形式（配列またはTodoPage）で、各Todoを絞ったもの
+ *
+ * @example
+ * ```typescript
+ * selectFields([todo], ['id', 'title']); // [{ id: '...', title: '...' }]
+ * ```
+ */
+export function selectFields(
+  result: TodoResponse[] | TodoPage<TodoResponse>,
+  fields: readonly TodoField[]
+): Partial<TodoResponse>[] | TodoPage<Partial<TodoResponse>> {
+  if (Array.isArray(result)) {
+    return result.map((todo) => pickFields(todo, fields));
+  }
+  return { ...result, items: result.items.map((todo) => pickFields(todo, fields)) };
+}
@@ -0,0 +1,348 @@
+/**
+ * Rank Utilities
+ *
+ * このファイルはTodo項目の並び順を表すランク文字列（LexoRank方式）を計算する純粋関数を提供します。
+ * ランクは辞書順で比較される0-9a-zの文字列で、任意の2つのランクの間に新しいランクを
+ * 生成できるため、移動・削除時に他のTodoを書き換える必要がありません。
+ *
+ * APIが返す `position` はランク順に並べたときの兄弟（同じ親を持つTodo）の中での添字として
+ * 読み込み時に算出します（task-reordering要件1.1の互換性を維持）。ランクは全Todoで1つの順序を
+ * 表し、兄弟の順序はその部分列です。
+ *
+ * 参照:
+ * - task-reordering要件1.1-1.3 (task-reordering/requirements.md)
+ */
+
+import { TODO_CONSTRAINTS } from '../models/todo';
+import type { Todo, StoredTodo } from '../models/todo';
+
+/**
+ * ランクに使用する文字（辞書順 = 数値順）
+ */
+const RANK_DIGITS = '0123456789abcdefghijklmnopqrstuvwxyz';
+
+/**
+ * ランクの基数
+ */
+const RANK_BASE = RANK_DIGITS.length;
+
+/**
+ * Rank Constraints
+ *
+ * ランク生成と再配置（rebalance）に関する定数。
+ */
+export const RANK_CONSTRAINTS = {
+  /**
+   * 末尾への追加と再配置で使用する固定桁数
+   */
+  WIDTH: 6,
+
+  /**
+   * 末尾への追加と再配置で使用するランクの間隔（固定桁数での整数値）
+   * 間に約10回の挿入を行ってもWIDTH桁に収まる
+   */
+  STEP: RANK_BASE ** 2,
+
+  /**
+   * ランクの最大長
+   * これを超えるランクが必要になった場合、リスト全体を再配置する
+   */
+  MAX_LENGTH: 32,
+} as const;
+
+/**
+ * 固定桁数での最大値（この値は含まない）
+ */
+const RANK_SPACE = RANK_BASE ** RANK_CONSTRAINTS.WIDTH;
+
+/**
+ * 最初のランク（'i'、ランク空間の中央）の固定桁数での整数値
+ */
+const RANK_START = Math.floor(RANK_SPACE / 2);
+
+/**
+ * Ranked item
+ *
+ * ランクで並べ替え可能な要素。同じランクの場合はidで順序を決定します。
+ */
+export interface Ranked {
+  id: string;
+  rank: string;
+}
+
+/**
+ * Encode an integer as a fixed-width rank
+ *
+ * 末尾の0は取り除きます（'i00100' → 'i001'）。末尾の0を持たないランク同士では
+ * 辞書順と数値順が一致し、rankBetween()で常に間のランクを生成できます。
+ *
+ * @param value - 0 < value < RANK_SPACE の整数
+ * @returns ランク文字列
+ */
+function encodeFixed(value: number): string {
+  let digits = '';
+  for (let i = 0; i < RANK_CONSTRAINTS.WIDTH; i++) {
+    digits = RANK_DIGITS.charAt(value % RANK_BASE) + digits;
+    value = Math.floor(value / RANK_BASE);
+  }
+  return digits.replace(/0+$/, '');
+}
+
+/**
+ * Decode the first WIDTH digits of a rank as an integer
+ *
+ * @param rank - ランク文字列
+ * @returns 固定桁数に切り詰めた整数値
+ */
+function decodeFixed(rank: string): number {
+  let value = 0;
+  for (let i = 0; i < RANK_CONSTRAINTS.WIDTH; i++) {
+    value = value * RANK_BASE + Math.max(RANK_DIGITS.indexOf(rank[i] ?? '0'), 0);
+  }
+  return value;
+}
+
+/**
+ * Midpoint of two ranks
+ *
+ * @param a - 下限（空文字列は0を表す）
+ * @param b - 上限（nullは上限なし）
+ * @returns a < result < b を満たすランク
+ */
+function midpoint(a: string, b: string | null): string {
+  if (b !== null) {
+    // 共通の接頭辞を取り除く（aが短い場合は0で埋めて比較）
+    let n = 0;
+    while ((a[n] ?? '0') === b[n]) {
+      n++;
+    }
+    if (n > 0) {
+      return b.slice(0, n) + midpoint(a.slice(n), b.slice(n));
+    }
+  }
+
+  const digitA = a ? RANK_DIGITS.indexOf(a.charAt(0)) : 0;
+  const digitB = b !== null ? RANK_DIGITS.indexOf(b.charAt(0)) : RANK_BASE;
+  if (digitB - digitA > 1) {
+    return RANK_DIGITS.charAt(Math.round((digitA + digitB) / 2));
+  }
+
+  // 隣接する桁の場合: bが複数桁ならbの先頭桁だけで a < b[0] < b になる
+  if (b !== null && b.length > 1) {
+    return b.slice(0, 1);
+  }
+  return RANK_DIGITS.charAt(digitA) + midpoint(a.slice(1), null);
+}
+
+/**
+ * Generate a rank between two ranks
+ *
+ * @param before - 直前のランク（nullは先頭）
+ * @param after - 直後のランク（nullは末尾）
+ * @returns before < result < after を満たすランク
+ * @throws {Error} before >= after の場合
+ *
+ * @example
+ * ```typescript
+ * rankBetween('i', 'j'); // 'ii'
+ * rankBetween(null, 'i'); // '9'
+ * ```
+ */
+export function rankBetween(before: string | null, after: string | null): string {
+  if (before !== null && after !== null && before >= after) {
+    throw new Error(`Cannot generate a rank between "${before}" and "${after}"`);
+  }
+  return midpoint(before ?? '', after);
+}
+
+/**
+ * Generate a rank after the last one
+ *
+ * 固定桁数でSTEPだけ進めたランクを返します。ランク空間の末尾に達した場合は
+ * rankBetween()で桁を伸ばします。
+ *
+ * @param last - 現在の末尾のランク（nullはリストが空）
+ * @returns lastより大きいランク
+ *
+ * @example
+ * ```typescript
+ * rankAfter(null); // 'i'
+ * rankAfter('i'); // 'i001'
+ * ```
+ */
+export function rankAfter(last: string | null): string {
+  if (last === null) {
+    return encodeFixed(RANK_START);
+  }
+
+  const next = decodeFixed(last) + RANK_CONSTRAINTS.STEP;
+  return next < RANK_SPACE ? encodeFixed(next) : rankBetween(last, null);
+}
+
+/**
+ * Assign evenly spaced ranks in the given order
+ *
+ * 再配置（rebalance）と並び順の一括設定で使用します。
+ * 結果は rankAfter() を先頭から繰り返し適用した場合と同じ間隔になります
+ * （件数が多くランク空間に収まらない場合は間隔を詰めます）。
+ *
+ * @param ordered - 新しい並び順の要素配列
+ * @returns 各要素のIDと新しいランク（昇順）
+ *
+ * @example
+ * ```typescript
+ * rerank([{ id: 'a' }, { id: 'b' }]); // [{ id: 'a', rank: 'i' }, { id: 'b', rank: 'i001' }]
+ * ```
+ */
+export function rerank(ordered: { id: string }[]): Ranked[] {
+  const step = Math.max(
+    1,
+    Math.min(RANK_CONSTRAINTS.STEP, Math.floor((RANK_SPACE - RANK_START) / (ordered.length + 1)))
+  );
+  return ordered.map(({ id }, i) => ({ id, rank: encodeFixed(RANK_START + i * step) }));
+}
+
+/**
+ * Compare two ranked items
+ *
+ * ランクの辞書順（同じランクの場合はidの辞書順）で比較します。
+ * SQLiteのBINARY照合順序と同じ結果になるよう、localeCompareは使用しません。
+ *
+ * @param a - 比較する要素
+ * @param b - 比較する要素
+ * @returns a < b なら負、a > b なら正、等しければ0
+ */
+export function compareRanked(a: Ranked, b: Ranked): number {
+  if (a.rank !== b.rank) {
+    return a.rank < b.rank ? -1 : 1;
+  }
+  if (a.id !== b.id) {
+    return a.id < b.id ? -1 : 1;
+  }
+  return 0;
+}
+
+/**
+ * Sort items by rank
+ *
+ * @param items - ランクを持つ要素の配列
+ * @returns ランク順にソートされた新しい配列
+ */
+export function sortByRank<T extends Ranked>(items: T[]): T[] {
+  return [...items].sort(compareRanked);
+}
+
+/**
+ * Compute the rank for moving an item
+ *
+ * 移動先の前後の要素のランクの間に新しいランクを生成します。
+ * 書き込みは移動する1件のみで済みます。
+ *
+ * @param sorted - ランク順にソートされた全要素（移動する要素を含む）
+ * @param id - 移動する要素のID
+ * @param newPosition - 移動先の位置
+ * @returns 新しいランク。前後のランクが同じ、または生成したランクが
+ *          MAX_LENGTHを超える場合は再配置が必要なためnull
+ */
+export function rankForMove<T extends Ranked>(
+  sorted: T[],
+  id: string,
+  newPosition: number
+): string | null {
+  const current = sorted.find((item, index) => item.id === id && index === newPosition);
+  if (current) {
+    return current.rank;
+  }
+
+  const others = sorted.filter((item) => item.id !== id);
+  const before = others[newPosition - 1]?.rank ?? null;
+  const after = others[newPosition]?.rank ?? null;
+  if (before !== null && after !== null && before >= after) {
+    return null;
+  }
+
+  const rank = after === null ? rankAfter(before) : rankBetween(before, after);
+  return rank.length > RANK_CONSTRAINTS.MAX_LENGTH ? null : rank;
+}
+
+/**
+ * Legacy Stored Todo
+ *
+ * ランク導入前に保存されたTodo。positionのみを持ち、rankを持たない。
+ * さらに古いデータではpositionも存在しない場合がある。
+ * バージョン導入前のデータはversionを持たない。
+ */
+export type LegacyStoredTodo = Omit<StoredTodo, 'rank' | 'version'> & {
+  rank?: string;
+  position?: number;
+  version?: number;
+};
+
+/**
+ * Migrate legacy todos to ranks
+ *
+ * rankを持たないTodoが1件でもある場合、保存済みのposition順（positionがない場合は末尾）で
+ * 全件にランクを割り当て直します。KVとDurable Objectsの既存データの移行に使用します。
+ * versionを持たないTodoは初期バージョンとして扱います（保存し直す必要はありません）。
+ *
+ * @param records - ストレージから読み込んだTodo配列
+ * @returns ランクを持つTodo配列と、保存し直す必要があるTodo配列
+ */
+export function migrateToRanks(records: LegacyStoredTodo[]): {
+  stored: StoredTodo[];
+  migrated: StoredTodo[];
+} {
+  const versioned = records.map((record) => ({
+    ...record,
+    version: record.version ?? TODO_CONSTRAINTS.INITIAL_VERSION,
+  }));
+  const ranked = versioned.filter(
+    (record): record is StoredTodo => typeof record.rank === 'string'
+  );
+  if (ranked.length === versioned.length) {
+    return { stored: ranked, migrated: [] };
+  }
+
+  const ordered = versioned.sort((a, b) => (a.position ?? Infinity) - (b.position ?? Infinity));
+  const ranks = new Map(rerank(ordered).map(({ id, rank }) => [id, rank]));
+  const migrated = ordered.map(({ position, ...record }) => ({
+    ...record,
+    rank: ranks.get(record.id) ?? '',
+  }));
+  return { stored: migrated, migrated };
+}
+
+/**
+ * Stored todo with its rank replaced by a position
+ */
+export type Positioned<T extends StoredTodo> = Omit<T, 'rank'> & Pick<Todo, 'position'>;
+
+/**
+ * Convert a stored todo to a Todo
+ *
+ * 保存形式に追加のフィールド（アーカイブした日時など）がある場合はそのまま引き継ぎます。
+ *
+ * @param stored - ストレージに保存されたTodo
+ * @param position - 兄弟の中でのランク順での位置
+ * @returns rankを含まず、positionを持つTodo
+ */
+export function toTodo<T extends StoredTodo>(stored: T, position: number): Positioned<T> {
+  const { rank, ...todo } = stored;
+  return { ...todo, position };
+}
+
+/**
+ * Convert stored todos to Todos sorted by rank
+ *
+ * @param stored - ストレージに保存されたTodo配列
+ * @returns ランク順にソートされ、親ごとに0から始まる連続したpositionを持つTodo配列
+ */
+export function toTodos<T extends StoredTodo>(stored: T[]): Positioned<T>[] {
+  const counts = new Map<string | null, number>();
+  return sortByRank(stored).map((item) => {
+    const parentId = item.parentId ?? null;
+    const position = counts.get(parentId) ?? 0;
+    counts.set(parentId, position + 1);
+    return toTodo(item, position);
+  });
+}
@@ -0,0 +1,342 @@
+/**
+ * Recurrence Utilities
+ *
+ * このファイルは繰り返しのTodoの規則（recurrence）を扱う純粋関数を提供します。
+ * 規則はiCalendarのRRULEのサブセットで、次の要素をセミコロン区切りで指定します。
+ *
+ * - FREQ: 必須。DAILY / WEEKLY / MONTHLY
+ * - INTERVAL: 任意。何日・何週・何か月ごとか（デフォルト: 1）
+ * - BYDAY: 任意。曜日（MO, TU, WE, TH, FR, SA, SU）のカンマ区切り。DAILY / WEEKLYのみ
+ * - UNTIL: 任意。最後の回の期限（YYYYMMDD または YYYYMMDDTHHMMSSZ）
+ * - COUNT: 任意。完了するTodoを含む残りの回数（UNTILとは同時に指定できない）
+ *
+ * 次の回の期限は現在の期限（dueAt）を基準に求め、時刻とオフセットは現在の期限のものを引き継ぎます。
+ * 週は月曜日から始まるものとして数えます（RRULEのWKSTのデフォルト）。
+ *
+ * 参照:
+ * - RFC 5545 Section 3.3.10 (Recurrence Rule)
+ */
+
+import type { Todo, RecurrenceRule, RecurrenceFrequency, Weekday } from '../models/todo';
+import { TODO_CONSTRAINTS } from '../models/todo';
+import { isAllDay } from './due';
+
+/**
+ * 1日のミリ秒数
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * UNTILの形式（日付のみ、またはUTCの日時）
+ */
+const UNTIL_PATTERN = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z)?$/;
+
+/**
+ * 正の整数の形式（先頭の0を除く）
+ */
+const POSITIVE_INTEGER_PATTERN = /^[1-9]\d*$/;
+
+/**
+ * MONTHLYで期限の日が存在する月を探す最大の回数（2月29日は最大8年後）
+ */
+const MAX_MONTHLY_ATTEMPTS = 100;
+
+/**
+ * Convert a date to a day number
+ *
+ * @param date - 日付（YYYY-MM-DD）
+ * @returns 1970-01-01からの日数
+ */
+function toDayNumber(date: string): number {
+  const [year, month, day] = date.split('-').map(Number) as [number, number, number];
+  return Date.UTC(year, month - 1, day) / DAY_MS;
+}
+
+/**
+ * Convert a day number to a date
+ *
+ * @param dayNumber - 1970-01-01からの日数
+ * @returns 日付（YYYY-MM-DD）
+ */
+function fromDayNumber(dayNumber: number): string {
+  return new Date(dayNumber * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Weekday of a day number
+ *
+ * @param dayNumber - 1970-01-01（木曜日）からの日数
+ * @returns 曜日
+ */
+function weekdayOf(dayNumber: number): Weekday {
+  return TODO_CONSTRAINTS.WEEKDAYS[(((dayNumber + 3) % 7) + 7) % 7] as Weekday;
+}
+
+/**
+ * Week number of a day number
+ *
+ * @param dayNumber - 1970-01-01からの日数
+ * @returns 月曜日から始まる週の通し番号
+ */
+function weekOf(dayNumber: number): number {
+  return Math.floor((dayNumber + 3) / 7);
+}
+
+/**
+ * Parse an UNTIL value
+ *
+ * @param value - UNTILの値
+ * @returns 正規化したISO 8601形式（YYYY-MM-DD または YYYY-MM-DDTHH:MM:SSZ）。無効な場合はnull
+ */
+function parseUntil(value: string): string | null {
+  const match = UNTIL_PATTERN.exec(value);
+  if (!match) {
+    return null;
+  }
+  const [, year, month, day, hour, minute, second] = match;
+  const date = `${year}-${month}-${day}`;
+  if (fromDayNumber(toDayNumber(date)) !== date) {
+    return null;
+  }
+  if (hour === undefined) {
+    return date;
+  }
+  const dateTime = `${date}T${hour}:${minute}:${second}Z`;
+  return Number.isNaN(Date.parse(dateTime)) ? null : dateTime;
+}
+
+/**
+ * Parse a recurrence rule
+ *
+ * 先頭の `RRULE:` は省略できます。要素名と値の大文字小文字は区別しません。
+ *
+ * @param value - 繰り返しの規則（例: `FREQ=WEEKLY;BYDAY=MO,TH`）
+ * @returns 解析した規則。サポートしない要素を含む、または無効な場合はnull
+ *
+ * @example
+ * ```typescript
+ * parseRecurrence('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO');
+ * // { freq: 'WEEKLY', interval: 2, byDay: ['MO'] }
+ * parseRecurrence('FREQ=YEARLY'); // null
+ * ```
+ */
+export function parseRecurrence(value: string): RecurrenceRule | null {
+  const parts = value
+    .trim()
+    .toUpperCase()
+    .replace(/^RRULE:/, '')
+    .split(';');
+  const entries = new Map<string, string>();
+  for (const part of parts) {
+    const [name, partValue, ...rest] = part.split('=');
+    if (!name || !partValue || rest.length > 0 || entries.has(name)) {
+      return null;
+    }
+    entries.set(name, partValue);
+  }
+
+  const freq = entries.get('FREQ');
+  if (!(TODO_CONSTRAINTS.RECURRENCE_FREQUENCIES as readonly unknown[]).includes(freq)) {
+    return null;
+  }
+  const rule: RecurrenceRule = { freq: freq as RecurrenceFrequency, interval: 1 };
+
+  for (const [name, partValue] of entries) {
+    if (name === 'FREQ') {
+      continue;
+    }
+    if (name === 'INTERVAL' || name === 'COUNT') {
+      const number = Number(partValue);
+      const max =
+        name === 'INTERVAL'
+          ? TODO_CONSTRAINTS.MAX_RECURRENCE_INTERVAL
+          : TODO_CONSTRAINTS.MAX_RECURRENCE_COUNT;
+      if (!POSITIVE_INTEGER_PATTERN.test(partValue) || number > max) {
+        return null;
+      }
+      rule[name === 'INTERVAL' ? 'interval' : 'count'] = number;
+    } else if (name === 'BYDAY') {
+      const days = partValue.split(',');
+      if (
+        rule.freq === 'MONTHLY' ||
+        new Set(days).size !== days.length ||
+        !days.every((day) => (TODO_CONSTRAINTS.WEEKDAYS as readonly string[]).includes(day))
+      ) {
+        return null;
+      }
+      // 曜日は月曜日から順に並べる
+      rule.byDay = TODO_CONSTRAINTS.WEEKDAYS.filter((day) => days.includes(day));
+    } else if (name === 'UNTIL') {
+      const until = parseUntil(partValue);
+      if (until === null) {
+        return null;
+      }
+      rule.until = until;
+    } else {
+      return null;
+    }
+  }
+
+  // UNTILとCOUNTは同時に指定できない（RFC 5545）
+  return rule.until !== undefined && rule.count !== undefined ? null : rule;
+}
+
+/**
+ * Format a recurrence rule
+ *
+ * FREQ, INTERVAL（1の場合は省略）, BYDAY, UNTIL, COUNTの順の文字列にします。
+ *
+ * @param rule - 繰り返しの規則
+ * @returns RRULE形式の文字列（`RRULE:` を含まない）
+ */
+export function formatRecurrence(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval !== 1) {
+    parts.push(`INTERVAL=${rule.interval}`);
+  }
+  if (rule.byDay) {
+    parts.push(`BYDAY=${rule.byDay.join(',')}`);
+  }
+  if (rule.until) {
+    parts.push(`UNTIL=${rule.until.replace(/[-:]/g, '')}`);
+  }
+  if (rule.count !== undefined) {
+    parts.push(`COUNT=${rule.count}`);
+  }
+  return parts.join(';');
+}
+
+/**
+ * Canonicalize a recurrence rule
+ *
+ * 保存する形式に揃えます（大文字、`RRULE:` を除く、要素の順序を固定）。
+ *
+ * @param value - 有効な繰り返しの規則（isValidRecurrence()で検証済み）
+ * @returns 正規化した規則
+ *
+ * @example
+ * ```typescript
+ * canonicalizeRecurrence('RRULE:byday=th,mo;freq=weekly;interval=1');
+ * // 'FREQ=WEEKLY;BYDAY=MO,TH'
+ * ```
+ */
+export function canonicalizeRecurrence(value: string): string {
+  const rule = parseRecurrence(value);
+  return rule ? formatRecurrence(rule) : value;
+}
+
+/**
+ * Find the next occurrence day
+ *
+ * @param rule - 繰り返しの規則
+ * @param dayNumber - 現在の期限の日（1970-01-01からの日数）
+ * @returns 次の回の日。規則に一致する日がない場合はnull
+ */
+function nextDay(rule: RecurrenceRule, dayNumber: number): number | null {
+  const matches = (day: number) => !rule.byDay || rule.byDay.includes(weekdayOf(day));
+
+  if (rule.freq === 'DAILY') {
+    // INTERVALが7の倍数の場合、曜日は変わらないため7回で打ち切る
+    for (let step = 1; step <= 7; step++) {
+      const day = dayNumber + rule.interval * step;
+      if (matches(day)) {
+        return day;
+      }
+    }
+    return null;
+  }
+
+  if (rule.freq === 'WEEKLY') {
+    if (!rule.byDay) {
+      return dayNumber + 7 * rule.interval;
+    }
+    // 同じ週の残りの曜日、またはINTERVAL週後の週の曜日
+    for (let day = dayNumber + 1; day <= dayNumber + 7 * (rule.interval + 1); day++) {
+      if ((weekOf(day) - weekOf(dayNumber)) % rule.interval === 0 && matches(day)) {
+        return day;
+      }
+    }
+    return null;
+  }
+
+  // MONTHLY: 同じ日。その日が存在しない月（例: 31日）は飛ばす（RFC 5545）
+  const [year, month, date] = fromDayNumber(dayNumber).split('-').map(Number) as [
+    number,
+    number,
+    number,
+  ];
+  for (let step = 1; step <= MAX_MONTHLY_ATTEMPTS; step++) {
+    const candidate = new Date(Date.UTC(year, month - 1 + rule.interval * step, date));
+    if (candidate.getUTCDate() === date) {
+      return candidate.getTime() / DAY_MS;
+    }
+  }
+  return null;
+}
+
+/**
+ * Check whether a due date is within UNTIL
+ *
+ * UNTILが日付のみの場合、または期限が終日の場合は日付で比較します。
+ *
+ * @param dueAt - 次の回の期限
+ * @param until - 正規化したUNTIL（YYYY-MM-DD または YYYY-MM-DDTHH:MM:SSZ）
+ * @returns 期限がUNTIL以前の場合はtrue
+ */
+function isWithinUntil(dueAt: string, until: string): boolean {
+  if (until.length === 10 || isAllDay(dueAt)) {
+    return dueAt.slice(0, 10) <= until.slice(0, 10);
+  }
+  return Date.parse(dueAt) <= Date.parse(until);
+}
+
+/**
+ * Compute the next occurrence of a recurring todo
+ *
+ * 期限の日付のみを進め、時刻とオフセット（終日の場合は日付のみの形式）は引き継ぎます。
+ * COUNTは1減らして次の回に引き継ぎます。
+ *
+ * @param todo - dueAtとrecurrenceを持つTodo
+ * @returns 次の回の期限と規則。繰り返しでない、またはUNTIL・COUNTにより最後の回の場合はnull
+ *
+ * @example
+ * ```typescript
+ * nextOccurrence({ dueAt: '2025-11-03T09:00:00+09:00', recurrence: 'FREQ=WEEKLY;COUNT=3' });
+ * // { dueAt: '2025-11-10T09:00:00+09:00', recurrence: 'FREQ=WEEKLY;COUNT=2' }
+ * nextOccurrence({ dueAt: '2025-11-03', recurrence: 'FREQ=DAILY;COUNT=1' }); // null
+ * ```
+ */
+export function nextOccurrence(
+  todo: Pick<Todo, 'dueAt' | 'recurrence'>
+): { dueAt: string; recurrence: string } | null {
+  const rule = todo.recurrence ? parseRecurrence(todo.recurrence) : null;
+  if (!todo.dueAt || !rule || rule.count === 1) {
+    return null;
+  }
+
+  const day = nextDay(rule, toDayNumber(todo.dueAt.slice(0, 10)));
+  if (day === null) {
+    return null;
+  }
+  const dueAt = fromDayNumber(day) + todo.dueAt.slice(10);
+  if (rule.until && !isWithinUntil(dueAt, rule.until)) {
+    return null;
+  }
+
+  const next = rule.count === undefined ? rule : { ...rule, count: rule.count - 1 };
+  return { dueAt, recurrence: formatRecurrence(next) };
+}
+
+/**
+ * Remove a cleared recurrence
+ *
+ * 更新で `recurrence: null` が指定された場合、フィールドを取り除きます。
+ * すべてのストレージで繰り返しのないTodoがフィールドを持たない形に揃えるために使用します。
+ *
+ * @param todo - 更新をマージしたTodo
+ * @returns recurrenceを正規化したTodo
+ */
+export function normalizeRecurrence<T extends Pick<Todo, 'recurrence'>>(todo: T): T {
+  const { recurrence, ...rest } = todo;
+  return (recurrence ? { ...rest, recurrence } : rest) as T;
+}
@@ -28,6 +28,7 @@ import { ErrorResponse, ErrorCode } from '../models/error';
  * @template T - レスポンスデータの型
  * @param {T} data - レスポンスに含めるデータ（オブジェクト、配列、プリミティブ）
  * @param {number} status - HTTPステータスコード（例: 200, 201, 204）
+ * @param {Record<string, string>} [headers] - 追加のレスポンスヘッダー（例: ETag）
  * @returns {Response} JSON形式のHTTPレスポンス
  *
  * @example
@@ -42,29 +43,60 @@ import { ErrorResponse, ErrorCode } from '../models/error';
  *
  * // 作成成功レスポンス
  * return jsonResponse(newTodo, 201);
+ *
+ * // ETagヘッダー付きのレスポンス
+ * return jsonResponse(todo, 200, { ETag: '"1"' });
  * ```
  *
  * セキュリティ考慮事項:
  * - センシティブデータ（API Key、内部エラー詳細等）を含めないこと
  * - データは適切にサニタイズされていることを前提とする
  */
-export function jsonResponse<T>(data: T, status: number): Response {
+export function jsonResponse<T>(
+  data: T,
+  status: number,
+  headers: Record<string, string> = {}
+): Response {
   // 204 No Content の場合はボディを持たない
   // RFC 7231: 204レスポンスはメッセージボディを含んではならない
   if (status === 204) {
     return new Response(null, {
       status,
+      headers,
     });
   }
 
   return new Response(JSON.stringify(data), {
     status,
     headers: {
+      ...headers,
       'Content-Type': 'application/json',
     },
   });
 }
 
+/**
+ * Not Modified Response Generator
+ *
+ * 条件付きGETでクライアントのキャッシュが最新の場合に返す304レスポンスを生成します。
+ * RFC 9110: 304レスポンスはボディを含まず、200で返すはずだったETag・Cache-Control等の
+ * ヘッダーを含める必要があります。
+ *
+ * @param {Record<string, string>} headers - 200レスポンスと同じ検証用ヘッダー（ETag、Last-Modified等）
+ * @returns {Response} 304 Not Modifiedレスポンス
+ *
+ * @example
+ * ```typescript
+ * return notModifiedResponse({ ETag: etag, 'Cache-Control': 'private, no-cache' });
+ * ```
+ */
+export function notModifiedResponse(headers: Record<string, string>): Response {
+  return new Response(null, {
+    status: 304,
+    headers,
+  });
+}
+
 /**
  * Error Response Generator
  *
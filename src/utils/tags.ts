@@ -0,0 +1,69 @@
+/**
+ * Tag Utilities
+ *
+ * このファイルはTodoのタグの正規化と集計を行う純粋関数を提供します。
+ * 検証（文字数・制御文字・件数）は validation.ts の validateTagsInput() で行い、
+ * ここでは検証済みのタグを保存・比較する形に揃えます。
+ *
+ * 正規化のルール:
+ * - 前後の空白を取り除く
+ * - Unicode正規化（NFC）を行い、小文字にする（`Work` と `work` は同じタグ）
+ * - 重複を取り除く（最初に現れた順序を保つ）
+ */
+
+import type { Todo, TagCount } from '../models/todo';
+
+/**
+ * Normalize a single tag
+ *
+ * @param tag - タグ
+ * @returns 正規化したタグ
+ *
+ * @example
+ * ```typescript
+ * normalizeTag('  Work '); // 'work'
+ * ```
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().normalize('NFC').toLowerCase();
+}
+
+/**
+ * Normalize a list of tags
+ *
+ * @param tags - タグの配列
+ * @returns 正規化し、重複を取り除いたタグの配列
+ *
+ * @example
+ * ```typescript
+ * normalizeTags(['Work', 'urgent', 'work ']); // ['work', 'urgent']
+ * ```
+ */
+export function normalizeTags(tags: readonly string[]): string[] {
+  return [...new Set(tags.map(normalizeTag))];
+}
+
+/**
+ * Count tag usage across todos
+ *
+ * @param todos - Todo項目の配列
+ * @returns タグごとの使用数（使用数の多い順、同数の場合はタグの辞書順）
+ *
+ * @example
+ * ```typescript
+ * countTags([{ tags: ['work'] }, { tags: ['work', 'home'] }]);
+ * // [{ tag: 'work', count: 2 }, { tag: 'home', count: 1 }]
+ * ```
+ */
+export function countTags(todos: readonly Pick<Todo, 'tags'>[]): TagCount[] {
+  const counts = new Map<string, number>();
+  for (const todo of todos) {
+    for (const tag of todo.tags ?? []) {
+      counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+  }
+
+  return [...counts]
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || (a.tag < b.tag ? -1 : a.tag > b.tag ? 1 : 0));
+}
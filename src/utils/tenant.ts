@@ -0,0 +1,37 @@
+/**
+ * Tenant Utilities
+ *
+ * このファイルはテナント（models/tenant.ts）のIDの検証と、ストレージのキーの名前空間を扱う純粋関数を提供します。
+ */
+
+import { DEFAULT_TENANT_ID, TENANT_CONSTRAINTS } from '../models/tenant';
+
+/**
+ * Validate a tenant ID
+ *
+ * @param id - 検証する値
+ * @returns 英数字・ハイフン・アンダースコアの1-64文字の場合はtrue
+ */
+export function isValidTenantId(id: unknown): id is string {
+  return typeof id === 'string' && TENANT_CONSTRAINTS.ID_PATTERN.test(id);
+}
+
+/**
+ * Build the key prefix of a tenant
+ *
+ * ストレージのキー（KVのキー、Durable Objectの名前）の前に付け、テナントのデータを分離します。
+ * デフォルトのテナントはテナント導入前のキーをそのまま使用するため、空文字列を返します。
+ * デフォルトのテナントのデータを名前付きのテナントに移す場合は storage/factory.ts の migrateDefaultTenant() を使用します。
+ *
+ * @param tenantId - テナントのID
+ * @returns `t:{tenantId}:`、またはデフォルトのテナントの場合は空文字列
+ *
+ * @example
+ * ```typescript
+ * tenantKeyPrefix('default'); // ''
+ * tenantKeyPrefix('team-a'); // 't:team-a:'
+ * ```
+ */
+export function tenantKeyPrefix(tenantId: string): string {
+  return tenantId === DEFAULT_TENANT_ID ? '' : `t:${tenantId}:`;
+}
@@ -0,0 +1,161 @@
+/**
+ * Trash Utilities
+ *
+ * このファイルはゴミ箱（削除したTodoの一時的な保管場所）の処理を提供します。
+ * DELETE /todos/:id はTodoをゴミ箱に移し、保持期間（環境変数 TRASH_RETENTION_DAYS）を
+ * 過ぎたTodoは定期実行（handlers/scheduled.ts）と、削除・ゴミ箱の操作の際に完全に削除されます。
+ *
+ * ゴミ箱のTodoは移す前のランクを保持するため、元の位置（前後のTodoの間）に戻せます。
+ */
+
+import type { StoredTodo, StoredTrashedTodo, TrashedTodo, RestorePosition } from '../models/todo';
+import type { IStorage } from '../storage/interface';
+import { rankAfter } from './rank';
+import { descendantIds } from './tree';
+
+/**
+ * 1日のミリ秒数
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Build the stored form of a todo moved to the trash
+ *
+ * @param todo - ゴミ箱に移す保存済みのTodo
+ * @param deletedAt - ゴミ箱に移した日時
+ * @param deletedWith - cascadeで一緒にゴミ箱に移す場合、削除したTodo（グループの根）のID
+ * @returns ゴミ箱に保存するTodo（deletedWithを指定しない場合は持たない）
+ */
+export function toStoredTrashedTodo(
+  todo: StoredTodo,
+  deletedAt: string,
+  deletedWith?: string
+): StoredTrashedTodo {
+  return deletedWith === undefined ? { ...todo, deletedAt } : { ...todo, deletedAt, deletedWith };
+}
+
+/**
+ * Convert a stored trashed todo to the API representation
+ *
+ * @param stored - 保存済みのゴミ箱のTodo
+ * @returns ランクを取り除いたゴミ箱のTodo
+ */
+export function toTrashedTodo(stored: StoredTrashedTodo): TrashedTodo {
+  const { rank, ...todo } = stored;
+  return todo;
+}
+
+/**
+ * Sort trashed todos, most recently deleted first
+ *
+ * 同じ日時の場合はIDの順に並べます（cascadeで同時に移した子孫など）。
+ *
+ * @param trash - ゴミ箱のTodo配列
+ * @returns deletedAtの降順に並べた新しい配列
+ */
+export function sortTrash<T extends Pick<TrashedTodo, 'id' | 'deletedAt'>>(
+  trash: readonly T[]
+): T[] {
+  return [...trash].sort((a, b) => {
+    if (a.deletedAt !== b.deletedAt) {
+      return a.deletedAt < b.deletedAt ? 1 : -1;
+    }
+    return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+  });
+}
+
+/**
+ * Rank of a todo restored from the trash
+ *
+ * @param trashed - 戻すゴミ箱のTodo
+ * @param position - 戻す位置（original: 移す前のランク / last: 末尾）
+ * @param lastRank - 現在の全Todoの末尾のランク（Todoがない場合はnull）
+ * @returns 戻したTodoのランク
+ *
+ * @example
+ * ```typescript
+ * restoredRank(trashed, 'original', 'k'); // trashed.rank
+ * restoredRank(trashed, 'last', 'k'); // 'k' より後ろのランク
+ * ```
+ */
+export function restoredRank(
+  trashed: Pick<StoredTrashedTodo, 'rank'>,
+  position: RestorePosition,
+  lastRank: string | null
+): string {
+  return position === 'original' ? trashed.rank : rankAfter(lastRank);
+}
+
+/**
+ * Find the descendants trashed together with a todo
+ *
+ * `DELETE /todos/:id?children=cascade` は子孫のdeletedWithに削除したTodoのIDを記録するため、
+ * 同じdeletedWithを持つゴミ箱のTodoを1つのグループとみなします（先に個別にゴミ箱に移した子孫は含みません）。
+ * rootがグループの途中のTodoの場合は、グループのうちrootの子孫だけを返します。
+ *
+ * @param trash - ゴミ箱のTodo配列
+ * @param root - 戻すゴミ箱のTodo
+ * @returns 一緒にゴミ箱に移した子孫（親が子より先に並ぶ）
+ *
+ * @example
+ * ```typescript
+ * // 親をcascadeで削除した後
+ * cascadedTrash(trash, parent); // [child, grandchild]
+ * ```
+ */
+export function cascadedTrash<T extends Pick<TrashedTodo, 'id' | 'parentId' | 'deletedWith'>>(
+  trash: readonly T[],
+  root: T
+): T[] {
+  const groupId = root.deletedWith ?? root.id;
+  const group = trash.filter((todo) => todo.deletedWith === groupId);
+  const byId = new Map(group.map((todo) => [todo.id, todo]));
+  return descendantIds(group, root.id).flatMap((id) => byId.get(id) ?? []);
+}
+
+/**
+ * Find trashed todos past the retention period
+ *
+ * @param trash - ゴミ箱のTodo配列
+ * @param retentionDays - 保持日数
+ * @param now - 現在時刻（ミリ秒）
+ * @returns 保持期間を過ぎたTodoのID配列
+ *
+ * @example
+ * ```typescript
+ * // 30日より前にゴミ箱に移したTodo
+ * expiredTrashIds(trash, 30, Date.now());
+ * ```
+ */
+export function expiredTrashIds(
+  trash: readonly Pick<TrashedTodo, 'id' | 'deletedAt'>[],
+  retentionDays: number,
+  now: number
+): string[] {
+  const cutoff = now - retentionDays * DAY_MS;
+  return trash.filter((todo) => Date.parse(todo.deletedAt) <= cutoff).map((todo) => todo.id);
+}
+
+/**
+ * Permanently delete trashed todos past the retention period
+ *
+ * 定期実行（handlers/scheduled.ts）に加え、次の実行までの間も保持期間を過ぎたTodoを返さないよう、
+ * 削除とゴミ箱の操作の際にも呼び出します。
+ *
+ * @param storage - ストレージレイヤーインスタンス
+ * @param retentionDays - 保持日数（resolveTrashRetentionDays()の結果）
+ * @param now - 現在時刻（ミリ秒、デフォルト: Date.now()）
+ * @returns 保持期間内のゴミ箱のTodo（deletedAtの降順）
+ */
+export async function purgeExpiredTrash(
+  storage: IStorage,
+  retentionDays: number,
+  now: number = Date.now()
+): Promise<TrashedTodo[]> {
+  const trash = await storage.getTrash();
+  const expired = new Set(expiredTrashIds(trash, retentionDays, now));
+  for (const id of expired) {
+    await storage.purge(id);
+  }
+  return trash.filter((todo) => !expired.has(todo.id));
+}
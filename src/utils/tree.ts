@@ -0,0 +1,146 @@
+/**
+ * Tree Utilities
+ *
+ * このファイルはTodoの階層（parentId）を扱う純粋関数を提供します。
+ * 親子関係は各Todoの `parentId` のみで保存されるため、ハンドラー層はgetAll()の結果に
+ * これらの関数を適用して祖先・子孫・サブツリーを求めます。
+ *
+ * 階層の深さはルートのTodoを1として数え、TODO_CONSTRAINTS.MAX_DEPTH 以下に制限されます
+ * （検証は utils/validation.ts の validateParent()）。
+ */
+
+import type { Todo, TodoResponse, TodoTree } from '../models/todo';
+import { siblingsOf } from './ordering';
+
+/**
+ * Get the ancestor IDs of a todo
+ *
+ * 親から順にルートまでたどります。保存済みのデータに循環がある場合も終了するよう、
+ * 一度たどったIDに戻った時点で打ち切ります。
+ *
+ * @param todos - すべてのTodo項目
+ * @param id - Todo項目のID
+ * @returns 親からルートまでのIDの配列（ルートのTodoの場合は[]）
+ */
+export function ancestorIds(todos: readonly Pick<Todo, 'id' | 'parentId'>[], id: string): string[] {
+  const byId = new Map(todos.map((todo) => [todo.id, todo]));
+  const ancestors: string[] = [];
+  let parentId = byId.get(id)?.parentId ?? null;
+  while (parentId !== null && !ancestors.includes(parentId) && parentId !== id) {
+    ancestors.push(parentId);
+    parentId = byId.get(parentId)?.parentId ?? null;
+  }
+  return ancestors;
+}
+
+/**
+ * Get the descendant IDs of a todo
+ *
+ * @param todos - すべてのTodo項目
+ * @param id - Todo項目のID
+ * @returns 子孫のIDの配列（親が子より先に並ぶ。子がない場合は[]）
+ *
+ * @example
+ * ```typescript
+ * descendantIds(todos, parent.id); // [child.id, grandchild.id]
+ * ```
+ */
+export function descendantIds(
+  todos: readonly Pick<Todo, 'id' | 'parentId'>[],
+  id: string
+): string[] {
+  const descendants: string[] = [];
+  const queue = [id];
+  for (let current = queue.shift(); current !== undefined; current = queue.shift()) {
+    for (const todo of todos) {
+      if (todo.parentId === current && todo.id !== id && !descendants.includes(todo.id)) {
+        descendants.push(todo.id);
+        queue.push(todo.id);
+      }
+    }
+  }
+  return descendants;
+}
+
+/**
+ * Get the height of a subtree
+ *
+ * @param todos - すべてのTodo項目
+ * @param id - サブツリーの根のTodoのID
+ * @returns サブツリーの階層の数（子がない場合は1）
+ */
+export function subtreeHeight(todos: readonly Pick<Todo, 'id' | 'parentId'>[], id: string): number {
+  const descendants = descendantIds(todos, id);
+  const depths = descendants.map((descendant) => ancestorIds(todos, descendant).indexOf(id) + 2);
+  return Math.max(1, ...depths);
+}
+
+/**
+ * Get the IDs of completed subtrees
+ *
+ * 完了済みで、子孫もすべて完了済みのTodoを求めます。該当するTodoの子孫も必ず含まれるため、
+ * 結果をまとめて一覧から取り除いても、未完了のTodoの親が欠けることはありません。
+ *
+ * @param todos - すべてのTodo項目
+ * @returns 該当するTodoのID配列（todosの順）
+ *
+ * @example
+ * ```typescript
+ * // 親と子がどちらも完了済みの場合
+ * completedSubtreeIds(todos); // [parent.id, child.id]
+ * ```
+ */
+export function completedSubtreeIds(todos: readonly Todo[]): string[] {
+  const completed = new Set(todos.filter((todo) => todo.completed).map((todo) => todo.id));
+  return todos
+    .filter(
+      (todo) => todo.completed && descendantIds(todos, todo.id).every((id) => completed.has(id))
+    )
+    .map((todo) => todo.id);
+}
+
+/**
+ * Remove a cleared parent
+ *
+ * 更新で `parentId: null` が指定された場合、フィールドを取り除きます。
+ * すべてのストレージでルートのTodoがフィールドを持たない形に揃えるために使用します。
+ *
+ * @param todo - 更新をマージしたTodo
+ * @returns parentIdを正規化したTodo
+ */
+export function normalizeParent<T extends Pick<Todo, 'parentId'>>(todo: T): T {
+  const { parentId, ...rest } = todo;
+  return (parentId ? { ...rest, parentId } : rest) as T;
+}
+
+/**
+ * Build the subtree of a todo
+ *
+ * 子はgetAll()の順（兄弟の中ではposition順）に並びます。
+ *
+ * @param todos - すべてのTodo項目（position順）
+ * @param id - サブツリーの根のTodoのID
+ * @param decorate - 各Todoをレスポンスの形式に変換する関数（例: withProgress）
+ * @returns 入れ子になったサブツリー。該当IDがない場合はnull
+ *
+ * @example
+ * ```typescript
+ * buildTree(await storage.getAll(), id, withProgress);
+ * // { id, title, ..., children: [{ id, title, ..., children: [] }] }
+ * ```
+ */
+export function buildTree(
+  todos: readonly Todo[],
+  id: string,
+  decorate: (todo: Todo) => TodoResponse
+): TodoTree | null {
+  const visited = new Set<string>();
+  const build = (todo: Todo): TodoTree => {
+    visited.add(todo.id);
+    const children = siblingsOf(todos, todo.id).filter((child) => !visited.has(child.id));
+    return { ...decorate(todo), children: children.map(build) };
+  };
+
+  const root = todos.find((todo) => todo.id === id);
+  return root ? build(root) : null;
+}
@@ -14,6 +14,23 @@
  */
 
 import { TODO_CONSTRAINTS } from '../models/todo';
+import type {
+  Todo,
+  TodoListQuery,
+  TodoSortField,
+  SortOrder,
+  TagMatch,
+  TodoField,
+} from '../models/todo';
+import { DEFAULT_LIST_ID, LIST_CONSTRAINTS } from '../models/list';
+import { API_KEY_CONSTRAINTS } from '../models/apiKey';
+import { SECURITY_BEST_PRACTICES } from '../models/env';
+import { decodeCursor } from './query';
+import { isValidDueAt, isValidTimeZone } from './due';
+import { isApiKeyScope, isValidExpiresAt, defaultApiKeyExpiry } from './apiKeys';
+import { normalizeTags } from './tags';
+import { ancestorIds, subtreeHeight } from './tree';
+import { parseRecurrence } from './recurrence';
 
 /**
  * Validation Result
@@ -43,6 +60,13 @@ export interface ValidationResult {
  * **検証項目**:
  * - **title**: 必須、string型、1-500文字、制御文字(\x00-\x1F, \x7F)不可
  * - **completed**: 任意、boolean型のみ
+ * - **dueAt**, **dueTimezone**: 任意（validateDueInput()を参照）
+ * - **priority**: 任意、none / low / medium / high / urgent
+ * - **tags**: 任意（validateTagsInput()を参照）
+ * - **notes**: 任意（validateNotesInput()を参照）
+ * - **autoComplete**: 任意、boolean型のみ
+ * - **parentId**: 任意、UUID v4形式（親の存在・深さはvalidateParent()を参照）
+ * - **recurrence**: 任意（isValidRecurrence()を参照）。指定する場合はdueAtも必須
  *
  * **要件**:
  * - 要件1.3: タイトルが空またはnullの場合、エラーを返す
@@ -131,6 +155,310 @@ export function validateTodoInput(input: unknown): ValidationResult {
     }
   }
 
+  // Validate priority (optional)
+  if (!isValidPriority(data['priority'])) {
+    return { valid: false, error: VALIDATION_ERRORS.PRIORITY_INVALID };
+  }
+
+  // Validate tags (optional)
+  const tagsResult = validateTagsInput(data['tags']);
+  if (!tagsResult.valid) {
+    return tagsResult;
+  }
+
+  // Validate notes (optional)
+  const notesResult = validateNotesInput(data['notes']);
+  if (!notesResult.valid) {
+    return notesResult;
+  }
+
+  // Validate autoComplete (optional)
+  if (data['autoComplete'] !== undefined && typeof data['autoComplete'] !== 'boolean') {
+    return { valid: false, error: VALIDATION_ERRORS.AUTO_COMPLETE_INVALID_TYPE };
+  }
+
+  // Validate parentId (optional)
+  if (!isValidParentId(data['parentId'])) {
+    return { valid: false, error: VALIDATION_ERRORS.PARENT_ID_INVALID };
+  }
+
+  // Validate recurrence (optional, requires dueAt)
+  if (!isValidRecurrence(data['recurrence'])) {
+    return { valid: false, error: VALIDATION_ERRORS.RECURRENCE_INVALID };
+  }
+  if (typeof data['recurrence'] === 'string' && typeof data['dueAt'] !== 'string') {
+    return { valid: false, error: VALIDATION_ERRORS.RECURRENCE_REQUIRES_DUE };
+  }
+
+  return validateDueInput(data);
+}
+
+/**
+ * Validate Parent ID format
+ *
+ * @param parentId - 検証する値
+ * @returns 未指定（undefined）、null（ルート）、またはUUID v4形式の文字列の場合はtrue
+ */
+export function isValidParentId(parentId: unknown): boolean {
+  return parentId === undefined || parentId === null || validateId(parentId);
+}
+
+/**
+ * Validate Recurrence
+ *
+ * 繰り返しの規則がサポートするRRULEのサブセット（utils/recurrence.ts）であることを検証します。
+ * 期限（dueAt）を持つことの検証は、作成時はvalidateTodoInput()、更新時はハンドラーで行います。
+ *
+ * @param recurrence - 検証する値
+ * @returns 未指定（undefined）、null（繰り返しを解除）、または有効な規則の場合はtrue
+ *
+ * @example
+ * ```typescript
+ * isValidRecurrence('FREQ=WEEKLY;BYDAY=MO,TH'); // true
+ * isValidRecurrence('FREQ=MONTHLY;BYDAY=MO'); // false
+ * isValidRecurrence('FREQ=DAILY;COUNT=3;UNTIL=20251231'); // false
+ * ```
+ */
+export function isValidRecurrence(recurrence: unknown): boolean {
+  return (
+    recurrence === undefined ||
+    recurrence === null ||
+    (typeof recurrence === 'string' && parseRecurrence(recurrence) !== null)
+  );
+}
+
+/**
+ * Validate Parent
+ *
+ * 親の指定が階層の規則を満たすことを検証します。形式の検証（isValidParentId()）の後、
+ * 現在のTodo一覧に対して行います。
+ *
+ * **検証項目**:
+ * - 親のTodoが存在すること
+ * - 自分自身や自分の子孫を親にしないこと（循環の禁止）
+ * - 親の深さ + 自分のサブツリーの階層数が TODO_CONSTRAINTS.MAX_DEPTH 以下であること
+ *
+ * @param todos - すべてのTodo項目
+ * @param parentId - 新しい親のID（null / undefined はルートのため常に有効）
+ * @param id - 親を変更するTodoのID（新規作成の場合は省略）
+ * @returns バリデーション結果（valid: boolean, error?: string）
+ *
+ * @example
+ * ```typescript
+ * validateParent(todos, parent.id); // { valid: true }
+ * validateParent(todos, child.id, parent.id); // { valid: false, error: '...' }（循環）
+ * ```
+ */
+export function validateParent(
+  todos: readonly Pick<Todo, 'id' | 'parentId'>[],
+  parentId: string | null | undefined,
+  id?: string
+): ValidationResult {
+  if (parentId === null || parentId === undefined) {
+    return { valid: true };
+  }
+  if (!todos.some((todo) => todo.id === parentId)) {
+    return { valid: false, error: VALIDATION_ERRORS.PARENT_NOT_FOUND };
+  }
+
+  const ancestors = ancestorIds(todos, parentId);
+  if (id !== undefined && (parentId === id || ancestors.includes(id))) {
+    return { valid: false, error: VALIDATION_ERRORS.PARENT_CYCLE };
+  }
+  const height = id === undefined ? 1 : subtreeHeight(todos, id);
+  if (ancestors.length + 1 + height > TODO_CONSTRAINTS.MAX_DEPTH) {
+    return { valid: false, error: VALIDATION_ERRORS.DEPTH_EXCEEDED };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validate a single tag
+ *
+ * @param tag - 検証する値
+ * @returns 前後の空白を除いて1-50文字の文字列で、制御文字を含まない場合はtrue
+ */
+function isValidTag(tag: unknown): boolean {
+  if (typeof tag !== 'string') {
+    return false;
+  }
+  const trimmed = tag.trim();
+  return (
+    trimmed.length >= 1 &&
+    trimmed.length <= TODO_CONSTRAINTS.MAX_TAG_LENGTH &&
+    !TODO_CONSTRAINTS.CONTROL_CHARACTERS_REGEX.test(trimmed)
+  );
+}
+
+/**
+ * Validate Tags Input
+ *
+ * Todoのタグをバリデーションします。タグの正規化（utils/tags.ts の normalizeTags()）は
+ * 検証に成功した後にハンドラーで行います。
+ *
+ * **検証項目**:
+ * - **tags**: 任意、文字列の配列
+ *   - 各タグは前後の空白を除いて1-50文字、制御文字(\x00-\x1F, \x7F)不可（タイトルと同じ）
+ *   - 正規化後のタグは20個まで
+ *
+ * @param tags - 検証する値（未指定の場合はundefined）
+ * @returns バリデーション結果（valid: boolean, error?: string）
+ *
+ * @example
+ * ```typescript
+ * validateTagsInput(['work', 'urgent']); // { valid: true }
+ * validateTagsInput('work'); // { valid: false, error: '...' }
+ * validateTagsInput(['']); // { valid: false, error: '...' }
+ * ```
+ */
+export function validateTagsInput(tags: unknown): ValidationResult {
+  if (tags === undefined) {
+    return { valid: true };
+  }
+  if (!Array.isArray(tags)) {
+    return { valid: false, error: VALIDATION_ERRORS.TAGS_INVALID_TYPE };
+  }
+  if (!tags.every(isValidTag)) {
+    return { valid: false, error: VALIDATION_ERRORS.TAG_INVALID };
+  }
+  if (normalizeTags(tags).length > TODO_CONSTRAINTS.MAX_TAGS) {
+    return { valid: false, error: VALIDATION_ERRORS.TAGS_TOO_MANY };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validate Notes Input
+ *
+ * Todoのメモをバリデーションします。メモは複数行のMarkdownを想定しているため、
+ * タイトルと異なり制御文字（改行・タブ等）は検証せず、文字数のみを制限します。
+ *
+ * **検証項目**:
+ * - **notes**: 任意、string型、10000文字以内（空文字列はメモなし）
+ *
+ * @param notes - 検証する値（未指定の場合はundefined）
+ * @returns バリデーション結果（valid: boolean, error?: string）
+ *
+ * @example
+ * ```typescript
+ * validateNotesInput('## 手順\n- 牛乳\n- 卵'); // { valid: true }
+ * validateNotesInput('a'.repeat(10001)); // { valid: false, error: '...' }
+ * ```
+ */
+export function validateNotesInput(notes: unknown): ValidationResult {
+  if (notes === undefined) {
+    return { valid: true };
+  }
+  if (typeof notes !== 'string') {
+    return { valid: false, error: VALIDATION_ERRORS.NOTES_INVALID_TYPE };
+  }
+  if (notes.length > TODO_CONSTRAINTS.MAX_NOTES_LENGTH) {
+    return { valid: false, error: VALIDATION_ERRORS.NOTES_TOO_LONG };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validate Checklist Item Input
+ *
+ * チェックリストの項目の追加・更新のリクエストボディをバリデーションします。
+ * 項目数の上限（TODO_CONSTRAINTS.MAX_ITEMS）は親のTodoを読み込んだ後にハンドラーで検証します。
+ *
+ * **検証項目**:
+ * - **text**: 追加時は必須、1-500文字、制御文字(\x00-\x1F, \x7F)不可（タイトルと同じ）
+ * - **done**: 任意、boolean型のみ
+ * - 更新時（partial）はtextとdoneの少なくとも一方が必要
+ *
+ * @param input - 検証する入力データ
+ * @param partial - 更新時（textを任意とする）はtrue（デフォルト: false）
+ * @returns バリデーション結果（valid: boolean, error?: string）
+ *
+ * @example
+ * ```typescript
+ * validateChecklistItemInput({ text: '牛乳' }); // { valid: true }
+ * validateChecklistItemInput({ done: true }, true); // { valid: true }
+ * validateChecklistItemInput({}, true); // { valid: false, error: '...' }
+ * ```
+ */
+export function validateChecklistItemInput(input: unknown, partial = false): ValidationResult {
+  if (!input || typeof input !== 'object') {
+    return { valid: false, error: 'Input must be an object' };
+  }
+
+  const { text, done } = input as Record<string, unknown>;
+  if (partial && text === undefined && done === undefined) {
+    return { valid: false, error: VALIDATION_ERRORS.ITEM_UPDATE_EMPTY };
+  }
+  if (
+    (!partial || text !== undefined) &&
+    (typeof text !== 'string' ||
+      text.length < 1 ||
+      text.length > TODO_CONSTRAINTS.MAX_ITEM_TEXT_LENGTH ||
+      TODO_CONSTRAINTS.CONTROL_CHARACTERS_REGEX.test(text))
+  ) {
+    return { valid: false, error: VALIDATION_ERRORS.ITEM_TEXT_INVALID };
+  }
+  if (done !== undefined && typeof done !== 'boolean') {
+    return { valid: false, error: VALIDATION_ERRORS.ITEM_DONE_INVALID_TYPE };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validate Priority
+ *
+ * 優先度が TODO_CONSTRAINTS.PRIORITIES のいずれかであることを検証します。
+ *
+ * @param priority - 検証する値
+ * @returns 未指定（undefined）または有効な優先度の場合はtrue
+ *
+ * @example
+ * ```typescript
+ * isValidPriority('high'); // true
+ * isValidPriority(undefined); // true
+ * isValidPriority('critical'); // false
+ * ```
+ */
+export function isValidPriority(priority: unknown): boolean {
+  return (
+    priority === undefined || (TODO_CONSTRAINTS.PRIORITIES as readonly unknown[]).includes(priority)
+  );
+}
+
+/**
+ * Validate Due Input
+ *
+ * 期限（dueAt）とタイムゾーン（dueTimezone）をバリデーションします。
+ * 作成時はvalidateTodoInput()から、更新時はハンドラーから呼び出されます。
+ *
+ * **検証項目**:
+ * - **dueAt**: 任意、オフセット付きのISO 8601日時（例: `2025-11-01T17:00:00+09:00`）、
+ *   日付のみ（例: `2025-11-01`、終日）、またはnull（期限を解除）
+ * - **dueTimezone**: 任意、IANAタイムゾーン名（例: `Asia/Tokyo`）またはnull
+ *
+ * @param input - 検証する入力データ
+ * @returns バリデーション結果（valid: boolean, error?: string）
+ *
+ * @example
+ * ```typescript
+ * validateDueInput({ dueAt: '2025-11-01', dueTimezone: 'Asia/Tokyo' }); // { valid: true }
+ * validateDueInput({ dueAt: '2025-11-01T17:00:00' }); // { valid: false, error: '...' }
+ * ```
+ */
+export function validateDueInput(input: Record<string, unknown>): ValidationResult {
+  const { dueAt, dueTimezone } = input;
+
+  if (dueAt !== undefined && dueAt !== null && !isValidDueAt(dueAt)) {
+    return { valid: false, error: VALIDATION_ERRORS.DUE_AT_INVALID };
+  }
+  if (dueTimezone !== undefined && dueTimezone !== null && !isValidTimeZone(dueTimezone)) {
+    return { valid: false, error: VALIDATION_ERRORS.DUE_TIMEZONE_INVALID };
+  }
+
   return { valid: true };
 }
 
@@ -171,20 +499,152 @@ export function validateId(id: unknown): boolean {
   return TODO_CONSTRAINTS.UUID_V4_REGEX.test(id);
 }
 
+/**
+ * Validate List ID format
+ *
+ * @param id - 検証する値
+ * @returns UUID v4形式、またはデフォルトのリストのID（`default`）の場合はtrue
+ *
+ * @example
+ * ```typescript
+ * validateListId('default'); // true
+ * validateListId('550e8400-e29b-41d4-a716-446655440000'); // true
+ * validateListId('sprint'); // false
+ * ```
+ */
+export function validateListId(id: unknown): boolean {
+  return id === DEFAULT_LIST_ID || validateId(id);
+}
+
+/**
+ * Validate List Input
+ *
+ * リストの作成・名前の変更（POST /lists, PUT /lists/:listId）のリクエストボディをバリデーションします。
+ *
+ * **検証項目**:
+ * - **name**: 必須、string型、前後の空白を除いて1-100文字、制御文字不可
+ *
+ * @param input - 検証する入力データ
+ * @returns バリデーション結果（valid: boolean, error?: string）
+ *
+ * @example
+ * ```typescript
+ * validateListInput({ name: 'Sprint' }); // { valid: true }
+ * validateListInput({ name: '  ' }); // { valid: false, error: '...' }
+ * ```
+ */
+export function validateListInput(input: unknown): ValidationResult {
+  if (!input || typeof input !== 'object') {
+    return { valid: false, error: 'Input must be an object' };
+  }
+
+  const { name } = input as Record<string, unknown>;
+  if (
+    typeof name !== 'string' ||
+    name.trim().length === 0 ||
+    name.trim().length > LIST_CONSTRAINTS.MAX_NAME_LENGTH ||
+    TODO_CONSTRAINTS.CONTROL_CHARACTERS_REGEX.test(name)
+  ) {
+    return { valid: false, error: VALIDATION_ERRORS.LIST_NAME_INVALID };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validate Move to List Input
+ *
+ * リスト間の移動（POST /todos/:id/move）のリクエストボディをバリデーションします。
+ * 移動先のリストの存在はハンドラー層で検証します。
+ *
+ * **検証項目**:
+ * - **listId**: 必須、UUID v4形式または `default`
+ *
+ * @param input - 検証する入力データ
+ * @returns バリデーション結果（valid: boolean, error?: string）
+ */
+export function validateMoveToListInput(input: unknown): ValidationResult {
+  if (!input || typeof input !== 'object') {
+    return { valid: false, error: 'Input must be an object' };
+  }
+
+  if (!validateListId((input as Record<string, unknown>)['listId'])) {
+    return { valid: false, error: VALIDATION_ERRORS.LIST_ID_INVALID };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validate API Key Input
+ *
+ * API Keyの発行（POST /admin/keys）のリクエストボディをバリデーションします。
+ *
+ * **検証項目**:
+ * - **name**: 必須、前後の空白を除いて1-100文字、制御文字を含まない
+ * - **scopes**: 必須、1つ以上の既知のスコープ（todos:read / todos:write / todos:delete / admin）
+ * - **expiresAt**: オプション、オフセット付きのISO 8601日時で、現在より後かつ現在からAPI_KEY_ROTATION_DAYS以内
+ * - **key**: オプション、SECURITY_BEST_PRACTICES.API_KEY_FORMAT（英数字とハイフンの32文字以上）
+ *
+ * @param input - 検証する入力データ
+ * @param now - 現在日時（デフォルト: 呼び出し時点）
+ * @returns バリデーション結果（valid: boolean, error?: string）
+ *
+ * @example
+ * ```typescript
+ * validateApiKeyInput({ name: 'Dashboard', scopes: ['todos:read'] }); // { valid: true }
+ * validateApiKeyInput({ name: 'Dashboard', scopes: [] }); // { valid: false, error: '...' }
+ * ```
+ */
+export function validateApiKeyInput(input: unknown, now: Date = new Date()): ValidationResult {
+  if (!input || typeof input !== 'object') {
+    return { valid: false, error: 'Input must be an object' };
+  }
+
+  const { name, scopes, expiresAt, key } = input as Record<string, unknown>;
+  if (
+    typeof name !== 'string' ||
+    name.trim().length === 0 ||
+    name.trim().length > API_KEY_CONSTRAINTS.MAX_NAME_LENGTH ||
+    TODO_CONSTRAINTS.CONTROL_CHARACTERS_REGEX.test(name)
+  ) {
+    return { valid: false, error: VALIDATION_ERRORS.API_KEY_NAME_INVALID };
+  }
+
+  if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(isApiKeyScope)) {
+    return { valid: false, error: VALIDATION_ERRORS.API_KEY_SCOPES_INVALID };
+  }
+
+  if (
+    expiresAt !== undefined &&
+    (!isValidExpiresAt(expiresAt) ||
+      Date.parse(expiresAt) <= now.getTime() ||
+      Date.parse(expiresAt) > Date.parse(defaultApiKeyExpiry(now)))
+  ) {
+    return { valid: false, error: VALIDATION_ERRORS.API_KEY_EXPIRES_AT_INVALID };
+  }
+
+  if (
+    key !== undefined &&
+    (typeof key !== 'string' || !SECURITY_BEST_PRACTICES.API_KEY_FORMAT.test(key))
+  ) {
+    return { valid: false, error: VALIDATION_ERRORS.API_KEY_FORMAT_INVALID };
+  }
+
+  return { valid: true };
+}
+
 /**
  * Validate Todo Count
  *
- * 現在のTodo件数が上限（500件）未満であることを検証します。
+ * 現在のTodo件数が上限（デフォルト500件）未満であることを検証します。
  *
  * **制限の理由**:
- * - Workers KV List APIは最大1000件まで取得可能
- * - 余裕を持って500件に制限することで、安全性を確保
- * - 将来的にページネーション等でスケーラビリティを向上可能
- *
- * **要件**:
- * - KV List API制限（1000件）に対する余裕確保
+ * - 一覧の取得は全件を読み込むため、件数が多すぎるとレスポンスが遅くなる
+ * - 上限はデプロイごとに環境変数 MAX_TODOS で変更できる（resolveMaxTodoCount()）
  *
  * @param currentCount - 現在のTodo件数
+ * @param maxCount - 最大件数（デフォルト: TODO_CONSTRAINTS.MAX_TODO_COUNT）
  * @returns バリデーション結果（valid: boolean, error?: string）
  *
  * @example
@@ -195,20 +655,314 @@ export function validateId(id: unknown): boolean {
  * // At or above limit
  * validateTodoCount(500); // { valid: false, error: '...' }
  * validateTodoCount(501); // { valid: false, error: '...' }
+ *
+ * // Configured limit
+ * validateTodoCount(500, 5000); // { valid: true }
  * ```
  */
-export function validateTodoCount(currentCount: number): ValidationResult {
+export function validateTodoCount(
+  currentCount: number,
+  maxCount: number = TODO_CONSTRAINTS.MAX_TODO_COUNT
+): ValidationResult {
   // Check if count has reached or exceeded the limit
-  if (currentCount >= TODO_CONSTRAINTS.MAX_TODO_COUNT) {
+  if (currentCount >= maxCount) {
     return {
       valid: false,
-      error: `Maximum todo limit (${TODO_CONSTRAINTS.MAX_TODO_COUNT}) has been reached. Please delete some todos before creating new ones.`,
+      error: `Maximum todo limit (${maxCount}) has been reached. Please delete some todos before creating new ones.`,
     };
   }
 
   return { valid: true };
 }
 
+/**
+ * Resolve the maximum todo count
+ *
+ * 環境変数 MAX_TODOS の値から最大Todo件数を決定します。
+ *
+ * @param value - MAX_TODOSの値（未設定の場合はundefined）
+ * @returns 最大Todo件数。未設定または空の場合は TODO_CONSTRAINTS.MAX_TODO_COUNT
+ * @throws {Error} 1以上の整数でない場合（設定不備）
+ *
+ * @example
+ * ```typescript
+ * resolveMaxTodoCount(undefined); // 500
+ * resolveMaxTodoCount('5000'); // 5000
+ * resolveMaxTodoCount('many'); // throws
+ * ```
+ */
+export function resolveMaxTodoCount(value: string | undefined): number {
+  const trimmed = value?.trim();
+  if (!trimmed) {
+    return TODO_CONSTRAINTS.MAX_TODO_COUNT;
+  }
+
+  const maxCount = Number(trimmed);
+  if (!/^\d+$/.test(trimmed) || !Number.isSafeInteger(maxCount) || maxCount < 1) {
+    throw new Error(`Invalid MAX_TODOS "${value}". Expected a positive integer`);
+  }
+  return maxCount;
+}
+
+/**
+ * Resolve the trash retention period
+ *
+ * 環境変数 TRASH_RETENTION_DAYS の値からゴミ箱のTodoを保持する日数を決定します。
+ *
+ * @param value - TRASH_RETENTION_DAYSの値（未設定の場合はundefined）
+ * @returns 保持日数。未設定または空の場合は TODO_CONSTRAINTS.TRASH_RETENTION_DAYS
+ * @throws {Error} 1以上の整数でない場合（設定不備）
+ *
+ * @example
+ * ```typescript
+ * resolveTrashRetentionDays(undefined); // 30
+ * resolveTrashRetentionDays('7'); // 7
+ * resolveTrashRetentionDays('forever'); // throws
+ * ```
+ */
+export function resolveTrashRetentionDays(value: string | undefined): number {
+  const trimmed = value?.trim();
+  if (!trimmed) {
+    return TODO_CONSTRAINTS.TRASH_RETENTION_DAYS;
+  }
+
+  const days = Number(trimmed);
+  if (!/^\d+$/.test(trimmed) || !Number.isSafeInteger(days) || days < 1) {
+    throw new Error(`Invalid TRASH_RETENTION_DAYS "${value}". Expected a positive integer`);
+  }
+  return days;
+}
+
+/**
+ * Validate Reorder Input
+ *
+ * 並び替え（PUT /todos/:id/reorder）のリクエストボディをバリデーションします。
+ * 上限（Todo総数未満）の検証はストレージ層の `move()` で行います。
+ *
+ * **検証項目**:
+ * - **newPosition**: 必須、0以上の整数
+ *
+ * @param input - 検証する入力データ
+ * @returns バリデーション結果（valid: boolean, error?: string）
+ *
+ * @example
+ * ```typescript
+ * validateReorderInput({ newPosition: 0 }); // { valid: true }
+ * validateReorderInput({ newPosition: -1 }); // { valid: false, error: '...' }
+ * ```
+ */
+export function validateReorderInput(input: unknown): ValidationResult {
+  if (!input || typeof input !== 'object') {
+    return { valid: false, error: 'Input must be an object' };
+  }
+
+  const { newPosition } = input as Record<string, unknown>;
+  if (typeof newPosition !== 'number' || !Number.isInteger(newPosition) || newPosition < 0) {
+    return { valid: false, error: VALIDATION_ERRORS.NEW_POSITION_INVALID };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validate Order Input
+ *
+ * 一括並び替え（PUT /todos/order）のリクエストボディをバリデーションします。
+ * idsが現在のTodoと一致するかの検証はストレージ層の `setOrder()` で行います。
+ *
+ * **検証項目**:
+ * - **ids**: 必須、UUID v4形式の文字列の配列、重複不可
+ *
+ * @param input - 検証する入力データ
+ * @returns バリデーション結果（valid: boolean, error?: string）
+ *
+ * @example
+ * ```typescript
+ * validateOrderInput({ ids: [id2, id1] }); // { valid: true }
+ * validateOrderInput({ ids: [id1, id1] }); // { valid: false, error: '...' }
+ * ```
+ */
+export function validateOrderInput(input: unknown): ValidationResult {
+  if (!input || typeof input !== 'object') {
+    return { valid: false, error: 'Input must be an object' };
+  }
+
+  const { ids } = input as Record<string, unknown>;
+  if (!Array.isArray(ids) || !ids.every(validateId)) {
+    return { valid: false, error: VALIDATION_ERRORS.IDS_INVALID };
+  }
+  if (new Set(ids).size !== ids.length) {
+    return { valid: false, error: VALIDATION_ERRORS.IDS_DUPLICATED };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * List Query Validation Result
+ *
+ * 一覧のクエリパラメータの検証結果。検証が成功した場合は変換済みのクエリを含みます。
+ */
+export interface ListQueryValidationResult extends ValidationResult {
+  query?: TodoListQuery;
+}
+
+/**
+ * Validate List Query
+ *
+ * 一覧（GET /todos）のクエリパラメータをバリデーションし、TodoListQueryに変換します。
+ * 未知のパラメータは無視します。
+ *
+ * **検証項目**:
+ * - **completed**: 任意、`true` または `false`
+ * - **q**: 任意、500文字以内（空文字列は指定なしとして扱う）
+ * - **dueBefore**, **dueAfter**: 任意、オフセット付きのISO 8601日時、または日付のみ
+ *   （その日の0時 UTC として扱う）
+ * - **overdue**: 任意、`true` または `false`
+ * - **tag**: 任意、繰り返し指定可能（各タグの規則はTodoのタグと同じ、20個まで）
+ * - **tagMatch**: 任意、`any` / `all`（デフォルト: any）
+ * - **parent**: 任意、親のTodoのID、または `root`（親を持たないTodo）
+ * - **archived**: 任意、`true`（アーカイブしたTodo）または `false`
+ * - **sort**: 任意、`position` / `createdAt` / `title` / `priority`（デフォルト: position）
+ * - **order**: 任意、`asc` / `desc`（デフォルト: asc）
+ * - **fields**: 任意、カンマ区切りのフィールド名（例: `id,title,completed`）
+ * - **limit**: 任意、1-100の整数（cursorのみ指定時のデフォルト: 50）
+ * - **cursor**: 任意、前のページのnextCursor。sortとorderが発行時と一致すること
+ *
+ * @param params - クエリパラメータ
+ * @param tags - 繰り返し指定された `tag` パラメータの値（デフォルト: []）
+ * @returns バリデーション結果と変換済みのクエリ
+ *
+ * @example
+ * ```typescript
+ * validateListQuery({ completed: 'true', limit: '20' });
+ * // { valid: true, query: { completed: true, sort: 'position', order: 'asc', page: { limit: 20 } } }
+ *
+ * validateListQuery({ sort: 'rank' }); // { valid: false, error: '...' }
+ * ```
+ */
+export function validateListQuery(
+  params: Record<string, string>,
+  tags: readonly string[] = []
+): ListQueryValidationResult {
+  const {
+    completed,
+    q,
+    dueBefore,
+    dueAfter,
+    overdue,
+    tagMatch,
+    parent,
+    archived,
+    sort = 'position',
+    order = 'asc',
+    fields,
+    limit,
+    cursor,
+  } = params;
+
+  if (completed !== undefined && completed !== 'true' && completed !== 'false') {
+    return { valid: false, error: VALIDATION_ERRORS.COMPLETED_QUERY_INVALID };
+  }
+  if (q !== undefined && q.length > TODO_CONSTRAINTS.MAX_TITLE_LENGTH) {
+    return { valid: false, error: VALIDATION_ERRORS.Q_TOO_LONG };
+  }
+  if (dueBefore !== undefined && !isValidDueAt(dueBefore)) {
+    return { valid: false, error: VALIDATION_ERRORS.DUE_BEFORE_INVALID };
+  }
+  if (dueAfter !== undefined && !isValidDueAt(dueAfter)) {
+    return { valid: false, error: VALIDATION_ERRORS.DUE_AFTER_INVALID };
+  }
+  if (overdue !== undefined && overdue !== 'true' && overdue !== 'false') {
+    return { valid: false, error: VALIDATION_ERRORS.OVERDUE_QUERY_INVALID };
+  }
+  if (!validateTagsInput(tags).valid) {
+    return { valid: false, error: VALIDATION_ERRORS.TAG_QUERY_INVALID };
+  }
+  if (tagMatch !== undefined && tagMatch !== 'any' && tagMatch !== 'all') {
+    return { valid: false, error: VALIDATION_ERRORS.TAG_MATCH_INVALID };
+  }
+  if (parent !== undefined && parent !== 'root' && !validateId(parent)) {
+    return { valid: false, error: VALIDATION_ERRORS.PARENT_QUERY_INVALID };
+  }
+  if (archived !== undefined && archived !== 'true' && archived !== 'false') {
+    return { valid: false, error: VALIDATION_ERRORS.ARCHIVED_QUERY_INVALID };
+  }
+  if (!(TODO_CONSTRAINTS.SORT_FIELDS as readonly string[]).includes(sort)) {
+    return { valid: false, error: VALIDATION_ERRORS.SORT_INVALID };
+  }
+  if (order !== 'asc' && order !== 'desc') {
+    return { valid: false, error: VALIDATION_ERRORS.ORDER_INVALID };
+  }
+  const fieldList = fields?.split(',').map((field) => field.trim());
+  if (
+    fieldList !== undefined &&
+    !fieldList.every((field) => (TODO_CONSTRAINTS.FIELDS as readonly string[]).includes(field))
+  ) {
+    return { valid: false, error: VALIDATION_ERRORS.FIELDS_INVALID };
+  }
+
+  const query: TodoListQuery = {
+    sort: sort as TodoSortField,
+    order: order as SortOrder,
+  };
+  if (completed !== undefined) {
+    query.completed = completed === 'true';
+  }
+  if (q !== undefined && q !== '') {
+    query.q = q;
+  }
+  if (dueBefore !== undefined) {
+    query.dueBefore = Date.parse(dueBefore);
+  }
+  if (dueAfter !== undefined) {
+    query.dueAfter = Date.parse(dueAfter);
+  }
+  if (overdue !== undefined) {
+    query.overdue = overdue === 'true';
+  }
+  if (tags.length > 0) {
+    query.tags = normalizeTags(tags);
+    query.tagMatch = (tagMatch as TagMatch | undefined) ?? 'any';
+  }
+  if (parent !== undefined) {
+    query.parentId = parent === 'root' ? null : parent;
+  }
+  if (archived !== undefined) {
+    query.archived = archived === 'true';
+  }
+  if (fieldList !== undefined) {
+    query.fields = [...new Set(fieldList as TodoField[])];
+  }
+
+  if (limit === undefined && cursor === undefined) {
+    return { valid: true, query };
+  }
+
+  const pageLimit = limit === undefined ? TODO_CONSTRAINTS.DEFAULT_PAGE_LIMIT : Number(limit);
+  if (
+    !/^\d+$/.test(limit ?? String(pageLimit)) ||
+    pageLimit < 1 ||
+    pageLimit > TODO_CONSTRAINTS.MAX_PAGE_LIMIT
+  ) {
+    return { valid: false, error: VALIDATION_ERRORS.LIMIT_INVALID };
+  }
+  query.page = { limit: pageLimit };
+
+  if (cursor !== undefined) {
+    const after = decodeCursor(cursor);
+    if (after === null) {
+      return { valid: false, error: VALIDATION_ERRORS.CURSOR_INVALID };
+    }
+    if (after.sort !== query.sort || after.order !== query.order) {
+      return { valid: false, error: VALIDATION_ERRORS.CURSOR_MISMATCH };
+    }
+    query.page.after = after;
+  }
+
+  return { valid: true, query };
+}
+
 /**
  * Validation Error Messages
  *
@@ -230,11 +984,110 @@ export const VALIDATION_ERRORS = {
    */
   COMPLETED_INVALID_TYPE: 'Completed must be a boolean',
 
+  /**
+   * 期限関連のエラー
+   */
+  DUE_AT_INVALID:
+    'dueAt must be an ISO 8601 date (YYYY-MM-DD) or date-time with a UTC offset, or null',
+  DUE_TIMEZONE_INVALID: 'dueTimezone must be a valid IANA time zone name, or null',
+
+  /**
+   * 優先度関連のエラー
+   */
+  PRIORITY_INVALID: `priority must be one of ${TODO_CONSTRAINTS.PRIORITIES.join(', ')}`,
+
+  /**
+   * タグ関連のエラー
+   */
+  TAGS_INVALID_TYPE: 'tags must be an array of strings',
+  TAG_INVALID: `Each tag must be between 1 and ${TODO_CONSTRAINTS.MAX_TAG_LENGTH} characters and cannot contain control characters`,
+  TAGS_TOO_MANY: `A todo can have at most ${TODO_CONSTRAINTS.MAX_TAGS} tags`,
+
+  /**
+   * メモ関連のエラー
+   */
+  NOTES_INVALID_TYPE: 'notes must be a string',
+  NOTES_TOO_LONG: `notes must be at most ${TODO_CONSTRAINTS.MAX_NOTES_LENGTH} characters`,
+
+  /**
+   * チェックリスト関連のエラー
+   */
+  AUTO_COMPLETE_INVALID_TYPE: 'autoComplete must be a boolean',
+  ITEM_TEXT_INVALID: `text must be between 1 and ${TODO_CONSTRAINTS.MAX_ITEM_TEXT_LENGTH} characters and cannot contain control characters`,
+  ITEM_DONE_INVALID_TYPE: 'done must be a boolean',
+  ITEM_UPDATE_EMPTY: 'Update data cannot be empty. Provide at least text or done field.',
+  ITEMS_TOO_MANY: `A todo can have at most ${TODO_CONSTRAINTS.MAX_ITEMS} checklist items`,
+
+  /**
+   * 階層関連のエラー
+   */
+  PARENT_ID_INVALID: 'parentId must be a valid UUID v4, or null',
+  PARENT_NOT_FOUND: 'parentId must refer to an existing todo',
+  PARENT_CYCLE: 'A todo cannot be moved under itself or one of its descendants',
+  DEPTH_EXCEEDED: `Todos can be nested at most ${TODO_CONSTRAINTS.MAX_DEPTH} levels deep`,
+  CHILDREN_MODE_INVALID: 'children must be "reparent" or "cascade"',
+
+  /**
+   * 繰り返し関連のエラー
+   */
+  RECURRENCE_INVALID: `recurrence must be an RRULE with FREQ=${TODO_CONSTRAINTS.RECURRENCE_FREQUENCIES.join('|')} and optional INTERVAL, BYDAY (not with MONTHLY), UNTIL or COUNT, or null`,
+  RECURRENCE_REQUIRES_DUE: 'recurrence requires the todo to have dueAt',
+
+  /**
+   * ゴミ箱関連のエラー
+   */
+  RESTORE_POSITION_INVALID: 'position must be "original" or "last"',
+
+  /**
+   * リスト関連のエラー
+   */
+  LIST_ID_INVALID: 'listId must be a valid UUID v4 or "default"',
+  LIST_NAME_INVALID: `name must be between 1 and ${LIST_CONSTRAINTS.MAX_NAME_LENGTH} characters and cannot contain control characters`,
+  LIST_LIMIT_REACHED: `Maximum list limit (${LIST_CONSTRAINTS.MAX_LIST_COUNT}) has been reached`,
+  DEFAULT_LIST_UNDELETABLE: 'The default list cannot be deleted',
+
+  /**
+   * API Key関連のエラー
+   */
+  API_KEY_NAME_INVALID: `name must be between 1 and ${API_KEY_CONSTRAINTS.MAX_NAME_LENGTH} characters and cannot contain control characters`,
+  API_KEY_SCOPES_INVALID:
+    'scopes must be a non-empty array of "todos:read", "todos:write", "todos:delete" or "admin"',
+  API_KEY_EXPIRES_AT_INVALID: `expiresAt must be an ISO 8601 date-time with a time zone offset within the next ${SECURITY_BEST_PRACTICES.API_KEY_ROTATION_DAYS} days`,
+  API_KEY_FORMAT_INVALID:
+    'key must be at least 32 characters and contain only letters, digits and hyphens',
+  API_KEY_ALREADY_REGISTERED: 'key is already registered',
+
   /**
    * ID関連のエラー
    */
   ID_INVALID_FORMAT: 'ID must be a valid UUID v4',
 
+  /**
+   * 並び替え関連のエラー
+   */
+  NEW_POSITION_INVALID: 'newPosition must be a non-negative integer',
+  IDS_INVALID: 'ids must be an array of valid UUID v4 strings',
+  IDS_DUPLICATED: 'ids must not contain duplicates',
+
+  /**
+   * 一覧のクエリパラメータ関連のエラー
+   */
+  COMPLETED_QUERY_INVALID: 'completed must be "true" or "false"',
+  Q_TOO_LONG: `q must be at most ${TODO_CONSTRAINTS.MAX_TITLE_LENGTH} characters`,
+  SORT_INVALID: `sort must be one of ${TODO_CONSTRAINTS.SORT_FIELDS.join(', ')}`,
+  ORDER_INVALID: 'order must be "asc" or "desc"',
+  LIMIT_INVALID: `limit must be an integer between 1 and ${TODO_CONSTRAINTS.MAX_PAGE_LIMIT}`,
+  CURSOR_INVALID: 'cursor is invalid',
+  CURSOR_MISMATCH: 'cursor was issued for a different sort or order',
+  DUE_BEFORE_INVALID: 'dueBefore must be an ISO 8601 date or date-time with a UTC offset',
+  DUE_AFTER_INVALID: 'dueAfter must be an ISO 8601 date or date-time with a UTC offset',
+  OVERDUE_QUERY_INVALID: 'overdue must be "true" or "false"',
+  TAG_QUERY_INVALID: `tag must be between 1 and ${TODO_CONSTRAINTS.MAX_TAG_LENGTH} characters without control characters, at most ${TODO_CONSTRAINTS.MAX_TAGS} times`,
+  TAG_MATCH_INVALID: 'tagMatch must be "any" or "all"',
+  PARENT_QUERY_INVALID: 'parent must be a valid UUID v4 or "root"',
+  ARCHIVED_QUERY_INVALID: 'archived must be "true" or "false"',
+  FIELDS_INVALID: `fields must be a comma-separated list of ${TODO_CONSTRAINTS.FIELDS.join(', ')}`,
+
   /**
    * Todo件数関連のエラー
    */
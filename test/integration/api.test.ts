@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { env } from 'cloudflare:test';
-import app from '../../src/index';
+import { app } from '../../src/index';
 
 // Workers poolの環境変数を使用
 // vitest.config.tsで設定された環境変数とKVバインディングが自動的に利用可能
@@ -256,6 +256,46 @@ describe('API Integration Tests', () => {
       // 存在しないので404
       expect(res.status).toBe(404);
     });
+
+    it('should define PUT /todos/:id/reorder route', async () => {
+      const res = await app.request(
+        '/todos/550e8400-e29b-41d4-a716-446655440000/reorder',
+        {
+          method: 'PUT',
+          headers: {
+            'X-API-Key': 'test-api-key',
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ newPosition: 0 }),
+        },
+        env
+      );
+
+      // 存在しないので404
+      expect(res.status).toBe(404);
+      const body = (await res.json()) as { error: { code: string } };
+      expect(body.error.code).toBe('NOT_FOUND');
+    });
+
+    it('should route PUT /todos/order before PUT /todos/:id', async () => {
+      const res = await app.request(
+        '/todos/order',
+        {
+          method: 'PUT',
+          headers: {
+            'X-API-Key': 'test-api-key',
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ ids: 'not-an-array' }),
+        },
+        env
+      );
+
+      // "order" がIDとして扱われず、idsのバリデーションエラーになる
+      expect(res.status).toBe(400);
+      const body = (await res.json()) as { error: { message: string } };
+      expect(body.error.message).toContain('ids');
+    });
   });
 
   describe('CRUD Flow Integration', () => {
@@ -488,4 +528,620 @@ describe('API Integration Tests', () => {
       expect(ids).toContain(todo2.id);
     });
   });
+
+  describe('Optimistic Concurrency (ETag / If-Match)', () => {
+    async function send(path: string, init: RequestInit = {}) {
+      return app.request(
+        path,
+        {
+          ...init,
+          headers: {
+            'X-API-Key': 'test-api-key',
+            'Content-Type': 'application/json',
+            ...init.headers,
+          },
+        },
+        env
+      );
+    }
+
+    it('should reject a stale update from another tab with 412', async () => {
+      const createRes = await send('/todos', {
+        method: 'POST',
+        body: JSON.stringify({ title: 'Shared' }),
+      });
+      const created = (await createRes.json()) as { id: string };
+      const etag = createRes.headers.get('ETag');
+      expect(etag).toBe('"1"');
+
+      // タブA: 最新のETagで更新
+      const tabA = await send(`/todos/${created.id}`, {
+        method: 'PUT',
+        headers: { 'If-Match': etag ?? '' },
+        body: JSON.stringify({ title: 'From tab A' }),
+      });
+      expect(tabA.status).toBe(200);
+      expect(tabA.headers.get('ETag')).toBe('"2"');
+
+      // タブB: 古いETagのまま更新すると拒否される
+      const tabB = await send(`/todos/${created.id}`, {
+        method: 'PUT',
+        headers: { 'If-Match': etag ?? '' },
+        body: JSON.stringify({ title: 'From tab B' }),
+      });
+      expect(tabB.status).toBe(412);
+      const body = (await tabB.json()) as { error: { code: string } };
+      expect(body.error.code).toBe('PRECONDITION_FAILED');
+
+      const getRes = await send(`/todos/${created.id}`);
+      expect(getRes.headers.get('ETag')).toBe('"2"');
+      expect(((await getRes.json()) as { title: string }).title).toBe('From tab A');
+    });
+
+    it('should reject a stale delete with 412 and keep the todo', async () => {
+      const createRes = await send('/todos', {
+        method: 'POST',
+        body: JSON.stringify({ title: 'Keep me' }),
+      });
+      const created = (await createRes.json()) as { id: string };
+      await send(`/todos/${created.id}`, {
+        method: 'PUT',
+        body: JSON.stringify({ completed: true }),
+      });
+
+      const deleteRes = await send(`/todos/${created.id}`, {
+        method: 'DELETE',
+        headers: { 'If-Match': '"1"' },
+      });
+
+      expect(deleteRes.status).toBe(412);
+      expect((await send(`/todos/${created.id}`)).status).toBe(200);
+    });
+
+    it('should expose ETag and allow If-Match in CORS', async () => {
+      const res = await app.request(
+        '/todos',
+        {
+          method: 'OPTIONS',
+          headers: {
+            Origin: 'https://example.com',
+            'Access-Control-Request-Method': 'PUT',
+            'Access-Control-Request-Headers': 'If-Match',
+          },
+        },
+        env
+      );
+
+      expect(res.headers.get('Access-Control-Allow-Headers')).toContain('If-Match');
+    });
+  });
+
+  describe('Conditional GET (ETag / If-None-Match)', () => {
+    async function send(path: string, init: RequestInit = {}) {
+      return app.request(
+        path,
+        {
+          ...init,
+          headers: {
+            'X-API-Key': 'test-api-key',
+            'Content-Type': 'application/json',
+            ...init.headers,
+          },
+        },
+        env
+      );
+    }
+
+    it('should return 304 until the list changes', async () => {
+      const createRes = await send('/todos', {
+        method: 'POST',
+        body: JSON.stringify({ title: 'Polled' }),
+      });
+      const created = (await createRes.json()) as { id: string };
+
+      const listRes = await send('/todos');
+      const etag = listRes.headers.get('ETag') ?? '';
+      expect(listRes.status).toBe(200);
+      expect(listRes.headers.get('Last-Modified')).not.toBeNull();
+
+      const notModified = await send('/todos', { headers: { 'If-None-Match': etag } });
+      expect(notModified.status).toBe(304);
+
+      await send(`/todos/${created.id}`, {
+        method: 'PUT',
+        body: JSON.stringify({ completed: true }),
+      });
+
+      const modified = await send('/todos', { headers: { 'If-None-Match': etag } });
+      expect(modified.status).toBe(200);
+      expect(modified.headers.get('ETag')).not.toBe(etag);
+    });
+  });
+
+  describe('List Query (filtering, sorting, pagination)', () => {
+    async function send(path: string, init: RequestInit = {}) {
+      return app.request(
+        path,
+        {
+          ...init,
+          headers: {
+            'X-API-Key': 'test-api-key',
+            'Content-Type': 'application/json',
+            ...init.headers,
+          },
+        },
+        env
+      );
+    }
+
+    it('should page through filtered todos with nextCursor', async () => {
+      for (const title of ['Query alpha', 'Query beta', 'Query gamma']) {
+        await send('/todos', { method: 'POST', body: JSON.stringify({ title }) });
+      }
+
+      const titles: string[] = [];
+      let path = '/todos?q=query&sort=title&order=desc&limit=2';
+      for (;;) {
+        const res = await send(path);
+        expect(res.status).toBe(200);
+        const page = (await res.json()) as {
+          items: { title: string }[];
+          nextCursor: string | null;
+          total: number;
+        };
+        expect(page.total).toBe(3);
+        titles.push(...page.items.map((todo) => todo.title));
+        if (page.nextCursor === null) break;
+        path = `/todos?q=query&sort=title&order=desc&limit=2&cursor=${page.nextCursor}`;
+      }
+
+      expect(titles).toEqual(['Query gamma', 'Query beta', 'Query alpha']);
+    });
+
+    it('should return 400 VALIDATION_ERROR for an invalid limit', async () => {
+      const res = await send('/todos?limit=1000');
+
+      expect(res.status).toBe(400);
+      const body = (await res.json()) as { error: { code: string } };
+      expect(body.error.code).toBe('VALIDATION_ERROR');
+    });
+
+    it('should sort by priority with position order for ties', async () => {
+      for (const [title, priority] of [
+        ['Priority a', 'high'],
+        ['Priority b', 'low'],
+        ['Priority c', 'high'],
+        ['Priority d', undefined],
+      ] as const) {
+        await send('/todos', { method: 'POST', body: JSON.stringify({ title, priority }) });
+      }
+
+      const res = await send('/todos?q=priority%20&sort=priority&order=desc');
+
+      expect(res.status).toBe(200);
+      const todos = (await res.json()) as { title: string; priority: string }[];
+      expect(todos.map((todo) => [todo.title, todo.priority])).toEqual([
+        ['Priority a', 'high'],
+        ['Priority c', 'high'],
+        ['Priority b', 'low'],
+        ['Priority d', 'none'],
+      ]);
+    });
+
+    it('should filter by due range and overdue, and clear a due date', async () => {
+      const created: Record<string, { id: string; dueAt?: string }> = {};
+      for (const [title, dueAt] of [
+        ['Due past', '2000-01-01'],
+        ['Due future', '2999-01-01T09:00:00+09:00'],
+        ['Due none', undefined],
+      ] as const) {
+        const res = await send('/todos', {
+          method: 'POST',
+          body: JSON.stringify({ title, dueAt }),
+        });
+        created[title] = (await res.json()) as { id: string; dueAt?: string };
+      }
+      expect(created['Due future']?.dueAt).toBe('2999-01-01T09:00:00+09:00');
+
+      const titles = async (path: string) =>
+        ((await (await send(path)).json()) as { title: string }[]).map((todo) => todo.title);
+
+      expect(await titles('/todos?q=due&overdue=true')).toEqual(['Due past']);
+      expect(await titles('/todos?q=due&dueAfter=2025-01-01')).toEqual(['Due future']);
+      expect(await titles('/todos?q=due&dueBefore=2025-01-01')).toEqual(['Due past']);
+
+      const res = await send(`/todos/${created['Due past']?.id}`, {
+        method: 'PUT',
+        body: JSON.stringify({ dueAt: null }),
+      });
+      expect(await res.json()).not.toHaveProperty('dueAt');
+      expect(await titles('/todos?q=due&overdue=true')).toEqual([]);
+    });
+
+    it('should filter by tags and count them with GET /tags', async () => {
+      for (const [title, tags] of [
+        ['Tagged a', ['Tagfilter-Work', 'tagfilter-urgent']],
+        ['Tagged b', ['tagfilter-work']],
+        ['Tagged c', []],
+      ] as const) {
+        await send('/todos', { method: 'POST', body: JSON.stringify({ title, tags }) });
+      }
+
+      const titles = async (path: string) =>
+        ((await (await send(path)).json()) as { title: string }[]).map((todo) => todo.title);
+
+      expect(await titles('/todos?tag=tagfilter-work')).toEqual(['Tagged a', 'Tagged b']);
+      expect(await titles('/todos?tag=tagfilter-work&tag=tagfilter-urgent&tagMatch=all')).toEqual([
+        'Tagged a',
+      ]);
+
+      const res = await send('/tags');
+      expect(res.status).toBe(200);
+      const counts = (await res.json()) as { tag: string; count: number }[];
+      expect(counts.filter((entry) => entry.tag.startsWith('tagfilter-'))).toEqual([
+        { tag: 'tagfilter-work', count: 2 },
+        { tag: 'tagfilter-urgent', count: 1 },
+      ]);
+    });
+
+    it('should return notes from GET /todos/:id and omit them with fields', async () => {
+      const notes = '## Steps\n\n1. Draft\n2. Review';
+      const created = await send('/todos', {
+        method: 'POST',
+        body: JSON.stringify({ title: 'Fields notes', notes }),
+      });
+      const { id } = (await created.json()) as { id: string };
+
+      const detail = await send(`/todos/${id}`);
+      expect(await detail.json()).toHaveProperty('notes', notes);
+
+      const res = await send('/todos?q=fields%20notes&fields=id,title');
+      expect(await res.json()).toEqual([{ id, title: 'Fields notes' }]);
+    });
+
+    it('should manage checklist items and report progress', async () => {
+      const created = await send('/todos', {
+        method: 'POST',
+        body: JSON.stringify({ title: 'Checklist trip', autoComplete: true }),
+      });
+      const { id } = (await created.json()) as { id: string };
+
+      const added: { id: string }[] = [];
+      for (const text of ['Passport', 'Charger']) {
+        const res = await send(`/todos/${id}/items`, {
+          method: 'POST',
+          body: JSON.stringify({ text }),
+        });
+        expect(res.status).toBe(201);
+        const todo = (await res.json()) as { items: { id: string }[] };
+        added.push(todo.items.at(-1)!);
+      }
+
+      const reordered = await send(`/todos/${id}/items/${added[1]!.id}/reorder`, {
+        method: 'PUT',
+        body: JSON.stringify({ newPosition: 0 }),
+      });
+      const order = (await reordered.json()) as { items: { text: string }[] };
+      expect(order.items.map((item) => item.text)).toEqual(['Charger', 'Passport']);
+
+      for (const item of added) {
+        await send(`/todos/${id}/items/${item.id}`, {
+          method: 'PUT',
+          body: JSON.stringify({ done: true }),
+        });
+      }
+
+      const list = await send('/todos?q=checklist%20trip&fields=id,completed,progress');
+      expect(await list.json()).toEqual([{ id, completed: true, progress: { done: 2, total: 2 } }]);
+    });
+
+    it('should nest todos, reorder within a parent and cascade deletes', async () => {
+      const create = async (title: string, parentId?: string) => {
+        const res = await send('/todos', {
+          method: 'POST',
+          body: JSON.stringify({ title, parentId }),
+        });
+        expect(res.status).toBe(201);
+        return (await res.json()) as { id: string; position: number };
+      };
+      const parent = await create('Nested move');
+      const pack = await create('Pack boxes', parent.id);
+      const book = await create('Book truck', parent.id);
+      expect([pack.position, book.position]).toEqual([0, 1]);
+
+      const reordered = await send(`/todos/${book.id}/reorder`, {
+        method: 'PUT',
+        body: JSON.stringify({ newPosition: 0 }),
+      });
+      expect(reordered.status).toBe(200);
+
+      const children = await send(`/todos?parent=${parent.id}&fields=title,position`);
+      expect(await children.json()).toEqual([
+        { title: 'Book truck', position: 0 },
+        { title: 'Pack boxes', position: 1 },
+      ]);
+
+      const tree = await send(`/todos/${parent.id}/tree`);
+      const body = (await tree.json()) as { children: { title: string }[] };
+      expect(body.children.map((child) => child.title)).toEqual(['Book truck', 'Pack boxes']);
+
+      const deleted = await send(`/todos/${parent.id}?children=cascade`, { method: 'DELETE' });
+      expect(deleted.status).toBe(204);
+      expect((await send(`/todos/${pack.id}`)).status).toBe(404);
+      expect((await send(`/todos/${book.id}`)).status).toBe(404);
+    });
+
+    it('should spawn the next occurrence when a recurring todo is completed', async () => {
+      const created = await send('/todos', {
+        method: 'POST',
+        body: JSON.stringify({
+          title: 'Weekly review',
+          dueAt: '2025-11-07',
+          tags: ['routine'],
+          notes: 'Inbox zero',
+          recurrence: 'FREQ=WEEKLY;BYDAY=FR',
+        }),
+      });
+      const { id } = (await created.json()) as { id: string };
+
+      const completed = await send(`/todos/${id}`, {
+        method: 'PUT',
+        body: JSON.stringify({ completed: true }),
+      });
+      expect(completed.status).toBe(200);
+      const link = completed.headers.get('Link');
+      expect(link).toMatch(/^<\/todos\/[0-9a-f-]+>; rel="next"$/);
+
+      const next = await send(link!.slice(1, link!.indexOf('>')));
+      expect(await next.json()).toMatchObject({
+        title: 'Weekly review',
+        completed: false,
+        dueAt: '2025-11-14',
+        tags: ['routine'],
+        notes: 'Inbox zero',
+        recurrence: 'FREQ=WEEKLY;BYDAY=FR',
+      });
+    });
+
+    it('should require authentication for GET /tags', async () => {
+      const res = await app.request('/tags', {}, env);
+
+      expect(res.status).toBe(401);
+    });
+
+    it('should move deleted todos to the trash and restore them', async () => {
+      const created = await send('/todos', {
+        method: 'POST',
+        body: JSON.stringify({ title: 'Recoverable' }),
+      });
+      const { id } = (await created.json()) as { id: string };
+
+      expect((await send(`/todos/${id}`, { method: 'DELETE' })).status).toBe(204);
+      expect((await send(`/todos/${id}`)).status).toBe(404);
+
+      const trash = (await (await send('/trash')).json()) as { id: string; deletedAt: string }[];
+      expect(trash.find((todo) => todo.id === id)?.deletedAt).toEqual(expect.any(String));
+
+      const restored = await send(`/trash/${id}/restore?position=last`, { method: 'POST' });
+      expect(restored.status).toBe(200);
+      expect((await send(`/todos/${id}`)).status).toBe(200);
+
+      await send(`/todos/${id}`, { method: 'DELETE' });
+      expect((await send(`/trash/${id}`, { method: 'DELETE' })).status).toBe(204);
+      expect((await send(`/trash/${id}/restore`, { method: 'POST' })).status).toBe(404);
+    });
+
+    it('should archive completed todos and list them separately', async () => {
+      const created = await send('/todos', {
+        method: 'POST',
+        body: JSON.stringify({ title: 'Finished' }),
+      });
+      const { id } = (await created.json()) as { id: string };
+      await send(`/todos/${id}`, { method: 'PUT', body: JSON.stringify({ completed: true }) });
+
+      const res = await send('/todos/archive-completed', { method: 'POST' });
+      expect(res.status).toBe(200);
+      expect(((await res.json()) as { id: string }[]).map((todo) => todo.id)).toContain(id);
+
+      expect((await send(`/todos/${id}`)).status).toBe(404);
+      const archived = (await (await send('/todos?archived=true')).json()) as {
+        id: string;
+        archivedAt: string;
+      }[];
+      expect(archived.find((todo) => todo.id === id)?.archivedAt).toEqual(expect.any(String));
+      expect((await send(`/todos/${id}/archive`, { method: 'POST' })).status).toBe(404);
+    });
+
+    it('should require authentication for GET /trash', async () => {
+      const res = await app.request('/trash', {}, env);
+
+      expect(res.status).toBe(401);
+    });
+
+    it('should manage lists and move todos between them', async () => {
+      const created = await send('/lists', {
+        method: 'POST',
+        body: JSON.stringify({ name: 'Sprint' }),
+      });
+      expect(created.status).toBe(201);
+      const list = (await created.json()) as { id: string };
+
+      const todo = await send('/todos', {
+        method: 'POST',
+        body: JSON.stringify({ title: 'Plan sprint' }),
+      });
+      const { id } = (await todo.json()) as { id: string };
+      const moved = await send(`/todos/${id}/move`, {
+        method: 'POST',
+        body: JSON.stringify({ listId: list.id }),
+      });
+      expect(moved.status).toBe(200);
+
+      expect((await send(`/todos/${id}`)).status).toBe(404);
+      expect((await send(`/lists/${list.id}/todos/${id}`)).status).toBe(200);
+      const lists = (await (await send('/lists')).json()) as {
+        id: string;
+        counts: { total: number };
+      }[];
+      expect(lists.find((item) => item.id === list.id)?.counts.total).toBe(1);
+
+      expect((await send(`/lists/${list.id}`, { method: 'DELETE' })).status).toBe(204);
+      expect((await send(`/lists/${list.id}/todos`)).status).toBe(404);
+      expect((await send('/lists/default', { method: 'DELETE' })).status).toBe(400);
+    });
+
+    it('should require authentication for list routes', async () => {
+      expect((await app.request('/lists', {}, env)).status).toBe(401);
+      expect((await app.request('/lists/default/todos', {}, env)).status).toBe(401);
+    });
+
+    it('should isolate todos and lists per tenant of the API key', async () => {
+      const tenantEnv = { ...env, VALID_API_KEYS: 'test-api-key,team-b:team-b-key' };
+      const as = (key: string, path: string, init: RequestInit = {}) =>
+        app.request(
+          path,
+          {
+            ...init,
+            headers: { 'X-API-Key': key, 'Content-Type': 'application/json', ...init.headers },
+          },
+          tenantEnv
+        );
+
+      const created = await as('team-b-key', '/todos', {
+        method: 'POST',
+        body: JSON.stringify({ title: 'Team B todo' }),
+      });
+      const { id } = (await created.json()) as { id: string };
+      const list = (await (
+        await as('team-b-key', '/lists', { method: 'POST', body: JSON.stringify({ name: 'B' }) })
+      ).json()) as { id: string };
+
+      expect((await as('test-api-key', `/todos/${id}`)).status).toBe(404);
+      expect((await as('test-api-key', `/lists/${list.id}/todos`)).status).toBe(404);
+      const ownTodos = (await (await as('test-api-key', '/todos')).json()) as { id: string }[];
+      expect(ownTodos.map((todo) => todo.id)).not.toContain(id);
+      expect((await as('team-b-key', `/todos/${id}`)).status).toBe(200);
+      expect((await as('team-b-key', `/lists/${list.id}/todos`)).status).toBe(200);
+    });
+
+    it('should enforce the scopes of API keys configured as JSON', async () => {
+      const scopedEnv = {
+        ...env,
+        VALID_API_KEYS: JSON.stringify([
+          { key: 'read-key', scopes: ['todos:read'] },
+          { key: 'write-key', scopes: ['todos:read', 'todos:write'] },
+          { key: 'admin-key', scopes: ['admin'] },
+        ]),
+      };
+      const as = (key: string, path: string, init: RequestInit = {}) =>
+        app.request(
+          path,
+          {
+            ...init,
+            headers: { 'X-API-Key': key, 'Content-Type': 'application/json', ...init.headers },
+          },
+          scopedEnv
+        );
+      const create = { method: 'POST', body: JSON.stringify({ title: 'Scoped' }) };
+
+      const denied = await as('read-key', '/todos', create);
+      expect(denied.status).toBe(403);
+      expect(((await denied.json()) as { error: { code: string } }).error.code).toBe('FORBIDDEN');
+      expect(
+        (await as('read-key', '/lists', { method: 'POST', body: '{"name":"X"}' })).status
+      ).toBe(403);
+
+      const created = await as('write-key', '/todos', create);
+      expect(created.status).toBe(201);
+      const { id } = (await created.json()) as { id: string };
+      expect((await as('read-key', `/todos/${id}`)).status).toBe(200);
+      expect((await as('read-key', '/lists')).status).toBe(200);
+
+      expect((await as('write-key', `/todos/${id}`, { method: 'DELETE' })).status).toBe(403);
+      expect((await as('admin-key', `/todos/${id}`, { method: 'DELETE' })).status).toBe(204);
+    });
+
+    it('should issue, list and revoke API keys via /admin/keys', async () => {
+      const adminEnv = {
+        ...env,
+        VALID_API_KEYS: JSON.stringify([
+          { key: 'admin-key', tenantId: 'team-a', scopes: ['admin'] },
+          { key: 'read-key', tenantId: 'team-a', scopes: ['todos:read'] },
+        ]),
+      };
+      const as = (key: string, path: string, init: RequestInit = {}) =>
+        app.request(
+          path,
+          {
+            ...init,
+            headers: { 'X-API-Key': key, 'Content-Type': 'application/json', ...init.headers },
+          },
+          adminEnv
+        );
+
+      const issued = await as('admin-key', '/admin/keys', {
+        method: 'POST',
+        body: JSON.stringify({ name: 'Dashboard', scopes: ['todos:read'] }),
+      });
+      expect(issued.status).toBe(201);
+      const { id, key } = (await issued.json()) as { id: string; key: string };
+
+      expect((await as(key, '/todos')).status).toBe(200);
+      expect((await as(key, '/todos', { method: 'POST', body: '{"title":"x"}' })).status).toBe(403);
+      const listed = (await (await as('admin-key', '/admin/keys')).json()) as {
+        id: string;
+        lastUsedAt?: string;
+      }[];
+      expect(listed).toEqual([expect.objectContaining({ id, lastUsedAt: expect.any(String) })]);
+      expect(JSON.stringify(listed)).not.toContain(key);
+
+      expect((await as('read-key', '/admin/keys')).status).toBe(403);
+      expect((await as('admin-key', `/admin/keys/${id}`, { method: 'DELETE' })).status).toBe(204);
+      expect((await as(key, '/todos')).status).toBe(401);
+      expect((await app.request('/admin/keys', {}, adminEnv)).status).toBe(401);
+    });
+
+    it('should rotate an API key keeping both keys valid during the grace period', async () => {
+      const adminEnv = {
+        ...env,
+        VALID_API_KEYS: JSON.stringify([
+          { key: 'admin-key', tenantId: 'team-a', scopes: ['admin'] },
+        ]),
+      };
+      const as = (key: string, path: string, init: RequestInit = {}) =>
+        app.request(
+          path,
+          {
+            ...init,
+            headers: { 'X-API-Key': key, 'Content-Type': 'application/json', ...init.headers },
+          },
+          adminEnv
+        );
+
+      const issued = await as('admin-key', '/admin/keys', {
+        method: 'POST',
+        body: JSON.stringify({ name: 'Bot', scopes: ['todos:read'] }),
+      });
+      const old = (await issued.json()) as { id: string; key: string };
+      const first = await as(old.key, '/todos');
+      expect(first.status).toBe(200);
+      expect(first.headers.get('X-API-Key-Expires-In')).toBeNull();
+
+      const rotated = await as('admin-key', `/admin/keys/${old.id}/rotate`, { method: 'POST' });
+      expect(rotated.status).toBe(201);
+      const { key } = (await rotated.json()) as { key: string };
+
+      const during = await as(old.key, '/todos');
+      expect(during.status).toBe(200);
+      expect(Number(during.headers.get('X-API-Key-Expires-In'))).toBeLessThanOrEqual(24 * 60 * 60);
+      expect((await as(key, '/todos')).status).toBe(200);
+      expect(
+        (
+          await as('admin-key', '/admin/keys/00000000-0000-4000-8000-000000000000/rotate', {
+            method: 'POST',
+          })
+        ).status
+      ).toBe(404);
+    });
+  });
 });
@@ -0,0 +1,199 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { env } from 'cloudflare:test';
+import { Hono } from 'hono';
+import {
+  createApiKeyHandler,
+  getApiKeysHandler,
+  rotateApiKeyHandler,
+  deleteApiKeyHandler,
+} from '../../../src/handlers/apiKeys';
+import { KVApiKeyStorage } from '../../../src/storage/apiKeys';
+import { hashApiKey } from '../../../src/utils/apiKeys';
+import type { ApiKeyRecord, CreateApiKeyResponse } from '../../../src/models/apiKey';
+import type { AppEnv } from '../../../src/models/env';
+
+/**
+ * 認証ミドルウェアの代わりに、X-Tenantヘッダーのテナントを設定するアプリ
+ */
+function createApp(keys: KVApiKeyStorage) {
+  const app = new Hono<AppEnv>();
+  app.use('*', async (c, next) => {
+    c.set('tenantId', c.req.header('X-Tenant') ?? 'default');
+    await next();
+  });
+  app.post('/admin/keys', (c) => createApiKeyHandler(c, keys));
+  app.get('/admin/keys', (c) => getApiKeysHandler(c, keys));
+  app.post('/admin/keys/:id/rotate', (c) => rotateApiKeyHandler(c, keys));
+  app.delete('/admin/keys/:id', (c) => deleteApiKeyHandler(c, keys));
+  return app;
+}
+
+const json = (body: unknown, tenantId = 'default') => ({
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json', 'X-Tenant': tenantId },
+  body: JSON.stringify(body),
+});
+
+describe('API Key Handlers', () => {
+  let keys: KVApiKeyStorage;
+  let app: Hono<AppEnv>;
+
+  beforeEach(async () => {
+    const listed = await env.TODO_KV.list();
+    await Promise.all(listed.keys.map((key) => env.TODO_KV.delete(key.name)));
+    keys = new KVApiKeyStorage(env.TODO_KV);
+    app = createApp(keys);
+  });
+
+  const createKey = async (body: unknown, tenantId?: string) =>
+    (await (await app.request('/admin/keys', json(body, tenantId))).json()) as CreateApiKeyResponse;
+
+  describe('createApiKeyHandler()', () => {
+    it('should issue a key for the tenant and store only its hash', async () => {
+      const res = await app.request(
+        '/admin/keys',
+        json({ name: ' Dashboard ', scopes: ['todos:read', 'todos:read'] }, 'team-a')
+      );
+
+      expect(res.status).toBe(201);
+      const { key, ...record } = (await res.json()) as CreateApiKeyResponse;
+      expect(key).toMatch(/^[0-9a-f]{64}$/);
+      expect(record).toEqual({
+        id: expect.any(String),
+        name: 'Dashboard',
+        tenantId: 'team-a',
+        scopes: ['todos:read'],
+        createdAt: expect.any(String),
+        expiresAt: expect.any(String),
+      });
+      // 有効期限を省略した場合はAPI_KEY_ROTATION_DAYS（90日）後
+      expect(Date.parse(record.expiresAt!) - Date.parse(record.createdAt)).toBe(
+        90 * 24 * 60 * 60 * 1000
+      );
+      expect(await keys.findByHash(await hashApiKey(key))).toEqual(record);
+      expect(JSON.stringify(await env.TODO_KV.list())).not.toContain(key);
+    });
+
+    it('should normalize expiresAt to UTC', async () => {
+      const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000);
+      expiresAt.setUTCMilliseconds(0);
+      const created = await createKey({
+        name: 'Bot',
+        scopes: ['todos:write'],
+        expiresAt: expiresAt.toISOString().replace('.000Z', '+00:00'),
+      });
+
+      expect(created.expiresAt).toBe(expiresAt.toISOString());
+    });
+
+    it('should reject an expiresAt beyond the rotation period', async () => {
+      const res = await app.request(
+        '/admin/keys',
+        json({ name: 'Bot', scopes: ['todos:read'], expiresAt: '2099-01-01T00:00:00Z' })
+      );
+
+      expect(res.status).toBe(400);
+    });
+
+    it('should register a given key that matches API_KEY_FORMAT once', async () => {
+      const key = crypto.randomUUID();
+
+      const created = await createKey({ name: 'Migrated', scopes: ['todos:read'], key });
+
+      expect(created.key).toBe(key);
+      expect(await keys.findByHash(await hashApiKey(key))).not.toBeNull();
+      const duplicate = await app.request(
+        '/admin/keys',
+        json({ name: 'Again', scopes: ['todos:read'], key })
+      );
+      expect(duplicate.status).toBe(400);
+      expect(await keys.list('default')).toHaveLength(1);
+    });
+
+    it('should reject a given key that does not match API_KEY_FORMAT', async () => {
+      for (const key of ['short-key', `${'a'.repeat(32)}!`, 42]) {
+        const res = await app.request('/admin/keys', json({ name: 'Bot', scopes: ['admin'], key }));
+        expect(res.status).toBe(400);
+      }
+    });
+
+    it('should return 400 for invalid input', async () => {
+      const res = await app.request('/admin/keys', json({ name: 'Bot', scopes: [] }));
+
+      expect(res.status).toBe(400);
+      expect(await keys.list('default')).toEqual([]);
+    });
+
+    it('should return 400 for a malformed JSON body', async () => {
+      const res = await app.request('/admin/keys', { ...json({}), body: '{invalid' });
+
+      expect(res.status).toBe(400);
+      expect(await res.json()).toMatchObject({ error: { code: 'VALIDATION_ERROR' } });
+      expect(await keys.list('default')).toEqual([]);
+    });
+  });
+
+  describe('getApiKeysHandler()', () => {
+    it('should return the keys of the tenant without plaintext keys', async () => {
+      const { key, ...record } = await createKey({ name: 'Dashboard', scopes: ['todos:read'] });
+      await createKey({ name: 'Other', scopes: ['admin'] }, 'team-b');
+
+      const res = await app.request('/admin/keys');
+
+      expect(res.status).toBe(200);
+      const body = (await res.json()) as ApiKeyRecord[];
+      expect(body).toEqual([record]);
+      expect(JSON.stringify(body)).not.toContain(key);
+    });
+  });
+
+  describe('rotateApiKeyHandler()', () => {
+    it('should issue a new key and keep the old key for the grace period', async () => {
+      const old = await createKey({ name: 'Bot', scopes: ['todos:read', 'todos:write'] }, 'team-a');
+
+      const res = await app.request(`/admin/keys/${old.id}/rotate`, json({}, 'team-a'));
+
+      expect(res.status).toBe(201);
+      const rotated = (await res.json()) as CreateApiKeyResponse;
+      expect(rotated).toMatchObject({ name: 'Bot', tenantId: 'team-a', scopes: old.scopes });
+      expect(rotated.id).not.toBe(old.id);
+      expect(rotated.key).not.toBe(old.key);
+      const previous = await keys.findByHash(await hashApiKey(old.key));
+      // 古いキーの有効期限はAPI_KEY_ROTATION_GRACE_HOURS（24時間）後に短縮される
+      expect(Date.parse(previous!.expiresAt!) - Date.parse(rotated.createdAt)).toBe(
+        24 * 60 * 60 * 1000
+      );
+      expect(await keys.list('team-a')).toHaveLength(2);
+    });
+
+    it('should return 404 for a key of another tenant', async () => {
+      const old = await createKey({ name: 'Bot', scopes: ['todos:read'] }, 'team-b');
+
+      const res = await app.request(`/admin/keys/${old.id}/rotate`, json({}));
+
+      expect(res.status).toBe(404);
+      expect(await keys.list('team-b')).toHaveLength(1);
+    });
+  });
+
+  describe('deleteApiKeyHandler()', () => {
+    it('should delete a key of the tenant', async () => {
+      const created = await createKey({ name: 'Bot', scopes: ['todos:read'] });
+
+      const res = await app.request(`/admin/keys/${created.id}`, { method: 'DELETE' });
+
+      expect(res.status).toBe(204);
+      expect(await keys.findByHash(await hashApiKey(created.key))).toBeNull();
+    });
+
+    it('should return 404 for a key of another tenant and 400 for an invalid ID', async () => {
+      const created = await createKey({ name: 'Bot', scopes: ['todos:read'] }, 'team-b');
+
+      const res = await app.request(`/admin/keys/${created.id}`, { method: 'DELETE' });
+
+      expect(res.status).toBe(404);
+      expect((await app.request('/admin/keys/invalid', { method: 'DELETE' })).status).toBe(400);
+      expect(await keys.list('team-b')).toHaveLength(1);
+    });
+  });
+});
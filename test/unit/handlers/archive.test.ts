@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { Hono } from 'hono';
+import { archiveTodoHandler, archiveCompletedHandler } from '../../../src/handlers/archive';
+import { getTodosHandler } from '../../../src/handlers/todos';
+import { InMemoryStorage } from '../../../src/storage/memory';
+import type { Todo } from '../../../src/models/todo';
+import type { AppEnv } from '../../../src/models/env';
+import { makeTodo, createApp } from './fixtures';
+
+const routes = {
+  'GET /todos': getTodosHandler,
+  'POST /todos/archive-completed': archiveCompletedHandler,
+  'POST /todos/:id/archive': archiveTodoHandler,
+};
+
+describe('Archive Handlers', () => {
+  let todos: Todo[];
+  let storage: InMemoryStorage;
+  let app: Hono<AppEnv>;
+
+  beforeEach(() => {
+    todos = [makeTodo(0), makeTodo(1, { completed: true }), makeTodo(2)];
+    storage = new InMemoryStorage(todos);
+    app = createApp(storage, routes);
+  });
+
+  const archive = (id: string) => app.request(`/todos/${id}/archive`, { method: 'POST' });
+  const titles = async (path: string) =>
+    ((await (await app.request(path)).json()) as Todo[]).map((todo) => todo.title);
+
+  describe('archiveTodoHandler()', () => {
+    it('should archive the todo with archivedAt', async () => {
+      const res = await archive(todos[0]!.id);
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({
+        ...todos[0],
+        position: 0,
+        archivedAt: expect.any(String),
+      });
+      expect(await titles('/todos')).toEqual(['T1', 'T2']);
+      expect(await titles('/todos?archived=true')).toEqual(['T0']);
+    });
+
+    it('should archive the descendants with the todo', async () => {
+      const child = makeTodo(3, { parentId: todos[2]!.id });
+      storage = new InMemoryStorage([...todos, child]);
+      app = createApp(storage, routes);
+
+      await archive(todos[2]!.id);
+
+      expect(await titles('/todos')).toEqual(['T0', 'T1']);
+      expect((await storage.getArchived()).map((todo) => todo.id)).toEqual([
+        todos[2]!.id,
+        child.id,
+      ]);
+    });
+
+    it('should return 404 for a non-existent or archived todo', async () => {
+      await archive(todos[0]!.id);
+
+      expect((await archive(crypto.randomUUID())).status).toBe(404);
+      expect((await archive(todos[0]!.id)).status).toBe(404);
+    });
+
+    it('should return 400 for an invalid ID', async () => {
+      const res = await archive('invalid-id');
+
+      expect(res.status).toBe(400);
+      expect(await res.json()).toMatchObject({ error: { code: 'VALIDATION_ERROR' } });
+    });
+  });
+
+  describe('archiveCompletedHandler()', () => {
+    it('should archive every completed todo', async () => {
+      const res = await app.request('/todos/archive-completed', { method: 'POST' });
+
+      expect(res.status).toBe(200);
+      expect(((await res.json()) as Todo[]).map((todo) => todo.id)).toEqual([todos[1]!.id]);
+      expect(await titles('/todos')).toEqual(['T0', 'T2']);
+    });
+
+    it('should keep completed todos that have incomplete descendants', async () => {
+      const parent = makeTodo(0, { completed: true });
+      const done = makeTodo(0, { completed: true, parentId: parent.id });
+      const open = makeTodo(1, { parentId: parent.id });
+      storage = new InMemoryStorage([parent, done, open]);
+      app = createApp(storage, routes);
+
+      const res = await app.request('/todos/archive-completed', { method: 'POST' });
+
+      expect(((await res.json()) as Todo[]).map((todo) => todo.id)).toEqual([done.id]);
+      expect((await storage.getAll()).map((todo) => todo.id)).toEqual([parent.id, open.id]);
+    });
+
+    it('should return [] without writing when nothing is completed', async () => {
+      storage = new InMemoryStorage([makeTodo(0)]);
+      app = createApp(storage, routes);
+
+      const res = await app.request('/todos/archive-completed', { method: 'POST' });
+
+      expect(await res.json()).toEqual([]);
+      expect(await storage.getLastModified()).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { Hono } from 'hono';
+import type { Context, MiddlewareHandler } from 'hono';
+import type { Todo } from '../../../src/models/todo';
+import type { AppEnv } from '../../../src/models/env';
+
+/**
+ * ハンドラーのテストで使うTodo
+ *
+ * タイトルは `T{position}` になります。完了・親・タグなどは overrides で指定します。
+ *
+ * @param position - 兄弟の中での位置
+ * @param overrides - 上書きするフィールド
+ */
+export function makeTodo(position: number, overrides: Partial<Todo> = {}): Todo {
+  return {
+    id: crypto.randomUUID(),
+    title: `T${position}`,
+    completed: false,
+    createdAt: '2025-10-27T15:00:00.000Z',
+    position,
+    version: 1,
+    ...overrides,
+  };
+}
+
+/**
+ * ストレージを受け取るハンドラー（handlers/*.ts の各ハンドラーと同じ形）
+ */
+export type StorageHandler<S> = (c: Context<AppEnv>, storage: S) => Promise<Response>;
+
+/**
+ * ハンドラーをルートに登録したアプリ
+ *
+ * 認証・ストレージのミドルウェアの代わりに、すべてのハンドラーに同じストレージを渡します。
+ *
+ * @param storage - ハンドラーに渡すストレージ
+ * @param routes - `{メソッド} {パス}` とハンドラーの組（例: `'GET /tags': getTagsHandler`）
+ * @param middleware - 各ルートのハンドラーの前に実行するミドルウェア（パスのパラメーターを参照できる）
+ *
+ * @example
+ * ```typescript
+ * const app = createApp(new InMemoryStorage(), { 'GET /tags': getTagsHandler });
+ * const res = await app.request('/tags');
+ * ```
+ */
+export function createApp<S>(
+  storage: S,
+  routes: Record<string, StorageHandler<S>>,
+  middleware?: MiddlewareHandler<AppEnv>
+): Hono<AppEnv> {
+  const app = new Hono<AppEnv>();
+  for (const [route, handler] of Object.entries(routes)) {
+    const [method, path] = route.split(' ') as [string, string];
+    const handle = (c: Context<AppEnv>) => handler(c, storage);
+    if (middleware) {
+      app.on(method, path, middleware, handle);
+    } else {
+      app.on(method, path, handle);
+    }
+  }
+  return app;
+}
@@ -0,0 +1,320 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Hono } from 'hono';
+import {
+  createItemHandler,
+  updateItemHandler,
+  deleteItemHandler,
+  reorderItemHandler,
+} from '../../../src/handlers/items';
+import { InMemoryStorage } from '../../../src/storage/memory';
+import { PreconditionFailedError } from '../../../src/models/error';
+import type { ChecklistItem, Todo, TodoResponse } from '../../../src/models/todo';
+import type { AppEnv } from '../../../src/models/env';
+import { makeTodo, createApp } from './fixtures';
+
+type ErrorBody = { error: { code: string; message: string } };
+
+const TODO_ID = '550e8400-e29b-41d4-a716-446655440000';
+
+function makeItems(count: number): ChecklistItem[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: crypto.randomUUID(),
+    text: `Item ${i}`,
+    done: false,
+  }));
+}
+
+const routes = {
+  'POST /todos/:id/items': createItemHandler,
+  'PUT /todos/:id/items/:itemId': updateItemHandler,
+  'PUT /todos/:id/items/:itemId/reorder': reorderItemHandler,
+  'DELETE /todos/:id/items/:itemId': deleteItemHandler,
+};
+
+/**
+ * チェックリストを持つTodo（IDは TODO_ID）
+ */
+function shoppingTodo(overrides: Partial<Todo> = {}): Todo {
+  return makeTodo(0, { id: TODO_ID, title: 'Shopping', ...overrides });
+}
+
+function send(
+  app: Hono<AppEnv>,
+  method: string,
+  path: string,
+  body?: unknown,
+  headers: Record<string, string> = {}
+) {
+  return app.request(path, {
+    method,
+    headers: { 'Content-Type': 'application/json', ...headers },
+    ...(body === undefined ? {} : { body: JSON.stringify(body) }),
+  });
+}
+
+describe('Checklist Item Handlers', () => {
+  let items: ChecklistItem[];
+  let storage: InMemoryStorage;
+
+  beforeEach(() => {
+    items = makeItems(3);
+    storage = new InMemoryStorage([shoppingTodo({ items })]);
+  });
+
+  describe('createItemHandler()', () => {
+    it('should append the item and return the parent with progress', async () => {
+      const res = await send(createApp(storage, routes), 'POST', `/todos/${TODO_ID}/items`, {
+        text: 'Bread',
+      });
+
+      expect(res.status).toBe(201);
+      expect(res.headers.get('ETag')).toBe('"2"');
+      const body = (await res.json()) as TodoResponse;
+      expect(body.items?.at(-1)).toEqual({ id: expect.any(String), text: 'Bread', done: false });
+      expect(body.progress).toEqual({ done: 0, total: 4 });
+    });
+
+    it('should reject an invalid text', async () => {
+      const res = await send(createApp(storage, routes), 'POST', `/todos/${TODO_ID}/items`, {
+        text: 'a\nb',
+      });
+
+      expect(res.status).toBe(400);
+      expect(((await res.json()) as ErrorBody).error.code).toBe('VALIDATION_ERROR');
+    });
+
+    it('should reject an item beyond the maximum count', async () => {
+      storage = new InMemoryStorage([shoppingTodo({ items: makeItems(100) })]);
+
+      const res = await send(createApp(storage, routes), 'POST', `/todos/${TODO_ID}/items`, {
+        text: 'One more',
+      });
+
+      expect(res.status).toBe(400);
+      expect(((await res.json()) as ErrorBody).error.message).toContain('100');
+    });
+
+    it('should return 404 when the todo does not exist', async () => {
+      const res = await send(
+        createApp(storage, routes),
+        'POST',
+        '/todos/650e8400-e29b-41d4-a716-446655440001/items',
+        { text: 'Bread' }
+      );
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('updateItemHandler()', () => {
+    it('should update the item', async () => {
+      const res = await send(
+        createApp(storage, routes),
+        'PUT',
+        `/todos/${TODO_ID}/items/${items[1]!.id}`,
+        {
+          done: true,
+          text: 'Eggs',
+        }
+      );
+
+      expect(res.status).toBe(200);
+      const body = (await res.json()) as TodoResponse;
+      expect(body.items?.[1]).toEqual({ id: items[1]!.id, text: 'Eggs', done: true });
+      expect(body.progress).toEqual({ done: 1, total: 3 });
+      expect(body.completed).toBe(false);
+    });
+
+    it('should complete the parent when autoComplete is on and every item is done', async () => {
+      const [first, second] = makeItems(2);
+      storage = new InMemoryStorage([
+        shoppingTodo({ autoComplete: true, items: [{ ...first!, done: true }, second!] }),
+      ]);
+
+      const res = await send(
+        createApp(storage, routes),
+        'PUT',
+        `/todos/${TODO_ID}/items/${second!.id}`,
+        {
+          done: true,
+        }
+      );
+
+      const body = (await res.json()) as TodoResponse;
+      expect(body.completed).toBe(true);
+      expect(body.progress).toEqual({ done: 2, total: 2 });
+    });
+
+    it('should create the next occurrence when autoComplete completes a recurring todo', async () => {
+      const [first, second] = makeItems(2);
+      storage = new InMemoryStorage([
+        shoppingTodo({
+          autoComplete: true,
+          items: [{ ...first!, done: true }, second!],
+          dueAt: '2025-11-03',
+          recurrence: 'FREQ=WEEKLY;COUNT=3',
+        }),
+      ]);
+
+      const res = await send(
+        createApp(storage, routes),
+        'PUT',
+        `/todos/${TODO_ID}/items/${second!.id}`,
+        {
+          done: true,
+        }
+      );
+
+      const body = (await res.json()) as TodoResponse;
+      expect(body.completed).toBe(true);
+      expect(body.recurrence).toBeUndefined();
+      const [, next] = await storage.getAll();
+      expect(res.headers.get('Link')).toBe(`</todos/${next!.id}>; rel="next"`);
+      expect(next).toMatchObject({
+        title: 'Shopping',
+        completed: false,
+        dueAt: '2025-11-10',
+        recurrence: 'FREQ=WEEKLY;COUNT=2',
+        autoComplete: true,
+        items: [
+          { text: first!.text, done: false },
+          { text: second!.text, done: false },
+        ],
+      });
+    });
+
+    it('should not complete the parent when autoComplete is off', async () => {
+      storage = new InMemoryStorage([shoppingTodo({ items: items.slice(0, 1) })]);
+
+      const res = await send(
+        createApp(storage, routes),
+        'PUT',
+        `/todos/${TODO_ID}/items/${items[0]!.id}`,
+        {
+          done: true,
+        }
+      );
+
+      expect(((await res.json()) as TodoResponse).completed).toBe(false);
+    });
+
+    it('should reject an empty update', async () => {
+      const res = await send(
+        createApp(storage, routes),
+        'PUT',
+        `/todos/${TODO_ID}/items/${items[0]!.id}`,
+        {}
+      );
+
+      expect(res.status).toBe(400);
+    });
+
+    it('should return 404 for an unknown item', async () => {
+      const res = await send(
+        createApp(storage, routes),
+        'PUT',
+        `/todos/${TODO_ID}/items/650e8400-e29b-41d4-a716-446655440001`,
+        { done: true }
+      );
+
+      expect(res.status).toBe(404);
+      expect(((await res.json()) as ErrorBody).error.message).toContain('Checklist item');
+    });
+
+    it('should reject an invalid item ID', async () => {
+      const res = await send(createApp(storage, routes), 'PUT', `/todos/${TODO_ID}/items/item-1`, {
+        done: true,
+      });
+
+      expect(res.status).toBe(400);
+    });
+
+    it('should return 412 when If-Match does not match the parent', async () => {
+      const res = await send(
+        createApp(storage, routes),
+        'PUT',
+        `/todos/${TODO_ID}/items/${items[0]!.id}`,
+        { done: true },
+        { 'If-Match': '"5"' }
+      );
+
+      expect(res.status).toBe(412);
+      expect((await storage.getById(TODO_ID))?.version).toBe(1);
+    });
+
+    it('should retry without If-Match when another update wins the race', async () => {
+      const update = storage.update.bind(storage);
+      const spy = vi
+        .spyOn(storage, 'update')
+        .mockRejectedValueOnce(new PreconditionFailedError(2))
+        .mockImplementation(update);
+
+      const res = await send(
+        createApp(storage, routes),
+        'PUT',
+        `/todos/${TODO_ID}/items/${items[0]!.id}`,
+        {
+          done: true,
+        }
+      );
+
+      expect(res.status).toBe(200);
+      expect(spy).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('deleteItemHandler()', () => {
+    it('should remove the item and return the parent', async () => {
+      const res = await send(
+        createApp(storage, routes),
+        'DELETE',
+        `/todos/${TODO_ID}/items/${items[0]!.id}`
+      );
+
+      expect(res.status).toBe(200);
+      const body = (await res.json()) as TodoResponse;
+      expect(body.items?.map((item) => item.id)).toEqual([items[1]!.id, items[2]!.id]);
+    });
+
+    it('should omit progress after the last item is removed', async () => {
+      storage = new InMemoryStorage([shoppingTodo({ items: items.slice(0, 1) })]);
+
+      const res = await send(
+        createApp(storage, routes),
+        'DELETE',
+        `/todos/${TODO_ID}/items/${items[0]!.id}`
+      );
+
+      const body = (await res.json()) as TodoResponse;
+      expect(body.items).toEqual([]);
+      expect(body).not.toHaveProperty('progress');
+    });
+  });
+
+  describe('reorderItemHandler()', () => {
+    it('should move the item', async () => {
+      const res = await send(
+        createApp(storage, routes),
+        'PUT',
+        `/todos/${TODO_ID}/items/${items[2]!.id}/reorder`,
+        { newPosition: 0 }
+      );
+
+      expect(res.status).toBe(200);
+      const body = (await res.json()) as TodoResponse;
+      expect(body.items).toEqual([items[2], items[0], items[1]]);
+    });
+
+    it('should reject a position out of range', async () => {
+      const res = await send(
+        createApp(storage, routes),
+        'PUT',
+        `/todos/${TODO_ID}/items/${items[0]!.id}/reorder`,
+        { newPosition: 3 }
+      );
+
+      expect(res.status).toBe(400);
+      expect((await storage.getById(TODO_ID))?.items).toEqual(items);
+    });
+  });
+});
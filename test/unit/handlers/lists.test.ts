@@ -0,0 +1,352 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { env, applyD1Migrations } from 'cloudflare:test';
+import type { Context, Hono, MiddlewareHandler } from 'hono';
+import {
+  getListsHandler,
+  createListHandler,
+  getListHandler,
+  updateListHandler,
+  deleteListHandler,
+  moveTodoToListHandler,
+} from '../../../src/handlers/lists';
+import { InMemoryStorage, InMemoryListStorage } from '../../../src/storage/memory';
+import { D1Storage, D1ListStorage } from '../../../src/storage/d1';
+import type { IStorage, IListStorage } from '../../../src/storage/interface';
+import type { Todo } from '../../../src/models/todo';
+import type { ListResponse } from '../../../src/models/list';
+import type { AppEnv } from '../../../src/models/env';
+import { makeTodo, createApp } from './fixtures';
+import type { StorageHandler } from './fixtures';
+
+/**
+ * ストレージミドルウェアの代わりに、リストごとのストレージを設定するアプリ
+ */
+function createListsApp(lists: IListStorage, storageFor: (listId: string) => IStorage) {
+  const setStorage: MiddlewareHandler<AppEnv> = async (c, next) => {
+    c.set('lists', lists);
+    c.set('storageFor', storageFor);
+    c.set('storage', storageFor(c.req.param('listId') ?? 'default'));
+    await next();
+  };
+  const inList = (handler: StorageHandler<IStorage>) => (c: Context<AppEnv>) =>
+    handler(c, c.get('storage'));
+  return createApp(
+    lists,
+    {
+      'GET /lists': getListsHandler,
+      'POST /lists': createListHandler,
+      'GET /lists/:listId': inList(getListHandler),
+      'PUT /lists/:listId': inList(updateListHandler),
+      'DELETE /lists/:listId': inList(deleteListHandler),
+      'POST /todos/:id/move': inList(moveTodoToListHandler),
+      'POST /lists/:listId/todos/:id/move': inList(moveTodoToListHandler),
+    },
+    setStorage
+  );
+}
+
+const json = (method: string, body: unknown) => ({
+  method,
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(body),
+});
+
+describe('List Handlers', () => {
+  let todos: Todo[];
+  let lists: InMemoryListStorage;
+  let storages: Map<string, InMemoryStorage>;
+  let app: Hono<AppEnv>;
+
+  const storageFor = (listId: string) => {
+    let storage = storages.get(listId);
+    if (!storage) {
+      storage = new InMemoryStorage([], storageFor);
+      storages.set(listId, storage);
+    }
+    return storage;
+  };
+
+  beforeEach(() => {
+    todos = [makeTodo(0), makeTodo(1, { completed: true })];
+    lists = new InMemoryListStorage();
+    storages = new Map([['default', new InMemoryStorage(todos, storageFor)]]);
+    app = createListsApp(lists, storageFor);
+  });
+
+  const createList = async (name: string) =>
+    (await (await app.request('/lists', json('POST', { name }))).json()) as ListResponse;
+
+  describe('getListsHandler()', () => {
+    it('should return the default list with counts when no list is registered', async () => {
+      const res = await app.request('/lists');
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual([
+        { id: 'default', name: 'Todos', counts: { total: 2, completed: 1 } },
+      ]);
+    });
+
+    it('should return created lists after the default list', async () => {
+      const sprint = await createList('Sprint');
+
+      const res = await app.request('/lists');
+
+      expect(((await res.json()) as ListResponse[]).map((list) => list.name)).toEqual([
+        'Todos',
+        'Sprint',
+      ]);
+      expect(sprint.counts).toEqual({ total: 0, completed: 0 });
+    });
+  });
+
+  describe('createListHandler()', () => {
+    it('should create a list with a trimmed name', async () => {
+      const res = await app.request('/lists', json('POST', { name: '  Sprint  ' }));
+
+      expect(res.status).toBe(201);
+      const list = (await res.json()) as ListResponse;
+      expect(list).toEqual({
+        id: expect.any(String),
+        name: 'Sprint',
+        createdAt: expect.any(String),
+        counts: { total: 0, completed: 0 },
+      });
+      expect(await lists.getList(list.id)).toEqual({
+        id: list.id,
+        name: 'Sprint',
+        createdAt: list.createdAt,
+      });
+    });
+
+    it('should return 400 for an invalid name', async () => {
+      for (const name of ['', '   ', 'a'.repeat(101), 'Line\nbreak', 42]) {
+        const res = await app.request('/lists', json('POST', { name }));
+        expect(res.status).toBe(400);
+      }
+      expect(await lists.getLists()).toEqual([]);
+    });
+
+    it('should return 400 when the list limit has been reached', async () => {
+      for (let i = 0; i < 50; i++) {
+        await lists.putList({ id: crypto.randomUUID(), name: `L${i}`, createdAt: `${i}` });
+      }
+
+      const res = await app.request('/lists', json('POST', { name: 'One more' }));
+
+      expect(res.status).toBe(400);
+      expect(await res.json()).toMatchObject({
+        error: { code: 'VALIDATION_ERROR', message: expect.stringContaining('50') },
+      });
+    });
+  });
+
+  describe('getListHandler() / updateListHandler()', () => {
+    it('should return a list with counts', async () => {
+      const sprint = await createList('Sprint');
+
+      const res = await app.request(`/lists/${sprint.id}`);
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual(sprint);
+    });
+
+    it('should rename a list and keep createdAt', async () => {
+      const sprint = await createList('Sprint');
+
+      const res = await app.request(`/lists/${sprint.id}`, json('PUT', { name: 'Sprint 2' }));
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({ ...sprint, name: 'Sprint 2' });
+    });
+
+    it('should rename the default list', async () => {
+      await app.request('/lists/default', json('PUT', { name: 'Inbox' }));
+
+      expect(await (await app.request('/lists/default')).json()).toEqual({
+        id: 'default',
+        name: 'Inbox',
+        counts: { total: 2, completed: 1 },
+      });
+    });
+
+    it('should return 404 for a list that does not exist', async () => {
+      const id = crypto.randomUUID();
+
+      expect((await app.request(`/lists/${id}`)).status).toBe(404);
+      expect((await app.request(`/lists/${id}`, json('PUT', { name: 'X' }))).status).toBe(404);
+    });
+  });
+
+  describe('deleteListHandler()', () => {
+    it('should delete a list with its todos', async () => {
+      const sprint = await createList('Sprint');
+      await storageFor(sprint.id).create(makeTodo(0));
+
+      const res = await app.request(`/lists/${sprint.id}`, { method: 'DELETE' });
+
+      expect(res.status).toBe(204);
+      expect(await lists.getList(sprint.id)).toBeNull();
+      expect(await storageFor(sprint.id).getAll()).toEqual([]);
+    });
+
+    it('should return 400 for the default list', async () => {
+      const res = await app.request('/lists/default', { method: 'DELETE' });
+
+      expect(res.status).toBe(400);
+      expect(await storageFor('default').getAll()).toHaveLength(2);
+    });
+
+    it('should return 404 for a list that does not exist', async () => {
+      const res = await app.request(`/lists/${crypto.randomUUID()}`, { method: 'DELETE' });
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('moveTodoToListHandler()', () => {
+    const move = (id: string, listId: string, from = '') =>
+      app.request(`${from}/todos/${id}/move`, json('POST', { listId }));
+
+    it('should move a todo with its descendants to the end of the target list', async () => {
+      const sprint = await createList('Sprint');
+      const existing = await storageFor(sprint.id).create(makeTodo(0));
+      const child = makeTodo(2, { parentId: todos[0]!.id });
+      const grandchild = makeTodo(3, { parentId: child.id });
+      storages.set('default', new InMemoryStorage([...todos, child, grandchild], storageFor));
+
+      const res = await move(todos[0]!.id, sprint.id);
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get('ETag')).toBe('"2"');
+      expect(await res.json()).toEqual({ ...todos[0], position: 1, version: 2 });
+      expect((await storageFor('default').getAll()).map((todo) => todo.id)).toEqual([todos[1]!.id]);
+      expect(
+        (await storageFor(sprint.id).getAll()).map((todo) => [todo.id, todo.parentId])
+      ).toEqual([
+        [existing.id, undefined],
+        [todos[0]!.id, undefined],
+        [child.id, todos[0]!.id],
+        [grandchild.id, child.id],
+      ]);
+    });
+
+    it('should move a child to the root of the target list', async () => {
+      const child = makeTodo(2, { parentId: todos[0]!.id });
+      storages.set('default', new InMemoryStorage([...todos, child], storageFor));
+      const sprint = await createList('Sprint');
+
+      await move(child.id, sprint.id);
+
+      expect(await storageFor(sprint.id).getById(child.id)).not.toHaveProperty('parentId');
+    });
+
+    it('should move a todo back to the default list', async () => {
+      const sprint = await createList('Sprint');
+      await move(todos[0]!.id, sprint.id);
+
+      const res = await move(todos[0]!.id, 'default', `/lists/${sprint.id}`);
+
+      expect(res.status).toBe(200);
+      expect((await storageFor('default').getAll()).map((todo) => todo.title)).toEqual([
+        'T1',
+        'T0',
+      ]);
+      expect(await storageFor(sprint.id).getAll()).toEqual([]);
+    });
+
+    it('should return the todo unchanged when the target is the same list', async () => {
+      const res = await move(todos[0]!.id, 'default');
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual(todos[0]);
+      expect(await storageFor('default').getLastModified()).toBeNull();
+    });
+
+    it('should return 404 for a missing todo or target list', async () => {
+      const sprint = await createList('Sprint');
+
+      expect((await move(crypto.randomUUID(), sprint.id)).status).toBe(404);
+      expect((await move(todos[0]!.id, crypto.randomUUID())).status).toBe(404);
+      expect(await storageFor('default').getAll()).toHaveLength(2);
+    });
+
+    it('should return 400 for an invalid todo ID or list ID', async () => {
+      expect((await move('invalid-id', 'default')).status).toBe(400);
+      expect((await move(todos[0]!.id, 'sprint')).status).toBe(400);
+    });
+
+    it('should return 400 for a malformed JSON body', async () => {
+      const sprint = await createList('Sprint');
+      const malformed = (method: string) => ({
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: '{invalid',
+      });
+
+      for (const [path, method] of [
+        ['/lists', 'POST'],
+        [`/lists/${sprint.id}`, 'PUT'],
+        [`/todos/${todos[0]!.id}/move`, 'POST'],
+      ] as const) {
+        const res = await app.request(path, malformed(method));
+        expect(res.status).toBe(400);
+        expect(await res.json()).toMatchObject({ error: { code: 'VALIDATION_ERROR' } });
+      }
+      expect(await storageFor('default').getAll()).toHaveLength(2);
+    });
+
+    it('should return 400 when the target list would exceed MAX_TODOS', async () => {
+      const sprint = await createList('Sprint');
+      await storageFor(sprint.id).create(makeTodo(0));
+
+      const res = await app.request(
+        `/todos/${todos[0]!.id}/move`,
+        json('POST', { listId: sprint.id }),
+        { MAX_TODOS: '1' }
+      );
+
+      expect(res.status).toBe(400);
+      expect(await res.json()).toMatchObject({ error: { code: 'TODO_LIMIT_REACHED' } });
+      expect(await storageFor('default').getAll()).toHaveLength(2);
+    });
+  });
+});
+
+describe('moveTodoToListHandler() with D1Storage', () => {
+  let app: Hono<AppEnv>;
+  const storageFor = (listId: string) => new D1Storage(env.TEST_DB, listId);
+
+  beforeEach(async () => {
+    await applyD1Migrations(env.TEST_DB, env.TEST_MIGRATIONS);
+    await env.TEST_DB.batch([
+      env.TEST_DB.prepare('DELETE FROM todos'),
+      env.TEST_DB.prepare('DELETE FROM lists'),
+    ]);
+    app = createListsApp(new D1ListStorage(env.TEST_DB), storageFor);
+  });
+
+  it('should move a todo with its descendants without recreating the rows', async () => {
+    const created = await app.request('/lists', json('POST', { name: 'Sprint' }));
+    const sprint = (await created.json()) as ListResponse;
+    const source = storageFor('default');
+    const parent = await source.create(makeTodo(0));
+    const child = await source.create(makeTodo(0, { parentId: parent.id }));
+    const other = await source.create(makeTodo(1));
+
+    const res = await app.request(`/todos/${parent.id}/move`, json('POST', { listId: sprint.id }));
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ id: parent.id, position: 0, version: 2 });
+    expect(
+      (await storageFor(sprint.id).getAll()).map((todo) => [todo.id, todo.parentId ?? null])
+    ).toEqual([
+      [parent.id, null],
+      [child.id, parent.id],
+    ]);
+    expect((await source.getAll()).map((todo) => todo.id)).toEqual([other.id]);
+    const { results } = await env.TEST_DB.prepare('SELECT list_id FROM todos WHERE id IN (?, ?)')
+      .bind(parent.id, child.id)
+      .all<{ list_id: string }>();
+    expect(results.map((row) => row.list_id)).toEqual([sprint.id, sprint.id]);
+  });
+});
@@ -1,43 +1,162 @@
-// test/unit/handlers/reorder.test.ts
-import { describe, it, expect, vi } from 'vitest';
-import { reorderHandler } from '../../../src/handlers/reorder';
-
-function createMockContext({ id, newPosition }: { id: string; newPosition: number }) {
-  return {
-    req: {
-      param: vi.fn().mockReturnValue(id),
-      json: vi.fn().mockResolvedValue({ newPosition }),
-    },
-    env: {
-      TODO_KV: {},
-    },
-    json: vi.fn((body, status) => ({ body, status })),
-    finalized: false,
-    error: undefined,
-    event: undefined,
-    executionCtx: undefined,
-    // Add other required Context properties as needed for type compatibility
-  } as any;
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Hono } from 'hono';
+import { reorderHandler, setOrderHandler } from '../../../src/handlers/reorder';
+import { InMemoryStorage } from '../../../src/storage/memory';
+import type { IStorage } from '../../../src/storage/interface';
+import type { Todo } from '../../../src/models/todo';
+import type { AppEnv } from '../../../src/models/env';
+
+type ErrorBody = { error: { code: string; message: string } };
+
+function makeTodos(count: number): Todo[] {
+  return Array.from({ length: count }, (_, position) => ({
+    id: crypto.randomUUID(),
+    title: `T${position}`,
+    completed: false,
+    createdAt: '2025-10-27T15:00:00.000Z',
+    position,
+    version: 1,
+  }));
+}
+
+function createApp(storage: IStorage) {
+  const app = new Hono<AppEnv>();
+  app.put('/todos/order', (c) => setOrderHandler(c, storage));
+  app.put('/todos/:id/reorder', (c) => reorderHandler(c, storage));
+  return app;
 }
 
-describe('reorderHandler', () => {
-  it('should return 400 for invalid UUID', async () => {
-    const c = createMockContext({ id: 'invalid', newPosition: 1 });
-    const result = await reorderHandler(c);
-    expect(result.status).toBe(400);
-    if (result.body && typeof result.body === 'object' && 'error' in result.body) {
-      expect(result.body.error).toBe('Invalid todoId format');
-    }
+function put(app: Hono<AppEnv>, path: string, body: unknown) {
+  return app.request(path, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+describe('Reorder Handlers', () => {
+  let todos: Todo[];
+  let storage: InMemoryStorage;
+
+  beforeEach(() => {
+    todos = makeTodos(3);
+    storage = new InMemoryStorage(todos);
   });
 
-  it('should return 400 for invalid newPosition', async () => {
-    const c = createMockContext({ id: '550e8400-e29b-41d4-a716-446655440000', newPosition: -1 });
-    const result = await reorderHandler(c);
-    expect(result.status).toBe(400);
-    if (result.body && typeof result.body === 'object' && 'error' in result.body) {
-      expect(result.body.error).toBe('Invalid newPosition');
-    }
+  describe('reorderHandler()', () => {
+    it('should move the todo and return all todos in the new order', async () => {
+      const res = await put(createApp(storage), `/todos/${todos[2]!.id}/reorder`, {
+        newPosition: 0,
+      });
+
+      expect(res.status).toBe(200);
+      const body = (await res.json()) as { todos: Todo[] };
+      expect(body.todos.map((t) => [t.title, t.position])).toEqual([
+        ['T2', 0],
+        ['T0', 1],
+        ['T1', 2],
+      ]);
+    });
+
+    it('should return 400 VALIDATION_ERROR for invalid UUID', async () => {
+      const res = await put(createApp(storage), '/todos/invalid/reorder', { newPosition: 1 });
+
+      expect(res.status).toBe(400);
+      const body = (await res.json()) as ErrorBody;
+      expect(body.error.code).toBe('VALIDATION_ERROR');
+    });
+
+    it.each([-1, 1.5, '1', undefined])(
+      'should return 400 VALIDATION_ERROR for newPosition %s',
+      async (newPosition) => {
+        const res = await put(createApp(storage), `/todos/${todos[0]!.id}/reorder`, {
+          newPosition,
+        });
+
+        expect(res.status).toBe(400);
+        const body = (await res.json()) as ErrorBody;
+        expect(body.error.code).toBe('VALIDATION_ERROR');
+      }
+    );
+
+    it('should return 400 VALIDATION_ERROR for newPosition out of range', async () => {
+      const res = await put(createApp(storage), `/todos/${todos[0]!.id}/reorder`, {
+        newPosition: 3,
+      });
+
+      expect(res.status).toBe(400);
+      const body = (await res.json()) as ErrorBody;
+      expect(body.error.code).toBe('VALIDATION_ERROR');
+    });
+
+    it('should return 404 NOT_FOUND for non-existent todo', async () => {
+      const res = await put(createApp(storage), `/todos/${crypto.randomUUID()}/reorder`, {
+        newPosition: 0,
+      });
+
+      expect(res.status).toBe(404);
+      const body = (await res.json()) as ErrorBody;
+      expect(body.error.code).toBe('NOT_FOUND');
+    });
+
+    it('should return 412 PRECONDITION_FAILED when If-Match is stale', async () => {
+      await storage.update(todos[0]!.id, { completed: true });
+
+      const res = await createApp(storage).request(`/todos/${todos[0]!.id}/reorder`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', 'If-Match': '"1"' },
+        body: JSON.stringify({ newPosition: 2 }),
+      });
+
+      expect(res.status).toBe(412);
+      const body = (await res.json()) as ErrorBody;
+      expect(body.error.code).toBe('PRECONDITION_FAILED');
+      expect((await storage.getAll()).map((t) => t.title)).toEqual(['T0', 'T1', 'T2']);
+    });
+
+    it('should return 500 INTERNAL_ERROR when storage fails', async () => {
+      vi.spyOn(storage, 'move').mockRejectedValue(new Error('Storage failure'));
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const res = await put(createApp(storage), `/todos/${todos[0]!.id}/reorder`, {
+        newPosition: 1,
+      });
+
+      expect(res.status).toBe(500);
+      const body = (await res.json()) as ErrorBody;
+      expect(body.error.code).toBe('INTERNAL_ERROR');
+    });
   });
 
-  // More tests can be added for not found, out of range, and success cases
+  describe('setOrderHandler()', () => {
+    it('should apply the given order', async () => {
+      const ids = [todos[1]!.id, todos[2]!.id, todos[0]!.id];
+
+      const res = await put(createApp(storage), '/todos/order', { ids });
+
+      expect(res.status).toBe(200);
+      const body = (await res.json()) as { todos: Todo[] };
+      expect(body.todos.map((t) => t.id)).toEqual(ids);
+      expect((await storage.getAll()).map((t) => t.id)).toEqual(ids);
+    });
+
+    it('should return 400 VALIDATION_ERROR when ids is not an array of UUIDs', async () => {
+      const res = await put(createApp(storage), '/todos/order', { ids: ['invalid'] });
+
+      expect(res.status).toBe(400);
+      const body = (await res.json()) as ErrorBody;
+      expect(body.error.code).toBe('VALIDATION_ERROR');
+    });
+
+    it('should return 400 VALIDATION_ERROR when ids does not cover every todo', async () => {
+      const res = await put(createApp(storage), '/todos/order', {
+        ids: [todos[0]!.id, todos[1]!.id],
+      });
+
+      expect(res.status).toBe(400);
+      const body = (await res.json()) as ErrorBody;
+      expect(body.error.code).toBe('VALIDATION_ERROR');
+      expect((await storage.getAll()).map((t) => t.title)).toEqual(['T0', 'T1', 'T2']);
+    });
+  });
 });
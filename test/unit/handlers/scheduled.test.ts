@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { env } from 'cloudflare:test';
+import { purgeExpiredTrashHandler } from '../../../src/handlers/scheduled';
+import { createStorage, createListStorage } from '../../../src/storage/factory';
+import { KVApiKeyStorage } from '../../../src/storage/apiKeys';
+import type { Env } from '../../../src/models/env';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = Date.parse('2025-11-30T03:00:00.000Z');
+
+function makeEnv(overrides: Partial<Env> = {}): Env {
+  return {
+    TODO_KV: env.TODO_KV,
+    VALID_API_KEYS: 'team-a:key-a',
+    ...overrides,
+  };
+}
+
+function makeController(): ScheduledController {
+  return { scheduledTime: now, cron: '0 3 * * *', noRetry: () => {} };
+}
+
+/**
+ * 30日より前と1日前にゴミ箱に移したTodoを1件ずつ用意し、残るTodoのIDを返す
+ */
+async function seedTrash(testEnv: Env, listId: string, tenantId: string): Promise<string> {
+  const storage = createStorage(testEnv, listId, tenantId);
+  const [expired, recent] = ['Expired', 'Recent'].map((title) => ({
+    id: crypto.randomUUID(),
+    title,
+    completed: false,
+    createdAt: '2025-10-01T00:00:00.000Z',
+    position: 0,
+    version: 1,
+  }));
+  await storage.create(expired!);
+  await storage.create(recent!);
+  await storage.trash(expired!.id, new Date(now - 31 * DAY_MS).toISOString());
+  await storage.trash(recent!.id, new Date(now - DAY_MS).toISOString());
+  return recent!.id;
+}
+
+async function trashIds(testEnv: Env, listId: string, tenantId: string): Promise<string[]> {
+  const trash = await createStorage(testEnv, listId, tenantId).getTrash();
+  return trash.map((todo) => todo.id);
+}
+
+describe('Scheduled Handlers', () => {
+  beforeEach(async () => {
+    const listed = await env.TODO_KV.list();
+    await Promise.all(listed.keys.map((key) => env.TODO_KV.delete(key.name)));
+  });
+
+  describe('purgeExpiredTrashHandler', () => {
+    it('should purge expired trash in every tenant and list', async () => {
+      const testEnv = makeEnv();
+      const listId = crypto.randomUUID();
+      await createListStorage(testEnv, 'team-a').putList({ id: listId, name: 'Work' });
+      await new KVApiKeyStorage(env.TODO_KV).put('hash-1', {
+        id: crypto.randomUUID(),
+        name: 'Key',
+        tenantId: 'team-b',
+        scopes: ['todos:read'],
+        createdAt: '2025-11-01T00:00:00.000Z',
+      });
+      const kept = {
+        default: await seedTrash(testEnv, 'default', 'default'),
+        teamA: await seedTrash(testEnv, 'default', 'team-a'),
+        teamAList: await seedTrash(testEnv, listId, 'team-a'),
+        teamB: await seedTrash(testEnv, 'default', 'team-b'),
+      };
+
+      await purgeExpiredTrashHandler(makeController(), testEnv);
+
+      expect(await trashIds(testEnv, 'default', 'default')).toEqual([kept.default]);
+      expect(await trashIds(testEnv, 'default', 'team-a')).toEqual([kept.teamA]);
+      expect(await trashIds(testEnv, listId, 'team-a')).toEqual([kept.teamAList]);
+      expect(await trashIds(testEnv, 'default', 'team-b')).toEqual([kept.teamB]);
+    });
+
+    it('should use TRASH_RETENTION_DAYS', async () => {
+      const testEnv = makeEnv({ TRASH_RETENTION_DAYS: '1' });
+      await seedTrash(testEnv, 'default', 'default');
+
+      await purgeExpiredTrashHandler(makeController(), testEnv);
+
+      expect(await trashIds(testEnv, 'default', 'default')).toEqual([]);
+    });
+
+    it('should rebuild the KV index of every list', async () => {
+      const testEnv = makeEnv();
+      const storage = createStorage(testEnv, 'default', 'team-a');
+      const todo = {
+        id: crypto.randomUUID(),
+        title: 'Lost',
+        completed: false,
+        createdAt: '2025-11-01T00:00:00.000Z',
+        position: 0,
+        version: 1,
+      };
+      await storage.create(todo);
+      // 同時書き込みでエントリーが失われたインデックス
+      await env.TODO_KV.put('t:team-a:meta:index', JSON.stringify({ todos: [] }));
+
+      await purgeExpiredTrashHandler(makeController(), testEnv);
+
+      const index = JSON.parse((await env.TODO_KV.get('t:team-a:meta:index'))!) as {
+        todos: { id: string }[];
+      };
+      expect(index.todos.map((entry) => entry.id)).toEqual([todo.id]);
+    });
+
+    it('should log the error and continue when a tenant cannot be purged', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      await expect(
+        purgeExpiredTrashHandler(makeController(), makeEnv({ STORAGE_BACKEND: 'd1' }))
+      ).resolves.toBeUndefined();
+
+      // デフォルトのテナントと team-a の2件
+      expect(consoleSpy).toHaveBeenCalledTimes(2);
+      consoleSpy.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { getTagsHandler } from '../../../src/handlers/tags';
+import { InMemoryStorage } from '../../../src/storage/memory';
+import { makeTodo, createApp } from './fixtures';
+
+const routes = { 'GET /tags': getTagsHandler };
+
+describe('Tag Handlers', () => {
+  describe('getTagsHandler()', () => {
+    it('should return tags with their usage counts', async () => {
+      const storage = new InMemoryStorage([
+        makeTodo(0, { tags: ['work', 'urgent'] }),
+        makeTodo(1, { tags: ['work'] }),
+        makeTodo(2),
+      ]);
+
+      const res = await createApp(storage, routes).request('/tags');
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual([
+        { tag: 'work', count: 2 },
+        { tag: 'urgent', count: 1 },
+      ]);
+    });
+
+    it('should return an empty array when there are no tags', async () => {
+      const res = await createApp(new InMemoryStorage([makeTodo(0)]), routes).request('/tags');
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual([]);
+    });
+
+    it('should return 500 when storage fails', async () => {
+      const storage = new InMemoryStorage();
+      storage.getAll = () => Promise.reject(new Error('boom'));
+
+      const res = await createApp(storage, routes).request('/tags');
+
+      expect(res.status).toBe(500);
+      const body = (await res.json()) as { error: { code: string } };
+      expect(body.error.code).toBe('INTERNAL_ERROR');
+    });
+  });
+});
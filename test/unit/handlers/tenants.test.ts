@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { env } from 'cloudflare:test';
+import { Hono } from 'hono';
+import { migrateTenantHandler } from '../../../src/handlers/tenants';
+import { createStorage } from '../../../src/storage/factory';
+import type { AppEnv, Env } from '../../../src/models/env';
+
+/**
+ * 認証ミドルウェアの代わりに、X-Tenantヘッダーのテナントを設定するアプリ
+ */
+function createApp() {
+  const app = new Hono<AppEnv>();
+  app.use('*', async (c, next) => {
+    c.set('tenantId', c.req.header('X-Tenant') ?? 'default');
+    await next();
+  });
+  app.post('/admin/tenants/:tenantId/migrate', (c) => migrateTenantHandler(c));
+  return app;
+}
+
+const testEnv: Env = { TODO_KV: env.TODO_KV, VALID_API_KEYS: 'admin-key' };
+
+function migrate(tenantId: string, requestTenant = 'default') {
+  return createApp().request(
+    `/admin/tenants/${tenantId}/migrate`,
+    { method: 'POST', headers: { 'X-Tenant': requestTenant } },
+    testEnv
+  );
+}
+
+describe('Tenant Handlers', () => {
+  beforeEach(async () => {
+    const listed = await env.TODO_KV.list();
+    await Promise.all(listed.keys.map((key) => env.TODO_KV.delete(key.name)));
+    await createStorage(testEnv).create({
+      id: crypto.randomUUID(),
+      title: 'Legacy',
+      completed: false,
+      createdAt: '2025-11-01T00:00:00.000Z',
+      position: 0,
+      version: 1,
+    });
+  });
+
+  describe('migrateTenantHandler()', () => {
+    it('should move the default tenant data to the tenant', async () => {
+      const res = await migrate('team-a');
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({ tenantId: 'team-a', migrated: expect.any(Number) });
+      const todos = await createStorage(testEnv, 'default', 'team-a').getAll();
+      expect(todos.map((todo) => todo.title)).toEqual(['Legacy']);
+      expect(await createStorage(testEnv).getAll()).toEqual([]);
+    });
+
+    it('should return 403 for an API key of another tenant', async () => {
+      const res = await migrate('team-a', 'team-b');
+
+      expect(res.status).toBe(403);
+      expect(await createStorage(testEnv).getAll()).toHaveLength(1);
+    });
+
+    it('should return 400 for an invalid tenant ID or the default tenant', async () => {
+      for (const tenantId of ['default', 'team%20a', 'a'.repeat(65)]) {
+        const res = await migrate(tenantId);
+        expect(res.status).toBe(400);
+      }
+    });
+
+    it('should return 400 when the tenant already has data', async () => {
+      await migrate('team-a');
+      await createStorage(testEnv).create({
+        id: crypto.randomUUID(),
+        title: 'New',
+        completed: false,
+        createdAt: '2025-11-02T00:00:00.000Z',
+        position: 0,
+        version: 1,
+      });
+
+      const res = await migrate('team-a');
+
+      expect(res.status).toBe(400);
+      expect(await res.json()).toMatchObject({ error: { code: 'VALIDATION_ERROR' } });
+      expect(await createStorage(testEnv).getAll()).toHaveLength(1);
+    });
+  });
+});
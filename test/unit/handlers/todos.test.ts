@@ -4,12 +4,16 @@ import {
   createTodoHandler,
   getTodosHandler,
   getTodoByIdHandler,
+  getTodoTreeHandler,
   updateTodoHandler,
   deleteTodoHandler,
 } from '../../../src/handlers/todos';
 import { IStorage } from '../../../src/storage/interface';
-import { Todo } from '../../../src/models/todo';
-import { Env } from '../../../src/models/env';
+import { InMemoryStorage } from '../../../src/storage/memory';
+import { Todo, TODO_CONSTRAINTS } from '../../../src/models/todo';
+import { VALIDATION_ERRORS } from '../../../src/utils/validation';
+import { PreconditionFailedError } from '../../../src/models/error';
+import type { AppEnv } from '../../../src/models/env';
 
 describe('Todo Handlers', () => {
   describe('createTodoHandler()', () => {
@@ -22,6 +26,17 @@ describe('Todo Handlers', () => {
         getById: vi.fn(),
         update: vi.fn(),
         delete: vi.fn(),
+        trash: vi.fn(),
+        getTrash: vi.fn(),
+        restore: vi.fn(),
+        purge: vi.fn(),
+        clear: vi.fn(),
+        archive: vi.fn(),
+        getArchived: vi.fn(),
+        move: vi.fn(),
+        setOrder: vi.fn(),
+        moveToList: vi.fn(),
+        getLastModified: vi.fn(),
       };
     });
 
@@ -32,12 +47,13 @@ describe('Todo Handlers', () => {
         completed: false,
         createdAt: '2025-10-27T15:00:00.000Z',
         position: 0,
+        version: 1,
       };
 
       (mockStorage.getAll as any).mockResolvedValue([]);
       (mockStorage.create as any).mockResolvedValue(mockTodo);
 
-      const app = new Hono<{ Bindings: Env }>();
+      const app = new Hono<AppEnv>();
       app.post('/todos', (c) => createTodoHandler(c, mockStorage));
 
       const res = await app.request('/todos', {
@@ -55,7 +71,7 @@ describe('Todo Handlers', () => {
     });
 
     it('should reject empty title', async () => {
-      const app = new Hono<{ Bindings: Env }>();
+      const app = new Hono<AppEnv>();
       app.post('/todos', (c) => createTodoHandler(c, mockStorage));
 
       const res = await app.request('/todos', {
@@ -70,7 +86,7 @@ describe('Todo Handlers', () => {
     });
 
     it('should reject missing title', async () => {
-      const app = new Hono<{ Bindings: Env }>();
+      const app = new Hono<AppEnv>();
       app.post('/todos', (c) => createTodoHandler(c, mockStorage));
 
       const res = await app.request('/todos', {
@@ -86,7 +102,7 @@ describe('Todo Handlers', () => {
 
     it('should reject title exceeding 500 characters', async () => {
       const longTitle = 'a'.repeat(501);
-      const app = new Hono<{ Bindings: Env }>();
+      const app = new Hono<AppEnv>();
       app.post('/todos', (c) => createTodoHandler(c, mockStorage));
 
       const res = await app.request('/todos', {
@@ -101,7 +117,7 @@ describe('Todo Handlers', () => {
     });
 
     it('should reject title with control characters', async () => {
-      const app = new Hono<{ Bindings: Env }>();
+      const app = new Hono<AppEnv>();
       app.post('/todos', (c) => createTodoHandler(c, mockStorage));
 
       const res = await app.request('/todos', {
@@ -122,11 +138,12 @@ describe('Todo Handlers', () => {
         completed: false,
         createdAt: new Date().toISOString(),
         position: i,
+        version: 1,
       }));
 
       (mockStorage.getAll as any).mockResolvedValue(existingTodos);
 
-      const app = new Hono<{ Bindings: Env }>();
+      const app = new Hono<AppEnv>();
       app.post('/todos', (c) => createTodoHandler(c, mockStorage));
 
       const res = await app.request('/todos', {
@@ -140,6 +157,57 @@ describe('Todo Handlers', () => {
       expect(body.error.code).toBe('TODO_LIMIT_REACHED');
     });
 
+    it('should use the MAX_TODOS limit configured in the environment', async () => {
+      const existingTodos: Todo[] = Array.from({ length: 500 }, (_, i) => ({
+        id: `id-${i}`,
+        title: `Todo ${i}`,
+        completed: false,
+        createdAt: new Date().toISOString(),
+        position: i,
+        version: 1,
+      }));
+      (mockStorage.getAll as any).mockResolvedValue(existingTodos);
+      (mockStorage.create as any).mockImplementation(async (todo: Todo) => todo);
+
+      const app = new Hono<AppEnv>();
+      app.post('/todos', (c) => createTodoHandler(c, mockStorage));
+      const request = {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title: 'New Todo' }),
+      };
+
+      const allowed = await app.request('/todos', request, { MAX_TODOS: '501' });
+      expect(allowed.status).toBe(201);
+
+      const limited = await app.request('/todos', request, { MAX_TODOS: '100' });
+      expect(limited.status).toBe(400);
+      const body = (await limited.json()) as { error: { code: string; message: string } };
+      expect(body.error.code).toBe('TODO_LIMIT_REACHED');
+      expect(body.error.message).toContain('100');
+    });
+
+    it('should return 500 INTERNAL_ERROR when MAX_TODOS is invalid', async () => {
+      (mockStorage.getAll as any).mockResolvedValue([]);
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const app = new Hono<AppEnv>();
+      app.post('/todos', (c) => createTodoHandler(c, mockStorage));
+
+      const res = await app.request(
+        '/todos',
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ title: 'New Todo' }),
+        },
+        { MAX_TODOS: 'unlimited' }
+      );
+
+      expect(res.status).toBe(500);
+      expect(mockStorage.create).not.toHaveBeenCalled();
+    });
+
     it('should set default values for completed and createdAt', async () => {
       const mockTodo: Todo = {
         id: '550e8400-e29b-41d4-a716-446655440000',
@@ -147,12 +215,13 @@ describe('Todo Handlers', () => {
         completed: false,
         createdAt: '2025-10-27T15:00:00.000Z',
         position: 0,
+        version: 1,
       };
 
       (mockStorage.getAll as any).mockResolvedValue([]);
       (mockStorage.create as any).mockResolvedValue(mockTodo);
 
-      const app = new Hono<{ Bindings: Env }>();
+      const app = new Hono<AppEnv>();
       app.post('/todos', (c) => createTodoHandler(c, mockStorage));
 
       const res = await app.request('/todos', {
@@ -179,12 +248,13 @@ describe('Todo Handlers', () => {
         completed: false,
         createdAt: '2025-10-27T15:00:00.000Z',
         position: 0,
+        version: 1,
       };
 
       (mockStorage.getAll as any).mockResolvedValue([]);
       (mockStorage.create as any).mockResolvedValue(mockTodo);
 
-      const app = new Hono<{ Bindings: Env }>();
+      const app = new Hono<AppEnv>();
       app.post('/todos', (c) => createTodoHandler(c, mockStorage));
 
       const res = await app.request('/todos', {
@@ -212,12 +282,13 @@ describe('Todo Handlers', () => {
         completed: false,
         createdAt: '2025-10-27T15:00:00.000Z',
         position: 0,
+        version: 1,
       };
 
       (mockStorage.getAll as any).mockResolvedValue([]);
       (mockStorage.create as any).mockResolvedValue(mockTodo);
 
-      const app = new Hono<{ Bindings: Env }>();
+      const app = new Hono<AppEnv>();
       app.post('/todos', (c) => createTodoHandler(c, mockStorage));
 
       await app.request('/todos', {
@@ -230,9 +301,96 @@ describe('Todo Handlers', () => {
         expect.objectContaining({
           title: 'Test Todo',
           completed: false,
+          priority: 'none',
         })
       );
     });
+
+    it('should default notes to an empty string', async () => {
+      (mockStorage.getAll as any).mockResolvedValue([]);
+      (mockStorage.create as any).mockImplementation(async (todo: Todo) => todo);
+
+      const app = new Hono<AppEnv>();
+      app.post('/todos', (c) => createTodoHandler(c, mockStorage));
+
+      const res = await app.request('/todos', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title: 'Write report' }),
+      });
+
+      expect(res.status).toBe(201);
+      expect(await res.json()).toHaveProperty('notes', '');
+    });
+
+    it('should normalize tags before storage.create', async () => {
+      (mockStorage.getAll as any).mockResolvedValue([]);
+      (mockStorage.create as any).mockImplementation(async (todo: Todo) => todo);
+
+      const app = new Hono<AppEnv>();
+      app.post('/todos', (c) => createTodoHandler(c, mockStorage));
+
+      const res = await app.request('/todos', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title: 'Write report', tags: [' Work', 'work', 'Urgent'] }),
+      });
+
+      expect(res.status).toBe(201);
+      expect(await res.json()).toHaveProperty('tags', ['work', 'urgent']);
+    });
+
+    it('should pass the requested priority to storage.create', async () => {
+      (mockStorage.getAll as any).mockResolvedValue([]);
+      (mockStorage.create as any).mockImplementation(async (todo: Todo) => todo);
+
+      const app = new Hono<AppEnv>();
+      app.post('/todos', (c) => createTodoHandler(c, mockStorage));
+
+      const res = await app.request('/todos', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title: 'Fix outage', priority: 'urgent' }),
+      });
+
+      expect(res.status).toBe(201);
+      expect(await res.json()).toHaveProperty('priority', 'urgent');
+    });
+
+    it('should pass dueAt and dueTimezone to storage.create', async () => {
+      (mockStorage.getAll as any).mockResolvedValue([]);
+      (mockStorage.create as any).mockImplementation(async (todo: Todo) => todo);
+
+      const app = new Hono<AppEnv>();
+      app.post('/todos', (c) => createTodoHandler(c, mockStorage));
+
+      const res = await app.request('/todos', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title: 'Pay rent', dueAt: '2025-11-01', dueTimezone: 'Asia/Tokyo' }),
+      });
+
+      expect(res.status).toBe(201);
+      expect(mockStorage.create).toHaveBeenCalledWith(
+        expect.objectContaining({ dueAt: '2025-11-01', dueTimezone: 'Asia/Tokyo' })
+      );
+    });
+
+    it('should reject an invalid dueAt', async () => {
+      const app = new Hono<AppEnv>();
+      app.post('/todos', (c) => createTodoHandler(c, mockStorage));
+
+      const res = await app.request('/todos', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title: 'Pay rent', dueAt: 'next friday' }),
+      });
+
+      expect(res.status).toBe(400);
+      const body = (await res.json()) as { error: { code: string; message: string } };
+      expect(body.error.code).toBe('VALIDATION_ERROR');
+      expect(mockStorage.create).not.toHaveBeenCalled();
+    });
   });
 
   describe('getTodosHandler()', () => {
@@ -245,6 +403,17 @@ describe('Todo Handlers', () => {
         getById: vi.fn(),
         update: vi.fn(),
         delete: vi.fn(),
+        trash: vi.fn(),
+        getTrash: vi.fn(),
+        restore: vi.fn(),
+        purge: vi.fn(),
+        clear: vi.fn(),
+        archive: vi.fn(),
+        getArchived: vi.fn(),
+        move: vi.fn(),
+        setOrder: vi.fn(),
+        moveToList: vi.fn(),
+        getLastModified: vi.fn(),
       };
     });
 
@@ -256,6 +425,7 @@ describe('Todo Handlers', () => {
           completed: false,
           createdAt: '2025-10-27T15:00:00.000Z',
           position: 0,
+          version: 1,
         },
         {
           id: '2',
@@ -263,12 +433,13 @@ describe('Todo Handlers', () => {
           completed: true,
           createdAt: '2025-10-27T15:01:00.000Z',
           position: 1,
+          version: 1,
         },
       ];
 
       (mockStorage.getAll as any).mockResolvedValue(mockTodos);
 
-      const app = new Hono<{ Bindings: Env }>();
+      const app = new Hono<AppEnv>();
       app.get('/todos', (c) => getTodosHandler(c, mockStorage));
 
       const res = await app.request('/todos');
@@ -288,7 +459,7 @@ describe('Todo Handlers', () => {
     it('should return empty array when no todos exist', async () => {
       (mockStorage.getAll as any).mockResolvedValue([]);
 
-      const app = new Hono<{ Bindings: Env }>();
+      const app = new Hono<AppEnv>();
       app.get('/todos', (c) => getTodosHandler(c, mockStorage));
 
       const res = await app.request('/todos');
@@ -297,6 +468,180 @@ describe('Todo Handlers', () => {
       const body = await res.json();
       expect(body).toEqual([]);
     });
+
+    it('should return validators and Cache-Control headers', async () => {
+      (mockStorage.getAll as any).mockResolvedValue([]);
+      (mockStorage.getLastModified as any).mockResolvedValue('2025-10-27T15:00:00.500Z');
+
+      const app = new Hono<AppEnv>();
+      app.get('/todos', (c) => getTodosHandler(c, mockStorage));
+
+      const res = await app.request('/todos');
+
+      expect(res.headers.get('ETag')).toMatch(/^"[0-9a-f]{32}"$/);
+      expect(res.headers.get('Last-Modified')).toBe('Mon, 27 Oct 2025 15:00:00 GMT');
+      expect(res.headers.get('Cache-Control')).toBe('private, no-cache');
+    });
+
+    it('should return 304 without a body when If-None-Match matches', async () => {
+      (mockStorage.getAll as any).mockResolvedValue([]);
+      (mockStorage.getLastModified as any).mockResolvedValue(null);
+
+      const app = new Hono<AppEnv>();
+      app.get('/todos', (c) => getTodosHandler(c, mockStorage));
+
+      const first = await app.request('/todos');
+      const etag = first.headers.get('ETag')!;
+      const res = await app.request('/todos', { headers: { 'If-None-Match': etag } });
+
+      expect(res.status).toBe(304);
+      expect(res.headers.get('ETag')).toBe(etag);
+      expect(res.headers.get('Last-Modified')).toBeNull();
+      expect(await res.text()).toBe('');
+    });
+
+    it('should filter, sort and paginate with query parameters', async () => {
+      const mockTodos: Todo[] = ['A', 'B', 'C'].map((title, position) => ({
+        id: `${position}`,
+        title,
+        completed: position !== 1,
+        createdAt: '2025-10-27T15:00:00.000Z',
+        position,
+        version: 1,
+      }));
+      (mockStorage.getAll as any).mockResolvedValue(mockTodos);
+
+      const app = new Hono<AppEnv>();
+      app.get('/todos', (c) => getTodosHandler(c, mockStorage));
+
+      const res = await app.request('/todos?completed=true&sort=title&order=desc&limit=1');
+
+      expect(res.status).toBe(200);
+      const body = (await res.json()) as { items: Todo[]; nextCursor: string; total: number };
+      expect(body.items.map((t) => t.title)).toEqual(['C']);
+      expect(body.total).toBe(2);
+
+      const next = await app.request(
+        `/todos?completed=true&sort=title&order=desc&cursor=${body.nextCursor}`
+      );
+      const nextBody = (await next.json()) as { items: Todo[]; nextCursor: string | null };
+      expect(nextBody.items.map((t) => t.title)).toEqual(['A']);
+      expect(nextBody.nextCursor).toBeNull();
+    });
+
+    it('should return 400 VALIDATION_ERROR for invalid query parameters', async () => {
+      const app = new Hono<AppEnv>();
+      app.get('/todos', (c) => getTodosHandler(c, mockStorage));
+
+      const res = await app.request('/todos?sort=rank');
+
+      expect(res.status).toBe(400);
+      const body = (await res.json()) as { error: { code: string; message: string } };
+      expect(body.error.code).toBe('VALIDATION_ERROR');
+      expect(mockStorage.getAll).not.toHaveBeenCalled();
+    });
+
+    it('should return 304 when not modified since If-Modified-Since', async () => {
+      (mockStorage.getAll as any).mockResolvedValue([]);
+      (mockStorage.getLastModified as any).mockResolvedValue('2025-10-27T15:00:00.500Z');
+
+      const app = new Hono<AppEnv>();
+      app.get('/todos', (c) => getTodosHandler(c, mockStorage));
+
+      const res = await app.request('/todos', {
+        headers: { 'If-Modified-Since': 'Mon, 27 Oct 2025 15:00:00 GMT' },
+      });
+
+      expect(res.status).toBe(304);
+    });
+
+    it('should return only the requested fields', async () => {
+      const mockTodos: Todo[] = [
+        {
+          id: '550e8400-e29b-41d4-a716-446655440000',
+          title: 'Todo 1',
+          completed: false,
+          createdAt: '2025-10-27T15:00:00.000Z',
+          position: 0,
+          version: 1,
+          notes: 'a'.repeat(10000),
+        },
+      ];
+      (mockStorage.getAll as any).mockResolvedValue(mockTodos);
+
+      const app = new Hono<AppEnv>();
+      app.get('/todos', (c) => getTodosHandler(c, mockStorage));
+
+      const res = await app.request('/todos?fields=id,title,version&limit=1');
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({
+        items: [{ id: '550e8400-e29b-41d4-a716-446655440000', title: 'Todo 1', version: 1 }],
+        nextCursor: null,
+        total: 1,
+      });
+    });
+
+    it('should reject unknown fields', async () => {
+      (mockStorage.getAll as any).mockResolvedValue([]);
+
+      const app = new Hono<AppEnv>();
+      app.get('/todos', (c) => getTodosHandler(c, mockStorage));
+
+      const res = await app.request('/todos?fields=id,secret');
+
+      expect(res.status).toBe(400);
+      const body = (await res.json()) as { error: { code: string } };
+      expect(body.error.code).toBe('VALIDATION_ERROR');
+    });
+
+    it('should filter by repeated tag parameters', async () => {
+      const mockTodos: Todo[] = [['work'], ['work', 'urgent'], []].map((tags, position) => ({
+        id: `${position}`,
+        title: `Todo ${position}`,
+        completed: false,
+        createdAt: '2025-10-27T15:00:00.000Z',
+        position,
+        version: 1,
+        tags,
+      }));
+      (mockStorage.getAll as any).mockResolvedValue(mockTodos);
+
+      const app = new Hono<AppEnv>();
+      app.get('/todos', (c) => getTodosHandler(c, mockStorage));
+
+      const any = await app.request('/todos?tag=Work&tag=urgent');
+      const all = await app.request('/todos?tag=work&tag=urgent&tagMatch=all');
+
+      expect(((await any.json()) as Todo[]).map((t) => t.id)).toEqual(['0', '1']);
+      expect(((await all.json()) as Todo[]).map((t) => t.id)).toEqual(['1']);
+    });
+
+    it('should filter overdue todos and omit Last-Modified', async () => {
+      const mockTodos: Todo[] = ['2000-01-01', '2999-01-01'].map((dueAt, position) => ({
+        id: `${position}`,
+        title: dueAt,
+        completed: false,
+        createdAt: '2025-10-27T15:00:00.000Z',
+        position,
+        version: 1,
+        dueAt,
+      }));
+      (mockStorage.getAll as any).mockResolvedValue(mockTodos);
+      (mockStorage.getLastModified as any).mockResolvedValue('2025-10-27T15:00:00.500Z');
+
+      const app = new Hono<AppEnv>();
+      app.get('/todos', (c) => getTodosHandler(c, mockStorage));
+
+      const res = await app.request('/todos?overdue=true');
+      const all = await app.request('/todos');
+
+      expect(res.status).toBe(200);
+      expect(((await res.json()) as Todo[]).map((t) => t.title)).toEqual(['2000-01-01']);
+      // 期限切れは時刻の経過で変わるため、最終更新日時では再検証できない
+      expect(res.headers.get('Last-Modified')).toBeNull();
+      expect(res.headers.get('ETag')).not.toBe(all.headers.get('ETag'));
+    });
   });
 
   describe('getTodoByIdHandler()', () => {
@@ -309,6 +654,17 @@ describe('Todo Handlers', () => {
         getById: vi.fn(),
         update: vi.fn(),
         delete: vi.fn(),
+        trash: vi.fn(),
+        getTrash: vi.fn(),
+        restore: vi.fn(),
+        purge: vi.fn(),
+        clear: vi.fn(),
+        archive: vi.fn(),
+        getArchived: vi.fn(),
+        move: vi.fn(),
+        setOrder: vi.fn(),
+        moveToList: vi.fn(),
+        getLastModified: vi.fn(),
       };
     });
 
@@ -319,16 +675,18 @@ describe('Todo Handlers', () => {
         completed: false,
         createdAt: '2025-10-27T15:00:00.000Z',
         position: 0,
+        version: 1,
       };
 
       (mockStorage.getById as any).mockResolvedValue(mockTodo);
 
-      const app = new Hono<{ Bindings: Env }>();
+      const app = new Hono<AppEnv>();
       app.get('/todos/:id', (c) => getTodoByIdHandler(c, mockStorage));
 
       const res = await app.request('/todos/550e8400-e29b-41d4-a716-446655440000');
 
       expect(res.status).toBe(200);
+      expect(res.headers.get('ETag')).toBe('"1"');
       const body = await res.json();
       expect(body).toHaveProperty('id', '550e8400-e29b-41d4-a716-446655440000');
       expect(body).toHaveProperty('title', 'Test Todo');
@@ -337,7 +695,7 @@ describe('Todo Handlers', () => {
     it('should return 404 when todo not found', async () => {
       (mockStorage.getById as any).mockResolvedValue(null);
 
-      const app = new Hono<{ Bindings: Env }>();
+      const app = new Hono<AppEnv>();
       app.get('/todos/:id', (c) => getTodoByIdHandler(c, mockStorage));
 
       const res = await app.request('/todos/550e8400-e29b-41d4-a716-446655440000');
@@ -348,7 +706,7 @@ describe('Todo Handlers', () => {
     });
 
     it('should reject invalid UUID', async () => {
-      const app = new Hono<{ Bindings: Env }>();
+      const app = new Hono<AppEnv>();
       app.get('/todos/:id', (c) => getTodoByIdHandler(c, mockStorage));
 
       const res = await app.request('/todos/invalid-id');
@@ -369,6 +727,17 @@ describe('Todo Handlers', () => {
         getById: vi.fn(),
         update: vi.fn(),
         delete: vi.fn(),
+        trash: vi.fn(),
+        getTrash: vi.fn(),
+        restore: vi.fn(),
+        purge: vi.fn(),
+        clear: vi.fn(),
+        archive: vi.fn(),
+        getArchived: vi.fn(),
+        move: vi.fn(),
+        setOrder: vi.fn(),
+        moveToList: vi.fn(),
+        getLastModified: vi.fn(),
       };
     });
 
@@ -379,11 +748,12 @@ describe('Todo Handlers', () => {
         completed: true,
         createdAt: '2025-10-27T15:00:00.000Z',
         position: 0,
+        version: 1,
       };
 
       (mockStorage.update as any).mockResolvedValue(updatedTodo);
 
-      const app = new Hono<{ Bindings: Env }>();
+      const app = new Hono<AppEnv>();
       app.put('/todos/:id', (c) => updateTodoHandler(c, mockStorage));
 
       const res = await app.request('/todos/550e8400-e29b-41d4-a716-446655440000', {
@@ -393,15 +763,271 @@ describe('Todo Handlers', () => {
       });
 
       expect(res.status).toBe(200);
+      expect(res.headers.get('ETag')).toBe('"1"');
       const body = await res.json();
       expect(body).toHaveProperty('title', 'Updated Title');
       expect(body).toHaveProperty('completed', true);
+      expect(mockStorage.update).toHaveBeenCalledWith(
+        '550e8400-e29b-41d4-a716-446655440000',
+        { title: 'Updated Title', completed: true },
+        undefined
+      );
+    });
+
+    it('should pass the If-Match version to storage', async () => {
+      (mockStorage.update as any).mockResolvedValue({
+        id: '550e8400-e29b-41d4-a716-446655440000',
+        title: 'Updated Title',
+        completed: false,
+        createdAt: '2025-10-27T15:00:00.000Z',
+        position: 0,
+        version: 4,
+      });
+
+      const app = new Hono<AppEnv>();
+      app.put('/todos/:id', (c) => updateTodoHandler(c, mockStorage));
+
+      const res = await app.request('/todos/550e8400-e29b-41d4-a716-446655440000', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', 'If-Match': '"3"' },
+        body: JSON.stringify({ title: 'Updated Title' }),
+      });
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get('ETag')).toBe('"4"');
+      expect(mockStorage.update).toHaveBeenCalledWith(
+        '550e8400-e29b-41d4-a716-446655440000',
+        { title: 'Updated Title' },
+        3
+      );
+    });
+
+    it('should clear the due time zone and recurrence together with dueAt', async () => {
+      (mockStorage.update as any).mockResolvedValue({
+        id: '550e8400-e29b-41d4-a716-446655440000',
+        title: 'Pay rent',
+        completed: false,
+        createdAt: '2025-10-27T15:00:00.000Z',
+        position: 0,
+        version: 2,
+      });
+
+      const app = new Hono<AppEnv>();
+      app.put('/todos/:id', (c) => updateTodoHandler(c, mockStorage));
+
+      const res = await app.request('/todos/550e8400-e29b-41d4-a716-446655440000', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ dueAt: null }),
+      });
+
+      expect(res.status).toBe(200);
+      expect(mockStorage.update).toHaveBeenCalledWith(
+        '550e8400-e29b-41d4-a716-446655440000',
+        { dueAt: null, dueTimezone: null, recurrence: null },
+        undefined
+      );
+    });
+
+    it('should update only the priority', async () => {
+      (mockStorage.update as any).mockResolvedValue({
+        id: '550e8400-e29b-41d4-a716-446655440000',
+        title: 'Fix outage',
+        completed: false,
+        createdAt: '2025-10-27T15:00:00.000Z',
+        position: 0,
+        version: 2,
+        priority: 'high',
+      });
+
+      const app = new Hono<AppEnv>();
+      app.put('/todos/:id', (c) => updateTodoHandler(c, mockStorage));
+
+      const res = await app.request('/todos/550e8400-e29b-41d4-a716-446655440000', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ priority: 'high' }),
+      });
+
+      expect(res.status).toBe(200);
+      expect(mockStorage.update).toHaveBeenCalledWith(
+        '550e8400-e29b-41d4-a716-446655440000',
+        { priority: 'high' },
+        undefined
+      );
+    });
+
+    it('should normalize tags before storage.update', async () => {
+      (mockStorage.update as any).mockResolvedValue({
+        id: '550e8400-e29b-41d4-a716-446655440000',
+        title: 'Write report',
+        completed: false,
+        createdAt: '2025-10-27T15:00:00.000Z',
+        position: 0,
+        version: 2,
+        tags: ['work'],
+      });
+
+      const app = new Hono<AppEnv>();
+      app.put('/todos/:id', (c) => updateTodoHandler(c, mockStorage));
+
+      const res = await app.request('/todos/550e8400-e29b-41d4-a716-446655440000', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tags: ['Work ', 'work'] }),
+      });
+
+      expect(res.status).toBe(200);
+      expect(mockStorage.update).toHaveBeenCalledWith(
+        '550e8400-e29b-41d4-a716-446655440000',
+        { tags: ['work'] },
+        undefined
+      );
+    });
+
+    it('should update notes alone', async () => {
+      (mockStorage.update as any).mockResolvedValue({
+        id: '550e8400-e29b-41d4-a716-446655440000',
+        title: 'Write report',
+        completed: false,
+        createdAt: '2025-10-27T15:00:00.000Z',
+        position: 0,
+        version: 2,
+        notes: '- outline\n- draft',
+      });
+
+      const app = new Hono<AppEnv>();
+      app.put('/todos/:id', (c) => updateTodoHandler(c, mockStorage));
+
+      const res = await app.request('/todos/550e8400-e29b-41d4-a716-446655440000', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ notes: '- outline\n- draft' }),
+      });
+
+      expect(res.status).toBe(200);
+      expect(mockStorage.update).toHaveBeenCalledWith(
+        '550e8400-e29b-41d4-a716-446655440000',
+        { notes: '- outline\n- draft' },
+        undefined
+      );
+    });
+
+    it('should reject notes exceeding the maximum length', async () => {
+      const app = new Hono<AppEnv>();
+      app.put('/todos/:id', (c) => updateTodoHandler(c, mockStorage));
+
+      const res = await app.request('/todos/550e8400-e29b-41d4-a716-446655440000', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ notes: 'a'.repeat(10001) }),
+      });
+
+      expect(res.status).toBe(400);
+      expect(mockStorage.update).not.toHaveBeenCalled();
+    });
+
+    it('should pass only updatable fields to storage.update', async () => {
+      (mockStorage.update as any).mockResolvedValue({
+        id: '550e8400-e29b-41d4-a716-446655440000',
+        title: 'Write report',
+        completed: false,
+        createdAt: '2025-10-27T15:00:00.000Z',
+        position: 0,
+        version: 2,
+        autoComplete: true,
+      });
+
+      const app = new Hono<AppEnv>();
+      app.put('/todos/:id', (c) => updateTodoHandler(c, mockStorage));
+
+      const res = await app.request('/todos/550e8400-e29b-41d4-a716-446655440000', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          autoComplete: true,
+          items: [{ id: 'x', text: 'unchecked', done: true }],
+          version: 99,
+        }),
+      });
+
+      expect(res.status).toBe(200);
+      expect(mockStorage.update).toHaveBeenCalledWith(
+        '550e8400-e29b-41d4-a716-446655440000',
+        { autoComplete: true },
+        undefined
+      );
+    });
+
+    it('should reject invalid tags', async () => {
+      const app = new Hono<AppEnv>();
+      app.put('/todos/:id', (c) => updateTodoHandler(c, mockStorage));
+
+      const res = await app.request('/todos/550e8400-e29b-41d4-a716-446655440000', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tags: 'work' }),
+      });
+
+      expect(res.status).toBe(400);
+      const body = (await res.json()) as { error: { code: string; message: string } };
+      expect(body.error.code).toBe('VALIDATION_ERROR');
+      expect(mockStorage.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject an invalid priority', async () => {
+      const app = new Hono<AppEnv>();
+      app.put('/todos/:id', (c) => updateTodoHandler(c, mockStorage));
+
+      const res = await app.request('/todos/550e8400-e29b-41d4-a716-446655440000', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ priority: 'critical' }),
+      });
+
+      expect(res.status).toBe(400);
+      const body = (await res.json()) as { error: { code: string; message: string } };
+      expect(body.error.code).toBe('VALIDATION_ERROR');
+      expect(mockStorage.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject an invalid dueTimezone', async () => {
+      const app = new Hono<AppEnv>();
+      app.put('/todos/:id', (c) => updateTodoHandler(c, mockStorage));
+
+      const res = await app.request('/todos/550e8400-e29b-41d4-a716-446655440000', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ dueTimezone: 'Nowhere/Special' }),
+      });
+
+      expect(res.status).toBe(400);
+      const body = (await res.json()) as { error: { code: string; message: string } };
+      expect(body.error.code).toBe('VALIDATION_ERROR');
+      expect(mockStorage.update).not.toHaveBeenCalled();
+    });
+
+    it('should return 412 PRECONDITION_FAILED when If-Match is stale', async () => {
+      (mockStorage.update as any).mockRejectedValue(new PreconditionFailedError(4));
+
+      const app = new Hono<AppEnv>();
+      app.put('/todos/:id', (c) => updateTodoHandler(c, mockStorage));
+
+      const res = await app.request('/todos/550e8400-e29b-41d4-a716-446655440000', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', 'If-Match': '"3"' },
+        body: JSON.stringify({ title: 'Updated Title' }),
+      });
+
+      expect(res.status).toBe(412);
+      const body = (await res.json()) as { error: { code: string; message: string } };
+      expect(body.error.code).toBe('PRECONDITION_FAILED');
     });
 
     it('should return 404 when todo not found', async () => {
       (mockStorage.update as any).mockResolvedValue(null);
 
-      const app = new Hono<{ Bindings: Env }>();
+      const app = new Hono<AppEnv>();
       app.put('/todos/:id', (c) => updateTodoHandler(c, mockStorage));
 
       const res = await app.request('/todos/550e8400-e29b-41d4-a716-446655440000', {
@@ -416,7 +1042,7 @@ describe('Todo Handlers', () => {
     });
 
     it('should reject empty update data', async () => {
-      const app = new Hono<{ Bindings: Env }>();
+      const app = new Hono<AppEnv>();
       app.put('/todos/:id', (c) => updateTodoHandler(c, mockStorage));
 
       const res = await app.request('/todos/550e8400-e29b-41d4-a716-446655440000', {
@@ -431,7 +1057,7 @@ describe('Todo Handlers', () => {
     });
 
     it('should reject invalid UUID', async () => {
-      const app = new Hono<{ Bindings: Env }>();
+      const app = new Hono<AppEnv>();
       app.put('/todos/:id', (c) => updateTodoHandler(c, mockStorage));
 
       const res = await app.request('/todos/invalid-id', {
@@ -452,17 +1078,42 @@ describe('Todo Handlers', () => {
     beforeEach(() => {
       mockStorage = {
         create: vi.fn(),
-        getAll: vi.fn(),
-        getById: vi.fn(),
+        getAll: vi.fn().mockResolvedValue([]),
+        getById: vi.fn().mockResolvedValue({
+          id: '550e8400-e29b-41d4-a716-446655440000',
+          title: 'Test Todo',
+          completed: false,
+          createdAt: '2025-10-27T15:00:00.000Z',
+          position: 0,
+          version: 1,
+        }),
         update: vi.fn(),
         delete: vi.fn(),
+        trash: vi.fn(),
+        getTrash: vi.fn().mockResolvedValue([]),
+        restore: vi.fn(),
+        purge: vi.fn(),
+        clear: vi.fn(),
+        archive: vi.fn(),
+        getArchived: vi.fn(),
+        move: vi.fn(),
+        setOrder: vi.fn(),
+        moveToList: vi.fn(),
+        getLastModified: vi.fn(),
       };
     });
 
-    it('should delete todo successfully', async () => {
-      (mockStorage.delete as any).mockResolvedValue(true);
+    it('should move the todo to the trash', async () => {
+      (mockStorage.trash as any).mockResolvedValue({
+        id: '550e8400-e29b-41d4-a716-446655440000',
+        title: 'Test Todo',
+        completed: false,
+        createdAt: '2025-10-27T15:00:00.000Z',
+        version: 1,
+        deletedAt: '2025-11-01T09:00:00.000Z',
+      });
 
-      const app = new Hono<{ Bindings: Env }>();
+      const app = new Hono<AppEnv>();
       app.delete('/todos/:id', (c) => deleteTodoHandler(c, mockStorage));
 
       const res = await app.request('/todos/550e8400-e29b-41d4-a716-446655440000', {
@@ -470,12 +1121,79 @@ describe('Todo Handlers', () => {
       });
 
       expect(res.status).toBe(204);
+      expect(mockStorage.trash).toHaveBeenCalledWith(
+        '550e8400-e29b-41d4-a716-446655440000',
+        expect.any(String),
+        undefined
+      );
+      expect(mockStorage.delete).not.toHaveBeenCalled();
+    });
+
+    it('should purge trashed todos past the retention period', async () => {
+      const now = Date.now();
+      (mockStorage.trash as any).mockResolvedValue({ id: '550e8400-e29b-41d4-a716-446655440000' });
+      (mockStorage.getTrash as any).mockResolvedValue([
+        {
+          id: '650e8400-e29b-41d4-a716-446655440001',
+          deletedAt: new Date(now - 8 * 24 * 60 * 60 * 1000).toISOString(),
+        },
+        {
+          id: '650e8400-e29b-41d4-a716-446655440002',
+          deletedAt: new Date(now - 6 * 24 * 60 * 60 * 1000).toISOString(),
+        },
+      ]);
+
+      const app = new Hono<AppEnv>();
+      app.delete('/todos/:id', (c) => deleteTodoHandler(c, mockStorage));
+
+      const res = await app.request(
+        '/todos/550e8400-e29b-41d4-a716-446655440000',
+        { method: 'DELETE' },
+        { TRASH_RETENTION_DAYS: '7' }
+      );
+
+      expect(res.status).toBe(204);
+      expect(mockStorage.purge).toHaveBeenCalledTimes(1);
+      expect(mockStorage.purge).toHaveBeenCalledWith('650e8400-e29b-41d4-a716-446655440001');
+    });
+
+    it('should return 500 without trashing when TRASH_RETENTION_DAYS is invalid', async () => {
+      const app = new Hono<AppEnv>();
+      app.delete('/todos/:id', (c) => deleteTodoHandler(c, mockStorage));
+
+      const res = await app.request(
+        '/todos/550e8400-e29b-41d4-a716-446655440000',
+        { method: 'DELETE' },
+        { TRASH_RETENTION_DAYS: 'forever' }
+      );
+
+      expect(res.status).toBe(500);
+      expect(mockStorage.trash).not.toHaveBeenCalled();
+    });
+
+    it('should return 412 PRECONDITION_FAILED when If-Match is stale', async () => {
+      (mockStorage.trash as any).mockRejectedValue(new PreconditionFailedError(2));
+
+      const app = new Hono<AppEnv>();
+      app.delete('/todos/:id', (c) => deleteTodoHandler(c, mockStorage));
+
+      const res = await app.request('/todos/550e8400-e29b-41d4-a716-446655440000', {
+        method: 'DELETE',
+        headers: { 'If-Match': '"1"' },
+      });
+
+      expect(res.status).toBe(412);
+      expect(mockStorage.trash).toHaveBeenCalledWith(
+        '550e8400-e29b-41d4-a716-446655440000',
+        expect.any(String),
+        1
+      );
     });
 
     it('should return 404 when todo not found', async () => {
-      (mockStorage.delete as any).mockResolvedValue(false);
+      (mockStorage.trash as any).mockResolvedValue(null);
 
-      const app = new Hono<{ Bindings: Env }>();
+      const app = new Hono<AppEnv>();
       app.delete('/todos/:id', (c) => deleteTodoHandler(c, mockStorage));
 
       const res = await app.request('/todos/550e8400-e29b-41d4-a716-446655440000', {
@@ -488,7 +1206,7 @@ describe('Todo Handlers', () => {
     });
 
     it('should reject invalid UUID', async () => {
-      const app = new Hono<{ Bindings: Env }>();
+      const app = new Hono<AppEnv>();
       app.delete('/todos/:id', (c) => deleteTodoHandler(c, mockStorage));
 
       const res = await app.request('/todos/invalid-id', {
@@ -499,5 +1217,310 @@ describe('Todo Handlers', () => {
       const body = (await res.json()) as { error: { code: string; message: string } };
       expect(body.error.code).toBe('VALIDATION_ERROR');
     });
+
+    it('should return 404 without deleting when todo not found', async () => {
+      (mockStorage.getById as any).mockResolvedValue(null);
+
+      const app = new Hono<AppEnv>();
+      app.delete('/todos/:id', (c) => deleteTodoHandler(c, mockStorage));
+
+      const res = await app.request('/todos/550e8400-e29b-41d4-a716-446655440000', {
+        method: 'DELETE',
+      });
+
+      expect(res.status).toBe(404);
+      expect(mockStorage.trash).not.toHaveBeenCalled();
+    });
+
+    it('should reject an invalid children mode', async () => {
+      const app = new Hono<AppEnv>();
+      app.delete('/todos/:id', (c) => deleteTodoHandler(c, mockStorage));
+
+      const res = await app.request('/todos/550e8400-e29b-41d4-a716-446655440000?children=orphan', {
+        method: 'DELETE',
+      });
+
+      expect(res.status).toBe(400);
+      const body = (await res.json()) as { error: { code: string; message: string } };
+      expect(body.error.message).toBe(VALIDATION_ERRORS.CHILDREN_MODE_INVALID);
+      expect(mockStorage.trash).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('hierarchy (parentId)', () => {
+    let storage: InMemoryStorage;
+    let app: Hono<AppEnv>;
+
+    const create = async (title: string, parentId?: string) => {
+      const res = await app.request('/todos', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title, parentId }),
+      });
+      return { status: res.status, body: (await res.json()) as any };
+    };
+
+    const update = async (id: string, body: Record<string, unknown>) => {
+      const res = await app.request(`/todos/${id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      return { status: res.status, body: (await res.json()) as any };
+    };
+
+    beforeEach(() => {
+      storage = new InMemoryStorage();
+      app = new Hono<AppEnv>();
+      app.post('/todos', (c) => createTodoHandler(c, storage));
+      app.get('/todos', (c) => getTodosHandler(c, storage));
+      app.get('/todos/:id/tree', (c) => getTodoTreeHandler(c, storage));
+      app.put('/todos/:id', (c) => updateTodoHandler(c, storage));
+      app.delete('/todos/:id', (c) => deleteTodoHandler(c, storage));
+    });
+
+    it('should create children with positions scoped to the parent', async () => {
+      const parent = (await create('Parent')).body;
+      const sibling = (await create('Sibling')).body;
+      const first = (await create('First child', parent.id)).body;
+      const second = (await create('Second child', parent.id)).body;
+
+      expect(sibling.position).toBe(1);
+      expect(first).toMatchObject({ parentId: parent.id, position: 0 });
+      expect(second).toMatchObject({ parentId: parent.id, position: 1 });
+      expect(parent.parentId).toBeUndefined();
+    });
+
+    it('should reject an unknown parent, an invalid parentId and too deep nesting', async () => {
+      expect(
+        (await create('Orphan', '650e8400-e29b-41d4-a716-446655440001')).body.error.message
+      ).toBe(VALIDATION_ERRORS.PARENT_NOT_FOUND);
+      expect((await create('Invalid', 'not-a-uuid')).body.error.message).toBe(
+        VALIDATION_ERRORS.PARENT_ID_INVALID
+      );
+
+      let parentId: string | undefined;
+      for (let depth = 1; depth <= TODO_CONSTRAINTS.MAX_DEPTH; depth++) {
+        const created = await create(`Level ${depth}`, parentId);
+        expect(created.status).toBe(201);
+        parentId = created.body.id;
+      }
+      const tooDeep = await create('Too deep', parentId);
+      expect(tooDeep.status).toBe(400);
+      expect(tooDeep.body.error.message).toBe(VALIDATION_ERRORS.DEPTH_EXCEEDED);
+    });
+
+    it('should reject moving a todo under itself or a descendant', async () => {
+      const parent = (await create('Parent')).body;
+      const child = (await create('Child', parent.id)).body;
+
+      const self = await update(parent.id, { parentId: parent.id });
+      const descendant = await update(parent.id, { parentId: child.id });
+
+      expect(self.status).toBe(400);
+      expect(self.body.error.message).toBe(VALIDATION_ERRORS.PARENT_CYCLE);
+      expect(descendant.status).toBe(400);
+      expect(descendant.body.error.message).toBe(VALIDATION_ERRORS.PARENT_CYCLE);
+    });
+
+    it('should move a reparented todo to the end of its new siblings', async () => {
+      const moved = (await create('Moved')).body;
+      const parent = (await create('Parent')).body;
+      await create('Existing child', parent.id);
+
+      const res = await update(moved.id, { parentId: parent.id });
+      expect(res.status).toBe(200);
+      expect(res.body).toMatchObject({ parentId: parent.id, position: 1, version: 2 });
+
+      const root = await update(moved.id, { parentId: null });
+      expect(root.body.parentId).toBeUndefined();
+      expect(root.body.position).toBe(1);
+    });
+
+    it('should filter by parent and return a subtree', async () => {
+      const parent = (await create('Parent')).body;
+      const child = (await create('Child', parent.id)).body;
+      const grandchild = (await create('Grandchild', child.id)).body;
+      await create('Other root');
+
+      const children = await (await app.request(`/todos?parent=${parent.id}`)).json();
+      const roots = (await (await app.request('/todos?parent=root')).json()) as Todo[];
+      expect(children).toEqual([expect.objectContaining({ id: child.id })]);
+      expect(roots.map((todo) => todo.title)).toEqual(['Parent', 'Other root']);
+
+      const tree = await app.request(`/todos/${parent.id}/tree`);
+      expect(tree.status).toBe(200);
+      expect(await tree.json()).toMatchObject({
+        id: parent.id,
+        children: [{ id: child.id, children: [{ id: grandchild.id, children: [] }] }],
+      });
+      expect((await app.request('/todos/650e8400-e29b-41d4-a716-446655440001/tree')).status).toBe(
+        404
+      );
+    });
+
+    it('should reparent children to the deleted todo parent by default', async () => {
+      const root = (await create('Root')).body;
+      const parent = (await create('Parent', root.id)).body;
+      const child = (await create('Child', parent.id)).body;
+
+      const res = await app.request(`/todos/${parent.id}`, { method: 'DELETE' });
+
+      expect(res.status).toBe(204);
+      expect(await storage.getById(child.id)).toMatchObject({ parentId: root.id, position: 0 });
+    });
+
+    it('should trash all descendants with children=cascade', async () => {
+      const parent = (await create('Parent')).body;
+      const child = (await create('Child', parent.id)).body;
+      const grandchild = (await create('Grandchild', child.id)).body;
+      const other = (await create('Other')).body;
+
+      const res = await app.request(`/todos/${parent.id}?children=cascade`, { method: 'DELETE' });
+
+      expect(res.status).toBe(204);
+      expect((await storage.getAll()).map((todo) => todo.id)).toEqual([other.id]);
+      const trash = await storage.getTrash();
+      expect(trash.map((todo) => todo.id).sort()).toEqual(
+        [parent.id, child.id, grandchild.id].sort()
+      );
+      expect(new Set(trash.map((todo) => todo.deletedAt)).size).toBe(1);
+    });
+  });
+
+  describe('recurrence', () => {
+    let storage: InMemoryStorage;
+    let app: Hono<AppEnv>;
+
+    const create = async (body: Record<string, unknown>) => {
+      const res = await app.request('/todos', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      return { status: res.status, body: (await res.json()) as any };
+    };
+
+    const update = (id: string, body: Record<string, unknown>, env?: Record<string, string>) =>
+      app.request(
+        `/todos/${id}`,
+        {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        },
+        env
+      );
+
+    beforeEach(() => {
+      storage = new InMemoryStorage();
+      app = new Hono<AppEnv>();
+      app.post('/todos', (c) => createTodoHandler(c, storage));
+      app.put('/todos/:id', (c) => updateTodoHandler(c, storage));
+    });
+
+    it('should store a canonical rule and reject a rule without dueAt', async () => {
+      const created = await create({
+        title: 'Take out the trash',
+        dueAt: '2025-11-03',
+        recurrence: 'RRULE:byday=th,mo;freq=weekly',
+      });
+      expect(created.status).toBe(201);
+      expect(created.body.recurrence).toBe('FREQ=WEEKLY;BYDAY=MO,TH');
+
+      const withoutDue = await create({ title: 'Water plants', recurrence: 'FREQ=DAILY' });
+      expect(withoutDue.status).toBe(400);
+      expect(withoutDue.body.error.message).toBe(VALIDATION_ERRORS.RECURRENCE_REQUIRES_DUE);
+
+      const plain = (await create({ title: 'Call mom' })).body;
+      const res = await update(plain.id, { recurrence: 'FREQ=DAILY' });
+      expect(res.status).toBe(400);
+      expect(((await res.json()) as any).error.message).toBe(
+        VALIDATION_ERRORS.RECURRENCE_REQUIRES_DUE
+      );
+      expect((await update(plain.id, { recurrence: 'FREQ=HOURLY' })).status).toBe(400);
+    });
+
+    it('should spawn the next occurrence when completing a recurring todo', async () => {
+      const chore = (
+        await create({
+          title: 'Take out the trash',
+          dueAt: '2025-11-03T08:00:00+09:00',
+          dueTimezone: 'Asia/Tokyo',
+          priority: 'high',
+          tags: ['home'],
+          notes: 'Burnable on Monday',
+          recurrence: 'FREQ=WEEKLY;BYDAY=MO,TH;COUNT=3',
+        })
+      ).body;
+
+      const res = await update(chore.id, { completed: true });
+
+      expect(res.status).toBe(200);
+      const completed = await res.json();
+      expect(completed).toMatchObject({ completed: true, version: 2 });
+      expect(completed).not.toHaveProperty('recurrence');
+
+      const todos = await storage.getAll();
+      expect(todos).toHaveLength(2);
+      const next = todos[1]!;
+      expect(res.headers.get('Link')).toBe(`</todos/${next.id}>; rel="next"`);
+      expect(next).toMatchObject({
+        title: 'Take out the trash',
+        completed: false,
+        position: 1,
+        version: 1,
+        dueAt: '2025-11-06T08:00:00+09:00',
+        dueTimezone: 'Asia/Tokyo',
+        priority: 'high',
+        tags: ['home'],
+        notes: 'Burnable on Monday',
+        recurrence: 'FREQ=WEEKLY;BYDAY=MO,TH;COUNT=2',
+      });
+
+      // 完了したTodoは繰り返しを持たないため、再度完了にしても次の回は作成されない
+      await update(chore.id, { completed: false });
+      expect((await update(chore.id, { completed: true })).headers.get('Link')).toBeNull();
+      expect(await storage.getAll()).toHaveLength(2);
+    });
+
+    it('should reset the checklist of the next occurrence', async () => {
+      const chore = (
+        await create({ title: 'Clean', dueAt: '2025-11-03', recurrence: 'FREQ=DAILY' })
+      ).body;
+      await storage.update(chore.id, { items: [{ id: 'item-1', text: 'Kitchen', done: true }] });
+
+      await update(chore.id, { completed: true });
+
+      const next = (await storage.getAll())[1]!;
+      expect(next.items).toEqual([{ id: expect.any(String), text: 'Kitchen', done: false }]);
+      expect(next.items?.[0]?.id).not.toBe('item-1');
+    });
+
+    it('should not spawn after the last occurrence', async () => {
+      const chore = (
+        await create({ title: 'Last one', dueAt: '2025-11-03', recurrence: 'FREQ=DAILY;COUNT=1' })
+      ).body;
+
+      const res = await update(chore.id, { completed: true });
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get('Link')).toBeNull();
+      expect(await storage.getAll()).toHaveLength(1);
+    });
+
+    it('should keep the todo open when the next occurrence would exceed MAX_TODOS', async () => {
+      const chore = (
+        await create({ title: 'Chore', dueAt: '2025-11-03', recurrence: 'FREQ=DAILY' })
+      ).body;
+
+      const res = await update(chore.id, { completed: true }, { MAX_TODOS: '1' });
+
+      expect(res.status).toBe(400);
+      expect(await storage.getById(chore.id)).toMatchObject({
+        completed: false,
+        recurrence: 'FREQ=DAILY',
+      });
+    });
   });
 });
@@ -0,0 +1,213 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { Hono } from 'hono';
+import {
+  getTrashHandler,
+  restoreTrashHandler,
+  purgeTrashHandler,
+} from '../../../src/handlers/trash';
+import { deleteTodoHandler } from '../../../src/handlers/todos';
+import { InMemoryStorage } from '../../../src/storage/memory';
+import { VALIDATION_ERRORS } from '../../../src/utils/validation';
+import type { Todo, TrashedTodo } from '../../../src/models/todo';
+import type { AppEnv } from '../../../src/models/env';
+import { makeTodo, createApp } from './fixtures';
+
+const routes = {
+  'DELETE /todos/:id': deleteTodoHandler,
+  'GET /trash': getTrashHandler,
+  'POST /trash/:id/restore': restoreTrashHandler,
+  'DELETE /trash/:id': purgeTrashHandler,
+};
+
+describe('Trash Handlers', () => {
+  let todos: Todo[];
+  let storage: InMemoryStorage;
+  let app: Hono<AppEnv>;
+
+  beforeEach(() => {
+    todos = [makeTodo(0), makeTodo(1), makeTodo(2)];
+    storage = new InMemoryStorage(todos);
+    app = createApp(storage, routes);
+  });
+
+  const remove = (id: string) => app.request(`/todos/${id}`, { method: 'DELETE' });
+  const restore = (id: string, query = '', env?: Record<string, string>) =>
+    app.request(`/trash/${id}/restore${query}`, { method: 'POST' }, env);
+
+  describe('getTrashHandler()', () => {
+    it('should list deleted todos with deletedAt', async () => {
+      await remove(todos[1]!.id);
+
+      const res = await app.request('/trash');
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual([
+        {
+          id: todos[1]!.id,
+          title: 'T1',
+          completed: false,
+          createdAt: '2025-10-27T15:00:00.000Z',
+          version: 1,
+          deletedAt: expect.any(String),
+        },
+      ]);
+      expect((await storage.getAll()).map((todo) => todo.title)).toEqual(['T0', 'T2']);
+    });
+
+    it('should purge todos past the retention period', async () => {
+      await storage.trash(todos[0]!.id, '2025-01-01T00:00:00.000Z');
+      await remove(todos[1]!.id);
+
+      const res = await app.request('/trash', {}, { TRASH_RETENTION_DAYS: '30' });
+
+      expect(((await res.json()) as TrashedTodo[]).map((todo) => todo.id)).toEqual([todos[1]!.id]);
+      expect(await storage.getTrash()).toHaveLength(1);
+    });
+
+    it('should return 500 when TRASH_RETENTION_DAYS is invalid', async () => {
+      const res = await app.request('/trash', {}, { TRASH_RETENTION_DAYS: '0' });
+
+      expect(res.status).toBe(500);
+    });
+  });
+
+  describe('restoreTrashHandler()', () => {
+    it('should restore a todo to its original position by default', async () => {
+      await remove(todos[1]!.id);
+
+      const res = await restore(todos[1]!.id);
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get('ETag')).toBe('"1"');
+      expect(await res.json()).toMatchObject({ id: todos[1]!.id, position: 1 });
+      expect((await storage.getAll()).map((todo) => todo.title)).toEqual(['T0', 'T1', 'T2']);
+      expect(await storage.getTrash()).toEqual([]);
+    });
+
+    it('should restore a todo to the end with position=last', async () => {
+      await remove(todos[0]!.id);
+
+      const res = await restore(todos[0]!.id, '?position=last');
+
+      expect(await res.json()).toMatchObject({ position: 2 });
+      expect((await storage.getAll()).map((todo) => todo.title)).toEqual(['T1', 'T2', 'T0']);
+    });
+
+    it('should restore a child to the end of the roots when its parent is in the trash', async () => {
+      const child = makeTodo(0, { parentId: todos[0]!.id });
+      storage = new InMemoryStorage([...todos, child]);
+      app = createApp(storage, routes);
+      await app.request(`/todos/${todos[0]!.id}?children=cascade`, { method: 'DELETE' });
+
+      const res = await restore(child.id);
+
+      const body = (await res.json()) as Todo;
+      expect(body.parentId).toBeUndefined();
+      expect(body.position).toBe(2);
+    });
+
+    it('should restore the descendants deleted in cascade mode with their parent', async () => {
+      const child = makeTodo(0, { parentId: todos[0]!.id });
+      const grandchild = makeTodo(0, { parentId: child.id });
+      const sibling = makeTodo(1, { parentId: todos[0]!.id });
+      storage = new InMemoryStorage([...todos, child, sibling, grandchild]);
+      app = createApp(storage, routes);
+      await app.request(`/todos/${sibling.id}`, { method: 'DELETE' });
+      await app.request(`/todos/${todos[0]!.id}?children=cascade`, { method: 'DELETE' });
+
+      const res = await restore(todos[0]!.id);
+
+      expect(res.status).toBe(200);
+      const restored = await storage.getAll();
+      expect(restored.map((todo) => [todo.id, todo.parentId ?? null, todo.position])).toEqual([
+        [todos[0]!.id, null, 0],
+        [child.id, todos[0]!.id, 0],
+        [grandchild.id, child.id, 0],
+        [todos[1]!.id, null, 1],
+        [todos[2]!.id, null, 2],
+      ]);
+      // 先に個別に削除した子はゴミ箱に残り、親の下に戻せる
+      expect((await storage.getTrash()).map((todo) => todo.id)).toEqual([sibling.id]);
+      expect(await (await restore(sibling.id)).json()).toMatchObject({
+        parentId: todos[0]!.id,
+        position: 1,
+      });
+    });
+
+    it('should count the cascaded descendants against the todo limit', async () => {
+      const child = makeTodo(0, { parentId: todos[0]!.id });
+      storage = new InMemoryStorage([...todos, child]);
+      app = createApp(storage, routes);
+      await app.request(`/todos/${todos[0]!.id}?children=cascade`, { method: 'DELETE' });
+
+      const res = await restore(todos[0]!.id, '', { MAX_TODOS: '3' });
+
+      expect(res.status).toBe(400);
+      expect(await storage.getTrash()).toHaveLength(2);
+    });
+
+    it('should keep the parent when it is in the list', async () => {
+      const child = makeTodo(0, { parentId: todos[0]!.id });
+      storage = new InMemoryStorage([...todos, child]);
+      app = createApp(storage, routes);
+      await remove(child.id);
+
+      expect(await (await restore(child.id)).json()).toMatchObject({
+        parentId: todos[0]!.id,
+        position: 0,
+      });
+    });
+
+    it('should return 400 when the todo limit is reached', async () => {
+      await remove(todos[0]!.id);
+
+      const res = await restore(todos[0]!.id, '', { MAX_TODOS: '2' });
+
+      expect(res.status).toBe(400);
+      expect(await res.json()).toMatchObject({ error: { code: 'TODO_LIMIT_REACHED' } });
+      expect(await storage.getTrash()).toHaveLength(1);
+    });
+
+    it('should reject an invalid position and an invalid ID', async () => {
+      const invalidPosition = await restore(todos[0]!.id, '?position=first');
+      expect(invalidPosition.status).toBe(400);
+      expect(await invalidPosition.json()).toMatchObject({
+        error: { message: VALIDATION_ERRORS.RESTORE_POSITION_INVALID },
+      });
+
+      expect((await restore('invalid-id')).status).toBe(400);
+    });
+
+    it('should return 404 for a todo that is not in the trash', async () => {
+      const res = await restore(todos[0]!.id);
+
+      expect(res.status).toBe(404);
+      expect(await res.json()).toMatchObject({ error: { code: 'NOT_FOUND' } });
+    });
+  });
+
+  describe('purgeTrashHandler()', () => {
+    it('should permanently delete a trashed todo', async () => {
+      await remove(todos[0]!.id);
+
+      const res = await app.request(`/trash/${todos[0]!.id}`, { method: 'DELETE' });
+
+      expect(res.status).toBe(204);
+      expect(await storage.getTrash()).toEqual([]);
+      expect((await restore(todos[0]!.id)).status).toBe(404);
+    });
+
+    it('should return 404 for a todo that is not in the trash', async () => {
+      const res = await app.request(`/trash/${todos[0]!.id}`, { method: 'DELETE' });
+
+      expect(res.status).toBe(404);
+      expect(await storage.getById(todos[0]!.id)).not.toBeNull();
+    });
+
+    it('should reject an invalid ID', async () => {
+      const res = await app.request('/trash/invalid-id', { method: 'DELETE' });
+
+      expect(res.status).toBe(400);
+    });
+  });
+});
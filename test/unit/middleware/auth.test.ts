@@ -1,7 +1,11 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { env } from 'cloudflare:test';
 import { Hono } from 'hono';
-import { apiKeyAuth } from '../../../src/middleware/auth';
-import { Env } from '../../../src/models/env';
+import { apiKeyAuth, requireScope } from '../../../src/middleware/auth';
+import type { Env, AppEnv } from '../../../src/models/env';
+import { KVApiKeyStorage } from '../../../src/storage/apiKeys';
+import { hashApiKey } from '../../../src/utils/apiKeys';
+import type { ApiKeyRecord } from '../../../src/models/apiKey';
 
 describe('Authentication Middleware', () => {
   describe('apiKeyAuth()', () => {
@@ -219,5 +223,217 @@ describe('Authentication Middleware', () => {
       expect(body.error.code).toBe('UNAUTHORIZED');
       expect(typeof body.error.message).toBe('string');
     });
+
+    it('should set the tenant of the API key', async () => {
+      const app = new Hono<AppEnv>();
+
+      app.use('*', async (c, next) => {
+        c.env = {
+          VALID_API_KEYS: 'key1, team-a:key2, team-b:key3',
+        } as Env;
+        await next();
+      });
+
+      app.use('*', apiKeyAuth);
+      app.get('/test', (c) => c.json({ tenantId: c.get('tenantId') }));
+
+      const tenantOf = async (key: string) =>
+        (
+          (await (await app.request('/test', { headers: { 'X-API-Key': key } })).json()) as {
+            tenantId: string;
+          }
+        ).tenantId;
+
+      expect(await tenantOf('key1')).toBe('default');
+      expect(await tenantOf('key2')).toBe('team-a');
+      expect(await tenantOf('key3')).toBe('team-b');
+    });
+
+    it('should not accept the tenant prefix as part of the API key', async () => {
+      const app = new Hono<AppEnv>();
+
+      app.use('*', async (c, next) => {
+        c.env = {
+          VALID_API_KEYS: 'team-a:key2',
+        } as Env;
+        await next();
+      });
+
+      app.use('*', apiKeyAuth);
+      app.get('/test', (c) => c.json({ success: true }));
+
+      const res = await app.request('/test', {
+        headers: {
+          'X-API-Key': 'team-a:key2',
+        },
+      });
+
+      expect(res.status).toBe(401);
+    });
+  });
+
+  describe('requireScope()', () => {
+    const config = JSON.stringify([
+      { key: 'read-key', scopes: ['todos:read'] },
+      { key: 'admin-key', scopes: ['admin'] },
+    ]);
+
+    function createApp() {
+      const app = new Hono<AppEnv>();
+
+      app.use('*', async (c, next) => {
+        c.env = {
+          VALID_API_KEYS: config,
+        } as Env;
+        await next();
+      });
+
+      app.use('*', apiKeyAuth);
+      app.get('/test', requireScope('todos:read'), (c) => c.json({ success: true }));
+      app.post('/test', requireScope('todos:write'), (c) => c.json({ success: true }));
+      return app;
+    }
+
+    it('should allow a request with the required scope', async () => {
+      const res = await createApp().request('/test', { headers: { 'X-API-Key': 'read-key' } });
+
+      expect(res.status).toBe(200);
+    });
+
+    it('should return 403 FORBIDDEN without the required scope', async () => {
+      const res = await createApp().request('/test', {
+        method: 'POST',
+        headers: { 'X-API-Key': 'read-key' },
+      });
+
+      expect(res.status).toBe(403);
+      const body = (await res.json()) as { error: { code: string; message: string } };
+      expect(body.error.code).toBe('FORBIDDEN');
+      expect(body.error.message).toContain('todos:write');
+    });
+
+    it('should allow every route to an admin key', async () => {
+      const app = createApp();
+
+      for (const method of ['GET', 'POST']) {
+        const res = await app.request('/test', { method, headers: { 'X-API-Key': 'admin-key' } });
+        expect(res.status).toBe(200);
+      }
+    });
+
+    it('should return 403 when no scopes were set', async () => {
+      const app = new Hono<AppEnv>();
+      app.get('/test', requireScope('todos:read'), (c) => c.json({ success: true }));
+
+      expect((await app.request('/test')).status).toBe(403);
+    });
+  });
+
+  describe('apiKeyAuth() with issued API keys', () => {
+    const record: ApiKeyRecord = {
+      id: crypto.randomUUID(),
+      name: 'Bot',
+      tenantId: 'team-a',
+      scopes: ['todos:read'],
+      createdAt: '2025-11-01T00:00:00.000Z',
+    };
+
+    beforeEach(async () => {
+      const listed = await env.TODO_KV.list();
+      await Promise.all(listed.keys.map((key) => env.TODO_KV.delete(key.name)));
+      await new KVApiKeyStorage(env.TODO_KV).put(await hashApiKey('issued-key'), record);
+    });
+
+    function createApp(validKeys = 'key1') {
+      const app = new Hono<AppEnv>();
+
+      app.use('*', async (c, next) => {
+        c.env = {
+          VALID_API_KEYS: validKeys,
+          TODO_KV: env.TODO_KV,
+        } as Env;
+        await next();
+      });
+
+      app.use('*', apiKeyAuth);
+      app.get('/test', (c) => c.json({ tenantId: c.get('tenantId'), scopes: c.get('scopes') }));
+      return app;
+    }
+
+    it('should authenticate an issued key by its hash and set its tenant and scopes', async () => {
+      const res = await createApp().request('/test', { headers: { 'X-API-Key': 'issued-key' } });
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({ tenantId: 'team-a', scopes: ['todos:read'] });
+    });
+
+    it('should authenticate issued keys when VALID_API_KEYS is empty', async () => {
+      const res = await createApp('').request('/test', { headers: { 'X-API-Key': 'issued-key' } });
+
+      expect(res.status).toBe(200);
+    });
+
+    it('should update lastUsedAt of the issued key', async () => {
+      await createApp().request('/test', { headers: { 'X-API-Key': 'issued-key' } });
+
+      const stored = await new KVApiKeyStorage(env.TODO_KV).findByHash(
+        await hashApiKey('issued-key')
+      );
+      expect(stored?.lastUsedAt).toEqual(expect.any(String));
+    });
+
+    it('should reject an unknown key', async () => {
+      const res = await createApp().request('/test', { headers: { 'X-API-Key': 'unknown-key' } });
+
+      expect(res.status).toBe(401);
+    });
+
+    it('should reject an expired issued key without updating lastUsedAt', async () => {
+      const keys = new KVApiKeyStorage(env.TODO_KV);
+      const hash = await hashApiKey('expired-key');
+      const expired = { ...record, expiresAt: '2025-11-02T00:00:00.000Z' };
+      await keys.put(hash, expired);
+
+      const res = await createApp().request('/test', { headers: { 'X-API-Key': 'expired-key' } });
+
+      expect(res.status).toBe(401);
+      const body = (await res.json()) as { error: { message: string } };
+      expect(body.error.message).toContain('expired');
+      expect(await keys.findByHash(hash)).toEqual(expired);
+    });
+
+    it('should reject an expired key of VALID_API_KEYS', async () => {
+      const config = JSON.stringify([
+        { key: 'old-key', scopes: ['todos:read'], expiresAt: '2025-11-02T00:00:00Z' },
+      ]);
+
+      const res = await createApp(config).request('/test', {
+        headers: { 'X-API-Key': 'old-key' },
+      });
+
+      expect(res.status).toBe(401);
+    });
+
+    it('should set X-API-Key-Expires-In only for a key expiring soon', async () => {
+      const keys = new KVApiKeyStorage(env.TODO_KV);
+      const soon = new Date(Date.now() + 2 * 24 * 60 * 60 * 1000).toISOString();
+      await keys.put(await hashApiKey('expiring-key'), { ...record, expiresAt: soon });
+      const later = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString();
+      await keys.put(await hashApiKey('later-key'), { ...record, expiresAt: later });
+
+      const expiring = await createApp().request('/test', {
+        headers: { 'X-API-Key': 'expiring-key' },
+      });
+      const laterRes = await createApp().request('/test', {
+        headers: { 'X-API-Key': 'later-key' },
+      });
+
+      expect(expiring.status).toBe(200);
+      const seconds = Number(expiring.headers.get('X-API-Key-Expires-In'));
+      expect(seconds).toBeGreaterThan(2 * 24 * 60 * 60 - 60);
+      expect(seconds).toBeLessThanOrEqual(2 * 24 * 60 * 60);
+      expect(laterRes.status).toBe(200);
+      expect(laterRes.headers.get('X-API-Key-Expires-In')).toBeNull();
+    });
   });
 });
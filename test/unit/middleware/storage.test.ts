@@ -0,0 +1,107 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Hono } from 'hono';
+import { storageMiddleware } from '../../../src/middleware/storage';
+import { InMemoryStorage } from '../../../src/storage/memory';
+import { createListStorage, createStorage } from '../../../src/storage/factory';
+import type { AppEnv, Env } from '../../../src/models/env';
+
+const memoryEnv: Env = {
+  TODO_KV: {} as KVNamespace,
+  VALID_API_KEYS: 'test-api-key',
+  STORAGE_BACKEND: 'memory',
+};
+
+function createApp() {
+  const app = new Hono<AppEnv>();
+  app.use('/todos', storageMiddleware);
+  app.get('/todos', (c) => {
+    const storage = c.get('storage');
+    return c.json({ memory: storage instanceof InMemoryStorage });
+  });
+  app.use('/lists/:listId/todos', storageMiddleware);
+  app.get('/lists/:listId/todos', (c) =>
+    c.json({ same: c.get('storage') === c.get('storageFor')(c.req.param('listId')) })
+  );
+  return app;
+}
+
+describe('Storage Middleware', () => {
+  it('should set the configured storage on the context', async () => {
+    const res = await createApp().request('/todos', {}, {
+      TODO_KV: {} as KVNamespace,
+      VALID_API_KEYS: 'test-api-key',
+      STORAGE_BACKEND: 'memory',
+    } satisfies Env);
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ memory: true });
+  });
+
+  it('should set the storage of the list in the path', async () => {
+    const listId = crypto.randomUUID();
+    await createListStorage(memoryEnv).putList({ id: listId, name: 'Sprint' });
+
+    const res = await createApp().request(`/lists/${listId}/todos`, {}, memoryEnv);
+
+    expect(await res.json()).toEqual({ same: true });
+    expect(createStorage(memoryEnv, listId)).not.toBe(createStorage(memoryEnv));
+  });
+
+  it('should set the storage of the tenant set by authentication', async () => {
+    const app = new Hono<AppEnv>();
+    app.use('*', async (c, next) => {
+      c.set('tenantId', 'team-a');
+      await next();
+    });
+    app.use('/todos', storageMiddleware);
+    app.get('/todos', (c) =>
+      c.json({
+        tenant: c.get('storage') === createStorage(memoryEnv, 'default', 'team-a'),
+        lists: c.get('lists') === createListStorage(memoryEnv, 'team-a'),
+      })
+    );
+
+    const res = await app.request('/todos', {}, memoryEnv);
+
+    expect(await res.json()).toEqual({ tenant: true, lists: true });
+  });
+
+  it('should not find a list of another tenant', async () => {
+    const listId = crypto.randomUUID();
+    await createListStorage(memoryEnv, 'team-a').putList({ id: listId, name: 'Sprint' });
+
+    const res = await createApp().request(`/lists/${listId}/todos`, {}, memoryEnv);
+
+    expect(res.status).toBe(404);
+  });
+
+  it('should return 404 for a list that does not exist and 400 for an invalid list ID', async () => {
+    const app = createApp();
+
+    const missing = await app.request(`/lists/${crypto.randomUUID()}/todos`, {}, memoryEnv);
+    expect(missing.status).toBe(404);
+    expect(((await missing.json()) as { error: { code: string } }).error.code).toBe('NOT_FOUND');
+
+    expect((await app.request('/lists/sprint/todos', {}, memoryEnv)).status).toBe(400);
+    expect((await app.request('/lists/default/todos', {}, memoryEnv)).status).toBe(200);
+  });
+
+  it('should return 500 with INTERNAL_ERROR when the backend is misconfigured', async () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const res = await createApp().request('/todos', {}, {
+      TODO_KV: {} as KVNamespace,
+      VALID_API_KEYS: 'test-api-key',
+      STORAGE_BACKEND: 'd1',
+    } satisfies Env);
+
+    expect(res.status).toBe(500);
+    const body = (await res.json()) as { error: { code: string; message: string } };
+    expect(body.error.code).toBe('INTERNAL_ERROR');
+    // 設定の詳細はクライアントに公開しない
+    expect(body.error.message).not.toContain('TODO_DB');
+    expect(consoleSpy).toHaveBeenCalled();
+
+    consoleSpy.mockRestore();
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import type { ErrorResponse, ErrorCode } from '../../../src/models/error';
-import { ERROR_CODES } from '../../../src/models/error';
+import { ERROR_CODES, ERROR_STATUS_MAP, PreconditionFailedError } from '../../../src/models/error';
 
 describe('Error Response Types', () => {
   describe('ErrorResponse Type', () => {
@@ -210,5 +210,25 @@ describe('Error Response Types', () => {
       expect(code).toBe('INTERNAL_ERROR');
       expect(expectedStatus).toBe(500);
     });
+
+    it('should map PRECONDITION_FAILED to 412 Precondition Failed', () => {
+      expect(ERROR_CODES.PRECONDITION_FAILED).toBe('PRECONDITION_FAILED');
+      expect(ERROR_STATUS_MAP.PRECONDITION_FAILED).toBe(412);
+    });
+
+    it('should map FORBIDDEN to 403 Forbidden', () => {
+      expect(ERROR_CODES.FORBIDDEN).toBe('FORBIDDEN');
+      expect(ERROR_STATUS_MAP.FORBIDDEN).toBe(403);
+    });
+  });
+
+  describe('PreconditionFailedError', () => {
+    it('should carry the current version', () => {
+      const error = new PreconditionFailedError(3);
+
+      expect(error).toBeInstanceOf(Error);
+      expect(error.name).toBe('PreconditionFailedError');
+      expect(error.currentVersion).toBe(3);
+    });
   });
 });
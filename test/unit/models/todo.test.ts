@@ -15,6 +15,7 @@ describe('Todo Domain Model', () => {
         completed: false,
         createdAt: '2025-10-27T10:30:00.000Z',
         position: 0,
+        version: 1,
       };
 
       expect(todo.id).toBe('550e8400-e29b-41d4-a716-446655440000');
@@ -33,9 +34,10 @@ describe('Todo Domain Model', () => {
         completed: true,
         createdAt: '2025-10-27T10:30:00.000Z',
         position: 0,
+        version: 1,
       };
 
-      expect(Object.keys(todo)).toHaveLength(5);
+      expect(Object.keys(todo)).toHaveLength(6);
       expect(todo).toHaveProperty('id');
       expect(todo).toHaveProperty('title');
       expect(todo).toHaveProperty('completed');
@@ -52,6 +54,7 @@ describe('Todo Domain Model', () => {
         completed: false,
         createdAt: '2025-10-27T10:30:00.000Z',
         position: 0,
+        version: 1,
       };
 
       expect(typeof todo.id).toBe('string');
@@ -64,6 +67,7 @@ describe('Todo Domain Model', () => {
         completed: false,
         createdAt: '2025-10-27T10:30:00.000Z',
         position: 0,
+        version: 1,
       };
 
       expect(typeof todo.createdAt).toBe('string');
@@ -143,6 +147,7 @@ describe('Todo Domain Model', () => {
         completed: false,
         createdAt: '2025-10-27T10:30:00.000Z',
         position: 0,
+        version: 1,
       };
 
       expect(response.id).toBe('550e8400-e29b-41d4-a716-446655440000');
@@ -159,9 +164,10 @@ describe('Todo Domain Model', () => {
         completed: true,
         createdAt: '2025-10-27T10:30:00.000Z',
         position: 0,
+        version: 1,
       };
 
-      expect(Object.keys(response)).toHaveLength(5);
+      expect(Object.keys(response)).toHaveLength(6);
     });
   });
 
@@ -173,6 +179,7 @@ describe('Todo Domain Model', () => {
         completed: false,
         createdAt: '2025-10-27T10:30:00.000Z',
         position: 0,
+        version: 1,
       };
 
       expect(todo.position).toBe(0);
@@ -188,6 +195,7 @@ describe('Todo Domain Model', () => {
           completed: false,
           createdAt: '2025-10-27T10:30:00.000Z',
           position: 0,
+          version: 1,
         },
         {
           id: '550e8400-e29b-41d4-a716-446655440002',
@@ -195,6 +203,7 @@ describe('Todo Domain Model', () => {
           completed: false,
           createdAt: '2025-10-27T10:30:00.000Z',
           position: 1,
+          version: 1,
         },
         {
           id: '550e8400-e29b-41d4-a716-446655440003',
@@ -202,6 +211,7 @@ describe('Todo Domain Model', () => {
           completed: false,
           createdAt: '2025-10-27T10:30:00.000Z',
           position: 2,
+          version: 1,
         },
       ];
 
@@ -223,6 +233,7 @@ describe('Todo Domain Model', () => {
         completed: false,
         createdAt: '2025-10-27T10:30:00.000Z',
         position: 5,
+        version: 1,
       };
 
       expect(todo).toHaveProperty('position');
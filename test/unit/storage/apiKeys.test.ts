@@ -0,0 +1,55 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { env } from 'cloudflare:test';
+import { KVApiKeyStorage } from '../../../src/storage/apiKeys';
+import type { ApiKeyRecord } from '../../../src/models/apiKey';
+
+function makeRecord(tenantId: string, createdAt: string): ApiKeyRecord {
+  return { id: crypto.randomUUID(), name: 'Key', tenantId, scopes: ['todos:read'], createdAt };
+}
+
+describe('KVApiKeyStorage', () => {
+  let keys: KVApiKeyStorage;
+
+  beforeEach(async () => {
+    const listed = await env.TODO_KV.list();
+    await Promise.all(listed.keys.map((key) => env.TODO_KV.delete(key.name)));
+    keys = new KVApiKeyStorage(env.TODO_KV);
+  });
+
+  it('should find a saved key by its hash', async () => {
+    const record = makeRecord('default', '2025-11-01T00:00:00.000Z');
+    await keys.put('hash-1', record);
+
+    expect(await keys.findByHash('hash-1')).toEqual(record);
+    expect(await keys.findByHash('hash-2')).toBeNull();
+  });
+
+  it('should list the keys of a tenant in creation order', async () => {
+    const later = makeRecord('team-a', '2025-11-02T00:00:00.000Z');
+    const earlier = makeRecord('team-a', '2025-11-01T00:00:00.000Z');
+    await keys.put('hash-1', later);
+    await keys.put('hash-2', earlier);
+    await keys.put('hash-3', makeRecord('team-b', '2025-11-01T00:00:00.000Z'));
+
+    expect(await keys.list('team-a')).toEqual([earlier, later]);
+    expect(await keys.list('default')).toEqual([]);
+  });
+
+  it('should delete a key of the tenant only', async () => {
+    const record = makeRecord('team-a', '2025-11-01T00:00:00.000Z');
+    await keys.put('hash-1', record);
+
+    expect(await keys.delete('team-b', record.id)).toBe(false);
+    expect(await keys.delete('team-a', record.id)).toBe(true);
+    expect(await keys.delete('team-a', record.id)).toBe(false);
+    expect(await keys.findByHash('hash-1')).toBeNull();
+  });
+
+  it('should return the tenants that have keys without duplicates', async () => {
+    await keys.put('hash-1', makeRecord('team-a', '2025-11-01T00:00:00.000Z'));
+    await keys.put('hash-2', makeRecord('team-a', '2025-11-02T00:00:00.000Z'));
+    await keys.put('hash-3', makeRecord('team-b', '2025-11-01T00:00:00.000Z'));
+
+    expect((await keys.tenantIds()).sort()).toEqual(['team-a', 'team-b']);
+  });
+});
@@ -0,0 +1,104 @@
+import { env, applyD1Migrations } from 'cloudflare:test';
+import { describeStorageConformance, describeListStorageConformance } from './conformance';
+import { KVStorage, KVListStorage } from '../../../src/storage/kv';
+import { D1Storage, D1ListStorage } from '../../../src/storage/d1';
+import { DurableStorage, DurableListStorage } from '../../../src/storage/durable';
+import { InMemoryStorage, InMemoryListStorage } from '../../../src/storage/memory';
+
+async function clearKV(): Promise<void> {
+  const keys = await env.TODO_KV.list();
+  await Promise.all(keys.keys.map((key) => env.TODO_KV.delete(key.name)));
+}
+
+/**
+ * ファクトリーと同じく、テナント・リストごとのInMemoryStorageを共有する（moveToList()で他のリストを参照するため）
+ */
+const memoryStorages = new Map<string, InMemoryStorage>();
+
+function openMemoryList(listId: string, tenantId = 'default'): InMemoryStorage {
+  const key = `${tenantId}/${listId}`;
+  let storage = memoryStorages.get(key);
+  if (!storage) {
+    storage = new InMemoryStorage([], (id) => openMemoryList(id, tenantId));
+    memoryStorages.set(key, storage);
+  }
+  return storage;
+}
+
+async function resetD1(): Promise<void> {
+  await applyD1Migrations(env.TEST_DB, env.TEST_MIGRATIONS);
+  await env.TEST_DB.batch([
+    env.TEST_DB.prepare('DELETE FROM todos'),
+    env.TEST_DB.prepare('DELETE FROM trash'),
+    env.TEST_DB.prepare('DELETE FROM archived_todos'),
+    env.TEST_DB.prepare('DELETE FROM lists'),
+  ]);
+}
+
+describeStorageConformance(
+  'KVStorage',
+  async () => {
+    await clearKV();
+    return new KVStorage(env.TODO_KV);
+  },
+  (listId, tenantId) => new KVStorage(env.TODO_KV, listId, tenantId)
+);
+
+describeStorageConformance(
+  'D1Storage',
+  async () => {
+    await resetD1();
+    return new D1Storage(env.TEST_DB);
+  },
+  (listId, tenantId) => new D1Storage(env.TEST_DB, listId, tenantId)
+);
+
+describeStorageConformance(
+  'DurableStorage',
+  async () => new DurableStorage(env.TEST_DO, crypto.randomUUID()),
+  (listId, tenantId) => new DurableStorage(env.TEST_DO, listId, tenantId)
+);
+
+describeStorageConformance(
+  'InMemoryStorage',
+  async () => {
+    memoryStorages.clear();
+    return openMemoryList('default');
+  },
+  openMemoryList
+);
+
+describeListStorageConformance(
+  'KVListStorage',
+  async () => {
+    await clearKV();
+    return new KVListStorage(env.TODO_KV);
+  },
+  (tenantId) => new KVListStorage(env.TODO_KV, tenantId)
+);
+
+describeListStorageConformance(
+  'D1ListStorage',
+  async () => {
+    await resetD1();
+    return new D1ListStorage(env.TEST_DB);
+  },
+  (tenantId) => new D1ListStorage(env.TEST_DB, tenantId)
+);
+
+describeListStorageConformance(
+  'DurableListStorage',
+  async () => {
+    // レジストリのDurable Objectは1つのため、登録済みのリストを削除して空にする
+    const lists = new DurableListStorage(env.TEST_DO);
+    await Promise.all((await lists.getLists()).map((list) => lists.deleteList(list.id)));
+    return lists;
+  },
+  (tenantId) => new DurableListStorage(env.TEST_DO, tenantId)
+);
+
+describeListStorageConformance(
+  'InMemoryListStorage',
+  async () => new InMemoryListStorage(),
+  () => new InMemoryListStorage()
+);
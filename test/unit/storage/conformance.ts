@@ -0,0 +1,852 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { IStorage, IListStorage } from '../../../src/storage/interface';
+import type { Todo } from '../../../src/models/todo';
+import { PreconditionFailedError } from '../../../src/models/error';
+
+/**
+ * ハンドラーと同じ手順でTodoを（親の子の）末尾に追加する
+ */
+async function append(storage: IStorage, title: string, parentId?: string): Promise<Todo> {
+  const existing = await storage.getAll();
+  return storage.create({
+    id: crypto.randomUUID(),
+    title,
+    completed: false,
+    createdAt: new Date().toISOString(),
+    position: existing.filter((todo) => todo.parentId === parentId).length,
+    version: 1,
+    ...(parentId ? { parentId } : {}),
+  });
+}
+
+function titlesAndPositions(todos: Todo[]): [string, number][] {
+  return todos.map((todo) => [todo.title, todo.position]);
+}
+
+/**
+ * Storage Conformance Suite
+ *
+ * IStorageの契約（要件5、task-reordering要件1.1-1.3）をすべてのバックエンドに対して
+ * 同じテストで検証します。新しいバックエンドを追加した場合は conformance.test.ts に
+ * 1行追加してください。
+ *
+ * @param name - バックエンド名（describeの名前に使用）
+ * @param createStorage - 空のストレージを生成する関数（各テストの前に呼ばれる）
+ * @param openList - 同じバックエンドの別のリスト（テナントを指定した場合はそのテナントのリスト）のストレージを生成する関数
+ */
+export function describeStorageConformance(
+  name: string,
+  createStorage: () => Promise<IStorage>,
+  openList: (listId: string, tenantId?: string) => IStorage
+): void {
+  describe(`${name} (IStorage conformance)`, () => {
+    let storage: IStorage;
+
+    beforeEach(async () => {
+      storage = await createStorage();
+    });
+
+    describe('create() / getById()', () => {
+      it('should return the created todo and make it retrievable by ID', async () => {
+        const created = await append(storage, 'Buy groceries');
+
+        expect(created.title).toBe('Buy groceries');
+        expect(await storage.getById(created.id)).toEqual(created);
+      });
+
+      it('should return null for a non-existent ID', async () => {
+        expect(await storage.getById(crypto.randomUUID())).toBeNull();
+      });
+
+      it('should keep every todo of concurrent creates', async () => {
+        // KVはインデックスのずれを警告する
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const created = await Promise.all(
+          Array.from({ length: 10 }, (_, i) => append(storage, `Todo ${i}`))
+        );
+
+        const all = await storage.getAll();
+        expect(all.map((todo) => todo.id).sort()).toEqual(created.map((todo) => todo.id).sort());
+        expect(all.map((todo) => todo.position)).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+        for (const todo of created) {
+          expect((await storage.getById(todo.id))?.title).toBe(todo.title);
+        }
+        warn.mockRestore();
+      });
+    });
+
+    describe('getAll()', () => {
+      it('should return an empty array when no todos exist', async () => {
+        expect(await storage.getAll()).toEqual([]);
+      });
+
+      it('should return todos sorted by contiguous positions', async () => {
+        await append(storage, 'A');
+        await append(storage, 'B');
+        await append(storage, 'C');
+
+        expect(titlesAndPositions(await storage.getAll())).toEqual([
+          ['A', 0],
+          ['B', 1],
+          ['C', 2],
+        ]);
+      });
+    });
+
+    describe('update()', () => {
+      it('should apply a partial update and persist it', async () => {
+        const created = await append(storage, 'Original');
+
+        const updated = await storage.update(created.id, { completed: true });
+
+        const expected = { ...created, completed: true, version: created.version + 1 };
+        expect(updated).toEqual(expected);
+        expect(await storage.getById(created.id)).toEqual(expected);
+      });
+
+      it('should never change id or createdAt', async () => {
+        const created = await append(storage, 'Immutable');
+
+        const updated = await storage.update(created.id, {
+          id: crypto.randomUUID(),
+          createdAt: '2000-01-01T00:00:00.000Z',
+          title: 'Renamed',
+        });
+
+        expect(updated?.id).toBe(created.id);
+        expect(updated?.createdAt).toBe(created.createdAt);
+        expect(updated?.title).toBe('Renamed');
+      });
+
+      it('should return null for a non-existent ID', async () => {
+        expect(await storage.update(crypto.randomUUID(), { title: 'Nope' })).toBeNull();
+      });
+
+      it('should update when expectedVersion matches the current version', async () => {
+        const created = await append(storage, 'Original');
+
+        const first = await storage.update(created.id, { title: 'First' }, 1);
+        const second = await storage.update(created.id, { title: 'Second' }, 2);
+
+        expect(first?.version).toBe(2);
+        expect(second?.version).toBe(3);
+      });
+
+      it('should throw PreconditionFailedError and keep the todo when expectedVersion is stale', async () => {
+        const created = await append(storage, 'Original');
+        await storage.update(created.id, { title: 'Updated elsewhere' });
+
+        const error = await storage.update(created.id, { title: 'Stale' }, 1).catch((e) => e);
+
+        expect(error).toBeInstanceOf(PreconditionFailedError);
+        expect(error.currentVersion).toBe(2);
+        expect((await storage.getById(created.id))?.title).toBe('Updated elsewhere');
+      });
+    });
+
+    describe('checklist', () => {
+      it('should persist items and autoComplete on create and update', async () => {
+        const created = await storage.create({
+          id: crypto.randomUUID(),
+          title: 'Shopping',
+          completed: false,
+          createdAt: new Date().toISOString(),
+          position: 0,
+          version: 1,
+          autoComplete: true,
+          items: [{ id: crypto.randomUUID(), text: 'Milk', done: false }],
+        });
+        expect(await storage.getById(created.id)).toEqual(created);
+
+        const items = [
+          { id: crypto.randomUUID(), text: 'Eggs', done: true },
+          { ...created.items![0]!, done: true },
+        ];
+        await storage.update(created.id, { items, autoComplete: false });
+        const updated = await storage.getById(created.id);
+        expect(updated?.items).toEqual(items);
+        expect(updated?.autoComplete).toBe(false);
+      });
+    });
+
+    describe('hierarchy', () => {
+      it('should persist parentId and scope positions to each parent', async () => {
+        const parent = await append(storage, 'Parent');
+        const first = await append(storage, 'First', parent.id);
+        await append(storage, 'Root');
+        const second = await append(storage, 'Second', parent.id);
+
+        expect(first).toMatchObject({ parentId: parent.id, position: 0 });
+        expect(second).toMatchObject({ parentId: parent.id, position: 1 });
+        expect(await storage.getById(second.id)).toEqual(second);
+        expect(titlesAndPositions(await storage.getAll())).toEqual([
+          ['Parent', 0],
+          ['First', 0],
+          ['Root', 1],
+          ['Second', 1],
+        ]);
+      });
+
+      it('should move a todo to the root when parentId is null without leaving a null field', async () => {
+        await append(storage, 'Root');
+        const parent = await append(storage, 'Parent');
+        const child = await append(storage, 'Child', parent.id);
+
+        const updated = await storage.update(child.id, { parentId: null });
+
+        expect(updated).not.toHaveProperty('parentId');
+        expect(updated?.position).toBe(2);
+        expect(await storage.getById(child.id)).toEqual(updated);
+      });
+
+      it('should move a todo within its siblings only', async () => {
+        const parent = await append(storage, 'Parent');
+        await append(storage, 'A', parent.id);
+        await append(storage, 'Root');
+        const b = await append(storage, 'B', parent.id);
+
+        const result = await storage.move(b.id, 0);
+
+        expect(
+          titlesAndPositions((result ?? []).filter((todo) => todo.parentId === parent.id))
+        ).toEqual([
+          ['B', 0],
+          ['A', 1],
+        ]);
+        expect(titlesAndPositions((result ?? []).filter((todo) => !todo.parentId))).toEqual([
+          ['Parent', 0],
+          ['Root', 1],
+        ]);
+        await expect(storage.move(b.id, 2)).rejects.toThrow(RangeError);
+      });
+    });
+
+    describe('recurrence', () => {
+      it('should persist recurrence and clear it without leaving a null field', async () => {
+        const created = await storage.create({
+          id: crypto.randomUUID(),
+          title: 'Take out the trash',
+          completed: false,
+          createdAt: new Date().toISOString(),
+          position: 0,
+          version: 1,
+          dueAt: '2025-11-03',
+          recurrence: 'FREQ=WEEKLY;BYDAY=MO,TH',
+        });
+        expect(await storage.getById(created.id)).toEqual(created);
+
+        const cleared = await storage.update(created.id, { completed: true, recurrence: null });
+        const { recurrence, ...rest } = created;
+        expect(cleared).toEqual({ ...rest, completed: true, version: 2 });
+        expect(await storage.getById(created.id)).toEqual({ ...rest, completed: true, version: 2 });
+      });
+    });
+
+    describe('notes', () => {
+      it('should persist multi-line notes on create and update', async () => {
+        const created = await storage.create({
+          id: crypto.randomUUID(),
+          title: 'Plan trip',
+          completed: false,
+          createdAt: new Date().toISOString(),
+          position: 0,
+          version: 1,
+          notes: '## Packing\n\n- passport\n- charger',
+        });
+        expect(await storage.getById(created.id)).toEqual(created);
+
+        await storage.update(created.id, { notes: '' });
+        expect((await storage.getById(created.id))?.notes).toBe('');
+      });
+    });
+
+    describe('tags', () => {
+      it('should persist tags on create and replace them on update', async () => {
+        const created = await storage.create({
+          id: crypto.randomUUID(),
+          title: 'Write report',
+          completed: false,
+          createdAt: new Date().toISOString(),
+          position: 0,
+          version: 1,
+          tags: ['work', 'urgent'],
+        });
+        expect(await storage.getById(created.id)).toEqual(created);
+
+        await storage.update(created.id, { tags: ['personal'] });
+        expect((await storage.getById(created.id))?.tags).toEqual(['personal']);
+
+        await storage.update(created.id, { tags: [] });
+        expect((await storage.getById(created.id))?.tags).toEqual([]);
+      });
+    });
+
+    describe('priority', () => {
+      it('should persist priority on create and update', async () => {
+        const created = await storage.create({
+          id: crypto.randomUUID(),
+          title: 'Fix outage',
+          completed: false,
+          createdAt: new Date().toISOString(),
+          position: 0,
+          version: 1,
+          priority: 'low',
+        });
+        expect(await storage.getById(created.id)).toEqual(created);
+
+        await storage.update(created.id, { priority: 'urgent' });
+
+        expect((await storage.getById(created.id))?.priority).toBe('urgent');
+      });
+    });
+
+    describe('due dates', () => {
+      it('should persist dueAt and dueTimezone on create', async () => {
+        const created = await storage.create({
+          id: crypto.randomUUID(),
+          title: 'Pay rent',
+          completed: false,
+          createdAt: new Date().toISOString(),
+          position: 0,
+          version: 1,
+          dueAt: '2025-11-01',
+          dueTimezone: 'Asia/Tokyo',
+        });
+
+        expect(await storage.getById(created.id)).toEqual(created);
+      });
+
+      it('should set and clear dueAt without leaving null fields', async () => {
+        const created = await append(storage, 'Pay rent');
+
+        const scheduled = await storage.update(created.id, {
+          dueAt: '2025-11-01T17:00:00+09:00',
+          dueTimezone: 'Asia/Tokyo',
+        });
+        expect(scheduled).toEqual({
+          ...created,
+          dueAt: '2025-11-01T17:00:00+09:00',
+          dueTimezone: 'Asia/Tokyo',
+          version: 2,
+        });
+
+        const cleared = await storage.update(created.id, { dueAt: null, dueTimezone: null });
+        expect(cleared).toEqual({ ...created, version: 3 });
+        expect(await storage.getById(created.id)).toEqual({ ...created, version: 3 });
+      });
+    });
+
+    describe('delete()', () => {
+      it('should return false for a non-existent ID', async () => {
+        expect(await storage.delete(crypto.randomUUID())).toBe(false);
+      });
+
+      it('should remove the todo and keep positions contiguous', async () => {
+        await append(storage, 'A');
+        const b = await append(storage, 'B');
+        await append(storage, 'C');
+        await append(storage, 'D');
+
+        expect(await storage.delete(b.id)).toBe(true);
+
+        expect(await storage.getById(b.id)).toBeNull();
+        expect(titlesAndPositions(await storage.getAll())).toEqual([
+          ['A', 0],
+          ['C', 1],
+          ['D', 2],
+        ]);
+      });
+
+      it('should throw PreconditionFailedError and keep the todo when expectedVersion is stale', async () => {
+        const created = await append(storage, 'A');
+        await storage.update(created.id, { completed: true });
+
+        await expect(storage.delete(created.id, 1)).rejects.toThrow(PreconditionFailedError);
+        expect(await storage.getById(created.id)).not.toBeNull();
+        expect(await storage.delete(created.id, 2)).toBe(true);
+      });
+
+      it('should append new todos after the remaining ones', async () => {
+        const a = await append(storage, 'A');
+        await append(storage, 'B');
+        await storage.delete(a.id);
+
+        await append(storage, 'C');
+
+        expect(titlesAndPositions(await storage.getAll())).toEqual([
+          ['B', 0],
+          ['C', 1],
+        ]);
+      });
+    });
+
+    describe('trash() / getTrash() / restore() / purge()', () => {
+      const deletedAt = '2025-11-01T09:00:00.000Z';
+
+      it('should return null for a non-existent ID', async () => {
+        expect(await storage.trash(crypto.randomUUID(), deletedAt)).toBeNull();
+        expect(await storage.restore(crypto.randomUUID(), null, 'original')).toBeNull();
+        expect(await storage.purge(crypto.randomUUID())).toBe(false);
+      });
+
+      it('should move the todo out of the list into the trash', async () => {
+        await append(storage, 'A');
+        const b = await append(storage, 'B');
+        await append(storage, 'C');
+        await storage.update(b.id, { tags: ['work'] });
+
+        const trashed = await storage.trash(b.id, deletedAt);
+
+        expect(trashed).toEqual({
+          id: b.id,
+          title: 'B',
+          completed: false,
+          createdAt: b.createdAt,
+          version: 2,
+          tags: ['work'],
+          deletedAt,
+        });
+        expect(await storage.getById(b.id)).toBeNull();
+        expect(titlesAndPositions(await storage.getAll())).toEqual([
+          ['A', 0],
+          ['C', 1],
+        ]);
+        expect(await storage.getTrash()).toEqual([trashed]);
+      });
+
+      it('should list the trash most recently deleted first', async () => {
+        const a = await append(storage, 'A');
+        const b = await append(storage, 'B');
+        await storage.trash(a.id, '2025-11-02T09:00:00.000Z');
+        await storage.trash(b.id, '2025-11-01T09:00:00.000Z');
+
+        expect((await storage.getTrash()).map((todo) => todo.title)).toEqual(['A', 'B']);
+      });
+
+      it('should throw PreconditionFailedError and keep the todo when expectedVersion is stale', async () => {
+        const created = await append(storage, 'A');
+        await storage.update(created.id, { completed: true });
+
+        await expect(storage.trash(created.id, deletedAt, 1)).rejects.toThrow(
+          PreconditionFailedError
+        );
+        expect(await storage.getById(created.id)).not.toBeNull();
+        expect(await storage.getTrash()).toEqual([]);
+        expect(await storage.trash(created.id, deletedAt, 2)).not.toBeNull();
+      });
+
+      it('should restore a todo to its original position', async () => {
+        await append(storage, 'A');
+        const b = await append(storage, 'B');
+        await append(storage, 'C');
+        await storage.trash(b.id, deletedAt);
+
+        const restored = await storage.restore(b.id, null, 'original');
+
+        expect(restored).toMatchObject({ id: b.id, title: 'B', position: 1, version: 1 });
+        expect(restored).not.toHaveProperty('deletedAt');
+        expect(titlesAndPositions(await storage.getAll())).toEqual([
+          ['A', 0],
+          ['B', 1],
+          ['C', 2],
+        ]);
+        expect(await storage.getTrash()).toEqual([]);
+      });
+
+      it('should keep deletedWith in the trash until the todo is restored', async () => {
+        const parent = await append(storage, 'Parent');
+        const child = await append(storage, 'Child', parent.id);
+
+        expect(await storage.trash(child.id, deletedAt, undefined, parent.id)).toMatchObject({
+          deletedWith: parent.id,
+        });
+        expect(await storage.getTrash()).toEqual([
+          expect.objectContaining({ id: child.id, deletedWith: parent.id }),
+        ]);
+
+        const restored = await storage.restore(child.id, parent.id, 'original');
+        expect(restored).not.toHaveProperty('deletedWith');
+        expect(await storage.getById(child.id)).not.toHaveProperty('deletedWith');
+      });
+
+      it('should restore a todo to the end of the list', async () => {
+        const a = await append(storage, 'A');
+        await append(storage, 'B');
+        await storage.trash(a.id, deletedAt);
+
+        expect(await storage.restore(a.id, null, 'last')).toMatchObject({ position: 1 });
+        expect(titlesAndPositions(await storage.getAll())).toEqual([
+          ['B', 0],
+          ['A', 1],
+        ]);
+      });
+
+      it('should restore a todo under the given parent', async () => {
+        const parent = await append(storage, 'Parent');
+        const child = await append(storage, 'Child', parent.id);
+        await storage.trash(child.id, deletedAt);
+
+        expect(await storage.restore(child.id, parent.id, 'original')).toMatchObject({
+          parentId: parent.id,
+          position: 0,
+        });
+
+        await storage.trash(child.id, deletedAt);
+        const root = await storage.restore(child.id, null, 'last');
+        expect(root).toMatchObject({ position: 1 });
+        expect(root).not.toHaveProperty('parentId');
+      });
+
+      it('should permanently delete a trashed todo', async () => {
+        const created = await append(storage, 'A');
+        await storage.trash(created.id, deletedAt);
+
+        expect(await storage.purge(created.id)).toBe(true);
+        expect(await storage.getTrash()).toEqual([]);
+        expect(await storage.restore(created.id, null, 'original')).toBeNull();
+        expect(await storage.purge(created.id)).toBe(false);
+      });
+    });
+
+    describe('archive() / getArchived()', () => {
+      const archivedAt = '2025-11-01T09:00:00.000Z';
+
+      it('should move the todos out of the list into the archive', async () => {
+        const a = await append(storage, 'A');
+        await append(storage, 'B');
+        const c = await append(storage, 'C');
+        await storage.update(c.id, { completed: true });
+
+        const archived = await storage.archive([c.id, a.id, crypto.randomUUID()], archivedAt);
+
+        expect(archived).toEqual([
+          { ...a, position: 0, archivedAt },
+          { ...c, completed: true, version: 2, position: 1, archivedAt },
+        ]);
+        expect(await storage.getById(a.id)).toBeNull();
+        expect(titlesAndPositions(await storage.getAll())).toEqual([['B', 0]]);
+        expect(await storage.getArchived()).toEqual(archived);
+      });
+
+      it('should keep the order and the hierarchy within the archive', async () => {
+        const parent = await append(storage, 'Parent');
+        const first = await append(storage, 'First', parent.id);
+        await append(storage, 'Active', parent.id);
+        const second = await append(storage, 'Second', parent.id);
+        const later = await append(storage, 'Later');
+
+        await storage.archive([later.id], archivedAt);
+        await storage.archive([second.id, first.id], archivedAt);
+        await storage.archive([parent.id], archivedAt);
+
+        expect(titlesAndPositions(await storage.getArchived())).toEqual([
+          ['Parent', 0],
+          ['First', 0],
+          ['Second', 1],
+          ['Later', 1],
+        ]);
+        expect(titlesAndPositions(await storage.getAll())).toEqual([['Active', 0]]);
+      });
+
+      it('should return [] when no todo matches', async () => {
+        await append(storage, 'A');
+
+        expect(await storage.archive([crypto.randomUUID()], archivedAt)).toEqual([]);
+        expect(await storage.getArchived()).toEqual([]);
+        expect(await storage.getAll()).toHaveLength(1);
+      });
+    });
+
+    describe('lists', () => {
+      it('should keep todos, positions and trash separate per list', async () => {
+        const other = openList(crypto.randomUUID());
+        const a = await append(storage, 'A');
+        await append(other, 'X');
+        await append(other, 'Y');
+        await storage.trash(a.id, new Date().toISOString());
+
+        expect(titlesAndPositions(await storage.getAll())).toEqual([]);
+        expect(titlesAndPositions(await other.getAll())).toEqual([
+          ['X', 0],
+          ['Y', 1],
+        ]);
+        expect(await other.getTrash()).toEqual([]);
+        expect(await other.getById(a.id)).toBeNull();
+      });
+
+      it('should keep the same list of different tenants separate', async () => {
+        const mine = openList('default', crypto.randomUUID());
+        const theirs = openList('default', crypto.randomUUID());
+        const todo = await append(mine, 'Mine');
+        await mine.archive([(await append(mine, 'Archived')).id], new Date().toISOString());
+
+        expect(await theirs.getAll()).toEqual([]);
+        expect(await theirs.getById(todo.id)).toBeNull();
+        expect(await theirs.getArchived()).toEqual([]);
+        expect(await theirs.getLastModified()).toBeNull();
+        expect((await mine.getAll()).map((item) => item.id)).toEqual([todo.id]);
+      });
+
+      it('should clear todos, trash, archive and lastModified of the list only', async () => {
+        const other = openList(crypto.randomUUID());
+        const kept = await append(storage, 'Kept');
+        const [a, b, c] = [
+          await append(other, 'A'),
+          await append(other, 'B'),
+          await append(other, 'C'),
+        ];
+        await other.trash(a.id, new Date().toISOString());
+        await other.archive([b.id], new Date().toISOString());
+
+        await other.clear();
+
+        expect(await other.getAll()).toEqual([]);
+        expect(await other.getById(c.id)).toBeNull();
+        expect(await other.getTrash()).toEqual([]);
+        expect(await other.getArchived()).toEqual([]);
+        expect(await other.getLastModified()).toBeNull();
+        expect((await storage.getAll()).map((todo) => todo.id)).toEqual([kept.id]);
+      });
+    });
+
+    describe('moveToList()', () => {
+      it('should move a todo with its descendants to the end of another list', async () => {
+        const otherId = crypto.randomUUID();
+        const other = openList(otherId);
+        const existing = await append(other, 'X');
+        const parent = await append(storage, 'Parent');
+        const a = await append(storage, 'A', parent.id);
+        const child = await append(storage, 'Child', a.id);
+        const grandchild = await append(storage, 'Grandchild', child.id);
+        const sibling = await append(storage, 'Sibling', child.id);
+        await append(storage, 'B', parent.id);
+
+        const moved = await storage.moveToList(a.id, otherId);
+
+        expect(moved).toMatchObject({ id: a.id, title: 'A', position: 1, version: 2 });
+        expect(moved).not.toHaveProperty('parentId');
+        expect(
+          (await other.getAll()).map((todo) => [todo.id, todo.parentId ?? null, todo.position])
+        ).toEqual([
+          [existing.id, null, 0],
+          [a.id, null, 1],
+          [child.id, a.id, 0],
+          [grandchild.id, child.id, 0],
+          [sibling.id, child.id, 1],
+        ]);
+        expect(await other.getById(grandchild.id)).toMatchObject({ version: 1 });
+        expect(titlesAndPositions(await storage.getAll())).toEqual([
+          ['Parent', 0],
+          ['B', 0],
+        ]);
+        expect(await storage.getById(child.id)).toBeNull();
+        expect(await other.getLastModified()).not.toBeNull();
+      });
+
+      it('should return null when the todo does not exist', async () => {
+        const otherId = crypto.randomUUID();
+        const other = openList(otherId);
+        await append(storage, 'A');
+
+        expect(await storage.moveToList(crypto.randomUUID(), otherId)).toBeNull();
+        expect(await other.getAll()).toEqual([]);
+      });
+    });
+
+    describe('move()', () => {
+      it('should move the todo and keep positions contiguous', async () => {
+        await append(storage, 'A');
+        await append(storage, 'B');
+        const c = await append(storage, 'C');
+
+        const result = await storage.move(c.id, 0);
+
+        expect(titlesAndPositions(result ?? [])).toEqual([
+          ['C', 0],
+          ['A', 1],
+          ['B', 2],
+        ]);
+        expect(titlesAndPositions(await storage.getAll())).toEqual(
+          titlesAndPositions(result ?? [])
+        );
+      });
+
+      it('should move the todo towards the end', async () => {
+        const a = await append(storage, 'A');
+        await append(storage, 'B');
+        await append(storage, 'C');
+
+        const result = await storage.move(a.id, 2);
+
+        expect(titlesAndPositions(result ?? [])).toEqual([
+          ['B', 0],
+          ['C', 1],
+          ['A', 2],
+        ]);
+      });
+
+      it('should return null for non-existent ID', async () => {
+        await append(storage, 'A');
+
+        expect(await storage.move(crypto.randomUUID(), 0)).toBeNull();
+      });
+
+      it('should not change the version of the moved todo', async () => {
+        await append(storage, 'A');
+        const b = await append(storage, 'B');
+
+        const result = await storage.move(b.id, 0, 1);
+
+        expect(result?.map((todo) => todo.version)).toEqual([1, 1]);
+      });
+
+      it('should throw PreconditionFailedError and leave positions unchanged when expectedVersion is stale', async () => {
+        await append(storage, 'A');
+        const b = await append(storage, 'B');
+        await storage.update(b.id, { completed: true });
+
+        await expect(storage.move(b.id, 0, 1)).rejects.toThrow(PreconditionFailedError);
+        expect(titlesAndPositions(await storage.getAll())).toEqual([
+          ['A', 0],
+          ['B', 1],
+        ]);
+      });
+
+      it('should throw RangeError and leave positions unchanged when out of range', async () => {
+        const a = await append(storage, 'A');
+        await append(storage, 'B');
+
+        await expect(storage.move(a.id, 2)).rejects.toThrow(RangeError);
+        expect(titlesAndPositions(await storage.getAll())).toEqual([
+          ['A', 0],
+          ['B', 1],
+        ]);
+      });
+    });
+
+    describe('setOrder()', () => {
+      it('should assign positions in the given order', async () => {
+        const a = await append(storage, 'A');
+        const b = await append(storage, 'B');
+        const c = await append(storage, 'C');
+
+        const result = await storage.setOrder([b.id, c.id, a.id]);
+
+        expect(titlesAndPositions(result)).toEqual([
+          ['B', 0],
+          ['C', 1],
+          ['A', 2],
+        ]);
+        expect(titlesAndPositions(await storage.getAll())).toEqual(titlesAndPositions(result));
+      });
+
+      it('should throw RangeError when ids does not cover every todo', async () => {
+        const a = await append(storage, 'A');
+        await append(storage, 'B');
+
+        await expect(storage.setOrder([a.id])).rejects.toThrow(RangeError);
+        await expect(storage.setOrder([a.id, crypto.randomUUID()])).rejects.toThrow(RangeError);
+        expect(titlesAndPositions(await storage.getAll())).toEqual([
+          ['A', 0],
+          ['B', 1],
+        ]);
+      });
+    });
+
+    describe('getLastModified()', () => {
+      it('should return null when the list has never been modified', async () => {
+        expect(await storage.getLastModified()).toBeNull();
+      });
+
+      it('should advance on create, update, move and delete', async () => {
+        const a = await append(storage, 'A');
+        const afterCreate = await storage.getLastModified();
+        expect(afterCreate).not.toBeNull();
+
+        const b = await append(storage, 'B');
+        await storage.update(a.id, { completed: true });
+        const afterUpdate = await storage.getLastModified();
+        expect(afterUpdate! >= afterCreate!).toBe(true);
+
+        await storage.move(b.id, 0);
+        const afterMove = await storage.getLastModified();
+        expect(afterMove! >= afterUpdate!).toBe(true);
+
+        await storage.delete(a.id);
+        expect((await storage.getLastModified())! >= afterMove!).toBe(true);
+      });
+    });
+  });
+}
+
+/**
+ * List Storage Conformance Suite
+ *
+ * IListStorageの契約をすべてのバックエンドに対して同じテストで検証します。
+ *
+ * @param name - バックエンド名（describeの名前に使用）
+ * @param createListStorage - 空のリストストレージを生成する関数（各テストの前に呼ばれる）
+ * @param openTenant - 同じバックエンドの指定したテナントのリストストレージを生成する関数
+ */
+export function describeListStorageConformance(
+  name: string,
+  createListStorage: () => Promise<IListStorage>,
+  openTenant: (tenantId: string) => IListStorage
+): void {
+  describe(`${name} (IListStorage conformance)`, () => {
+    let lists: IListStorage;
+
+    beforeEach(async () => {
+      lists = await createListStorage();
+    });
+
+    it('should return [] and null when no list is registered', async () => {
+      expect(await lists.getLists()).toEqual([]);
+      expect(await lists.getList(crypto.randomUUID())).toBeNull();
+    });
+
+    it('should return lists sorted by createdAt with the default list first', async () => {
+      const later = { id: crypto.randomUUID(), name: 'Ops', createdAt: '2025-11-02T00:00:00.000Z' };
+      const earlier = {
+        id: crypto.randomUUID(),
+        name: 'Sprint',
+        createdAt: '2025-11-01T00:00:00.000Z',
+      };
+      await lists.putList(later);
+      await lists.putList(earlier);
+      await lists.putList({ id: 'default', name: 'Inbox' });
+
+      expect(await lists.getLists()).toEqual([{ id: 'default', name: 'Inbox' }, earlier, later]);
+      expect(await lists.getList(earlier.id)).toEqual(earlier);
+    });
+
+    it('should replace a list with the same ID', async () => {
+      const list = { id: crypto.randomUUID(), name: 'Sprint', createdAt: new Date().toISOString() };
+      await lists.putList(list);
+      await lists.putList({ ...list, name: 'Sprint 2' });
+
+      expect(await lists.getLists()).toEqual([{ ...list, name: 'Sprint 2' }]);
+    });
+
+    it('should delete a list and report whether it existed', async () => {
+      const list = { id: crypto.randomUUID(), name: 'Sprint', createdAt: new Date().toISOString() };
+      await lists.putList(list);
+
+      expect(await lists.deleteList(list.id)).toBe(true);
+      expect(await lists.deleteList(list.id)).toBe(false);
+      expect(await lists.getList(list.id)).toBeNull();
+    });
+
+    it('should keep lists separate per tenant', async () => {
+      const tenant = openTenant(crypto.randomUUID());
+      const list = { id: crypto.randomUUID(), name: 'Sprint', createdAt: new Date().toISOString() };
+      await tenant.putList(list);
+      await tenant.putList({ id: 'default', name: 'Inbox' });
+
+      expect(await lists.getLists()).toEqual([]);
+      expect(await lists.getList(list.id)).toBeNull();
+      expect(await lists.deleteList(list.id)).toBe(false);
+      expect(await tenant.getLists()).toEqual([{ id: 'default', name: 'Inbox' }, list]);
+    });
+  });
+}
@@ -0,0 +1,230 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { env, applyD1Migrations } from 'cloudflare:test';
+import { D1Storage } from '../../../src/storage/d1';
+import type { Todo } from '../../../src/models/todo';
+
+function makeTodo(overrides: Partial<Todo> = {}): Todo {
+  return {
+    id: crypto.randomUUID(),
+    title: 'Test Todo',
+    completed: false,
+    createdAt: '2025-10-27T10:30:00.000Z',
+    position: 0,
+    version: 1,
+    ...overrides,
+  };
+}
+
+describe('D1Storage', () => {
+  let storage: D1Storage;
+
+  beforeEach(async () => {
+    await applyD1Migrations(env.TEST_DB, env.TEST_MIGRATIONS);
+    await env.TEST_DB.prepare('DELETE FROM todos').run();
+    storage = new D1Storage(env.TEST_DB);
+  });
+
+  describe('create()', () => {
+    it('should insert Todo into todos table', async () => {
+      const todo = makeTodo({ title: '買い物リストを作成する' });
+
+      const result = await storage.create(todo);
+
+      expect(result).toEqual(todo);
+      const row = await env.TEST_DB.prepare('SELECT * FROM todos WHERE id = ?')
+        .bind(todo.id)
+        .first();
+      expect(row).toMatchObject({
+        id: todo.id,
+        title: '買い物リストを作成する',
+        completed: 0,
+        created_at: todo.createdAt,
+        rank: 'i',
+      });
+    });
+
+    it('should append after the last todo regardless of the given position', async () => {
+      await storage.create(makeTodo({ title: 'First' }));
+
+      const second = await storage.create(makeTodo({ title: 'Second', position: 0 }));
+
+      expect(second.position).toBe(1);
+      expect((await storage.getAll()).map((t) => t.title)).toEqual(['First', 'Second']);
+    });
+
+    it('should store completed as 1', async () => {
+      const todo = makeTodo({ completed: true });
+
+      await storage.create(todo);
+
+      const fetched = await storage.getById(todo.id);
+      expect(fetched?.completed).toBe(true);
+    });
+
+    it('should reject duplicate IDs', async () => {
+      const todo = makeTodo();
+      await storage.create(todo);
+
+      await expect(storage.create(todo)).rejects.toThrow();
+    });
+  });
+
+  describe('getAll()', () => {
+    it('should return empty array when no todos exist', async () => {
+      expect(await storage.getAll()).toEqual([]);
+    });
+
+    it('should return todos sorted by rank with computed positions', async () => {
+      const insert = env.TEST_DB.prepare(
+        'INSERT INTO todos (id, title, completed, created_at, rank) VALUES (?, ?, 0, ?, ?)'
+      );
+      await env.TEST_DB.batch([
+        insert.bind(crypto.randomUUID(), 'Third', '2025-10-27T10:30:00.000Z', 'x'),
+        insert.bind(crypto.randomUUID(), 'First', '2025-10-27T10:30:00.000Z', '1'),
+        insert.bind(crypto.randomUUID(), 'Second', '2025-10-27T10:30:00.000Z', 'i'),
+      ]);
+
+      const result = await storage.getAll();
+
+      expect(result.map((t) => [t.title, t.position])).toEqual([
+        ['First', 0],
+        ['Second', 1],
+        ['Third', 2],
+      ]);
+    });
+  });
+
+  describe('getById()', () => {
+    it('should return null for non-existent ID', async () => {
+      expect(await storage.getById(crypto.randomUUID())).toBeNull();
+    });
+
+    it('should return the Todo with camelCase fields', async () => {
+      const todo = makeTodo();
+      await storage.create(todo);
+
+      expect(await storage.getById(todo.id)).toEqual(todo);
+    });
+
+    it('should compute position from the rank order', async () => {
+      await storage.create(makeTodo());
+      const second = await storage.create(makeTodo());
+
+      expect((await storage.getById(second.id))?.position).toBe(1);
+    });
+  });
+
+  describe('update()', () => {
+    it('should update only specified fields', async () => {
+      const todo = makeTodo({ title: 'Original' });
+      await storage.create(todo);
+
+      const result = await storage.update(todo.id, { completed: true });
+
+      expect(result).toEqual({ ...todo, completed: true, version: 2 });
+    });
+
+    it('should not change id and createdAt', async () => {
+      const todo = makeTodo();
+      await storage.create(todo);
+
+      const result = await storage.update(todo.id, {
+        id: crypto.randomUUID(),
+        createdAt: '2000-01-01T00:00:00.000Z',
+        title: 'Updated',
+      });
+
+      expect(result?.id).toBe(todo.id);
+      expect(result?.createdAt).toBe(todo.createdAt);
+      expect(result?.title).toBe('Updated');
+    });
+
+    it('should return null for non-existent ID', async () => {
+      expect(await storage.update(crypto.randomUUID(), { title: 'Nope' })).toBeNull();
+    });
+  });
+
+  describe('delete()', () => {
+    it('should return false for non-existent ID', async () => {
+      expect(await storage.delete(crypto.randomUUID())).toBe(false);
+    });
+
+    it('should delete the todo and shift positions of later todos', async () => {
+      const todos = [0, 1, 2, 3].map((position) => makeTodo({ title: `T${position}`, position }));
+      for (const todo of todos) {
+        await storage.create(todo);
+      }
+      const ranksBefore = await env.TEST_DB.prepare('SELECT id, rank FROM todos').all<{
+        id: string;
+        rank: string;
+      }>();
+
+      const deleted = await storage.delete(todos[1]!.id);
+
+      expect(deleted).toBe(true);
+      expect(await storage.getById(todos[1]!.id)).toBeNull();
+      const remaining = await storage.getAll();
+      expect(remaining.map((t) => [t.title, t.position])).toEqual([
+        ['T0', 0],
+        ['T2', 1],
+        ['T3', 2],
+      ]);
+      // 他の行のランクは書き換えない
+      const ranksAfter = await env.TEST_DB.prepare('SELECT id, rank FROM todos').all<{
+        id: string;
+        rank: string;
+      }>();
+      expect(ranksAfter.results).toEqual(
+        ranksBefore.results.filter((row) => row.id !== todos[1]!.id)
+      );
+    });
+  });
+
+  describe('move()', () => {
+    it('should update only the rank of the moved todo', async () => {
+      const todos = [0, 1, 2, 3].map((position) => makeTodo({ title: `T${position}`, position }));
+      for (const todo of todos) {
+        await storage.create(todo);
+      }
+      const before = await env.TEST_DB.prepare('SELECT id, rank FROM todos').all<{
+        id: string;
+        rank: string;
+      }>();
+
+      const result = await storage.move(todos[1]!.id, 2);
+
+      expect(result?.map((t) => [t.title, t.position])).toEqual([
+        ['T0', 0],
+        ['T2', 1],
+        ['T1', 2],
+        ['T3', 3],
+      ]);
+      const after = await env.TEST_DB.prepare('SELECT id, rank FROM todos').all<{
+        id: string;
+        rank: string;
+      }>();
+      const changed = after.results.filter(
+        (row) => !before.results.some((old) => old.id === row.id && old.rank === row.rank)
+      );
+      expect(changed.map((row) => row.id)).toEqual([todos[1]!.id]);
+    });
+
+    it('should rebalance when neighbouring ranks are tied', async () => {
+      const insert = env.TEST_DB.prepare(
+        'INSERT INTO todos (id, title, completed, created_at, rank) VALUES (?, ?, 0, ?, ?)'
+      );
+      const ids = ['T0', 'T1', 'T2'].map(() => crypto.randomUUID()).sort();
+      await env.TEST_DB.batch([
+        insert.bind(ids[0], 'T0', '2025-10-27T10:30:00.000Z', 'i'),
+        insert.bind(ids[1], 'T1', '2025-10-27T10:30:00.000Z', 'i'),
+        insert.bind(ids[2], 'T2', '2025-10-27T10:30:00.000Z', 'j'),
+      ]);
+
+      const result = await storage.move(ids[2]!, 1);
+
+      expect(result?.map((t) => t.title)).toEqual(['T0', 'T2', 'T1']);
+      const { results } = await env.TEST_DB.prepare('SELECT DISTINCT rank FROM todos').all();
+      expect(results).toHaveLength(3);
+    });
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { env } from 'cloudflare:test';
+import { DurableStorage } from '../../../src/storage/durable';
+import type { Todo } from '../../../src/models/todo';
+
+function makeTodo(overrides: Partial<Todo> = {}): Todo {
+  return {
+    id: crypto.randomUUID(),
+    title: 'Test Todo',
+    completed: false,
+    createdAt: '2025-10-27T10:30:00.000Z',
+    position: 0,
+    version: 1,
+    ...overrides,
+  };
+}
+
+describe('DurableStorage', () => {
+  let storage: DurableStorage;
+
+  beforeEach(() => {
+    // 各テストで別のリスト名（= 別のDurable Object）を使用して状態を分離する
+    storage = new DurableStorage(env.TEST_DO, crypto.randomUUID());
+  });
+
+  describe('create()', () => {
+    it('should save Todo and return it', async () => {
+      const todo = makeTodo();
+
+      const result = await storage.create(todo);
+
+      expect(result).toEqual(todo);
+      expect(await storage.getById(todo.id)).toEqual(todo);
+    });
+
+    it('should assign position from the current count inside the object', async () => {
+      await storage.create(makeTodo({ position: 0 }));
+
+      // 呼び出し側が古い件数からpositionを計算しても、末尾に配置される
+      const second = await storage.create(makeTodo({ position: 0 }));
+
+      expect(second.position).toBe(1);
+    });
+
+    it('should assign unique positions to concurrent creates', async () => {
+      const created = await Promise.all(
+        Array.from({ length: 10 }, () => storage.create(makeTodo({ position: 0 })))
+      );
+
+      const positions = created.map((todo) => todo.position).sort((a, b) => a - b);
+      expect(positions).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    });
+  });
+
+  describe('getAll()', () => {
+    it('should return empty array when no todos exist', async () => {
+      expect(await storage.getAll()).toEqual([]);
+    });
+
+    it('should return todos sorted by position', async () => {
+      await storage.create(makeTodo({ title: 'First' }));
+      await storage.create(makeTodo({ title: 'Second' }));
+      await storage.create(makeTodo({ title: 'Third' }));
+
+      const result = await storage.getAll();
+
+      expect(result.map((t) => [t.title, t.position])).toEqual([
+        ['First', 0],
+        ['Second', 1],
+        ['Third', 2],
+      ]);
+    });
+
+    it('should isolate todos by list name', async () => {
+      await storage.create(makeTodo());
+      const other = new DurableStorage(env.TEST_DO, crypto.randomUUID());
+
+      expect(await other.getAll()).toEqual([]);
+    });
+  });
+
+  describe('getById()', () => {
+    it('should return null for non-existent ID', async () => {
+      expect(await storage.getById(crypto.randomUUID())).toBeNull();
+    });
+  });
+
+  describe('update()', () => {
+    it('should merge updates and keep id and createdAt', async () => {
+      const todo = await storage.create(makeTodo({ title: 'Original' }));
+
+      const result = await storage.update(todo.id, {
+        id: crypto.randomUUID(),
+        createdAt: '2000-01-01T00:00:00.000Z',
+        completed: true,
+      });
+
+      expect(result).toEqual({ ...todo, completed: true, version: 2 });
+      expect(await storage.getById(todo.id)).toEqual({ ...todo, completed: true, version: 2 });
+    });
+
+    it('should return null for non-existent ID', async () => {
+      expect(await storage.update(crypto.randomUUID(), { title: 'Nope' })).toBeNull();
+    });
+  });
+
+  describe('delete()', () => {
+    it('should return false for non-existent ID', async () => {
+      expect(await storage.delete(crypto.randomUUID())).toBe(false);
+    });
+
+    it('should delete the todo and shift positions of later todos', async () => {
+      const todos: Todo[] = [];
+      for (const title of ['T0', 'T1', 'T2', 'T3']) {
+        todos.push(await storage.create(makeTodo({ title })));
+      }
+
+      const deleted = await storage.delete(todos[1]!.id);
+
+      expect(deleted).toBe(true);
+      expect(await storage.getById(todos[1]!.id)).toBeNull();
+      expect((await storage.getAll()).map((t) => [t.title, t.position])).toEqual([
+        ['T0', 0],
+        ['T2', 1],
+        ['T3', 2],
+      ]);
+    });
+
+    it('should keep positions contiguous under concurrent deletes and creates', async () => {
+      const todos: Todo[] = [];
+      for (let i = 0; i < 5; i++) {
+        todos.push(await storage.create(makeTodo({ title: `T${i}` })));
+      }
+
+      await Promise.all([
+        storage.delete(todos[0]!.id),
+        storage.create(makeTodo({ title: 'New1' })),
+        storage.delete(todos[2]!.id),
+        storage.create(makeTodo({ title: 'New2' })),
+      ]);
+
+      const positions = (await storage.getAll()).map((t) => t.position);
+      expect(positions).toEqual([0, 1, 2, 3, 4]);
+    });
+  });
+
+  describe('move()', () => {
+    it('should keep positions contiguous under concurrent moves and creates', async () => {
+      const todos: Todo[] = [];
+      for (let i = 0; i < 4; i++) {
+        todos.push(await storage.create(makeTodo({ title: `T${i}` })));
+      }
+
+      await Promise.all([
+        storage.move(todos[3]!.id, 0),
+        storage.create(makeTodo({ title: 'New' })),
+        storage.move(todos[0]!.id, 3),
+      ]);
+
+      const positions = (await storage.getAll()).map((t) => t.position);
+      expect(positions).toEqual([0, 1, 2, 3, 4]);
+    });
+
+    it('should propagate RangeError through RPC', async () => {
+      const todo = await storage.create(makeTodo());
+
+      await expect(storage.move(todo.id, 1)).rejects.toThrow(RangeError);
+    });
+  });
+});
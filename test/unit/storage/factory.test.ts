@@ -0,0 +1,237 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { env, applyD1Migrations } from 'cloudflare:test';
+import {
+  createStorage,
+  createListStorage,
+  isStorageBackend,
+  migrateDefaultTenant,
+} from '../../../src/storage/factory';
+import { KVStorage, KVListStorage } from '../../../src/storage/kv';
+import { D1Storage, D1ListStorage } from '../../../src/storage/d1';
+import { DurableStorage, DurableListStorage } from '../../../src/storage/durable';
+import { InMemoryStorage, InMemoryListStorage } from '../../../src/storage/memory';
+import type { Env } from '../../../src/models/env';
+
+function makeEnv(overrides: Partial<Env> = {}): Env {
+  return {
+    TODO_KV: env.TODO_KV,
+    VALID_API_KEYS: 'test-api-key',
+    ...overrides,
+  };
+}
+
+describe('createStorage()', () => {
+  it('should default to KVStorage when STORAGE_BACKEND is not set', () => {
+    expect(createStorage(makeEnv())).toBeInstanceOf(KVStorage);
+  });
+
+  it('should treat an empty STORAGE_BACKEND as the default', () => {
+    expect(createStorage(makeEnv({ STORAGE_BACKEND: ' ' }))).toBeInstanceOf(KVStorage);
+  });
+
+  it('should create KVStorage for "kv"', () => {
+    expect(createStorage(makeEnv({ STORAGE_BACKEND: 'kv' }))).toBeInstanceOf(KVStorage);
+  });
+
+  it('should create D1Storage for "d1" when TODO_DB is bound', () => {
+    const storage = createStorage(makeEnv({ STORAGE_BACKEND: 'd1', TODO_DB: env.TEST_DB }));
+
+    expect(storage).toBeInstanceOf(D1Storage);
+  });
+
+  it('should create DurableStorage for "durable" when TODO_DO is bound', () => {
+    const storage = createStorage(makeEnv({ STORAGE_BACKEND: 'durable', TODO_DO: env.TEST_DO }));
+
+    expect(storage).toBeInstanceOf(DurableStorage);
+  });
+
+  it('should share one InMemoryStorage across calls for "memory"', () => {
+    const first = createStorage(makeEnv({ STORAGE_BACKEND: 'memory' }));
+    const second = createStorage(makeEnv({ STORAGE_BACKEND: 'memory' }));
+
+    expect(first).toBeInstanceOf(InMemoryStorage);
+    expect(second).toBe(first);
+  });
+
+  it('should share one InMemoryStorage per list for "memory"', () => {
+    const listId = crypto.randomUUID();
+    const first = createStorage(makeEnv({ STORAGE_BACKEND: 'memory' }), listId);
+
+    expect(createStorage(makeEnv({ STORAGE_BACKEND: 'memory' }), listId)).toBe(first);
+    expect(createStorage(makeEnv({ STORAGE_BACKEND: 'memory' }))).not.toBe(first);
+  });
+
+  it('should share one InMemoryStorage per tenant and list for "memory"', () => {
+    const memory = makeEnv({ STORAGE_BACKEND: 'memory' });
+    const first = createStorage(memory, 'default', 'team-a');
+
+    expect(createStorage(memory, 'default', 'team-a')).toBe(first);
+    expect(createStorage(memory, 'default', 'team-b')).not.toBe(first);
+    expect(createStorage(memory)).not.toBe(first);
+  });
+
+  it('should throw when the D1 binding is missing', () => {
+    expect(() => createStorage(makeEnv({ STORAGE_BACKEND: 'd1' }))).toThrow(/TODO_DB/);
+  });
+
+  it('should throw when the Durable Object binding is missing', () => {
+    expect(() => createStorage(makeEnv({ STORAGE_BACKEND: 'durable' }))).toThrow(/TODO_DO/);
+  });
+
+  it('should throw for an unknown backend', () => {
+    expect(() => createStorage(makeEnv({ STORAGE_BACKEND: 'redis' }))).toThrow(
+      /Unknown STORAGE_BACKEND "redis"/
+    );
+  });
+});
+
+describe('createListStorage()', () => {
+  it('should create the list storage of the configured backend', () => {
+    expect(createListStorage(makeEnv())).toBeInstanceOf(KVListStorage);
+    expect(
+      createListStorage(makeEnv({ STORAGE_BACKEND: 'd1', TODO_DB: env.TEST_DB }))
+    ).toBeInstanceOf(D1ListStorage);
+    expect(
+      createListStorage(makeEnv({ STORAGE_BACKEND: 'durable', TODO_DO: env.TEST_DO }))
+    ).toBeInstanceOf(DurableListStorage);
+  });
+
+  it('should share one InMemoryListStorage across calls for "memory"', () => {
+    const first = createListStorage(makeEnv({ STORAGE_BACKEND: 'memory' }));
+
+    expect(first).toBeInstanceOf(InMemoryListStorage);
+    expect(createListStorage(makeEnv({ STORAGE_BACKEND: 'memory' }))).toBe(first);
+  });
+
+  it('should share one InMemoryListStorage per tenant for "memory"', () => {
+    const memory = makeEnv({ STORAGE_BACKEND: 'memory' });
+    const first = createListStorage(memory, 'team-a');
+
+    expect(createListStorage(memory, 'team-a')).toBe(first);
+    expect(createListStorage(memory, 'team-b')).not.toBe(first);
+    expect(createListStorage(memory)).not.toBe(first);
+  });
+
+  it('should throw when the backend binding is missing or unknown', () => {
+    expect(() => createListStorage(makeEnv({ STORAGE_BACKEND: 'd1' }))).toThrow(/TODO_DB/);
+    expect(() => createListStorage(makeEnv({ STORAGE_BACKEND: 'redis' }))).toThrow(
+      /Unknown STORAGE_BACKEND "redis"/
+    );
+  });
+});
+
+describe('isStorageBackend()', () => {
+  it('should accept supported backends', () => {
+    for (const backend of ['kv', 'd1', 'durable', 'memory']) {
+      expect(isStorageBackend(backend)).toBe(true);
+    }
+  });
+
+  it('should reject unsupported values', () => {
+    expect(isStorageBackend('KV')).toBe(false);
+    expect(isStorageBackend('')).toBe(false);
+  });
+});
+
+describe('migrateDefaultTenant()', () => {
+  const backends: [string, Partial<Env>, () => Promise<void>][] = [
+    [
+      'kv',
+      {},
+      async () => {
+        const listed = await env.TODO_KV.list();
+        await Promise.all(listed.keys.map((key) => env.TODO_KV.delete(key.name)));
+      },
+    ],
+    [
+      'd1',
+      { TODO_DB: env.TEST_DB },
+      async () => {
+        await applyD1Migrations(env.TEST_DB, env.TEST_MIGRATIONS);
+        await env.TEST_DB.batch(
+          ['todos', 'trash', 'archived_todos', 'lists', 'todo_meta'].map((table) =>
+            env.TEST_DB.prepare(`DELETE FROM ${table}`)
+          )
+        );
+      },
+    ],
+    [
+      'durable',
+      { TODO_DO: env.TEST_DO },
+      async () => {
+        const lists = await new DurableListStorage(env.TEST_DO).getLists();
+        for (const name of ['default', 'lists', ...lists.map((list) => list.id)]) {
+          await env.TEST_DO.get(env.TEST_DO.idFromName(name)).clear();
+        }
+      },
+    ],
+  ];
+
+  function makeTodo(title: string) {
+    return {
+      id: crypto.randomUUID(),
+      title,
+      completed: false,
+      createdAt: '2025-11-01T00:00:00.000Z',
+      position: 0,
+      version: 1,
+    };
+  }
+
+  describe.each(backends)('with the %s backend', (backend, bindings, reset) => {
+    const testEnv = makeEnv({ STORAGE_BACKEND: backend, ...bindings });
+    let listId: string;
+    let trashedId: string;
+
+    beforeEach(async () => {
+      await reset();
+      listId = crypto.randomUUID();
+      await createListStorage(testEnv).putList({ id: listId, name: 'Work', createdAt: '1' });
+      const inbox = createStorage(testEnv);
+      await inbox.create(makeTodo('A'));
+      trashedId = (await inbox.create(makeTodo('B'))).id;
+      await inbox.trash(trashedId, '2025-11-02T00:00:00.000Z');
+      await createStorage(testEnv, listId).create(makeTodo('C'));
+      await env.TODO_KV.put('apikeys:hash', '{}');
+    });
+
+    it('should move the lists, todos and trash of the default tenant', async () => {
+      const tenantId = `team-${crypto.randomUUID()}`;
+
+      expect(await migrateDefaultTenant(testEnv, tenantId)).toBeGreaterThan(0);
+
+      const inbox = createStorage(testEnv, 'default', tenantId);
+      expect((await inbox.getAll()).map((todo) => todo.title)).toEqual(['A']);
+      expect((await inbox.getTrash()).map((todo) => todo.id)).toEqual([trashedId]);
+      expect(await inbox.getLastModified()).not.toBeNull();
+      expect(
+        (await createStorage(testEnv, listId, tenantId).getAll()).map((todo) => todo.title)
+      ).toEqual(['C']);
+      expect(await createListStorage(testEnv, tenantId).getLists()).toEqual([
+        { id: listId, name: 'Work', createdAt: '1' },
+      ]);
+
+      expect(await createStorage(testEnv).getAll()).toEqual([]);
+      expect(await createStorage(testEnv).getTrash()).toEqual([]);
+      expect(await createStorage(testEnv, listId).getAll()).toEqual([]);
+      expect(await createListStorage(testEnv).getLists()).toEqual([]);
+      expect(await env.TODO_KV.get('apikeys:hash')).toBe('{}');
+    });
+
+    it('should refuse a tenant that already has data', async () => {
+      const tenantId = `team-${crypto.randomUUID()}`;
+      await createStorage(testEnv, 'default', tenantId).create(makeTodo('Existing'));
+
+      await expect(migrateDefaultTenant(testEnv, tenantId)).rejects.toThrow(RangeError);
+      expect(await createStorage(testEnv).getAll()).toHaveLength(1);
+    });
+  });
+
+  it('should reject the default tenant, an invalid tenant ID and the memory backend', async () => {
+    await expect(migrateDefaultTenant(makeEnv(), 'default')).rejects.toThrow(RangeError);
+    await expect(migrateDefaultTenant(makeEnv(), 't:x')).rejects.toThrow(RangeError);
+    await expect(
+      migrateDefaultTenant(makeEnv({ STORAGE_BACKEND: 'memory' }), 'team-a')
+    ).rejects.toThrow(/memory backend/);
+  });
+});
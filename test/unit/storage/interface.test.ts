@@ -71,6 +71,7 @@ describe('IStorage Interface', () => {
           completed: false,
           createdAt: '2025-10-27T10:30:00.000Z',
           position: 0,
+          version: 1,
         };
 
         expect(todo.id).toBeTruthy();
@@ -92,6 +93,7 @@ describe('IStorage Interface', () => {
           completed: false,
           createdAt: '2025-10-27T10:30:00.000Z',
           position: 0,
+          version: 1,
         };
 
         // After create, id should remain the same
@@ -121,6 +123,7 @@ describe('IStorage Interface', () => {
             completed: false,
             createdAt: '2025-10-27T10:30:00.000Z',
             position: 0,
+            version: 1,
           },
         ];
 
@@ -147,6 +150,7 @@ describe('IStorage Interface', () => {
           completed: false,
           createdAt: '2025-10-27T10:30:00.000Z',
           position: 0,
+          version: 1,
         };
         const notFoundResult: null = null;
 
@@ -162,6 +166,7 @@ describe('IStorage Interface', () => {
           completed: true,
           createdAt: '2025-10-27T10:30:00.000Z',
           position: 0,
+          version: 1,
         };
 
         expect(todo).toHaveProperty('id');
@@ -191,6 +196,7 @@ describe('IStorage Interface', () => {
           completed: true,
           createdAt: '2025-10-27T10:30:00.000Z',
           position: 0,
+          version: 1,
         };
         const notFoundResult: null = null;
 
@@ -209,6 +215,7 @@ describe('IStorage Interface', () => {
           completed: true,
           createdAt: originalCreatedAt,
           position: 0,
+          version: 1,
         };
 
         // After update, id and createdAt should remain the same
@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { KVStorage } from '../../../src/storage/kv';
-import type { Todo } from '../../../src/models/todo';
+import type { Todo, StoredTodo } from '../../../src/models/todo';
 
 describe('KVStorage', () => {
   let mockKV: KVNamespace;
@@ -12,12 +12,83 @@ describe('KVStorage', () => {
       get: vi.fn(),
       put: vi.fn(),
       delete: vi.fn(),
-      list: vi.fn(),
+      list: vi.fn().mockResolvedValue({ keys: [], list_complete: true, cacheStatus: null }),
     } as unknown as KVNamespace;
 
     storage = new KVStorage(mockKV);
+    seed([]);
   });
 
+  /**
+   * Todoキー（`todos:`）へのputの呼び出し（最終更新日時の書き込みを除く）
+   */
+  function todoPuts() {
+    return vi.mocked(mockKV.put).mock.calls.filter(([key]) => key.startsWith('todos:'));
+  }
+
+  /**
+   * キーに応じて応答するgetのモック（配列を渡すバルク読み込みにも応答する）
+   */
+  function mockGet(read: (key: string) => string | null): void {
+    vi.mocked(mockKV.get).mockImplementation((async (key: string | string[]) =>
+      Array.isArray(key) ? new Map(key.map((k) => [k, read(k)])) : read(key)) as any);
+  }
+
+  /**
+   * KVに保存済みのTodoを設定する（list/getをキーに応じて応答させる）
+   *
+   * indexedの場合はインデックス（meta:index）も設定する
+   */
+  function seed(records: StoredTodo[], { indexed = false } = {}): void {
+    const store = new Map(records.map((record) => [`todos:${record.id}`, JSON.stringify(record)]));
+    if (indexed) {
+      store.set('meta:index', JSON.stringify({ todos: records.map(entry) }));
+    }
+    vi.mocked(mockKV.list).mockResolvedValue({
+      keys: records.map((record) => ({ name: `todos:${record.id}`, expiration: undefined })),
+      list_complete: true,
+      cacheStatus: null,
+    } as KVNamespaceListResult<unknown, string>);
+    mockGet((key) => store.get(key) ?? null);
+  }
+
+  /**
+   * インデックスに保存されるTodoの要約
+   */
+  function entry({ id, rank, version }: StoredTodo) {
+    return { id, rank, version };
+  }
+
+  /**
+   * 最後に保存されたインデックス（meta:index）
+   */
+  function lastIndex(): unknown {
+    const puts = vi.mocked(mockKV.put).mock.calls.filter(([key]) => key === 'meta:index');
+    return JSON.parse(puts.at(-1)![1] as string);
+  }
+
+  /**
+   * バルク読み込み（配列を渡したget）の呼び出し
+   */
+  function bulkGets() {
+    return vi
+      .mocked(mockKV.get)
+      .mock.calls.map(([key]) => key as unknown)
+      .filter((key): key is string[] => Array.isArray(key));
+  }
+
+  function stored(overrides: Partial<StoredTodo> = {}): StoredTodo {
+    return {
+      id: '550e8400-e29b-41d4-a716-446655440000',
+      title: 'Stored Todo',
+      completed: false,
+      createdAt: '2025-10-27T10:30:00.000Z',
+      rank: 'i',
+      version: 1,
+      ...overrides,
+    };
+  }
+
   describe('create()', () => {
     it('should save Todo to KV with todos:{id} key', async () => {
       const todo: Todo = {
@@ -26,17 +97,38 @@ describe('KVStorage', () => {
         completed: false,
         createdAt: '2025-10-27T10:30:00.000Z',
         position: 0,
+        version: 1,
       };
 
       const result = await storage.create(todo);
 
+      const { position, ...fields } = todo;
       expect(mockKV.put).toHaveBeenCalledWith(
         'todos:550e8400-e29b-41d4-a716-446655440000',
-        JSON.stringify(todo)
+        JSON.stringify({ ...fields, rank: 'i' })
       );
+      expect(lastIndex()).toEqual({ todos: [{ id: todo.id, rank: 'i', version: 1 }] });
       expect(result).toEqual(todo);
     });
 
+    it('should assign a rank after the last todo and return the last position', async () => {
+      seed([stored({ id: 'id1', rank: 'i' })]);
+      const todo: Todo = {
+        id: 'id2',
+        title: 'Second',
+        completed: false,
+        createdAt: '2025-10-27T10:31:00.000Z',
+        position: 0,
+        version: 1,
+      };
+
+      const result = await storage.create(todo);
+
+      expect(result.position).toBe(1);
+      const [, json] = todoPuts().find(([key]) => key === 'todos:id2')!;
+      expect(JSON.parse(json as string).rank > 'i').toBe(true);
+    });
+
     it('should preserve all Todo fields', async () => {
       const todo: Todo = {
         id: '123e4567-e89b-12d3-a456-426614174000',
@@ -44,6 +136,7 @@ describe('KVStorage', () => {
         completed: true,
         createdAt: '2025-10-27T10:30:00.000Z',
         position: 0,
+        version: 1,
       };
 
       const result = await storage.create(todo);
@@ -61,6 +154,7 @@ describe('KVStorage', () => {
         completed: false,
         createdAt: '2025-10-27T10:30:00.000Z',
         position: 0,
+        version: 1,
       };
 
       const originalId = todo.id;
@@ -87,117 +181,109 @@ describe('KVStorage', () => {
       expect(result).toEqual([]);
     });
 
-    it('should use KV List API with todos: prefix', async () => {
+    it('should use KV List API with todos: prefix when the index does not exist', async () => {
       vi.mocked(mockKV.list).mockResolvedValue({
         keys: [{ name: 'todos:id1', expiration: undefined, metadata: undefined }],
         list_complete: true,
         cacheStatus: null,
       } as KVNamespaceListResult<unknown, string>);
-      vi.mocked(mockKV.get).mockResolvedValue(null as any);
 
       await storage.getAll();
 
       expect(mockKV.list).toHaveBeenCalledWith({ prefix: 'todos:' });
     });
 
-    it('should fetch all todos in parallel using Promise.all', async () => {
-      const todo1: Todo = {
-        id: 'id1',
-        title: 'Todo 1',
-        completed: false,
-        createdAt: '2025-10-27T10:30:00.000Z',
-        position: 0,
-      };
-      const todo2: Todo = {
-        id: 'id2',
-        title: 'Todo 2',
-        completed: true,
-        createdAt: '2025-10-27T10:31:00.000Z',
-        position: 1,
-      };
+    it('should follow list cursors until list_complete', async () => {
+      vi.mocked(mockKV.list)
+        .mockResolvedValueOnce({
+          keys: [{ name: 'todos:id1' }],
+          list_complete: false,
+          cursor: 'page-2',
+          cacheStatus: null,
+        } as KVNamespaceListResult<unknown, string>)
+        .mockResolvedValueOnce({
+          keys: [{ name: 'todos:id2' }],
+          list_complete: true,
+          cacheStatus: null,
+        } as KVNamespaceListResult<unknown, string>);
+      mockGet((key) =>
+        key.startsWith('todos:')
+          ? JSON.stringify({
+              id: key.slice('todos:'.length),
+              title: key,
+              completed: false,
+              createdAt: '2025-10-27T10:30:00.000Z',
+              rank: key === 'todos:id1' ? 'i' : 'j',
+              version: 1,
+            })
+          : null
+      );
 
-      vi.mocked(mockKV.list).mockResolvedValue({
-        keys: [
-          { name: 'todos:id1', expiration: undefined, metadata: undefined },
-          { name: 'todos:id2', expiration: undefined, metadata: undefined },
-        ],
-        list_complete: true,
-        cacheStatus: null,
-      } as KVNamespaceListResult<unknown, string>);
+      const result = await storage.getAll();
+
+      expect(mockKV.list).toHaveBeenCalledTimes(2);
+      expect(mockKV.list).toHaveBeenLastCalledWith({ prefix: 'todos:', cursor: 'page-2' });
+      expect(result.map((todo) => todo.id)).toEqual(['id1', 'id2']);
+    });
 
-      vi.mocked(mockKV.get)
-        .mockResolvedValueOnce(JSON.stringify(todo1) as any)
-        .mockResolvedValueOnce(JSON.stringify(todo2) as any);
+    it('should read todos in bulk of at most 100 keys', async () => {
+      const records = Array.from({ length: 250 }, (_, i) =>
+        stored({ id: `id${i}`, rank: `i${String(i).padStart(3, '0')}` })
+      );
+      seed(records, { indexed: true });
 
       const result = await storage.getAll();
 
-      expect(mockKV.get).toHaveBeenCalledTimes(2);
-      expect(mockKV.get).toHaveBeenCalledWith('todos:id1');
-      expect(mockKV.get).toHaveBeenCalledWith('todos:id2');
-      expect(result).toHaveLength(2);
-      expect(result).toContainEqual(todo1);
-      expect(result).toContainEqual(todo2);
+      expect(result).toHaveLength(250);
+      expect(bulkGets().map((keys) => keys.length)).toEqual([100, 100, 50]);
+      expect(bulkGets()[0]![0]).toBe('todos:id0');
     });
 
-    it('should filter out null values from KV', async () => {
-      const todo1: Todo = {
-        id: 'id1',
-        title: 'Todo 1',
-        completed: false,
-        createdAt: '2025-10-27T10:30:00.000Z',
-        position: 0,
-      };
+    it('should read the listed todos without writing when the index does not exist', async () => {
+      seed([stored({ id: 'id1', rank: 'i' }), stored({ id: 'id2', rank: 'j', completed: true })]);
 
+      const result = await storage.getAll();
+
+      expect(mockKV.get).toHaveBeenCalledWith('meta:index');
+      expect(bulkGets()).toEqual([['todos:id1', 'todos:id2']]);
+      expect(result.map((t) => [t.id, t.completed, t.position])).toEqual([
+        ['id1', false, 0],
+        ['id2', true, 1],
+      ]);
+      expect(mockKV.put).not.toHaveBeenCalled();
+    });
+
+    it('should filter out null values from KV', async () => {
+      seed([stored({ id: 'id1' })]);
       vi.mocked(mockKV.list).mockResolvedValue({
-        keys: [
-          { name: 'todos:id1', expiration: undefined, metadata: undefined },
-          { name: 'todos:id2', expiration: undefined, metadata: undefined },
-        ],
+        keys: [{ name: 'todos:id1' }, { name: 'todos:id2' }], // id2 was deleted after listing
         list_complete: true,
         cacheStatus: null,
       } as KVNamespaceListResult<unknown, string>);
 
-      vi.mocked(mockKV.get)
-        .mockResolvedValueOnce(JSON.stringify(todo1) as any)
-        .mockResolvedValueOnce(null as any); // KV returns null for non-existent key
-
       const result = await storage.getAll();
 
-      expect(result).toHaveLength(1);
-      expect(result[0]).toEqual(todo1);
+      expect(result.map((t) => t.id)).toEqual(['id1']);
     });
 
     it('should parse JSON correctly for each Todo', async () => {
-      const todo: Todo = {
+      seed([stored({ title: 'JSON Test' })]);
+
+      const result = await storage.getAll();
+
+      expect(result[0]).toEqual({
         id: '550e8400-e29b-41d4-a716-446655440000',
         title: 'JSON Test',
         completed: false,
         createdAt: '2025-10-27T10:30:00.000Z',
         position: 0,
-      };
-
-      vi.mocked(mockKV.list).mockResolvedValue({
-        keys: [
-          {
-            name: 'todos:550e8400-e29b-41d4-a716-446655440000',
-            expiration: undefined,
-            metadata: undefined,
-          },
-        ],
-        list_complete: true,
-        cacheStatus: null,
-      } as KVNamespaceListResult<unknown, string>);
-
-      vi.mocked(mockKV.get).mockResolvedValue(JSON.stringify(todo) as any);
-
-      const result = await storage.getAll();
-
-      expect(result[0]).toEqual(todo);
+        version: 1,
+      });
       expect(typeof result[0]!.title).toBe('string');
       expect(typeof result[0]!.completed).toBe('boolean');
     });
 
-    it('should auto-assign position to todos that do not have position field', async () => {
+    it('should auto-assign ranks to todos that do not have position field', async () => {
       // Simulate legacy todos without position field (stored as "any" to bypass type checking)
       const todoWithoutPosition1 = {
         id: 'id1',
@@ -213,19 +299,7 @@ describe('KVStorage', () => {
         createdAt: '2025-10-27T10:31:00.000Z',
         // position is missing
       };
-
-      vi.mocked(mockKV.list).mockResolvedValue({
-        keys: [
-          { name: 'todos:id1', expiration: undefined, metadata: undefined },
-          { name: 'todos:id2', expiration: undefined, metadata: undefined },
-        ],
-        list_complete: true,
-        cacheStatus: null,
-      } as KVNamespaceListResult<unknown, string>);
-
-      vi.mocked(mockKV.get)
-        .mockResolvedValueOnce(JSON.stringify(todoWithoutPosition1) as any)
-        .mockResolvedValueOnce(JSON.stringify(todoWithoutPosition2) as any);
+      seed([todoWithoutPosition1, todoWithoutPosition2] as unknown as StoredTodo[]);
 
       const result = await storage.getAll();
 
@@ -234,145 +308,290 @@ describe('KVStorage', () => {
       expect(result[0]!.position).toBe(0);
       expect(result[1]!.position).toBe(1);
 
-      // Verify todos were saved back to KV with positions
-      expect(mockKV.put).toHaveBeenCalledTimes(2);
-      expect(mockKV.put).toHaveBeenCalledWith(
-        'todos:id1',
-        JSON.stringify({ ...todoWithoutPosition1, position: 0 })
-      );
-      expect(mockKV.put).toHaveBeenCalledWith(
-        'todos:id2',
-        JSON.stringify({ ...todoWithoutPosition2, position: 1 })
+      // Reads never write; rebuilding the index saves todos back to KV with ranks
+      expect(todoPuts()).toEqual([]);
+      await storage.rebuildIndex();
+      expect(todoPuts()).toEqual([
+        ['todos:id1', JSON.stringify({ ...todoWithoutPosition1, version: 1, rank: 'i' })],
+        ['todos:id2', JSON.stringify({ ...todoWithoutPosition2, version: 1, rank: 'i001' })],
+      ]);
+    });
+
+    it('should migrate legacy positions to ranks in position order', async () => {
+      const legacy = [2, 0, 1].map((position) => ({
+        id: `id${position}`,
+        title: `T${position}`,
+        completed: false,
+        createdAt: '2025-10-27T10:30:00.000Z',
+        position,
+      }));
+      seed(legacy as unknown as StoredTodo[]);
+
+      const result = await storage.rebuildIndex();
+
+      expect(result.map((t) => [t.title, t.position])).toEqual([
+        ['T0', 0],
+        ['T1', 1],
+        ['T2', 2],
+      ]);
+      const saved = todoPuts().map(([, json]) => JSON.parse(json as string));
+      expect(saved.every((todo) => typeof todo.rank === 'string' && !('position' in todo))).toBe(
+        true
       );
     });
 
+    it('should not rewrite todos when all todos already have ranks', async () => {
+      seed([stored({ id: 'id1', rank: 'j' }), stored({ id: 'id2', rank: 'i' })]);
+
+      const result = await storage.getAll();
+
+      expect(result.map((t) => [t.id, t.position])).toEqual([
+        ['id2', 0],
+        ['id1', 1],
+      ]);
+      expect(result[0]).not.toHaveProperty('rank');
+      expect(todoPuts()).toEqual([]);
+    });
+
     it('should sort todos by position in ascending order', async () => {
-      const todo1: Todo = {
+      seed([
+        stored({ id: 'id1', title: 'Third', rank: 'k' }),
+        stored({ id: 'id2', title: 'First', rank: 'i' }),
+        stored({ id: 'id3', title: 'Second', rank: 'j' }),
+      ]);
+
+      const result = await storage.getAll();
+
+      // Should be sorted by position: 0, 1, 2
+      expect(result.map((t) => [t.title, t.position])).toEqual([
+        ['First', 0],
+        ['Second', 1],
+        ['Third', 2],
+      ]);
+    });
+  });
+
+  describe('index document', () => {
+    it('should read only the index, the key list and the todos in bulk when the index exists', async () => {
+      seed([stored({ id: 'id1', rank: 'i' }), stored({ id: 'id2', rank: 'j' })], { indexed: true });
+
+      const result = await storage.getAll();
+
+      expect(result.map((t) => t.id)).toEqual(['id1', 'id2']);
+      expect(mockKV.get).toHaveBeenCalledTimes(2);
+      expect(mockKV.get).toHaveBeenCalledWith('meta:index');
+      expect(bulkGets()).toEqual([['todos:id1', 'todos:id2']]);
+      expect(mockKV.list).toHaveBeenCalledTimes(1);
+      expect(mockKV.put).not.toHaveBeenCalled();
+    });
+
+    it('should keep only summary fields in the index', async () => {
+      await storage.create({
         id: 'id1',
-        title: 'Third',
+        title: 'Large',
         completed: false,
         createdAt: '2025-10-27T10:30:00.000Z',
-        position: 2,
-      };
-      const todo2: Todo = {
-        id: 'id2',
-        title: 'First',
-        completed: false,
-        createdAt: '2025-10-27T10:31:00.000Z',
         position: 0,
-      };
-      const todo3: Todo = {
-        id: 'id3',
-        title: 'Second',
-        completed: false,
-        createdAt: '2025-10-27T10:32:00.000Z',
-        position: 1,
-      };
+        version: 1,
+        notes: 'x'.repeat(10000),
+      });
+
+      expect(lastIndex()).toEqual({ todos: [{ id: 'id1', rank: 'i', version: 1 }] });
+    });
+
+    it('should read an index of full todos written before summaries', async () => {
+      const todo = stored({ id: 'id1', rank: 'i', title: 'Full' });
+      seed([todo]);
+      const get = vi.mocked(mockKV.get).getMockImplementation()!;
+      vi.mocked(mockKV.get).mockImplementation((async (key: string | string[]) =>
+        key === 'meta:index' ? JSON.stringify({ todos: [todo] }) : get(key as never)) as any);
+
+      const result = await storage.getAll();
 
+      expect(result.map((t) => t.title)).toEqual(['Full']);
+    });
+
+    it('should create the index on the first write when it does not exist', async () => {
+      seed([stored({ id: 'id1', rank: 'i' })]);
+
+      await storage.update('id1', { title: 'Updated' });
+
+      expect(mockKV.list).toHaveBeenCalledWith({ prefix: 'todos:' });
+      expect(lastIndex()).toEqual({ todos: [{ id: 'id1', rank: 'i', version: 2 }] });
+    });
+
+    it('should not drop todos missing from a stale key list while the index exists', async () => {
+      seed([stored({ id: 'id1', rank: 'i' }), stored({ id: 'id2', rank: 'j' })], { indexed: true });
       vi.mocked(mockKV.list).mockResolvedValue({
-        keys: [
-          { name: 'todos:id1', expiration: undefined, metadata: undefined },
-          { name: 'todos:id2', expiration: undefined, metadata: undefined },
-          { name: 'todos:id3', expiration: undefined, metadata: undefined },
-        ],
+        keys: [{ name: 'todos:id1' }], // id2 was just created and is not listed yet
         list_complete: true,
         cacheStatus: null,
       } as KVNamespaceListResult<unknown, string>);
 
-      vi.mocked(mockKV.get)
-        .mockResolvedValueOnce(JSON.stringify(todo1) as any)
-        .mockResolvedValueOnce(JSON.stringify(todo2) as any)
-        .mockResolvedValueOnce(JSON.stringify(todo3) as any);
+      expect((await storage.getAll()).map((t) => t.id)).toEqual(['id1', 'id2']);
+      await storage.delete('id1');
+
+      expect(mockKV.put).toHaveBeenCalledWith(
+        'meta:index',
+        JSON.stringify({ todos: [entry(stored({ id: 'id2', rank: 'j' }))] })
+      );
+    });
+
+    it('should warn without rewriting the index when it drifts from the todos', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      seed([stored({ id: 'id1', rank: 'i' }), stored({ id: 'id2', rank: 'j' })], { indexed: true });
+      const get = vi.mocked(mockKV.get).getMockImplementation()!;
+      mockGet((key) => {
+        if (key === 'todos:id1') {
+          return JSON.stringify(stored({ id: 'id1', rank: 'i', title: 'Newer', version: 2 }));
+        }
+        return key === 'todos:id2' ? null : (get(key as never) as unknown as string | null);
+      });
 
       const result = await storage.getAll();
 
-      // Should be sorted by position: 0, 1, 2
-      expect(result).toHaveLength(3);
-      expect(result[0]!.title).toBe('First');
-      expect(result[0]!.position).toBe(0);
-      expect(result[1]!.title).toBe('Second');
-      expect(result[1]!.position).toBe(1);
-      expect(result[2]!.title).toBe('Third');
-      expect(result[2]!.position).toBe(2);
+      expect(result.map((t) => [t.id, t.title, t.version])).toEqual([['id1', 'Newer', 2]]);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('rebuildIndex()'));
+      expect(mockKV.put).not.toHaveBeenCalled();
+      warn.mockRestore();
+    });
+
+    it('should include listed todos missing from the index at their stored rank', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const [id1, id2, id3] = ['i', 'j', 'k'].map((rank, i) => stored({ id: `id${i + 1}`, rank }));
+      seed([id1!, id2!, id3!]);
+      // 同時に作成されたid2のエントリーがインデックスから失われた状態
+      const get = vi.mocked(mockKV.get).getMockImplementation()!;
+      vi.mocked(mockKV.get).mockImplementation((async (key: string | string[]) =>
+        key === 'meta:index'
+          ? JSON.stringify({ todos: [entry(id1!), entry(id3!)] })
+          : get(key as never)) as any);
+
+      const result = await storage.getAll();
+
+      expect(result.map((t) => [t.id, t.position])).toEqual([
+        ['id1', 0],
+        ['id2', 1],
+        ['id3', 2],
+      ]);
+      expect(bulkGets()).toEqual([['todos:id1', 'todos:id3', 'todos:id2']]);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('1 todo(s)'));
+      expect(mockKV.put).not.toHaveBeenCalled();
+      warn.mockRestore();
+    });
+
+    it('should read and repair a todo missing from the index by its key', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const id1 = stored({ id: 'id1', rank: 'i' });
+      seed([id1, stored({ id: 'id2', rank: 'h', title: 'Lost' })]);
+      const get = vi.mocked(mockKV.get).getMockImplementation()!;
+      vi.mocked(mockKV.get).mockImplementation((async (key: string | string[]) =>
+        key === 'meta:index' ? JSON.stringify({ todos: [entry(id1)] }) : get(key as never)) as any);
+
+      expect(await storage.getById('id2')).toMatchObject({ title: 'Lost', position: 0 });
+      expect(mockKV.put).not.toHaveBeenCalled();
+
+      await storage.update('id2', { title: 'Found' });
+
+      expect(lastIndex()).toEqual({
+        todos: [
+          { id: 'id2', rank: 'h', version: 2 },
+          { id: 'id1', rank: 'i', version: 1 },
+        ],
+      });
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('rebuildIndex()'));
+      warn.mockRestore();
+    });
+
+    it('should read the listed todos when the index is not valid JSON', async () => {
+      seed([stored({ id: 'id1', rank: 'i' })]);
+      const get = vi.mocked(mockKV.get).getMockImplementation()!;
+      vi.mocked(mockKV.get).mockImplementation((async (key: string | string[]) =>
+        key === 'meta:index' ? '{broken' : get(key as never)) as any);
+
+      const result = await storage.getAll();
+
+      expect(result.map((t) => t.id)).toEqual(['id1']);
+      expect(bulkGets()).toEqual([['todos:id1']]);
+    });
+
+    it('should keep the index in sync on writes', async () => {
+      seed([stored({ id: 'id1', rank: 'i' })], { indexed: true });
+
+      await storage.update('id1', { title: 'Updated' });
+
+      const [, json] = vi.mocked(mockKV.put).mock.calls.find(([key]) => key === 'meta:index')!;
+      expect(JSON.parse(json as string)).toEqual({
+        todos: [{ id: 'id1', rank: 'i', version: 2 }],
+      });
+    });
+
+    it('rebuildIndex() should rebuild from the todos: prefix', async () => {
+      seed([stored({ id: 'id1', rank: 'j' }), stored({ id: 'id2', rank: 'i' })], {
+        indexed: true,
+      });
+
+      const result = await storage.rebuildIndex();
+
+      expect(result.map((t) => t.id)).toEqual(['id2', 'id1']);
+      expect(mockKV.list).toHaveBeenCalledWith({ prefix: 'todos:' });
+      expect(bulkGets()).toEqual([['todos:id1', 'todos:id2']]);
+      expect(mockKV.put).toHaveBeenCalledWith(
+        'meta:index',
+        JSON.stringify({
+          todos: [entry(stored({ id: 'id2', rank: 'i' })), entry(stored({ id: 'id1', rank: 'j' }))],
+        })
+      );
     });
   });
 
   describe('getById()', () => {
     it('should return null when Todo does not exist', async () => {
-      vi.mocked(mockKV.get).mockResolvedValue(null as any);
-
       const result = await storage.getById('550e8400-e29b-41d4-a716-446655440000');
 
-      expect(mockKV.get).toHaveBeenCalledWith('todos:550e8400-e29b-41d4-a716-446655440000');
       expect(result).toBeNull();
     });
 
     it('should retrieve Todo by ID from KV', async () => {
-      const todo: Todo = {
-        id: '550e8400-e29b-41d4-a716-446655440000',
-        title: 'Retrieved Todo',
-        completed: true,
-        createdAt: '2025-10-27T10:30:00.000Z',
-        position: 0,
-      };
-
-      vi.mocked(mockKV.get).mockResolvedValue(JSON.stringify(todo) as any);
+      seed([stored({ title: 'Retrieved Todo', completed: true })]);
 
       const result = await storage.getById('550e8400-e29b-41d4-a716-446655440000');
 
       expect(mockKV.get).toHaveBeenCalledWith('todos:550e8400-e29b-41d4-a716-446655440000');
-      expect(result).toEqual(todo);
-    });
-
-    it('should parse JSON correctly', async () => {
-      const todo: Todo = {
-        id: '123e4567-e89b-12d3-a456-426614174000',
-        title: 'Parse Test',
-        completed: false,
+      expect(result).toEqual({
+        id: '550e8400-e29b-41d4-a716-446655440000',
+        title: 'Retrieved Todo',
+        completed: true,
         createdAt: '2025-10-27T10:30:00.000Z',
         position: 0,
-      };
-
-      vi.mocked(mockKV.get).mockResolvedValue(JSON.stringify(todo) as any);
-
-      const result = await storage.getById('123e4567-e89b-12d3-a456-426614174000');
-
-      expect(result?.id).toBe(todo.id);
-      expect(result?.title).toBe(todo.title);
-      expect(result?.completed).toBe(todo.completed);
-      expect(result?.createdAt).toBe(todo.createdAt);
+        version: 1,
+      });
     });
 
-    it('should use correct key format todos:{id}', async () => {
-      vi.mocked(mockKV.get).mockResolvedValue(null as any);
+    it('should compute position from the rank order', async () => {
+      seed([
+        stored({ id: 'id1', rank: 'j' }),
+        stored({ id: 'id2', rank: 'i' }),
+        stored({ id: 'id3', rank: 'k' }),
+      ]);
 
-      await storage.getById('test-id-123');
-
-      expect(mockKV.get).toHaveBeenCalledWith('todos:test-id-123');
+      expect((await storage.getById('id1'))?.position).toBe(1);
+      expect((await storage.getById('id3'))?.position).toBe(2);
     });
   });
 
   describe('update()', () => {
     it('should return null when Todo does not exist', async () => {
-      vi.mocked(mockKV.get).mockResolvedValue(null as any);
-
       const result = await storage.update('550e8400-e29b-41d4-a716-446655440000', {
         title: 'Updated',
       });
 
       expect(result).toBeNull();
+      expect(todoPuts()).toEqual([]);
     });
 
     it('should retrieve existing Todo, merge updates, and save', async () => {
-      const existingTodo: Todo = {
-        id: '550e8400-e29b-41d4-a716-446655440000',
-        title: 'Original Title',
-        completed: false,
-        createdAt: '2025-10-27T10:30:00.000Z',
-        position: 0,
-      };
-
-      vi.mocked(mockKV.get).mockResolvedValue(JSON.stringify(existingTodo) as any);
+      seed([stored({ title: 'Original Title' })]);
 
       const updates = { title: 'Updated Title' };
       const result = await storage.update('550e8400-e29b-41d4-a716-446655440000', updates);
@@ -383,60 +602,28 @@ describe('KVStorage', () => {
       expect(result?.createdAt).toBe('2025-10-27T10:30:00.000Z'); // Unchanged
     });
 
-    it('should preserve id and createdAt (invariant)', async () => {
-      const existingTodo: Todo = {
-        id: '550e8400-e29b-41d4-a716-446655440000',
-        title: 'Test',
-        completed: false,
-        createdAt: '2025-10-27T10:30:00.000Z',
-        position: 0,
-      };
-
-      vi.mocked(mockKV.get).mockResolvedValue(JSON.stringify(existingTodo) as any);
+    it('should preserve id, createdAt and rank (invariant)', async () => {
+      seed([stored({ rank: 'k' })]);
 
-      // Try to update id and createdAt (should be ignored)
+      // Try to update id, createdAt and position (should be ignored)
       const updates = {
         id: 'different-id',
         title: 'Updated',
         createdAt: '2025-10-28T00:00:00.000Z',
+        position: 5,
+        version: 1,
       };
 
       const result = await storage.update('550e8400-e29b-41d4-a716-446655440000', updates);
 
       expect(result?.id).toBe('550e8400-e29b-41d4-a716-446655440000'); // Original ID
       expect(result?.createdAt).toBe('2025-10-27T10:30:00.000Z'); // Original createdAt
+      expect(result?.position).toBe(0); // Order is not changed by update()
       expect(result?.title).toBe('Updated'); // Updated
     });
 
-    it('should support partial updates (only title)', async () => {
-      const existingTodo: Todo = {
-        id: '550e8400-e29b-41d4-a716-446655440000',
-        title: 'Original',
-        completed: false,
-        createdAt: '2025-10-27T10:30:00.000Z',
-        position: 0,
-      };
-
-      vi.mocked(mockKV.get).mockResolvedValue(JSON.stringify(existingTodo) as any);
-
-      const result = await storage.update('550e8400-e29b-41d4-a716-446655440000', {
-        title: 'New Title',
-      });
-
-      expect(result?.title).toBe('New Title');
-      expect(result?.completed).toBe(false);
-    });
-
     it('should support partial updates (only completed)', async () => {
-      const existingTodo: Todo = {
-        id: '550e8400-e29b-41d4-a716-446655440000',
-        title: 'Original',
-        completed: false,
-        createdAt: '2025-10-27T10:30:00.000Z',
-        position: 0,
-      };
-
-      vi.mocked(mockKV.get).mockResolvedValue(JSON.stringify(existingTodo) as any);
+      seed([stored({ title: 'Original' })]);
 
       const result = await storage.update('550e8400-e29b-41d4-a716-446655440000', {
         completed: true,
@@ -447,180 +634,66 @@ describe('KVStorage', () => {
     });
 
     it('should save updated Todo to KV', async () => {
-      const existingTodo: Todo = {
-        id: '550e8400-e29b-41d4-a716-446655440000',
-        title: 'Original',
-        completed: false,
-        createdAt: '2025-10-27T10:30:00.000Z',
-        position: 0,
-      };
-
-      vi.mocked(mockKV.get).mockResolvedValue(JSON.stringify(existingTodo) as any);
+      const existing = stored({ title: 'Original' });
+      seed([existing]);
 
       await storage.update('550e8400-e29b-41d4-a716-446655440000', {
         title: 'Updated',
       });
 
-      const expectedUpdatedTodo: Todo = {
-        ...existingTodo,
-        title: 'Updated',
-      };
-
-      expect(mockKV.put).toHaveBeenCalledWith(
-        'todos:550e8400-e29b-41d4-a716-446655440000',
-        JSON.stringify(expectedUpdatedTodo)
-      );
+      expect(todoPuts()).toEqual([
+        [
+          'todos:550e8400-e29b-41d4-a716-446655440000',
+          JSON.stringify({ ...existing, title: 'Updated', version: 2 }),
+        ],
+      ]);
+      expect(mockKV.put).toHaveBeenCalledWith('meta:lastModified', expect.any(String));
     });
   });
 
   describe('delete()', () => {
     it('should return false when Todo does not exist', async () => {
-      vi.mocked(mockKV.get).mockResolvedValue(null as any);
-
       const result = await storage.delete('550e8400-e29b-41d4-a716-446655440000');
 
       expect(result).toBe(false);
       expect(mockKV.delete).not.toHaveBeenCalled();
     });
 
-    it('should check existence before deleting', async () => {
-      const todo: Todo = {
-        id: '550e8400-e29b-41d4-a716-446655440000',
-        title: 'To Delete',
-        completed: false,
-        createdAt: '2025-10-27T10:30:00.000Z',
-        position: 0,
-      };
-
-      vi.mocked(mockKV.get).mockResolvedValue(JSON.stringify(todo) as any);
-      // Mock list for getAll() call after deletion
-      vi.mocked(mockKV.list).mockResolvedValue({
-        keys: [],
-        list_complete: true,
-        cacheStatus: null,
-      } as KVNamespaceListResult<unknown, string>);
-
-      await storage.delete('550e8400-e29b-41d4-a716-446655440000');
-
-      expect(mockKV.get).toHaveBeenCalledWith('todos:550e8400-e29b-41d4-a716-446655440000');
-    });
-
-    it('should delete Todo from KV and return true', async () => {
-      const todo: Todo = {
-        id: '550e8400-e29b-41d4-a716-446655440000',
-        title: 'To Delete',
-        completed: false,
-        createdAt: '2025-10-27T10:30:00.000Z',
-        position: 0,
-      };
-
-      vi.mocked(mockKV.get).mockResolvedValue(JSON.stringify(todo) as any);
-      // Mock list for getAll() call after deletion
-      vi.mocked(mockKV.list).mockResolvedValue({
-        keys: [],
-        list_complete: true,
-        cacheStatus: null,
-      } as KVNamespaceListResult<unknown, string>);
+    it('should delete Todo from KV and the index and return true', async () => {
+      seed([stored({ id: 'id1', rank: 'i' }), stored({ id: 'id2', rank: 'j' })], {
+        indexed: true,
+      });
 
-      const result = await storage.delete('550e8400-e29b-41d4-a716-446655440000');
+      const result = await storage.delete('id1');
 
-      expect(mockKV.delete).toHaveBeenCalledWith('todos:550e8400-e29b-41d4-a716-446655440000');
       expect(result).toBe(true);
+      expect(mockKV.delete).toHaveBeenCalledWith('todos:id1');
+      expect(mockKV.put).toHaveBeenCalledWith(
+        'meta:index',
+        JSON.stringify({ todos: [entry(stored({ id: 'id2', rank: 'j' }))] })
+      );
     });
 
     it('should use correct key format todos:{id}', async () => {
-      const todo: Todo = {
-        id: 'test-id',
-        title: 'Test',
-        completed: false,
-        createdAt: '2025-10-27T10:30:00.000Z',
-        position: 0,
-      };
-
-      vi.mocked(mockKV.get).mockResolvedValue(JSON.stringify(todo) as any);
-      // Mock list for getAll() call after deletion
-      vi.mocked(mockKV.list).mockResolvedValue({
-        keys: [],
-        list_complete: true,
-        cacheStatus: null,
-      } as KVNamespaceListResult<unknown, string>);
+      seed([stored({ id: 'test-id' })]);
 
       await storage.delete('test-id');
 
       expect(mockKV.delete).toHaveBeenCalledWith('todos:test-id');
     });
 
-    it('should adjust positions of todos after deleted position', async () => {
-      const todoToDelete: Todo = {
-        id: 'id2',
-        title: 'Todo to Delete',
-        completed: false,
-        createdAt: '2025-10-27T10:30:00.000Z',
-        position: 1, // Middle position
-      };
-
-      const todo1: Todo = {
-        id: 'id1',
-        title: 'Todo 1',
-        completed: false,
-        createdAt: '2025-10-27T10:30:00.000Z',
-        position: 0,
-      };
-
-      const todo3: Todo = {
-        id: 'id3',
-        title: 'Todo 3',
-        completed: false,
-        createdAt: '2025-10-27T10:30:00.000Z',
-        position: 2,
-      };
-
-      const todo4: Todo = {
-        id: 'id4',
-        title: 'Todo 4',
-        completed: false,
-        createdAt: '2025-10-27T10:30:00.000Z',
-        position: 3,
-      };
-
-      // Mock getById to return the todo being deleted
-      vi.mocked(mockKV.get)
-        .mockResolvedValueOnce(JSON.stringify(todoToDelete) as any) // getById call
-        .mockResolvedValueOnce(JSON.stringify(todo1) as any) // getAll call
-        .mockResolvedValueOnce(JSON.stringify(todoToDelete) as any) // getAll call
-        .mockResolvedValueOnce(JSON.stringify(todo3) as any) // getAll call
-        .mockResolvedValueOnce(JSON.stringify(todo4) as any); // getAll call
-
-      // Mock list to return all todo keys
-      vi.mocked(mockKV.list).mockResolvedValue({
-        keys: [
-          { name: 'todos:id1', expiration: undefined, metadata: undefined },
-          { name: 'todos:id2', expiration: undefined, metadata: undefined },
-          { name: 'todos:id3', expiration: undefined, metadata: undefined },
-          { name: 'todos:id4', expiration: undefined, metadata: undefined },
-        ],
-        list_complete: true,
-        cacheStatus: null,
-      } as KVNamespaceListResult<unknown, string>);
+    it('should not rewrite other todos when deleting', async () => {
+      seed([
+        stored({ id: 'id1', rank: 'i' }),
+        stored({ id: 'id2', rank: 'j' }),
+        stored({ id: 'id3', rank: 'k' }),
+      ]);
 
       const result = await storage.delete('id2');
 
-      // Verify deletion
       expect(result).toBe(true);
       expect(mockKV.delete).toHaveBeenCalledWith('todos:id2');
-
-      // Verify position adjustments: todos after position 1 should be decremented
-      expect(mockKV.put).toHaveBeenCalledWith(
-        'todos:id3',
-        JSON.stringify({ ...todo3, position: 1 }) // Was 2, now 1
-      );
-      expect(mockKV.put).toHaveBeenCalledWith(
-        'todos:id4',
-        JSON.stringify({ ...todo4, position: 2 }) // Was 3, now 2
-      );
-
-      // Verify todo1 (position 0) was NOT updated
-      expect(mockKV.put).not.toHaveBeenCalledWith('todos:id1', expect.anything());
+      expect(todoPuts()).toEqual([]);
     });
   });
 
@@ -714,43 +787,60 @@ describe('KVStorage', () => {
     });
   });
 
-  describe('updatePositions', () => {
-    it('should batch update positions and save all todos to KV', async () => {
-      const todos = [
-        {
-          id: 'a',
-          position: 0,
-          title: 'A',
-          completed: false,
-          createdAt: '2025-10-27T10:30:00.000Z',
-        },
-        {
-          id: 'b',
-          position: 1,
-          title: 'B',
-          completed: false,
-          createdAt: '2025-10-27T10:31:00.000Z',
-        },
-        {
-          id: 'c',
-          position: 2,
-          title: 'C',
-          completed: false,
-          createdAt: '2025-10-27T10:32:00.000Z',
-        },
-      ];
-      const storage = new KVStorage({
-        put: vi.fn(),
-        get: vi.fn(),
-        delete: vi.fn(),
-        list: vi.fn(),
-      } as unknown as KVNamespace);
-      const result = await storage.updatePositions(todos);
-      expect(result.map((t) => t.id)).toEqual(['a', 'b', 'c']);
-      expect(result.map((t) => t.position)).toEqual([0, 1, 2]);
-      todos.forEach((todo) => {
-        expect(storage['kv'].put).toHaveBeenCalledWith(`todos:${todo.id}`, JSON.stringify(todo));
-      });
+  describe('move()', () => {
+    it('should write only the moved todo', async () => {
+      seed([
+        stored({ id: 'a', title: 'A', rank: 'i' }),
+        stored({ id: 'b', title: 'B', rank: 'j' }),
+        stored({ id: 'c', title: 'C', rank: 'k' }),
+      ]);
+
+      const result = await storage.move('c', 0);
+
+      expect(result?.map((t) => [t.title, t.position])).toEqual([
+        ['C', 0],
+        ['A', 1],
+        ['B', 2],
+      ]);
+      expect(todoPuts().map(([key]) => key)).toEqual(['todos:c']);
+    });
+
+    it('should not write when the position does not change', async () => {
+      seed([stored({ id: 'a', rank: 'i' }), stored({ id: 'b', rank: 'j' })], { indexed: true });
+
+      await storage.move('b', 1);
+
+      expect(mockKV.put).not.toHaveBeenCalled();
+    });
+
+    it('should rebalance all todos when neighbouring ranks are tied', async () => {
+      seed([
+        stored({ id: 'a', title: 'A', rank: 'i' }),
+        stored({ id: 'b', title: 'B', rank: 'i' }),
+        stored({ id: 'c', title: 'C', rank: 'j' }),
+      ]);
+
+      const result = await storage.move('c', 1);
+
+      expect(result?.map((t) => t.title)).toEqual(['A', 'C', 'B']);
+      const ranks = todoPuts().map(([, json]) => JSON.parse(json as string));
+      expect(new Set(ranks.map((todo) => todo.rank)).size).toBe(ranks.length);
+    });
+  });
+
+  describe('setOrder()', () => {
+    it('should write only todos whose rank changed', async () => {
+      seed([
+        stored({ id: 'a', title: 'A', rank: 'i' }),
+        stored({ id: 'b', title: 'B', rank: 'i001' }),
+        stored({ id: 'c', title: 'C', rank: 'i002' }),
+      ]);
+
+      const result = await storage.setOrder(['a', 'c', 'b']);
+
+      expect(result.map((t) => t.title)).toEqual(['A', 'C', 'B']);
+      const written = todoPuts().map(([key]) => key);
+      expect(written.sort()).toEqual(['todos:b', 'todos:c']);
     });
   });
 });
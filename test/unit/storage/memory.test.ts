@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { InMemoryStorage } from '../../../src/storage/memory';
+import type { Todo } from '../../../src/models/todo';
+
+const baseTodo: Todo = {
+  id: '550e8400-e29b-41d4-a716-446655440000',
+  title: 'Test Todo',
+  completed: false,
+  createdAt: '2025-10-27T10:30:00.000Z',
+  position: 0,
+  version: 1,
+};
+
+describe('InMemoryStorage', () => {
+  describe('constructor', () => {
+    it('should start empty by default', async () => {
+      const storage = new InMemoryStorage();
+
+      expect(await storage.getAll()).toEqual([]);
+    });
+
+    it('should be seeded with initial todos', async () => {
+      const second: Todo = { ...baseTodo, id: '650e8400-e29b-41d4-a716-446655440001', position: 1 };
+      const storage = new InMemoryStorage([second, baseTodo]);
+
+      expect(await storage.getAll()).toEqual([baseTodo, second]);
+    });
+  });
+
+  describe('data isolation', () => {
+    it('should not be affected by mutating the input Todo after create', async () => {
+      const storage = new InMemoryStorage();
+      const todo = { ...baseTodo };
+
+      await storage.create(todo);
+      todo.title = 'Mutated';
+
+      expect((await storage.getById(baseTodo.id))?.title).toBe('Test Todo');
+    });
+
+    it('should not be affected by mutating returned Todos', async () => {
+      const storage = new InMemoryStorage([baseTodo]);
+
+      const [fetched] = await storage.getAll();
+      fetched!.completed = true;
+
+      expect((await storage.getById(baseTodo.id))?.completed).toBe(false);
+    });
+
+    it('should keep separate state per instance', async () => {
+      const first = new InMemoryStorage([baseTodo]);
+      const second = new InMemoryStorage();
+
+      expect(await first.getAll()).toHaveLength(1);
+      expect(await second.getAll()).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,246 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  parseApiKeys,
+  hasScope,
+  isApiKeyScope,
+  hashApiKey,
+  generateApiKey,
+  timingSafeEqual,
+  findApiKey,
+  shouldTouchApiKey,
+  isValidExpiresAt,
+  defaultApiKeyExpiry,
+  isApiKeyExpired,
+  apiKeyExpiryWarning,
+} from '../../../src/utils/apiKeys';
+import type { ApiKeyRecord } from '../../../src/models/apiKey';
+
+const fullAccess = ['todos:read', 'todos:write', 'todos:delete'];
+
+describe('API Key Utilities', () => {
+  describe('parseApiKeys()', () => {
+    it('should assign plain keys to the default tenant with full todo access', () => {
+      expect(parseApiKeys('key1, key2 ,,')).toEqual([
+        { key: 'key1', tenantId: 'default', scopes: fullAccess },
+        { key: 'key2', tenantId: 'default', scopes: fullAccess },
+      ]);
+    });
+
+    it('should split tenant keys at the first colon', () => {
+      expect(parseApiKeys('team-a:key1, team_b : key:2')).toEqual([
+        { key: 'key1', tenantId: 'team-a', scopes: fullAccess },
+        { key: 'key:2', tenantId: 'team_b', scopes: fullAccess },
+      ]);
+    });
+
+    it('should skip entries with an invalid tenant ID or an empty key', () => {
+      expect(parseApiKeys(':key1, team a:key2, team-a:, t.b:key3, key4')).toEqual([
+        { key: 'key4', tenantId: 'default', scopes: fullAccess },
+      ]);
+    });
+
+    it('should return an empty array for an empty value', () => {
+      expect(parseApiKeys('')).toEqual([]);
+    });
+
+    it('should parse the JSON format with scopes', () => {
+      const config = JSON.stringify([
+        { key: 'dashboard-key', scopes: ['todos:read'] },
+        {
+          key: ' bot-key ',
+          tenantId: 'team-a',
+          scopes: ['todos:read', 'todos:write', 'todos:read'],
+        },
+        { key: 'admin-key', scopes: ['admin'] },
+      ]);
+
+      expect(parseApiKeys(` ${config}`)).toEqual([
+        { key: 'dashboard-key', tenantId: 'default', scopes: ['todos:read'] },
+        { key: 'bot-key', tenantId: 'team-a', scopes: ['todos:read', 'todos:write'] },
+        { key: 'admin-key', tenantId: 'default', scopes: ['admin'] },
+      ]);
+    });
+
+    it('should skip invalid entries of the JSON format', () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const config = JSON.stringify([
+        { key: '', scopes: ['todos:read'] },
+        { key: 'no-scopes' },
+        { key: 'empty-scopes', scopes: [] },
+        { key: 'unknown-scope', scopes: ['todos:read', 'todos:export'] },
+        { key: 'bad-tenant', tenantId: 'team a', scopes: ['todos:read'] },
+        { key: 'bad-expiry', scopes: ['todos:read'], expiresAt: '2026-01-01' },
+        'plain-key',
+        null,
+        { key: 'valid', scopes: ['todos:delete'] },
+      ]);
+
+      expect(parseApiKeys(config)).toEqual([
+        { key: 'valid', tenantId: 'default', scopes: ['todos:delete'] },
+      ]);
+      expect(consoleSpy).toHaveBeenCalledTimes(1);
+      expect(consoleSpy).toHaveBeenCalledWith(
+        'VALID_API_KEYS has 8 invalid entries (index 0, 1, 2, 3, 4, 5, 6, 7). They are ignored.'
+      );
+      consoleSpy.mockRestore();
+    });
+
+    it('should normalize expiresAt of the JSON format to UTC', () => {
+      const config = JSON.stringify([
+        { key: 'old-key', scopes: ['admin'], expiresAt: '2025-11-02T09:00:00+09:00' },
+      ]);
+
+      expect(parseApiKeys(config)).toEqual([
+        {
+          key: 'old-key',
+          tenantId: 'default',
+          scopes: ['admin'],
+          expiresAt: '2025-11-02T00:00:00.000Z',
+        },
+      ]);
+    });
+
+    it('should return an empty array and report the error for invalid JSON', () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      expect(parseApiKeys('[{"key": "key1", ')).toEqual([]);
+      expect(consoleSpy).toHaveBeenCalledTimes(1);
+      expect(consoleSpy.mock.calls[0]![0]).toContain('not valid JSON');
+      // API Keyを含む値はログに記録しない
+      expect(JSON.stringify(consoleSpy.mock.calls)).not.toContain('key1');
+      consoleSpy.mockRestore();
+    });
+
+    it('should not report anything for a valid configuration', () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      parseApiKeys(JSON.stringify([{ key: 'key1', scopes: ['todos:read'] }]));
+      parseApiKeys('key1, team-a:key2');
+
+      expect(consoleSpy).not.toHaveBeenCalled();
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('hasScope()', () => {
+    it('should grant only the listed scopes', () => {
+      expect(hasScope(['todos:read'], 'todos:read')).toBe(true);
+      expect(hasScope(['todos:read'], 'todos:write')).toBe(false);
+      expect(hasScope([], 'todos:read')).toBe(false);
+    });
+
+    it('should grant every scope to admin', () => {
+      for (const scope of ['todos:read', 'todos:write', 'todos:delete', 'admin'] as const) {
+        expect(hasScope(['admin'], scope)).toBe(true);
+      }
+    });
+  });
+
+  describe('isApiKeyScope()', () => {
+    it('should accept only known scopes', () => {
+      expect(isApiKeyScope('todos:write')).toBe(true);
+      expect(isApiKeyScope('todos')).toBe(false);
+      expect(isApiKeyScope(1)).toBe(false);
+    });
+  });
+
+  describe('hashApiKey()', () => {
+    it('should return the SHA-256 hex digest', async () => {
+      expect(await hashApiKey('abc')).toBe(
+        'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'
+      );
+    });
+  });
+
+  describe('generateApiKey()', () => {
+    it('should generate distinct 64-character hex keys', () => {
+      const first = generateApiKey();
+
+      expect(first).toMatch(/^[0-9a-f]{64}$/);
+      expect(generateApiKey()).not.toBe(first);
+    });
+  });
+
+  describe('timingSafeEqual()', () => {
+    it('should compare bytes', () => {
+      expect(timingSafeEqual(new Uint8Array([1, 2, 3]), new Uint8Array([1, 2, 3]))).toBe(true);
+      expect(timingSafeEqual(new Uint8Array([1, 2, 3]), new Uint8Array([1, 2, 4]))).toBe(false);
+      expect(timingSafeEqual(new Uint8Array([1, 2]), new Uint8Array([1, 2, 3]))).toBe(false);
+    });
+  });
+
+  describe('findApiKey()', () => {
+    it('should return the first matching entry', async () => {
+      const entries = parseApiKeys('key1, team-a:key2, team-b:key2');
+
+      expect(await findApiKey(entries, 'key2')).toEqual(entries[1]);
+      expect(await findApiKey(entries, 'key')).toBeUndefined();
+      expect(await findApiKey([], 'key1')).toBeUndefined();
+    });
+  });
+
+  describe('shouldTouchApiKey()', () => {
+    const record: ApiKeyRecord = {
+      id: crypto.randomUUID(),
+      name: 'Bot',
+      tenantId: 'default',
+      scopes: ['todos:read'],
+      createdAt: '2025-11-01T00:00:00.000Z',
+    };
+
+    it('should touch an unused key or a key used more than a minute ago', () => {
+      const now = new Date('2025-11-01T00:10:00.000Z');
+
+      expect(shouldTouchApiKey(record, now)).toBe(true);
+      expect(shouldTouchApiKey({ ...record, lastUsedAt: '2025-11-01T00:09:00.000Z' }, now)).toBe(
+        true
+      );
+      expect(shouldTouchApiKey({ ...record, lastUsedAt: '2025-11-01T00:09:30.000Z' }, now)).toBe(
+        false
+      );
+    });
+  });
+
+  describe('isValidExpiresAt()', () => {
+    it('should accept only ISO 8601 date-times with an offset', () => {
+      expect(isValidExpiresAt('2025-11-01T09:00:00+09:00')).toBe(true);
+      expect(isValidExpiresAt('2025-11-01T00:00:00.000Z')).toBe(true);
+      expect(isValidExpiresAt('2025-11-01')).toBe(false);
+      expect(isValidExpiresAt('2025-11-01T00:00:00')).toBe(false);
+      expect(isValidExpiresAt(1)).toBe(false);
+    });
+  });
+
+  describe('defaultApiKeyExpiry()', () => {
+    it('should return API_KEY_ROTATION_DAYS after now', () => {
+      expect(defaultApiKeyExpiry(new Date('2025-11-01T09:00:00.000Z'))).toBe(
+        '2026-01-30T09:00:00.000Z'
+      );
+    });
+  });
+
+  describe('isApiKeyExpired()', () => {
+    const now = new Date('2025-11-01T00:00:00.000Z');
+
+    it('should expire a key at its expiresAt and never expire a key without one', () => {
+      expect(isApiKeyExpired({ expiresAt: '2025-10-31T23:59:59.999Z' }, now)).toBe(true);
+      expect(isApiKeyExpired({ expiresAt: '2025-11-01T00:00:00.000Z' }, now)).toBe(true);
+      expect(isApiKeyExpired({ expiresAt: '2025-11-01T00:00:00.001Z' }, now)).toBe(false);
+      expect(isApiKeyExpired({}, now)).toBe(false);
+    });
+  });
+
+  describe('apiKeyExpiryWarning()', () => {
+    const now = new Date('2025-11-01T00:00:00.000Z');
+
+    it('should return the seconds until expiry within API_KEY_EXPIRY_WARNING_DAYS', () => {
+      expect(apiKeyExpiryWarning({ expiresAt: '2025-11-02T00:00:00.500Z' }, now)).toBe(86400);
+      expect(apiKeyExpiryWarning({ expiresAt: '2025-11-15T00:00:00.000Z' }, now)).toBe(14 * 86400);
+    });
+
+    it('should not warn about a key expiring later or without expiresAt', () => {
+      expect(apiKeyExpiryWarning({ expiresAt: '2025-11-15T00:00:00.001Z' }, now)).toBeUndefined();
+      expect(apiKeyExpiryWarning({}, now)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import {
+  checklistProgress,
+  isChecklistDone,
+  withProgress,
+  updateItem,
+  removeItem,
+  moveItem,
+} from '../../../src/utils/checklist';
+import type { ChecklistItem, Todo } from '../../../src/models/todo';
+
+const items: ChecklistItem[] = [
+  { id: 'a', text: 'Milk', done: true },
+  { id: 'b', text: 'Eggs', done: false },
+  { id: 'c', text: 'Bread', done: true },
+];
+
+const todo: Todo = {
+  id: '550e8400-e29b-41d4-a716-446655440000',
+  title: 'Shopping',
+  completed: false,
+  createdAt: '2025-10-27T15:00:00.000Z',
+  position: 0,
+  version: 1,
+};
+
+describe('Checklist Utilities', () => {
+  describe('checklistProgress()', () => {
+    it('should count done and total items', () => {
+      expect(checklistProgress(items)).toEqual({ done: 2, total: 3 });
+      expect(checklistProgress([])).toEqual({ done: 0, total: 0 });
+    });
+  });
+
+  describe('isChecklistDone()', () => {
+    it('should be true only when every item is done', () => {
+      expect(isChecklistDone(items)).toBe(false);
+      expect(isChecklistDone(items.map((item) => ({ ...item, done: true })))).toBe(true);
+    });
+
+    it('should be false for an empty checklist', () => {
+      expect(isChecklistDone([])).toBe(false);
+    });
+  });
+
+  describe('withProgress()', () => {
+    it('should add progress when the todo has items', () => {
+      expect(withProgress({ ...todo, items })).toEqual({
+        ...todo,
+        items,
+        progress: { done: 2, total: 3 },
+      });
+    });
+
+    it('should return the todo unchanged without items', () => {
+      expect(withProgress(todo)).toBe(todo);
+      expect(withProgress({ ...todo, items: [] })).not.toHaveProperty('progress');
+    });
+  });
+
+  describe('updateItem()', () => {
+    it('should update the item and keep its ID and order', () => {
+      expect(updateItem(items, 'b', { done: true })).toEqual([
+        items[0],
+        { id: 'b', text: 'Eggs', done: true },
+        items[2],
+      ]);
+    });
+
+    it('should return null for an unknown item', () => {
+      expect(updateItem(items, 'x', { done: true })).toBeNull();
+    });
+  });
+
+  describe('removeItem()', () => {
+    it('should remove the item', () => {
+      expect(removeItem(items, 'a')?.map((item) => item.id)).toEqual(['b', 'c']);
+    });
+
+    it('should return null for an unknown item', () => {
+      expect(removeItem(items, 'x')).toBeNull();
+    });
+  });
+
+  describe('moveItem()', () => {
+    it('should move the item without adding positions to items', () => {
+      expect(moveItem(items, 'c', 0)).toEqual([items[2], items[0], items[1]]);
+    });
+
+    it('should return null for an unknown item', () => {
+      expect(moveItem(items, 'x', 0)).toBeNull();
+    });
+  });
+});
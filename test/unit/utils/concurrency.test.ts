@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { mapWithConcurrency } from '../../../src/utils/concurrency';
+
+describe('mapWithConcurrency', () => {
+  it('should return results in input order', async () => {
+    const result = await mapWithConcurrency([30, 10, 20], 2, async (ms, index) => {
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      return `${index}:${ms}`;
+    });
+
+    expect(result).toEqual(['0:30', '1:10', '2:20']);
+  });
+
+  it('should never run more than limit calls at once', async () => {
+    let active = 0;
+    let maxActive = 0;
+
+    await mapWithConcurrency(
+      Array.from({ length: 10 }, (_, i) => i),
+      3,
+      async () => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        active--;
+      }
+    );
+
+    expect(maxActive).toBe(3);
+  });
+
+  it('should return an empty array for no items', async () => {
+    expect(await mapWithConcurrency([], 5, async () => 1)).toEqual([]);
+  });
+
+  it('should reject with the first error', async () => {
+    await expect(
+      mapWithConcurrency([1, 2, 3], 2, async (n) => {
+        if (n === 2) throw new Error('boom');
+        return n;
+      })
+    ).rejects.toThrow('boom');
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isAllDay,
+  isValidDueAt,
+  isValidTimeZone,
+  dueDeadline,
+  isOverdue,
+  normalizeDue,
+} from '../../../src/utils/due';
+
+describe('Due Date Utilities', () => {
+  describe('isValidDueAt()', () => {
+    it.each([
+      '2025-11-01',
+      '2024-02-29',
+      '2025-11-01T17:00Z',
+      '2025-11-01T17:00:00+09:00',
+      '2025-11-01T17:00:00.123-05:00',
+    ])('should accept %s', (value) => {
+      expect(isValidDueAt(value)).toBe(true);
+    });
+
+    it.each([
+      '2025-11-01T17:00:00',
+      '2025-02-29',
+      '2025-13-01',
+      '2025-11-31T10:00:00Z',
+      '2025-11-01T25:00:00Z',
+      '11/01/2025',
+      '',
+      1762000000000,
+      null,
+    ])('should reject %s', (value) => {
+      expect(isValidDueAt(value)).toBe(false);
+    });
+  });
+
+  describe('isAllDay()', () => {
+    it('should distinguish dates from date-times', () => {
+      expect(isAllDay('2025-11-01')).toBe(true);
+      expect(isAllDay('2025-11-01T00:00:00Z')).toBe(false);
+    });
+  });
+
+  describe('isValidTimeZone()', () => {
+    it('should accept IANA time zone names', () => {
+      expect(isValidTimeZone('Asia/Tokyo')).toBe(true);
+      expect(isValidTimeZone('America/New_York')).toBe(true);
+      expect(isValidTimeZone('UTC')).toBe(true);
+    });
+
+    it('should reject unknown names and non-strings', () => {
+      expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+      expect(isValidTimeZone('')).toBe(false);
+      expect(isValidTimeZone(9)).toBe(false);
+    });
+  });
+
+  describe('dueDeadline()', () => {
+    it('should return null without a due date', () => {
+      expect(dueDeadline({})).toBeNull();
+      expect(dueDeadline({ dueAt: null })).toBeNull();
+    });
+
+    it('should return the instant of a date-time', () => {
+      expect(dueDeadline({ dueAt: '2025-11-01T17:00:00+09:00' })).toBe(
+        Date.parse('2025-11-01T08:00:00Z')
+      );
+    });
+
+    it('should ignore the time zone for a date-time', () => {
+      expect(dueDeadline({ dueAt: '2025-11-01T17:00:00Z', dueTimezone: 'Asia/Tokyo' })).toBe(
+        Date.parse('2025-11-01T17:00:00Z')
+      );
+    });
+
+    it('should return the end of the day in UTC for an all-day date', () => {
+      expect(dueDeadline({ dueAt: '2025-11-01' })).toBe(Date.parse('2025-11-02T00:00:00Z'));
+    });
+
+    it('should return the end of the day in the given time zone', () => {
+      expect(dueDeadline({ dueAt: '2025-11-01', dueTimezone: 'Asia/Tokyo' })).toBe(
+        Date.parse('2025-11-01T15:00:00Z')
+      );
+      expect(dueDeadline({ dueAt: '2025-07-01', dueTimezone: 'America/New_York' })).toBe(
+        Date.parse('2025-07-02T04:00:00Z')
+      );
+    });
+
+    it('should follow daylight saving time changes at the end of the day', () => {
+      // 11月2日の0時は夏時間の終了（同日2時）より前のため EDT（UTC-4）
+      expect(dueDeadline({ dueAt: '2025-11-01', dueTimezone: 'America/New_York' })).toBe(
+        Date.parse('2025-11-02T04:00:00Z')
+      );
+      // 3月10日の0時は夏時間の開始（3月9日2時）より後のため EDT（UTC-4）
+      expect(dueDeadline({ dueAt: '2025-03-09', dueTimezone: 'America/New_York' })).toBe(
+        Date.parse('2025-03-10T04:00:00Z')
+      );
+    });
+  });
+
+  describe('isOverdue()', () => {
+    const now = Date.parse('2025-11-01T12:00:00Z');
+
+    it('should be overdue once the deadline has passed', () => {
+      expect(isOverdue({ completed: false, dueAt: '2025-11-01T11:59:59Z' }, now)).toBe(true);
+      expect(isOverdue({ completed: false, dueAt: '2025-11-01T12:00:00Z' }, now)).toBe(true);
+      expect(isOverdue({ completed: false, dueAt: '2025-11-01T12:00:01Z' }, now)).toBe(false);
+    });
+
+    it('should not be overdue during the day of an all-day due date', () => {
+      expect(isOverdue({ completed: false, dueAt: '2025-11-01' }, now)).toBe(false);
+      expect(isOverdue({ completed: false, dueAt: '2025-10-31' }, now)).toBe(true);
+
+      // 東京では11月1日15時（UTC）に日付が変わる
+      const evening = Date.parse('2025-11-01T16:00:00Z');
+      expect(isOverdue({ completed: false, dueAt: '2025-11-01' }, evening)).toBe(false);
+      expect(
+        isOverdue({ completed: false, dueAt: '2025-11-01', dueTimezone: 'Asia/Tokyo' }, evening)
+      ).toBe(true);
+    });
+
+    it('should never be overdue when completed or without a due date', () => {
+      expect(isOverdue({ completed: true, dueAt: '2025-10-31' }, now)).toBe(false);
+      expect(isOverdue({ completed: false }, now)).toBe(false);
+    });
+  });
+
+  describe('normalizeDue()', () => {
+    it('should remove both fields when dueAt is cleared', () => {
+      expect(normalizeDue({ id: 'a', dueAt: null, dueTimezone: 'Asia/Tokyo' })).toEqual({
+        id: 'a',
+      });
+    });
+
+    it('should remove a cleared dueTimezone and keep dueAt', () => {
+      expect(normalizeDue({ id: 'a', dueAt: '2025-11-01', dueTimezone: null })).toEqual({
+        id: 'a',
+        dueAt: '2025-11-01',
+      });
+    });
+
+    it('should keep both fields when set', () => {
+      const todo = { id: 'a', dueAt: '2025-11-01', dueTimezone: 'Asia/Tokyo' };
+
+      expect(normalizeDue(todo)).toEqual(todo);
+    });
+  });
+});
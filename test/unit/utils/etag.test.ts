@@ -0,0 +1,183 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  formatETag,
+  parseIfMatch,
+  assertVersionMatches,
+  resolveExpectedVersion,
+  collectionETag,
+  toHttpDate,
+  isNotModified,
+} from '../../../src/utils/etag';
+import { PreconditionFailedError } from '../../../src/models/error';
+import { InMemoryStorage } from '../../../src/storage/memory';
+
+const id = '550e8400-e29b-41d4-a716-446655440000';
+
+function createStorage(version: number): InMemoryStorage {
+  const storage = new InMemoryStorage([
+    {
+      id,
+      title: 'Test Todo',
+      completed: false,
+      createdAt: '2025-10-27T10:30:00.000Z',
+      position: 0,
+      version,
+    },
+  ]);
+  vi.spyOn(storage, 'getById');
+  return storage;
+}
+
+describe('ETag Utilities', () => {
+  describe('formatETag()', () => {
+    it('should format the version as a strong ETag', () => {
+      expect(formatETag({ version: 3 })).toBe('"3"');
+    });
+  });
+
+  describe('parseIfMatch()', () => {
+    it.each([undefined, '', '*', '"1", *'])('should return null for %s', (header) => {
+      expect(parseIfMatch(header)).toBeNull();
+    });
+
+    it('should parse a single ETag', () => {
+      expect(parseIfMatch('"3"')).toEqual([3]);
+    });
+
+    it('should parse a list of ETags', () => {
+      expect(parseIfMatch('"2", "3"')).toEqual([2, 3]);
+    });
+
+    it('should ignore weak and unknown ETags', () => {
+      expect(parseIfMatch('W/"3", "abc", 4')).toEqual([]);
+    });
+  });
+
+  describe('assertVersionMatches()', () => {
+    it('should pass when versions match or no version is expected', () => {
+      expect(() => assertVersionMatches(2, 2)).not.toThrow();
+      expect(() => assertVersionMatches(2, undefined)).not.toThrow();
+    });
+
+    it('should throw PreconditionFailedError with the current version', () => {
+      expect(() => assertVersionMatches(2, 1)).toThrow(PreconditionFailedError);
+      try {
+        assertVersionMatches(2, 1);
+      } catch (error) {
+        expect((error as PreconditionFailedError).currentVersion).toBe(2);
+      }
+    });
+  });
+
+  describe('resolveExpectedVersion()', () => {
+    it('should return undefined without If-Match', async () => {
+      const storage = createStorage(1);
+
+      expect(await resolveExpectedVersion(undefined, storage, id)).toBeUndefined();
+      expect(storage.getById).not.toHaveBeenCalled();
+    });
+
+    it('should return a single version without reading storage', async () => {
+      const storage = createStorage(1);
+
+      expect(await resolveExpectedVersion('"5"', storage, id)).toBe(5);
+      expect(storage.getById).not.toHaveBeenCalled();
+    });
+
+    it('should pick the current version from a list of ETags', async () => {
+      const storage = createStorage(3);
+
+      expect(await resolveExpectedVersion('"2", "3"', storage, id)).toBe(3);
+    });
+
+    it('should throw PreconditionFailedError when no ETag can match', async () => {
+      const storage = createStorage(3);
+
+      await expect(resolveExpectedVersion('W/"3"', storage, id)).rejects.toThrow(
+        PreconditionFailedError
+      );
+    });
+
+    it('should return undefined when the todo does not exist', async () => {
+      const storage = createStorage(1);
+
+      expect(
+        await resolveExpectedVersion('"1", "2"', storage, crypto.randomUUID())
+      ).toBeUndefined();
+    });
+  });
+
+  describe('collectionETag()', () => {
+    const a = { id: 'a', version: 1 };
+    const b = { id: 'b', version: 1 };
+
+    it('should return the same strong ETag for the same list', async () => {
+      const etag = await collectionETag([a, b]);
+
+      expect(etag).toMatch(/^"[0-9a-f]{32}"$/);
+      expect(await collectionETag([a, b])).toBe(etag);
+    });
+
+    it('should change when the order, a version or the members change', async () => {
+      const etag = await collectionETag([a, b]);
+
+      expect(await collectionETag([b, a])).not.toBe(etag);
+      expect(await collectionETag([a, { ...b, version: 2 }])).not.toBe(etag);
+      expect(await collectionETag([a])).not.toBe(etag);
+    });
+
+    it('should change when the extra values change', async () => {
+      const etag = await collectionETag([a, b]);
+
+      expect(await collectionETag([a, b], [])).toBe(etag);
+      expect(await collectionETag([a, b], ['a'])).not.toBe(etag);
+      expect(await collectionETag([a, b], ['b'])).not.toBe(await collectionETag([a, b], ['a']));
+    });
+  });
+
+  describe('toHttpDate()', () => {
+    it('should format an ISO timestamp as an IMF-fixdate', () => {
+      expect(toHttpDate('2025-10-27T10:30:00.500Z')).toBe('Mon, 27 Oct 2025 10:30:00 GMT');
+    });
+  });
+
+  describe('isNotModified()', () => {
+    const etag = '"abc"';
+    const lastModified = '2025-10-27T10:30:00.500Z';
+
+    it('should match If-None-Match using weak comparison', () => {
+      expect(isNotModified({ ifNoneMatch: '"abc"' }, etag, null)).toBe(true);
+      expect(isNotModified({ ifNoneMatch: 'W/"abc"' }, etag, null)).toBe(true);
+      expect(isNotModified({ ifNoneMatch: '"xyz", "abc"' }, etag, null)).toBe(true);
+      expect(isNotModified({ ifNoneMatch: '*' }, etag, null)).toBe(true);
+      expect(isNotModified({ ifNoneMatch: '"xyz"' }, etag, null)).toBe(false);
+    });
+
+    it('should ignore If-Modified-Since when If-None-Match is present', () => {
+      expect(
+        isNotModified(
+          { ifNoneMatch: '"xyz"', ifModifiedSince: 'Mon, 27 Oct 2025 10:30:00 GMT' },
+          etag,
+          lastModified
+        )
+      ).toBe(false);
+    });
+
+    it('should compare If-Modified-Since at second granularity', () => {
+      expect(
+        isNotModified({ ifModifiedSince: 'Mon, 27 Oct 2025 10:30:00 GMT' }, etag, lastModified)
+      ).toBe(true);
+      expect(
+        isNotModified({ ifModifiedSince: 'Mon, 27 Oct 2025 10:29:59 GMT' }, etag, lastModified)
+      ).toBe(false);
+    });
+
+    it('should return false without a usable If-Modified-Since or Last-Modified', () => {
+      expect(isNotModified({}, etag, lastModified)).toBe(false);
+      expect(isNotModified({ ifModifiedSince: 'invalid' }, etag, lastModified)).toBe(false);
+      expect(isNotModified({ ifModifiedSince: 'Mon, 27 Oct 2025 10:30:00 GMT' }, etag, null)).toBe(
+        false
+      );
+    });
+  });
+});
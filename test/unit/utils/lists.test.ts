@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { sortLists, withDefaultList, countTodos } from '../../../src/utils/lists';
+
+describe('List Utilities', () => {
+  describe('sortLists()', () => {
+    it('should put lists without createdAt first, then sort by createdAt and ID', () => {
+      const lists = [
+        { id: 'c', name: 'C', createdAt: '2025-11-02T00:00:00.000Z' },
+        { id: 'b', name: 'B', createdAt: '2025-11-01T00:00:00.000Z' },
+        { id: 'a', name: 'A', createdAt: '2025-11-01T00:00:00.000Z' },
+        { id: 'default', name: 'Todos' },
+      ];
+
+      expect(sortLists(lists).map((list) => list.id)).toEqual(['default', 'a', 'b', 'c']);
+      expect(lists[0]!.id).toBe('c');
+    });
+  });
+
+  describe('withDefaultList()', () => {
+    it('should add the default list when it is not registered', () => {
+      const sprint = { id: 'x', name: 'Sprint', createdAt: '2025-11-01T00:00:00.000Z' };
+
+      expect(withDefaultList([sprint])).toEqual([{ id: 'default', name: 'Todos' }, sprint]);
+    });
+
+    it('should keep a renamed default list', () => {
+      expect(withDefaultList([{ id: 'default', name: 'Inbox' }])).toEqual([
+        { id: 'default', name: 'Inbox' },
+      ]);
+    });
+  });
+
+  describe('countTodos()', () => {
+    it('should count total and completed todos', () => {
+      expect(countTodos([{ completed: true }, { completed: false }, { completed: true }])).toEqual({
+        total: 3,
+        completed: 2,
+      });
+      expect(countTodos([])).toEqual({ total: 0, completed: 0 });
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildNextOccurrence,
+  planNextOccurrence,
+  createNextOccurrence,
+} from '../../../src/utils/occurrence';
+import { InMemoryStorage } from '../../../src/storage/memory';
+import { TodoLimitReachedError } from '../../../src/models/error';
+import type { Todo } from '../../../src/models/todo';
+
+function makeTodo(overrides: Partial<Todo> = {}): Todo {
+  return {
+    id: crypto.randomUUID(),
+    title: 'Weekly review',
+    completed: false,
+    createdAt: '2025-10-27T10:30:00.000Z',
+    position: 0,
+    version: 1,
+    dueAt: '2025-11-03T09:00:00+09:00',
+    recurrence: 'FREQ=WEEKLY;COUNT=3',
+    ...overrides,
+  };
+}
+
+describe('Occurrence Utilities', () => {
+  describe('planNextOccurrence()', () => {
+    it('should plan the next occurrence and clear the recurrence of the completed todo', async () => {
+      const current = makeTodo();
+      const storage = new InMemoryStorage([current, makeTodo({ position: 1 })]);
+      const updates: Partial<Todo> = { completed: true };
+
+      const next = await planNextOccurrence(storage, current, updates, 500);
+
+      expect(next).toEqual({
+        dueAt: '2025-11-10T09:00:00+09:00',
+        recurrence: 'FREQ=WEEKLY;COUNT=2',
+        position: 2,
+      });
+      expect(updates).toEqual({ completed: true, recurrence: null });
+    });
+
+    it('should return null without changing updates when not completing a recurring todo', async () => {
+      const storage = new InMemoryStorage();
+      const cases: [Todo, Partial<Todo>][] = [
+        [makeTodo({ recurrence: undefined }), { completed: true }],
+        [makeTodo({ completed: true }), { completed: true }],
+        [makeTodo(), { title: 'Renamed' }],
+      ];
+
+      for (const [current, updates] of cases) {
+        const before = { ...updates };
+        expect(await planNextOccurrence(storage, current, updates, 500)).toBeNull();
+        expect(updates).toEqual(before);
+      }
+    });
+
+    it('should clear the recurrence without a next occurrence on the last occurrence', async () => {
+      const current = makeTodo({ recurrence: 'FREQ=WEEKLY;COUNT=1' });
+      const updates: Partial<Todo> = { completed: true };
+
+      expect(await planNextOccurrence(new InMemoryStorage(), current, updates, 500)).toBeNull();
+      expect(updates.recurrence).toBeNull();
+    });
+
+    it('should throw TodoLimitReachedError when the next occurrence exceeds the limit', async () => {
+      const current = makeTodo();
+
+      await expect(
+        planNextOccurrence(new InMemoryStorage([current]), current, { completed: true }, 1)
+      ).rejects.toThrow(TodoLimitReachedError);
+    });
+  });
+
+  describe('buildNextOccurrence()', () => {
+    it('should carry over the fields and reset the checklist', () => {
+      const completed = makeTodo({
+        completed: true,
+        tags: ['work'],
+        parentId: crypto.randomUUID(),
+        items: [{ id: crypto.randomUUID(), text: 'Inbox', done: true }],
+      });
+
+      const next = buildNextOccurrence(completed, {
+        dueAt: '2025-11-10T09:00:00+09:00',
+        recurrence: 'FREQ=WEEKLY;COUNT=2',
+        position: 3,
+      });
+
+      expect(next).toMatchObject({
+        title: 'Weekly review',
+        completed: false,
+        position: 3,
+        version: 1,
+        tags: ['work'],
+        parentId: completed.parentId,
+        items: [{ text: 'Inbox', done: false }],
+      });
+      expect(next.id).not.toBe(completed.id);
+      expect(next.items?.[0]?.id).not.toBe(completed.items?.[0]?.id);
+    });
+  });
+
+  describe('createNextOccurrence()', () => {
+    it('should save the next occurrence', async () => {
+      const completed = makeTodo({ completed: true });
+      const storage = new InMemoryStorage([completed]);
+
+      const next = await createNextOccurrence(storage, completed, {
+        dueAt: '2025-11-10T09:00:00+09:00',
+        recurrence: 'FREQ=WEEKLY;COUNT=2',
+        position: 1,
+      });
+
+      expect(await storage.getById(next.id)).toEqual(next);
+    });
+  });
+});
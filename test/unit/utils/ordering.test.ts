@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import {
+  reorderPositions,
+  reorderWithinParent,
+  siblingsOf,
+  applyOrder,
+  assertPositionInRange,
+} from '../../../src/utils/ordering';
+
+describe('reorderPositions', () => {
+  const items = [
+    { id: 'a', position: 0 },
+    { id: 'b', position: 1 },
+    { id: 'c', position: 2 },
+  ];
+
+  it('should move an item forward and reassign positions', () => {
+    expect(reorderPositions(items, 'a', 2)).toEqual([
+      { id: 'b', position: 0 },
+      { id: 'c', position: 1 },
+      { id: 'a', position: 2 },
+    ]);
+  });
+
+  it('should move an item backward and reassign positions', () => {
+    expect(reorderPositions(items, 'c', 0)).toEqual([
+      { id: 'c', position: 0 },
+      { id: 'a', position: 1 },
+      { id: 'b', position: 2 },
+    ]);
+  });
+
+  it('should return the input unchanged for an unknown ID or same position', () => {
+    expect(reorderPositions(items, 'x', 0)).toBe(items);
+    expect(reorderPositions(items, 'b', 1)).toBe(items);
+  });
+
+  it('should not depend on the order of the input array', () => {
+    const shuffled = [items[2]!, items[0]!, items[1]!];
+
+    expect(reorderPositions(shuffled, 'c', 0).map((t) => t.id)).toEqual(['c', 'a', 'b']);
+  });
+
+  it('should keep extra fields of each item', () => {
+    const todos = [
+      { id: 'a', position: 0, title: 'A' },
+      { id: 'b', position: 1, title: 'B' },
+    ];
+
+    expect(reorderPositions(todos, 'b', 0)).toEqual([
+      { id: 'b', position: 0, title: 'B' },
+      { id: 'a', position: 1, title: 'A' },
+    ]);
+  });
+});
+
+describe('siblingsOf', () => {
+  const items = [{ id: 'a' }, { id: 'b', parentId: 'a' }, { id: 'c', parentId: null }];
+
+  it('should return root items for a null or undefined parent', () => {
+    expect(siblingsOf(items, null).map((item) => item.id)).toEqual(['a', 'c']);
+    expect(siblingsOf(items, undefined).map((item) => item.id)).toEqual(['a', 'c']);
+  });
+
+  it('should return the children of a parent', () => {
+    expect(siblingsOf(items, 'a').map((item) => item.id)).toEqual(['b']);
+  });
+});
+
+describe('reorderWithinParent', () => {
+  const items = [
+    { id: 'a' },
+    { id: 'b', parentId: 'a' },
+    { id: 'c' },
+    { id: 'd', parentId: 'a' },
+    { id: 'e', parentId: 'a' },
+  ];
+
+  it('should reorder siblings in their own slots and keep other items in place', () => {
+    expect(reorderWithinParent(items, 'e', 0).map((item) => item.id)).toEqual([
+      'a',
+      'e',
+      'c',
+      'b',
+      'd',
+    ]);
+  });
+
+  it('should reorder root items', () => {
+    expect(reorderWithinParent(items, 'a', 1).map((item) => item.id)).toEqual([
+      'c',
+      'b',
+      'a',
+      'd',
+      'e',
+    ]);
+  });
+
+  it('should return the input unchanged for an unknown ID', () => {
+    expect(reorderWithinParent(items, 'x', 0)).toBe(items);
+  });
+});
+
+describe('applyOrder', () => {
+  const items = [
+    { id: 'a', position: 0 },
+    { id: 'b', position: 1 },
+    { id: 'c', position: 2 },
+  ];
+
+  it('should assign positions in the order of ids', () => {
+    expect(applyOrder(items, ['c', 'a', 'b'])).toEqual([
+      { id: 'c', position: 0 },
+      { id: 'a', position: 1 },
+      { id: 'b', position: 2 },
+    ]);
+  });
+
+  it.each([[['a', 'b']], [['a', 'b', 'b']], [['a', 'b', 'x']], [['a', 'b', 'c', 'x']]])(
+    'should throw RangeError when ids is %j',
+    (ids) => {
+      expect(() => applyOrder(items, ids)).toThrow(RangeError);
+    }
+  );
+});
+
+describe('assertPositionInRange', () => {
+  it('should accept positions from 0 to count - 1', () => {
+    expect(() => assertPositionInRange(0, 3)).not.toThrow();
+    expect(() => assertPositionInRange(2, 3)).not.toThrow();
+  });
+
+  it.each([-1, 3, 1.5, NaN])('should throw RangeError for %s', (position) => {
+    expect(() => assertPositionInRange(position, 3)).toThrow(RangeError);
+  });
+});
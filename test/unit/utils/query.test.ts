@@ -0,0 +1,272 @@
+import { describe, it, expect } from 'vitest';
+import { applyListQuery, encodeCursor, decodeCursor, selectFields } from '../../../src/utils/query';
+import type { Todo, TodoListQuery, TodoPage } from '../../../src/models/todo';
+
+const todos: Todo[] = [
+  {
+    id: 'c',
+    title: 'Buy milk',
+    completed: false,
+    createdAt: '2025-10-27T10:02:00.000Z',
+    position: 0,
+    version: 1,
+  },
+  {
+    id: 'a',
+    title: 'Write report',
+    completed: true,
+    createdAt: '2025-10-27T10:00:00.000Z',
+    position: 1,
+    version: 1,
+  },
+  {
+    id: 'b',
+    title: 'buy bread',
+    completed: false,
+    createdAt: '2025-10-27T10:01:00.000Z',
+    position: 2,
+    version: 1,
+  },
+];
+
+function ids(result: Todo[] | TodoPage): string[] {
+  return (Array.isArray(result) ? result : result.items).map((todo) => todo.id);
+}
+
+describe('List Query Utilities', () => {
+  describe('encodeCursor() / decodeCursor()', () => {
+    it('should round-trip a cursor with non-ASCII values', () => {
+      const cursor = { sort: 'title' as const, order: 'asc' as const, value: '買い物', id: 'a' };
+
+      const encoded = encodeCursor(cursor);
+
+      expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+      expect(decodeCursor(encoded)).toEqual(cursor);
+    });
+
+    it.each([
+      'not base64!',
+      btoa('not json'),
+      btoa(JSON.stringify({ sort: 'rank', order: 'asc', value: 1, id: 'a' })),
+      btoa(JSON.stringify({ sort: 'priority', order: 'asc', value: 'high', id: 'a' })),
+      btoa(JSON.stringify({ sort: 'position', order: 'asc', value: '1', id: 'a' })),
+      btoa(JSON.stringify({ sort: 'title', order: 'up', value: 'x', id: 'a' })),
+    ])('should return null for malformed cursor %s', (encoded) => {
+      expect(decodeCursor(encoded)).toBeNull();
+    });
+  });
+
+  describe('applyListQuery()', () => {
+    const base: TodoListQuery = { sort: 'position', order: 'asc' };
+
+    it('should return every todo in position order by default', () => {
+      expect(applyListQuery(todos, base)).toEqual(todos);
+    });
+
+    it('should filter by completed', () => {
+      expect(ids(applyListQuery(todos, { ...base, completed: false }))).toEqual(['c', 'b']);
+      expect(ids(applyListQuery(todos, { ...base, completed: true }))).toEqual(['a']);
+    });
+
+    it('should filter by a case-insensitive title substring', () => {
+      expect(ids(applyListQuery(todos, { ...base, q: 'BUY' }))).toEqual(['c', 'b']);
+    });
+
+    it.each([
+      ['createdAt', 'asc', ['a', 'b', 'c']],
+      ['createdAt', 'desc', ['c', 'b', 'a']],
+      ['title', 'asc', ['c', 'a', 'b']],
+      ['position', 'desc', ['b', 'a', 'c']],
+    ] as const)('should sort by %s %s', (sort, order, expected) => {
+      expect(ids(applyListQuery(todos, { sort, order }))).toEqual(expected);
+    });
+
+    describe('parent filter', () => {
+      // c と b は a の子（positionは親ごと）
+      const nested: Todo[] = [
+        { ...todos[0]!, parentId: 'a', position: 0 },
+        { ...todos[1]!, position: 0 },
+        { ...todos[2]!, parentId: 'a', position: 1 },
+        { ...todos[2]!, id: 'd', position: 1 },
+      ];
+
+      it('should return the direct children of a parent or the root todos', () => {
+        expect(ids(applyListQuery(nested, { ...base, parentId: 'a' }))).toEqual(['c', 'b']);
+        expect(ids(applyListQuery(nested, { ...base, parentId: null }))).toEqual(['a', 'd']);
+      });
+
+      it('should sort by the overall order rather than the per-parent position', () => {
+        expect(ids(applyListQuery(nested, base))).toEqual(['c', 'a', 'b', 'd']);
+        expect(ids(applyListQuery(nested, { ...base, order: 'desc' }))).toEqual([
+          'd',
+          'b',
+          'a',
+          'c',
+        ]);
+      });
+    });
+
+    describe('tag filter', () => {
+      const tagged: Todo[] = [
+        { ...todos[0]!, tags: ['work', 'urgent'] },
+        { ...todos[1]!, tags: ['work'] },
+        { ...todos[2]! },
+      ];
+
+      it('should match any of the tags', () => {
+        const query: TodoListQuery = { ...base, tags: ['urgent', 'home'], tagMatch: 'any' };
+
+        expect(ids(applyListQuery(tagged, query))).toEqual(['c']);
+        expect(ids(applyListQuery(tagged, { ...query, tags: ['work'] }))).toEqual(['c', 'a']);
+      });
+
+      it('should match all of the tags', () => {
+        const query: TodoListQuery = { ...base, tags: ['work', 'urgent'], tagMatch: 'all' };
+
+        expect(ids(applyListQuery(tagged, query))).toEqual(['c']);
+      });
+    });
+
+    describe('priority sort', () => {
+      const prioritized: Todo[] = [
+        { ...todos[0]!, priority: 'low' },
+        { ...todos[1]!, priority: 'high' },
+        { ...todos[2]! },
+        { ...todos[2]!, id: 'd', position: 3, priority: 'high' },
+      ];
+
+      it('should sort by priority and keep position order within the same priority', () => {
+        expect(ids(applyListQuery(prioritized, { sort: 'priority', order: 'desc' }))).toEqual([
+          'a',
+          'd',
+          'c',
+          'b',
+        ]);
+        expect(ids(applyListQuery(prioritized, { sort: 'priority', order: 'asc' }))).toEqual([
+          'b',
+          'c',
+          'a',
+          'd',
+        ]);
+      });
+
+      it('should page through todos sorted by priority', () => {
+        const query: TodoListQuery = { sort: 'priority', order: 'desc', page: { limit: 3 } };
+
+        const first = applyListQuery(prioritized, query) as TodoPage;
+        const after = decodeCursor(first.nextCursor!)!;
+        const second = applyListQuery(prioritized, { ...query, page: { limit: 3, after } });
+
+        expect(ids(first)).toEqual(['a', 'd', 'c']);
+        expect(ids(second)).toEqual(['b']);
+      });
+    });
+
+    describe('due filters', () => {
+      const now = Date.parse('2025-11-03T12:00:00Z');
+      const scheduled: Todo[] = [
+        { ...todos[0]!, dueAt: '2025-11-01' },
+        { ...todos[1]!, dueAt: '2025-11-01T09:00:00Z' },
+        { ...todos[2]!, dueAt: '2025-11-05', dueTimezone: 'Asia/Tokyo' },
+        { ...todos[2]!, id: 'd', position: 3 },
+      ];
+
+      it('should filter by a deadline range and exclude todos without a due date', () => {
+        const query = {
+          ...base,
+          dueAfter: Date.parse('2025-11-01'),
+          dueBefore: Date.parse('2025-11-05'),
+        };
+
+        // 'b' の期限は東京での11月5日の終わり（11月5日15時 UTC）のため範囲外
+        expect(ids(applyListQuery(scheduled, query, now))).toEqual(['c', 'a']);
+      });
+
+      it('should include a deadline equal to dueBefore and exclude one equal to dueAfter', () => {
+        const deadline = Date.parse('2025-11-01T09:00:00Z');
+
+        expect(ids(applyListQuery(scheduled, { ...base, dueBefore: deadline }, now))).toEqual([
+          'a',
+        ]);
+        expect(ids(applyListQuery(scheduled, { ...base, dueAfter: deadline }, now))).toEqual([
+          'c',
+          'b',
+        ]);
+      });
+
+      it('should filter by overdue', () => {
+        // 'a' は期限切れだが完了済み
+        expect(ids(applyListQuery(scheduled, { ...base, overdue: true }, now))).toEqual(['c']);
+        expect(ids(applyListQuery(scheduled, { ...base, overdue: false }, now))).toEqual([
+          'a',
+          'b',
+          'd',
+        ]);
+      });
+    });
+
+    it('should return pages that cover every matching todo exactly once', () => {
+      const query: TodoListQuery = { sort: 'createdAt', order: 'desc', page: { limit: 2 } };
+
+      const first = applyListQuery(todos, query) as TodoPage;
+      expect(ids(first)).toEqual(['c', 'b']);
+      expect(first.total).toBe(3);
+      expect(first.nextCursor).not.toBeNull();
+
+      const after = decodeCursor(first.nextCursor!)!;
+      const second = applyListQuery(todos, { ...query, page: { limit: 2, after } }) as TodoPage;
+      expect(ids(second)).toEqual(['a']);
+      expect(second.nextCursor).toBeNull();
+    });
+
+    it('should continue after the cursor when the last todo was deleted', () => {
+      const query: TodoListQuery = { sort: 'createdAt', order: 'asc', page: { limit: 1 } };
+      const first = applyListQuery(todos, query) as TodoPage;
+      const after = decodeCursor(first.nextCursor!)!;
+
+      const remaining = todos.filter((todo) => todo.id !== 'a');
+      const second = applyListQuery(remaining, { ...query, page: { limit: 1, after } }) as TodoPage;
+
+      expect(ids(second)).toEqual(['b']);
+      expect(second.total).toBe(2);
+    });
+
+    it('should return an empty page after the last todo', () => {
+      const after = { sort: 'position' as const, order: 'asc' as const, value: 2, id: 'b' };
+
+      expect(applyListQuery(todos, { ...base, page: { limit: 10, after } })).toEqual({
+        items: [],
+        nextCursor: null,
+        total: 3,
+      });
+    });
+  });
+
+  describe('selectFields()', () => {
+    const withNotes: Todo[] = [{ ...todos[0]!, notes: '# Long notes' }, { ...todos[1]! }];
+
+    it('should keep only the selected fields of each todo', () => {
+      expect(selectFields(withNotes, ['id', 'title'])).toEqual([
+        { id: 'c', title: 'Buy milk' },
+        { id: 'a', title: 'Write report' },
+      ]);
+    });
+
+    it('should omit selected fields the todo does not have', () => {
+      expect(selectFields(withNotes, ['id', 'notes'])).toEqual([
+        { id: 'c', notes: '# Long notes' },
+        { id: 'a' },
+      ]);
+    });
+
+    it('should keep the page shape', () => {
+      const page: TodoPage = { items: withNotes, nextCursor: 'next', total: 3 };
+
+      expect(selectFields(page, ['id'])).toEqual({
+        items: [{ id: 'c' }, { id: 'a' }],
+        nextCursor: 'next',
+        total: 3,
+      });
+    });
+  });
+});
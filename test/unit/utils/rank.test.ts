@@ -0,0 +1,233 @@
+import { describe, it, expect } from 'vitest';
+import {
+  RANK_CONSTRAINTS,
+  rankBetween,
+  rankAfter,
+  rerank,
+  sortByRank,
+  rankForMove,
+  migrateToRanks,
+  toTodos,
+} from '../../../src/utils/rank';
+
+describe('rankBetween', () => {
+  it.each([
+    [null, null],
+    [null, 'i'],
+    ['i', null],
+    ['i', 'j'],
+    ['i', 'i001'],
+    ['a', 'a01'],
+    ['zz', null],
+    [null, '0001'],
+  ])('should generate a rank strictly between %s and %s', (before, after) => {
+    const rank = rankBetween(before, after);
+
+    if (before !== null) expect(rank > before).toBe(true);
+    if (after !== null) expect(rank < after).toBe(true);
+    expect(rank).toMatch(/^[0-9a-z]*[1-9a-z]$/);
+  });
+
+  it('should keep generating ranks when repeatedly inserting at the front', () => {
+    let first = rankAfter(null);
+    for (let i = 0; i < 100; i++) {
+      const rank = rankBetween(null, first);
+      expect(rank < first).toBe(true);
+      first = rank;
+    }
+  });
+
+  it('should throw when before is not less than after', () => {
+    expect(() => rankBetween('j', 'i')).toThrow();
+    expect(() => rankBetween('i', 'i')).toThrow();
+  });
+});
+
+describe('rankAfter', () => {
+  it('should start in the middle of the rank space', () => {
+    expect(rankAfter(null)).toBe('i');
+  });
+
+  it('should generate increasing fixed-width ranks', () => {
+    let last: string | null = null;
+    for (let i = 0; i < 1000; i++) {
+      const rank = rankAfter(last);
+      if (last !== null) expect(rank > last).toBe(true);
+      expect(rank.length).toBeLessThanOrEqual(RANK_CONSTRAINTS.WIDTH);
+      last = rank;
+    }
+  });
+
+  it('should extend the rank at the end of the rank space', () => {
+    const rank = rankAfter('zzzzzz');
+
+    expect(rank > 'zzzzzz').toBe(true);
+  });
+});
+
+describe('rerank', () => {
+  it('should assign increasing ranks in the given order', () => {
+    const result = rerank([{ id: 'c' }, { id: 'a' }, { id: 'b' }]);
+
+    expect(result.map((item) => item.id)).toEqual(['c', 'a', 'b']);
+    expect(sortByRank(result).map((item) => item.id)).toEqual(['c', 'a', 'b']);
+  });
+
+  it('should match repeated rankAfter for short lists', () => {
+    const result = rerank([{ id: 'a' }, { id: 'b' }, { id: 'c' }]);
+
+    expect(result.map((item) => item.rank)).toEqual([
+      rankAfter(null),
+      rankAfter(rankAfter(null)),
+      rankAfter(rankAfter(rankAfter(null))),
+    ]);
+  });
+});
+
+describe('sortByRank', () => {
+  it('should break ties by id', () => {
+    const items = [
+      { id: 'b', rank: 'i' },
+      { id: 'a', rank: 'i' },
+      { id: 'c', rank: 'h' },
+    ];
+
+    expect(sortByRank(items).map((item) => item.id)).toEqual(['c', 'a', 'b']);
+  });
+});
+
+describe('rankForMove', () => {
+  const sorted = rerank([{ id: 'a' }, { id: 'b' }, { id: 'c' }]);
+
+  it.each([
+    ['c', 0, ['c', 'a', 'b']],
+    ['a', 2, ['b', 'c', 'a']],
+    ['a', 1, ['b', 'a', 'c']],
+    ['c', 1, ['a', 'c', 'b']],
+  ])('should move %s to %i with a single new rank', (id, newPosition, expected) => {
+    const rank = rankForMove(sorted, id, newPosition);
+
+    expect(rank).not.toBeNull();
+    const moved = sorted.map((item) => (item.id === id ? { ...item, rank: rank! } : item));
+    expect(sortByRank(moved).map((item) => item.id)).toEqual(expected);
+  });
+
+  it('should return the current rank when position does not change', () => {
+    expect(rankForMove(sorted, 'b', 1)).toBe(sorted[1]!.rank);
+  });
+
+  it('should return null when neighbours share the same rank', () => {
+    const tied = [
+      { id: 'a', rank: 'i' },
+      { id: 'b', rank: 'i' },
+      { id: 'c', rank: 'j' },
+    ];
+
+    expect(rankForMove(tied, 'c', 1)).toBeNull();
+  });
+
+  it('should return null when the new rank would exceed MAX_LENGTH', () => {
+    const long = 'i'.repeat(RANK_CONSTRAINTS.MAX_LENGTH);
+    const crowded = [
+      { id: 'a', rank: long },
+      { id: 'b', rank: `${long}1` },
+      { id: 'c', rank: 'j' },
+    ];
+
+    expect(rankForMove(crowded, 'c', 1)).toBeNull();
+  });
+});
+
+describe('toTodos', () => {
+  it('should sort by rank, drop rank and compute contiguous positions', () => {
+    const stored = [
+      {
+        id: 'b',
+        title: 'B',
+        completed: false,
+        createdAt: '2025-10-27T10:30:00.000Z',
+        rank: 'j',
+        version: 1,
+      },
+      {
+        id: 'a',
+        title: 'A',
+        completed: false,
+        createdAt: '2025-10-27T10:30:00.000Z',
+        rank: 'i',
+        version: 1,
+      },
+    ];
+
+    expect(toTodos(stored)).toEqual([
+      {
+        id: 'a',
+        title: 'A',
+        completed: false,
+        createdAt: '2025-10-27T10:30:00.000Z',
+        position: 0,
+        version: 1,
+      },
+      {
+        id: 'b',
+        title: 'B',
+        completed: false,
+        createdAt: '2025-10-27T10:30:00.000Z',
+        position: 1,
+        version: 1,
+      },
+    ]);
+  });
+
+  it('should compute positions among siblings with the same parent', () => {
+    const stored = ['a', 'b', 'c', 'd'].map((id, i) => ({
+      id,
+      title: id.toUpperCase(),
+      completed: false,
+      createdAt: '2025-10-27T10:30:00.000Z',
+      rank: `i${i}`,
+      version: 1,
+      ...(id === 'b' || id === 'd' ? { parentId: 'a' } : {}),
+    }));
+
+    expect(toTodos(stored).map(({ id, position }) => [id, position])).toEqual([
+      ['a', 0],
+      ['b', 0],
+      ['c', 1],
+      ['d', 1],
+    ]);
+  });
+});
+
+describe('migrateToRanks', () => {
+  const base = { title: 'T', completed: false, createdAt: '2025-10-27T10:30:00.000Z' };
+
+  it('should return records unchanged when all have ranks', () => {
+    const records = [{ ...base, id: 'a', rank: 'i', version: 3 }];
+
+    expect(migrateToRanks(records)).toEqual({ stored: records, migrated: [] });
+  });
+
+  it('should treat records without version as the initial version without rewriting them', () => {
+    const records = [{ ...base, id: 'a', rank: 'i' }];
+
+    expect(migrateToRanks(records)).toEqual({
+      stored: [{ ...base, id: 'a', rank: 'i', version: 1 }],
+      migrated: [],
+    });
+  });
+
+  it('should assign ranks in legacy position order and drop position', () => {
+    const records = [
+      { ...base, id: 'b', position: 1, version: 1 },
+      { ...base, id: 'c' },
+      { ...base, id: 'a', position: 0, version: 1 },
+    ];
+
+    const { stored, migrated } = migrateToRanks(records);
+
+    expect(migrated).toHaveLength(3);
+    expect(sortByRank(stored).map((item) => item.id)).toEqual(['a', 'b', 'c']);
+    expect(stored.every((item) => !('position' in item))).toBe(true);
+  });
+});
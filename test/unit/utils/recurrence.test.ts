@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseRecurrence,
+  formatRecurrence,
+  canonicalizeRecurrence,
+  nextOccurrence,
+  normalizeRecurrence,
+} from '../../../src/utils/recurrence';
+
+describe('Recurrence Utilities', () => {
+  describe('parseRecurrence()', () => {
+    it('should parse every supported part', () => {
+      expect(parseRecurrence('FREQ=WEEKLY;INTERVAL=2;BYDAY=TH,MO;COUNT=10')).toEqual({
+        freq: 'WEEKLY',
+        interval: 2,
+        byDay: ['MO', 'TH'],
+        count: 10,
+      });
+      expect(parseRecurrence('rrule:freq=daily;until=20251231T150000Z')).toEqual({
+        freq: 'DAILY',
+        interval: 1,
+        until: '2025-12-31T15:00:00Z',
+      });
+      expect(parseRecurrence('FREQ=MONTHLY;UNTIL=20261231')).toEqual({
+        freq: 'MONTHLY',
+        interval: 1,
+        until: '2026-12-31',
+      });
+    });
+
+    it.each([
+      '',
+      'INTERVAL=2',
+      'FREQ=YEARLY',
+      'FREQ=DAILY;FREQ=WEEKLY',
+      'FREQ=DAILY;INTERVAL=0',
+      'FREQ=DAILY;INTERVAL=01',
+      'FREQ=DAILY;INTERVAL=366',
+      'FREQ=WEEKLY;BYDAY=XX',
+      'FREQ=WEEKLY;BYDAY=MO,MO',
+      'FREQ=WEEKLY;BYDAY=1MO',
+      'FREQ=MONTHLY;BYDAY=MO',
+      'FREQ=DAILY;UNTIL=20250230',
+      'FREQ=DAILY;UNTIL=2025-12-31',
+      'FREQ=DAILY;COUNT=2;UNTIL=20251231',
+      'FREQ=DAILY;BYSETPOS=1',
+      'FREQ=DAILY;',
+    ])('should reject %s', (value) => {
+      expect(parseRecurrence(value)).toBeNull();
+    });
+  });
+
+  describe('formatRecurrence() / canonicalizeRecurrence()', () => {
+    it('should format the parts in a fixed order and omit INTERVAL=1', () => {
+      expect(formatRecurrence({ freq: 'DAILY', interval: 1 })).toBe('FREQ=DAILY');
+      expect(formatRecurrence({ freq: 'DAILY', interval: 3, until: '2025-12-31T15:00:00Z' })).toBe(
+        'FREQ=DAILY;INTERVAL=3;UNTIL=20251231T150000Z'
+      );
+    });
+
+    it('should canonicalize case, prefix and order', () => {
+      expect(canonicalizeRecurrence('RRULE:byday=th,mo;freq=weekly;interval=1')).toBe(
+        'FREQ=WEEKLY;BYDAY=MO,TH'
+      );
+    });
+  });
+
+  describe('nextOccurrence()', () => {
+    // 2025-11-03 は月曜日
+    it.each([
+      ['FREQ=DAILY', '2025-11-03', '2025-11-04'],
+      ['FREQ=DAILY;INTERVAL=3', '2025-11-03', '2025-11-06'],
+      ['FREQ=DAILY;BYDAY=MO,TU,WE,TH,FR', '2025-11-07', '2025-11-10'],
+      ['FREQ=WEEKLY', '2025-11-03T09:00:00+09:00', '2025-11-10T09:00:00+09:00'],
+      ['FREQ=WEEKLY;BYDAY=MO,TH', '2025-11-03', '2025-11-06'],
+      ['FREQ=WEEKLY;BYDAY=MO,TH', '2025-11-06', '2025-11-10'],
+      ['FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH', '2025-11-06', '2025-11-17'],
+      ['FREQ=MONTHLY', '2025-11-15T17:00:00Z', '2025-12-15T17:00:00Z'],
+      ['FREQ=MONTHLY;INTERVAL=2', '2025-11-15', '2026-01-15'],
+      ['FREQ=MONTHLY', '2025-01-31', '2025-03-31'],
+    ])('should advance %s from %s to %s', (recurrence, dueAt, expected) => {
+      expect(nextOccurrence({ dueAt, recurrence })).toEqual({ dueAt: expected, recurrence });
+    });
+
+    it('should decrement COUNT and stop at the last occurrence', () => {
+      expect(nextOccurrence({ dueAt: '2025-11-03', recurrence: 'FREQ=WEEKLY;COUNT=2' })).toEqual({
+        dueAt: '2025-11-10',
+        recurrence: 'FREQ=WEEKLY;COUNT=1',
+      });
+      expect(nextOccurrence({ dueAt: '2025-11-10', recurrence: 'FREQ=WEEKLY;COUNT=1' })).toBeNull();
+    });
+
+    it('should stop after UNTIL', () => {
+      expect(
+        nextOccurrence({ dueAt: '2025-11-03', recurrence: 'FREQ=WEEKLY;UNTIL=20251110' })
+      ).toEqual({ dueAt: '2025-11-10', recurrence: 'FREQ=WEEKLY;UNTIL=20251110' });
+      expect(
+        nextOccurrence({ dueAt: '2025-11-10', recurrence: 'FREQ=WEEKLY;UNTIL=20251110' })
+      ).toBeNull();
+    });
+
+    it('should compare date-times with a UTC UNTIL as instants', () => {
+      const recurrence = 'FREQ=DAILY;UNTIL=20251104T000000Z';
+      expect(nextOccurrence({ dueAt: '2025-11-03T09:00:00+09:00', recurrence })?.dueAt).toBe(
+        '2025-11-04T09:00:00+09:00'
+      );
+      expect(nextOccurrence({ dueAt: '2025-11-03T10:00:00+09:00', recurrence })).toBeNull();
+    });
+
+    it('should return null without a due date, a rule or a matching day', () => {
+      expect(nextOccurrence({ recurrence: 'FREQ=DAILY' })).toBeNull();
+      expect(nextOccurrence({ dueAt: '2025-11-03' })).toBeNull();
+      expect(
+        nextOccurrence({ dueAt: '2025-11-03', recurrence: 'FREQ=DAILY;INTERVAL=7;BYDAY=TU' })
+      ).toBeNull();
+    });
+  });
+
+  describe('normalizeRecurrence()', () => {
+    it('should remove a null recurrence and keep a rule', () => {
+      expect(normalizeRecurrence({ title: 'A', recurrence: null })).toEqual({ title: 'A' });
+      expect(normalizeRecurrence({ recurrence: 'FREQ=DAILY' })).toEqual({
+        recurrence: 'FREQ=DAILY',
+      });
+    });
+  });
+});
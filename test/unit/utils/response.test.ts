@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { jsonResponse, errorResponse } from '../../../src/utils/response';
+import { jsonResponse, errorResponse, notModifiedResponse } from '../../../src/utils/response';
 import { ERROR_CODES } from '../../../src/models/error';
 
 describe('Response Utilities', () => {
@@ -18,6 +18,13 @@ describe('Response Utilities', () => {
       expect(response.status).toBe(201);
     });
 
+    it('should include additional headers', () => {
+      const response = jsonResponse({ id: '123' }, 200, { ETag: '"1"' });
+
+      expect(response.headers.get('ETag')).toBe('"1"');
+      expect(response.headers.get('Content-Type')).toBe('application/json');
+    });
+
     it('should serialize data to JSON', async () => {
       const data = { id: '123', title: 'Test Todo', completed: false };
       const response = jsonResponse(data, 200);
@@ -55,6 +62,16 @@ describe('Response Utilities', () => {
     });
   });
 
+  describe('notModifiedResponse()', () => {
+    it('should create a 304 response without a body', async () => {
+      const response = notModifiedResponse({ ETag: '"abc"' });
+
+      expect(response.status).toBe(304);
+      expect(response.headers.get('ETag')).toBe('"abc"');
+      expect(await response.text()).toBe('');
+    });
+  });
+
   describe('errorResponse()', () => {
     it('should create error response with standardized format', async () => {
       const response = errorResponse('VALIDATION_ERROR', 'Invalid input', 400);
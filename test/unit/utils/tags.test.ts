@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeTag, normalizeTags, countTags } from '../../../src/utils/tags';
+
+describe('Tag Utilities', () => {
+  describe('normalizeTag()', () => {
+    it('should trim and lowercase a tag', () => {
+      expect(normalizeTag('  Work ')).toBe('work');
+    });
+
+    it('should apply Unicode NFC normalization', () => {
+      // 「か」+ 結合用濁点（U+3099）は「が」と同じタグになる
+      expect(normalizeTag('\u304b\u3099')).toBe('\u304c');
+    });
+  });
+
+  describe('normalizeTags()', () => {
+    it('should remove duplicates after normalization and keep the first order', () => {
+      expect(normalizeTags(['Work', 'urgent', 'work ', 'URGENT'])).toEqual(['work', 'urgent']);
+    });
+
+    it('should return an empty array for no tags', () => {
+      expect(normalizeTags([])).toEqual([]);
+    });
+  });
+
+  describe('countTags()', () => {
+    it('should count todos per tag, most used first, then by name', () => {
+      const todos = [
+        { tags: ['work', 'urgent'] },
+        { tags: ['personal'] },
+        { tags: ['work'] },
+        { tags: [] },
+        {},
+      ];
+
+      expect(countTags(todos)).toEqual([
+        { tag: 'work', count: 2 },
+        { tag: 'personal', count: 1 },
+        { tag: 'urgent', count: 1 },
+      ]);
+    });
+
+    it('should return an empty array when no todo has tags', () => {
+      expect(countTags([{}, { tags: [] }])).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { isValidTenantId, tenantKeyPrefix } from '../../../src/utils/tenant';
+
+describe('Tenant Utilities', () => {
+  describe('isValidTenantId()', () => {
+    it('should accept letters, digits, hyphens and underscores', () => {
+      for (const id of ['default', 'team-a', 'Team_B', '0', 'a'.repeat(64)]) {
+        expect(isValidTenantId(id)).toBe(true);
+      }
+    });
+
+    it('should reject other values', () => {
+      for (const id of ['', 'a'.repeat(65), 'team a', 'team:a', 't.b', 42, null]) {
+        expect(isValidTenantId(id)).toBe(false);
+      }
+    });
+  });
+
+  describe('tenantKeyPrefix()', () => {
+    it('should return an empty prefix for the default tenant', () => {
+      expect(tenantKeyPrefix('default')).toBe('');
+    });
+
+    it('should namespace other tenants', () => {
+      expect(tenantKeyPrefix('team-a')).toBe('t:team-a:');
+    });
+  });
+});
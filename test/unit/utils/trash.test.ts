@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest';
+import {
+  toTrashedTodo,
+  sortTrash,
+  restoredRank,
+  expiredTrashIds,
+  purgeExpiredTrash,
+  cascadedTrash,
+  toStoredTrashedTodo,
+} from '../../../src/utils/trash';
+import { InMemoryStorage } from '../../../src/storage/memory';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('Trash Utilities', () => {
+  describe('toStoredTrashedTodo()', () => {
+    const stored = {
+      id: 'a',
+      title: 'A',
+      completed: false,
+      createdAt: '2025-10-27T10:30:00.000Z',
+      version: 1,
+      rank: 'i',
+    };
+    const deletedAt = '2025-11-01T09:00:00.000Z';
+
+    it('should add deletedAt', () => {
+      expect(toStoredTrashedTodo(stored, deletedAt)).toEqual({ ...stored, deletedAt });
+    });
+
+    it('should record the root of the cascade group', () => {
+      expect(toStoredTrashedTodo(stored, deletedAt, 'root')).toEqual({
+        ...stored,
+        deletedAt,
+        deletedWith: 'root',
+      });
+    });
+  });
+
+  describe('toTrashedTodo()', () => {
+    it('should remove the rank', () => {
+      expect(
+        toTrashedTodo({
+          id: 'a',
+          title: 'A',
+          completed: false,
+          createdAt: '2025-10-27T10:30:00.000Z',
+          version: 1,
+          rank: 'i',
+          deletedAt: '2025-11-01T09:00:00.000Z',
+        })
+      ).toEqual({
+        id: 'a',
+        title: 'A',
+        completed: false,
+        createdAt: '2025-10-27T10:30:00.000Z',
+        version: 1,
+        deletedAt: '2025-11-01T09:00:00.000Z',
+      });
+    });
+  });
+
+  describe('sortTrash()', () => {
+    it('should sort by deletedAt descending, then by ID', () => {
+      const trash = [
+        { id: 'b', deletedAt: '2025-11-01T09:00:00.000Z' },
+        { id: 'c', deletedAt: '2025-11-02T09:00:00.000Z' },
+        { id: 'a', deletedAt: '2025-11-01T09:00:00.000Z' },
+      ];
+
+      expect(sortTrash(trash).map((todo) => todo.id)).toEqual(['c', 'a', 'b']);
+      expect(trash.map((todo) => todo.id)).toEqual(['b', 'c', 'a']);
+    });
+  });
+
+  describe('restoredRank()', () => {
+    it('should keep the original rank or append after the last rank', () => {
+      expect(restoredRank({ rank: 'c' }, 'original', 'k')).toBe('c');
+      expect(restoredRank({ rank: 'c' }, 'last', 'k') > 'k').toBe(true);
+      expect(restoredRank({ rank: 'c' }, 'last', null)).toMatch(/^[0-9a-z]+$/);
+    });
+  });
+
+  describe('cascadedTrash()', () => {
+    it('should return the descendants trashed with the todo, parents first', () => {
+      const root: { id: string; parentId?: string; deletedWith?: string } = { id: 'root' };
+      const trash = [
+        { id: 'grandchild', parentId: 'child', deletedWith: 'root' },
+        root,
+        { id: 'child', parentId: 'root', deletedWith: 'root' },
+        { id: 'earlier', parentId: 'root' },
+        { id: 'other', deletedWith: 'another' },
+      ];
+
+      expect(cascadedTrash(trash, root).map((todo) => todo.id)).toEqual(['child', 'grandchild']);
+      expect(cascadedTrash(trash, trash[3]!)).toEqual([]);
+    });
+
+    it('should return only the descendants of a todo in the middle of the group', () => {
+      const trash = [
+        { id: 'root' },
+        { id: 'child', parentId: 'root', deletedWith: 'root' },
+        { id: 'grandchild', parentId: 'child', deletedWith: 'root' },
+        { id: 'sibling', parentId: 'root', deletedWith: 'root' },
+      ];
+
+      expect(cascadedTrash(trash, trash[1]!).map((todo) => todo.id)).toEqual(['grandchild']);
+    });
+  });
+
+  describe('expiredTrashIds()', () => {
+    it('should return todos deleted at least retentionDays ago', () => {
+      const now = Date.parse('2025-11-30T00:00:00.000Z');
+      const trash = [
+        { id: 'old', deletedAt: new Date(now - 31 * DAY_MS).toISOString() },
+        { id: 'edge', deletedAt: new Date(now - 30 * DAY_MS).toISOString() },
+        { id: 'recent', deletedAt: new Date(now - 29 * DAY_MS).toISOString() },
+      ];
+
+      expect(expiredTrashIds(trash, 30, now)).toEqual(['old', 'edge']);
+      expect(expiredTrashIds(trash, 60, now)).toEqual([]);
+    });
+  });
+
+  describe('purgeExpiredTrash()', () => {
+    it('should purge expired todos and return the rest', async () => {
+      const storage = new InMemoryStorage([
+        {
+          id: 'a',
+          title: 'A',
+          completed: false,
+          createdAt: '2025-10-27T10:30:00.000Z',
+          position: 0,
+          version: 1,
+        },
+        {
+          id: 'b',
+          title: 'B',
+          completed: false,
+          createdAt: '2025-10-27T10:30:00.000Z',
+          position: 1,
+          version: 1,
+        },
+      ]);
+      const now = Date.parse('2025-11-30T00:00:00.000Z');
+      await storage.trash('a', new Date(now - 10 * DAY_MS).toISOString());
+      await storage.trash('b', new Date(now - DAY_MS).toISOString());
+
+      const remaining = await purgeExpiredTrash(storage, 7, now);
+
+      expect(remaining.map((todo) => todo.id)).toEqual(['b']);
+      expect((await storage.getTrash()).map((todo) => todo.id)).toEqual(['b']);
+    });
+  });
+});
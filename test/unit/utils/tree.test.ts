@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ancestorIds,
+  descendantIds,
+  subtreeHeight,
+  normalizeParent,
+  buildTree,
+  completedSubtreeIds,
+} from '../../../src/utils/tree';
+import type { Todo } from '../../../src/models/todo';
+
+function todo(id: string, parentId?: string): Todo {
+  return {
+    id,
+    title: id.toUpperCase(),
+    completed: false,
+    createdAt: '2025-10-27T10:30:00.000Z',
+    position: 0,
+    version: 1,
+    ...(parentId ? { parentId } : {}),
+  };
+}
+
+// a ─┬─ b ── d
+//    └─ c
+// e
+const todos = [todo('a'), todo('b', 'a'), todo('c', 'a'), todo('d', 'b'), todo('e')];
+
+describe('ancestorIds', () => {
+  it('should return the ancestors from the parent to the root', () => {
+    expect(ancestorIds(todos, 'd')).toEqual(['b', 'a']);
+    expect(ancestorIds(todos, 'a')).toEqual([]);
+  });
+
+  it('should stop at a cycle in stored data', () => {
+    expect(ancestorIds([todo('x', 'y'), todo('y', 'x')], 'x')).toEqual(['y']);
+  });
+});
+
+describe('descendantIds', () => {
+  it('should return every descendant with parents before children', () => {
+    expect(descendantIds(todos, 'a')).toEqual(['b', 'c', 'd']);
+    expect(descendantIds(todos, 'e')).toEqual([]);
+  });
+});
+
+describe('subtreeHeight', () => {
+  it('should count the levels of a subtree', () => {
+    expect(subtreeHeight(todos, 'a')).toBe(3);
+    expect(subtreeHeight(todos, 'b')).toBe(2);
+    expect(subtreeHeight(todos, 'e')).toBe(1);
+  });
+});
+
+describe('completedSubtreeIds', () => {
+  const complete = (item: Todo): Todo => ({ ...item, completed: true });
+
+  it('should return completed todos whose descendants are all completed', () => {
+    const items = [
+      complete(todo('a')),
+      complete(todo('b', 'a')),
+      todo('c', 'a'),
+      complete(todo('d', 'b')),
+      complete(todo('e')),
+    ];
+    expect(completedSubtreeIds(items)).toEqual(['b', 'd', 'e']);
+  });
+
+  it('should return [] when nothing is completed', () => {
+    expect(completedSubtreeIds(todos)).toEqual([]);
+  });
+});
+
+describe('normalizeParent', () => {
+  it('should remove a null parentId', () => {
+    expect(normalizeParent({ ...todo('a'), parentId: null })).toEqual(todo('a'));
+  });
+
+  it('should keep a parentId', () => {
+    expect(normalizeParent(todo('b', 'a'))).toEqual(todo('b', 'a'));
+  });
+});
+
+describe('buildTree', () => {
+  it('should nest children in order', () => {
+    const tree = buildTree(todos, 'a', (item) => item);
+
+    expect(tree?.id).toBe('a');
+    expect(tree?.children.map((child) => child.id)).toEqual(['b', 'c']);
+    expect(tree?.children[0]?.children.map((child) => child.id)).toEqual(['d']);
+    expect(tree?.children[1]?.children).toEqual([]);
+  });
+
+  it('should decorate every todo', () => {
+    const tree = buildTree(todos, 'b', (item) => ({ ...item, progress: { done: 0, total: 1 } }));
+
+    expect(tree?.progress).toEqual({ done: 0, total: 1 });
+    expect(tree?.children[0]?.progress).toEqual({ done: 0, total: 1 });
+  });
+
+  it('should return null for an unknown ID', () => {
+    expect(buildTree(todos, 'x', (item) => item)).toBeNull();
+  });
+});
@@ -3,9 +3,28 @@ import {
   validateTodoInput,
   validateId,
   validateTodoCount,
+  resolveMaxTodoCount,
+  resolveTrashRetentionDays,
+  validateReorderInput,
+  validateOrderInput,
+  validateListQuery,
+  validateDueInput,
+  isValidPriority,
+  validateTagsInput,
+  validateNotesInput,
+  validateChecklistItemInput,
+  validateParent,
+  isValidRecurrence,
+  validateListId,
+  validateListInput,
+  validateMoveToListInput,
+  validateApiKeyInput,
+  VALIDATION_ERRORS,
   ValidationResult,
 } from '../../../src/utils/validation';
+import { encodeCursor } from '../../../src/utils/query';
 import { TODO_CONSTRAINTS } from '../../../src/models/todo';
+import type { Todo } from '../../../src/models/todo';
 
 describe('Validation Utilities', () => {
   describe('validateTodoInput()', () => {
@@ -178,6 +197,166 @@ describe('Validation Utilities', () => {
       });
     });
 
+    describe('Priority Validation', () => {
+      it.each(['none', 'low', 'medium', 'high', 'urgent'])(
+        'should accept priority %s',
+        (priority) => {
+          expect(validateTodoInput({ title: 'Valid Todo', priority }).valid).toBe(true);
+        }
+      );
+
+      it.each(['critical', 'HIGH', 3, null])('should reject priority %s', (priority) => {
+        const result = validateTodoInput({ title: 'Valid Todo', priority });
+
+        expect(result.valid).toBe(false);
+        expect(result.error).toContain('priority');
+      });
+
+      it('should treat an omitted priority as valid', () => {
+        expect(isValidPriority(undefined)).toBe(true);
+      });
+    });
+
+    describe('Tags Validation', () => {
+      it('should accept an array of tags', () => {
+        expect(validateTodoInput({ title: 'Valid Todo', tags: ['work', '買い物'] }).valid).toBe(
+          true
+        );
+      });
+
+      it.each([
+        ['a string', 'work'],
+        ['a non-string tag', ['work', 1]],
+        ['an empty tag', ['  ']],
+        ['a tag with control characters', ['wo\x00rk']],
+        ['a tag exceeding 50 characters', ['a'.repeat(51)]],
+      ])('should reject %s', (_label, tags) => {
+        const result = validateTodoInput({ title: 'Valid Todo', tags });
+
+        expect(result.valid).toBe(false);
+        expect(result.error).toMatch(/tag/i);
+      });
+
+      it('should limit the number of tags after removing duplicates', () => {
+        const tags = Array.from({ length: 20 }, (_, i) => `tag${i}`);
+
+        expect(validateTagsInput(tags).valid).toBe(true);
+        expect(validateTagsInput([...tags, 'TAG0']).valid).toBe(true);
+        expect(validateTagsInput([...tags, 'tag20']).valid).toBe(false);
+      });
+    });
+
+    describe('Notes Validation', () => {
+      it('should accept multi-line Markdown notes', () => {
+        const notes = '## 手順\n\n- 牛乳\n- 卵\n\t`code`';
+
+        expect(validateTodoInput({ title: 'Valid Todo', notes }).valid).toBe(true);
+      });
+
+      it('should accept notes with 10000 characters and reject longer notes', () => {
+        expect(validateNotesInput('a'.repeat(10000)).valid).toBe(true);
+        expect(validateNotesInput('a'.repeat(10001))).toEqual({
+          valid: false,
+          error: VALIDATION_ERRORS.NOTES_TOO_LONG,
+        });
+      });
+
+      it('should reject non-string notes', () => {
+        expect(validateTodoInput({ title: 'Valid Todo', notes: 1 })).toEqual({
+          valid: false,
+          error: VALIDATION_ERRORS.NOTES_INVALID_TYPE,
+        });
+      });
+    });
+
+    describe('AutoComplete Validation', () => {
+      it('should accept a boolean and reject other types', () => {
+        expect(validateTodoInput({ title: 'Valid Todo', autoComplete: true }).valid).toBe(true);
+        expect(validateTodoInput({ title: 'Valid Todo', autoComplete: 'yes' })).toEqual({
+          valid: false,
+          error: VALIDATION_ERRORS.AUTO_COMPLETE_INVALID_TYPE,
+        });
+      });
+    });
+
+    describe('ParentId Validation', () => {
+      it('should accept a UUID v4 or null and reject other values', () => {
+        const parentId = '550e8400-e29b-41d4-a716-446655440000';
+
+        expect(validateTodoInput({ title: 'Valid Todo', parentId }).valid).toBe(true);
+        expect(validateTodoInput({ title: 'Valid Todo', parentId: null }).valid).toBe(true);
+        expect(validateTodoInput({ title: 'Valid Todo', parentId: 'parent' })).toEqual({
+          valid: false,
+          error: VALIDATION_ERRORS.PARENT_ID_INVALID,
+        });
+      });
+    });
+
+    describe('Recurrence Validation', () => {
+      it('should accept a supported rule with a due date', () => {
+        expect(
+          validateTodoInput({
+            title: 'Take out the trash',
+            dueAt: '2025-11-03',
+            recurrence: 'FREQ=WEEKLY;BYDAY=MO,TH',
+          }).valid
+        ).toBe(true);
+      });
+
+      it('should reject an unsupported rule', () => {
+        expect(
+          validateTodoInput({ title: 'Pay rent', dueAt: '2025-11-01', recurrence: 'FREQ=YEARLY' })
+        ).toEqual({ valid: false, error: VALIDATION_ERRORS.RECURRENCE_INVALID });
+      });
+
+      it('should require dueAt', () => {
+        expect(validateTodoInput({ title: 'Water plants', recurrence: 'FREQ=DAILY' })).toEqual({
+          valid: false,
+          error: VALIDATION_ERRORS.RECURRENCE_REQUIRES_DUE,
+        });
+      });
+    });
+
+    describe('Due Validation', () => {
+      it('should accept an all-day date with a time zone', () => {
+        const result = validateTodoInput({
+          title: 'Pay rent',
+          dueAt: '2025-11-01',
+          dueTimezone: 'Asia/Tokyo',
+        });
+
+        expect(result.valid).toBe(true);
+      });
+
+      it('should accept a date-time with an offset', () => {
+        const result = validateTodoInput({ title: 'Call', dueAt: '2025-11-01T17:00:00+09:00' });
+
+        expect(result.valid).toBe(true);
+      });
+
+      it('should reject a date-time without an offset', () => {
+        const result = validateTodoInput({ title: 'Call', dueAt: '2025-11-01T17:00:00' });
+
+        expect(result.valid).toBe(false);
+        expect(result.error).toContain('dueAt');
+      });
+
+      it('should reject an unknown time zone', () => {
+        const result = validateTodoInput({
+          title: 'Call',
+          dueAt: '2025-11-01',
+          dueTimezone: 'Tokyo',
+        });
+
+        expect(result.valid).toBe(false);
+        expect(result.error).toContain('dueTimezone');
+      });
+
+      it('should accept null to clear the due date', () => {
+        expect(validateDueInput({ dueAt: null, dueTimezone: null }).valid).toBe(true);
+      });
+    });
+
     describe('Edge Cases', () => {
       it('should handle undefined input', () => {
         const result = validateTodoInput(undefined as any);
@@ -336,6 +515,14 @@ describe('Validation Utilities', () => {
       expect(result.valid).toBe(false);
     });
 
+    it('should use the given maximum count', () => {
+      expect(validateTodoCount(500, 5000).valid).toBe(true);
+
+      const result = validateTodoCount(5000, 5000);
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain('5000');
+    });
+
     describe('Edge Cases', () => {
       it('should handle negative count', () => {
         const result = validateTodoCount(-1);
@@ -353,6 +540,418 @@ describe('Validation Utilities', () => {
     });
   });
 
+  describe('validateChecklistItemInput()', () => {
+    it('should require text when adding an item', () => {
+      expect(validateChecklistItemInput({ text: 'Milk' })).toEqual({ valid: true });
+      expect(validateChecklistItemInput({ text: 'Milk', done: true })).toEqual({ valid: true });
+      expect(validateChecklistItemInput({ done: true }).error).toBe(
+        VALIDATION_ERRORS.ITEM_TEXT_INVALID
+      );
+    });
+
+    it('should accept either field when updating an item', () => {
+      expect(validateChecklistItemInput({ done: false }, true)).toEqual({ valid: true });
+      expect(validateChecklistItemInput({ text: 'Eggs' }, true)).toEqual({ valid: true });
+      expect(validateChecklistItemInput({}, true).error).toBe(VALIDATION_ERRORS.ITEM_UPDATE_EMPTY);
+    });
+
+    it.each([
+      ['an empty text', { text: '' }],
+      ['a text exceeding 500 characters', { text: 'a'.repeat(501) }],
+      ['a text with control characters', { text: 'Milk\n' }],
+      ['a non-boolean done', { text: 'Milk', done: 'yes' }],
+      ['a non-object input', null],
+    ])('should reject %s', (_label, input) => {
+      expect(validateChecklistItemInput(input).valid).toBe(false);
+    });
+  });
+
+  describe('isValidRecurrence()', () => {
+    it('should accept undefined, null and supported rules', () => {
+      expect(isValidRecurrence(undefined)).toBe(true);
+      expect(isValidRecurrence(null)).toBe(true);
+      expect(isValidRecurrence('RRULE:FREQ=MONTHLY;INTERVAL=3;COUNT=4')).toBe(true);
+    });
+
+    it('should reject unsupported rules and non-strings', () => {
+      expect(isValidRecurrence('FREQ=MONTHLY;BYDAY=MO')).toBe(false);
+      expect(isValidRecurrence('FREQ=DAILY;COUNT=3;UNTIL=20251231')).toBe(false);
+      expect(isValidRecurrence({ freq: 'DAILY' })).toBe(false);
+    });
+  });
+
+  describe('validateParent()', () => {
+    const todo = (id: string, parentId?: string): Todo => ({
+      id,
+      title: id,
+      completed: false,
+      createdAt: '2025-10-27T10:30:00.000Z',
+      position: 0,
+      version: 1,
+      ...(parentId ? { parentId } : {}),
+    });
+    // a ── b ── c
+    const todos = [todo('a'), todo('b', 'a'), todo('c', 'b'), todo('d')];
+
+    it('should accept no parent and an existing parent', () => {
+      expect(validateParent(todos, undefined)).toEqual({ valid: true });
+      expect(validateParent(todos, null, 'c')).toEqual({ valid: true });
+      expect(validateParent(todos, 'c')).toEqual({ valid: true });
+      expect(validateParent(todos, 'd', 'a')).toEqual({ valid: true });
+    });
+
+    it('should reject a parent that does not exist', () => {
+      expect(validateParent(todos, 'x').error).toBe(VALIDATION_ERRORS.PARENT_NOT_FOUND);
+    });
+
+    it('should reject the todo itself and its descendants', () => {
+      expect(validateParent(todos, 'a', 'a').error).toBe(VALIDATION_ERRORS.PARENT_CYCLE);
+      expect(validateParent(todos, 'c', 'a').error).toBe(VALIDATION_ERRORS.PARENT_CYCLE);
+    });
+
+    it('should reject nesting deeper than MAX_DEPTH including the moved subtree', () => {
+      const chain = Array.from({ length: TODO_CONSTRAINTS.MAX_DEPTH }, (_, i) =>
+        todo(`n${i}`, i === 0 ? undefined : `n${i - 1}`)
+      );
+      const last = `n${TODO_CONSTRAINTS.MAX_DEPTH - 1}`;
+
+      expect(validateParent(chain, last).error).toBe(VALIDATION_ERRORS.DEPTH_EXCEEDED);
+      expect(validateParent([...chain, ...todos], 'n2', 'a').error).toBe(
+        VALIDATION_ERRORS.DEPTH_EXCEEDED
+      );
+      expect(validateParent([...chain, ...todos], 'n1', 'a')).toEqual({ valid: true });
+    });
+  });
+
+  describe('validateReorderInput()', () => {
+    it('should accept a non-negative integer newPosition', () => {
+      expect(validateReorderInput({ newPosition: 0 }).valid).toBe(true);
+      expect(validateReorderInput({ newPosition: 3 }).valid).toBe(true);
+    });
+
+    it.each([-1, 1.5, '1', null, undefined])('should reject newPosition %s', (newPosition) => {
+      const result = validateReorderInput({ newPosition });
+
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain('newPosition');
+    });
+
+    it('should reject non-object input', () => {
+      expect(validateReorderInput(null).valid).toBe(false);
+      expect(validateReorderInput(0).valid).toBe(false);
+    });
+  });
+
+  describe('validateOrderInput()', () => {
+    const id1 = '550e8400-e29b-41d4-a716-446655440000';
+    const id2 = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+
+    it('should accept an array of unique UUID v4 strings', () => {
+      expect(validateOrderInput({ ids: [id2, id1] }).valid).toBe(true);
+      expect(validateOrderInput({ ids: [] }).valid).toBe(true);
+    });
+
+    it('should reject missing or non-array ids', () => {
+      expect(validateOrderInput({}).valid).toBe(false);
+      expect(validateOrderInput({ ids: id1 }).valid).toBe(false);
+    });
+
+    it('should reject invalid IDs', () => {
+      expect(validateOrderInput({ ids: [id1, 'not-a-uuid'] }).valid).toBe(false);
+    });
+
+    it('should reject duplicate IDs', () => {
+      const result = validateOrderInput({ ids: [id1, id1] });
+
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain('duplicates');
+    });
+  });
+
+  describe('resolveMaxTodoCount()', () => {
+    it.each([undefined, '', '  '])('should return the default for %o', (value) => {
+      expect(resolveMaxTodoCount(value)).toBe(TODO_CONSTRAINTS.MAX_TODO_COUNT);
+    });
+
+    it('should parse a positive integer', () => {
+      expect(resolveMaxTodoCount(' 5000 ')).toBe(5000);
+    });
+
+    it.each(['0', '-1', '1.5', '1e3', 'many', '99999999999999999999'])(
+      'should throw for %o',
+      (value) => {
+        expect(() => resolveMaxTodoCount(value)).toThrow('MAX_TODOS');
+      }
+    );
+  });
+
+  describe('resolveTrashRetentionDays()', () => {
+    it.each([undefined, '', '  '])('should return the default for %o', (value) => {
+      expect(resolveTrashRetentionDays(value)).toBe(TODO_CONSTRAINTS.TRASH_RETENTION_DAYS);
+    });
+
+    it('should parse a positive integer', () => {
+      expect(resolveTrashRetentionDays(' 7 ')).toBe(7);
+    });
+
+    it.each(['0', '-1', '1.5', 'forever'])('should throw for %o', (value) => {
+      expect(() => resolveTrashRetentionDays(value)).toThrow('TRASH_RETENTION_DAYS');
+    });
+  });
+
+  describe('validateListQuery()', () => {
+    it('should apply defaults and return a bare list query without pagination', () => {
+      const result = validateListQuery({});
+
+      expect(result).toEqual({ valid: true, query: { sort: 'position', order: 'asc' } });
+    });
+
+    it('should convert filters, sort and limit', () => {
+      const result = validateListQuery({
+        completed: 'false',
+        q: 'milk',
+        sort: 'title',
+        order: 'desc',
+        limit: '20',
+        unknown: 'ignored',
+      });
+
+      expect(result.query).toEqual({
+        completed: false,
+        q: 'milk',
+        sort: 'title',
+        order: 'desc',
+        page: { limit: 20 },
+      });
+    });
+
+    it('should convert due filters', () => {
+      const result = validateListQuery({
+        dueAfter: '2025-11-01',
+        dueBefore: '2025-11-08T00:00:00+09:00',
+        overdue: 'true',
+      });
+
+      expect(result.query).toEqual({
+        dueAfter: Date.parse('2025-11-01T00:00:00Z'),
+        dueBefore: Date.parse('2025-11-07T15:00:00Z'),
+        overdue: true,
+        sort: 'position',
+        order: 'asc',
+      });
+    });
+
+    it('should normalize repeated tag parameters', () => {
+      const result = validateListQuery({ tagMatch: 'all' }, ['Work', 'urgent', 'work']);
+
+      expect(result.query).toEqual({
+        tags: ['work', 'urgent'],
+        tagMatch: 'all',
+        sort: 'position',
+        order: 'asc',
+      });
+    });
+
+    it('should default tagMatch to any and ignore it without tags', () => {
+      expect(validateListQuery({}, ['work']).query?.tagMatch).toBe('any');
+      expect(validateListQuery({ tagMatch: 'all' }).query).not.toHaveProperty('tagMatch');
+    });
+
+    it('should convert fields and remove duplicates', () => {
+      const result = validateListQuery({ fields: 'id, title,completed,id' });
+
+      expect(result.query).toEqual({
+        sort: 'position',
+        order: 'asc',
+        fields: ['id', 'title', 'completed'],
+      });
+    });
+
+    it('should convert parent to a parent ID or null for root', () => {
+      const id = '550e8400-e29b-41d4-a716-446655440000';
+
+      expect(validateListQuery({ parent: id }).query?.parentId).toBe(id);
+      expect(validateListQuery({ parent: 'root' }).query?.parentId).toBeNull();
+      expect(validateListQuery({}).query).not.toHaveProperty('parentId');
+    });
+
+    it('should convert archived to a boolean', () => {
+      expect(validateListQuery({ archived: 'true' }).query?.archived).toBe(true);
+      expect(validateListQuery({ archived: 'false' }).query?.archived).toBe(false);
+      expect(validateListQuery({}).query).not.toHaveProperty('archived');
+    });
+
+    it('should treat an empty q as no filter', () => {
+      expect(validateListQuery({ q: '' }).query).not.toHaveProperty('q');
+    });
+
+    it('should use the default limit when only cursor is given', () => {
+      const cursor = encodeCursor({ sort: 'position', order: 'asc', value: 0, id: 'a' });
+
+      const result = validateListQuery({ cursor });
+
+      expect(result.query?.page).toEqual({
+        limit: TODO_CONSTRAINTS.DEFAULT_PAGE_LIMIT,
+        after: { sort: 'position', order: 'asc', value: 0, id: 'a' },
+      });
+    });
+
+    it.each([
+      [{ completed: 'yes' }, 'completed'],
+      [{ q: 'a'.repeat(501) }, 'q'],
+      [{ sort: 'rank' }, 'sort'],
+      [{ order: 'up' }, 'order'],
+      [{ limit: '0' }, 'limit'],
+      [{ limit: '101' }, 'limit'],
+      [{ limit: '1.5' }, 'limit'],
+      [{ limit: 'abc' }, 'limit'],
+      [{ cursor: 'invalid' }, 'cursor'],
+      [{ dueBefore: 'tomorrow' }, 'dueBefore'],
+      [{ dueAfter: '2025-11-01T10:00:00' }, 'dueAfter'],
+      [{ overdue: 'yes' }, 'overdue'],
+      [{ tagMatch: 'some' }, 'tagMatch'],
+      [{ parent: 'top' }, 'parent'],
+      [{ archived: 'yes' }, 'archived'],
+      [{ fields: 'id,rank' }, 'fields'],
+      [{ fields: '' }, 'fields'],
+    ])('should reject %o', (params, field) => {
+      const result = validateListQuery(params);
+
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain(field);
+    });
+
+    it('should reject an invalid tag parameter', () => {
+      const result = validateListQuery({}, ['a'.repeat(51)]);
+
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain('tag');
+    });
+
+    it('should reject a cursor issued for a different sort', () => {
+      const cursor = encodeCursor({ sort: 'position', order: 'asc', value: 0, id: 'a' });
+
+      const result = validateListQuery({ cursor, sort: 'title' });
+
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain('cursor');
+    });
+  });
+
+  describe('validateListId()', () => {
+    it('should accept "default" and UUID v4 list IDs', () => {
+      expect(validateListId('default')).toBe(true);
+      expect(validateListId('550e8400-e29b-41d4-a716-446655440000')).toBe(true);
+    });
+
+    it('should reject other values', () => {
+      expect(validateListId('Default')).toBe(false);
+      expect(validateListId('sprint')).toBe(false);
+      expect(validateListId(undefined)).toBe(false);
+    });
+  });
+
+  describe('validateListInput()', () => {
+    it('should accept a name of 1-100 characters after trimming', () => {
+      expect(validateListInput({ name: 'Sprint' })).toEqual({ valid: true });
+      expect(validateListInput({ name: ` ${'a'.repeat(100)} ` })).toEqual({ valid: true });
+    });
+
+    it('should reject a missing, blank, too long or control-character name', () => {
+      for (const name of [undefined, 42, '', '   ', 'a'.repeat(101), 'Tab\there']) {
+        expect(validateListInput({ name })).toEqual({
+          valid: false,
+          error: VALIDATION_ERRORS.LIST_NAME_INVALID,
+        });
+      }
+      expect(validateListInput(null).valid).toBe(false);
+    });
+  });
+
+  describe('validateMoveToListInput()', () => {
+    it('should accept a valid list ID', () => {
+      expect(validateMoveToListInput({ listId: 'default' })).toEqual({ valid: true });
+    });
+
+    it('should reject a missing or invalid list ID', () => {
+      expect(validateMoveToListInput({})).toEqual({
+        valid: false,
+        error: VALIDATION_ERRORS.LIST_ID_INVALID,
+      });
+      expect(validateMoveToListInput({ listId: 'sprint' }).valid).toBe(false);
+      expect(validateMoveToListInput('default').valid).toBe(false);
+    });
+  });
+
+  describe('validateApiKeyInput()', () => {
+    const now = new Date('2025-11-01T00:00:00.000Z');
+
+    it('should accept a name, scopes and an optional future expiresAt', () => {
+      expect(validateApiKeyInput({ name: 'Dashboard', scopes: ['todos:read'] }, now)).toEqual({
+        valid: true,
+      });
+      expect(
+        validateApiKeyInput(
+          { name: 'Bot', scopes: ['todos:read', 'todos:write'], expiresAt: '2026-01-01T00:00:00Z' },
+          now
+        )
+      ).toEqual({ valid: true });
+    });
+
+    it('should reject an invalid name', () => {
+      for (const name of [undefined, '', '   ', 'a'.repeat(101), 'Tab\there']) {
+        expect(validateApiKeyInput({ name, scopes: ['admin'] }, now)).toEqual({
+          valid: false,
+          error: VALIDATION_ERRORS.API_KEY_NAME_INVALID,
+        });
+      }
+    });
+
+    it('should reject missing, empty or unknown scopes', () => {
+      for (const scopes of [undefined, [], ['todos:export'], 'todos:read']) {
+        expect(validateApiKeyInput({ name: 'Bot', scopes }, now)).toEqual({
+          valid: false,
+          error: VALIDATION_ERRORS.API_KEY_SCOPES_INVALID,
+        });
+      }
+    });
+
+    it('should reject an expiresAt that is not a future date-time with an offset', () => {
+      for (const expiresAt of ['2026-01-01', '2026-01-01T00:00:00', '2025-10-31T00:00:00Z', 1]) {
+        expect(validateApiKeyInput({ name: 'Bot', scopes: ['admin'], expiresAt }, now)).toEqual({
+          valid: false,
+          error: VALIDATION_ERRORS.API_KEY_EXPIRES_AT_INVALID,
+        });
+      }
+    });
+
+    it('should reject an expiresAt beyond API_KEY_ROTATION_DAYS', () => {
+      const input = { name: 'Bot', scopes: ['admin'] };
+
+      expect(validateApiKeyInput({ ...input, expiresAt: '2026-01-30T00:00:00Z' }, now)).toEqual({
+        valid: true,
+      });
+      expect(validateApiKeyInput({ ...input, expiresAt: '2026-01-30T00:00:01Z' }, now)).toEqual({
+        valid: false,
+        error: VALIDATION_ERRORS.API_KEY_EXPIRES_AT_INVALID,
+      });
+    });
+
+    it('should accept a given key only when it matches API_KEY_FORMAT', () => {
+      const input = { name: 'Bot', scopes: ['admin'] };
+
+      expect(validateApiKeyInput({ ...input, key: 'a1b2-'.repeat(7) }, now)).toEqual({
+        valid: true,
+      });
+      for (const key of ['a'.repeat(31), `${'a'.repeat(32)} `, `${'a'.repeat(32)}_`, 1, null]) {
+        expect(validateApiKeyInput({ ...input, key }, now)).toEqual({
+          valid: false,
+          error: VALIDATION_ERRORS.API_KEY_FORMAT_INVALID,
+        });
+      }
+    });
+  });
+
   describe('ValidationResult Type', () => {
     it('should return correct structure for valid input', () => {
       const result: ValidationResult = validateTodoInput({ title: 'Test' });
@@ -1,51 +1,59 @@
 import { defineConfig } from 'vitest/config';
-import { defineWorkersConfig } from '@cloudflare/vitest-pool-workers/config';
+import { defineWorkersConfig, readD1Migrations } from '@cloudflare/vitest-pool-workers/config';
 import path from 'path';
 
-export default defineWorkersConfig({
-  test: {
-    globals: true,
-    // Disable snapshot serialization to avoid compatibility issues
-    snapshotSerializers: [],
-    // Use Cloudflare Workers pool for integration tests
-    poolOptions: {
-      workers: {
-        wrangler: {
-          configPath: './wrangler.toml',
-        },
-        miniflare: {
-          // Workers KV binding for tests
-          kvNamespaces: {
-            TODO_KV: 'test-todo-kv',
+export default defineWorkersConfig(async () => {
+  // D1マイグレーションを読み込み、テスト内で applyD1Migrations() に渡す
+  const migrations = await readD1Migrations(path.join(__dirname, 'migrations'));
+
+  return {
+    test: {
+      globals: true,
+      // Disable snapshot serialization to avoid compatibility issues
+      snapshotSerializers: [],
+      // Use Cloudflare Workers pool for integration tests
+      poolOptions: {
+        workers: {
+          wrangler: {
+            configPath: './wrangler.toml',
           },
-          // Environment variables for tests
-          bindings: {
-            VALID_API_KEYS: 'test-api-key,another-test-key',
-            ALLOWED_ORIGINS: '*',
+          miniflare: {
+            // Workers KV binding for tests
+            kvNamespaces: {
+              TODO_KV: 'test-todo-kv',
+            },
+            // D1 binding for storage tests (not bound to the app by default)
+            d1Databases: {
+              TEST_DB: 'test-todo-db',
+            },
+            // Durable Object binding for storage tests (class exported from src/index.ts)
+            durableObjects: {
+              TEST_DO: 'TodoListObject',
+            },
+            // Environment variables for tests
+            bindings: {
+              VALID_API_KEYS: 'test-api-key,another-test-key',
+              ALLOWED_ORIGINS: '*',
+              TEST_MIGRATIONS: migrations,
+            },
           },
         },
       },
+      coverage: {
+        provider: 'v8',
+        reporter: ['text', 'json', 'html'],
+        exclude: ['node_modules/**', 'test/**', '**/*.config.*', '**/dist/**', '**/.wrangler/**'],
+      },
     },
-    coverage: {
-      provider: 'v8',
-      reporter: ['text', 'json', 'html'],
-      exclude: [
-        'node_modules/**',
-        'test/**',
-        '**/*.config.*',
-        '**/dist/**',
-        '**/.wrangler/**',
-      ],
-    },
-  },
-  resolve: {
-    alias: {
-      '@': path.resolve(__dirname, './src'),
-      '@models': path.resolve(__dirname, './src/models'),
-      '@handlers': path.resolve(__dirname, './src/handlers'),
-      '@middleware': path.resolve(__dirname, './src/middleware'),
-      '@storage': path.resolve(__dirname, './src/storage'),
-      '@utils': path.resolve(__dirname, './src/utils'),
+    resolve: {
+      alias: {
+        '@': path.resolve(__dirname, './src'),
+        '@models': path.resolve(__dirname, './src/models'),
+        '@handlers': path.resolve(__dirname, './src/handlers'),
+        '@middleware': path.resolve(__dirname, './src/middleware'),
+        '@storage': path.resolve(__dirname, './src/storage'),
+        '@utils': path.resolve(__dirname, './src/utils'),
+      },
     },
-  },
+  };
 });